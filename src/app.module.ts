@@ -16,6 +16,15 @@ import { TipoCambioModule } from './modules/tipo-cambio/tipo-cambio.module';
 import { MovimientosModule } from './modules/movimientos/movimientos.module';
 import { InventarioModule } from './modules/inventario/inventario.module';
 import { PeriodosModule } from './modules/periodos/periodos.module';
+import { ContabilidadModule } from './modules/contabilidad/contabilidad.module';
+import { FacturacionModule } from './modules/facturacion/facturacion.module';
+import { CuentasPorCobrarModule } from './modules/cuentas-por-cobrar/cuentas-por-cobrar.module';
+import { CuentasPorPagarModule } from './modules/cuentas-por-pagar/cuentas-por-pagar.module';
+import { TomaInventarioModule } from './modules/toma-inventario/toma-inventario.module';
+import { ReposicionModule } from './modules/reposicion/reposicion.module';
+import { ProduccionModule } from './modules/produccion/produccion.module';
+import { ConsignacionModule } from './modules/consignacion/consignacion.module';
+import { CostosImportacionModule } from './modules/costos-importacion/costos-importacion.module';
 import { DatabaseSeedService } from './config/database-seed.service';
 import { Role } from './modules/users/entities/role.entity';
 import { User } from './modules/users/entities/user.entity';
@@ -44,6 +53,15 @@ import { UserRole } from './modules/users/entities/user-role.entity';
     MovimientosModule,
     InventarioModule,
     PeriodosModule,
+    ContabilidadModule,
+    FacturacionModule,
+    CuentasPorCobrarModule,
+    CuentasPorPagarModule,
+    TomaInventarioModule,
+    ReposicionModule,
+    ProduccionModule,
+    ConsignacionModule,
+    CostosImportacionModule,
   ],
   controllers: [AppController, ComprobanteController],
   providers: [AppService, DatabaseSeedService],
@@ -7,6 +7,7 @@ import { UserRole } from '../modules/users/entities/user-role.entity';
 import { RolEnum } from '../modules/users/enums/RoleEnum';
 import { Tabla } from '../modules/comprobantes/entities/tabla.entity';
 import { TablaDetalle } from '../modules/comprobantes/entities/tabla-detalle.entity';
+import { TABLA_6_UNIDADES_MEDIDA } from '../modules/productos/enum/unidad-medida-sunat';
 import { hash } from 'bcrypt';
 
 /**
@@ -145,6 +146,7 @@ export class DatabaseSeedService implements OnModuleInit {
    */
   private async seedTablas() {
     try {
+      await this.seedTabla6();
       await this.seedTabla10();
       await this.seedTabla12();
     } catch (error) {
@@ -153,6 +155,54 @@ export class DatabaseSeedService implements OnModuleInit {
     }
   }
 
+  /**
+   * Crea la Tabla 6 (Unidades de Medida) y agrega los códigos faltantes del catálogo
+   */
+  private async seedTabla6() {
+    try {
+      let tabla6 = await this.tablaRepository.findOne({
+        where: { numeroTabla: '6' },
+      });
+
+      if (!tabla6) {
+        this.logger.log('Creando Tabla 6 (Unidades de Medida)...');
+        tabla6 = await this.tablaRepository.save(
+          this.tablaRepository.create({
+            numeroTabla: '6',
+            nombre: 'Código de la Unidad de Medida',
+            descripcion:
+              'Catálogo de unidades de medida según SUNAT (UN/ECE Rec 20)',
+            activo: true,
+          }),
+        );
+      }
+
+      const existentes = await this.tablaDetalleRepository.find({
+        where: { tabla: { idTabla: tabla6.idTabla } },
+      });
+      const codigos = new Set(existentes.map((detalle) => detalle.codigo));
+      const faltantes = Object.entries(TABLA_6_UNIDADES_MEDIDA).filter(
+        ([codigo]) => !codigos.has(codigo),
+      );
+
+      if (faltantes.length > 0) {
+        await this.tablaDetalleRepository.save(
+          faltantes.map(([codigo, descripcion]) =>
+            this.tablaDetalleRepository.create({
+              tabla: tabla6,
+              codigo,
+              descripcion,
+              activo: true,
+            }),
+          ),
+        );
+        this.logger.log(`Tabla 6: ${faltantes.length} unidades agregadas`);
+      }
+    } catch (error) {
+      this.logger.error('Error al crear Tabla 6:', error.message);
+    }
+  }
+
   /**
    * Crea la Tabla 10 (Tipos de Comprobante) y sus detalles
    */
@@ -7,6 +7,7 @@ import {
   IsPositive,
   MaxLength,
   MinLength,
+  Matches,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -41,6 +42,22 @@ export class CreateAlmacenDto {
   @MaxLength(255, { message: 'La ubicación no puede exceder 255 caracteres' })
   ubicacion: string;
 
+  /**
+   * Código de establecimiento anexo en SUNAT (opcional)
+   */
+  @ApiProperty({
+    description: 'Código de establecimiento anexo registrado en SUNAT',
+    example: '0000',
+    required: false,
+    maxLength: 4,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}$/, {
+    message: 'El código de establecimiento debe tener 4 dígitos',
+  })
+  codigoEstablecimiento?: string;
+
   /**
    * Descripción del almacén (opcional)
    */
@@ -36,6 +36,16 @@ export class ResponseAlmacenDto {
   @Expose()
   ubicacion: string;
 
+  /**
+   * Código de establecimiento anexo en SUNAT
+   */
+  @ApiProperty({
+    description: 'Código de establecimiento anexo registrado en SUNAT',
+    example: '0000',
+  })
+  @Expose()
+  codigoEstablecimiento: string;
+
   /**
    * Descripción del almacén
    */
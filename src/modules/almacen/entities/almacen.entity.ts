@@ -6,6 +6,7 @@ import {
   PrimaryGeneratedColumn,
 } from 'typeorm';
 import { Persona } from '../../users/entities/persona.entity';
+import { Entidad } from '../../entidades/entities/entidad.entity';
 
 /**
  * Entidad que representa un almacén en el sistema
@@ -36,6 +37,12 @@ export class Almacen {
   @Column({ length: 255, nullable: false })
   ubicacion: string;
 
+  /**
+   * Código de establecimiento anexo registrado en SUNAT (libros electrónicos)
+   */
+  @Column({ length: 4, default: '0000' })
+  codigoEstablecimiento: string;
+
   /**
    * Estado del almacén (activo/inactivo)
    */
@@ -66,6 +73,14 @@ export class Almacen {
   @Column({ length: 20, nullable: true })
   telefono: string;
 
+  /**
+   * Cliente consignatario cuando el almacén representa su local
+   * La mercadería entregada en consignación sigue siendo de la empresa y se controla aquí
+   */
+  @ManyToOne(() => Entidad, { nullable: true })
+  @JoinColumn({ name: 'id_entidad_consignataria' })
+  entidadConsignataria?: Entidad | null;
+
   /**
    * Fecha de creación del registro
    */
@@ -8,6 +8,7 @@ import {
   IsEnum,
 } from 'class-validator';
 import { TipoCategoria } from '../enum';
+import { EstrategiaConsumo } from '../../productos/enum/estrategia-consumo.enum';
 
 /**
  * DTO para crear una nueva categoría
@@ -56,6 +57,22 @@ export class CreateCategoriaDto {
   @IsEnum(TipoCategoria, { message: 'El tipo debe ser PRODUCTO o SERVICIO' })
   tipo?: TipoCategoria;
 
+  /**
+   * Estrategia de consumo de lotes para los productos de la categoría (opcional)
+   */
+  @ApiProperty({
+    description:
+      'Estrategia de consumo de lotes: FIFO (fecha de ingreso) o FEFO (fecha de vencimiento)',
+    enum: EstrategiaConsumo,
+    example: EstrategiaConsumo.FEFO,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(EstrategiaConsumo, {
+    message: 'La estrategia de consumo debe ser FIFO o FEFO',
+  })
+  estrategiaConsumo?: EstrategiaConsumo;
+
   /**
    * Estado de la categoría (opcional, por defecto true)
    */
@@ -1,6 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Expose } from 'class-transformer';
 import { TipoCategoria } from '../enum';
+import { EstrategiaConsumo } from '../../productos/enum/estrategia-consumo.enum';
 
 /**
  * DTO de respuesta para categoría
@@ -49,6 +50,17 @@ export class ResponseCategoriaDto {
   @Expose()
   tipo: TipoCategoria;
 
+  /**
+   * Estrategia de consumo de lotes
+   */
+  @ApiProperty({
+    description: 'Estrategia de consumo de lotes (nulo: FIFO)',
+    enum: EstrategiaConsumo,
+    required: false,
+  })
+  @Expose()
+  estrategiaConsumo?: EstrategiaConsumo | null;
+
   /**
    * Estado de la categoría
    */
@@ -8,6 +8,7 @@ import {
 } from 'typeorm';
 import { Producto } from '../../productos/entities';
 import { TipoCategoria } from '../enum/tipo-categoria.enum';
+import { EstrategiaConsumo } from '../../productos/enum/estrategia-consumo.enum';
 import { Persona } from '../../users/entities/persona.entity';
 
 /**
@@ -41,6 +42,12 @@ export class Categoria {
   })
   tipo: TipoCategoria;
 
+  /**
+   * Orden de despacho de lotes para los productos que no definen uno propio
+   */
+  @Column({ type: 'enum', enum: EstrategiaConsumo, nullable: true })
+  estrategiaConsumo?: EstrategiaConsumo | null;
+
   /**
    * Estado de la categoría (activo/inactivo)
    */
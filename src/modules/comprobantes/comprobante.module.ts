@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Comprobante } from './entities/comprobante';
 import { ComprobanteDetalle } from './entities/comprobante-detalle';
@@ -21,8 +21,16 @@ import { InventarioModule } from '../inventario/inventario.module';
 import { ComprobanteDetalleService } from './service/comprobante-detalle.service';
 import { ComprobanteTotalesService } from './service/comprobante-totales.service';
 import { TransferenciasService } from './service/transferencias.service';
+import { PleService } from './service/ple.service';
+import { ComprobantePdfService } from './service/comprobante-pdf.service';
+import { DocumentoElectronico } from '../facturacion/entities/documento-electronico.entity';
 import { UserModule } from '../users/user.module';
 import { PeriodosModule } from '../periodos/periodos.module';
+import { ContabilidadModule } from '../contabilidad/contabilidad.module';
+import { CuentasPorCobrarModule } from '../cuentas-por-cobrar/cuentas-por-cobrar.module';
+import { CuentasPorPagarModule } from '../cuentas-por-pagar/cuentas-por-pagar.module';
+import { TipoCambioModule } from '../tipo-cambio/tipo-cambio.module';
+import { ConsignacionModule } from '../consignacion/consignacion.module';
 
 @Module({
   imports: [
@@ -34,12 +42,18 @@ import { PeriodosModule } from '../periodos/periodos.module';
       Tabla,
       TablaDetalle,
       PeriodoContable,
+      DocumentoElectronico,
     ]),
     EntidadModule,
     MovimientosModule,
     InventarioModule,
     UserModule,
     PeriodosModule,
+    ContabilidadModule,
+    CuentasPorCobrarModule,
+    CuentasPorPagarModule,
+    TipoCambioModule,
+    forwardRef(() => ConsignacionModule),
   ],
   controllers: [
     ComprobanteController,
@@ -55,7 +69,15 @@ import { PeriodosModule } from '../periodos/periodos.module';
     ComprobanteDetalleService,
     ComprobanteTotalesService,
     TransferenciasService,
+    PleService,
+    ComprobantePdfService,
+  ],
+  exports: [
+    TypeOrmModule,
+    ComprobanteService,
+    ComprasService,
+    VentasService,
+    ComprobantePdfService,
   ],
-  exports: [TypeOrmModule, ComprobanteService, ComprasService, VentasService],
 })
 export class ComprobanteModule {}
@@ -1,4 +1,13 @@
-import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
 import {
   ApiOperation,
   ApiResponse,
@@ -8,7 +17,11 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { ComprasService } from '../service/compras.service';
+import { PleService } from '../service/ple.service';
 import { ResponseComprobanteDto } from '../dto/comprobante/response-comprobante.dto';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { CuentasPorPagarService } from '../../cuentas-por-pagar/service';
+import { ResponseEstadoCuentaProveedorDto } from '../../cuentas-por-pagar/dto';
 import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
 import { CurrentUser } from '../../users/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
@@ -22,7 +35,61 @@ import type { AuthenticatedUser } from '../../users/decorators/current-user.deco
 @UseGuards(JwtAuthGuard)
 @Controller('api/compras')
 export class ComprasController {
-  constructor(private readonly comprasService: ComprasService) {}
+  constructor(
+    private readonly comprasService: ComprasService,
+    private readonly pleService: PleService,
+    private readonly cuentasPorPagarService: CuentasPorPagarService,
+  ) {}
+
+  /**
+   * Exporta el Registro de Compras en formato PLE 8.1
+   * @param idPeriodo - ID del período contable
+   * @param mes - Mes a declarar (1-12)
+   * @returns Promise<StreamableFile> Archivo TXT con el nombre oficial de SUNAT
+   */
+  @Get('ple/:idPeriodo')
+  @ApiOperation({
+    summary: 'Exportar Registro de Compras PLE 8.1',
+    description:
+      'Genera el archivo TXT del Registro de Compras de un mes del período contable. Si no hay compras se genera el archivo sin información',
+  })
+  @ApiParam({
+    name: 'idPeriodo',
+    description: 'ID del período contable',
+    type: 'number',
+  })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a declarar (1-12)',
+    type: 'number',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo PLE generado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Mes inválido o período de otra empresa',
+  })
+  async exportarPle(
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', ParseIntPipe) mes: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const archivo = await this.pleService.generarRegistroCompras(
+      idPeriodo,
+      mes,
+      user.personaId,
+    );
+    return new StreamableFile(Buffer.from(archivo.contenido, 'utf-8'), {
+      type: 'text/plain; charset=utf-8',
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
 
   /**
    * Obtiene todos los comprobantes de compra
@@ -141,4 +208,70 @@ export class ComprasController {
     }
     return this.comprasService.findByProveedor(proveedorId, user.personaId);
   }
+
+  /**
+   * Estado de cuenta de un proveedor
+   * @param proveedorId - ID del proveedor
+   * @param moneda - Moneda de los comprobantes (por defecto PEN)
+   * @param desde - Fecha inicial (YYYY-MM-DD)
+   * @param hasta - Fecha final (YYYY-MM-DD)
+   * @returns Promise<ResponseEstadoCuentaProveedorDto> Comprobantes, notas y pagos con saldo acumulado
+   */
+  @Get('proveedor/:proveedorId/estado-cuenta')
+  @ApiOperation({
+    summary: 'Obtener estado de cuenta del proveedor',
+    description:
+      'Lista comprobantes de compra, notas de crédito y débito, y pagos del proveedor con su saldo acumulado',
+  })
+  @ApiParam({
+    name: 'proveedorId',
+    description: 'ID del proveedor',
+    type: 'number',
+  })
+  @ApiQuery({
+    name: 'moneda',
+    description: 'Moneda de los comprobantes',
+    enum: Moneda,
+    required: false,
+  })
+  @ApiQuery({
+    name: 'desde',
+    description: 'Fecha inicial (YYYY-MM-DD)',
+    required: false,
+    example: '2024-01-01',
+  })
+  @ApiQuery({
+    name: 'hasta',
+    description: 'Fecha final (YYYY-MM-DD)',
+    required: false,
+    example: '2024-12-31',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Estado de cuenta del proveedor',
+    type: ResponseEstadoCuentaProveedorDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Proveedor no encontrado',
+  })
+  async estadoCuenta(
+    @Param('proveedorId', ParseIntPipe) proveedorId: number,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('moneda', new ParseEnumPipe(Moneda, { optional: true }))
+    moneda?: Moneda,
+    @Query('desde') desde?: string,
+    @Query('hasta') hasta?: string,
+  ): Promise<ResponseEstadoCuentaProveedorDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorPagarService.estadoCuentaProveedor(
+      user.personaId,
+      proveedorId,
+      moneda ?? Moneda.PEN,
+      desde,
+      hasta,
+    );
+  }
 }
@@ -1,4 +1,15 @@
-import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
 import {
   ApiOperation,
   ApiResponse,
@@ -10,8 +21,12 @@ import {
   ApiExtraModels,
   ApiBody,
   ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { ComprobanteService } from '../service/comprobante.service';
+import { ComprobantePdfService } from '../service/comprobante-pdf.service';
+import { ComprobantePdfQueryDto } from '../dto/comprobante/comprobante-pdf-query.dto';
 import { CreateComprobanteDto } from '../dto/comprobante/create-comprobante.dto';
 import { ResponseComprobanteDto } from '../dto/comprobante/response-comprobante.dto';
 import { CreateComprobanteDetalleDto } from '../dto/comprobante-detalle/create-comprobante-detalle.dto';
@@ -25,7 +40,10 @@ import type { AuthenticatedUser } from '../../users/decorators/current-user.deco
 @ApiExtraModels(CreateComprobanteDetalleDto)
 @Controller('api/comprobante')
 export class ComprobanteController {
-  constructor(private readonly comprobanteService: ComprobanteService) {}
+  constructor(
+    private readonly comprobanteService: ComprobanteService,
+    private readonly comprobantePdfService: ComprobantePdfService,
+  ) {}
 
   /**
    * Lista todos los comprobantes registrados de la empresa del usuario autenticado,
@@ -94,6 +112,41 @@ export class ComprobanteController {
     );
   }
 
+  /**
+   * Representación impresa del comprobante con los datos y el logo de la empresa
+   */
+  @Get(':id/pdf')
+  @ApiOperation({
+    summary: 'Obtener el PDF del comprobante',
+    description:
+      'Genera el comprobante en PDF (hoja A4 o ticket de 80 mm) con el logo y los datos de la empresa, el cliente, los detalles, los totales, el importe en letras y el código QR de SUNAT',
+  })
+  @ApiParam({ name: 'id', description: 'ID del comprobante', example: 1 })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'PDF generado exitosamente' })
+  @ApiResponse({ status: 404, description: 'Comprobante no encontrado' })
+  async getPdf(
+    @Param('id', ParseIntPipe) id: number,
+    @Query(new ValidationPipe({ transform: true }))
+    query: ComprobantePdfQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
+    const pdf = await this.comprobantePdfService.generar(
+      id,
+      user.personaId,
+      query.formato,
+    );
+    const disposicion = query.descargar ? 'attachment' : 'inline';
+    return new StreamableFile(pdf.contenido, {
+      type: 'application/pdf',
+      disposition: `${disposicion}; filename="${pdf.nombreArchivo}"`,
+    });
+  }
+
   @Post()
   @ApiOperation({
     summary: 'Crear un nuevo comprobante',
@@ -140,6 +193,7 @@ export class ComprobanteController {
     return this.comprobanteService.register(
       createComprobanteDto,
       user.personaId,
+      user.id,
     );
   }
 }
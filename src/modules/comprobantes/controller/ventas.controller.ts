@@ -1,4 +1,12 @@
-import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
 import {
   ApiOperation,
   ApiResponse,
@@ -8,8 +16,11 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { VentasService } from '../service/ventas.service';
+import { PleService } from '../service/ple.service';
 import { ResponseComprobanteDto } from '../dto/comprobante/response-comprobante.dto';
 import { ResponseComprobanteWithDetallesDto } from '../dto/comprobante/response-comprobante-with-detalles.dto';
+import { CuentasPorCobrarService } from '../../cuentas-por-cobrar/service';
+import { ResponseSaldoComprobanteDto } from '../../cuentas-por-cobrar/dto';
 import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
 import { CurrentUser } from '../../users/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
@@ -23,7 +34,61 @@ import type { AuthenticatedUser } from '../../users/decorators/current-user.deco
 @UseGuards(JwtAuthGuard)
 @Controller('api/ventas')
 export class VentasController {
-  constructor(private readonly ventasService: VentasService) {}
+  constructor(
+    private readonly ventasService: VentasService,
+    private readonly pleService: PleService,
+    private readonly cuentasPorCobrarService: CuentasPorCobrarService,
+  ) {}
+
+  /**
+   * Exporta el Registro de Ventas e Ingresos en formato PLE 14.1
+   * @param idPeriodo - ID del período contable
+   * @param mes - Mes a declarar (1-12)
+   * @returns Promise<StreamableFile> Archivo TXT con el nombre oficial de SUNAT
+   */
+  @Get('ple/:idPeriodo')
+  @ApiOperation({
+    summary: 'Exportar Registro de Ventas PLE 14.1',
+    description:
+      'Genera el archivo TXT del Registro de Ventas e Ingresos de un mes del período contable',
+  })
+  @ApiParam({
+    name: 'idPeriodo',
+    description: 'ID del período contable',
+    type: 'number',
+  })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a declarar (1-12)',
+    type: 'number',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo PLE generado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Mes inválido o período de otra empresa',
+  })
+  async exportarPle(
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', ParseIntPipe) mes: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const archivo = await this.pleService.generarRegistroVentas(
+      idPeriodo,
+      mes,
+      user.personaId,
+    );
+    return new StreamableFile(Buffer.from(archivo.contenido, 'utf-8'), {
+      type: 'text/plain; charset=utf-8',
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
 
   /**
    * Obtiene todos los comprobantes de venta
@@ -76,6 +141,41 @@ export class VentasController {
     return this.ventasService.findById(id, user.personaId);
   }
 
+  /**
+   * Obtiene el saldo pendiente de cobro de una venta
+   * @param id - ID del comprobante
+   * @returns Promise<ResponseSaldoComprobanteDto> Saldo neto de notas y cobros, con sus cuotas
+   */
+  @Get(':id/saldo')
+  @ApiOperation({
+    summary: 'Obtener saldo por cobrar de una venta',
+    description:
+      'Total del comprobante más notas de débito, menos notas de crédito y cobros aplicados',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del comprobante de venta',
+    type: 'number',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saldo de la venta',
+    type: ResponseSaldoComprobanteDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Comprobante de venta no encontrado',
+  })
+  async obtenerSaldo(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseSaldoComprobanteDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.obtenerSaldo(id, user.personaId);
+  }
+
   /**
    * Busca comprobantes de venta por rango de fechas
    * @param fechaInicio - Fecha de inicio del rango (formato: YYYY-MM-DD)
@@ -1,5 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  IsArray,
+  IsEnum,
   IsNotEmpty,
   IsNumber,
   IsOptional,
@@ -7,6 +9,7 @@ import {
   Length,
   Min,
 } from 'class-validator';
+import { TipoAfectacionIgv } from '../../enum/tipo-afectacion-igv.enum';
 
 export class CreateComprobanteDetalleDto {
   @ApiProperty({
@@ -28,7 +31,8 @@ export class CreateComprobanteDetalleDto {
   cantidad: number;
 
   @ApiProperty({
-    description: 'Unidad de medida',
+    description:
+      'Unidad de medida (Tabla 6 SUNAT): la base del producto o una de sus unidades configuradas',
     example: 'KG',
   })
   @IsString()
@@ -72,6 +76,15 @@ export class CreateComprobanteDetalleDto {
   @Min(0)
   isc: number;
 
+  @ApiPropertyOptional({
+    description: 'Tipo de afectación del IGV (Catálogo 07 de SUNAT)',
+    enum: TipoAfectacionIgv,
+    default: TipoAfectacionIgv.GRAVADO_ONEROSA,
+  })
+  @IsOptional()
+  @IsEnum(TipoAfectacionIgv)
+  tipoAfectacionIgv?: TipoAfectacionIgv;
+
   @ApiProperty({
     description: 'Total del detalle',
     example: 315.95,
@@ -92,11 +105,22 @@ export class CreateComprobanteDetalleDto {
 
   @ApiPropertyOptional({
     description:
-      'ID del lote específico para ventas (opcional, si no se especifica usa FIFO)',
+      'ID del lote que se vende; obligatorio con costo específico, opcional con FIFO/PROMEDIO (si no se indica sale según la estrategia del producto)',
     example: 123,
   })
   @IsOptional()
   @IsNumber()
   @Min(1)
   loteId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Números de serie de las unidades; obligatorio para productos serializados, uno por unidad base',
+    example: ['IMEI-356938035643809', 'IMEI-356938035643817'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  numerosSerie?: string[];
 }
@@ -1,4 +1,5 @@
 import { Expose, Transform } from 'class-transformer';
+import { TipoAfectacionIgv } from '../../enum/tipo-afectacion-igv.enum';
 
 export class ResponseComprobanteDetalleDto {
   @Expose()
@@ -21,6 +22,10 @@ export class ResponseComprobanteDetalleDto {
   @Expose()
   unidadMedida: string;
 
+  // Unidades base del producto por cada unidad del detalle
+  @Expose()
+  factorConversion: number;
+
   @Expose()
   precioUnitario: number;
 
@@ -33,9 +38,20 @@ export class ResponseComprobanteDetalleDto {
   @Expose()
   isc?: number;
 
+  @Expose()
+  tipoAfectacionIgv: TipoAfectacionIgv;
+
   @Expose()
   total: number;
 
   @Expose()
   descripcion: string;
+
+  // Lote elegido en la venta (costo específico)
+  @Expose()
+  loteId?: number | null;
+
+  // Números de serie de las unidades (productos serializados)
+  @Expose()
+  numerosSerie?: string[] | null;
 }
@@ -15,4 +15,16 @@ export class ResponseComprobanteTotalesDto {
   totalIsc?: number;
   @Expose()
   totalGeneral: number;
+  @Expose()
+  totalGravadaMn?: number;
+  @Expose()
+  totalExoneradaMn?: number;
+  @Expose()
+  totalInafectaMn?: number;
+  @Expose()
+  totalIgvMn?: number;
+  @Expose()
+  totalIscMn?: number;
+  @Expose()
+  totalGeneralMn?: number;
 }
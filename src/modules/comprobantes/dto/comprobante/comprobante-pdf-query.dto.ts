@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { FormatoPdf } from '../../enum/formato-pdf.enum';
+
+export class ComprobantePdfQueryDto {
+  /**
+   * Diseño de impresión: hoja A4 o ticket de 80 mm
+   */
+  @ApiPropertyOptional({
+    description: 'Diseño de impresión del comprobante',
+    enum: FormatoPdf,
+    default: FormatoPdf.A4,
+  })
+  @IsOptional()
+  @IsEnum(FormatoPdf, { message: 'El formato debe ser a4 o ticket' })
+  formato?: FormatoPdf = FormatoPdf.A4;
+
+  /**
+   * Si es true el PDF se descarga como adjunto en lugar de mostrarse en el navegador
+   */
+  @ApiPropertyOptional({
+    description: 'Descargar el PDF como adjunto en lugar de mostrarlo',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  descargar?: boolean = false;
+}
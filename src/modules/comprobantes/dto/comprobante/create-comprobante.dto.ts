@@ -6,6 +6,7 @@ import {
   IsDateString,
   IsOptional,
   IsNumber,
+  IsBoolean,
   ValidateNested,
   Length,
 } from 'class-validator';
@@ -53,7 +54,8 @@ export class CreateComprobanteDto {
   moneda: Moneda;
 
   @ApiPropertyOptional({
-    description: 'Tipo de cambio aplicado',
+    description:
+      'Tipo de cambio aplicado; si se omite en comprobantes en USD se toma el publicado por SUNAT a la fecha de emisión',
     example: 3.75,
   })
   @IsOptional()
@@ -102,6 +104,15 @@ export class CreateComprobanteDto {
   @IsEnum(MetodoValoracion)
   metodoValoracion?: MetodoValoracion;
 
+  @ApiPropertyOptional({
+    description:
+      'Autoriza despachar lotes vencidos en las salidas (por defecto se rechazan)',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  permitirLotesVencidos?: boolean;
+
   /**
    * Total general del comprobante cuando no existen detalles.
    * Para ventas/compras con detalles, este campo será ignorado y los totales
@@ -24,6 +24,10 @@ export class ResponseComprobanteDto {
   @Expose()
   tipoCambio?: number;
   @Expose()
+  fechaTipoCambio?: string | null;
+  @Expose()
+  fuenteTipoCambio?: string | null;
+  @Expose()
   serie: string;
   @Expose()
   numero: string;
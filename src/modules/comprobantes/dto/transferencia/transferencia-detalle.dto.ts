@@ -5,6 +5,7 @@ import {
   Length,
   IsOptional,
   IsNumber,
+  IsArray,
 } from 'class-validator';
 
 export class TransferenciaDetalleDto {
@@ -20,4 +21,10 @@ export class TransferenciaDetalleDto {
   @IsString()
   @Length(0, 255)
   descripcion?: string;
+
+  // Unidades que se trasladan (obligatorio para productos serializados)
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  numerosSerie?: string[];
 }
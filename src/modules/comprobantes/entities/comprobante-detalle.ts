@@ -7,6 +7,7 @@ import {
 } from 'typeorm';
 import { Comprobante } from './comprobante';
 import { Inventario } from '../../inventario/entities/inventario.entity';
+import { TipoAfectacionIgv } from '../enum/tipo-afectacion-igv.enum';
 
 @Entity({ name: 'comprobante_detalle' })
 export class ComprobanteDetalle {
@@ -28,6 +29,10 @@ export class ComprobanteDetalle {
   @Column({ length: 10 })
   unidadMedida: string;
 
+  // Unidades base del producto por cada unidad del documento (CAJA = 12 UND -> 12)
+  @Column('decimal', { precision: 15, scale: 6, default: 1 })
+  factorConversion: number;
+
   @Column('decimal', { precision: 15, scale: 4 })
   precioUnitario: number;
 
@@ -40,9 +45,25 @@ export class ComprobanteDetalle {
   @Column('decimal', { precision: 15, scale: 2, nullable: true })
   isc: number;
 
+  // Afectación del IGV (Catálogo 07)
+  @Column({
+    type: 'enum',
+    enum: TipoAfectacionIgv,
+    default: TipoAfectacionIgv.GRAVADO_ONEROSA,
+  })
+  tipoAfectacionIgv: TipoAfectacionIgv;
+
   @Column('decimal', { precision: 15, scale: 2 })
   total: number;
 
   @Column({ length: 255 })
   descripcion: string;
+
+  // Lote elegido en la venta (obligatorio con costo específico)
+  @Column({ name: 'id_lote', type: 'bigint', nullable: true })
+  loteId?: number | null;
+
+  // Números de serie de las unidades (productos serializados)
+  @Column({ type: 'simple-json', nullable: true })
+  numerosSerie?: string[] | null;
 }
@@ -33,4 +33,23 @@ export class ComprobanteTotales {
 
   @Column('decimal', { precision: 15, scale: 2 })
   totalGeneral: number;
+
+  // Equivalentes en moneda nacional según el tipo de cambio del comprobante
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalGravadaMn: number;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalExoneradaMn: number;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalInafectaMn: number;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalIgvMn: number;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalIscMn: number;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true })
+  totalGeneralMn: number;
 }
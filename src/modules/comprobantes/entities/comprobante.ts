@@ -11,6 +11,7 @@ import { ComprobanteDetalle } from './comprobante-detalle';
 import { ComprobanteTotales } from './comprobante-totales';
 import { Entidad } from '../../entidades/entities/entidad.entity';
 import { Persona } from '../../users/entities/persona.entity';
+import { User } from '../../users/entities/user.entity';
 import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
 import { TablaDetalle } from './tabla-detalle.entity';
 import { Moneda } from '../enum/tipo-moneda.enum';
@@ -59,10 +60,18 @@ export class Comprobante {
   })
   moneda: Moneda;
 
-  //Manual
+  //Manual o resuelto desde la tabla de tipos de cambio
   @Column('decimal', { precision: 10, scale: 4, nullable: true })
   tipoCambio: number;
 
+  // Fecha de publicación del tipo de cambio aplicado
+  @Column({ type: 'date', nullable: true })
+  fechaTipoCambio: string | null;
+
+  // Origen del tipo de cambio: SUNAT, MANUAL o COMPROBANTE_AFECTO
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  fuenteTipoCambio: string | null;
+
   //manual
   @Column({ length: 5, nullable: false })
   serie: string;
@@ -104,4 +113,9 @@ export class Comprobante {
   @ManyToOne(() => Comprobante, { nullable: true })
   @JoinColumn({ name: 'id_comprobante_afecto' })
   comprobanteAfecto?: Comprobante;
+
+  // Usuario que registró el comprobante; en ventas es el vendedor
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'id_usuario' })
+  usuario?: User | null;
 }
@@ -0,0 +1,7 @@
+/**
+ * Diseño de impresión del comprobante
+ */
+export enum FormatoPdf {
+  A4 = 'a4',
+  TICKET = 'ticket', // Rollo térmico de 80 mm
+}
@@ -1,4 +1,6 @@
 export enum MetodoValoracion {
   FIFO = 'fifo',
   PROMEDIO = 'promedio',
+  // Costo específico: cada venta indica el lote que sale y se valoriza a su costo
+  ESPECIFICO = 'especifico',
 }
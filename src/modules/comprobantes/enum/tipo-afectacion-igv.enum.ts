@@ -0,0 +1,9 @@
+/**
+ * Tipos de afectación del IGV según el Catálogo 07 de SUNAT
+ */
+export enum TipoAfectacionIgv {
+  GRAVADO_ONEROSA = '10',
+  EXONERADO_ONEROSA = '20',
+  INAFECTO_ONEROSA = '30',
+  EXPORTACION = '40',
+}
@@ -0,0 +1,122 @@
+import { generarCodigoQr } from './codigo-qr';
+
+/**
+ * Tests unitarios para el codificador QR
+ * Verifica la elección de versión, los bits de formato del nivel Q y los codewords de una
+ * cadena conocida leyendo la matriz como lo haría un lector
+ */
+describe('generarCodigoQr', () => {
+  // Tabla de información de formato de la norma para el nivel Q, índice = máscara
+  const FORMATO_Q = [
+    '011010101011111',
+    '011000001101000',
+    '011111100110001',
+    '011101000000110',
+    '010010010110100',
+    '010000110000011',
+    '010111011011010',
+    '010101111101101',
+  ];
+
+  const invierte = (mascara: number, x: number, y: number): boolean =>
+    [
+      (x + y) % 2 === 0,
+      y % 2 === 0,
+      x % 3 === 0,
+      (x + y) % 3 === 0,
+      (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      ((x * y) % 2) + ((x * y) % 3) === 0,
+      (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+      (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+    ][mascara];
+
+  /** Las dos copias de los 15 bits de formato, del bit 14 al 0 */
+  const leerFormato = (qr: boolean[][]): [string, string] => {
+    const tamano = qr.length;
+    const bit = (x: number, y: number) => (qr[y][x] ? '1' : '0');
+    const primera: string[] = [];
+    const segunda: string[] = [];
+    for (let i = 0; i < 15; i++) {
+      primera[14 - i] =
+        i <= 5
+          ? bit(8, i)
+          : i === 6
+            ? bit(8, 7)
+            : i === 7
+              ? bit(8, 8)
+              : i === 8
+                ? bit(7, 8)
+                : bit(14 - i, 8);
+      segunda[14 - i] =
+        i < 8 ? bit(tamano - 1 - i, 8) : bit(8, tamano - 15 + i);
+    }
+    return [primera.join(''), segunda.join('')];
+  };
+
+  /** Codewords de una versión 1: recorrido en zigzag sin los módulos de función */
+  const leerCodewordsVersion1 = (qr: boolean[][], mascara: number) => {
+    const funcion = (x: number, y: number) =>
+      x === 6 ||
+      y === 6 ||
+      (x <= 8 && (y <= 8 || y >= 13)) ||
+      (x >= 13 && y <= 8);
+    const bits: number[] = [];
+    for (let derecha = 20; derecha >= 1; derecha -= 2) {
+      if (derecha === 6) {
+        derecha = 5;
+      }
+      const haciaArriba = ((derecha + 1) & 2) === 0;
+      for (let vertical = 0; vertical < 21; vertical++) {
+        const y = haciaArriba ? 20 - vertical : vertical;
+        for (const x of [derecha, derecha - 1]) {
+          if (!funcion(x, y)) {
+            bits.push(Number(qr[y][x] !== invierte(mascara, x, y)));
+          }
+        }
+      }
+    }
+    const codewords: number[] = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b));
+    }
+    return codewords;
+  };
+
+  it('should pick the smallest version that fits the bytes at level Q', () => {
+    expect(generarCodigoQr('A'.repeat(11))).toHaveLength(21);
+    expect(generarCodigoQr('A'.repeat(12))).toHaveLength(25);
+    // Los caracteres acentuados ocupan dos bytes en UTF-8
+    expect(generarCodigoQr(`${'A'.repeat(9)}Ñ`)).toHaveLength(21);
+    expect(generarCodigoQr(`${'A'.repeat(10)}Ñ`)).toHaveLength(25);
+    expect(generarCodigoQr('A'.repeat(151))).toHaveLength(57);
+    expect(() => generarCodigoQr('A'.repeat(152))).toThrow('demasiado largo');
+  });
+
+  it('should write both copies of the level Q format bits', () => {
+    const qr = generarCodigoQr(
+      '20123456789|01|F001|123|18.00|118.00|2024-05-02|6|20987654321||',
+    );
+    const [primera, segunda] = leerFormato(qr);
+
+    expect(FORMATO_Q).toContain(primera);
+    expect(segunda).toBe(primera);
+    // Módulo oscuro fijo junto al buscador inferior
+    expect(qr[qr.length - 8][8]).toBe(true);
+  });
+
+  it('should place the known codewords of a version 1-Q symbol', () => {
+    const qr = generarCodigoQr('HOLA');
+    const mascara = FORMATO_Q.indexOf(leerFormato(qr)[0]);
+
+    // Buscador superior izquierdo y patrón de sincronización
+    expect(qr[0].slice(0, 8).map(Number)).toEqual([1, 1, 1, 1, 1, 1, 1, 0]);
+    expect(qr[2].slice(0, 7).map(Number)).toEqual([1, 0, 1, 1, 1, 0, 1]);
+    expect(qr[6].slice(8, 13).map(Number)).toEqual([1, 0, 1, 0, 1]);
+    expect(mascara).toBeGreaterThanOrEqual(0);
+    // Modo byte, 4 bytes "HOLA", terminador y relleno; luego 13 codewords Reed-Solomon
+    expect(leerCodewordsVersion1(qr, mascara)).toEqual([
+      0x40, 0x44, 0x84, 0xf4, 0xc4, 0x10, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11,
+      0xec, 7, 222, 57, 185, 134, 234, 148, 51, 235, 203, 220, 228, 59,
+    ]);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * Codificador QR en modo byte con corrección de errores nivel Q (ISO/IEC 18004)
+ * Cubre las versiones 1 a 10 (hasta 151 bytes), suficiente para la cadena del QR de SUNAT
+ */
+
+// Codewords de corrección por bloque y número de bloques del nivel Q; índice = versión
+const ECC_POR_BLOQUE_Q = [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24];
+const BLOQUES_Q = [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8];
+const VERSION_MAXIMA = 10;
+// Bits de formato del nivel Q
+const NIVEL_Q = 3;
+
+/**
+ * Matriz de módulos del código; true es un módulo oscuro. No incluye la zona silenciosa
+ */
+export function generarCodigoQr(texto: string): boolean[][] {
+  const datos = Buffer.from(texto, 'utf-8');
+  const version = elegirVersion(datos.length);
+  const codewords = agregarCorreccion(codificarDatos(datos, version), version);
+
+  const qr = new MatrizQr(version);
+  qr.dibujarPatrones();
+  qr.dibujarDatos(codewords);
+
+  // Se elige la máscara con menor penalidad, como indica la norma
+  let mejor: { mascara: number; penalidad: number } | undefined;
+  for (let mascara = 0; mascara < 8; mascara++) {
+    qr.aplicarMascara(mascara);
+    qr.dibujarFormato(mascara);
+    const penalidad = qr.penalidad();
+    if (!mejor || penalidad < mejor.penalidad) {
+      mejor = { mascara, penalidad };
+    }
+    qr.aplicarMascara(mascara);
+  }
+  qr.aplicarMascara(mejor!.mascara);
+  qr.dibujarFormato(mejor!.mascara);
+  return qr.modulos;
+}
+
+function elegirVersion(largo: number): number {
+  for (let version = 1; version <= VERSION_MAXIMA; version++) {
+    // Modo (4 bits) + longitud (8 o 16 bits) + datos
+    const bits = 4 + (version < 10 ? 8 : 16) + largo * 8;
+    if (bits <= capacidadDatos(version) * 8) {
+      return version;
+    }
+  }
+  throw new Error(`El texto del código QR es demasiado largo (${largo} bytes)`);
+}
+
+function modulosDatos(version: number): number {
+  let total = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alineamientos = Math.floor(version / 7) + 2;
+    total -= (25 * alineamientos - 10) * alineamientos - 55;
+    if (version >= 7) {
+      total -= 36;
+    }
+  }
+  return total;
+}
+
+function capacidadDatos(version: number): number {
+  return (
+    Math.floor(modulosDatos(version) / 8) -
+    ECC_POR_BLOQUE_Q[version] * BLOQUES_Q[version]
+  );
+}
+
+function codificarDatos(datos: Buffer, version: number): number[] {
+  const bits: number[] = [];
+  const agregar = (valor: number, largo: number) => {
+    for (let i = largo - 1; i >= 0; i--) {
+      bits.push((valor >>> i) & 1);
+    }
+  };
+  agregar(0b0100, 4);
+  agregar(datos.length, version < 10 ? 8 : 16);
+  datos.forEach((byte) => agregar(byte, 8));
+
+  const capacidad = capacidadDatos(version) * 8;
+  agregar(0, Math.min(4, capacidad - bits.length));
+  agregar(0, (8 - (bits.length % 8)) % 8);
+  for (let relleno = 0xec; bits.length < capacidad; relleno ^= 0xec ^ 0x11) {
+    agregar(relleno, 8);
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    bytes.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit));
+  }
+  return bytes;
+}
+
+/**
+ * Divide los datos en bloques, agrega Reed-Solomon a cada uno e intercala los codewords
+ */
+function agregarCorreccion(datos: number[], version: number): number[] {
+  const bloques = BLOQUES_Q[version];
+  const eccPorBloque = ECC_POR_BLOQUE_Q[version];
+  const totalCodewords = Math.floor(modulosDatos(version) / 8);
+  const bloquesCortos = bloques - (totalCodewords % bloques);
+  const largoBloqueCorto = Math.floor(totalCodewords / bloques);
+  const divisor = divisorReedSolomon(eccPorBloque);
+
+  const conCorreccion: number[][] = [];
+  for (let i = 0, k = 0; i < bloques; i++) {
+    const largo = largoBloqueCorto - eccPorBloque + (i < bloquesCortos ? 0 : 1);
+    const bloque = datos.slice(k, k + largo);
+    k += largo;
+    const ecc = restoReedSolomon(bloque, divisor);
+    if (i < bloquesCortos) {
+      bloque.push(0);
+    }
+    conCorreccion.push([...bloque, ...ecc]);
+  }
+
+  const resultado: number[] = [];
+  for (let i = 0; i < conCorreccion[0].length; i++) {
+    conCorreccion.forEach((bloque, j) => {
+      // Los bloques cortos llevan un byte de relleno que no se transmite
+      if (i !== largoBloqueCorto - eccPorBloque || j >= bloquesCortos) {
+        resultado.push(bloque[i]);
+      }
+    });
+  }
+  return resultado;
+}
+
+function multiplicarGf(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function divisorReedSolomon(grado: number): number[] {
+  const divisor = new Array<number>(grado).fill(0);
+  divisor[grado - 1] = 1;
+  let raiz = 1;
+  for (let i = 0; i < grado; i++) {
+    for (let j = 0; j < grado; j++) {
+      divisor[j] = multiplicarGf(divisor[j], raiz);
+      if (j + 1 < grado) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    raiz = multiplicarGf(raiz, 0x02);
+  }
+  return divisor;
+}
+
+function restoReedSolomon(datos: number[], divisor: number[]): number[] {
+  const resto = new Array<number>(divisor.length).fill(0);
+  for (const byte of datos) {
+    const factor = byte ^ resto.shift()!;
+    resto.push(0);
+    divisor.forEach((coeficiente, i) => {
+      resto[i] ^= multiplicarGf(coeficiente, factor);
+    });
+  }
+  return resto;
+}
+
+class MatrizQr {
+  readonly tamano: number;
+  readonly modulos: boolean[][];
+  private readonly reservados: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.tamano = version * 4 + 17;
+    this.modulos = Array.from({ length: this.tamano }, () =>
+      new Array<boolean>(this.tamano).fill(false),
+    );
+    this.reservados = Array.from({ length: this.tamano }, () =>
+      new Array<boolean>(this.tamano).fill(false),
+    );
+  }
+
+  dibujarPatrones(): void {
+    for (let i = 0; i < this.tamano; i++) {
+      this.fijar(6, i, i % 2 === 0);
+      this.fijar(i, 6, i % 2 === 0);
+    }
+    this.dibujarBuscador(3, 3);
+    this.dibujarBuscador(this.tamano - 4, 3);
+    this.dibujarBuscador(3, this.tamano - 4);
+
+    const posiciones = this.posicionesAlineamiento();
+    const ultimo = posiciones.length - 1;
+    posiciones.forEach((x, i) =>
+      posiciones.forEach((y, j) => {
+        const esquinaBuscador =
+          (i === 0 && j === 0) ||
+          (i === 0 && j === ultimo) ||
+          (i === ultimo && j === 0);
+        if (!esquinaBuscador) {
+          this.dibujarAlineamiento(x, y);
+        }
+      }),
+    );
+
+    // Reserva las zonas de formato antes de ubicar los datos
+    this.dibujarFormato(0);
+    this.dibujarVersion();
+  }
+
+  dibujarDatos(codewords: number[]): void {
+    let i = 0;
+    for (let derecha = this.tamano - 1; derecha >= 1; derecha -= 2) {
+      if (derecha === 6) {
+        derecha = 5;
+      }
+      for (let vertical = 0; vertical < this.tamano; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = derecha - j;
+          const haciaArriba = ((derecha + 1) & 2) === 0;
+          const y = haciaArriba ? this.tamano - 1 - vertical : vertical;
+          if (!this.reservados[y][x] && i < codewords.length * 8) {
+            this.modulos[y][x] =
+              ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** Aplicarla dos veces la deshace */
+  aplicarMascara(mascara: number): void {
+    for (let y = 0; y < this.tamano; y++) {
+      for (let x = 0; x < this.tamano; x++) {
+        if (!this.reservados[y][x] && this.invierte(mascara, x, y)) {
+          this.modulos[y][x] = !this.modulos[y][x];
+        }
+      }
+    }
+  }
+
+  dibujarFormato(mascara: number): void {
+    const datos = (NIVEL_Q << 3) | mascara;
+    let resto = datos;
+    for (let i = 0; i < 10; i++) {
+      resto = (resto << 1) ^ ((resto >>> 9) * 0x537);
+    }
+    const bits = ((datos << 10) | resto) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) {
+      this.fijar(8, i, bit(i));
+    }
+    this.fijar(8, 7, bit(6));
+    this.fijar(8, 8, bit(7));
+    this.fijar(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) {
+      this.fijar(14 - i, 8, bit(i));
+    }
+    for (let i = 0; i < 8; i++) {
+      this.fijar(this.tamano - 1 - i, 8, bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.fijar(8, this.tamano - 15 + i, bit(i));
+    }
+    this.fijar(8, this.tamano - 8, true);
+  }
+
+  /**
+   * Penalidad de la norma: corridas de 5 o más, bloques 2x2, patrones parecidos al buscador
+   * y desbalance entre módulos oscuros y claros
+   */
+  penalidad(): number {
+    let total = 0;
+    const lineas: string[] = [];
+    for (let i = 0; i < this.tamano; i++) {
+      lineas.push(this.modulos[i].map((m) => (m ? '1' : '0')).join(''));
+      lineas.push(this.modulos.map((fila) => (fila[i] ? '1' : '0')).join(''));
+    }
+    for (const linea of lineas) {
+      for (const corrida of linea.match(/0{5,}|1{5,}/g) ?? []) {
+        total += corrida.length - 2;
+      }
+      const conMargen = `0000${linea}0000`;
+      for (const patron of ['00001011101', '10111010000']) {
+        for (
+          let i = conMargen.indexOf(patron);
+          i >= 0;
+          i = conMargen.indexOf(patron, i + 1)
+        ) {
+          total += 40;
+        }
+      }
+    }
+    let oscuros = 0;
+    for (let y = 0; y < this.tamano; y++) {
+      for (let x = 0; x < this.tamano; x++) {
+        const color = this.modulos[y][x];
+        if (color) {
+          oscuros++;
+        }
+        if (
+          x < this.tamano - 1 &&
+          y < this.tamano - 1 &&
+          color === this.modulos[y][x + 1] &&
+          color === this.modulos[y + 1][x] &&
+          color === this.modulos[y + 1][x + 1]
+        ) {
+          total += 3;
+        }
+      }
+    }
+    const area = this.tamano * this.tamano;
+    total +=
+      Math.max(0, Math.ceil(Math.abs(oscuros * 20 - area * 10) / area) - 1) *
+      10;
+    return total;
+  }
+
+  private invierte(mascara: number, x: number, y: number): boolean {
+    switch (mascara) {
+      case 0:
+        return (x + y) % 2 === 0;
+      case 1:
+        return y % 2 === 0;
+      case 2:
+        return x % 3 === 0;
+      case 3:
+        return (x + y) % 3 === 0;
+      case 4:
+        return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+      case 5:
+        return ((x * y) % 2) + ((x * y) % 3) === 0;
+      case 6:
+        return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+      default:
+        return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    }
+  }
+
+  private dibujarVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let resto = this.version;
+    for (let i = 0; i < 12; i++) {
+      resto = (resto << 1) ^ ((resto >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | resto;
+    for (let i = 0; i < 18; i++) {
+      const oscuro = ((bits >>> i) & 1) === 1;
+      const a = this.tamano - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.fijar(a, b, oscuro);
+      this.fijar(b, a, oscuro);
+    }
+  }
+
+  private posicionesAlineamiento(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const cantidad = Math.floor(this.version / 7) + 2;
+    const paso =
+      Math.floor((this.version * 8 + cantidad * 3 + 5) / (cantidad * 4 - 4)) *
+      2;
+    const posiciones = [6];
+    for (let pos = this.tamano - 7; posiciones.length < cantidad; pos -= paso) {
+      posiciones.splice(1, 0, pos);
+    }
+    return posiciones;
+  }
+
+  private dibujarBuscador(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distancia = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.tamano && yy >= 0 && yy < this.tamano) {
+          this.fijar(xx, yy, distancia !== 2 && distancia !== 4);
+        }
+      }
+    }
+  }
+
+  private dibujarAlineamiento(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.fijar(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private fijar(x: number, y: number, oscuro: boolean): void {
+    this.modulos[y][x] = oscuro;
+    this.reservados[y][x] = true;
+  }
+}
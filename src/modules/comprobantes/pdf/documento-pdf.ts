@@ -0,0 +1,495 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+export type AlineacionTexto = 'izquierda' | 'centro' | 'derecha';
+
+export interface EstiloTexto {
+  tamano?: number;
+  negrita?: boolean;
+  alineacion?: AlineacionTexto;
+}
+
+/**
+ * Imagen lista para incrustar como XObject
+ */
+export interface ImagenPdf {
+  ancho: number;
+  alto: number;
+  espacioColor: 'DeviceRGB' | 'DeviceGray' | 'DeviceCMYK';
+  filtro: 'DCTDecode' | 'FlateDecode';
+  datos: Buffer;
+}
+
+/** Milímetros a puntos PDF */
+export const mm = (valor: number): number => (valor * 72) / 25.4;
+
+// Anchos de Helvetica y Helvetica-Bold (AFM) para los caracteres 32 a 126, en milésimas del tamaño
+const ANCHOS_HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const ANCHOS_HELVETICA_NEGRITA = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// Caracteres de WinAnsiEncoding fuera de Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+interface PaginaPdf {
+  alto: number;
+  // Las operaciones se guardan con coordenadas desde arriba y se convierten al generar,
+  // para poder ajustar el alto de la página (ticket) después de dibujar
+  operaciones: ((alto: number) => string)[];
+}
+
+/**
+ * Escritor de PDF 1.4 sin dependencias: texto con las fuentes estándar Helvetica, líneas,
+ * rectángulos, imágenes JPEG/PNG y códigos QR. Las coordenadas se miden en puntos desde la
+ * esquina superior izquierda
+ */
+export class DocumentoPdf {
+  private readonly paginas: PaginaPdf[] = [];
+  private readonly imagenes: ImagenPdf[] = [];
+
+  constructor(
+    readonly ancho: number,
+    private readonly altoPagina: number,
+  ) {
+    this.agregarPagina();
+  }
+
+  get cantidadPaginas(): number {
+    return this.paginas.length;
+  }
+
+  agregarPagina(alto = this.altoPagina): void {
+    this.paginas.push({ alto, operaciones: [] });
+  }
+
+  /** Cambia el alto de la página actual; se usa en tickets de largo variable */
+  ajustarAlto(alto: number): void {
+    this.paginaActual().alto = alto;
+  }
+
+  /**
+   * Escribe una línea de texto; y es la línea base
+   */
+  texto(x: number, y: number, texto: string, estilo: EstiloTexto = {}): void {
+    const tamano = estilo.tamano ?? 9;
+    const fuente = estilo.negrita ? 'F2' : 'F1';
+    const ancho = this.anchoTexto(texto, tamano, estilo.negrita);
+    const inicio =
+      estilo.alineacion === 'derecha'
+        ? x - ancho
+        : estilo.alineacion === 'centro'
+          ? x - ancho / 2
+          : x;
+    const cadena = this.cadenaPdf(texto);
+    this.paginaActual().operaciones.push(
+      (alto) =>
+        `BT /${fuente} ${this.n(tamano)} Tf ${this.n(inicio)} ${this.n(alto - y)} Td ${cadena} Tj ET`,
+    );
+  }
+
+  linea(x1: number, y1: number, x2: number, y2: number, grosor = 0.5): void {
+    this.paginaActual().operaciones.push(
+      (alto) =>
+        `${this.n(grosor)} w ${this.n(x1)} ${this.n(alto - y1)} m ${this.n(x2)} ${this.n(alto - y2)} l S`,
+    );
+  }
+
+  /**
+   * Rectángulo con borde, relleno gris (0 negro, 1 blanco) o ambos
+   */
+  rectangulo(
+    x: number,
+    y: number,
+    ancho: number,
+    alto: number,
+    opciones: { relleno?: number; borde?: boolean } = {},
+  ): void {
+    const borde = opciones.borde ?? opciones.relleno === undefined;
+    this.paginaActual().operaciones.push((altoPagina) => {
+      const figura = `${this.n(x)} ${this.n(altoPagina - y - alto)} ${this.n(ancho)} ${this.n(alto)} re`;
+      if (opciones.relleno === undefined) {
+        return `0.5 w ${figura} S`;
+      }
+      return `${this.n(opciones.relleno)} g 0.5 w ${figura} ${borde ? 'B' : 'f'} 0 g`;
+    });
+  }
+
+  imagen(
+    imagen: ImagenPdf,
+    x: number,
+    y: number,
+    ancho: number,
+    alto: number,
+  ): void {
+    let indice = this.imagenes.indexOf(imagen);
+    if (indice < 0) {
+      indice = this.imagenes.push(imagen) - 1;
+    }
+    this.paginaActual().operaciones.push(
+      (altoPagina) =>
+        `q ${this.n(ancho)} 0 0 ${this.n(alto)} ${this.n(x)} ${this.n(altoPagina - y - alto)} cm /Im${indice + 1} Do Q`,
+    );
+  }
+
+  /**
+   * Dibuja la matriz del QR en un cuadrado de lado dado, con zona silenciosa de 2 módulos
+   */
+  codigoQr(modulos: boolean[][], x: number, y: number, lado: number): void {
+    const tamanoModulo = lado / (modulos.length + 4);
+    this.paginaActual().operaciones.push((altoPagina) => {
+      const cuadros: string[] = [];
+      modulos.forEach((fila, i) =>
+        fila.forEach((oscuro, j) => {
+          if (oscuro) {
+            const mx = x + (j + 2) * tamanoModulo;
+            const my = altoPagina - y - (i + 3) * tamanoModulo;
+            cuadros.push(
+              `${this.n(mx)} ${this.n(my)} ${this.n(tamanoModulo)} ${this.n(tamanoModulo)} re`,
+            );
+          }
+        }),
+      );
+      return `0 g ${cuadros.join(' ')} f`;
+    });
+  }
+
+  anchoTexto(texto: string, tamano: number, negrita = false): number {
+    const anchos = negrita ? ANCHOS_HELVETICA_NEGRITA : ANCHOS_HELVETICA;
+    let total = 0;
+    for (const caracter of texto) {
+      // Las letras acentuadas miden lo mismo que su letra base
+      const base = caracter.normalize('NFD').charCodeAt(0);
+      total += base >= 32 && base <= 126 ? anchos[base - 32] : 556;
+    }
+    return (total * tamano) / 1000;
+  }
+
+  /**
+   * Parte el texto en líneas que no superan el ancho, cortando por palabras
+   */
+  dividirTexto(
+    texto: string,
+    anchoMaximo: number,
+    tamano: number,
+    negrita = false,
+  ): string[] {
+    const lineas: string[] = [];
+    for (const parrafo of texto.split(/\r?\n/)) {
+      let actual = '';
+      for (const palabra of parrafo.split(/\s+/).filter(Boolean)) {
+        const candidata = actual ? `${actual} ${palabra}` : palabra;
+        if (this.anchoTexto(candidata, tamano, negrita) <= anchoMaximo) {
+          actual = candidata;
+          continue;
+        }
+        if (actual) {
+          lineas.push(actual);
+        }
+        // Una palabra más ancha que la columna se corta por caracteres
+        actual = '';
+        for (const caracter of palabra) {
+          if (
+            actual &&
+            this.anchoTexto(actual + caracter, tamano, negrita) > anchoMaximo
+          ) {
+            lineas.push(actual);
+            actual = '';
+          }
+          actual += caracter;
+        }
+      }
+      lineas.push(actual);
+    }
+    return lineas;
+  }
+
+  generar(): Buffer {
+    const objetos: Buffer[] = [];
+    const agregar = (contenido: string | Buffer): number =>
+      objetos.push(
+        Buffer.isBuffer(contenido)
+          ? contenido
+          : Buffer.from(contenido, 'latin1'),
+      );
+    const flujo = (diccionario: string, datos: Buffer) =>
+      Buffer.concat([
+        Buffer.from(
+          `<< ${diccionario} /Length ${datos.length} >>\nstream\n`,
+          'latin1',
+        ),
+        datos,
+        Buffer.from('\nendstream', 'latin1'),
+      ]);
+
+    // 1 catálogo, 2 árbol de páginas, 3 y 4 fuentes, luego imágenes, páginas y contenidos
+    const primeraImagen = 5;
+    const primeraPagina = primeraImagen + this.imagenes.length;
+    agregar('<< /Type /Catalog /Pages 2 0 R >>');
+    agregar(
+      `<< /Type /Pages /Kids [${this.paginas.map((_p, i) => `${primeraPagina + i * 2} 0 R`).join(' ')}] /Count ${this.paginas.length} >>`,
+    );
+    agregar(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    );
+    agregar(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    );
+    for (const imagen of this.imagenes) {
+      agregar(
+        flujo(
+          `/Type /XObject /Subtype /Image /Width ${imagen.ancho} /Height ${imagen.alto} /ColorSpace /${imagen.espacioColor} /BitsPerComponent 8 /Filter /${imagen.filtro}`,
+          imagen.datos,
+        ),
+      );
+    }
+
+    const recursoImagenes = this.imagenes
+      .map((_imagen, i) => `/Im${i + 1} ${primeraImagen + i} 0 R`)
+      .join(' ');
+    this.paginas.forEach((pagina, i) => {
+      const contenido = primeraPagina + i * 2 + 1;
+      agregar(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.n(this.ancho)} ${this.n(pagina.alto)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${recursoImagenes ? ` /XObject << ${recursoImagenes} >>` : ''} >> ` +
+          `/Contents ${contenido} 0 R >>`,
+      );
+      const operaciones = pagina.operaciones
+        .map((operacion) => operacion(pagina.alto))
+        .join('\n');
+      agregar(
+        flujo(
+          '/Filter /FlateDecode',
+          deflateSync(Buffer.from(operaciones, 'latin1')),
+        ),
+      );
+    });
+
+    const partes: Buffer[] = [
+      Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'),
+    ];
+    let posicion = partes[0].length;
+    const posiciones: number[] = [];
+    objetos.forEach((objeto, i) => {
+      const parte = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+        objeto,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      posiciones.push(posicion);
+      posicion += parte.length;
+      partes.push(parte);
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objetos.length + 1}`,
+      '0000000000 65535 f ',
+      ...posiciones.map((p) => `${String(p).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objetos.length + 1} /Root 1 0 R >>`,
+      'startxref',
+      String(posicion),
+      '%%EOF',
+    ].join('\n');
+    partes.push(Buffer.from(`${xref}\n`, 'latin1'));
+    return Buffer.concat(partes);
+  }
+
+  private paginaActual(): PaginaPdf {
+    return this.paginas[this.paginas.length - 1];
+  }
+
+  /** Cadena literal en WinAnsiEncoding; lo que no tiene representación se cambia por ? */
+  private cadenaPdf(texto: string): string {
+    let resultado = '';
+    for (const caracter of texto) {
+      const codigo = caracter.charCodeAt(0);
+      let byte: number;
+      if (WIN_ANSI[caracter] !== undefined) {
+        byte = WIN_ANSI[caracter];
+      } else if (
+        (codigo >= 32 && codigo <= 126) ||
+        (codigo >= 160 && codigo <= 255)
+      ) {
+        byte = codigo;
+      } else {
+        byte = 63;
+      }
+      const letra = String.fromCharCode(byte);
+      resultado += ['(', ')', '\\'].includes(letra) ? `\\${letra}` : letra;
+    }
+    return `(${resultado})`;
+  }
+
+  private n(valor: number): string {
+    return String(Math.round(valor * 100) / 100);
+  }
+}
+
+/**
+ * Lee una imagen JPEG o PNG (8 bits, no entrelazada) desde un data URL o base64
+ * Devuelve null si el formato no se puede incrustar
+ */
+export function cargarImagen(origen: string): ImagenPdf | null {
+  const base64 = origen.replace(/^data:[^;,]*;base64,/, '');
+  const datos = Buffer.from(base64, 'base64');
+  if (datos.length > 3 && datos[0] === 0xff && datos[1] === 0xd8) {
+    return leerJpeg(datos);
+  }
+  if (
+    datos.length > 8 &&
+    datos.subarray(0, 8).equals(Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]))
+  ) {
+    return leerPng(datos);
+  }
+  return null;
+}
+
+function leerJpeg(datos: Buffer): ImagenPdf | null {
+  let pos = 2;
+  while (pos + 9 < datos.length) {
+    if (datos[pos] !== 0xff) {
+      return null;
+    }
+    const marcador = datos[pos + 1];
+    const largo = datos.readUInt16BE(pos + 2);
+    // SOF0 a SOF15, salvo DHT (C4), JPG (C8) y DAC (CC)
+    if (
+      marcador >= 0xc0 &&
+      marcador <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marcador)
+    ) {
+      const componentes = datos[pos + 9];
+      return {
+        alto: datos.readUInt16BE(pos + 5),
+        ancho: datos.readUInt16BE(pos + 7),
+        espacioColor:
+          componentes === 1
+            ? 'DeviceGray'
+            : componentes === 4
+              ? 'DeviceCMYK'
+              : 'DeviceRGB',
+        filtro: 'DCTDecode',
+        datos,
+      };
+    }
+    pos += 2 + largo;
+  }
+  return null;
+}
+
+function leerPng(datos: Buffer): ImagenPdf | null {
+  let ancho = 0;
+  let alto = 0;
+  let tipoColor = -1;
+  let paleta: Buffer | undefined;
+  const idat: Buffer[] = [];
+  for (let pos = 8; pos + 8 <= datos.length; ) {
+    const largo = datos.readUInt32BE(pos);
+    const tipo = datos.toString('latin1', pos + 4, pos + 8);
+    const contenido = datos.subarray(pos + 8, pos + 8 + largo);
+    if (tipo === 'IHDR') {
+      ancho = contenido.readUInt32BE(0);
+      alto = contenido.readUInt32BE(4);
+      tipoColor = contenido[9];
+      // Solo 8 bits por canal y sin entrelazado
+      if (contenido[8] !== 8 || contenido[12] !== 0) {
+        return null;
+      }
+    } else if (tipo === 'PLTE') {
+      paleta = contenido;
+    } else if (tipo === 'IDAT') {
+      idat.push(contenido);
+    }
+    pos += 12 + largo;
+  }
+
+  const canales = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[tipoColor];
+  if (!canales || (tipoColor === 3 && !paleta)) {
+    return null;
+  }
+
+  const crudo = inflateSync(Buffer.concat(idat));
+  const paso = ancho * canales;
+  const pixeles = Buffer.alloc(alto * paso);
+  for (let y = 0; y < alto; y++) {
+    const filtro = crudo[y * (paso + 1)];
+    for (let x = 0; x < paso; x++) {
+      const valor = crudo[y * (paso + 1) + 1 + x];
+      const a = x >= canales ? pixeles[y * paso + x - canales] : 0;
+      const b = y > 0 ? pixeles[(y - 1) * paso + x] : 0;
+      const c =
+        x >= canales && y > 0 ? pixeles[(y - 1) * paso + x - canales] : 0;
+      let prediccion = 0;
+      if (filtro === 1) {
+        prediccion = a;
+      } else if (filtro === 2) {
+        prediccion = b;
+      } else if (filtro === 3) {
+        prediccion = Math.floor((a + b) / 2);
+      } else if (filtro === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        prediccion = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      pixeles[y * paso + x] = (valor + prediccion) & 0xff;
+    }
+  }
+
+  // La transparencia se compone sobre fondo blanco
+  const sobreBlanco = (color: number, alfa: number) =>
+    Math.round((color * alfa + 255 * (255 - alfa)) / 255);
+  const gris = tipoColor === 0 || tipoColor === 4;
+  const salida = Buffer.alloc(ancho * alto * (gris ? 1 : 3));
+  for (let i = 0; i < ancho * alto; i++) {
+    const p = i * canales;
+    if (tipoColor === 0) {
+      salida[i] = pixeles[p];
+    } else if (tipoColor === 4) {
+      salida[i] = sobreBlanco(pixeles[p], pixeles[p + 1]);
+    } else if (tipoColor === 3) {
+      paleta!.copy(salida, i * 3, pixeles[p] * 3, pixeles[p] * 3 + 3);
+    } else {
+      for (let k = 0; k < 3; k++) {
+        salida[i * 3 + k] =
+          tipoColor === 6
+            ? sobreBlanco(pixeles[p + k], pixeles[p + 3])
+            : pixeles[p + k];
+      }
+    }
+  }
+
+  return {
+    ancho,
+    alto,
+    espacioColor: gris ? 'DeviceGray' : 'DeviceRGB',
+    filtro: 'FlateDecode',
+    datos: deflateSync(salida),
+  };
+}
@@ -0,0 +1,4 @@
+export { generarCodigoQr } from './codigo-qr';
+export { importeEnLetras, montoEnLetras } from './monto-en-letras';
+export { DocumentoPdf, cargarImagen, mm } from './documento-pdf';
+export type { AlineacionTexto, EstiloTexto, ImagenPdf } from './documento-pdf';
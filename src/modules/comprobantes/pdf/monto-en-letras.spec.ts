@@ -0,0 +1,24 @@
+import { montoEnLetras } from './monto-en-letras';
+import { Moneda } from '../enum/tipo-moneda.enum';
+
+/**
+ * Tests unitarios para la leyenda del importe en letras
+ * Verifica CIEN/CIENTO, el apócope de UNO delante de MIL y MILLONES y los céntimos
+ */
+describe('montoEnLetras', () => {
+  it('should write soles with cents over 100', () => {
+    expect(montoEnLetras(1180.5, Moneda.PEN)).toBe(
+      'SON: MIL CIENTO OCHENTA CON 50/100 SOLES',
+    );
+    expect(montoEnLetras(100, Moneda.PEN)).toBe('SON: CIEN CON 00/100 SOLES');
+  });
+
+  it('should shorten UNO before MIL and MILLONES', () => {
+    expect(montoEnLetras(21_000, Moneda.USD)).toBe(
+      'SON: VEINTIÚN MIL CON 00/100 DÓLARES AMERICANOS',
+    );
+    expect(montoEnLetras(31_001_001.99, Moneda.PEN)).toBe(
+      'SON: TREINTA Y UN MILLONES MIL UNO CON 99/100 SOLES',
+    );
+  });
+});
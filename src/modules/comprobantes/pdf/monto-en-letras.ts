@@ -0,0 +1,131 @@
+import { Moneda } from '../enum/tipo-moneda.enum';
+
+const UNIDADES = [
+  '',
+  'UNO',
+  'DOS',
+  'TRES',
+  'CUATRO',
+  'CINCO',
+  'SEIS',
+  'SIETE',
+  'OCHO',
+  'NUEVE',
+  'DIEZ',
+  'ONCE',
+  'DOCE',
+  'TRECE',
+  'CATORCE',
+  'QUINCE',
+  'DIECISÉIS',
+  'DIECISIETE',
+  'DIECIOCHO',
+  'DIECINUEVE',
+  'VEINTE',
+  'VEINTIUNO',
+  'VEINTIDÓS',
+  'VEINTITRÉS',
+  'VEINTICUATRO',
+  'VEINTICINCO',
+  'VEINTISÉIS',
+  'VEINTISIETE',
+  'VEINTIOCHO',
+  'VEINTINUEVE',
+];
+const DECENAS = [
+  '',
+  '',
+  '',
+  'TREINTA',
+  'CUARENTA',
+  'CINCUENTA',
+  'SESENTA',
+  'SETENTA',
+  'OCHENTA',
+  'NOVENTA',
+];
+const CENTENAS = [
+  '',
+  'CIENTO',
+  'DOSCIENTOS',
+  'TRESCIENTOS',
+  'CUATROCIENTOS',
+  'QUINIENTOS',
+  'SEISCIENTOS',
+  'SETECIENTOS',
+  'OCHOCIENTOS',
+  'NOVECIENTOS',
+];
+
+const NOMBRE_MONEDA: Record<Moneda, string> = {
+  [Moneda.PEN]: 'SOLES',
+  [Moneda.USD]: 'DÓLARES AMERICANOS',
+};
+
+/**
+ * Importe en letras de la leyenda 1000 de SUNAT, usado en el XML UBL y en el PDF
+ * Ej.: 1180.5 → "MIL CIENTO OCHENTA CON 50/100 SOLES"
+ */
+export function importeEnLetras(monto: number, moneda: Moneda): string {
+  const centimos = Math.round(Math.abs(Number(monto) || 0) * 100);
+  const entero = Math.floor(centimos / 100);
+  const decimales = String(centimos % 100).padStart(2, '0');
+  return `${enteroEnLetras(entero)} CON ${decimales}/100 ${NOMBRE_MONEDA[moneda] ?? moneda}`;
+}
+
+/**
+ * Importe en letras para la representación impresa del comprobante
+ * Ej.: 1180.5 → "SON: MIL CIENTO OCHENTA CON 50/100 SOLES"
+ */
+export function montoEnLetras(monto: number, moneda: Moneda): string {
+  return `SON: ${importeEnLetras(monto, moneda)}`;
+}
+
+function enteroEnLetras(numero: number): string {
+  if (numero === 0) {
+    return 'CERO';
+  }
+  const millones = Math.floor(numero / 1_000_000);
+  const miles = Math.floor((numero % 1_000_000) / 1000);
+  const resto = numero % 1000;
+
+  const partes: string[] = [];
+  if (millones > 0) {
+    partes.push(
+      millones === 1
+        ? 'UN MILLÓN'
+        : `${apocopar(enteroEnLetras(millones))} MILLONES`,
+    );
+  }
+  if (miles > 0) {
+    partes.push(miles === 1 ? 'MIL' : `${apocopar(centenas(miles))} MIL`);
+  }
+  if (resto > 0) {
+    partes.push(centenas(resto));
+  }
+  return partes.join(' ');
+}
+
+/** Números de 1 a 999 */
+function centenas(numero: number): string {
+  if (numero === 100) {
+    return 'CIEN';
+  }
+  const centena = CENTENAS[Math.floor(numero / 100)];
+  const decena = numero % 100;
+  let texto: string;
+  if (decena < 30) {
+    texto = UNIDADES[decena];
+  } else {
+    const unidad = decena % 10;
+    texto =
+      DECENAS[Math.floor(decena / 10)] +
+      (unidad ? ` Y ${UNIDADES[unidad]}` : '');
+  }
+  return [centena, texto].filter(Boolean).join(' ');
+}
+
+/** "UNO" delante de MIL o MILLONES se escribe "UN" (veintiún mil, treinta y un mil) */
+function apocopar(texto: string): string {
+  return texto.replace(/VEINTIUNO$/, 'VEINTIÚN').replace(/UNO$/, 'UN');
+}
@@ -5,7 +5,10 @@ import { Repository, EntityManager } from 'typeorm';
 import { CreateComprobanteDetalleDto } from '../dto/comprobante-detalle/create-comprobante-detalle.dto';
 import { Comprobante } from '../entities/comprobante';
 import { ComprobanteTotalesService } from './comprobante-totales.service';
+import { Moneda } from '../enum/tipo-moneda.enum';
 import { Inventario } from 'src/modules/inventario/entities';
+import { resolverFactorConversion } from '../../productos/enum/unidad-medida-sunat';
+import { TipoProducto } from '../../productos/enum/tipo-producto.enum';
 
 @Injectable()
 export class ComprobanteDetalleService {
@@ -53,7 +56,7 @@ export class ComprobanteDetalleService {
         if (dto.idInventario) {
           const inventario = await inventarioRepo.findOne({
             where: { id: dto.idInventario },
-            relations: ['producto', 'almacen'],
+            relations: ['producto', 'producto.unidades', 'almacen'],
           });
 
           if (!inventario) {
@@ -73,6 +76,18 @@ export class ComprobanteDetalleService {
               `El inventario ${dto.idInventario} no tiene un almacén asociado`,
             );
           }
+
+          // El Kardex se lleva en la unidad base del producto; los servicios no mueven stock
+          const factor =
+            inventario.producto.tipo === TipoProducto.SERVICIO
+              ? 1
+              : resolverFactorConversion(inventario.producto, dto.unidadMedida);
+          if (factor === null) {
+            throw new Error(
+              `La unidad ${dto.unidadMedida} no está configurada para el producto ${inventario.producto.nombre}`,
+            );
+          }
+          detalle.factorConversion = factor;
         } else {
           throw new Error('Cada detalle debe tener un inventario asociado');
         }
@@ -86,6 +101,7 @@ export class ComprobanteDetalleService {
       idComprobante,
       detallesSaved,
       manager,
+      comprobante.moneda === Moneda.USD ? Number(comprobante.tipoCambio) : 1,
     );
 
     return detallesSaved;
@@ -0,0 +1,112 @@
+import { inflateSync } from 'zlib';
+import { Repository } from 'typeorm';
+import { ComprobantePdfService } from './comprobante-pdf.service';
+import { Comprobante } from '../entities/comprobante';
+import { FormatoPdf } from '../enum/formato-pdf.enum';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { EntidadType } from '../../entidades/enums';
+import { DocumentoElectronico } from '../../facturacion/entities/documento-electronico.entity';
+
+/**
+ * Tests unitarios para ComprobantePdfService
+ * Verifica que los diseños A4 y ticket generen un PDF válido con la leyenda y el QR
+ */
+describe('ComprobantePdfService', () => {
+  let service: ComprobantePdfService;
+
+  const factura = {
+    idComprobante: 30,
+    serie: 'F001',
+    numero: '123',
+    moneda: Moneda.PEN,
+    fechaEmision: new Date('2024-05-02T10:00:00'),
+    persona: {
+      ruc: '20123456789',
+      razonSocial: 'Comercial Andina SAC',
+      direccion: 'Av. Los Olivos 120, Lima',
+      telefono: '014567890',
+      logo: null,
+    },
+    entidad: {
+      tipo: EntidadType.JURIDICA,
+      nombreCompletoMostrado: 'Distribuidora del Sur EIRL',
+      numeroDocumento: '20987654321',
+    },
+    tipoComprobante: { codigo: '01', descripcion: 'Factura' },
+    detalles: [
+      {
+        cantidad: '2.0000',
+        unidadMedida: 'NIU',
+        descripcion: 'Teclado inalámbrico',
+        total: '118.00',
+      },
+    ],
+    totales: {
+      totalGravada: '100.00',
+      totalExonerada: '0.00',
+      totalInafecta: '0.00',
+      totalIgv: '18.00',
+      totalGeneral: '118.00',
+    },
+  } as unknown as Comprobante;
+
+  /** Texto de los flujos de contenido de las páginas */
+  const contenidoPaginas = (pdf: Buffer): string => {
+    const texto = pdf.toString('latin1');
+    const flujos: string[] = [];
+    const patron = /\/Filter \/FlateDecode \/Length (\d+) >>\nstream\n/g;
+    for (let match = patron.exec(texto); match; match = patron.exec(texto)) {
+      const inicio = match.index + match[0].length;
+      flujos.push(
+        inflateSync(pdf.subarray(inicio, inicio + Number(match[1]))).toString(
+          'latin1',
+        ),
+      );
+    }
+    return flujos.join('\n');
+  };
+
+  beforeEach(() => {
+    service = new ComprobantePdfService(
+      {
+        findOne: jest.fn(() => Promise.resolve(factura)),
+      } as unknown as Repository<Comprobante>,
+      {
+        findOne: jest.fn(() => Promise.resolve({ hash: 'aGFzaC1kZWwteG1s' })),
+      } as unknown as Repository<DocumentoElectronico>,
+    );
+  });
+
+  it('should render an A4 page with the amount in words and the QR', async () => {
+    const pdf = await service.generar(30, 1);
+
+    expect(pdf.nombreArchivo).toBe('20123456789-01-F001-123.pdf');
+    const texto = pdf.contenido.toString('latin1');
+    expect(texto.startsWith('%PDF-1.4')).toBe(true);
+    expect(texto.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(texto).toContain('/MediaBox [0 0 595.28 841.89]');
+
+    const contenido = contenidoPaginas(pdf.contenido);
+    expect(contenido).toContain('(F001-123) Tj');
+    expect(contenido).toContain('(SON: CIENTO DIECIOCHO CON 00/100 SOLES) Tj');
+    expect(contenido).toContain('aGFzaC1kZWwteG1s');
+    // Los módulos oscuros del QR se pintan como rectángulos en un solo relleno
+    const qr = contenido.split('\n').find((linea) => linea.startsWith('0 g '));
+    expect(qr?.match(/ re/g)?.length ?? 0).toBeGreaterThan(100);
+  });
+
+  it('should render an 80 mm ticket trimmed to its content', async () => {
+    const pdf = await service.generar(30, 1, FormatoPdf.TICKET);
+
+    const texto = pdf.contenido.toString('latin1');
+    const [, ancho, alto] =
+      /\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/.exec(texto) ?? [];
+    expect(Number(ancho)).toBe(226.77);
+    expect(Number(alto)).toBeGreaterThan(200);
+    expect(Number(alto)).toBeLessThan(14400);
+
+    const contenido = contenidoPaginas(pdf.contenido);
+    expect(contenido).toContain('(SON: CIENTO DIECIOCHO CON 00/100 SOLES) Tj');
+    expect(contenido).toContain('Distribuidora del Sur EIRL');
+  });
+});
@@ -0,0 +1,608 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Comprobante } from '../entities/comprobante';
+import { FormatoPdf } from '../enum/formato-pdf.enum';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { EntidadType } from '../../entidades/enums';
+import { DocumentoElectronico } from '../../facturacion/entities/documento-electronico.entity';
+import {
+  DocumentoPdf,
+  ImagenPdf,
+  cargarImagen,
+  generarCodigoQr,
+  mm,
+  montoEnLetras,
+} from '../pdf';
+
+/**
+ * PDF generado del comprobante
+ */
+export interface ComprobantePdf {
+  nombreArchivo: string;
+  contenido: Buffer;
+}
+
+/**
+ * Contenido del comprobante ya formateado, común a los diseños A4 y ticket
+ */
+interface DatosImpresion {
+  titulo: string;
+  numero: string;
+  logo: ImagenPdf | null;
+  emisor: {
+    nombre: string;
+    ruc: string;
+    direccion?: string;
+    telefono?: string;
+  };
+  cliente: [string, string][];
+  detalles: {
+    cantidad: string;
+    unidad: string;
+    descripcion: string;
+    precioUnitario: string;
+    importe: string;
+  }[];
+  totales: [string, string][];
+  importeTotal: string;
+  leyenda: string;
+  qr: boolean[][];
+  hash: string | null;
+}
+
+/**
+ * Servicio que genera la representación impresa de los comprobantes en PDF
+ * El PDF se arma en memoria, sin servicios externos, en hoja A4 o ticket de 80 mm
+ */
+@Injectable()
+export class ComprobantePdfService {
+  private static readonly TITULOS_ELECTRONICOS: Record<string, string> = {
+    '01': 'FACTURA ELECTRÓNICA',
+    '03': 'BOLETA DE VENTA ELECTRÓNICA',
+    '07': 'NOTA DE CRÉDITO ELECTRÓNICA',
+    '08': 'NOTA DE DÉBITO ELECTRÓNICA',
+  };
+
+  private static readonly SIMBOLOS_MONEDA: Record<Moneda, string> = {
+    [Moneda.PEN]: 'S/',
+    [Moneda.USD]: 'US$',
+  };
+
+  constructor(
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    @InjectRepository(DocumentoElectronico)
+    private readonly documentoRepository: Repository<DocumentoElectronico>,
+  ) {}
+
+  /**
+   * Genera el PDF de un comprobante de la empresa
+   * @param idComprobante - Comprobante a imprimir
+   * @param personaId - Empresa del usuario autenticado
+   * @param formato - Diseño A4 (por defecto) o ticket
+   */
+  async generar(
+    idComprobante: number,
+    personaId: number,
+    formato: FormatoPdf = FormatoPdf.A4,
+  ): Promise<ComprobantePdf> {
+    const comprobante = await this.comprobanteRepository.findOne({
+      where: { idComprobante, persona: { id: personaId } },
+      relations: [
+        'persona',
+        'entidad',
+        'tipoComprobante',
+        'detalles',
+        'totales',
+        'comprobanteAfecto',
+        'comprobanteAfecto.tipoComprobante',
+      ],
+    });
+    if (!comprobante) {
+      throw new NotFoundException(
+        `Comprobante con ID ${idComprobante} no encontrado`,
+      );
+    }
+
+    // El hash del QR es el del XML generado; si aún no se emitió va vacío
+    const documento = await this.documentoRepository.findOne({
+      where: { comprobante: { idComprobante } },
+    });
+    const datos = this.prepararDatos(comprobante, documento?.hash ?? null);
+    const pdf =
+      formato === FormatoPdf.TICKET
+        ? this.dibujarTicket(datos)
+        : this.dibujarA4(datos);
+
+    return {
+      nombreArchivo: `${comprobante.persona.ruc}-${comprobante.tipoComprobante?.codigo ?? '00'}-${comprobante.serie}-${comprobante.numero}.pdf`,
+      contenido: pdf.generar(),
+    };
+  }
+
+  private prepararDatos(
+    comprobante: Comprobante,
+    hash: string | null,
+  ): DatosImpresion {
+    const { persona, entidad, totales, comprobanteAfecto } = comprobante;
+    const codigo = comprobante.tipoComprobante?.codigo ?? '';
+    const simbolo =
+      ComprobantePdfService.SIMBOLOS_MONEDA[comprobante.moneda] ?? '';
+    const tipoDocumento = !entidad
+      ? '0'
+      : entidad.tipo === EntidadType.JURIDICA
+        ? '6'
+        : '1';
+
+    const cliente: [string, string][] = [
+      ['Señor(es)', entidad?.nombreCompletoMostrado || 'CLIENTES VARIOS'],
+      [tipoDocumento === '6' ? 'RUC' : 'DNI', entidad?.numeroDocumento || '-'],
+    ];
+    if (entidad?.direccion) {
+      cliente.push(['Dirección', entidad.direccion]);
+    }
+    cliente.push([
+      'Fecha de emisión',
+      this.formatearFecha(comprobante.fechaEmision),
+    ]);
+    if (comprobante.fechaVencimiento) {
+      cliente.push([
+        'Fecha de vencimiento',
+        this.formatearFecha(comprobante.fechaVencimiento),
+      ]);
+    }
+    cliente.push([
+      'Moneda',
+      comprobante.moneda === Moneda.USD ? 'DÓLARES AMERICANOS' : 'SOLES',
+    ]);
+    if (comprobanteAfecto) {
+      cliente.push([
+        'Documento que modifica',
+        `${comprobanteAfecto.tipoComprobante?.descripcion ?? ''} ${comprobanteAfecto.serie}-${comprobanteAfecto.numero}`.trim(),
+      ]);
+    }
+
+    const detalles = (comprobante.detalles ?? []).map((detalle) => {
+      const cantidad = Number(detalle.cantidad);
+      const series = detalle.numerosSerie?.length
+        ? ` - S/N: ${detalle.numerosSerie.join(', ')}`
+        : '';
+      return {
+        cantidad: this.formatearNumero(cantidad, 2),
+        unidad: detalle.unidadMedida ?? '',
+        descripcion: `${detalle.descripcion ?? ''}${series}`,
+        // Precio con IGV, igual que en el XML UBL
+        precioUnitario: this.formatearNumero(
+          cantidad ? Number(detalle.total) / cantidad : 0,
+          2,
+        ),
+        importe: this.formatearNumero(Number(detalle.total), 2),
+      };
+    });
+
+    const totalGeneral = Number(totales?.totalGeneral ?? 0);
+    const totalIgv = Number(totales?.totalIgv ?? 0);
+    const filasTotales: [string, string][] = [
+      ['Op. gravada', this.formatearMonto(totales?.totalGravada, simbolo)],
+      ['Op. exonerada', this.formatearMonto(totales?.totalExonerada, simbolo)],
+      ['Op. inafecta', this.formatearMonto(totales?.totalInafecta, simbolo)],
+    ];
+    if (Number(totales?.totalIsc ?? 0) > 0) {
+      filasTotales.push([
+        'ISC',
+        this.formatearMonto(totales?.totalIsc, simbolo),
+      ]);
+    }
+    filasTotales.push(['IGV', this.formatearMonto(totalIgv, simbolo)]);
+
+    const titulo =
+      ComprobantePdfService.TITULOS_ELECTRONICOS[codigo] ??
+      (comprobante.tipoComprobante?.descripcion ?? 'COMPROBANTE').toUpperCase();
+
+    // Contenido del QR según SUNAT, separado por barras verticales
+    const qr = generarCodigoQr(
+      [
+        persona.ruc,
+        codigo,
+        comprobante.serie,
+        comprobante.numero,
+        totalIgv.toFixed(2),
+        totalGeneral.toFixed(2),
+        this.formatearFecha(comprobante.fechaEmision)
+          .split('/')
+          .reverse()
+          .join('-'),
+        tipoDocumento,
+        entidad?.numeroDocumento || '-',
+        hash ?? '',
+        '',
+      ].join('|'),
+    );
+
+    return {
+      titulo,
+      numero: `${comprobante.serie}-${comprobante.numero}`,
+      logo: persona.logo ? cargarImagen(persona.logo) : null,
+      emisor: {
+        nombre: persona.razonSocial || persona.nombreEmpresa,
+        ruc: persona.ruc,
+        direccion: persona.direccion,
+        telefono: persona.telefono,
+      },
+      cliente,
+      detalles,
+      totales: filasTotales,
+      importeTotal: this.formatearMonto(totalGeneral, simbolo),
+      leyenda: montoEnLetras(totalGeneral, comprobante.moneda),
+      qr,
+      hash,
+    };
+  }
+
+  private dibujarA4(datos: DatosImpresion): DocumentoPdf {
+    const anchoPagina = 595.28;
+    const altoPagina = 841.89;
+    const margen = 36;
+    const derecha = anchoPagina - margen;
+    const pdf = new DocumentoPdf(anchoPagina, altoPagina);
+
+    // Cabecera: logo, datos del emisor y recuadro del RUC
+    const anchoRecuadro = 190;
+    const xRecuadro = derecha - anchoRecuadro;
+    let xEmisor = margen;
+    if (datos.logo) {
+      const { ancho, alto } = this.ajustarImagen(datos.logo, 140, 60);
+      pdf.imagen(datos.logo, margen, margen, ancho, alto);
+      xEmisor += ancho + 10;
+    }
+    const anchoEmisor = xRecuadro - xEmisor - 10;
+    let y = margen + 12;
+    for (const linea of pdf.dividirTexto(
+      datos.emisor.nombre,
+      anchoEmisor,
+      11,
+      true,
+    )) {
+      pdf.texto(xEmisor, y, linea, { tamano: 11, negrita: true });
+      y += 13;
+    }
+    for (const linea of this.lineasEmisor(datos)) {
+      for (const parte of pdf.dividirTexto(linea, anchoEmisor, 8)) {
+        pdf.texto(xEmisor, y, parte, { tamano: 8 });
+        y += 10;
+      }
+    }
+
+    const lineasTitulo = pdf.dividirTexto(
+      datos.titulo,
+      anchoRecuadro - 12,
+      11,
+      true,
+    );
+    const altoRecuadro = 24 + (lineasTitulo.length + 1) * 14;
+    pdf.rectangulo(xRecuadro, margen, anchoRecuadro, altoRecuadro, {
+      borde: true,
+    });
+    const centroRecuadro = xRecuadro + anchoRecuadro / 2;
+    let yRecuadro = margen + 18;
+    for (const linea of [
+      `R.U.C. N° ${datos.emisor.ruc}`,
+      ...lineasTitulo,
+      datos.numero,
+    ]) {
+      pdf.texto(centroRecuadro, yRecuadro, linea, {
+        tamano: 11,
+        negrita: true,
+        alineacion: 'centro',
+      });
+      yRecuadro += 14;
+    }
+    y = Math.max(y, margen + 60, margen + altoRecuadro) + 12;
+
+    // Datos del cliente
+    const xValor = margen + 110;
+    const filasCliente = datos.cliente.map(([etiqueta, valor]) => ({
+      etiqueta,
+      lineas: pdf.dividirTexto(valor, derecha - xValor - 6, 8),
+    }));
+    const altoCliente =
+      filasCliente.reduce((suma, fila) => suma + fila.lineas.length * 11, 0) +
+      8;
+    pdf.rectangulo(margen, y, derecha - margen, altoCliente, { borde: true });
+    y += 12;
+    for (const fila of filasCliente) {
+      pdf.texto(margen + 6, y, `${fila.etiqueta}:`, {
+        tamano: 8,
+        negrita: true,
+      });
+      for (const linea of fila.lineas) {
+        pdf.texto(xValor, y, linea, { tamano: 8 });
+        y += 11;
+      }
+    }
+    y += 10;
+
+    // Tabla de detalles; la cabecera se repite en cada página
+    const columnas = {
+      cantidad: margen + 48,
+      unidad: margen + 54,
+      descripcion: margen + 96,
+      precio: derecha - 80,
+      importe: derecha - 4,
+    };
+    const anchoDescripcion = columnas.precio - 70 - columnas.descripcion;
+    const cabecera = (): void => {
+      pdf.rectangulo(margen, y, derecha - margen, 16, {
+        relleno: 0.9,
+        borde: true,
+      });
+      const base = y + 11;
+      const estilo = { tamano: 8, negrita: true };
+      pdf.texto(columnas.cantidad, base, 'Cant.', {
+        ...estilo,
+        alineacion: 'derecha',
+      });
+      pdf.texto(columnas.unidad, base, 'U.M.', estilo);
+      pdf.texto(columnas.descripcion, base, 'Descripción', estilo);
+      pdf.texto(columnas.precio, base, 'P. unit.', {
+        ...estilo,
+        alineacion: 'derecha',
+      });
+      pdf.texto(columnas.importe, base, 'Importe', {
+        ...estilo,
+        alineacion: 'derecha',
+      });
+      y += 16;
+    };
+    cabecera();
+    for (const detalle of datos.detalles) {
+      const lineas = pdf.dividirTexto(detalle.descripcion, anchoDescripcion, 8);
+      const altoFila = lineas.length * 10 + 6;
+      if (y + altoFila > altoPagina - margen) {
+        pdf.agregarPagina();
+        y = margen;
+        cabecera();
+      }
+      const base = y + 11;
+      pdf.texto(columnas.cantidad, base, detalle.cantidad, {
+        tamano: 8,
+        alineacion: 'derecha',
+      });
+      pdf.texto(columnas.unidad, base, detalle.unidad, { tamano: 8 });
+      lineas.forEach((linea, i) =>
+        pdf.texto(columnas.descripcion, base + i * 10, linea, { tamano: 8 }),
+      );
+      pdf.texto(columnas.precio, base, detalle.precioUnitario, {
+        tamano: 8,
+        alineacion: 'derecha',
+      });
+      pdf.texto(columnas.importe, base, detalle.importe, {
+        tamano: 8,
+        alineacion: 'derecha',
+      });
+      y += altoFila;
+      pdf.linea(margen, y, derecha, y, 0.25);
+    }
+
+    // Cierre: importe en letras, QR y totales
+    const ladoQr = 90;
+    const altoCierre = Math.max(
+      ladoQr + 40,
+      (datos.totales.length + 1) * 14 + 40,
+    );
+    if (y + 10 + altoCierre > altoPagina - margen) {
+      pdf.agregarPagina();
+      y = margen;
+    }
+    y += 10;
+    const xTotales = derecha - 200;
+    let yIzquierda = y + 10;
+    for (const linea of pdf.dividirTexto(
+      datos.leyenda,
+      xTotales - margen - 16,
+      8,
+      true,
+    )) {
+      pdf.texto(margen, yIzquierda, linea, { tamano: 8, negrita: true });
+      yIzquierda += 11;
+    }
+    pdf.codigoQr(datos.qr, margen, yIzquierda, ladoQr);
+    const xPie = margen + ladoQr + 8;
+    let yPie = yIzquierda + 20;
+    for (const linea of pdf.dividirTexto(
+      `Representación impresa de la ${datos.titulo}`,
+      xTotales - xPie - 16,
+      7,
+    )) {
+      pdf.texto(xPie, yPie, linea, { tamano: 7 });
+      yPie += 9;
+    }
+    if (datos.hash) {
+      for (const linea of pdf.dividirTexto(
+        `Hash: ${datos.hash}`,
+        xTotales - xPie - 16,
+        7,
+      )) {
+        pdf.texto(xPie, yPie, linea, { tamano: 7 });
+        yPie += 9;
+      }
+    }
+
+    let yTotales = y;
+    for (const [etiqueta, valor] of datos.totales) {
+      pdf.texto(xTotales + 6, yTotales + 10, etiqueta, { tamano: 8 });
+      pdf.texto(derecha - 6, yTotales + 10, valor, {
+        tamano: 8,
+        alineacion: 'derecha',
+      });
+      yTotales += 14;
+    }
+    pdf.rectangulo(xTotales, yTotales, derecha - xTotales, 16, {
+      relleno: 0.9,
+      borde: true,
+    });
+    pdf.texto(xTotales + 6, yTotales + 11, 'Importe total', {
+      tamano: 9,
+      negrita: true,
+    });
+    pdf.texto(derecha - 6, yTotales + 11, datos.importeTotal, {
+      tamano: 9,
+      negrita: true,
+      alineacion: 'derecha',
+    });
+
+    return pdf;
+  }
+
+  /**
+   * Ticket de 80 mm: se dibuja sobre una página alta y al final se recorta al contenido
+   */
+  private dibujarTicket(datos: DatosImpresion): DocumentoPdf {
+    const ancho = mm(80);
+    const margen = 8;
+    const derecha = ancho - margen;
+    const centro = ancho / 2;
+    const anchoUtil = derecha - margen;
+    const pdf = new DocumentoPdf(ancho, 14400);
+    let y = margen;
+
+    const centrado = (texto: string, tamano: number, negrita = false): void => {
+      for (const linea of pdf.dividirTexto(texto, anchoUtil, tamano, negrita)) {
+        y += tamano + 2;
+        pdf.texto(centro, y, linea, { tamano, negrita, alineacion: 'centro' });
+      }
+    };
+    const separador = (): void => {
+      y += 5;
+      pdf.linea(margen, y, derecha, y, 0.5);
+    };
+
+    if (datos.logo) {
+      const { ancho: anchoLogo, alto } = this.ajustarImagen(
+        datos.logo,
+        120,
+        50,
+      );
+      pdf.imagen(datos.logo, centro - anchoLogo / 2, y, anchoLogo, alto);
+      y += alto + 2;
+    }
+    centrado(datos.emisor.nombre, 9, true);
+    centrado(`R.U.C. ${datos.emisor.ruc}`, 8);
+    for (const linea of this.lineasEmisor(datos)) {
+      centrado(linea, 7);
+    }
+    separador();
+    centrado(datos.titulo, 8, true);
+    centrado(datos.numero, 9, true);
+    separador();
+
+    for (const [etiqueta, valor] of datos.cliente) {
+      const lineas = pdf.dividirTexto(`${etiqueta}: ${valor}`, anchoUtil, 7);
+      for (const linea of lineas) {
+        y += 9;
+        pdf.texto(margen, y, linea, { tamano: 7 });
+      }
+    }
+    separador();
+
+    y += 9;
+    pdf.texto(margen, y, 'Descripción', { tamano: 7, negrita: true });
+    pdf.texto(derecha, y, 'Importe', {
+      tamano: 7,
+      negrita: true,
+      alineacion: 'derecha',
+    });
+    for (const detalle of datos.detalles) {
+      for (const linea of pdf.dividirTexto(detalle.descripcion, anchoUtil, 7)) {
+        y += 9;
+        pdf.texto(margen, y, linea, { tamano: 7 });
+      }
+      y += 9;
+      pdf.texto(
+        margen,
+        y,
+        `${detalle.cantidad} ${detalle.unidad} x ${detalle.precioUnitario}`,
+        { tamano: 7 },
+      );
+      pdf.texto(derecha, y, detalle.importe, {
+        tamano: 7,
+        alineacion: 'derecha',
+      });
+    }
+    separador();
+
+    for (const [etiqueta, valor] of datos.totales) {
+      y += 9;
+      pdf.texto(margen, y, etiqueta, { tamano: 7 });
+      pdf.texto(derecha, y, valor, { tamano: 7, alineacion: 'derecha' });
+    }
+    y += 11;
+    pdf.texto(margen, y, 'Importe total', { tamano: 8, negrita: true });
+    pdf.texto(derecha, y, datos.importeTotal, {
+      tamano: 8,
+      negrita: true,
+      alineacion: 'derecha',
+    });
+    separador();
+
+    centrado(datos.leyenda, 7, true);
+    const ladoQr = 100;
+    y += 4;
+    pdf.codigoQr(datos.qr, centro - ladoQr / 2, y, ladoQr);
+    y += ladoQr;
+    centrado(`Representación impresa de la ${datos.titulo}`, 6);
+    if (datos.hash) {
+      centrado(`Hash: ${datos.hash}`, 6);
+    }
+
+    pdf.ajustarAlto(y + margen);
+    return pdf;
+  }
+
+  private lineasEmisor(datos: DatosImpresion): string[] {
+    const lineas: string[] = [];
+    if (datos.emisor.direccion) {
+      lineas.push(datos.emisor.direccion);
+    }
+    if (datos.emisor.telefono) {
+      lineas.push(`Teléfono: ${datos.emisor.telefono}`);
+    }
+    return lineas;
+  }
+
+  /** Escala la imagen para que quepa en el recuadro sin deformarla */
+  private ajustarImagen(
+    imagen: ImagenPdf,
+    anchoMaximo: number,
+    altoMaximo: number,
+  ): { ancho: number; alto: number } {
+    const escala = Math.min(
+      anchoMaximo / imagen.ancho,
+      altoMaximo / imagen.alto,
+    );
+    return { ancho: imagen.ancho * escala, alto: imagen.alto * escala };
+  }
+
+  private formatearMonto(valor: number | undefined, simbolo: string): string {
+    return `${simbolo} ${this.formatearNumero(Number(valor ?? 0), 2)}`.trim();
+  }
+
+  private formatearNumero(valor: number, decimales: number): string {
+    return valor.toLocaleString('en-US', {
+      minimumFractionDigits: decimales,
+      maximumFractionDigits: decimales,
+    });
+  }
+
+  /** Fecha en formato DD/MM/AAAA */
+  private formatearFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10).split('-').reverse().join('/');
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${dia}/${mes}/${valor.getFullYear()}`;
+  }
+}
@@ -4,6 +4,7 @@ import { ComprobanteTotales } from '../entities/comprobante-totales';
 import { Repository, EntityManager } from 'typeorm';
 import { ComprobanteDetalle } from '../entities/comprobante-detalle';
 import { Comprobante } from '../entities/comprobante';
+import { TipoAfectacionIgv } from '../enum/tipo-afectacion-igv.enum';
 
 @Injectable()
 export class ComprobanteTotalesService {
@@ -16,26 +17,36 @@ export class ComprobanteTotalesService {
     idComprobante: number,
     detalles: ComprobanteDetalle[],
     manager?: EntityManager,
+    tipoCambio: number = 1,
   ) {
     /**
      * Registra los totales de un comprobante calculándolos a partir de sus detalles.
      * En caso de comprobantes sin detalles, utilizar `registerFromTotal`.
+     * `tipoCambio` convierte los totales a moneda nacional (1 para comprobantes en PEN).
      */
     const comprobante = new Comprobante();
     comprobante.idComprobante = idComprobante;
 
-    // Calcular totales
-    const totalGravada = detalles.reduce(
-      (sum, d) => sum + Number(d.subtotal),
-      0,
-    );
+    // Calcular totales; la base se reparte según la afectación del IGV de cada detalle
+    const sumarBase = (afectaciones: TipoAfectacionIgv[]) =>
+      detalles
+        .filter((d) =>
+          afectaciones.includes(
+            d.tipoAfectacionIgv ?? TipoAfectacionIgv.GRAVADO_ONEROSA,
+          ),
+        )
+        .reduce((sum, d) => sum + Number(d.subtotal), 0);
+
+    const totalGravada = sumarBase([TipoAfectacionIgv.GRAVADO_ONEROSA]);
+    const totalExonerada = sumarBase([TipoAfectacionIgv.EXONERADO_ONEROSA]);
+    const totalInafecta = sumarBase([
+      TipoAfectacionIgv.INAFECTO_ONEROSA,
+      TipoAfectacionIgv.EXPORTACION,
+    ]);
     const totalIgv = detalles.reduce((sum, d) => sum + Number(d.igv ?? 0), 0);
     const totalIsc = detalles.reduce((sum, d) => sum + Number(d.isc ?? 0), 0);
     const totalGeneral = detalles.reduce((sum, d) => sum + Number(d.total), 0);
 
-    const totalExonerada = 0;
-    const totalInafecta = 0;
-
     // Usar el repositorio apropiado según si hay EntityManager
     const totalesRepo = manager
       ? manager.getRepository(ComprobanteTotales)
@@ -50,6 +61,17 @@ export class ComprobanteTotalesService {
       totalIgv,
       totalIsc,
       totalGeneral,
+      ...this.calcularEquivalentesMn(
+        {
+          totalGravada,
+          totalExonerada,
+          totalInafecta,
+          totalIgv,
+          totalIsc,
+          totalGeneral,
+        },
+        tipoCambio,
+      ),
     });
 
     // Guardar totales en BD
@@ -62,11 +84,13 @@ export class ComprobanteTotalesService {
    * @param idComprobante ID del comprobante recién creado
    * @param totalGeneral Total general enviado en el payload
    * @param manager EntityManager opcional para transacción
+   * @param tipoCambio Tipo de cambio a moneda nacional (1 para comprobantes en PEN)
    */
   async registerFromTotal(
     idComprobante: number,
     totalGeneral: number,
     manager?: EntityManager,
+    tipoCambio: number = 1,
   ) {
     const comprobante = new Comprobante();
     comprobante.idComprobante = idComprobante;
@@ -83,8 +107,46 @@ export class ComprobanteTotalesService {
       totalIgv: 0,
       totalIsc: 0,
       totalGeneral: Number(totalGeneral ?? 0),
+      ...this.calcularEquivalentesMn(
+        {
+          totalGravada: 0,
+          totalExonerada: 0,
+          totalInafecta: 0,
+          totalIgv: 0,
+          totalIsc: 0,
+          totalGeneral: Number(totalGeneral ?? 0),
+        },
+        tipoCambio,
+      ),
     });
 
     await totalesRepo.save(totales);
   }
+
+  /**
+   * Convierte cada total a moneda nacional redondeando a céntimos
+   */
+  private calcularEquivalentesMn(
+    totales: Record<
+      | 'totalGravada'
+      | 'totalExonerada'
+      | 'totalInafecta'
+      | 'totalIgv'
+      | 'totalIsc'
+      | 'totalGeneral',
+      number
+    >,
+    tipoCambio: number,
+  ): Partial<ComprobanteTotales> {
+    const convertir = (valor: number) =>
+      Math.round(valor * (Number(tipoCambio) || 1) * 100) / 100;
+    return {
+      totalGravadaMn: convertir(totales.totalGravada),
+      totalExoneradaMn: convertir(totales.totalExonerada),
+      totalInafectaMn: convertir(totales.totalInafecta),
+      totalIgvMn: convertir(totales.totalIgv),
+      totalIscMn: convertir(totales.totalIsc),
+      totalGeneralMn: convertir(totales.totalGeneral),
+    };
+  }
 }
@@ -1,6 +1,7 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, OnModuleInit, forwardRef } from '@nestjs/common';
 import { Repository, DataSource, Not, In, EntityManager } from 'typeorm';
 import { Comprobante } from '../entities/comprobante';
+import { User } from '../../users/entities/user.entity';
 import { InjectRepository } from '@nestjs/typeorm';
 import { CreateComprobanteDto } from '../dto/comprobante/create-comprobante.dto';
 import { EntidadService } from 'src/modules/entidades/services';
@@ -19,6 +20,11 @@ import { MovimientoFactory } from 'src/modules/movimientos/factory/MovimientoFac
 import { LoteCreationService } from 'src/modules/inventario/service/lote-creation.service';
 import { PeriodoContableService } from 'src/modules/periodos/service';
 import { PersonaService } from 'src/modules/users/services/person.service';
+import { AsientoService } from 'src/modules/contabilidad/service';
+import { TipoCambioService } from 'src/modules/tipo-cambio/service/tipo-cambio.service';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+import { ConsignacionService } from '../../consignacion/service/consignacion.service';
 
 @Injectable()
 export class ComprobanteService implements OnModuleInit {
@@ -37,6 +43,10 @@ export class ComprobanteService implements OnModuleInit {
     private readonly movimientoFactory: MovimientoFactory,
     private readonly loteCreationService: LoteCreationService,
     private readonly periodoContableService: PeriodoContableService,
+    private readonly asientoService: AsientoService,
+    private readonly tipoCambioService: TipoCambioService,
+    @Inject(forwardRef(() => ConsignacionService))
+    private readonly consignacionService: ConsignacionService,
     private readonly dataSource: DataSource,
   ) {}
 
@@ -93,19 +103,22 @@ export class ComprobanteService implements OnModuleInit {
    * Registra un nuevo comprobante con sus detalles y movimientos asociados
    * @param createComprobanteDto - Datos del comprobante a crear
    * @param personaId - ID de la persona/empresa propietaria
+   * @param idUsuario - Usuario que registra (opcional)
+   * @param manager - EntityManager de una transacción en curso (opcional); sin él el
+   * comprobante se registra y confirma en su propia transacción
    */
   async register(
     createComprobanteDto: CreateComprobanteDto,
     personaId: number,
+    idUsuario?: number,
+    manager?: EntityManager,
   ): Promise<ResponseComprobanteDto> {
     /**
      * Registra un comprobante. Si existen detalles, calcula y guarda totales a partir de ellos.
      * Si no existen detalles (operaciones distintas a venta/compra), registra los totales
      * usando el campo `total` proporcionado en el payload.
      */
-    const queryRunner = this.dataSource.createQueryRunner();
-    await queryRunner.connect();
-    await queryRunner.startTransaction();
+    const queryRunner = manager ? null : this.dataSource.createQueryRunner();
 
     try {
       //Verificar que comprobante este dentro del PERIODO
@@ -176,15 +189,6 @@ export class ComprobanteService implements OnModuleInit {
         );
       }
 
-      // Asignación de CORRELATIVO
-      const correlativo = await this.findOrCreateCorrelativo(
-        createComprobanteDto.idTipoOperacion,
-        personaId,
-        queryRunner.manager,
-      );
-      correlativo.ultimoNumero += 1;
-      await queryRunner.manager.save(correlativo);
-
       // Si existe comprobante afecto (notas), cargarlo
       let comprobanteAfecto: Comprobante | null = null;
       if (createComprobanteDto.idComprobanteAfecto) {
@@ -194,11 +198,33 @@ export class ComprobanteService implements OnModuleInit {
         });
       }
 
+      // TIPO DE CAMBIO con el que se convierten totales, kardex y asientos
+      // Se resuelve antes de abrir la transacción: puede consultar el servicio externo
+      const tipoCambioAplicado = await this.resolverTipoCambio(
+        createComprobanteDto,
+        fechaEmisionFinal,
+        tipoOperacion,
+        comprobanteAfecto,
+      );
+
+      await queryRunner?.connect();
+      await queryRunner?.startTransaction();
+      const transaccion = manager ?? queryRunner!.manager;
+
+      // Asignación de CORRELATIVO
+      const correlativo = await this.findOrCreateCorrelativo(
+        createComprobanteDto.idTipoOperacion,
+        personaId,
+        transaccion,
+      );
+      correlativo.ultimoNumero += 1;
+      await transaccion.save(correlativo);
+
       // Crea instancia de COMPROBANTE
-      const comprobante = queryRunner.manager.create(Comprobante, {
+      const comprobante = transaccion.create(Comprobante, {
         fechaEmision: fechaEmisionFinal,
         moneda: createComprobanteDto.moneda,
-        tipoCambio: createComprobanteDto.tipoCambio,
+        ...tipoCambioAplicado,
         serie: createComprobanteDto.serie,
         numero: createComprobanteDto.numero,
         fechaVencimiento: createComprobanteDto.fechaVencimiento,
@@ -212,9 +238,13 @@ export class ComprobanteService implements OnModuleInit {
       comprobante.tipoComprobante = tipoComprobante;
       comprobante.correlativo = `CORR-${correlativo.ultimoNumero}`;
       if (comprobanteAfecto) comprobante.comprobanteAfecto = comprobanteAfecto;
+      if (idUsuario) comprobante.usuario = { id: idUsuario } as User;
 
       // Guarda el COMPROBANTE
-      const comprobanteSaved = await queryRunner.manager.save(comprobante);
+      const comprobanteSaved = await transaccion.save(comprobante);
+
+      // Consignación recibida (03) o entregada (04): la registra ConsignacionService
+      const esConsignacion = ['03', '04'].includes(tipoOperacion.codigo);
 
       let costosUnitarios: number[] = [];
       let precioYcantidadPorLote: {
@@ -229,7 +259,7 @@ export class ComprobanteService implements OnModuleInit {
         const detallesSaved = await this.comprobanteDetalleService.register(
           comprobanteSaved.idComprobante,
           createComprobanteDto.detalles!,
-          queryRunner.manager,
+          transaccion,
         );
         comprobanteSaved.detalles = detallesSaved;
         // Procesar lotes en función del tipo de operación y método de valoración
@@ -252,22 +282,30 @@ export class ComprobanteService implements OnModuleInit {
           }
         }
 
-        const { costoUnitario, lotes } =
-          await this.loteCreationService.procesarLotesComprobante(
-            detallesSaved,
-            modoOperacionParaLote,
-            metodoValoracionFinal,
-            fechaEmisionFinal,
-          );
+        if (!esConsignacion) {
+          const { costoUnitario, lotes } =
+            await this.loteCreationService.procesarLotesComprobante(
+              detallesSaved,
+              modoOperacionParaLote,
+              metodoValoracionFinal,
+              fechaEmisionFinal,
+              this.factorMonedaNacional(comprobanteSaved),
+              createComprobanteDto.permitirLotesVencidos ?? false,
+              transaccion,
+            );
 
-        costosUnitarios = costoUnitario;
-        precioYcantidadPorLote = lotes;
+          costosUnitarios = costoUnitario;
+          precioYcantidadPorLote = lotes;
+        }
 
         // Validar que los lotes se crearon correctamente para compras
         if (tipoOperacion.codigo === '02') {
           // Código "02" para COMPRA
           const lotesValidos =
-            await this.loteCreationService.validarLotesCompra(detallesSaved);
+            await this.loteCreationService.validarLotesCompra(
+              detallesSaved,
+              this.factorMonedaNacional(comprobanteSaved),
+            );
           if (!lotesValidos) {
             throw new Error(
               'Error al crear los lotes para la compra. Verifique los logs para más detalles.',
@@ -279,26 +317,28 @@ export class ComprobanteService implements OnModuleInit {
         await this.comprobanteTotalesService.registerFromTotal(
           comprobanteSaved.idComprobante,
           Number(createComprobanteDto.total ?? 0),
-          queryRunner.manager,
+          transaccion,
+          this.factorMonedaNacional(comprobanteSaved),
         );
       }
 
       // Cargar las relaciones necesarias para el MovimientoFactory DESPUÉS de guardar los detalles
-      const comprobanteConRelaciones = await queryRunner.manager.findOne(
-        Comprobante,
-        {
-          where: { idComprobante: comprobanteSaved.idComprobante },
-          relations: [
-            'tipoOperacion',
-            'tipoComprobante',
-            'detalles',
-            'detalles.inventario',
-            'detalles.inventario.producto',
-            'comprobanteAfecto',
-            'comprobanteAfecto.tipoOperacion',
-          ],
-        },
-      );
+      const comprobanteConRelaciones = await transaccion.findOne(Comprobante, {
+        where: { idComprobante: comprobanteSaved.idComprobante },
+        relations: [
+          'totales',
+          'persona',
+          'entidad',
+          'periodoContable',
+          'tipoOperacion',
+          'tipoComprobante',
+          'detalles',
+          'detalles.inventario',
+          'detalles.inventario.producto',
+          'comprobanteAfecto',
+          'comprobanteAfecto.tipoOperacion',
+        ],
+      });
 
       if (!comprobanteConRelaciones) {
         throw new Error('Error al cargar el comprobante con sus relaciones');
@@ -321,13 +361,38 @@ export class ComprobanteService implements OnModuleInit {
           );
         await this.movimientoService.createWithManager(
           movimientoDto,
-          queryRunner.manager,
+          transaccion,
         );
       }
 
-      await queryRunner.commitTransaction();
+      if (tieneDetalles && esConsignacion) {
+        await this.consignacionService.registrarDesdeComprobante(
+          comprobanteConRelaciones,
+          metodoValoracionFinal,
+          createComprobanteDto.permitirLotesVencidos ?? false,
+          transaccion,
+        );
+      }
+
+      // Asientos contables en la misma transacción; el costo de venta sale de los lotes consumidos
+      const costoVenta =
+        tieneDetalles && comprobanteConRelaciones.tipoOperacion?.codigo === '01'
+          ? comprobanteConRelaciones.detalles.reduce(
+              (total, detalle, index) =>
+                total +
+                (costosUnitarios[index] ?? 0) * cantidadEnUnidadBase(detalle),
+              0,
+            )
+          : 0;
+      await this.asientoService.registrarDesdeComprobante(
+        comprobanteConRelaciones,
+        costoVenta,
+        transaccion,
+      );
+
+      await queryRunner?.commitTransaction();
       // Cargar comprobante con relaciones completas y devolver DTO
-      const savedWithRelations = await this.comprobanteRepository.findOne({
+      const savedWithRelations = await transaccion.findOne(Comprobante, {
         where: { idComprobante: comprobanteSaved.idComprobante },
         relations: [
           'totales',
@@ -349,7 +414,9 @@ export class ComprobanteService implements OnModuleInit {
         excludeExtraneousValues: true,
       });
     } catch (error: any) {
-      await queryRunner.rollbackTransaction();
+      if (queryRunner?.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
       if (error && typeof error === 'object' && 'status' in error) {
         throw error;
       }
@@ -358,10 +425,69 @@ export class ComprobanteService implements OnModuleInit {
         detalle: error?.message || 'Error desconocido',
       });
     } finally {
-      await queryRunner.release();
+      await queryRunner?.release();
     }
   }
 
+  /**
+   * Determina el tipo de cambio del comprobante y su origen
+   * En USD, si no se envía, se toma el publicado para la fecha de emisión (o el último anterior):
+   * venta para ventas y compra para compras. Las notas usan el de su comprobante afecto.
+   */
+  private async resolverTipoCambio(
+    dto: CreateComprobanteDto,
+    fechaEmision: Date,
+    tipoOperacion: TablaDetalle,
+    comprobanteAfecto: Comprobante | null,
+  ): Promise<
+    Partial<
+      Pick<Comprobante, 'tipoCambio' | 'fechaTipoCambio' | 'fuenteTipoCambio'>
+    >
+  > {
+    if (dto.moneda !== Moneda.USD) {
+      return { tipoCambio: dto.tipoCambio };
+    }
+    if (dto.tipoCambio) {
+      return { tipoCambio: dto.tipoCambio, fuenteTipoCambio: 'MANUAL' };
+    }
+
+    if (comprobanteAfecto?.tipoCambio) {
+      return {
+        tipoCambio: Number(comprobanteAfecto.tipoCambio),
+        fechaTipoCambio: comprobanteAfecto.fechaTipoCambio,
+        fuenteTipoCambio: 'COMPROBANTE_AFECTO',
+      };
+    }
+
+    const mes = String(fechaEmision.getMonth() + 1).padStart(2, '0');
+    const dia = String(fechaEmision.getDate()).padStart(2, '0');
+    const fecha = `${fechaEmision.getFullYear()}-${mes}-${dia}`;
+    const publicado = await this.tipoCambioService.resolverTipoCambio(fecha);
+    if (!publicado) {
+      throw new BadRequestException(
+        `No hay tipo de cambio registrado al ${fecha}; ingréselo manualmente`,
+      );
+    }
+
+    const codigoOperacion = ['07', '08'].includes(tipoOperacion.codigo)
+      ? comprobanteAfecto?.tipoOperacion?.codigo
+      : tipoOperacion.codigo;
+    return {
+      tipoCambio: codigoOperacion === '02' ? publicado.compra : publicado.venta,
+      fechaTipoCambio: publicado.fecha,
+      fuenteTipoCambio: publicado.fuente,
+    };
+  }
+
+  /**
+   * Factor para llevar los importes del comprobante a moneda nacional
+   */
+  private factorMonedaNacional(comprobante: Comprobante): number {
+    return comprobante.moneda === Moneda.USD
+      ? Number(comprobante.tipoCambio) || 1
+      : 1;
+  }
+
   /**
    * Obtiene el siguiente correlativo para una persona y tipo de operación
    * @param idTipoOperacion - ID del tipo de operación en TablaDetalle
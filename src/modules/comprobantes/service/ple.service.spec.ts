@@ -0,0 +1,289 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { Brackets } from 'typeorm';
+import { PleService } from './ple.service';
+import { Comprobante } from '../entities/comprobante';
+import { PeriodoContableService } from '../../periodos/service';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { EntidadType } from '../../entidades/enums';
+
+/**
+ * Tests unitarios para PleService
+ * Verifica el formato de las líneas y el nombre de los archivos PLE
+ */
+describe('PleService', () => {
+  let service: PleService;
+
+  const mockQueryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    leftJoin: jest.fn().mockReturnThis(),
+    innerJoin: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockRepository = {
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockPeriodoContableService = {
+    obtenerPorId: jest.fn(),
+  };
+
+  const periodo = {
+    id: 3,
+    año: 2024,
+    persona: { id: 1, ruc: '20123456789' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PleService,
+        {
+          provide: getRepositoryToken(Comprobante),
+          useValue: mockRepository,
+        },
+        {
+          provide: PeriodoContableService,
+          useValue: mockPeriodoContableService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PleService>(PleService);
+
+    jest.clearAllMocks();
+    mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    mockPeriodoContableService.obtenerPorId.mockResolvedValue(periodo);
+  });
+
+  describe('generarRegistroVentas', () => {
+    it('should build the 14.1 line and file name', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        {
+          idComprobante: 10,
+          correlativo: 'CORR-1',
+          fechaEmision: new Date(2024, 2, 5, 10, 30),
+          fechaVencimiento: '2024-04-04',
+          moneda: Moneda.PEN,
+          tipoCambio: null,
+          serie: 'F001',
+          numero: '123',
+          tipoComprobante: { codigo: '01' },
+          entidad: {
+            tipo: EntidadType.JURIDICA,
+            numeroDocumento: '20999999999',
+            nombreCompleto: 'CLIENTE SAC',
+          },
+          totales: {
+            totalGravada: '100.00',
+            totalIgv: '18.00',
+            totalExonerada: '0',
+            totalInafecta: '0',
+            totalIsc: '0',
+            totalGeneral: '118.00',
+          },
+        },
+      ]);
+
+      const archivo = await service.generarRegistroVentas(3, 3, 1);
+
+      expect(archivo.nombreArchivo).toBe(
+        'LE2012345678920240300140100001111.txt',
+      );
+      expect(archivo.cantidadRegistros).toBe(1);
+      const campos = archivo.contenido.trimEnd().split('|');
+      expect(campos).toHaveLength(36);
+      expect(campos.slice(0, 8)).toEqual([
+        '20240300',
+        'CORR-1',
+        'M000000001',
+        '05/03/2024',
+        '04/04/2024',
+        '01',
+        'F001',
+        '123',
+      ]);
+      expect(campos[13]).toBe('100.00');
+      expect(campos[15]).toBe('18.00');
+      expect(campos[24]).toBe('118.00');
+      expect(campos[26]).toBe('1.000');
+    });
+
+    it('should negate credit notes and reference the affected document', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        {
+          idComprobante: 11,
+          correlativo: 'CORR-2',
+          fechaEmision: new Date(2024, 2, 20),
+          moneda: Moneda.USD,
+          tipoCambio: '3.75',
+          serie: 'FC01',
+          numero: '7',
+          tipoComprobante: { codigo: '07' },
+          entidad: null,
+          totales: {
+            totalGravada: '10.00',
+            totalIgv: '1.80',
+            totalGeneral: '11.80',
+          },
+          comprobanteAfecto: {
+            fechaEmision: new Date(2024, 2, 5),
+            serie: 'F001',
+            numero: '123',
+            tipoComprobante: { codigo: '01' },
+          },
+        },
+      ]);
+
+      const archivo = await service.generarRegistroVentas(3, 3, 1);
+      const campos = archivo.contenido.trimEnd().split('|');
+
+      expect(campos[13]).toBe('-37.50');
+      expect(campos[24]).toBe('-44.25');
+      expect(campos[25]).toBe('USD');
+      expect(campos[26]).toBe('3.750');
+      expect(campos.slice(27, 31)).toEqual(['05/03/2024', '01', 'F001', '123']);
+    });
+
+    it('should include the notes registered against a venta', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([]);
+
+      await service.generarRegistroVentas(3, 3, 1);
+
+      expect(mockQueryBuilder.leftJoin).toHaveBeenCalledWith(
+        'afecto.tipoOperacion',
+        'afectoTipoOperacion',
+      );
+      const [[filtro]] = mockQueryBuilder.where.mock.calls as [Brackets][];
+      const condiciones = { where: jest.fn(), orWhere: jest.fn() };
+      condiciones.where.mockReturnValue(condiciones);
+      filtro.whereFactory(condiciones as never);
+
+      expect(condiciones.where).toHaveBeenCalledWith(
+        'tablaOperacion.numeroTabla = :tabla AND tipoOperacion.codigo = :codigo',
+        { tabla: '12', codigo: '01' },
+      );
+      expect(condiciones.orWhere).toHaveBeenCalledWith(
+        'tipoOperacion.codigo IN (:...notas) AND afectoTipoOperacion.codigo = :codigo',
+        { notas: ['07', '08'] },
+      );
+    });
+
+    it('should flag an empty month in the file name', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([]);
+
+      const archivo = await service.generarRegistroVentas(3, 12, 1);
+
+      expect(archivo.nombreArchivo).toBe(
+        'LE2012345678920241200140100001011.txt',
+      );
+      expect(archivo.contenido).toBe('');
+    });
+
+    it('should reject periods from another company', async () => {
+      await expect(service.generarRegistroVentas(3, 1, 2)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('generarRegistroCompras', () => {
+    it('should build the 8.1 line with supplier and affected document', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([
+        {
+          idComprobante: 20,
+          correlativo: 'CORR-9',
+          fechaEmision: new Date(2024, 5, 14),
+          fechaVencimiento: '2024-07-14',
+          moneda: Moneda.PEN,
+          tipoCambio: null,
+          serie: 'FD01',
+          numero: '55',
+          tipoComprobante: { codigo: '08' },
+          entidad: {
+            tipo: EntidadType.JURIDICA,
+            numeroDocumento: '20555555555',
+            nombreCompleto: 'PROVEEDOR | SAC',
+          },
+          totales: {
+            totalGravada: '50.00',
+            totalIgv: '9.00',
+            totalExonerada: '0',
+            totalInafecta: '0',
+            totalIsc: '0',
+            totalGeneral: '59.00',
+          },
+          comprobanteAfecto: {
+            fechaEmision: new Date(2024, 5, 1),
+            serie: 'F002',
+            numero: '900',
+            tipoComprobante: { codigo: '01' },
+          },
+        },
+      ]);
+
+      const archivo = await service.generarRegistroCompras(3, 6, 1);
+      const campos = archivo.contenido.trimEnd().split('|');
+
+      expect(archivo.nombreArchivo).toBe(
+        'LE2012345678920240600080100001111.txt',
+      );
+      expect(campos).toHaveLength(43);
+      expect(campos[4]).toBe('14/07/2024');
+      expect(campos.slice(10, 13)).toEqual([
+        '6',
+        '20555555555',
+        'PROVEEDOR   SAC',
+      ]);
+      expect(campos[13]).toBe('50.00');
+      expect(campos[14]).toBe('9.00');
+      expect(campos[23]).toBe('59.00');
+      expect(campos.slice(26, 31)).toEqual([
+        '01/06/2024',
+        '01',
+        'F002',
+        '',
+        '900',
+      ]);
+      expect(campos[41]).toBe('1');
+    });
+
+    it('should include the notes registered against a compra', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([]);
+
+      await service.generarRegistroCompras(3, 6, 1);
+
+      const [[filtro]] = mockQueryBuilder.where.mock.calls as [Brackets][];
+      const condiciones = { where: jest.fn(), orWhere: jest.fn() };
+      condiciones.where.mockReturnValue(condiciones);
+      filtro.whereFactory(condiciones as never);
+
+      expect(condiciones.where).toHaveBeenCalledWith(
+        'tablaOperacion.numeroTabla = :tabla AND tipoOperacion.codigo = :codigo',
+        { tabla: '12', codigo: '02' },
+      );
+      expect(condiciones.orWhere).toHaveBeenCalledWith(
+        'tipoOperacion.codigo IN (:...notas) AND afectoTipoOperacion.codigo = :codigo',
+        { notas: ['07', '08'] },
+      );
+    });
+
+    it('should produce the "sin información" file for an empty month', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([]);
+
+      const archivo = await service.generarRegistroCompras(3, 2, 1);
+
+      expect(archivo.nombreArchivo).toBe(
+        'LE2012345678920240200080100001011.txt',
+      );
+      expect(archivo.cantidadRegistros).toBe(0);
+      expect(archivo.contenido).toBe('');
+    });
+  });
+});
@@ -0,0 +1,410 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { Comprobante } from '../entities/comprobante';
+import { Moneda } from '../enum/tipo-moneda.enum';
+import { EntidadType } from '../../entidades/enums';
+import { PeriodoContableService } from '../../periodos/service';
+
+/**
+ * Archivo de texto generado en formato PLE
+ */
+export interface ArchivoPle {
+  nombreArchivo: string;
+  contenido: string;
+  cantidadRegistros: number;
+}
+
+/**
+ * Nombre oficial de un libro electrónico:
+ * LE + RUC + AAAAMM00 + libro + oportunidad + indicadores
+ */
+export function construirNombreArchivoPle(
+  ruc: string,
+  periodoPle: string,
+  codigoLibro: string,
+  conInformacion: boolean,
+): string {
+  // Oportunidad 00, operaciones 1, contenido 1/0 (con o sin información),
+  // moneda 1 (soles), generado por PLE 1
+  return `LE${ruc}${periodoPle}${codigoLibro}001${conInformacion ? '1' : '0'}11.txt`;
+}
+
+/**
+ * Servicio para generar los libros electrónicos (PLE) de SUNAT
+ * a partir de los comprobantes registrados
+ */
+@Injectable()
+export class PleService {
+  /** Código de libro del Registro de Ventas e Ingresos (formato 14.1) */
+  private static readonly LIBRO_REGISTRO_VENTAS = '140100';
+
+  /** Código de libro del Registro de Compras (formato 8.1) */
+  private static readonly LIBRO_REGISTRO_COMPRAS = '080100';
+
+  constructor(
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    private readonly periodoContableService: PeriodoContableService,
+  ) {}
+
+  /**
+   * Genera el Registro de Ventas e Ingresos (formato 14.1) de un mes
+   * @param idPeriodo - ID del período contable
+   * @param mes - Mes a declarar (1-12)
+   * @param personaId - ID de la empresa
+   * @returns Promise<ArchivoPle> Archivo con el nombre oficial y sus líneas
+   */
+  async generarRegistroVentas(
+    idPeriodo: number,
+    mes: number,
+    personaId: number,
+  ): Promise<ArchivoPle> {
+    const { persona, inicio, fin } = await this.resolverRangoMensual(
+      idPeriodo,
+      mes,
+      personaId,
+    );
+
+    // Ventas del mes: Tabla 12 código "01"
+    const comprobantes = await this.obtenerComprobantesDelMes(
+      '01',
+      idPeriodo,
+      personaId,
+      inicio,
+      fin,
+    );
+
+    const periodoPle = this.formatearPeriodoPle(inicio);
+    const lineas = comprobantes.map((comprobante, index) =>
+      this.construirLineaVenta(comprobante, periodoPle, index + 1),
+    );
+
+    return {
+      nombreArchivo: construirNombreArchivoPle(
+        persona.ruc,
+        periodoPle,
+        PleService.LIBRO_REGISTRO_VENTAS,
+        lineas.length > 0,
+      ),
+      contenido: lineas.map((linea) => `${linea}\r\n`).join(''),
+      cantidadRegistros: lineas.length,
+    };
+  }
+
+  /**
+   * Genera el Registro de Compras (formato 8.1) de un mes
+   * @param idPeriodo - ID del período contable
+   * @param mes - Mes a declarar (1-12)
+   * @param personaId - ID de la empresa
+   * @returns Promise<ArchivoPle> Archivo con el nombre oficial y sus líneas
+   */
+  async generarRegistroCompras(
+    idPeriodo: number,
+    mes: number,
+    personaId: number,
+  ): Promise<ArchivoPle> {
+    const { persona, inicio, fin } = await this.resolverRangoMensual(
+      idPeriodo,
+      mes,
+      personaId,
+    );
+
+    // Compras del mes: Tabla 12 código "02"
+    const comprobantes = await this.obtenerComprobantesDelMes(
+      '02',
+      idPeriodo,
+      personaId,
+      inicio,
+      fin,
+    );
+
+    const periodoPle = this.formatearPeriodoPle(inicio);
+    const lineas = comprobantes.map((comprobante, index) =>
+      this.construirLineaCompra(comprobante, periodoPle, index + 1),
+    );
+
+    // Sin operaciones se entrega el archivo vacío con indicador 0
+    return {
+      nombreArchivo: construirNombreArchivoPle(
+        persona.ruc,
+        periodoPle,
+        PleService.LIBRO_REGISTRO_COMPRAS,
+        lineas.length > 0,
+      ),
+      contenido: lineas.map((linea) => `${linea}\r\n`).join(''),
+      cantidadRegistros: lineas.length,
+    };
+  }
+
+  /**
+   * Obtiene los comprobantes de un tipo de operación (Tabla 12) dentro del mes
+   */
+  private async obtenerComprobantesDelMes(
+    codigoOperacion: string,
+    idPeriodo: number,
+    personaId: number,
+    inicio: Date,
+    fin: Date,
+  ): Promise<Comprobante[]> {
+    return (
+      this.comprobanteRepository
+        .createQueryBuilder('comprobante')
+        .leftJoinAndSelect('comprobante.totales', 'totales')
+        .leftJoinAndSelect('comprobante.entidad', 'entidad')
+        .leftJoinAndSelect('comprobante.tipoComprobante', 'tipoComprobante')
+        .leftJoinAndSelect('comprobante.comprobanteAfecto', 'afecto')
+        .leftJoinAndSelect('afecto.tipoComprobante', 'afectoTipoComprobante')
+        .leftJoin('afecto.tipoOperacion', 'afectoTipoOperacion')
+        .innerJoin('comprobante.tipoOperacion', 'tipoOperacion')
+        .innerJoin('tipoOperacion.tabla', 'tablaOperacion')
+        // Las notas (07/08) pertenecen al registro de su comprobante afecto
+        .where(
+          new Brackets((qb) => {
+            qb.where(
+              'tablaOperacion.numeroTabla = :tabla AND tipoOperacion.codigo = :codigo',
+              { tabla: '12', codigo: codigoOperacion },
+            ).orWhere(
+              'tipoOperacion.codigo IN (:...notas) AND afectoTipoOperacion.codigo = :codigo',
+              { notas: ['07', '08'] },
+            );
+          }),
+        )
+        .andWhere('comprobante.id_persona = :personaId', { personaId })
+        .andWhere('comprobante.id_periodo_contable = :idPeriodo', { idPeriodo })
+        .andWhere('comprobante.fechaEmision >= :inicio', { inicio })
+        .andWhere('comprobante.fechaEmision < :fin', { fin })
+        .orderBy('comprobante.fechaEmision', 'ASC')
+        .addOrderBy('comprobante.idComprobante', 'ASC')
+        .getMany()
+    );
+  }
+
+  /**
+   * Construye una línea del formato 14.1 para un comprobante de venta
+   */
+  private construirLineaVenta(
+    comprobante: Comprobante,
+    periodoPle: string,
+    numeroLinea: number,
+  ): string {
+    const codigoTipo = comprobante.tipoComprobante?.codigo ?? '00';
+    const esNota = codigoTipo === '07' || codigoTipo === '08';
+    // Las notas de crédito se declaran en negativo
+    const signo = codigoTipo === '07' ? -1 : 1;
+    const tipoCambio =
+      comprobante.moneda === Moneda.USD
+        ? Number(comprobante.tipoCambio) || 1
+        : 1;
+    const importe = (valor: number | string | null | undefined) =>
+      this.formatearImporte(signo * (Number(valor) || 0) * tipoCambio);
+
+    const totales = comprobante.totales;
+    const afecto = esNota ? comprobante.comprobanteAfecto : undefined;
+    const { tipoDocumento, numeroDocumento, nombre } =
+      this.datosCliente(comprobante);
+
+    const campos = [
+      periodoPle,
+      (comprobante.correlativo || String(comprobante.idComprobante)).slice(
+        0,
+        40,
+      ),
+      `M${String(numeroLinea).padStart(9, '0')}`,
+      this.formatearFecha(comprobante.fechaEmision),
+      comprobante.fechaVencimiento
+        ? this.formatearFecha(comprobante.fechaVencimiento)
+        : '',
+      codigoTipo,
+      comprobante.serie,
+      comprobante.numero,
+      '',
+      tipoDocumento,
+      numeroDocumento,
+      nombre,
+      importe(0),
+      importe(totales?.totalGravada),
+      importe(0),
+      importe(totales?.totalIgv),
+      importe(0),
+      importe(totales?.totalExonerada),
+      importe(totales?.totalInafecta),
+      importe(totales?.totalIsc),
+      importe(0),
+      importe(0),
+      importe(0),
+      importe(0),
+      importe(totales?.totalGeneral),
+      comprobante.moneda,
+      this.formatearTipoCambio(tipoCambio),
+      afecto ? this.formatearFecha(afecto.fechaEmision) : '',
+      afecto ? (afecto.tipoComprobante?.codigo ?? '') : '',
+      afecto ? afecto.serie : '',
+      afecto ? afecto.numero : '',
+      '',
+      '',
+      '',
+      '1',
+    ];
+
+    return `${campos.join('|')}|`;
+  }
+
+  /**
+   * Construye una línea del formato 8.1 para un comprobante de compra
+   */
+  private construirLineaCompra(
+    comprobante: Comprobante,
+    periodoPle: string,
+    numeroLinea: number,
+  ): string {
+    const codigoTipo = comprobante.tipoComprobante?.codigo ?? '00';
+    const esNota = codigoTipo === '07' || codigoTipo === '08';
+    const signo = codigoTipo === '07' ? -1 : 1;
+    const tipoCambio =
+      comprobante.moneda === Moneda.USD
+        ? Number(comprobante.tipoCambio) || 1
+        : 1;
+    const importe = (valor: number | string | null | undefined) =>
+      this.formatearImporte(signo * (Number(valor) || 0) * tipoCambio);
+
+    const totales = comprobante.totales;
+    const afecto = esNota ? comprobante.comprobanteAfecto : undefined;
+    const entidad = comprobante.entidad;
+
+    const campos = [
+      periodoPle,
+      (comprobante.correlativo || String(comprobante.idComprobante)).slice(
+        0,
+        40,
+      ),
+      `M${String(numeroLinea).padStart(9, '0')}`,
+      this.formatearFecha(comprobante.fechaEmision),
+      comprobante.fechaVencimiento
+        ? this.formatearFecha(comprobante.fechaVencimiento)
+        : '',
+      codigoTipo,
+      comprobante.serie,
+      '0',
+      comprobante.numero,
+      '',
+      entidad ? (entidad.tipo === EntidadType.JURIDICA ? '6' : '1') : '0',
+      entidad ? entidad.numeroDocumento : '-',
+      entidad ? this.limpiarTexto(entidad.nombreCompleto).slice(0, 100) : '-',
+      // Adquisiciones gravadas destinadas a operaciones gravadas
+      importe(totales?.totalGravada),
+      importe(totales?.totalIgv),
+      importe(0),
+      importe(0),
+      importe(0),
+      importe(0),
+      importe(
+        (Number(totales?.totalExonerada) || 0) +
+          (Number(totales?.totalInafecta) || 0),
+      ),
+      importe(totales?.totalIsc),
+      importe(0),
+      importe(0),
+      importe(totales?.totalGeneral),
+      comprobante.moneda,
+      this.formatearTipoCambio(tipoCambio),
+      afecto ? this.formatearFecha(afecto.fechaEmision) : '',
+      afecto ? (afecto.tipoComprobante?.codigo ?? '') : '',
+      afecto ? afecto.serie : '',
+      '',
+      afecto ? afecto.numero : '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '1',
+    ];
+
+    return `${campos.join('|')}|`;
+  }
+
+  /**
+   * Obtiene tipo (Tabla 2), número y nombre del documento del cliente
+   */
+  private datosCliente(comprobante: Comprobante): {
+    tipoDocumento: string;
+    numeroDocumento: string;
+    nombre: string;
+  } {
+    const entidad = comprobante.entidad;
+    if (!entidad) {
+      return {
+        tipoDocumento: '0',
+        numeroDocumento: '-',
+        nombre: 'CLIENTES VARIOS',
+      };
+    }
+
+    return {
+      tipoDocumento: entidad.tipo === EntidadType.JURIDICA ? '6' : '1',
+      numeroDocumento: entidad.numeroDocumento,
+      nombre: this.limpiarTexto(entidad.nombreCompleto).slice(0, 100),
+    };
+  }
+
+  /**
+   * Valida el período y calcula el rango de fechas del mes solicitado
+   */
+  private async resolverRangoMensual(
+    idPeriodo: number,
+    mes: number,
+    personaId: number,
+  ) {
+    if (!Number.isInteger(mes) || mes < 1 || mes > 12) {
+      throw new BadRequestException('El mes debe estar entre 1 y 12');
+    }
+
+    const periodo = await this.periodoContableService.obtenerPorId(idPeriodo);
+    if (periodo.persona?.id !== personaId) {
+      throw new BadRequestException(
+        'El período contable no pertenece a su empresa',
+      );
+    }
+
+    const inicio = new Date(periodo.año, mes - 1, 1);
+    const fin = new Date(periodo.año, mes, 1);
+
+    return { persona: periodo.persona, inicio, fin };
+  }
+
+  private formatearPeriodoPle(fecha: Date): string {
+    const mes = String(fecha.getMonth() + 1).padStart(2, '0');
+    return `${fecha.getFullYear()}${mes}00`;
+  }
+
+  private formatearFecha(fecha: Date | string): string {
+    // Las columnas tipo "date" llegan como texto YYYY-MM-DD
+    if (typeof fecha === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(fecha)) {
+      const [anio, mes, dia] = fecha.split('-');
+      return `${dia}/${mes}/${anio}`;
+    }
+    const valor = new Date(fecha);
+    const dia = String(valor.getDate()).padStart(2, '0');
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    return `${dia}/${mes}/${valor.getFullYear()}`;
+  }
+
+  private formatearImporte(valor: number): string {
+    return (Math.round(valor * 100) / 100 || 0).toFixed(2);
+  }
+
+  private formatearTipoCambio(valor: number): string {
+    return valor.toFixed(3);
+  }
+
+  /** El separador "|" no puede aparecer dentro de un campo */
+  private limpiarTexto(texto: string): string {
+    return (texto || '').replace(/[|\r\n]/g, ' ').trim();
+  }
+}
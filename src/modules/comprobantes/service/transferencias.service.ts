@@ -161,6 +161,7 @@ export class TransferenciasService {
             isc: 0,
             total: 0,
             descripcion,
+            numerosSerie: d.numerosSerie,
           } as CreateComprobanteDetalleDto;
         },
       );
@@ -177,6 +178,9 @@ export class TransferenciasService {
           tipoOperacionSalida.descripcion,
           metodoValoracion,
           fechaEmision,
+          1,
+          false,
+          manager,
         );
 
       const comprobanteSalidaConRel = await manager.findOne(Comprobante, {
@@ -263,6 +267,7 @@ export class TransferenciasService {
             isc: 0,
             total: subtotal,
             descripcion,
+            numerosSerie: d.numerosSerie,
           } as CreateComprobanteDetalleDto;
         },
       );
@@ -280,6 +285,9 @@ export class TransferenciasService {
           'COMPRA',
           metodoValoracion,
           fechaEmision,
+          1,
+          false,
+          manager,
         );
 
       const comprobanteEntradaConRel = await manager.findOne(Comprobante, {
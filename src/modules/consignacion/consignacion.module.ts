@@ -0,0 +1,28 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Consignacion } from './entities';
+import { ConsignacionService } from './service';
+import { ConsignacionController } from './controller';
+import { TablaDetalle } from '../comprobantes/entities/tabla-detalle.entity';
+import { ComprobanteModule } from '../comprobantes/comprobante.module';
+import { InventarioModule } from '../inventario/inventario.module';
+import { MovimientosModule } from '../movimientos/movimientos.module';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de consignaciones
+ * Mercadería recibida y entregada en consignación, sus saldos y su liquidación
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Consignacion, TablaDetalle]),
+    forwardRef(() => ComprobanteModule),
+    InventarioModule,
+    MovimientosModule,
+    UserModule,
+  ],
+  controllers: [ConsignacionController],
+  providers: [ConsignacionService],
+  exports: [ConsignacionService, TypeOrmModule],
+})
+export class ConsignacionModule {}
@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Get,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ConsignacionService } from '../service';
+import {
+  LiquidarConsignacionDto,
+  ResponseConsignacionDto,
+  ResponseLiquidacionConsignacionDto,
+  ResponseSaldoConsignacionDto,
+} from '../dto';
+import { TipoConsignacion } from '../enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de consignaciones
+ * Las consignaciones se registran como comprobantes con tipo de operación 03 o 04
+ */
+@ApiTags('Consignaciones')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/consignaciones')
+export class ConsignacionController {
+  constructor(private readonly consignacionService: ConsignacionService) {}
+
+  /**
+   * Listar consignaciones
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar consignaciones recibidas y entregadas' })
+  @ApiQuery({ name: 'tipo', required: false, enum: TipoConsignacion })
+  @ApiQuery({ name: 'idEntidad', required: false, type: Number })
+  @ApiResponse({ status: 200, type: [ResponseConsignacionDto] })
+  async listar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('tipo', new ParseEnumPipe(TipoConsignacion, { optional: true }))
+    tipo?: TipoConsignacion,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponseConsignacionDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.consignacionService.listar(user.personaId, tipo, idEntidad);
+  }
+
+  /**
+   * Saldo en consignación por entidad
+   */
+  @Get('saldos')
+  @ApiOperation({
+    summary: 'Saldos en consignación por entidad',
+    description:
+      'Cantidades pendientes de liquidar por proveedor (recibidas) o cliente (entregadas) y su valor',
+  })
+  @ApiQuery({ name: 'tipo', required: false, enum: TipoConsignacion })
+  @ApiQuery({ name: 'idEntidad', required: false, type: Number })
+  @ApiResponse({ status: 200, type: [ResponseSaldoConsignacionDto] })
+  async saldos(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('tipo', new ParseEnumPipe(TipoConsignacion, { optional: true }))
+    tipo?: TipoConsignacion,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponseSaldoConsignacionDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.consignacionService.obtenerSaldos(
+      user.personaId,
+      tipo,
+      idEntidad,
+    );
+  }
+
+  /**
+   * Liquidar consignaciones como compra o venta
+   */
+  @Post('liquidar')
+  @ApiOperation({
+    summary: 'Liquidar consignaciones',
+    description:
+      'Registra una compra (consignaciones recibidas) o una venta (consignaciones entregadas) por las cantidades indicadas y descuenta el saldo',
+  })
+  @ApiResponse({ status: 201, type: ResponseLiquidacionConsignacionDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Cantidades mayores al saldo o consignaciones de distinta entidad',
+  })
+  async liquidar(
+    @Body() dto: LiquidarConsignacionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseLiquidacionConsignacionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.consignacionService.liquidar(user.personaId, dto, user.id);
+  }
+}
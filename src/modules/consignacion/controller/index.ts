@@ -0,0 +1 @@
+export { ConsignacionController } from './consignacion.controller';
@@ -0,0 +1,10 @@
+export {
+  LiquidarConsignacionDto,
+  DetalleLiquidacionConsignacionDto,
+} from './liquidar-consignacion.dto';
+export { ResponseConsignacionDto } from './response-consignacion.dto';
+export {
+  ResponseSaldoConsignacionDto,
+  SaldoConsignacionProductoDto,
+} from './response-saldo-consignacion.dto';
+export { ResponseLiquidacionConsignacionDto } from './response-liquidacion-consignacion.dto';
@@ -0,0 +1,115 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { TipoAfectacionIgv } from '../../comprobantes/enum/tipo-afectacion-igv.enum';
+
+/**
+ * Cantidad de una consignación que se liquida y su precio
+ */
+export class DetalleLiquidacionConsignacionDto {
+  @ApiProperty({ description: 'ID de la consignación', example: 12 })
+  @IsInt()
+  idConsignacion: number;
+
+  @ApiProperty({
+    description: 'Cantidad a liquidar en la unidad base del producto',
+    example: 10,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  cantidad: number;
+
+  @ApiProperty({
+    description: 'Precio unitario sin IGV en la moneda del comprobante',
+    example: 25.5,
+  })
+  @IsNumber()
+  @Min(0)
+  precioUnitario: number;
+
+  @ApiPropertyOptional({ description: 'IGV del detalle', example: 45.9 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  igv?: number;
+
+  @ApiPropertyOptional({ enum: TipoAfectacionIgv })
+  @IsOptional()
+  @IsEnum(TipoAfectacionIgv)
+  tipoAfectacionIgv?: TipoAfectacionIgv;
+
+  @ApiPropertyOptional({
+    description:
+      'Lote del consignatario que se vende; obligatorio con costo específico',
+    example: 40,
+  })
+  @IsOptional()
+  @IsInt()
+  idLote?: number;
+}
+
+/**
+ * DTO para liquidar consignaciones de una misma entidad como compra (recibidas) o
+ * venta (entregadas)
+ */
+export class LiquidarConsignacionDto {
+  @ApiProperty({
+    description: 'ID del tipo de comprobante (Tabla 10) de la compra o venta',
+    example: 2,
+  })
+  @IsInt()
+  idTipoComprobante: number;
+
+  @ApiProperty({ description: 'Serie del comprobante', example: 'F001' })
+  @IsString()
+  @Length(1, 5)
+  serie: string;
+
+  @ApiProperty({ description: 'Número del comprobante', example: '000123' })
+  @IsString()
+  @Length(1, 20)
+  numero: string;
+
+  @ApiProperty({ description: 'Fecha de emisión', example: '2024-04-30' })
+  @IsDateString()
+  fechaEmision: string;
+
+  @ApiPropertyOptional({ enum: Moneda, default: Moneda.PEN })
+  @IsOptional()
+  @IsEnum(Moneda)
+  moneda?: Moneda;
+
+  @ApiPropertyOptional({ description: 'Tipo de cambio (USD)', example: 3.75 })
+  @IsOptional()
+  @IsNumber()
+  tipoCambio?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fecha de vencimiento del comprobante',
+    example: '2024-05-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  fechaVencimiento?: string;
+
+  @ApiProperty({ type: [DetalleLiquidacionConsignacionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => DetalleLiquidacionConsignacionDto)
+  detalles: DetalleLiquidacionConsignacionDto[];
+}
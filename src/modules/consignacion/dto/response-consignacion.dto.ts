@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TipoConsignacion } from '../enum';
+
+/**
+ * DTO de respuesta de una consignación
+ */
+export class ResponseConsignacionDto {
+  @ApiProperty({ description: 'ID de la consignación', example: 12 })
+  id: number;
+
+  @ApiProperty({ enum: TipoConsignacion })
+  tipo: TipoConsignacion;
+
+  @ApiProperty({ description: 'ID de la entidad', example: 4 })
+  idEntidad: number;
+
+  @ApiProperty({
+    description: 'Proveedor o cliente',
+    example: 'Comercial Andina SAC',
+  })
+  entidad: string;
+
+  @ApiProperty({ description: 'ID del comprobante de consignación' })
+  idComprobante: number;
+
+  @ApiProperty({
+    description: 'Serie y número del comprobante',
+    example: 'T001-45',
+  })
+  documento: string;
+
+  @ApiProperty({ description: 'Fecha de la consignación' })
+  fecha: Date;
+
+  @ApiProperty({ description: 'ID del inventario donde está la mercadería' })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Aceite 1 L' })
+  producto: string;
+
+  @ApiProperty({ description: 'Almacén donde está la mercadería' })
+  almacen: string;
+
+  @ApiProperty({ description: 'Cantidad consignada', example: 50 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Cantidad liquidada', example: 20 })
+  cantidadLiquidada: number;
+
+  @ApiProperty({ description: 'Cantidad pendiente de liquidar', example: 30 })
+  saldo: number;
+
+  @ApiProperty({
+    description: 'Precio pactado (recibida) o costo de salida (entregada)',
+    example: 6.8,
+  })
+  costoUnitario: number;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseComprobanteDto } from '../../comprobantes/dto/comprobante/response-comprobante.dto';
+import { ResponseConsignacionDto } from './response-consignacion.dto';
+
+/**
+ * Resultado de una liquidación: el comprobante de compra o venta y los saldos actualizados
+ */
+export class ResponseLiquidacionConsignacionDto {
+  @ApiProperty({ type: ResponseComprobanteDto })
+  comprobante: ResponseComprobanteDto;
+
+  @ApiProperty({ type: [ResponseConsignacionDto] })
+  consignaciones: ResponseConsignacionDto[];
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TipoConsignacion } from '../enum';
+
+/**
+ * Saldo en consignación de un producto
+ */
+export class SaldoConsignacionProductoDto {
+  @ApiProperty({ description: 'ID del inventario', example: 15 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Aceite 1 L' })
+  producto: string;
+
+  @ApiProperty({ description: 'Almacén', example: 'Principal' })
+  almacen: string;
+
+  @ApiProperty({ description: 'Cantidad consignada', example: 50 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Cantidad liquidada', example: 20 })
+  cantidadLiquidada: number;
+
+  @ApiProperty({ description: 'Saldo pendiente', example: 30 })
+  saldo: number;
+
+  @ApiProperty({ description: 'Valor del saldo', example: 204 })
+  valor: number;
+}
+
+/**
+ * Saldo en consignación de una entidad en un sentido
+ */
+export class ResponseSaldoConsignacionDto {
+  @ApiProperty({ description: 'ID de la entidad', example: 4 })
+  idEntidad: number;
+
+  @ApiProperty({
+    description: 'Proveedor o cliente',
+    example: 'Comercial Andina SAC',
+  })
+  entidad: string;
+
+  @ApiProperty({ description: 'Número de documento', example: '20123456789' })
+  numeroDocumento: string;
+
+  @ApiProperty({ enum: TipoConsignacion })
+  tipo: TipoConsignacion;
+
+  @ApiProperty({ type: [SaldoConsignacionProductoDto] })
+  productos: SaldoConsignacionProductoDto[];
+
+  @ApiProperty({
+    description:
+      'Valor total del saldo: precio pactado (recibida) o costo (entregada)',
+    example: 204,
+  })
+  valorTotal: number;
+}
@@ -0,0 +1,95 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { Persona } from '../../users/entities/persona.entity';
+import { TipoConsignacion } from '../enum';
+
+/**
+ * Mercadería en consignación, una fila por detalle del comprobante 03 o 04
+ * El saldo es la cantidad consignada menos la ya liquidada como compra o venta
+ */
+@Entity('consignacion')
+@Index(['persona', 'entidad', 'tipo'])
+export class Consignacion {
+  /**
+   * Identificador único de la consignación
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: TipoConsignacion })
+  tipo: TipoConsignacion;
+
+  /**
+   * Proveedor consignador (recibida) o cliente consignatario (entregada)
+   */
+  @ManyToOne(() => Entidad, { nullable: false })
+  @JoinColumn({ name: 'id_entidad' })
+  entidad: Entidad;
+
+  /**
+   * Comprobante (guía) con el que se recibió o entregó la mercadería
+   */
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  @ManyToOne(() => ComprobanteDetalle, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante_detalle' })
+  comprobanteDetalle: ComprobanteDetalle;
+
+  /**
+   * Dónde está la mercadería: nuestro almacén (recibida) o el del consignatario (entregada)
+   */
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  /**
+   * Inventario del que salió la mercadería entregada
+   */
+  @ManyToOne(() => Inventario, { nullable: true })
+  @JoinColumn({ name: 'id_inventario_origen' })
+  inventarioOrigen?: Inventario | null;
+
+  /**
+   * Cantidad consignada en la unidad base del producto
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  cantidad: number;
+
+  @Column('decimal', { precision: 15, scale: 4, default: 0 })
+  cantidadLiquidada: number;
+
+  /**
+   * Precio pactado (recibida) o costo de salida (entregada), en moneda nacional por unidad base
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  costoUnitario: number;
+
+  @Column({ type: 'timestamp', nullable: false })
+  fecha: Date;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
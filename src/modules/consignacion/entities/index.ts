@@ -0,0 +1 @@
+export { Consignacion } from './consignacion.entity';
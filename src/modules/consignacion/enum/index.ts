@@ -0,0 +1 @@
+export * from './tipo-consignacion.enum';
@@ -0,0 +1,13 @@
+/**
+ * Sentido de la consignación (Tabla 12: 03 recibida, 04 entregada)
+ */
+export enum TipoConsignacion {
+  /**
+   * Mercadería de un proveedor en nuestro almacén; no forma parte de nuestro inventario
+   */
+  RECIBIDA = 'RECIBIDA',
+  /**
+   * Mercadería propia en el local del consignatario
+   */
+  ENTREGADA = 'ENTREGADA',
+}
@@ -0,0 +1,286 @@
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager, Repository } from 'typeorm';
+import { ConsignacionService } from './consignacion.service';
+import { Consignacion } from '../entities';
+import { TipoConsignacion } from '../enum';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { TablaDetalle } from '../../comprobantes/entities/tabla-detalle.entity';
+import { ComprobanteService } from '../../comprobantes/service/comprobante.service';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import { CreateMovimientoDto } from '../../movimientos/dto';
+import { MotivoMovimiento, TipoMovimiento } from '../../movimientos/enum';
+
+// El repositorio de movimientos y el servicio de comprobantes usan rutas 'src/...' que jest
+// no resuelve
+jest.mock('../../movimientos/repository/movimientos.repository', () => ({
+  MovimientosRepository: class {},
+}));
+jest.mock('../../comprobantes/service/comprobante.service', () => ({
+  ComprobanteService: class {},
+}));
+
+/**
+ * Tests unitarios para ConsignacionService
+ * Verifica que lo recibido no toque el Kardex y que lo entregado se traslade con su costo
+ */
+describe('ConsignacionService', () => {
+  let service: ConsignacionService;
+  let movimientos: CreateMovimientoDto[];
+  let guardados: object[];
+  let manager: EntityManager;
+  let consignacionRepository: Repository<Consignacion>;
+  let findTomaEnCurso: jest.Mock;
+  let transaccion: EntityManager;
+  let setLock: jest.Mock;
+  let saveLiquidadas: jest.Mock;
+  let register: jest.Mock;
+
+  const comprobante = (codigo: string, moneda = Moneda.PEN) =>
+    ({
+      idComprobante: 30,
+      serie: 'T001',
+      numero: '45',
+      moneda,
+      tipoCambio: '3.7500',
+      fechaEmision: new Date('2024-04-10T10:00:00'),
+      tipoOperacion: { codigo },
+      persona: { id: 1 },
+      entidad: { id: 4, nombreCompletoMostrado: 'Bodega Lucía' },
+      detalles: [
+        {
+          cantidad: '2',
+          factorConversion: '12.000000',
+          precioUnitario: '24.0000',
+          inventario: {
+            id: 8,
+            almacen: { id: 1, codigoEstablecimiento: '0000' },
+            producto: { id: 3, nombre: 'Gaseosa', tipo: 'PRODUCTO' },
+          },
+        },
+      ],
+    }) as unknown as Comprobante;
+
+  beforeEach(() => {
+    movimientos = [];
+    guardados = [];
+    findTomaEnCurso = jest.fn(() => Promise.resolve(null));
+    manager = {
+      create: jest.fn((_entidad: unknown, datos: object) => datos),
+      save: jest.fn((_entidad: unknown, datos: object | object[]) => {
+        guardados.push(datos);
+        return Promise.resolve(
+          Array.isArray(datos)
+            ? datos
+            : { id: 50 + guardados.length, ...datos },
+        );
+      }),
+      findOne: jest.fn(() => Promise.resolve(null)),
+      find: jest.fn(() =>
+        Promise.resolve([
+          { id: 5, numeroLote: 'L-01', fechaVencimiento: '2024-12-31' },
+        ]),
+      ),
+    } as unknown as EntityManager;
+    // Transacción de la liquidación: bloquea las consignaciones y guarda lo liquidado
+    const bloqueo: Record<string, jest.Mock> = {};
+    for (const metodo of ['setLock', 'where']) {
+      bloqueo[metodo] = jest.fn(() => bloqueo);
+    }
+    bloqueo.getMany = jest.fn(() => Promise.resolve([]));
+    setLock = bloqueo.setLock;
+    saveLiquidadas = jest.fn((_entidad: unknown, datos: object[]) =>
+      Promise.resolve(datos),
+    );
+    transaccion = {
+      getRepository: jest.fn(() => ({ createQueryBuilder: () => bloqueo })),
+      find: jest.fn(() =>
+        Promise.resolve([
+          {
+            id: 12,
+            tipo: TipoConsignacion.ENTREGADA,
+            entidad: { id: 4 },
+            comprobante: { serie: 'T001', numero: '45' },
+            cantidad: '24.0000',
+            cantidadLiquidada: '20.0000',
+            inventario: {
+              id: 60,
+              almacen: { nombre: 'Consignación - Bodega Lucía' },
+              producto: { nombre: 'Gaseosa', unidadMedida: 'NIU' },
+            },
+          },
+        ]),
+      ),
+      save: saveLiquidadas,
+    } as unknown as EntityManager;
+    consignacionRepository = {
+      manager: {
+        transaction: jest.fn(
+          (ejecutar: (manager: EntityManager) => Promise<unknown>) =>
+            ejecutar(transaccion),
+        ),
+      },
+    } as unknown as Repository<Consignacion>;
+    register = jest.fn(() => Promise.resolve({ idComprobante: 31 }));
+
+    service = new ConsignacionService(
+      consignacionRepository,
+      {
+        findOne: jest.fn(() => Promise.resolve({ idTablaDetalle: 1 })),
+      } as unknown as Repository<TablaDetalle>,
+      {
+        calcularConsumoLotes: jest.fn(() =>
+          Promise.resolve([{ idLote: 5, cantidad: 24, costoUnitario: 1.5 }]),
+        ),
+        calcularCostoUnitarioVenta: jest.fn(() => Promise.resolve(1.5)),
+      } as unknown as StockCalculationService,
+      {
+        invalidateMultipleInventarios: jest.fn(),
+      } as unknown as StockCacheService,
+      {
+        invalidarDesde: jest.fn(() => Promise.resolve()),
+      } as unknown as KardexSaldoService,
+      {
+        findTomaEnCurso,
+        createWithManager: jest.fn((dto: CreateMovimientoDto) => {
+          movimientos.push(dto);
+          return Promise.resolve({ id: movimientos.length });
+        }),
+      } as unknown as MovimientosRepository,
+      { register } as unknown as ComprobanteService,
+    );
+  });
+
+  describe('registrarDesdeComprobante', () => {
+    it('should keep received goods out of the Kardex at the agreed base-unit price', async () => {
+      const [consignacion] = await service.registrarDesdeComprobante(
+        comprobante('03', Moneda.USD),
+        MetodoValoracion.FIFO,
+        false,
+        manager,
+      );
+
+      expect(movimientos).toHaveLength(0);
+      expect(consignacion).toMatchObject({
+        tipo: TipoConsignacion.RECIBIDA,
+        cantidad: 24,
+        costoUnitario: 7.5,
+      });
+    });
+
+    it('should move delivered goods to the consignee location with their lots', async () => {
+      const [consignacion] = await service.registrarDesdeComprobante(
+        comprobante('04'),
+        MetodoValoracion.FIFO,
+        false,
+        manager,
+      );
+
+      expect(movimientos).toHaveLength(2);
+      expect(movimientos[0]).toMatchObject({
+        tipo: TipoMovimiento.SALIDA,
+        motivo: MotivoMovimiento.CONSIGNACION,
+        codigoTabla12: '04',
+        idComprobante: 30,
+        detalles: [{ idInventario: 8, cantidad: 24, costoUnitario: 1.5 }],
+      });
+      expect(movimientos[1]).toMatchObject({
+        tipo: TipoMovimiento.ENTRADA,
+        detalles: [{ cantidad: 24, costoUnitario: 1.5 }],
+      });
+      expect(guardados).toContainEqual(
+        expect.objectContaining({
+          nombre: 'Consignación - Bodega Lucía',
+          entidadConsignataria: expect.objectContaining({ id: 4 }),
+        }),
+      );
+      expect(guardados).toContainEqual(
+        expect.objectContaining({ numeroLote: 'L-01', costoUnitario: 1.5 }),
+      );
+      expect(consignacion).toMatchObject({
+        tipo: TipoConsignacion.ENTREGADA,
+        inventarioOrigen: expect.objectContaining({ id: 8 }),
+      });
+    });
+
+    it('should not deliver goods while a count locks the source inventory', async () => {
+      findTomaEnCurso.mockResolvedValue({
+        inventario: { id: 8 },
+        tomaInventario: { id: 3 },
+      });
+
+      await expect(
+        service.registrarDesdeComprobante(
+          comprobante('04'),
+          MetodoValoracion.FIFO,
+          false,
+          manager,
+        ),
+      ).rejects.toThrow('bloqueado por la toma de inventario 3');
+      expect(findTomaEnCurso).toHaveBeenCalledWith(expect.arrayContaining([8]));
+      expect(movimientos).toHaveLength(0);
+    });
+
+    it('should reject serialized products, whose units it cannot move', async () => {
+      const entrega = comprobante('04');
+      entrega.detalles[0].inventario.producto.serializado = true;
+
+      await expect(
+        service.registrarDesdeComprobante(
+          entrega,
+          MetodoValoracion.FIFO,
+          false,
+          manager,
+        ),
+      ).rejects.toThrow(
+        'Los productos con número de serie no pueden consignarse: Gaseosa',
+      );
+      expect(movimientos).toHaveLength(0);
+    });
+  });
+
+  describe('liquidar', () => {
+    it('should reject quantities above the pending balance', async () => {
+      await expect(
+        service.liquidar(1, {
+          idTipoComprobante: 2,
+          serie: 'F001',
+          numero: '10',
+          fechaEmision: '2024-04-30',
+          detalles: [{ idConsignacion: 12, cantidad: 5, precioUnitario: 3 }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(register).not.toHaveBeenCalled();
+    });
+
+    it('should register the sale and the settled quantity in one locked transaction', async () => {
+      const resultado = await service.liquidar(1, {
+        idTipoComprobante: 2,
+        serie: 'F001',
+        numero: '10',
+        fechaEmision: '2024-04-30',
+        detalles: [{ idConsignacion: 12, cantidad: 3, precioUnitario: 3 }],
+      });
+
+      expect(setLock).toHaveBeenCalledWith('pessimistic_write');
+      expect(register).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detalles: [
+            expect.objectContaining({ idInventario: 60, cantidad: 3 }),
+          ],
+        }),
+        1,
+        undefined,
+        transaccion,
+      );
+      expect(saveLiquidadas).toHaveBeenCalledWith(Consignacion, [
+        expect.objectContaining({ id: 12, cantidadLiquidada: 23 }),
+      ]);
+      expect(resultado.consignaciones[0].saldo).toBe(1);
+    });
+  });
+});
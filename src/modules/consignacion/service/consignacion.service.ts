@@ -0,0 +1,649 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Consignacion } from '../entities';
+import { TipoConsignacion } from '../enum';
+import {
+  LiquidarConsignacionDto,
+  ResponseConsignacionDto,
+  ResponseLiquidacionConsignacionDto,
+  ResponseSaldoConsignacionDto,
+} from '../dto';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { TablaDetalle } from '../../comprobantes/entities/tabla-detalle.entity';
+import { ComprobanteService } from '../../comprobantes/service/comprobante.service';
+import { CreateComprobanteDto } from '../../comprobantes/dto/comprobante/create-comprobante.dto';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import {
+  EstadoMovimiento,
+  MotivoMovimiento,
+  TipoMovimiento,
+} from '../../movimientos/enum';
+import { TipoProducto } from '../../productos/enum/tipo-producto.enum';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+
+/**
+ * Códigos SUNAT (tabla 12) de la consignación y de las operaciones que la liquidan
+ */
+const CODIGO_CONSIGNACION_RECIBIDA = '03';
+const CODIGO_CONSIGNACION_ENTREGADA = '04';
+const CODIGO_VENTA = '01';
+const CODIGO_COMPRA = '02';
+
+/**
+ * Servicio de consignaciones
+ * Lo recibido en consignación solo se controla aquí, fuera del inventario valorizado; lo
+ * entregado se traslada al almacén del consignatario y sigue siendo de la empresa
+ */
+@Injectable()
+export class ConsignacionService {
+  private readonly logger = new Logger(ConsignacionService.name);
+
+  constructor(
+    @InjectRepository(Consignacion)
+    private readonly consignacionRepository: Repository<Consignacion>,
+    @InjectRepository(TablaDetalle)
+    private readonly tablaDetalleRepository: Repository<TablaDetalle>,
+    private readonly stockCalculationService: StockCalculationService,
+    private readonly stockCacheService: StockCacheService,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly movimientosRepository: MovimientosRepository,
+    @Inject(forwardRef(() => ComprobanteService))
+    private readonly comprobanteService: ComprobanteService,
+  ) {}
+
+  /**
+   * Registra la consignación de un comprobante 03 (recibida) o 04 (entregada) dentro de la
+   * transacción del comprobante
+   * @param comprobante - Comprobante con entidad, persona y detalles con su inventario
+   * @param metodoValoracion - Método de valoración de la empresa
+   * @param permitirLotesVencidos - Autoriza entregar lotes vencidos
+   * @param manager - EntityManager de la transacción
+   */
+  async registrarDesdeComprobante(
+    comprobante: Comprobante,
+    metodoValoracion: MetodoValoracion,
+    permitirLotesVencidos: boolean,
+    manager: EntityManager,
+  ): Promise<Consignacion[]> {
+    if (!comprobante.entidad) {
+      throw new BadRequestException(
+        'La consignación requiere el proveedor o cliente del comprobante',
+      );
+    }
+    const servicios = comprobante.detalles.filter(
+      (detalle) => detalle.inventario.producto.tipo === TipoProducto.SERVICIO,
+    );
+    if (servicios.length > 0) {
+      throw new BadRequestException(
+        `Los servicios no pueden consignarse: ${servicios.map((d) => d.inventario.producto.nombre).join(', ')}`,
+      );
+    }
+    // La consignación no traslada números de serie: sus unidades quedarían sin ubicar
+    const serializados = comprobante.detalles.filter(
+      (detalle) => detalle.inventario.producto.serializado,
+    );
+    if (serializados.length > 0) {
+      throw new BadRequestException(
+        `Los productos con número de serie no pueden consignarse: ${serializados.map((d) => d.inventario.producto.nombre).join(', ')}`,
+      );
+    }
+
+    const codigo = comprobante.tipoOperacion.codigo;
+    if (codigo === CODIGO_CONSIGNACION_RECIBIDA) {
+      return this.registrarRecepcion(comprobante, manager);
+    }
+    if (codigo === CODIGO_CONSIGNACION_ENTREGADA) {
+      return this.registrarEntrega(
+        comprobante,
+        metodoValoracion,
+        permitirLotesVencidos,
+        manager,
+      );
+    }
+    return [];
+  }
+
+  /**
+   * Lista las consignaciones de la empresa, las más recientes primero
+   * @param personaId - ID de la empresa
+   * @param tipo - Recibidas o entregadas (opcional)
+   * @param idEntidad - Proveedor o cliente (opcional)
+   */
+  async listar(
+    personaId: number,
+    tipo?: TipoConsignacion,
+    idEntidad?: number,
+  ): Promise<ResponseConsignacionDto[]> {
+    const consignaciones = await this.buscar(personaId, tipo, idEntidad);
+    return consignaciones.map((consignacion) => this.mapear(consignacion));
+  }
+
+  /**
+   * Saldo pendiente de liquidar por entidad y sentido
+   * @param personaId - ID de la empresa
+   * @param tipo - Recibidas o entregadas (opcional)
+   * @param idEntidad - Proveedor o cliente (opcional)
+   */
+  async obtenerSaldos(
+    personaId: number,
+    tipo?: TipoConsignacion,
+    idEntidad?: number,
+  ): Promise<ResponseSaldoConsignacionDto[]> {
+    const consignaciones = await this.buscar(personaId, tipo, idEntidad);
+    const saldos = new Map<string, ResponseSaldoConsignacionDto>();
+
+    for (const consignacion of consignaciones) {
+      const saldo = this.saldo(consignacion);
+      if (saldo <= 0) {
+        continue;
+      }
+
+      const clave = `${consignacion.entidad.id}-${consignacion.tipo}`;
+      let grupo = saldos.get(clave);
+      if (!grupo) {
+        grupo = {
+          idEntidad: consignacion.entidad.id,
+          entidad: consignacion.entidad.nombreCompletoMostrado,
+          numeroDocumento: consignacion.entidad.numeroDocumento,
+          tipo: consignacion.tipo,
+          productos: [],
+          valorTotal: 0,
+        };
+        saldos.set(clave, grupo);
+      }
+
+      const idInventario = Number(consignacion.inventario.id);
+      let producto = grupo.productos.find(
+        (item) => item.idInventario === idInventario,
+      );
+      if (!producto) {
+        producto = {
+          idInventario,
+          codigoProducto: consignacion.inventario.producto.codigo,
+          producto: consignacion.inventario.producto.nombre,
+          almacen: consignacion.inventario.almacen.nombre,
+          cantidad: 0,
+          cantidadLiquidada: 0,
+          saldo: 0,
+          valor: 0,
+        };
+        grupo.productos.push(producto);
+      }
+
+      const valor = saldo * Number(consignacion.costoUnitario);
+      producto.cantidad = this.redondear(
+        producto.cantidad + Number(consignacion.cantidad),
+      );
+      producto.cantidadLiquidada = this.redondear(
+        producto.cantidadLiquidada + Number(consignacion.cantidadLiquidada),
+      );
+      producto.saldo = this.redondear(producto.saldo + saldo);
+      producto.valor = this.redondear(producto.valor + valor);
+      grupo.valorTotal = this.redondear(grupo.valorTotal + valor);
+    }
+
+    return [...saldos.values()].sort((a, b) =>
+      a.entidad.localeCompare(b.entidad),
+    );
+  }
+
+  /**
+   * Liquida consignaciones de una misma entidad: las recibidas como compra y las entregadas
+   * como venta, con el flujo normal de comprobantes (lotes, Kardex y asientos)
+   * @param personaId - ID de la empresa
+   * @param dto - Datos del comprobante y cantidades a liquidar
+   * @param idUsuario - Usuario que registra la liquidación
+   */
+  async liquidar(
+    personaId: number,
+    dto: LiquidarConsignacionDto,
+    idUsuario?: number,
+  ): Promise<ResponseLiquidacionConsignacionDto> {
+    const ids = dto.detalles.map((detalle) => detalle.idConsignacion);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException(
+        'Cada consignación debe aparecer una sola vez en la liquidación',
+      );
+    }
+
+    // El comprobante y el saldo liquidado se confirman juntos
+    return this.consignacionRepository.manager.transaction(async (manager) => {
+      // Bloquea las consignaciones para que dos liquidaciones no consuman el mismo saldo
+      await manager
+        .getRepository(Consignacion)
+        .createQueryBuilder('consignacion')
+        .setLock('pessimistic_write')
+        .where('consignacion.id IN (:...ids)', { ids })
+        .getMany();
+      const consignaciones = await manager.find(Consignacion, {
+        where: { id: In(ids), persona: { id: personaId } },
+        relations: ['entidad', 'comprobante', 'inventario'],
+      });
+      const faltantes = ids.filter(
+        (id) => !consignaciones.some((consignacion) => consignacion.id === id),
+      );
+      if (faltantes.length > 0) {
+        throw new NotFoundException(
+          `Consignaciones no encontradas: ${faltantes.join(', ')}`,
+        );
+      }
+
+      const [primera] = consignaciones;
+      if (
+        consignaciones.some(
+          (consignacion) =>
+            consignacion.tipo !== primera.tipo ||
+            consignacion.entidad.id !== primera.entidad.id,
+        )
+      ) {
+        throw new BadRequestException(
+          'Solo se liquidan juntas consignaciones de la misma entidad y sentido',
+        );
+      }
+
+      const porId = new Map(consignaciones.map((c) => [c.id, c]));
+      for (const detalle of dto.detalles) {
+        const consignacion = porId.get(detalle.idConsignacion)!;
+        const saldo = this.saldo(consignacion);
+        if (detalle.cantidad > saldo) {
+          throw new BadRequestException(
+            `La cantidad a liquidar de ${consignacion.inventario.producto.nombre} excede el saldo en consignación (${saldo})`,
+          );
+        }
+      }
+
+      const codigo =
+        primera.tipo === TipoConsignacion.RECIBIDA
+          ? CODIGO_COMPRA
+          : CODIGO_VENTA;
+      const tipoOperacion = await this.tablaDetalleRepository.findOne({
+        where: { codigo, tabla: { numeroTabla: '12' } },
+      });
+      if (!tipoOperacion) {
+        throw new Error(
+          `Tipo de operación ${codigo} no encontrado en la tabla 12`,
+        );
+      }
+
+      const comprobante = await this.comprobanteService.register(
+        {
+          idPersona: primera.entidad.id,
+          idTipoOperacion: tipoOperacion.idTablaDetalle,
+          idTipoComprobante: dto.idTipoComprobante,
+          fechaEmision: new Date(dto.fechaEmision),
+          moneda: dto.moneda ?? Moneda.PEN,
+          tipoCambio: dto.tipoCambio,
+          serie: dto.serie,
+          numero: dto.numero,
+          fechaVencimiento: dto.fechaVencimiento
+            ? new Date(dto.fechaVencimiento)
+            : undefined,
+          detalles: dto.detalles.map((detalle) => {
+            const consignacion = porId.get(detalle.idConsignacion)!;
+            const subtotal =
+              Math.round(detalle.cantidad * detalle.precioUnitario * 100) / 100;
+            const igv = detalle.igv ?? 0;
+            return {
+              idInventario: Number(consignacion.inventario.id),
+              cantidad: detalle.cantidad,
+              unidadMedida: consignacion.inventario.producto.unidadMedida,
+              precioUnitario: detalle.precioUnitario,
+              subtotal,
+              igv,
+              isc: 0,
+              tipoAfectacionIgv: detalle.tipoAfectacionIgv,
+              total: subtotal + igv,
+              descripcion:
+                `Liquidación de consignación ${this.documento(consignacion.comprobante)}`.slice(
+                  0,
+                  255,
+                ),
+              loteId: detalle.idLote,
+            };
+          }),
+        } as CreateComprobanteDto,
+        personaId,
+        idUsuario,
+        manager,
+      );
+
+      for (const detalle of dto.detalles) {
+        const consignacion = porId.get(detalle.idConsignacion)!;
+        consignacion.cantidadLiquidada = this.redondear(
+          Number(consignacion.cantidadLiquidada) + detalle.cantidad,
+        );
+      }
+      await manager.save(Consignacion, consignaciones);
+      this.logger.log(
+        `Consignaciones ${ids.join(', ')} liquidadas con el comprobante ${comprobante.idComprobante}`,
+      );
+
+      return {
+        comprobante,
+        consignaciones: consignaciones.map((consignacion) =>
+          this.mapear(consignacion),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Mercadería del proveedor en nuestro almacén: no genera lotes ni Kardex hasta liquidarse
+   */
+  private async registrarRecepcion(
+    comprobante: Comprobante,
+    manager: EntityManager,
+  ): Promise<Consignacion[]> {
+    const factorMoneda = this.factorMonedaNacional(comprobante);
+    const filas = comprobante.detalles.map((detalle) =>
+      manager.create(Consignacion, {
+        tipo: TipoConsignacion.RECIBIDA,
+        entidad: comprobante.entidad,
+        comprobante,
+        comprobanteDetalle: detalle,
+        inventario: detalle.inventario,
+        cantidad: cantidadEnUnidadBase(detalle),
+        cantidadLiquidada: 0,
+        costoUnitario: this.redondear(
+          (Number(detalle.precioUnitario) * factorMoneda) /
+            (Number(detalle.factorConversion) || 1),
+        ),
+        fecha: comprobante.fechaEmision,
+        persona: comprobante.persona,
+      }),
+    );
+    return manager.save(Consignacion, filas);
+  }
+
+  /**
+   * Traslado de mercadería propia al almacén del consignatario
+   * Cada lote consumido se replica en el destino con su número, vencimiento y costo
+   */
+  private async registrarEntrega(
+    comprobante: Comprobante,
+    metodoValoracion: MetodoValoracion,
+    permitirLotesVencidos: boolean,
+    manager: EntityManager,
+  ): Promise<Consignacion[]> {
+    const fecha = new Date(comprobante.fechaEmision);
+    const documento = this.documento(comprobante);
+    const salidas: {
+      idInventario: number;
+      cantidad: number;
+      costoUnitario: number;
+      detallesSalida: {
+        idLote: number;
+        costoUnitarioDeLote: number;
+        cantidad: number;
+      }[];
+    }[] = [];
+    const entradas: {
+      idInventario: number;
+      cantidad: number;
+      idLote: number;
+      costoUnitario: number;
+    }[] = [];
+    const filas: Consignacion[] = [];
+
+    for (const detalle of comprobante.detalles) {
+      const origen = detalle.inventario;
+      const cantidad = cantidadEnUnidadBase(detalle);
+      const consumo = detalle.loteId
+        ? await this.stockCalculationService.calcularConsumoLoteEspecifico(
+            origen.id,
+            Number(detalle.loteId),
+            cantidad,
+            fecha,
+            permitirLotesVencidos,
+          )
+        : await this.stockCalculationService.calcularConsumoLotes(
+            origen.id,
+            cantidad,
+            fecha,
+            permitirLotesVencidos,
+          );
+      const costoUnitario = this.redondear(
+        metodoValoracion === MetodoValoracion.ESPECIFICO
+          ? this.stockCalculationService.calcularCostoConsumo(consumo)
+          : await this.stockCalculationService.calcularCostoUnitarioVenta(
+              origen.id,
+              cantidad,
+              metodoValoracion,
+              fecha,
+            ),
+      );
+
+      const destino = await this.obtenerInventarioConsignatario(
+        comprobante.entidad,
+        origen,
+        comprobante.persona.id,
+        manager,
+      );
+      const lotesOrigen = await manager.find(InventarioLote, {
+        where: { id: In(consumo.map((item) => item.idLote)) },
+      });
+      for (const item of consumo) {
+        const loteOrigen = lotesOrigen.find(
+          (lote) => Number(lote.id) === Number(item.idLote),
+        );
+        const lote = await manager.save(
+          InventarioLote,
+          manager.create(InventarioLote, {
+            inventario: destino,
+            numeroLote: loteOrigen?.numeroLote,
+            fechaVencimiento: loteOrigen?.fechaVencimiento,
+            cantidadInicial: 0,
+            costoUnitario:
+              metodoValoracion === MetodoValoracion.PROMEDIO
+                ? costoUnitario
+                : item.costoUnitario,
+            fechaIngreso: fecha,
+            observaciones: `Consignación entregada ${documento}`,
+          }),
+        );
+        entradas.push({
+          idInventario: Number(destino.id),
+          cantidad: item.cantidad,
+          idLote: Number(lote.id),
+          costoUnitario: Number(lote.costoUnitario),
+        });
+      }
+
+      salidas.push({
+        idInventario: Number(origen.id),
+        cantidad,
+        costoUnitario,
+        detallesSalida: consumo.map((item) => ({
+          idLote: item.idLote,
+          costoUnitarioDeLote: item.costoUnitario,
+          cantidad: item.cantidad,
+        })),
+      });
+      filas.push(
+        manager.create(Consignacion, {
+          tipo: TipoConsignacion.ENTREGADA,
+          entidad: comprobante.entidad,
+          comprobante,
+          comprobanteDetalle: detalle,
+          inventario: destino,
+          inventarioOrigen: origen,
+          cantidad,
+          cantidadLiquidada: 0,
+          costoUnitario,
+          fecha,
+          persona: comprobante.persona,
+        }),
+      );
+    }
+
+    const afectados = [
+      ...new Set([
+        ...salidas.map((salida) => salida.idInventario),
+        ...entradas.map((entrada) => entrada.idInventario),
+      ]),
+    ];
+    // Los inventarios en conteo físico no admiten movimientos hasta cerrar la toma
+    const tomaEnCurso =
+      await this.movimientosRepository.findTomaEnCurso(afectados);
+    if (tomaEnCurso) {
+      throw new BadRequestException(
+        `El inventario ${tomaEnCurso.inventario.id} está bloqueado por la toma de inventario ${tomaEnCurso.tomaInventario.id} en curso`,
+      );
+    }
+
+    const comunes = {
+      motivo: MotivoMovimiento.CONSIGNACION,
+      codigoTabla12: CODIGO_CONSIGNACION_ENTREGADA,
+      fecha,
+      numeroDocumento: documento,
+      estado: EstadoMovimiento.PROCESADO,
+      idComprobante: comprobante.idComprobante,
+    };
+    await this.movimientosRepository.createWithManager(
+      {
+        ...comunes,
+        tipo: TipoMovimiento.SALIDA,
+        observaciones: `Entrega en consignación a ${comprobante.entidad.nombreCompletoMostrado}`,
+        detalles: salidas,
+      },
+      manager,
+    );
+    await this.movimientosRepository.createWithManager(
+      {
+        ...comunes,
+        tipo: TipoMovimiento.ENTRADA,
+        observaciones: `Recepción en el local de ${comprobante.entidad.nombreCompletoMostrado}`,
+        detalles: entradas,
+      },
+      manager,
+    );
+
+    await this.kardexSaldoService.invalidarDesde(afectados, fecha, manager);
+    this.stockCacheService.invalidateMultipleInventarios(afectados);
+
+    return manager.save(Consignacion, filas);
+  }
+
+  /**
+   * Inventario del producto en el almacén que representa el local del consignatario; crea
+   * ambos si no existen
+   */
+  private async obtenerInventarioConsignatario(
+    entidad: Entidad,
+    origen: Inventario,
+    personaId: number,
+    manager: EntityManager,
+  ): Promise<Inventario> {
+    let almacen = await manager.findOne(Almacen, {
+      where: {
+        entidadConsignataria: { id: entidad.id },
+        persona: { id: personaId },
+      },
+    });
+    if (!almacen) {
+      almacen = await manager.save(
+        Almacen,
+        manager.create(Almacen, {
+          persona: { id: personaId },
+          entidadConsignataria: entidad,
+          nombre: `Consignación - ${entidad.nombreCompletoMostrado}`.slice(
+            0,
+            100,
+          ),
+          ubicacion: (entidad.direccion || 'Local del consignatario').slice(
+            0,
+            255,
+          ),
+          codigoEstablecimiento: origen.almacen.codigoEstablecimiento,
+          descripcion: 'Mercadería entregada en consignación',
+        }),
+      );
+    }
+
+    const inventario = await manager.findOne(Inventario, {
+      where: {
+        almacen: { id: almacen.id },
+        producto: { id: origen.producto.id },
+      },
+    });
+    return (
+      inventario ??
+      manager.save(
+        Inventario,
+        manager.create(Inventario, { almacen, producto: origen.producto }),
+      )
+    );
+  }
+
+  private async buscar(
+    personaId: number,
+    tipo?: TipoConsignacion,
+    idEntidad?: number,
+  ): Promise<Consignacion[]> {
+    return this.consignacionRepository.find({
+      where: {
+        persona: { id: personaId },
+        ...(tipo ? { tipo } : {}),
+        ...(idEntidad ? { entidad: { id: idEntidad } } : {}),
+      },
+      relations: ['entidad', 'comprobante', 'inventario'],
+      order: { fecha: 'DESC', id: 'DESC' },
+    });
+  }
+
+  private mapear(consignacion: Consignacion): ResponseConsignacionDto {
+    return {
+      id: consignacion.id,
+      tipo: consignacion.tipo,
+      idEntidad: consignacion.entidad.id,
+      entidad: consignacion.entidad.nombreCompletoMostrado,
+      idComprobante: consignacion.comprobante.idComprobante,
+      documento: this.documento(consignacion.comprobante),
+      fecha: consignacion.fecha,
+      idInventario: Number(consignacion.inventario.id),
+      codigoProducto: consignacion.inventario.producto.codigo,
+      producto: consignacion.inventario.producto.nombre,
+      almacen: consignacion.inventario.almacen.nombre,
+      cantidad: Number(consignacion.cantidad),
+      cantidadLiquidada: Number(consignacion.cantidadLiquidada),
+      saldo: this.saldo(consignacion),
+      costoUnitario: Number(consignacion.costoUnitario),
+    };
+  }
+
+  private saldo(consignacion: Consignacion): number {
+    return this.redondear(
+      Number(consignacion.cantidad) - Number(consignacion.cantidadLiquidada),
+    );
+  }
+
+  private documento(comprobante: Comprobante): string {
+    return `${comprobante.serie}-${comprobante.numero}`;
+  }
+
+  private factorMonedaNacional(comprobante: Comprobante): number {
+    return comprobante.moneda === Moneda.USD
+      ? Number(comprobante.tipoCambio) || 1
+      : 1;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+}
@@ -0,0 +1 @@
+export { ConsignacionService } from './consignacion.service';
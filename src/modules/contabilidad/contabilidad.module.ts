@@ -0,0 +1,60 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  Asiento,
+  AsientoCorrelativo,
+  AsientoDetalle,
+  CuentaContable,
+  DiferenciaCambio,
+  DiferenciaCambioDetalle,
+  ReglaContable,
+} from './entities';
+import {
+  AsientoService,
+  DiferenciaCambioService,
+  LibrosContablesService,
+  PlanContableService,
+} from './service';
+import { ContabilidadController } from './controller';
+import { UserModule } from '../users/user.module';
+import { PeriodosModule } from '../periodos/periodos.module';
+import { TipoCambio } from '../tipo-cambio/entities/tipo-cambio.entity';
+import { CuentasPorCobrarModule } from '../cuentas-por-cobrar/cuentas-por-cobrar.module';
+import { CuentasPorPagarModule } from '../cuentas-por-pagar/cuentas-por-pagar.module';
+
+/**
+ * Módulo de contabilidad
+ * Plan de cuentas, asientos de partida doble, Libro Diario, Libro Mayor y diferencia de cambio
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      CuentaContable,
+      ReglaContable,
+      Asiento,
+      AsientoDetalle,
+      AsientoCorrelativo,
+      DiferenciaCambio,
+      DiferenciaCambioDetalle,
+      TipoCambio,
+    ]),
+    UserModule,
+    forwardRef(() => PeriodosModule),
+    CuentasPorCobrarModule,
+    CuentasPorPagarModule,
+  ],
+  controllers: [ContabilidadController],
+  providers: [
+    PlanContableService,
+    AsientoService,
+    LibrosContablesService,
+    DiferenciaCambioService,
+  ],
+  exports: [
+    PlanContableService,
+    AsientoService,
+    LibrosContablesService,
+    TypeOrmModule,
+  ],
+})
+export class ContabilidadModule {}
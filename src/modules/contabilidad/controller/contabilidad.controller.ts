@@ -0,0 +1,334 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  DiferenciaCambioService,
+  LibrosContablesService,
+  PlanContableService,
+} from '../service';
+import {
+  CreateCuentaContableDto,
+  LibroDiarioResponseDto,
+  LibroMayorResponseDto,
+  RegistrarDiferenciaCambioDto,
+  ResponseCuentaContableDto,
+  ResponseDiferenciaCambioDto,
+  ResponseReglaContableDto,
+  UpdateReglaContableDto,
+} from '../dto';
+import { OrigenAsiento } from '../enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de contabilidad
+ * Expone el plan de cuentas, las reglas de contabilización, los libros Diario y Mayor
+ * y el ajuste por diferencia de cambio
+ */
+@ApiTags('Contabilidad')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/contabilidad')
+export class ContabilidadController {
+  constructor(
+    private readonly planContableService: PlanContableService,
+    private readonly librosContablesService: LibrosContablesService,
+    private readonly diferenciaCambioService: DiferenciaCambioService,
+  ) {}
+
+  /**
+   * Obtener el plan de cuentas de la empresa
+   */
+  @Get('plan-cuentas')
+  @ApiOperation({
+    summary: 'Obtener plan de cuentas',
+    description:
+      'Devuelve el plan de cuentas (PCGE) de la empresa; se inicializa con las cuentas base si no existe',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Plan de cuentas obtenido exitosamente',
+    type: [ResponseCuentaContableDto],
+  })
+  async obtenerPlanCuentas(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseCuentaContableDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.planContableService.obtenerPlanCuentas(user.personaId);
+  }
+
+  /**
+   * Agregar una cuenta al plan de cuentas
+   */
+  @Post('plan-cuentas')
+  @ApiOperation({
+    summary: 'Crear cuenta contable',
+    description: 'Agrega una cuenta al plan contable de la empresa',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Cuenta creada exitosamente',
+    type: ResponseCuentaContableDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Ya existe una cuenta con ese código',
+  })
+  async crearCuenta(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateCuentaContableDto,
+  ): Promise<ResponseCuentaContableDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.planContableService.crearCuenta(user.personaId, dto);
+  }
+
+  /**
+   * Obtener las reglas de contabilización
+   */
+  @Get('reglas')
+  @ApiOperation({
+    summary: 'Obtener reglas de contabilización',
+    description:
+      'Devuelve las cuentas usadas para generar los asientos de ventas, compras y costo de ventas',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reglas obtenidas exitosamente',
+    type: [ResponseReglaContableDto],
+  })
+  async obtenerReglas(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseReglaContableDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.planContableService.obtenerReglas(user.personaId);
+  }
+
+  /**
+   * Actualizar una regla de contabilización
+   */
+  @Put('reglas/:origen')
+  @ApiOperation({
+    summary: 'Actualizar regla de contabilización',
+    description:
+      'Cambia las cuentas de debe, haber e impuesto usadas para una operación',
+  })
+  @ApiParam({
+    name: 'origen',
+    description: 'Operación de la regla',
+    enum: OrigenAsiento,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Regla actualizada exitosamente',
+    type: ResponseReglaContableDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Regla o cuenta no encontrada',
+  })
+  async actualizarRegla(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('origen', new ParseEnumPipe(OrigenAsiento)) origen: OrigenAsiento,
+    @Body() dto: UpdateReglaContableDto,
+  ): Promise<ResponseReglaContableDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.planContableService.actualizarRegla(
+      user.personaId,
+      origen,
+      dto,
+    );
+  }
+
+  /**
+   * Obtener el Libro Diario
+   */
+  @Get('libro-diario/:idPeriodo')
+  @ApiOperation({
+    summary: 'Obtener Libro Diario',
+    description:
+      'Devuelve los asientos del período contable en orden cronológico, opcionalmente de un solo mes',
+  })
+  @ApiParam({ name: 'idPeriodo', description: 'ID del período contable' })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a consultar (1-12)',
+    required: false,
+    example: 3,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Libro Diario obtenido exitosamente',
+    type: LibroDiarioResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Mes inválido o período de otra empresa',
+  })
+  async obtenerLibroDiario(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', new ParseIntPipe({ optional: true })) mes?: number,
+  ): Promise<LibroDiarioResponseDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.librosContablesService.obtenerLibroDiario(
+      idPeriodo,
+      user.personaId,
+      mes,
+    );
+  }
+
+  /**
+   * Obtener el Libro Mayor
+   */
+  @Get('libro-mayor/:idPeriodo')
+  @ApiOperation({
+    summary: 'Obtener Libro Mayor',
+    description:
+      'Devuelve los movimientos y saldos por cuenta del período contable; al consultar un mes, los meses previos forman el saldo inicial',
+  })
+  @ApiParam({ name: 'idPeriodo', description: 'ID del período contable' })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a consultar (1-12)',
+    required: false,
+    example: 3,
+  })
+  @ApiQuery({
+    name: 'cuenta',
+    description: 'Código o prefijo de cuenta a consultar',
+    required: false,
+    example: '12',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Libro Mayor obtenido exitosamente',
+    type: LibroMayorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Mes inválido o período de otra empresa',
+  })
+  async obtenerLibroMayor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', new ParseIntPipe({ optional: true })) mes?: number,
+    @Query('cuenta') cuenta?: string,
+  ): Promise<LibroMayorResponseDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.librosContablesService.obtenerLibroMayor(
+      idPeriodo,
+      user.personaId,
+      mes,
+      cuenta,
+    );
+  }
+
+  /**
+   * Obtener el ajuste por diferencia de cambio de un mes
+   */
+  @Get('diferencia-cambio/:idPeriodo')
+  @ApiOperation({
+    summary: 'Obtener diferencia de cambio',
+    description:
+      'Revalúa los saldos en dólares por cobrar y por pagar al tipo de cambio de cierre del mes; si el ajuste ya fue registrado devuelve lo registrado',
+  })
+  @ApiParam({ name: 'idPeriodo', description: 'ID del período contable' })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a revaluar (1-12)',
+    required: true,
+    example: 3,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Diferencia de cambio calculada exitosamente',
+    type: ResponseDiferenciaCambioDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Mes inválido, período de otra empresa o sin tipo de cambio',
+  })
+  async obtenerDiferenciaCambio(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', ParseIntPipe) mes: number,
+  ): Promise<ResponseDiferenciaCambioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.diferenciaCambioService.obtenerAjuste(
+      idPeriodo,
+      user.personaId,
+      mes,
+    );
+  }
+
+  /**
+   * Registrar el ajuste por diferencia de cambio de un mes
+   */
+  @Post('diferencia-cambio/:idPeriodo')
+  @ApiOperation({
+    summary: 'Registrar diferencia de cambio',
+    description:
+      'Guarda la revaluación del mes y genera el asiento contra las cuentas 676 (pérdida) y 776 (ganancia) salvo que se indique lo contrario',
+  })
+  @ApiParam({ name: 'idPeriodo', description: 'ID del período contable' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Diferencia de cambio registrada exitosamente',
+    type: ResponseDiferenciaCambioDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Período cerrado, sin tipo de cambio o sin saldos en dólares',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El mes ya fue ajustado',
+  })
+  async registrarDiferenciaCambio(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Body() dto: RegistrarDiferenciaCambioDto,
+  ): Promise<ResponseDiferenciaCambioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.diferenciaCambioService.registrarAjuste(
+      idPeriodo,
+      user.personaId,
+      dto,
+    );
+  }
+}
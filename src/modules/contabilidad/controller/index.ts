@@ -0,0 +1 @@
+export { ContabilidadController } from './contabilidad.controller';
@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsString, Matches, MaxLength } from 'class-validator';
+import { NaturalezaCuenta } from '../enum/naturaleza-cuenta.enum';
+
+/**
+ * DTO para agregar una cuenta al plan contable de la empresa
+ */
+export class CreateCuentaContableDto {
+  /**
+   * Código PCGE de la cuenta
+   */
+  @ApiProperty({
+    description: 'Código PCGE de la cuenta (2 a 10 dígitos)',
+    example: '1041',
+  })
+  @Matches(/^\d{2,10}$/, {
+    message: 'El código debe tener entre 2 y 10 dígitos',
+  })
+  codigo: string;
+
+  /**
+   * Denominación de la cuenta
+   */
+  @ApiProperty({
+    description: 'Denominación de la cuenta',
+    example: 'Cuentas corrientes operativas',
+  })
+  @IsString()
+  @MaxLength(255, { message: 'El nombre no puede exceder 255 caracteres' })
+  nombre: string;
+
+  /**
+   * Naturaleza del saldo
+   */
+  @ApiProperty({
+    description: 'Naturaleza del saldo de la cuenta',
+    enum: NaturalezaCuenta,
+    example: NaturalezaCuenta.DEUDORA,
+  })
+  @IsEnum(NaturalezaCuenta)
+  naturaleza: NaturalezaCuenta;
+}
@@ -0,0 +1,19 @@
+export { CreateCuentaContableDto } from './create-cuenta-contable.dto';
+export { ResponseCuentaContableDto } from './response-cuenta-contable.dto';
+export { UpdateReglaContableDto } from './update-regla-contable.dto';
+export { ResponseReglaContableDto } from './response-regla-contable.dto';
+export {
+  ResponseAsientoDto,
+  ResponseAsientoDetalleDto,
+} from './response-asiento.dto';
+export { LibroDiarioResponseDto } from './libro-diario-response.dto';
+export {
+  LibroMayorResponseDto,
+  CuentaMayorDto,
+  MovimientoMayorDto,
+} from './libro-mayor-response.dto';
+export { RegistrarDiferenciaCambioDto } from './registrar-diferencia-cambio.dto';
+export {
+  ResponseDiferenciaCambioDto,
+  DetalleDiferenciaCambioDto,
+} from './response-diferencia-cambio.dto';
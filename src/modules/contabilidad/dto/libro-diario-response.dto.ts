@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseAsientoDto } from './response-asiento.dto';
+
+/**
+ * DTO de respuesta del Libro Diario de un período
+ */
+export class LibroDiarioResponseDto {
+  @ApiProperty({ description: 'Año del período contable', example: 2024 })
+  año: number;
+
+  @ApiProperty({
+    description: 'Mes consultado (vacío para todo el período)',
+    example: 3,
+    nullable: true,
+  })
+  mes: number | null;
+
+  @ApiProperty({ type: [ResponseAsientoDto] })
+  asientos: ResponseAsientoDto[];
+
+  @ApiProperty({ description: 'Suma del debe', example: 1500 })
+  totalDebe: number;
+
+  @ApiProperty({ description: 'Suma del haber', example: 1500 })
+  totalHaber: number;
+}
@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { NaturalezaCuenta } from '../enum/naturaleza-cuenta.enum';
+
+/**
+ * Movimiento de una cuenta en el Libro Mayor
+ */
+export class MovimientoMayorDto {
+  @ApiProperty({ description: 'Fecha del asiento', example: '2024-03-05' })
+  fecha: string;
+
+  @ApiProperty({ description: 'Número del asiento', example: 15 })
+  numeroAsiento: number;
+
+  @ApiProperty({ description: 'Glosa', example: 'Venta F001-123' })
+  glosa: string;
+
+  @ApiProperty({ description: 'Importe cargado', example: 118 })
+  debe: number;
+
+  @ApiProperty({ description: 'Importe abonado', example: 0 })
+  haber: number;
+
+  @ApiProperty({ description: 'Saldo acumulado', example: 118 })
+  saldo: number;
+}
+
+/**
+ * Cuenta del Libro Mayor con sus movimientos
+ */
+export class CuentaMayorDto {
+  @ApiProperty({ description: 'Código de la cuenta', example: '1212' })
+  cuenta: string;
+
+  @ApiProperty({ description: 'Denominación', example: 'Emitidas en cartera' })
+  denominacion: string;
+
+  @ApiProperty({ enum: NaturalezaCuenta })
+  naturaleza: NaturalezaCuenta;
+
+  @ApiProperty({ description: 'Saldo antes del mes consultado', example: 0 })
+  saldoInicial: number;
+
+  @ApiProperty({ type: [MovimientoMayorDto] })
+  movimientos: MovimientoMayorDto[];
+
+  @ApiProperty({ description: 'Suma del debe', example: 118 })
+  totalDebe: number;
+
+  @ApiProperty({ description: 'Suma del haber', example: 0 })
+  totalHaber: number;
+
+  @ApiProperty({ description: 'Saldo final', example: 118 })
+  saldoFinal: number;
+}
+
+/**
+ * DTO de respuesta del Libro Mayor de un período
+ */
+export class LibroMayorResponseDto {
+  @ApiProperty({ description: 'Año del período contable', example: 2024 })
+  año: number;
+
+  @ApiProperty({
+    description: 'Mes consultado (vacío para todo el período)',
+    example: 3,
+    nullable: true,
+  })
+  mes: number | null;
+
+  @ApiProperty({ type: [CuentaMayorDto] })
+  cuentas: CuentaMayorDto[];
+}
@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * DTO para registrar el ajuste por diferencia de cambio de un mes
+ */
+export class RegistrarDiferenciaCambioDto {
+  /**
+   * Mes a ajustar
+   */
+  @ApiProperty({ description: 'Mes a ajustar (1-12)', example: 3 })
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  mes: number;
+
+  /**
+   * Si se genera el asiento contable del ajuste
+   */
+  @ApiPropertyOptional({
+    description: 'Generar el asiento contable del ajuste',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  generarAsiento?: boolean;
+}
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrigenAsiento } from '../enum/origen-asiento.enum';
+
+/**
+ * DTO de respuesta para una línea de asiento
+ */
+export class ResponseAsientoDetalleDto {
+  @ApiProperty({ description: 'Código de la cuenta', example: '1212' })
+  cuenta: string;
+
+  @ApiProperty({
+    description: 'Denominación de la cuenta',
+    example: 'Emitidas en cartera',
+  })
+  denominacion: string;
+
+  @ApiProperty({ description: 'Importe cargado', example: 118 })
+  debe: number;
+
+  @ApiProperty({ description: 'Importe abonado', example: 0 })
+  haber: number;
+}
+
+/**
+ * DTO de respuesta para un asiento del Libro Diario
+ */
+export class ResponseAsientoDto {
+  @ApiProperty({ description: 'ID del asiento', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Número correlativo del asiento', example: 15 })
+  numero: number;
+
+  @ApiProperty({ description: 'Fecha del asiento', example: '2024-03-05' })
+  fecha: string;
+
+  @ApiProperty({
+    description: 'Glosa de la operación',
+    example: 'Venta F001-123',
+  })
+  glosa: string;
+
+  @ApiProperty({
+    description: 'Operación que originó el asiento',
+    enum: OrigenAsiento,
+  })
+  origen: OrigenAsiento;
+
+  @ApiProperty({
+    description: 'ID del comprobante de origen',
+    example: 10,
+    nullable: true,
+  })
+  idComprobante: number | null;
+
+  @ApiProperty({ description: 'Total debe', example: 118 })
+  totalDebe: number;
+
+  @ApiProperty({ description: 'Total haber', example: 118 })
+  totalHaber: number;
+
+  @ApiProperty({ type: [ResponseAsientoDetalleDto] })
+  detalles: ResponseAsientoDetalleDto[];
+}
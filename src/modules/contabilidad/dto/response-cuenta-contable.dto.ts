@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { NaturalezaCuenta } from '../enum/naturaleza-cuenta.enum';
+
+/**
+ * DTO de respuesta para una cuenta del plan contable
+ */
+export class ResponseCuentaContableDto {
+  @ApiProperty({ description: 'ID de la cuenta', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Código PCGE', example: '1212' })
+  codigo: string;
+
+  @ApiProperty({
+    description: 'Denominación de la cuenta',
+    example: 'Emitidas en cartera',
+  })
+  nombre: string;
+
+  @ApiProperty({ description: 'Nivel (dígitos del código)', example: 4 })
+  nivel: number;
+
+  @ApiProperty({
+    description: 'Naturaleza del saldo',
+    enum: NaturalezaCuenta,
+    example: NaturalezaCuenta.DEUDORA,
+  })
+  naturaleza: NaturalezaCuenta;
+
+  @ApiProperty({ description: 'Cuenta habilitada', example: true })
+  activo: boolean;
+}
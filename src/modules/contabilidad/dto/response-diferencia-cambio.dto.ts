@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TipoSaldoCambio } from '../enum/tipo-saldo-cambio.enum';
+
+/**
+ * Saldo de un comprobante revaluado al cierre
+ */
+export class DetalleDiferenciaCambioDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 10 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F001-123' })
+  comprobante: string;
+
+  @ApiProperty({ enum: TipoSaldoCambio })
+  tipo: TipoSaldoCambio;
+
+  @ApiProperty({ description: 'Cliente o proveedor' })
+  entidad: string;
+
+  @ApiProperty({ description: 'Saldo en dólares', example: 1000 })
+  saldoMe: number;
+
+  @ApiProperty({ description: 'Tipo de cambio anterior', example: 3.7 })
+  tipoCambioAnterior: number;
+
+  @ApiProperty({ description: 'Tipo de cambio de cierre', example: 3.75 })
+  tipoCambioCierre: number;
+
+  @ApiProperty({
+    description: 'Saldo en soles antes del ajuste',
+    example: 3700,
+  })
+  saldoMnAnterior: number;
+
+  @ApiProperty({ description: 'Saldo en soles al cierre', example: 3750 })
+  saldoMnCierre: number;
+
+  @ApiProperty({
+    description: 'Diferencia en soles (positiva si el saldo aumentó)',
+    example: 50,
+  })
+  diferencia: number;
+}
+
+/**
+ * DTO de respuesta del ajuste por diferencia de cambio de un mes
+ */
+export class ResponseDiferenciaCambioDto {
+  @ApiProperty({ description: 'Año del período contable', example: 2024 })
+  año: number;
+
+  @ApiProperty({ description: 'Mes ajustado', example: 3 })
+  mes: number;
+
+  @ApiProperty({ description: 'Fecha de cierre', example: '2024-03-31' })
+  fechaCierre: string;
+
+  @ApiProperty({
+    description: 'Tipo de cambio compra de cierre',
+    example: 3.75,
+  })
+  tipoCambioCompra: number;
+
+  @ApiProperty({ description: 'Tipo de cambio venta de cierre', example: 3.76 })
+  tipoCambioVenta: number;
+
+  @ApiProperty({ type: [DetalleDiferenciaCambioDto] })
+  cuentasPorCobrar: DetalleDiferenciaCambioDto[];
+
+  @ApiProperty({ type: [DetalleDiferenciaCambioDto] })
+  cuentasPorPagar: DetalleDiferenciaCambioDto[];
+
+  @ApiProperty({
+    description: 'Ganancia por diferencia de cambio',
+    example: 50,
+  })
+  ganancia: number;
+
+  @ApiProperty({ description: 'Pérdida por diferencia de cambio', example: 12 })
+  perdida: number;
+
+  @ApiProperty({ description: 'Ganancia menos pérdida', example: 38 })
+  neto: number;
+
+  @ApiProperty({
+    description: 'Indica si el ajuste ya fue registrado',
+    example: false,
+  })
+  registrado: boolean;
+
+  @ApiProperty({
+    description: 'ID del asiento generado',
+    nullable: true,
+    example: null,
+  })
+  idAsiento: number | null;
+}
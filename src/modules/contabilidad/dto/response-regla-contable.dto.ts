@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrigenAsiento } from '../enum/origen-asiento.enum';
+
+/**
+ * DTO de respuesta para una regla de contabilización
+ */
+export class ResponseReglaContableDto {
+  @ApiProperty({
+    description: 'Operación a la que aplica la regla',
+    enum: OrigenAsiento,
+    example: OrigenAsiento.VENTA,
+  })
+  origen: OrigenAsiento;
+
+  @ApiProperty({ description: 'Cuenta del debe', example: '1212' })
+  cuentaDebe: string;
+
+  @ApiProperty({ description: 'Cuenta del haber', example: '7011' })
+  cuentaHaber: string;
+
+  @ApiProperty({
+    description: 'Cuenta de IGV',
+    example: '40111',
+    nullable: true,
+  })
+  cuentaImpuesto: string | null;
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, Matches, ValidateIf } from 'class-validator';
+
+/**
+ * DTO para configurar las cuentas de una regla de contabilización
+ */
+export class UpdateReglaContableDto {
+  /**
+   * Código de la cuenta cargada
+   */
+  @ApiProperty({
+    description: 'Código de la cuenta del debe',
+    example: '1212',
+  })
+  @Matches(/^\d{2,10}$/, { message: 'Código de cuenta inválido' })
+  cuentaDebe: string;
+
+  /**
+   * Código de la cuenta abonada
+   */
+  @ApiProperty({
+    description: 'Código de la cuenta del haber',
+    example: '7011',
+  })
+  @Matches(/^\d{2,10}$/, { message: 'Código de cuenta inválido' })
+  cuentaHaber: string;
+
+  /**
+   * Código de la cuenta de impuesto (null para no registrar IGV)
+   */
+  @ApiProperty({
+    description: 'Código de la cuenta de IGV',
+    example: '40111',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @Matches(/^\d{2,10}$/, { message: 'Código de cuenta inválido' })
+  cuentaImpuesto?: string | null;
+}
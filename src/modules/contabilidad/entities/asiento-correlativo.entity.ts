@@ -0,0 +1,42 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+
+/**
+ * Entidad que guarda el último número de asiento por empresa y período
+ * Se bloquea al registrar cada asiento para que la numeración no se repita
+ */
+@Entity('asiento_correlativo')
+export class AsientoCorrelativo {
+  /**
+   * ID de la empresa, parte de la clave primaria compuesta
+   */
+  @PrimaryColumn({ name: 'id_persona' })
+  personaId: number;
+
+  /**
+   * ID del período contable, parte de la clave primaria compuesta
+   */
+  @PrimaryColumn({ name: 'id_periodo_contable' })
+  idPeriodoContable: number;
+
+  /**
+   * Relación con la persona/empresa
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Relación con el período contable
+   */
+  @ManyToOne(() => PeriodoContable, { nullable: false })
+  @JoinColumn({ name: 'id_periodo_contable' })
+  periodoContable: PeriodoContable;
+
+  /**
+   * Último número de asiento usado en el período
+   */
+  @Column({ default: 0 })
+  ultimoNumero: number;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Asiento } from './asiento.entity';
+import { CuentaContable } from './cuenta-contable.entity';
+
+/**
+ * Entidad que representa una línea (cargo o abono) de un asiento contable
+ */
+@Entity('asiento_detalle')
+export class AsientoDetalle {
+  /**
+   * Identificador único de la línea
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Asiento al que pertenece la línea
+   */
+  @ManyToOne(() => Asiento, (asiento) => asiento.detalles, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_asiento' })
+  asiento: Asiento;
+
+  /**
+   * Cuenta afectada
+   */
+  @ManyToOne(() => CuentaContable, { nullable: false, eager: true })
+  @JoinColumn({ name: 'id_cuenta' })
+  cuenta: CuentaContable;
+
+  /**
+   * Importe cargado en moneda nacional
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  debe: number;
+
+  /**
+   * Importe abonado en moneda nacional
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  haber: number;
+}
@@ -0,0 +1,100 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { OrigenAsiento } from '../enum/origen-asiento.enum';
+import { AsientoDetalle } from './asiento-detalle.entity';
+
+/**
+ * Entidad que representa un asiento contable de partida doble
+ * La suma del debe de sus detalles siempre es igual a la suma del haber
+ */
+@Entity('asiento')
+@Index(['persona', 'periodoContable', 'numero'], { unique: true })
+export class Asiento {
+  /**
+   * Identificador único del asiento
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Número correlativo del asiento dentro del período
+   */
+  @Column({ type: 'int', nullable: false })
+  numero: number;
+
+  /**
+   * Fecha contable del asiento
+   */
+  @Column({ type: 'timestamp', nullable: false })
+  fecha: Date;
+
+  /**
+   * Descripción de la operación registrada
+   */
+  @Column({ length: 255, nullable: false })
+  glosa: string;
+
+  /**
+   * Operación que originó el asiento
+   */
+  @Column({ type: 'enum', enum: OrigenAsiento, nullable: false })
+  origen: OrigenAsiento;
+
+  /**
+   * Total cargado en el asiento
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  totalDebe: number;
+
+  /**
+   * Total abonado en el asiento
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  totalHaber: number;
+
+  /**
+   * Comprobante que originó el asiento (vacío en asientos manuales)
+   */
+  @ManyToOne(() => Comprobante, { nullable: true })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante?: Comprobante | null;
+
+  /**
+   * Período contable al que pertenece el asiento
+   */
+  @ManyToOne(() => PeriodoContable, { nullable: false })
+  @JoinColumn({ name: 'id_periodo_contable' })
+  periodoContable: PeriodoContable;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Líneas del asiento
+   */
+  @OneToMany(() => AsientoDetalle, (detalle) => detalle.asiento, {
+    cascade: true,
+  })
+  detalles: AsientoDetalle[];
+
+  /**
+   * Fecha de registro
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
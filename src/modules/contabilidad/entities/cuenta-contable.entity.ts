@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { NaturalezaCuenta } from '../enum/naturaleza-cuenta.enum';
+
+/**
+ * Entidad que representa una cuenta del Plan Contable General Empresarial (PCGE)
+ * Cada empresa mantiene su propio plan de cuentas
+ */
+@Entity('cuenta_contable')
+@Index(['persona', 'codigo'], { unique: true }) // Un código por empresa
+export class CuentaContable {
+  /**
+   * Identificador único de la cuenta
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Código PCGE de la cuenta (ej. 12, 1212, 40111)
+   */
+  @Column({ length: 10, nullable: false })
+  codigo: string;
+
+  /**
+   * Denominación de la cuenta
+   */
+  @Column({ length: 255, nullable: false })
+  nombre: string;
+
+  /**
+   * Nivel de la cuenta (cantidad de dígitos del código)
+   */
+  @Column({ type: 'int', nullable: false })
+  nivel: number;
+
+  /**
+   * Naturaleza del saldo (deudora o acreedora)
+   */
+  @Column({ type: 'enum', enum: NaturalezaCuenta, nullable: false })
+  naturaleza: NaturalezaCuenta;
+
+  /**
+   * Indica si la cuenta puede usarse en asientos
+   */
+  @Column({ default: true })
+  activo: boolean;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
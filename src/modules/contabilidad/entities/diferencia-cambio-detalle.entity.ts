@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { TipoSaldoCambio } from '../enum/tipo-saldo-cambio.enum';
+import { DiferenciaCambio } from './diferencia-cambio.entity';
+
+/**
+ * Saldo de un comprobante ajustado por diferencia de cambio
+ */
+@Entity('diferencia_cambio_detalle')
+export class DiferenciaCambioDetalle {
+  /**
+   * Identificador único del detalle
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Ajuste al que pertenece
+   */
+  @ManyToOne(() => DiferenciaCambio, (ajuste) => ajuste.detalles, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_diferencia_cambio' })
+  diferenciaCambio: DiferenciaCambio;
+
+  /**
+   * Comprobante cuyo saldo se ajusta
+   */
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Cuenta por cobrar o por pagar
+   */
+  @Column({ type: 'enum', enum: TipoSaldoCambio, nullable: false })
+  tipo: TipoSaldoCambio;
+
+  /**
+   * Saldo pendiente en moneda extranjera
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  saldoMe: number;
+
+  /**
+   * Tipo de cambio con el que estaba valuado el saldo
+   */
+  @Column('decimal', { precision: 10, scale: 4, nullable: false })
+  tipoCambioAnterior: number;
+
+  /**
+   * Tipo de cambio de cierre
+   */
+  @Column('decimal', { precision: 10, scale: 4, nullable: false })
+  tipoCambioCierre: number;
+
+  /**
+   * Diferencia en moneda nacional (positiva si el saldo en soles aumentó)
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  diferencia: number;
+}
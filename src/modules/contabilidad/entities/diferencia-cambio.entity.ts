@@ -0,0 +1,103 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { Asiento } from './asiento.entity';
+import { DiferenciaCambioDetalle } from './diferencia-cambio-detalle.entity';
+
+/**
+ * Ajuste por diferencia de cambio registrado al cierre de un mes
+ * Los saldos ajustados sirven de base para el ajuste del mes siguiente
+ */
+@Entity('diferencia_cambio')
+@Index(['persona', 'periodoContable', 'mes'], { unique: true })
+export class DiferenciaCambio {
+  /**
+   * Identificador único del ajuste
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Mes ajustado (1-12)
+   */
+  @Column({ type: 'int', nullable: false })
+  mes: number;
+
+  /**
+   * Último día del mes ajustado
+   */
+  @Column({ type: 'date', nullable: false })
+  fechaCierre: string;
+
+  /**
+   * Tipo de cambio compra de cierre (cuentas por cobrar)
+   */
+  @Column('decimal', { precision: 10, scale: 4, nullable: false })
+  tipoCambioCompra: number;
+
+  /**
+   * Tipo de cambio venta de cierre (cuentas por pagar)
+   */
+  @Column('decimal', { precision: 10, scale: 4, nullable: false })
+  tipoCambioVenta: number;
+
+  /**
+   * Ganancia total por diferencia de cambio
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  ganancia: number;
+
+  /**
+   * Pérdida total por diferencia de cambio
+   */
+  @Column('decimal', { precision: 15, scale: 2, default: 0 })
+  perdida: number;
+
+  /**
+   * Asiento generado (vacío si se registró solo el reporte)
+   */
+  @ManyToOne(() => Asiento, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'id_asiento' })
+  asiento?: Asiento | null;
+
+  /**
+   * Período contable del ajuste
+   */
+  @ManyToOne(() => PeriodoContable, { nullable: false })
+  @JoinColumn({ name: 'id_periodo_contable' })
+  periodoContable: PeriodoContable;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Saldos ajustados
+   */
+  @OneToMany(
+    () => DiferenciaCambioDetalle,
+    (detalle) => detalle.diferenciaCambio,
+    {
+      cascade: true,
+    },
+  )
+  detalles: DiferenciaCambioDetalle[];
+
+  /**
+   * Fecha de registro
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
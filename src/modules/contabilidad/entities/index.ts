@@ -0,0 +1,7 @@
+export { CuentaContable } from './cuenta-contable.entity';
+export { ReglaContable } from './regla-contable.entity';
+export { Asiento } from './asiento.entity';
+export { AsientoDetalle } from './asiento-detalle.entity';
+export { AsientoCorrelativo } from './asiento-correlativo.entity';
+export { DiferenciaCambio } from './diferencia-cambio.entity';
+export { DiferenciaCambioDetalle } from './diferencia-cambio-detalle.entity';
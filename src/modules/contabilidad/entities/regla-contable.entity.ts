@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { CuentaContable } from './cuenta-contable.entity';
+import { OrigenAsiento } from '../enum/origen-asiento.enum';
+
+/**
+ * Entidad que representa una regla de contabilización automática
+ * Define las cuentas a usar cuando un comprobante genera su asiento
+ */
+@Entity('regla_contable')
+@Index(['persona', 'origen'], { unique: true }) // Una regla por operación y empresa
+export class ReglaContable {
+  /**
+   * Identificador único de la regla
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Operación a la que aplica la regla
+   */
+  @Column({ type: 'enum', enum: OrigenAsiento, nullable: false })
+  origen: OrigenAsiento;
+
+  /**
+   * Cuenta cargada (debe): 12 en ventas, 60 en compras, 69 en costo de ventas
+   */
+  @ManyToOne(() => CuentaContable, { nullable: false, eager: true })
+  @JoinColumn({ name: 'id_cuenta_debe' })
+  cuentaDebe: CuentaContable;
+
+  /**
+   * Cuenta abonada (haber): 70 en ventas, 42 en compras, 20 en costo de ventas
+   */
+  @ManyToOne(() => CuentaContable, { nullable: false, eager: true })
+  @JoinColumn({ name: 'id_cuenta_haber' })
+  cuentaHaber: CuentaContable;
+
+  /**
+   * Cuenta de impuesto (40): se abona en ventas y se carga en compras
+   */
+  @ManyToOne(() => CuentaContable, { nullable: true, eager: true })
+  @JoinColumn({ name: 'id_cuenta_impuesto' })
+  cuentaImpuesto?: CuentaContable | null;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  fechaActualizacion: Date;
+}
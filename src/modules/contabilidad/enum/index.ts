@@ -0,0 +1,3 @@
+export { NaturalezaCuenta } from './naturaleza-cuenta.enum';
+export { OrigenAsiento } from './origen-asiento.enum';
+export { TipoSaldoCambio } from './tipo-saldo-cambio.enum';
@@ -0,0 +1,7 @@
+/**
+ * Naturaleza del saldo de una cuenta contable
+ */
+export enum NaturalezaCuenta {
+  DEUDORA = 'DEUDORA',
+  ACREEDORA = 'ACREEDORA',
+}
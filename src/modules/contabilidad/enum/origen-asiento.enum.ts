@@ -0,0 +1,11 @@
+/**
+ * Operación que origina un asiento contable
+ * Las reglas de contabilización se configuran por cada origen automático
+ */
+export enum OrigenAsiento {
+  VENTA = 'VENTA',
+  COMPRA = 'COMPRA',
+  COSTO_VENTA = 'COSTO_VENTA',
+  DIFERENCIA_CAMBIO = 'DIFERENCIA_CAMBIO',
+  MANUAL = 'MANUAL',
+}
@@ -0,0 +1,8 @@
+/**
+ * Saldo en moneda extranjera que se ajusta por diferencia de cambio
+ * Las cuentas por cobrar se valúan al tipo de cambio compra y las por pagar al de venta
+ */
+export enum TipoSaldoCambio {
+  POR_COBRAR = 'POR_COBRAR',
+  POR_PAGAR = 'POR_PAGAR',
+}
@@ -0,0 +1,309 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { AsientoService } from './asiento.service';
+import { PlanContableService } from './plan-contable.service';
+import { Asiento, AsientoCorrelativo } from '../entities';
+import { OrigenAsiento } from '../enum';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+
+/**
+ * Tests unitarios para AsientoService
+ * Verifica la partida doble generada a partir de los comprobantes
+ */
+describe('AsientoService', () => {
+  let service: AsientoService;
+
+  const cuenta = (codigo: string) => ({ id: Number(codigo), codigo });
+
+  const reglas = {
+    [OrigenAsiento.VENTA]: {
+      cuentaDebe: cuenta('1212'),
+      cuentaHaber: cuenta('7011'),
+      cuentaImpuesto: cuenta('40111'),
+    },
+    [OrigenAsiento.COMPRA]: {
+      cuentaDebe: cuenta('6011'),
+      cuentaHaber: cuenta('4212'),
+      cuentaImpuesto: cuenta('40111'),
+    },
+    [OrigenAsiento.COSTO_VENTA]: {
+      cuentaDebe: cuenta('6911'),
+      cuentaHaber: cuenta('2011'),
+      cuentaImpuesto: null,
+    },
+  };
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    innerJoin: jest.fn().mockReturnThis(),
+    setLock: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn(),
+    getOneOrFail: jest.fn(),
+    getMany: jest.fn(),
+  };
+
+  const mockRepository = {
+    createQueryBuilder: jest.fn(),
+    create: jest.fn((datos: Partial<Asiento>) => datos),
+    findOne: jest.fn(),
+    save: jest.fn((asiento) => Promise.resolve(asiento)),
+  };
+
+  const mockInsert = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const saveCorrelativo = jest.fn((correlativo: AsientoCorrelativo) =>
+    Promise.resolve(correlativo),
+  );
+
+  const getRepository = jest.fn(() => mockRepository);
+
+  const mockManager = {
+    getRepository,
+    createQueryBuilder: jest.fn(() => mockInsert),
+    save: saveCorrelativo,
+    findOne: jest.fn(),
+  } as unknown as EntityManager;
+
+  const mockPlanContableService = {
+    obtenerRegla: jest.fn((_, origen: OrigenAsiento) =>
+      Promise.resolve(reglas[origen]),
+    ),
+  };
+
+  const comprobanteBase = {
+    idComprobante: 10,
+    serie: 'F001',
+    numero: '123',
+    fechaEmision: new Date(2024, 2, 5),
+    moneda: Moneda.PEN,
+    persona: { id: 1 },
+    periodoContable: { id: 3 },
+    tipoComprobante: { codigo: '01' },
+    totales: { totalGeneral: '118.00', totalIgv: '18.00' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AsientoService,
+        {
+          provide: getRepositoryToken(Asiento),
+          useValue: mockRepository,
+        },
+        {
+          provide: PlanContableService,
+          useValue: mockPlanContableService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AsientoService>(AsientoService);
+
+    jest.clearAllMocks();
+    mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    mockQueryBuilder.getRawOne.mockResolvedValue({ max: 4 });
+    mockQueryBuilder.getOneOrFail.mockResolvedValue({
+      personaId: 1,
+      idPeriodoContable: 3,
+      ultimoNumero: 0,
+    });
+  });
+
+  const lineas = (asiento: Asiento) =>
+    asiento.detalles.map((d) => [d.cuenta.codigo, d.debe, d.haber]);
+
+  it('should register the sale and its cost of sales', async () => {
+    const asientos = await service.registrarDesdeComprobante(
+      {
+        ...comprobanteBase,
+        tipoOperacion: { codigo: '01' },
+      } as unknown as Comprobante,
+      60,
+      mockManager,
+    );
+
+    expect(asientos).toHaveLength(2);
+    expect(asientos[0].numero).toBe(5);
+    expect(asientos[1].numero).toBe(6);
+    expect(lineas(asientos[0])).toEqual([
+      ['1212', 118, 0],
+      ['7011', 0, 100],
+      ['40111', 0, 18],
+    ]);
+    expect(asientos[1].origen).toBe(OrigenAsiento.COSTO_VENTA);
+    expect(lineas(asientos[1])).toEqual([
+      ['6911', 60, 0],
+      ['2011', 0, 60],
+    ]);
+  });
+
+  it('should reverse a credit note on a purchase in national currency', async () => {
+    const asientos = await service.registrarDesdeComprobante(
+      {
+        ...comprobanteBase,
+        moneda: Moneda.USD,
+        tipoCambio: '3.50',
+        tipoComprobante: { codigo: '07' },
+        tipoOperacion: { codigo: '07' },
+        comprobanteAfecto: { tipoOperacion: { codigo: '02' } },
+        totales: { totalGeneral: '11.80', totalIgv: '1.80' },
+      } as unknown as Comprobante,
+      0,
+      mockManager,
+    );
+
+    expect(asientos).toHaveLength(1);
+    expect(asientos[0].origen).toBe(OrigenAsiento.COMPRA);
+    expect(lineas(asientos[0])).toEqual([
+      ['6011', 0, 35],
+      ['40111', 0, 6.3],
+      ['4212', 41.3, 0],
+    ]);
+  });
+
+  it('should reverse the cost of the returned units on a credit note on a sale', async () => {
+    mockQueryBuilder.getMany.mockResolvedValue([
+      { idInventario: 5, cantidad: '4.0000', costoUnitario: '15.00' },
+      { idInventario: 5, cantidad: '6.0000', costoUnitario: '20.00' },
+      { idInventario: 6, cantidad: '1.0000', costoUnitario: '99.00' },
+    ]);
+
+    const asientos = await service.registrarDesdeComprobante(
+      {
+        ...comprobanteBase,
+        tipoComprobante: { codigo: '07' },
+        tipoOperacion: { codigo: '07' },
+        comprobanteAfecto: {
+          idComprobante: 9,
+          tipoOperacion: { codigo: '01' },
+        },
+        detalles: [
+          { inventario: { id: 5 }, cantidad: '1', factorConversion: 2 },
+        ],
+        totales: { totalGeneral: '47.20', totalIgv: '7.20' },
+      } as unknown as Comprobante,
+      0,
+      mockManager,
+    );
+
+    expect(getRepository).toHaveBeenCalledWith(MovimientoDetalle);
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+      'movimiento.idComprobante = :idVenta',
+      { idVenta: 9 },
+    );
+    expect(asientos).toHaveLength(2);
+    expect(lineas(asientos[0])).toEqual([
+      ['1212', 0, 47.2],
+      ['7011', 40, 0],
+      ['40111', 7.2, 0],
+    ]);
+    expect(asientos[1].origen).toBe(OrigenAsiento.COSTO_VENTA);
+    expect(lineas(asientos[1])).toEqual([
+      ['6911', 0, 36],
+      ['2011', 36, 0],
+    ]);
+  });
+
+  it('should number entries from the locked counter of the period', async () => {
+    mockQueryBuilder.getOneOrFail.mockResolvedValue({
+      personaId: 1,
+      idPeriodoContable: 3,
+      ultimoNumero: 7,
+    });
+
+    const asientos = await service.registrarDesdeComprobante(
+      {
+        ...comprobanteBase,
+        tipoOperacion: { codigo: '02' },
+      } as unknown as Comprobante,
+      0,
+      mockManager,
+    );
+
+    expect(mockInsert.values).toHaveBeenCalledWith({
+      personaId: 1,
+      idPeriodoContable: 3,
+      ultimoNumero: 0,
+    });
+    expect(mockQueryBuilder.setLock).toHaveBeenCalledWith('pessimistic_write');
+    expect(mockQueryBuilder.getRawOne).not.toHaveBeenCalled();
+    expect(saveCorrelativo).toHaveBeenCalledWith(
+      expect.objectContaining({ ultimoNumero: 8 }),
+    );
+    expect(asientos[0].numero).toBe(8);
+  });
+
+  it('should post the cost difference of a recalculated sale against its cost entry', async () => {
+    mockRepository.findOne.mockResolvedValue({
+      id: 40,
+      fecha: new Date(2024, 2, 5),
+      glosa: 'Costo de venta 01 F001-123',
+      persona: { id: 1 },
+      periodoContable: { id: 3 },
+    });
+
+    const ajuste = await service.ajustarCostoVenta(10, -15.5, mockManager);
+
+    expect(ajuste!.origen).toBe(OrigenAsiento.COSTO_VENTA);
+    expect(ajuste!.glosa).toBe(
+      'Ajuste por recálculo de kardex: Costo de venta 01 F001-123',
+    );
+    expect(ajuste!.fecha).toEqual(new Date(2024, 2, 5));
+    // Menor costo: se abona el costo de ventas y se devuelve a existencias
+    expect(lineas(ajuste!)).toEqual([
+      ['6911', 0, 15.5],
+      ['2011', 15.5, 0],
+    ]);
+  });
+
+  it('should not adjust a sale without a cost of sales entry', async () => {
+    mockRepository.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.ajustarCostoVenta(10, 20, mockManager),
+    ).resolves.toBeNull();
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should skip operations without accounting rules', async () => {
+    const asientos = await service.registrarDesdeComprobante(
+      {
+        ...comprobanteBase,
+        tipoOperacion: { codigo: '11' },
+      } as unknown as Comprobante,
+      0,
+      mockManager,
+    );
+
+    expect(asientos).toEqual([]);
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject unbalanced entries', async () => {
+    await expect(
+      service.registrarAsiento({
+        personaId: 1,
+        idPeriodoContable: 3,
+        fecha: new Date(2024, 2, 5),
+        glosa: 'Asiento manual',
+        origen: OrigenAsiento.MANUAL,
+        lineas: [
+          { cuenta: cuenta('10') as never, debe: 100, haber: 0 },
+          { cuenta: cuenta('12') as never, debe: 0, haber: 90 },
+        ],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
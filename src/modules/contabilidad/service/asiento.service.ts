@@ -0,0 +1,450 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  Asiento,
+  AsientoCorrelativo,
+  AsientoDetalle,
+  CuentaContable,
+} from '../entities';
+import { OrigenAsiento } from '../enum';
+import { PlanContableService } from './plan-contable.service';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { ComprobanteTotales } from '../../comprobantes/entities/comprobante-totales';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { EstadoMovimiento } from '../../movimientos/enum/estado-movimiento.enum';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+
+/**
+ * Línea de un asiento por registrar
+ */
+export interface LineaAsiento {
+  cuenta: CuentaContable;
+  debe: number;
+  haber: number;
+}
+
+/**
+ * Datos necesarios para registrar un asiento
+ */
+export interface DatosAsiento {
+  personaId: number;
+  idPeriodoContable: number;
+  fecha: Date;
+  glosa: string;
+  origen: OrigenAsiento;
+  idComprobante?: number | null;
+  lineas: LineaAsiento[];
+}
+
+/**
+ * Servicio para generar asientos contables de partida doble
+ */
+@Injectable()
+export class AsientoService {
+  private readonly logger = new Logger(AsientoService.name);
+
+  constructor(
+    @InjectRepository(Asiento)
+    private readonly asientoRepository: Repository<Asiento>,
+    private readonly planContableService: PlanContableService,
+  ) {}
+
+  /**
+   * Genera los asientos de un comprobante recién registrado según las reglas de la empresa
+   * Ventas: 12 / 40 / 70 y costo de ventas 69 / 20. Compras: 60 / 40 / 42.
+   * Las notas de crédito extornan el asiento de su comprobante afecto y, sobre ventas,
+   * el costo de venta de lo devuelto al costo con que salió en la venta original.
+   * @param comprobante - Comprobante con persona, período, tipos, totales, detalles y comprobante afecto
+   * @param costoVenta - Costo de la mercadería vendida según el kardex (moneda nacional)
+   * @param manager - EntityManager de la transacción del registro
+   * @returns Promise<Asiento[]> Asientos generados (vacío si la operación no se contabiliza)
+   */
+  async registrarDesdeComprobante(
+    comprobante: Comprobante,
+    costoVenta: number,
+    manager: EntityManager,
+  ): Promise<Asiento[]> {
+    const operacion = this.resolverOperacion(comprobante);
+    if (!operacion || !comprobante.periodoContable) {
+      return [];
+    }
+
+    const totales =
+      comprobante.totales ??
+      (await manager.findOne(ComprobanteTotales, {
+        where: { comprobante: { idComprobante: comprobante.idComprobante } },
+      }));
+    if (!totales) {
+      return [];
+    }
+
+    const personaId = comprobante.persona.id;
+    const factor =
+      comprobante.moneda === Moneda.USD
+        ? Number(comprobante.tipoCambio) || 1
+        : 1;
+    const total = this.redondear(Number(totales.totalGeneral) * factor);
+    const igv = this.redondear(Number(totales.totalIgv ?? 0) * factor);
+    const base = this.redondear(total - igv);
+    const documento =
+      `${comprobante.tipoComprobante?.codigo ?? ''} ${comprobante.serie}-${comprobante.numero}`.trim();
+
+    const regla = await this.planContableService.obtenerRegla(
+      personaId,
+      operacion.origen,
+      manager,
+    );
+
+    // Sin cuenta de impuesto el IGV se integra a la base
+    const montoBase = regla.cuentaImpuesto ? base : total;
+    const lineas: LineaAsiento[] =
+      operacion.origen === OrigenAsiento.VENTA
+        ? [
+            { cuenta: regla.cuentaDebe, debe: total, haber: 0 },
+            { cuenta: regla.cuentaHaber, debe: 0, haber: montoBase },
+            ...(regla.cuentaImpuesto
+              ? [{ cuenta: regla.cuentaImpuesto, debe: 0, haber: igv }]
+              : []),
+          ]
+        : [
+            { cuenta: regla.cuentaDebe, debe: montoBase, haber: 0 },
+            ...(regla.cuentaImpuesto
+              ? [{ cuenta: regla.cuentaImpuesto, debe: igv, haber: 0 }]
+              : []),
+            { cuenta: regla.cuentaHaber, debe: 0, haber: total },
+          ];
+
+    const asientos: Asiento[] = [];
+    asientos.push(
+      await this.registrarAsiento(
+        {
+          personaId,
+          idPeriodoContable: comprobante.periodoContable.id,
+          fecha: comprobante.fechaEmision,
+          glosa: `${operacion.descripcion} ${documento}`,
+          origen: operacion.origen,
+          idComprobante: comprobante.idComprobante,
+          lineas: operacion.extorno ? this.extornar(lineas) : lineas,
+        },
+        manager,
+      ),
+    );
+
+    // Costo de ventas en ventas y su extorno en notas de crédito sobre ventas
+    const extornaCosto = operacion.esNota && operacion.extorno;
+    let costo = 0;
+    if (
+      operacion.origen === OrigenAsiento.VENTA &&
+      (!operacion.esNota || extornaCosto)
+    ) {
+      costo = this.redondear(
+        extornaCosto
+          ? await this.costoDevuelto(comprobante, manager)
+          : costoVenta,
+      );
+    }
+    if (costo > 0) {
+      const reglaCosto = await this.planContableService.obtenerRegla(
+        personaId,
+        OrigenAsiento.COSTO_VENTA,
+        manager,
+      );
+      const lineasCosto: LineaAsiento[] = [
+        { cuenta: reglaCosto.cuentaDebe, debe: costo, haber: 0 },
+        { cuenta: reglaCosto.cuentaHaber, debe: 0, haber: costo },
+      ];
+      asientos.push(
+        await this.registrarAsiento(
+          {
+            personaId,
+            idPeriodoContable: comprobante.periodoContable.id,
+            fecha: comprobante.fechaEmision,
+            glosa: `${extornaCosto ? 'Extorno de costo de venta' : 'Costo de venta'} ${documento}`,
+            origen: OrigenAsiento.COSTO_VENTA,
+            idComprobante: comprobante.idComprobante,
+            lineas: extornaCosto ? this.extornar(lineasCosto) : lineasCosto,
+          },
+          manager,
+        ),
+      );
+    }
+
+    return asientos;
+  }
+
+  /**
+   * Ajusta el costo de venta de un comprobante cuyo costo cambió al recalcular el kardex
+   * Se registra en la fecha y el período del asiento de costo original; si la venta no
+   * tiene asiento de costo no hay nada que ajustar
+   * @param idComprobante - Comprobante de venta
+   * @param diferencia - Costo nuevo menos costo anterior (moneda nacional)
+   * @param manager - EntityManager de la transacción del recálculo
+   * @returns Promise<Asiento | null> Asiento de ajuste, o null si no corresponde
+   */
+  async ajustarCostoVenta(
+    idComprobante: number,
+    diferencia: number,
+    manager: EntityManager,
+  ): Promise<Asiento | null> {
+    const monto = this.redondear(diferencia);
+    if (monto === 0) {
+      return null;
+    }
+
+    const original = await manager.getRepository(Asiento).findOne({
+      where: {
+        comprobante: { idComprobante },
+        origen: OrigenAsiento.COSTO_VENTA,
+      },
+      relations: ['persona', 'periodoContable'],
+      order: { id: 'ASC' },
+    });
+    if (!original) {
+      return null;
+    }
+
+    const regla = await this.planContableService.obtenerRegla(
+      original.persona.id,
+      OrigenAsiento.COSTO_VENTA,
+      manager,
+    );
+    const lineas: LineaAsiento[] = [
+      { cuenta: regla.cuentaDebe, debe: Math.abs(monto), haber: 0 },
+      { cuenta: regla.cuentaHaber, debe: 0, haber: Math.abs(monto) },
+    ];
+    return this.registrarAsiento(
+      {
+        personaId: original.persona.id,
+        idPeriodoContable: original.periodoContable.id,
+        fecha: original.fecha,
+        glosa: `Ajuste por recálculo de kardex: ${original.glosa}`,
+        origen: OrigenAsiento.COSTO_VENTA,
+        idComprobante,
+        lineas: monto > 0 ? lineas : this.extornar(lineas),
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Registra un asiento validando que esté cuadrado
+   * @param datos - Cabecera y líneas del asiento
+   * @param manager - EntityManager de la transacción (opcional)
+   * @returns Promise<Asiento> Asiento guardado con su número correlativo
+   */
+  async registrarAsiento(
+    datos: DatosAsiento,
+    manager?: EntityManager,
+  ): Promise<Asiento> {
+    const lineas = datos.lineas
+      .map((linea) => ({
+        ...linea,
+        debe: this.redondear(linea.debe),
+        haber: this.redondear(linea.haber),
+      }))
+      .filter((linea) => linea.debe !== 0 || linea.haber !== 0);
+
+    const totalDebe = this.redondear(lineas.reduce((s, l) => s + l.debe, 0));
+    const totalHaber = this.redondear(lineas.reduce((s, l) => s + l.haber, 0));
+
+    if (lineas.length === 0 || totalDebe !== totalHaber) {
+      throw new BadRequestException(
+        `El asiento "${datos.glosa}" no cuadra (debe ${totalDebe.toFixed(2)}, haber ${totalHaber.toFixed(2)})`,
+      );
+    }
+
+    // El bloqueo del correlativo necesita una transacción
+    if (!manager) {
+      return this.asientoRepository.manager.transaction((transaccion) =>
+        this.registrarAsiento(datos, transaccion),
+      );
+    }
+
+    const repository = manager.getRepository(Asiento);
+    const asiento = repository.create({
+      numero: await this.siguienteNumero(
+        datos.personaId,
+        datos.idPeriodoContable,
+        manager,
+      ),
+      fecha: datos.fecha,
+      glosa: datos.glosa.slice(0, 255),
+      origen: datos.origen,
+      totalDebe,
+      totalHaber,
+      comprobante: datos.idComprobante
+        ? ({ idComprobante: datos.idComprobante } as Comprobante)
+        : null,
+      periodoContable: { id: datos.idPeriodoContable },
+      persona: { id: datos.personaId },
+      detalles: lineas.map((linea) =>
+        Object.assign(new AsientoDetalle(), {
+          cuenta: linea.cuenta,
+          debe: linea.debe,
+          haber: linea.haber,
+        }),
+      ),
+    });
+
+    const guardado = await repository.save(asiento);
+    this.logger.log(
+      `Asiento ${guardado.numero} (${datos.origen}) registrado por ${totalDebe.toFixed(2)}`,
+    );
+    return guardado;
+  }
+
+  /**
+   * Reserva el siguiente número de asiento del período bloqueando su correlativo
+   */
+  private async siguienteNumero(
+    personaId: number,
+    idPeriodoContable: number,
+    manager: EntityManager,
+  ): Promise<number> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(AsientoCorrelativo)
+      .values({ personaId, idPeriodoContable, ultimoNumero: 0 })
+      .orIgnore()
+      .execute();
+
+    const correlativo = await manager
+      .getRepository(AsientoCorrelativo)
+      .createQueryBuilder('correlativo')
+      .setLock('pessimistic_write')
+      .where('correlativo.personaId = :personaId', { personaId })
+      .andWhere('correlativo.idPeriodoContable = :idPeriodoContable', {
+        idPeriodoContable,
+      })
+      .getOneOrFail();
+
+    // Los períodos con asientos previos al correlativo continúan su numeración
+    if (correlativo.ultimoNumero === 0) {
+      const ultimo = await manager
+        .getRepository(Asiento)
+        .createQueryBuilder('asiento')
+        .select('MAX(asiento.numero)', 'max')
+        .where('asiento.id_persona = :personaId', { personaId })
+        .andWhere('asiento.id_periodo_contable = :idPeriodoContable', {
+          idPeriodoContable,
+        })
+        .getRawOne<{ max: number | null }>();
+      correlativo.ultimoNumero = Number(ultimo?.max ?? 0);
+    }
+
+    correlativo.ultimoNumero += 1;
+    await manager.save(correlativo);
+    return correlativo.ultimoNumero;
+  }
+
+  /**
+   * Costo de lo devuelto en una nota de crédito sobre venta (moneda nacional),
+   * valorizado al costo promedio con que cada producto salió en la venta original
+   */
+  private async costoDevuelto(
+    comprobante: Comprobante,
+    manager: EntityManager,
+  ): Promise<number> {
+    const idVenta = comprobante.comprobanteAfecto?.idComprobante;
+    if (!idVenta || !comprobante.detalles?.length) {
+      return 0;
+    }
+
+    const salidas = await manager
+      .getRepository(MovimientoDetalle)
+      .createQueryBuilder('detalle')
+      .innerJoin('detalle.movimiento', 'movimiento')
+      .where('movimiento.idComprobante = :idVenta', { idVenta })
+      .andWhere('movimiento.tipo = :tipo', { tipo: TipoMovimiento.SALIDA })
+      .andWhere('movimiento.estado = :estado', {
+        estado: EstadoMovimiento.PROCESADO,
+      })
+      .getMany();
+
+    const vendido = new Map<number, { cantidad: number; costo: number }>();
+    for (const salida of salidas) {
+      const acumulado = vendido.get(salida.idInventario) ?? {
+        cantidad: 0,
+        costo: 0,
+      };
+      acumulado.cantidad += Number(salida.cantidad);
+      acumulado.costo +=
+        Number(salida.cantidad) * Number(salida.costoUnitario ?? 0);
+      vendido.set(salida.idInventario, acumulado);
+    }
+
+    return comprobante.detalles.reduce((total, detalle) => {
+      const venta = vendido.get(detalle.inventario?.id);
+      if (!venta || venta.cantidad <= 0) {
+        return total;
+      }
+      return (
+        total + cantidadEnUnidadBase(detalle) * (venta.costo / venta.cantidad)
+      );
+    }, 0);
+  }
+
+  /**
+   * Determina la regla a aplicar según el tipo de operación del comprobante
+   */
+  private resolverOperacion(comprobante: Comprobante): {
+    origen: OrigenAsiento;
+    descripcion: string;
+    extorno: boolean;
+    esNota: boolean;
+  } | null {
+    const codigo = comprobante.tipoOperacion?.codigo;
+
+    if (codigo === '01') {
+      return {
+        origen: OrigenAsiento.VENTA,
+        descripcion: 'Venta',
+        extorno: false,
+        esNota: false,
+      };
+    }
+    if (codigo === '02') {
+      return {
+        origen: OrigenAsiento.COMPRA,
+        descripcion: 'Compra',
+        extorno: false,
+        esNota: false,
+      };
+    }
+    if (codigo === '07' || codigo === '08') {
+      const afectoCodigo = comprobante.comprobanteAfecto?.tipoOperacion?.codigo;
+      if (afectoCodigo !== '01' && afectoCodigo !== '02') {
+        return null;
+      }
+      const esCredito = codigo === '07';
+      return {
+        origen:
+          afectoCodigo === '01' ? OrigenAsiento.VENTA : OrigenAsiento.COMPRA,
+        descripcion: esCredito ? 'Nota de crédito' : 'Nota de débito',
+        extorno: esCredito,
+        esNota: true,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Invierte debe y haber de las líneas
+   */
+  private extornar(lineas: LineaAsiento[]): LineaAsiento[] {
+    return lineas.map((linea) => ({
+      cuenta: linea.cuenta,
+      debe: linea.haber,
+      haber: linea.debe,
+    }));
+  }
+
+  private redondear(valor: number): number {
+    return Math.round((Number(valor) || 0) * 100) / 100;
+  }
+}
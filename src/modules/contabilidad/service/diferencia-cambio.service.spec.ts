@@ -0,0 +1,150 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { DiferenciaCambioService } from './diferencia-cambio.service';
+import { AsientoService } from './asiento.service';
+import { PlanContableService } from './plan-contable.service';
+import {
+  CuentaContable,
+  DiferenciaCambio,
+  DiferenciaCambioDetalle,
+} from '../entities';
+import { TipoSaldoCambio } from '../enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { TipoCambio } from '../../tipo-cambio/entities/tipo-cambio.entity';
+import { CuentasPorCobrarService } from '../../cuentas-por-cobrar/service';
+import { CuentasPorPagarService } from '../../cuentas-por-pagar/service';
+
+/**
+ * Tests unitarios para DiferenciaCambioService
+ * Verifica la revaluación de saldos en dólares y el cuadre del asiento de ajuste
+ */
+describe('DiferenciaCambioService', () => {
+  let service: DiferenciaCambioService;
+  let tipoCambio: TipoCambio | null;
+  let anteriores: { idComprobante: number; tipoCambio: string }[];
+
+  const consulta = <T>(resultado: () => T) => ({
+    innerJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getOne: jest.fn(() => Promise.resolve(resultado())),
+    getRawMany: jest.fn(() => Promise.resolve(resultado())),
+  });
+
+  beforeEach(() => {
+    tipoCambio = { compra: 3.8, venta: 3.82 } as TipoCambio;
+    anteriores = [{ idComprobante: 2, tipoCambio: '3.7000' }];
+
+    const cuentasPorCobrarService = {
+      listarSaldosAl: jest.fn(() =>
+        Promise.resolve([
+          // Sin ajuste previo: parte del tipo de cambio del comprobante
+          {
+            idComprobante: 1,
+            comprobante: 'F001-1',
+            cliente: 'CLIENTE S.A.C.',
+            saldo: 1000,
+            tipoCambio: 3.75,
+          },
+          // Ajustado el mes anterior a 3.70
+          {
+            idComprobante: 2,
+            comprobante: 'F001-2',
+            cliente: 'CLIENTE S.A.C.',
+            saldo: 500,
+            tipoCambio: 3.9,
+          },
+        ]),
+      ),
+    } as unknown as CuentasPorCobrarService;
+    const cuentasPorPagarService = {
+      listarSaldosAl: jest.fn(() =>
+        Promise.resolve([
+          {
+            idComprobante: 3,
+            comprobante: 'E001-9',
+            proveedor: 'PROVEEDOR S.A.',
+            saldo: 2000,
+            tipoCambio: 3.72,
+          },
+        ]),
+      ),
+    } as unknown as CuentasPorPagarService;
+    const periodoContableService = {
+      obtenerPorId: jest.fn(() =>
+        Promise.resolve({ id: 1, año: 2024, persona: { id: 1 } }),
+      ),
+    } as unknown as PeriodoContableService;
+
+    service = new DiferenciaCambioService(
+      {
+        findOne: jest.fn(() => Promise.resolve(null)),
+      } as unknown as Repository<DiferenciaCambio>,
+      {
+        createQueryBuilder: jest.fn(() => consulta(() => anteriores)),
+      } as unknown as Repository<DiferenciaCambioDetalle>,
+      {
+        createQueryBuilder: jest.fn(() => consulta(() => tipoCambio)),
+      } as unknown as Repository<TipoCambio>,
+      periodoContableService,
+      cuentasPorCobrarService,
+      cuentasPorPagarService,
+      {} as PlanContableService,
+      {} as AsientoService,
+      {} as DataSource,
+    );
+  });
+
+  describe('obtenerAjuste', () => {
+    it('should revalue receivables at compra and payables at venta', async () => {
+      const ajuste = await service.obtenerAjuste(1, 1, 2);
+
+      expect(ajuste.fechaCierre).toBe('2024-02-29');
+      expect(ajuste.registrado).toBe(false);
+      expect(ajuste.cuentasPorCobrar.map((d) => d.diferencia)).toEqual([
+        50, 50,
+      ]);
+      expect(ajuste.cuentasPorCobrar[1].tipoCambioAnterior).toBe(3.7);
+      expect(ajuste.cuentasPorPagar[0]).toMatchObject({
+        tipo: TipoSaldoCambio.POR_PAGAR,
+        saldoMnAnterior: 7440,
+        saldoMnCierre: 7640,
+        diferencia: 200,
+      });
+      expect(ajuste.ganancia).toBe(100);
+      expect(ajuste.perdida).toBe(200);
+      expect(ajuste.neto).toBe(-100);
+    });
+
+    it('should reject a month without exchange rate', async () => {
+      tipoCambio = null;
+
+      await expect(service.obtenerAjuste(1, 1, 2)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('construirLineas', () => {
+    it('should produce a balanced entry', async () => {
+      const ajuste = await service.obtenerAjuste(1, 1, 2);
+      const cuenta = (codigo: string) => ({ codigo }) as CuentaContable;
+
+      const lineas = service.construirLineas(ajuste, {
+        porCobrar: cuenta('1212'),
+        porPagar: cuenta('4212'),
+        perdida: cuenta('676'),
+        ganancia: cuenta('776'),
+      });
+
+      const debe = lineas.reduce((s, l) => s + l.debe, 0);
+      const haber = lineas.reduce((s, l) => s + l.haber, 0);
+      expect(debe).toBe(haber);
+      expect(lineas[0]).toMatchObject({ debe: 100, haber: 0 });
+      expect(lineas[1]).toMatchObject({ debe: 0, haber: 200 });
+    });
+  });
+});
@@ -0,0 +1,480 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { DiferenciaCambio, DiferenciaCambioDetalle } from '../entities';
+import { OrigenAsiento, TipoSaldoCambio } from '../enum';
+import {
+  DetalleDiferenciaCambioDto,
+  RegistrarDiferenciaCambioDto,
+  ResponseDiferenciaCambioDto,
+} from '../dto';
+import { AsientoService, LineaAsiento } from './asiento.service';
+import { PlanContableService } from './plan-contable.service';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { TipoCambio } from '../../tipo-cambio/entities/tipo-cambio.entity';
+import { CuentasPorCobrarService } from '../../cuentas-por-cobrar/service';
+import { CuentasPorPagarService } from '../../cuentas-por-pagar/service';
+
+/**
+ * Servicio de ajuste por diferencia de cambio de fin de mes
+ * Revalúa los saldos en dólares por cobrar y por pagar al tipo de cambio de cierre
+ */
+@Injectable()
+export class DiferenciaCambioService {
+  private readonly logger = new Logger(DiferenciaCambioService.name);
+
+  constructor(
+    @InjectRepository(DiferenciaCambio)
+    private readonly diferenciaCambioRepository: Repository<DiferenciaCambio>,
+    @InjectRepository(DiferenciaCambioDetalle)
+    private readonly detalleRepository: Repository<DiferenciaCambioDetalle>,
+    @InjectRepository(TipoCambio)
+    private readonly tipoCambioRepository: Repository<TipoCambio>,
+    private readonly periodoContableService: PeriodoContableService,
+    private readonly cuentasPorCobrarService: CuentasPorCobrarService,
+    private readonly cuentasPorPagarService: CuentasPorPagarService,
+    private readonly planContableService: PlanContableService,
+    private readonly asientoService: AsientoService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Reporte de diferencia de cambio de un mes
+   * Devuelve el ajuste registrado o, si aún no existe, una vista previa
+   * @param idPeriodo - ID del período contable
+   * @param personaId - ID de la empresa
+   * @param mes - Mes a revaluar (1-12)
+   */
+  async obtenerAjuste(
+    idPeriodo: number,
+    personaId: number,
+    mes: number,
+  ): Promise<ResponseDiferenciaCambioDto> {
+    const periodo = await this.validarPeriodo(idPeriodo, personaId, mes);
+
+    const registrado = await this.diferenciaCambioRepository.findOne({
+      where: {
+        persona: { id: personaId },
+        periodoContable: { id: idPeriodo },
+        mes,
+      },
+      relations: [
+        'asiento',
+        'detalles',
+        'detalles.comprobante',
+        'detalles.comprobante.entidad',
+      ],
+    });
+    if (registrado) {
+      return this.mapearRegistrado(registrado, periodo.año);
+    }
+
+    return this.calcularAjuste(personaId, periodo.año, mes);
+  }
+
+  /**
+   * Registra el ajuste de un mes y opcionalmente su asiento contable
+   * Cada mes se ajusta una sola vez; el siguiente parte de los tipos de cambio de este
+   * @param idPeriodo - ID del período contable
+   * @param personaId - ID de la empresa
+   * @param dto - Mes y si se genera el asiento
+   */
+  async registrarAjuste(
+    idPeriodo: number,
+    personaId: number,
+    dto: RegistrarDiferenciaCambioDto,
+  ): Promise<ResponseDiferenciaCambioDto> {
+    const periodo = await this.validarPeriodo(idPeriodo, personaId, dto.mes);
+    if (periodo.cerrado) {
+      throw new BadRequestException('El período contable está cerrado');
+    }
+
+    const id = await this.dataSource.transaction(async (manager) => {
+      const existente = await manager.findOne(DiferenciaCambio, {
+        where: {
+          persona: { id: personaId },
+          periodoContable: { id: idPeriodo },
+          mes: dto.mes,
+        },
+      });
+      if (existente) {
+        throw new ConflictException(
+          `La diferencia de cambio de ${dto.mes}/${periodo.año} ya fue registrada`,
+        );
+      }
+
+      const ajuste = await this.calcularAjuste(personaId, periodo.año, dto.mes);
+      const detalles = [...ajuste.cuentasPorCobrar, ...ajuste.cuentasPorPagar];
+      if (detalles.length === 0) {
+        throw new BadRequestException(
+          'No hay saldos en dólares pendientes al cierre del mes',
+        );
+      }
+
+      const diferenciaCambio = manager.create(DiferenciaCambio, {
+        mes: dto.mes,
+        fechaCierre: ajuste.fechaCierre,
+        tipoCambioCompra: ajuste.tipoCambioCompra,
+        tipoCambioVenta: ajuste.tipoCambioVenta,
+        ganancia: ajuste.ganancia,
+        perdida: ajuste.perdida,
+        periodoContable: { id: idPeriodo },
+        persona: { id: personaId },
+        detalles: detalles.map((detalle) =>
+          manager.create(DiferenciaCambioDetalle, {
+            comprobante: { idComprobante: detalle.idComprobante },
+            tipo: detalle.tipo,
+            saldoMe: detalle.saldoMe,
+            tipoCambioAnterior: detalle.tipoCambioAnterior,
+            tipoCambioCierre: detalle.tipoCambioCierre,
+            diferencia: detalle.diferencia,
+          }),
+        ),
+      });
+
+      if (
+        dto.generarAsiento !== false &&
+        (ajuste.ganancia > 0 || ajuste.perdida > 0)
+      ) {
+        const [reglaVenta, reglaCompra, reglaDiferencia] = await Promise.all(
+          [
+            OrigenAsiento.VENTA,
+            OrigenAsiento.COMPRA,
+            OrigenAsiento.DIFERENCIA_CAMBIO,
+          ].map((origen) =>
+            this.planContableService.obtenerRegla(personaId, origen, manager),
+          ),
+        );
+        const mesTexto = String(dto.mes).padStart(2, '0');
+        diferenciaCambio.asiento = await this.asientoService.registrarAsiento(
+          {
+            personaId,
+            idPeriodoContable: idPeriodo,
+            fecha: new Date(`${ajuste.fechaCierre}T00:00:00`),
+            glosa: `Diferencia de cambio ${mesTexto}/${periodo.año}`,
+            origen: OrigenAsiento.DIFERENCIA_CAMBIO,
+            lineas: this.construirLineas(ajuste, {
+              porCobrar: reglaVenta.cuentaDebe,
+              porPagar: reglaCompra.cuentaHaber,
+              perdida: reglaDiferencia.cuentaDebe,
+              ganancia: reglaDiferencia.cuentaHaber,
+            }),
+          },
+          manager,
+        );
+      }
+
+      const guardado = await manager.save(diferenciaCambio);
+      this.logger.log(
+        `Diferencia de cambio ${dto.mes}/${periodo.año} registrada: ganancia ${ajuste.ganancia.toFixed(2)}, pérdida ${ajuste.perdida.toFixed(2)}`,
+      );
+      return guardado.id;
+    });
+
+    const guardado = await this.diferenciaCambioRepository.findOneOrFail({
+      where: { id },
+      relations: [
+        'asiento',
+        'detalles',
+        'detalles.comprobante',
+        'detalles.comprobante.entidad',
+      ],
+    });
+    return this.mapearRegistrado(guardado, periodo.año);
+  }
+
+  /**
+   * Revalúa un saldo en moneda extranjera
+   * @param saldoMe - Saldo en dólares
+   * @param tipoCambioAnterior - Tipo de cambio con el que estaba valuado
+   * @param tipoCambioCierre - Tipo de cambio de cierre
+   */
+  revaluar(
+    saldoMe: number,
+    tipoCambioAnterior: number,
+    tipoCambioCierre: number,
+  ): { saldoMnAnterior: number; saldoMnCierre: number; diferencia: number } {
+    const saldoMnAnterior = this.redondear(saldoMe * tipoCambioAnterior);
+    const saldoMnCierre = this.redondear(saldoMe * tipoCambioCierre);
+    return {
+      saldoMnAnterior,
+      saldoMnCierre,
+      diferencia: this.redondear(saldoMnCierre - saldoMnAnterior),
+    };
+  }
+
+  /**
+   * Líneas del asiento de ajuste
+   * Las cuentas por cobrar y por pagar se ajustan por su neto; la ganancia va a la 776 y la pérdida a la 676
+   */
+  construirLineas(
+    ajuste: Pick<
+      ResponseDiferenciaCambioDto,
+      'cuentasPorCobrar' | 'cuentasPorPagar' | 'ganancia' | 'perdida'
+    >,
+    cuentas: Record<
+      'porCobrar' | 'porPagar' | 'ganancia' | 'perdida',
+      LineaAsiento['cuenta']
+    >,
+  ): LineaAsiento[] {
+    const netoCobrar = this.redondear(
+      ajuste.cuentasPorCobrar.reduce((s, d) => s + d.diferencia, 0),
+    );
+    const netoPagar = this.redondear(
+      ajuste.cuentasPorPagar.reduce((s, d) => s + d.diferencia, 0),
+    );
+
+    return [
+      {
+        cuenta: cuentas.porCobrar,
+        debe: Math.max(netoCobrar, 0),
+        haber: Math.max(-netoCobrar, 0),
+      },
+      {
+        cuenta: cuentas.porPagar,
+        debe: Math.max(-netoPagar, 0),
+        haber: Math.max(netoPagar, 0),
+      },
+      { cuenta: cuentas.perdida, debe: ajuste.perdida, haber: 0 },
+      { cuenta: cuentas.ganancia, debe: 0, haber: ajuste.ganancia },
+    ];
+  }
+
+  /**
+   * Calcula el ajuste del mes con los saldos y tipos de cambio actuales
+   */
+  private async calcularAjuste(
+    personaId: number,
+    año: number,
+    mes: number,
+  ): Promise<ResponseDiferenciaCambioDto> {
+    const mesTexto = String(mes).padStart(2, '0');
+    const ultimoDia = new Date(año, mes, 0).getDate();
+    const fechaCierre = `${año}-${mesTexto}-${String(ultimoDia).padStart(2, '0')}`;
+
+    // Último tipo de cambio publicado en el mes (fines de semana y feriados no tienen)
+    const tipoCambio = await this.tipoCambioRepository
+      .createQueryBuilder('tipoCambio')
+      .where('tipoCambio.fecha >= :inicio', { inicio: `${año}-${mesTexto}-01` })
+      .andWhere('tipoCambio.fecha <= :fechaCierre', { fechaCierre })
+      .orderBy('tipoCambio.fecha', 'DESC')
+      .getOne();
+    if (!tipoCambio) {
+      throw new BadRequestException(
+        `No hay tipo de cambio registrado para ${mesTexto}/${año}`,
+      );
+    }
+    const tipoCambioCompra = Number(tipoCambio.compra);
+    const tipoCambioVenta = Number(tipoCambio.venta);
+
+    const [porCobrar, porPagar] = await Promise.all([
+      this.cuentasPorCobrarService.listarSaldosAl(
+        personaId,
+        fechaCierre,
+        Moneda.USD,
+      ),
+      this.cuentasPorPagarService.listarSaldosAl(
+        personaId,
+        fechaCierre,
+        Moneda.USD,
+      ),
+    ]);
+    const anteriores = await this.obtenerTiposCambioAnteriores(
+      personaId,
+      fechaCierre,
+      [...porCobrar, ...porPagar].map((saldo) => saldo.idComprobante),
+    );
+
+    const construirDetalle = (
+      saldo: {
+        idComprobante: number;
+        comprobante: string;
+        saldo: number;
+        tipoCambio: number | null;
+      },
+      entidad: string,
+      tipo: TipoSaldoCambio,
+      tipoCambioCierre: number,
+    ): DetalleDiferenciaCambioDto => {
+      const tipoCambioAnterior =
+        anteriores.get(saldo.idComprobante) ??
+        saldo.tipoCambio ??
+        tipoCambioCierre;
+      return {
+        idComprobante: saldo.idComprobante,
+        comprobante: saldo.comprobante,
+        tipo,
+        entidad,
+        saldoMe: saldo.saldo,
+        tipoCambioAnterior,
+        tipoCambioCierre,
+        ...this.revaluar(saldo.saldo, tipoCambioAnterior, tipoCambioCierre),
+      };
+    };
+
+    const cuentasPorCobrar = porCobrar.map((saldo) =>
+      construirDetalle(
+        saldo,
+        saldo.cliente,
+        TipoSaldoCambio.POR_COBRAR,
+        tipoCambioCompra,
+      ),
+    );
+    const cuentasPorPagar = porPagar.map((saldo) =>
+      construirDetalle(
+        saldo,
+        saldo.proveedor,
+        TipoSaldoCambio.POR_PAGAR,
+        tipoCambioVenta,
+      ),
+    );
+
+    return this.resumir({
+      año,
+      mes,
+      fechaCierre,
+      tipoCambioCompra,
+      tipoCambioVenta,
+      cuentasPorCobrar,
+      cuentasPorPagar,
+      registrado: false,
+      idAsiento: null,
+    });
+  }
+
+  /**
+   * Tipo de cambio con el que quedó valuado cada comprobante en el último ajuste anterior
+   */
+  private async obtenerTiposCambioAnteriores(
+    personaId: number,
+    fechaCierre: string,
+    ids: number[],
+  ): Promise<Map<number, number>> {
+    const anteriores = new Map<number, number>();
+    if (ids.length === 0) {
+      return anteriores;
+    }
+
+    const detalles = await this.detalleRepository
+      .createQueryBuilder('detalle')
+      .innerJoin('detalle.diferenciaCambio', 'ajuste')
+      .select('detalle.id_comprobante', 'idComprobante')
+      .addSelect('detalle.tipoCambioCierre', 'tipoCambio')
+      .where('ajuste.id_persona = :personaId', { personaId })
+      .andWhere('ajuste.fechaCierre < :fechaCierre', { fechaCierre })
+      .andWhere('detalle.id_comprobante IN (:...ids)', { ids })
+      .orderBy('ajuste.fechaCierre', 'DESC')
+      .getRawMany<{ idComprobante: number; tipoCambio: string }>();
+
+    for (const detalle of detalles) {
+      const idComprobante = Number(detalle.idComprobante);
+      if (!anteriores.has(idComprobante)) {
+        anteriores.set(idComprobante, Number(detalle.tipoCambio));
+      }
+    }
+    return anteriores;
+  }
+
+  /**
+   * Valida que el período sea de la empresa y que el mes sea válido
+   */
+  private async validarPeriodo(
+    idPeriodo: number,
+    personaId: number,
+    mes: number,
+  ): Promise<PeriodoContable> {
+    const periodo = await this.periodoContableService.obtenerPorId(idPeriodo);
+    if (periodo.persona?.id !== personaId) {
+      throw new BadRequestException(
+        'El período contable no pertenece a su empresa',
+      );
+    }
+    if (!Number.isInteger(mes) || mes < 1 || mes > 12) {
+      throw new BadRequestException('El mes debe estar entre 1 y 12');
+    }
+    return periodo;
+  }
+
+  /**
+   * Totaliza ganancia y pérdida
+   * En cuentas por cobrar un aumento del saldo en soles es ganancia; en cuentas por pagar es pérdida
+   */
+  private resumir(
+    ajuste: Omit<ResponseDiferenciaCambioDto, 'ganancia' | 'perdida' | 'neto'>,
+  ): ResponseDiferenciaCambioDto {
+    let ganancia = 0;
+    let perdida = 0;
+    for (const detalle of ajuste.cuentasPorCobrar) {
+      if (detalle.diferencia > 0) ganancia += detalle.diferencia;
+      else perdida -= detalle.diferencia;
+    }
+    for (const detalle of ajuste.cuentasPorPagar) {
+      if (detalle.diferencia > 0) perdida += detalle.diferencia;
+      else ganancia -= detalle.diferencia;
+    }
+
+    return {
+      ...ajuste,
+      ganancia: this.redondear(ganancia),
+      perdida: this.redondear(perdida),
+      neto: this.redondear(ganancia - perdida),
+    };
+  }
+
+  private mapearRegistrado(
+    ajuste: DiferenciaCambio,
+    año: number,
+  ): ResponseDiferenciaCambioDto {
+    const detalles = (ajuste.detalles || [])
+      .sort((a, b) => a.id - b.id)
+      .map((detalle): DetalleDiferenciaCambioDto => {
+        const saldoMe = Number(detalle.saldoMe);
+        const tipoCambioAnterior = Number(detalle.tipoCambioAnterior);
+        const tipoCambioCierre = Number(detalle.tipoCambioCierre);
+        return {
+          idComprobante: detalle.comprobante.idComprobante,
+          comprobante: `${detalle.comprobante.serie}-${detalle.comprobante.numero}`,
+          tipo: detalle.tipo,
+          entidad: detalle.comprobante.entidad?.nombreCompletoMostrado ?? '',
+          saldoMe,
+          tipoCambioAnterior,
+          tipoCambioCierre,
+          saldoMnAnterior: this.redondear(saldoMe * tipoCambioAnterior),
+          saldoMnCierre: this.redondear(saldoMe * tipoCambioCierre),
+          diferencia: Number(detalle.diferencia),
+        };
+      });
+
+    const ganancia = Number(ajuste.ganancia);
+    const perdida = Number(ajuste.perdida);
+    return {
+      año,
+      mes: ajuste.mes,
+      fechaCierre: String(ajuste.fechaCierre).slice(0, 10),
+      tipoCambioCompra: Number(ajuste.tipoCambioCompra),
+      tipoCambioVenta: Number(ajuste.tipoCambioVenta),
+      cuentasPorCobrar: detalles.filter(
+        (detalle) => detalle.tipo === TipoSaldoCambio.POR_COBRAR,
+      ),
+      cuentasPorPagar: detalles.filter(
+        (detalle) => detalle.tipo === TipoSaldoCambio.POR_PAGAR,
+      ),
+      ganancia,
+      perdida,
+      neto: this.redondear(ganancia - perdida),
+      registrado: true,
+      idAsiento: ajuste.asiento?.id ?? null,
+    };
+  }
+
+  private redondear(valor: number): number {
+    return Math.round((Number(valor) || 0) * 100) / 100;
+  }
+}
@@ -0,0 +1,5 @@
+export { PlanContableService } from './plan-contable.service';
+export { AsientoService } from './asiento.service';
+export type { LineaAsiento, DatosAsiento } from './asiento.service';
+export { LibrosContablesService } from './libros-contables.service';
+export { DiferenciaCambioService } from './diferencia-cambio.service';
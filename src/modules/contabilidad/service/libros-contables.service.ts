@@ -0,0 +1,230 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Asiento, AsientoDetalle } from '../entities';
+import { NaturalezaCuenta } from '../enum';
+import {
+  CuentaMayorDto,
+  LibroDiarioResponseDto,
+  LibroMayorResponseDto,
+  ResponseAsientoDto,
+} from '../dto';
+import { PeriodoContableService } from '../../periodos/service';
+
+/**
+ * Servicio para consultar el Libro Diario y el Libro Mayor
+ */
+@Injectable()
+export class LibrosContablesService {
+  constructor(
+    @InjectRepository(Asiento)
+    private readonly asientoRepository: Repository<Asiento>,
+    @InjectRepository(AsientoDetalle)
+    private readonly asientoDetalleRepository: Repository<AsientoDetalle>,
+    private readonly periodoContableService: PeriodoContableService,
+  ) {}
+
+  /**
+   * Obtiene el Libro Diario de un período contable
+   * @param idPeriodo - ID del período contable
+   * @param personaId - ID de la empresa
+   * @param mes - Mes a consultar (opcional, todo el período si se omite)
+   */
+  async obtenerLibroDiario(
+    idPeriodo: number,
+    personaId: number,
+    mes?: number,
+  ): Promise<LibroDiarioResponseDto> {
+    const { año, inicio, fin } = await this.resolverRango(
+      idPeriodo,
+      personaId,
+      mes,
+    );
+
+    const query = this.asientoRepository
+      .createQueryBuilder('asiento')
+      .leftJoinAndSelect('asiento.detalles', 'detalle')
+      .leftJoinAndSelect('detalle.cuenta', 'cuenta')
+      .leftJoinAndSelect('asiento.comprobante', 'comprobante')
+      .where('asiento.id_persona = :personaId', { personaId })
+      .andWhere('asiento.id_periodo_contable = :idPeriodo', { idPeriodo });
+
+    if (inicio && fin) {
+      query
+        .andWhere('asiento.fecha >= :inicio', { inicio })
+        .andWhere('asiento.fecha < :fin', { fin });
+    }
+
+    const asientos = await query
+      .orderBy('asiento.fecha', 'ASC')
+      .addOrderBy('asiento.numero', 'ASC')
+      .addOrderBy('detalle.debe', 'DESC')
+      .addOrderBy('detalle.id', 'ASC')
+      .getMany();
+
+    const asientosDto = asientos.map((asiento) => this.mapearAsiento(asiento));
+
+    return {
+      año,
+      mes: mes ?? null,
+      asientos: asientosDto,
+      totalDebe: this.redondear(
+        asientosDto.reduce((s, a) => s + a.totalDebe, 0),
+      ),
+      totalHaber: this.redondear(
+        asientosDto.reduce((s, a) => s + a.totalHaber, 0),
+      ),
+    };
+  }
+
+  /**
+   * Obtiene el Libro Mayor de un período contable
+   * Los saldos se expresan según la naturaleza de cada cuenta
+   * @param idPeriodo - ID del período contable
+   * @param personaId - ID de la empresa
+   * @param mes - Mes a consultar (opcional); los meses previos forman el saldo inicial
+   * @param cuenta - Código o prefijo de cuenta para filtrar (opcional)
+   */
+  async obtenerLibroMayor(
+    idPeriodo: number,
+    personaId: number,
+    mes?: number,
+    cuenta?: string,
+  ): Promise<LibroMayorResponseDto> {
+    const { año, inicio, fin } = await this.resolverRango(
+      idPeriodo,
+      personaId,
+      mes,
+    );
+
+    const query = this.asientoDetalleRepository
+      .createQueryBuilder('detalle')
+      .innerJoinAndSelect('detalle.asiento', 'asiento')
+      .innerJoinAndSelect('detalle.cuenta', 'cuenta')
+      .where('asiento.id_persona = :personaId', { personaId })
+      .andWhere('asiento.id_periodo_contable = :idPeriodo', { idPeriodo });
+
+    if (fin) {
+      query.andWhere('asiento.fecha < :fin', { fin });
+    }
+    if (cuenta) {
+      query.andWhere('cuenta.codigo LIKE :cuenta', { cuenta: `${cuenta}%` });
+    }
+
+    const detalles = await query
+      .orderBy('cuenta.codigo', 'ASC')
+      .addOrderBy('asiento.fecha', 'ASC')
+      .addOrderBy('asiento.numero', 'ASC')
+      .getMany();
+
+    const cuentas = new Map<string, CuentaMayorDto>();
+
+    for (const detalle of detalles) {
+      let cuentaMayor = cuentas.get(detalle.cuenta.codigo);
+      if (!cuentaMayor) {
+        cuentaMayor = {
+          cuenta: detalle.cuenta.codigo,
+          denominacion: detalle.cuenta.nombre,
+          naturaleza: detalle.cuenta.naturaleza,
+          saldoInicial: 0,
+          movimientos: [],
+          totalDebe: 0,
+          totalHaber: 0,
+          saldoFinal: 0,
+        };
+        cuentas.set(detalle.cuenta.codigo, cuentaMayor);
+      }
+
+      const debe = Number(detalle.debe);
+      const haber = Number(detalle.haber);
+      const variacion =
+        cuentaMayor.naturaleza === NaturalezaCuenta.DEUDORA
+          ? debe - haber
+          : haber - debe;
+
+      // Asientos de meses anteriores al consultado
+      if (inicio && new Date(detalle.asiento.fecha) < inicio) {
+        cuentaMayor.saldoInicial = this.redondear(
+          cuentaMayor.saldoInicial + variacion,
+        );
+        cuentaMayor.saldoFinal = cuentaMayor.saldoInicial;
+        continue;
+      }
+
+      cuentaMayor.saldoFinal = this.redondear(
+        cuentaMayor.saldoFinal + variacion,
+      );
+      cuentaMayor.totalDebe = this.redondear(cuentaMayor.totalDebe + debe);
+      cuentaMayor.totalHaber = this.redondear(cuentaMayor.totalHaber + haber);
+      cuentaMayor.movimientos.push({
+        fecha: this.formatearFecha(detalle.asiento.fecha),
+        numeroAsiento: detalle.asiento.numero,
+        glosa: detalle.asiento.glosa,
+        debe,
+        haber,
+        saldo: cuentaMayor.saldoFinal,
+      });
+    }
+
+    return { año, mes: mes ?? null, cuentas: Array.from(cuentas.values()) };
+  }
+
+  /**
+   * Valida el período y calcula el rango del mes solicitado
+   */
+  private async resolverRango(
+    idPeriodo: number,
+    personaId: number,
+    mes?: number,
+  ): Promise<{ año: number; inicio?: Date; fin?: Date }> {
+    const periodo = await this.periodoContableService.obtenerPorId(idPeriodo);
+    if (periodo.persona?.id !== personaId) {
+      throw new BadRequestException(
+        'El período contable no pertenece a su empresa',
+      );
+    }
+
+    if (mes === undefined) {
+      return { año: periodo.año };
+    }
+    if (!Number.isInteger(mes) || mes < 1 || mes > 12) {
+      throw new BadRequestException('El mes debe estar entre 1 y 12');
+    }
+
+    return {
+      año: periodo.año,
+      inicio: new Date(periodo.año, mes - 1, 1),
+      fin: new Date(periodo.año, mes, 1),
+    };
+  }
+
+  private mapearAsiento(asiento: Asiento): ResponseAsientoDto {
+    return {
+      id: asiento.id,
+      numero: asiento.numero,
+      fecha: this.formatearFecha(asiento.fecha),
+      glosa: asiento.glosa,
+      origen: asiento.origen,
+      idComprobante: asiento.comprobante?.idComprobante ?? null,
+      totalDebe: Number(asiento.totalDebe),
+      totalHaber: Number(asiento.totalHaber),
+      detalles: (asiento.detalles || []).map((detalle) => ({
+        cuenta: detalle.cuenta.codigo,
+        denominacion: detalle.cuenta.nombre,
+        debe: Number(detalle.debe),
+        haber: Number(detalle.haber),
+      })),
+    };
+  }
+
+  private formatearFecha(fecha: Date): string {
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 100) / 100;
+  }
+}
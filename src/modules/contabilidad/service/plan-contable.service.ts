@@ -0,0 +1,385 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { CuentaContable, ReglaContable } from '../entities';
+import { NaturalezaCuenta, OrigenAsiento } from '../enum';
+import {
+  CreateCuentaContableDto,
+  ResponseCuentaContableDto,
+  ResponseReglaContableDto,
+  UpdateReglaContableDto,
+} from '../dto';
+
+/**
+ * Servicio para gestionar el plan de cuentas (PCGE) y las reglas de contabilización
+ */
+@Injectable()
+export class PlanContableService {
+  /** Cuentas base del PCGE que se crean para cada empresa */
+  private static readonly CUENTAS_PCGE: {
+    codigo: string;
+    nombre: string;
+    naturaleza: NaturalezaCuenta;
+  }[] = [
+    {
+      codigo: '10',
+      nombre: 'Efectivo y equivalentes de efectivo',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '1041',
+      nombre: 'Cuentas corrientes operativas',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '12',
+      nombre: 'Cuentas por cobrar comerciales - terceros',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '1212',
+      nombre: 'Emitidas en cartera',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '20',
+      nombre: 'Mercaderías',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '2011',
+      nombre: 'Mercaderías manufacturadas',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '40',
+      nombre:
+        'Tributos, contraprestaciones y aportes al sistema de pensiones y de salud por pagar',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '40111',
+      nombre: 'IGV - Cuenta propia',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '42',
+      nombre: 'Cuentas por pagar comerciales - terceros',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '4212',
+      nombre: 'Emitidas',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '60',
+      nombre: 'Compras',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '6011',
+      nombre: 'Mercaderías manufacturadas',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '67',
+      nombre: 'Gastos financieros',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '676',
+      nombre: 'Diferencia de cambio',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '69',
+      nombre: 'Costo de ventas',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '6911',
+      nombre: 'Mercaderías manufacturadas',
+      naturaleza: NaturalezaCuenta.DEUDORA,
+    },
+    {
+      codigo: '70',
+      nombre: 'Ventas',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '7011',
+      nombre: 'Mercaderías manufacturadas',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '77',
+      nombre: 'Ingresos financieros',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+    {
+      codigo: '776',
+      nombre: 'Diferencia en cambio',
+      naturaleza: NaturalezaCuenta.ACREEDORA,
+    },
+  ];
+
+  /** Reglas de contabilización por defecto (debe / haber / impuesto) */
+  private static readonly REGLAS_POR_DEFECTO: Record<
+    Exclude<OrigenAsiento, OrigenAsiento.MANUAL>,
+    { debe: string; haber: string; impuesto: string | null }
+  > = {
+    [OrigenAsiento.VENTA]: { debe: '1212', haber: '7011', impuesto: '40111' },
+    [OrigenAsiento.COMPRA]: { debe: '6011', haber: '4212', impuesto: '40111' },
+    [OrigenAsiento.COSTO_VENTA]: {
+      debe: '6911',
+      haber: '2011',
+      impuesto: null,
+    },
+    // Debe: pérdida por diferencia de cambio; haber: ganancia
+    [OrigenAsiento.DIFERENCIA_CAMBIO]: {
+      debe: '676',
+      haber: '776',
+      impuesto: null,
+    },
+  };
+
+  constructor(
+    @InjectRepository(CuentaContable)
+    private readonly cuentaRepository: Repository<CuentaContable>,
+    @InjectRepository(ReglaContable)
+    private readonly reglaRepository: Repository<ReglaContable>,
+  ) {}
+
+  /**
+   * Obtiene el plan de cuentas de la empresa, creándolo si aún no existe
+   * @param personaId - ID de la empresa
+   * @returns Promise<ResponseCuentaContableDto[]> Cuentas ordenadas por código
+   */
+  async obtenerPlanCuentas(
+    personaId: number,
+  ): Promise<ResponseCuentaContableDto[]> {
+    await this.inicializarPlanContable(personaId);
+
+    const cuentas = await this.cuentaRepository.find({
+      where: { persona: { id: personaId } },
+      order: { codigo: 'ASC' },
+    });
+
+    return cuentas.map((cuenta) => this.mapearCuenta(cuenta));
+  }
+
+  /**
+   * Agrega una cuenta al plan contable de la empresa
+   * @param personaId - ID de la empresa
+   * @param dto - Datos de la cuenta
+   */
+  async crearCuenta(
+    personaId: number,
+    dto: CreateCuentaContableDto,
+  ): Promise<ResponseCuentaContableDto> {
+    const existente = await this.cuentaRepository.findOne({
+      where: { codigo: dto.codigo, persona: { id: personaId } },
+    });
+
+    if (existente) {
+      throw new ConflictException(
+        `Ya existe la cuenta ${dto.codigo} en el plan contable`,
+      );
+    }
+
+    const cuenta = this.cuentaRepository.create({
+      ...dto,
+      nivel: dto.codigo.length,
+      persona: { id: personaId },
+    });
+
+    return this.mapearCuenta(await this.cuentaRepository.save(cuenta));
+  }
+
+  /**
+   * Obtiene las reglas de contabilización de la empresa
+   * @param personaId - ID de la empresa
+   */
+  async obtenerReglas(personaId: number): Promise<ResponseReglaContableDto[]> {
+    await this.inicializarPlanContable(personaId);
+
+    const reglas = await this.reglaRepository.find({
+      where: { persona: { id: personaId } },
+      order: { origen: 'ASC' },
+    });
+
+    return reglas.map((regla) => this.mapearRegla(regla));
+  }
+
+  /**
+   * Actualiza las cuentas de una regla de contabilización
+   * @param personaId - ID de la empresa
+   * @param origen - Operación de la regla
+   * @param dto - Códigos de cuenta a usar
+   */
+  async actualizarRegla(
+    personaId: number,
+    origen: OrigenAsiento,
+    dto: UpdateReglaContableDto,
+  ): Promise<ResponseReglaContableDto> {
+    const regla = await this.obtenerRegla(personaId, origen);
+
+    regla.cuentaDebe = await this.obtenerCuentaPorCodigo(
+      personaId,
+      dto.cuentaDebe,
+    );
+    regla.cuentaHaber = await this.obtenerCuentaPorCodigo(
+      personaId,
+      dto.cuentaHaber,
+    );
+    if (dto.cuentaImpuesto !== undefined) {
+      regla.cuentaImpuesto = dto.cuentaImpuesto
+        ? await this.obtenerCuentaPorCodigo(personaId, dto.cuentaImpuesto)
+        : null;
+    }
+
+    return this.mapearRegla(await this.reglaRepository.save(regla));
+  }
+
+  /**
+   * Obtiene la regla de contabilización de una operación
+   * @param personaId - ID de la empresa
+   * @param origen - Operación de la regla
+   * @param manager - EntityManager de la transacción (opcional)
+   */
+  async obtenerRegla(
+    personaId: number,
+    origen: OrigenAsiento,
+    manager?: EntityManager,
+  ): Promise<ReglaContable> {
+    await this.inicializarPlanContable(personaId, manager);
+
+    const repository = manager
+      ? manager.getRepository(ReglaContable)
+      : this.reglaRepository;
+    const regla = await repository.findOne({
+      where: { persona: { id: personaId }, origen },
+    });
+
+    if (!regla) {
+      throw new NotFoundException(
+        `No existe regla de contabilización para ${origen}`,
+      );
+    }
+
+    return regla;
+  }
+
+  /**
+   * Busca una cuenta del plan contable por su código
+   * @param personaId - ID de la empresa
+   * @param codigo - Código PCGE
+   * @param manager - EntityManager de la transacción (opcional)
+   */
+  async obtenerCuentaPorCodigo(
+    personaId: number,
+    codigo: string,
+    manager?: EntityManager,
+  ): Promise<CuentaContable> {
+    const repository = manager
+      ? manager.getRepository(CuentaContable)
+      : this.cuentaRepository;
+    const cuenta = await repository.findOne({
+      where: { codigo, persona: { id: personaId }, activo: true },
+    });
+
+    if (!cuenta) {
+      throw new NotFoundException(
+        `La cuenta ${codigo} no existe en el plan contable`,
+      );
+    }
+
+    return cuenta;
+  }
+
+  /**
+   * Crea las cuentas base del PCGE y las reglas por defecto si la empresa no las tiene
+   * @param personaId - ID de la empresa
+   * @param manager - EntityManager de la transacción (opcional)
+   */
+  async inicializarPlanContable(
+    personaId: number,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const cuentaRepo = manager
+      ? manager.getRepository(CuentaContable)
+      : this.cuentaRepository;
+    const reglaRepo = manager
+      ? manager.getRepository(ReglaContable)
+      : this.reglaRepository;
+
+    const cuentasExistentes = await cuentaRepo.find({
+      where: { persona: { id: personaId } },
+    });
+    const codigosExistentes = new Set(cuentasExistentes.map((c) => c.codigo));
+
+    const nuevasCuentas = PlanContableService.CUENTAS_PCGE.filter(
+      (cuenta) => !codigosExistentes.has(cuenta.codigo),
+    ).map((cuenta) =>
+      cuentaRepo.create({
+        ...cuenta,
+        nivel: cuenta.codigo.length,
+        persona: { id: personaId },
+      }),
+    );
+
+    const cuentas = [
+      ...cuentasExistentes,
+      ...(nuevasCuentas.length > 0 ? await cuentaRepo.save(nuevasCuentas) : []),
+    ];
+    const porCodigo = new Map(cuentas.map((c) => [c.codigo, c]));
+
+    const reglasExistentes = await reglaRepo.find({
+      where: { persona: { id: personaId } },
+    });
+    const origenesExistentes = new Set(reglasExistentes.map((r) => r.origen));
+
+    const nuevasReglas = Object.entries(PlanContableService.REGLAS_POR_DEFECTO)
+      .filter(([origen]) => !origenesExistentes.has(origen as OrigenAsiento))
+      .map(([origen, cuentasRegla]) =>
+        reglaRepo.create({
+          origen: origen as OrigenAsiento,
+          cuentaDebe: porCodigo.get(cuentasRegla.debe),
+          cuentaHaber: porCodigo.get(cuentasRegla.haber),
+          cuentaImpuesto: cuentasRegla.impuesto
+            ? porCodigo.get(cuentasRegla.impuesto)
+            : null,
+          persona: { id: personaId },
+        }),
+      );
+
+    if (nuevasReglas.length > 0) {
+      await reglaRepo.save(nuevasReglas);
+    }
+  }
+
+  private mapearCuenta(cuenta: CuentaContable): ResponseCuentaContableDto {
+    return {
+      id: cuenta.id,
+      codigo: cuenta.codigo,
+      nombre: cuenta.nombre,
+      nivel: cuenta.nivel,
+      naturaleza: cuenta.naturaleza,
+      activo: cuenta.activo,
+    };
+  }
+
+  private mapearRegla(regla: ReglaContable): ResponseReglaContableDto {
+    return {
+      origen: regla.origen,
+      cuentaDebe: regla.cuentaDebe.codigo,
+      cuentaHaber: regla.cuentaHaber.codigo,
+      cuentaImpuesto: regla.cuentaImpuesto?.codigo ?? null,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CostoImportacionService } from '../service';
+import { CreateCostoImportacionDto, ResponseCostoImportacionDto } from '../dto';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de gastos de importación
+ * Flete, seguro, derechos y agente de aduanas se registran como comprobantes y aquí se
+ * prorratean sobre los lotes de la compra
+ */
+@ApiTags('Costos de importación')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/costos-importacion')
+export class CostoImportacionController {
+  constructor(
+    private readonly costoImportacionService: CostoImportacionService,
+  ) {}
+
+  /**
+   * Prorratear gastos sobre los lotes de una compra
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Prorratear gastos de importación sobre una compra',
+    description:
+      'Reparte los comprobantes de gasto (sin IGV, en moneda nacional) entre los lotes de la compra por valor, cantidad o peso, actualiza su costo unitario y recalcula el Kardex de las salidas que ya los consumieron',
+  })
+  @ApiResponse({ status: 201, type: ResponseCostoImportacionDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Gastos ya prorrateados, pesos faltantes, lotes en un período cerrado o recálculo fuera del límite retroactivo',
+  })
+  @ApiResponse({ status: 404, description: 'Compra o gasto no encontrado' })
+  async registrar(
+    @Body() dto: CreateCostoImportacionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseCostoImportacionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.costoImportacionService.registrar(user.personaId, dto);
+  }
+
+  /**
+   * Listar prorrateos
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar prorrateos de gastos de importación' })
+  @ApiQuery({ name: 'idComprobanteCompra', required: false, type: Number })
+  @ApiResponse({ status: 200, type: [ResponseCostoImportacionDto] })
+  async listar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idComprobanteCompra', new ParseIntPipe({ optional: true }))
+    idComprobanteCompra?: number,
+  ): Promise<ResponseCostoImportacionDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.costoImportacionService.listar(
+      user.personaId,
+      idComprobanteCompra,
+    );
+  }
+
+  /**
+   * Obtener un prorrateo
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Obtener un prorrateo de gastos de importación' })
+  @ApiResponse({ status: 200, type: ResponseCostoImportacionDto })
+  @ApiResponse({ status: 404, description: 'Prorrateo no encontrado' })
+  async obtener(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseCostoImportacionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.costoImportacionService.obtener(id, user.personaId);
+  }
+}
@@ -0,0 +1 @@
+export { CostoImportacionController } from './costo-importacion.controller';
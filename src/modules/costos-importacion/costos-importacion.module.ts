@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  CostoImportacion,
+  CostoImportacionGasto,
+  CostoImportacionLote,
+} from './entities';
+import { CostoImportacionService } from './service';
+import { CostoImportacionController } from './controller';
+import { Comprobante } from '../comprobantes/entities/comprobante';
+import { PeriodoContable } from '../periodos/entities/periodo-contable.entity';
+import { InventarioModule } from '../inventario/inventario.module';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de costos de importación
+ * Prorrateo de flete, seguro, derechos y agente de aduanas sobre los lotes de una compra
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      CostoImportacion,
+      CostoImportacionGasto,
+      CostoImportacionLote,
+      Comprobante,
+      PeriodoContable,
+    ]),
+    InventarioModule,
+    UserModule,
+  ],
+  controllers: [CostoImportacionController],
+  providers: [CostoImportacionService],
+  exports: [CostoImportacionService],
+})
+export class CostosImportacionModule {}
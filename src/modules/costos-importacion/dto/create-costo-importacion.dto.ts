@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  ValidateNested,
+} from 'class-validator';
+import { MetodoProrrateo } from '../enum';
+
+/**
+ * Peso de un lote de la compra, para el prorrateo por peso
+ */
+export class PesoLoteDto {
+  @ApiProperty({ description: 'ID del lote', example: 40 })
+  @IsInt()
+  idLote: number;
+
+  @ApiProperty({ description: 'Peso del lote en kilogramos', example: 125.5 })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  peso: number;
+}
+
+/**
+ * DTO para prorratear comprobantes de gasto sobre los lotes de una compra
+ */
+export class CreateCostoImportacionDto {
+  @ApiProperty({ description: 'ID del comprobante de compra', example: 30 })
+  @IsInt()
+  idComprobanteCompra: number;
+
+  @ApiProperty({
+    description:
+      'IDs de los comprobantes de flete, seguro, derechos o agente de aduanas',
+    example: [31, 32],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  idsComprobantesGasto: number[];
+
+  @ApiProperty({ enum: MetodoProrrateo, example: MetodoProrrateo.VALOR })
+  @IsEnum(MetodoProrrateo)
+  metodo: MetodoProrrateo;
+
+  @ApiPropertyOptional({
+    description:
+      'Peso de cada lote de la compra; obligatorio con el método PESO',
+    type: [PesoLoteDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PesoLoteDto)
+  pesos?: PesoLoteDto[];
+}
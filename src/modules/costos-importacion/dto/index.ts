@@ -0,0 +1,9 @@
+export {
+  CreateCostoImportacionDto,
+  PesoLoteDto,
+} from './create-costo-importacion.dto';
+export {
+  ResponseCostoImportacionDto,
+  GastoCostoImportacionDto,
+  LoteCostoImportacionDto,
+} from './response-costo-importacion.dto';
@@ -0,0 +1,100 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MetodoProrrateo } from '../enum';
+import { RecalculoKardexResponseDto } from '../../inventario/dto';
+
+/**
+ * Comprobante de gasto prorrateado
+ */
+export class GastoCostoImportacionDto {
+  @ApiProperty({ description: 'ID del comprobante de gasto', example: 31 })
+  idComprobante: number;
+
+  @ApiProperty({
+    description: 'Serie y número del comprobante',
+    example: 'F001-880',
+  })
+  documento: string;
+
+  @ApiProperty({
+    description: 'Importe sin IGV en moneda nacional',
+    example: 850,
+  })
+  monto: number;
+}
+
+/**
+ * Monto asignado a un lote y su nuevo costo unitario
+ */
+export class LoteCostoImportacionDto {
+  @ApiProperty({ description: 'ID del lote', example: 40 })
+  idLote: number;
+
+  @ApiProperty({ description: 'ID del inventario del lote', example: 8 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Producto', example: 'Motor eléctrico 2HP' })
+  producto: string;
+
+  @ApiProperty({ description: 'Cantidad que ingresó al lote con la compra' })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Valor, cantidad o peso usado como base' })
+  base: number;
+
+  @ApiProperty({ description: 'Gasto asignado en moneda nacional' })
+  montoAsignado: number;
+
+  @ApiProperty({ description: 'Costo unitario antes del prorrateo' })
+  costoUnitarioAnterior: number;
+
+  @ApiProperty({ description: 'Costo unitario con los gastos incluidos' })
+  costoUnitarioNuevo: number;
+}
+
+/**
+ * DTO de respuesta de un prorrateo de gastos de importación
+ */
+export class ResponseCostoImportacionDto {
+  @ApiProperty({ description: 'ID del prorrateo', example: 5 })
+  id: number;
+
+  @ApiProperty({ description: 'ID del comprobante de compra', example: 30 })
+  idComprobanteCompra: number;
+
+  @ApiProperty({
+    description: 'Serie y número de la compra',
+    example: 'F001-1520',
+  })
+  documentoCompra: string;
+
+  @ApiProperty({
+    description: 'Valor FOB embarcado declarado en la compra',
+    example: 12000,
+  })
+  valorFobEmbarcado: number;
+
+  @ApiProperty({ enum: MetodoProrrateo })
+  metodo: MetodoProrrateo;
+
+  @ApiProperty({
+    description: 'Total prorrateado en moneda nacional',
+    example: 1850,
+  })
+  montoTotal: number;
+
+  @ApiProperty({ type: [GastoCostoImportacionDto] })
+  gastos: GastoCostoImportacionDto[];
+
+  @ApiProperty({ type: [LoteCostoImportacionDto] })
+  lotes: LoteCostoImportacionDto[];
+
+  @ApiProperty({ description: 'Fecha de registro' })
+  fechaCreacion: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Recálculo del Kardex de cada inventario; solo al registrar el prorrateo',
+    type: [RecalculoKardexResponseDto],
+  })
+  recalculos?: RecalculoKardexResponseDto[];
+}
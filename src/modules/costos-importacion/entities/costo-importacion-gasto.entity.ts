@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { CostoImportacion } from './costo-importacion.entity';
+
+/**
+ * Comprobante de gasto incluido en un prorrateo; cada gasto se prorratea una sola vez
+ */
+@Entity('costo_importacion_gasto')
+export class CostoImportacionGasto {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => CostoImportacion, (costo) => costo.gastos, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_costo_importacion' })
+  costoImportacion: CostoImportacion;
+
+  @Index({ unique: true })
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Importe del comprobante sin IGV, en moneda nacional
+   */
+  @Column('decimal', { precision: 15, scale: 2 })
+  monto: number;
+}
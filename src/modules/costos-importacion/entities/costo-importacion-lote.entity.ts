@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { InventarioLote } from '../../inventario/entities/inventario-lote.entity';
+import { CostoImportacion } from './costo-importacion.entity';
+
+/**
+ * Parte de los gastos asignada a un lote de la compra
+ */
+@Entity('costo_importacion_lote')
+export class CostoImportacionLote {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => CostoImportacion, (costo) => costo.lotes, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_costo_importacion' })
+  costoImportacion: CostoImportacion;
+
+  @ManyToOne(() => InventarioLote, { nullable: false })
+  @JoinColumn({ name: 'id_lote' })
+  lote: InventarioLote;
+
+  /**
+   * Unidades que ingresaron al lote con la compra
+   */
+  @Column('decimal', { precision: 15, scale: 4, default: 0 })
+  cantidad: number;
+
+  /**
+   * Valor, cantidad o peso del lote según el método de prorrateo
+   */
+  @Column('decimal', { precision: 15, scale: 4 })
+  base: number;
+
+  @Column('decimal', { precision: 15, scale: 2 })
+  montoAsignado: number;
+
+  /**
+   * Costo unitario del lote antes y después del prorrateo, en moneda nacional por unidad base
+   */
+  @Column('decimal', { precision: 12, scale: 4 })
+  costoUnitarioAnterior: number;
+
+  @Column('decimal', { precision: 12, scale: 4 })
+  costoUnitarioNuevo: number;
+}
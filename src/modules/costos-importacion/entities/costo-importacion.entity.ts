@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Persona } from '../../users/entities/persona.entity';
+import { MetodoProrrateo } from '../enum';
+import { CostoImportacionGasto } from './costo-importacion-gasto.entity';
+import { CostoImportacionLote } from './costo-importacion-lote.entity';
+
+/**
+ * Prorrateo de gastos de importación (flete, seguro, derechos, agente de aduanas) sobre
+ * los lotes de una compra. El monto asignado a cada lote se suma a su costo unitario
+ */
+@Entity('costo_importacion')
+export class CostoImportacion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Compra cuyos lotes reciben los gastos
+   */
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante_compra' })
+  comprobanteCompra: Comprobante;
+
+  @Column({ type: 'enum', enum: MetodoProrrateo })
+  metodo: MetodoProrrateo;
+
+  /**
+   * Suma de los gastos sin IGV, en moneda nacional
+   */
+  @Column('decimal', { precision: 15, scale: 2 })
+  montoTotal: number;
+
+  @OneToMany(() => CostoImportacionGasto, (gasto) => gasto.costoImportacion, {
+    cascade: true,
+  })
+  gastos: CostoImportacionGasto[];
+
+  @OneToMany(() => CostoImportacionLote, (lote) => lote.costoImportacion, {
+    cascade: true,
+  })
+  lotes: CostoImportacionLote[];
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
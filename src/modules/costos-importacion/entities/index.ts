@@ -0,0 +1,3 @@
+export { CostoImportacion } from './costo-importacion.entity';
+export { CostoImportacionGasto } from './costo-importacion-gasto.entity';
+export { CostoImportacionLote } from './costo-importacion-lote.entity';
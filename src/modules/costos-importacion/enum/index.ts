@@ -0,0 +1 @@
+export * from './metodo-prorrateo.enum';
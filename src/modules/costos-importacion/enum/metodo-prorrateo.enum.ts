@@ -0,0 +1,17 @@
+/**
+ * Base con la que los gastos de importación se reparten entre los lotes de la compra
+ */
+export enum MetodoProrrateo {
+  /**
+   * Proporcional al valor del lote (cantidad por costo unitario antes del prorrateo)
+   */
+  VALOR = 'VALOR',
+  /**
+   * Proporcional a la cantidad ingresada en cada lote
+   */
+  CANTIDAD = 'CANTIDAD',
+  /**
+   * Proporcional al peso de cada lote, indicado al registrar el prorrateo
+   */
+  PESO = 'PESO',
+}
@@ -0,0 +1,246 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { CostoImportacionService } from './costo-importacion.service';
+import {
+  CostoImportacion,
+  CostoImportacionGasto,
+  CostoImportacionLote,
+} from '../entities';
+import { MetodoProrrateo } from '../enum';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { InventarioLote } from '../../inventario/entities';
+import { RecalculoKardexService } from '../../inventario/service/recalculo-kardex.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+
+/**
+ * Tests unitarios para CostoImportacionService
+ * Verifica el reparto con cuadre de céntimos y que el nuevo costo llegue a lotes y Kardex
+ */
+describe('CostoImportacionService', () => {
+  let service: CostoImportacionService;
+  let manager: EntityManager;
+  let create: jest.Mock;
+  let update: jest.Mock;
+  let recalcular: jest.Mock;
+  let find: jest.Mock;
+  let ingresos: object[];
+  let gasto: Record<string, unknown>;
+
+  const lotes = [
+    {
+      id: 40,
+      fechaIngreso: '2024-05-02',
+      cantidadInicial: '10.0000',
+      costoUnitario: '50.0000',
+      inventario: { id: 8, producto: { nombre: 'Motor eléctrico 2HP' } },
+    },
+    {
+      id: 41,
+      fechaIngreso: '2024-05-02',
+      cantidadInicial: '5.0000',
+      costoUnitario: '100.0000',
+      inventario: { id: 9, producto: { nombre: 'Bomba de agua' } },
+    },
+  ];
+
+  beforeEach(() => {
+    ingresos = [
+      { id: 70, idLote: 40, cantidad: '10.0000' },
+      { id: 71, idLote: 41, cantidad: '5.0000' },
+    ];
+    gasto = {
+      idComprobante: 31,
+      serie: 'F002',
+      numero: '880',
+      moneda: Moneda.USD,
+      tipoCambio: '3.7500',
+      tipoOperacion: { codigo: '02' },
+      detalles: [],
+      totales: {
+        totalGeneral: '314.67',
+        totalIgv: '48.00',
+        totalGeneralMn: '1180.00',
+        totalIgvMn: '180.00',
+      },
+    };
+    find = jest.fn(() => Promise.resolve(lotes));
+    create = jest.fn((_entidad: unknown, datos: object) => datos);
+    update = jest.fn(() => Promise.resolve());
+    recalcular = jest.fn((idInventario: number) =>
+      Promise.resolve({ idInventario, salidasReescritas: 1 }),
+    );
+    manager = {
+      getRepository: jest.fn(() => ({
+        createQueryBuilder: jest.fn(() => {
+          const consulta: Record<string, jest.Mock> = {};
+          for (const metodo of ['innerJoin', 'where', 'andWhere']) {
+            consulta[metodo] = jest.fn(() => consulta);
+          }
+          consulta.getMany = jest.fn(() => Promise.resolve(ingresos));
+          return consulta;
+        }),
+      })),
+      find,
+      create,
+      save: jest.fn((datos: object) =>
+        Promise.resolve({ id: 5, fechaCreacion: new Date(), ...datos }),
+      ),
+      update,
+    } as unknown as EntityManager;
+
+    const comprobanteRepository = {
+      findOne: jest.fn(() =>
+        Promise.resolve({
+          idComprobante: 30,
+          serie: 'F001',
+          numero: '1520',
+          valorFobEmbarcado: '12000.00',
+          tipoOperacion: { codigo: '02' },
+        }),
+      ),
+      find: jest.fn(() => Promise.resolve([gasto])),
+    } as unknown as Repository<Comprobante>;
+
+    service = new CostoImportacionService(
+      {} as Repository<CostoImportacion>,
+      {
+        find: jest.fn(() => Promise.resolve([])),
+      } as unknown as Repository<CostoImportacionGasto>,
+      comprobanteRepository,
+      {
+        findOne: jest.fn(() => Promise.resolve(null)),
+      } as unknown as Repository<PeriodoContable>,
+      { recalcular } as unknown as RecalculoKardexService,
+      {
+        invalidarDesde: jest.fn(() => Promise.resolve()),
+      } as unknown as KardexSaldoService,
+      { invalidateInventario: jest.fn() } as unknown as StockCacheService,
+      {
+        transaction: jest.fn(
+          (ejecutar: (transaccion: EntityManager) => Promise<unknown>) =>
+            ejecutar(manager),
+        ),
+      } as unknown as DataSource,
+    );
+  });
+
+  it('should allocate cents so the parts add up to the total', () => {
+    expect(service.prorratear(100, [1, 1, 1])).toEqual([33.34, 33.33, 33.33]);
+    expect(service.prorratear(1000, [500, 250, 250])).toEqual([500, 250, 250]);
+  });
+
+  it('should add the expenses without IGV to the lot cost and recalculate the Kardex', async () => {
+    const resultado = await service.registrar(1, {
+      idComprobanteCompra: 30,
+      idsComprobantesGasto: [31],
+      metodo: MetodoProrrateo.VALOR,
+    });
+
+    expect(resultado.montoTotal).toBe(1000);
+    expect(resultado.lotes).toEqual([
+      expect.objectContaining({
+        idLote: 40,
+        montoAsignado: 500,
+        costoUnitarioAnterior: 50,
+        costoUnitarioNuevo: 100,
+      }),
+      expect.objectContaining({
+        idLote: 41,
+        montoAsignado: 500,
+        costoUnitarioAnterior: 100,
+        costoUnitarioNuevo: 200,
+      }),
+    ]);
+    expect(update).toHaveBeenCalledWith(InventarioLote, 40, {
+      costoUnitario: 100,
+    });
+    expect(update).toHaveBeenCalledWith(
+      DetalleSalida,
+      { idLote: 41 },
+      { costoUnitarioDeLote: 200 },
+    );
+    expect(recalcular).toHaveBeenCalledTimes(2);
+    expect(recalcular).toHaveBeenCalledWith(
+      8,
+      new Date('2024-05-02T00:00:00'),
+      1,
+      manager,
+      false,
+    );
+    expect(resultado.recalculos).toHaveLength(2);
+    expect(create).toHaveBeenCalledWith(
+      CostoImportacionLote,
+      expect.objectContaining({ base: 500 }),
+    );
+  });
+
+  it('should prorate over the units the purchase brought in, not the initial lot quantity', async () => {
+    // Los lotes de compra se crean con cantidad inicial cero; el lote 40 ingresó en dos líneas
+    find.mockResolvedValue(
+      lotes.map((lote) => ({ ...lote, cantidadInicial: '0.0000' })),
+    );
+    ingresos = [
+      { id: 70, idLote: 40, cantidad: '6.0000' },
+      { id: 72, idLote: 40, cantidad: '4.0000' },
+      { id: 71, idLote: 41, cantidad: '5.0000' },
+    ];
+
+    const resultado = await service.registrar(1, {
+      idComprobanteCompra: 30,
+      idsComprobantesGasto: [31],
+      metodo: MetodoProrrateo.CANTIDAD,
+    });
+
+    expect(resultado.lotes).toEqual([
+      expect.objectContaining({
+        idLote: 40,
+        cantidad: 10,
+        base: 10,
+        montoAsignado: 666.67,
+        costoUnitarioNuevo: 116.667,
+      }),
+      expect.objectContaining({
+        idLote: 41,
+        cantidad: 5,
+        base: 5,
+        montoAsignado: 333.33,
+        costoUnitarioNuevo: 166.666,
+      }),
+    ]);
+    expect(update).toHaveBeenCalledWith(InventarioLote, 40, {
+      costoUnitario: 116.667,
+    });
+  });
+
+  it('should reject expense documents that are sales or brought goods into inventory', async () => {
+    const registrar = () =>
+      service.registrar(1, {
+        idComprobanteCompra: 30,
+        idsComprobantesGasto: [31],
+        metodo: MetodoProrrateo.VALOR,
+      });
+
+    gasto.tipoOperacion = { codigo: '01' };
+    await expect(registrar()).rejects.toThrow(BadRequestException);
+
+    gasto.tipoOperacion = { codigo: '02' };
+    gasto.detalles = [{ inventario: { id: 8 } }];
+    await expect(registrar()).rejects.toThrow(BadRequestException);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should require the weight of every lot when allocating by weight', async () => {
+    await expect(
+      service.registrar(1, {
+        idComprobanteCompra: 30,
+        idsComprobantesGasto: [31],
+        metodo: MetodoProrrateo.PESO,
+        pesos: [{ idLote: 40, peso: 120 }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,536 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import {
+  CostoImportacion,
+  CostoImportacionGasto,
+  CostoImportacionLote,
+} from '../entities';
+import { MetodoProrrateo } from '../enum';
+import { CreateCostoImportacionDto, ResponseCostoImportacionDto } from '../dto';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { InventarioLote } from '../../inventario/entities';
+import { RecalculoKardexResponseDto } from '../../inventario/dto';
+import { RecalculoKardexService } from '../../inventario/service/recalculo-kardex.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
+import { EstadoMovimiento, TipoMovimiento } from '../../movimientos/enum';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+
+/**
+ * Código SUNAT (tabla 12) de la compra
+ */
+const CODIGO_COMPRA = '02';
+
+/**
+ * Códigos SUNAT (tabla 12) con los que se registran los gastos: compra y otros
+ */
+const CODIGOS_GASTO = [CODIGO_COMPRA, '99'];
+
+/**
+ * Servicio de prorrateo de gastos de importación
+ * Los gastos facturados aparte de la compra se reparten entre sus lotes y se suman a su
+ * costo unitario; luego se recalcula el Kardex para que las salidas ya hechas de esos
+ * lotes tomen el nuevo costo
+ */
+@Injectable()
+export class CostoImportacionService {
+  private readonly logger = new Logger(CostoImportacionService.name);
+
+  constructor(
+    @InjectRepository(CostoImportacion)
+    private readonly costoImportacionRepository: Repository<CostoImportacion>,
+    @InjectRepository(CostoImportacionGasto)
+    private readonly gastoRepository: Repository<CostoImportacionGasto>,
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    @InjectRepository(PeriodoContable)
+    private readonly periodoRepository: Repository<PeriodoContable>,
+    private readonly recalculoKardexService: RecalculoKardexService,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly stockCacheService: StockCacheService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Prorratea los comprobantes de gasto sobre los lotes de una compra
+   * Actualiza el costo de los lotes, de su ingreso y de las salidas que los consumieron,
+   * y recalcula el Kardex desde la fecha de ingreso
+   * @param personaId - ID de la empresa
+   * @param dto - Compra, gastos y método de prorrateo
+   */
+  async registrar(
+    personaId: number,
+    dto: CreateCostoImportacionDto,
+  ): Promise<ResponseCostoImportacionDto> {
+    if (!Object.values(MetodoProrrateo).includes(dto.metodo)) {
+      throw new BadRequestException(
+        `Método de prorrateo no válido. Use ${Object.values(MetodoProrrateo).join(', ')}`,
+      );
+    }
+    const idsGasto = dto.idsComprobantesGasto ?? [];
+    if (idsGasto.length === 0) {
+      throw new BadRequestException('Indique al menos un comprobante de gasto');
+    }
+    if (new Set(idsGasto).size !== idsGasto.length) {
+      throw new BadRequestException(
+        'Cada comprobante de gasto debe aparecer una sola vez',
+      );
+    }
+    if (idsGasto.includes(dto.idComprobanteCompra)) {
+      throw new BadRequestException(
+        'La compra no puede prorratearse sobre sí misma',
+      );
+    }
+
+    const compra = await this.comprobanteRepository.findOne({
+      where: {
+        idComprobante: dto.idComprobanteCompra,
+        persona: { id: personaId },
+      },
+      relations: ['tipoOperacion'],
+    });
+    if (!compra) {
+      throw new NotFoundException(
+        `Comprobante con ID ${dto.idComprobanteCompra} no encontrado`,
+      );
+    }
+    if (compra.tipoOperacion?.codigo !== CODIGO_COMPRA) {
+      throw new BadRequestException(
+        'Los gastos de importación solo se prorratean sobre una compra',
+      );
+    }
+
+    const gastos = await this.comprobanteRepository.find({
+      where: { idComprobante: In(idsGasto), persona: { id: personaId } },
+      relations: [
+        'totales',
+        'tipoOperacion',
+        'detalles',
+        'detalles.inventario',
+      ],
+    });
+    const faltantes = idsGasto.filter(
+      (id) => !gastos.some((gasto) => gasto.idComprobante === id),
+    );
+    if (faltantes.length > 0) {
+      throw new NotFoundException(
+        `Comprobantes de gasto no encontrados: ${faltantes.join(', ')}`,
+      );
+    }
+    // Una compra de mercadería ya ingresó su costo al inventario y no es un gasto
+    const noSonGasto = gastos.filter(
+      (gasto) =>
+        !CODIGOS_GASTO.includes(gasto.tipoOperacion?.codigo) ||
+        (gasto.detalles ?? []).some((detalle) => detalle.inventario),
+    );
+    if (noSonGasto.length > 0) {
+      throw new BadRequestException(
+        `Solo se prorratean compras o gastos que no ingresan inventario: ${noSonGasto.map((gasto) => this.documento(gasto)).join(', ')}`,
+      );
+    }
+    const yaProrrateados = await this.gastoRepository.find({
+      where: { comprobante: { idComprobante: In(idsGasto) } },
+      relations: ['comprobante'],
+    });
+    if (yaProrrateados.length > 0) {
+      throw new BadRequestException(
+        `Gastos ya prorrateados: ${yaProrrateados.map((gasto) => this.documento(gasto.comprobante)).join(', ')}`,
+      );
+    }
+
+    const montosGasto = gastos.map((gasto) => this.montoSinIgv(gasto));
+    const montoTotal = this.redondear(
+      montosGasto.reduce((total, monto) => total + monto, 0),
+      2,
+    );
+    if (montoTotal <= 0) {
+      throw new BadRequestException(
+        'Los comprobantes de gasto no tienen importe que prorratear',
+      );
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const { lotes, idsIngreso, cantidades } = await this.lotesDeCompra(
+        compra.idComprobante,
+        manager,
+      );
+      await this.validarPeriodosAbiertos(personaId, lotes);
+
+      const bases = this.calcularBases(lotes, cantidades, dto);
+      const asignados = this.prorratear(montoTotal, bases);
+
+      const detalles = lotes.map((lote, i) => {
+        const anterior = Number(lote.costoUnitario);
+        const cantidad = cantidades.get(Number(lote.id))!;
+        return manager.create(CostoImportacionLote, {
+          lote,
+          cantidad,
+          base: bases[i],
+          montoAsignado: asignados[i],
+          costoUnitarioAnterior: anterior,
+          costoUnitarioNuevo: this.redondear(
+            anterior + asignados[i] / cantidad,
+            4,
+          ),
+        });
+      });
+
+      for (const detalle of detalles) {
+        const idLote = detalle.lote.id;
+        const costoUnitario = detalle.costoUnitarioNuevo;
+        await manager.update(InventarioLote, idLote, { costoUnitario });
+        // El ingreso de la compra y las salidas ya registradas guardan el costo del lote
+        await manager.update(
+          MovimientoDetalle,
+          { id: In(idsIngreso), idLote },
+          { costoUnitario },
+        );
+        await manager.update(
+          DetalleSalida,
+          { idLote },
+          { costoUnitarioDeLote: costoUnitario },
+        );
+      }
+
+      const guardado = await manager.save(
+        manager.create(CostoImportacion, {
+          comprobanteCompra: compra,
+          metodo: dto.metodo,
+          montoTotal,
+          persona: { id: personaId },
+          gastos: gastos.map((gasto, i) =>
+            manager.create(CostoImportacionGasto, {
+              comprobante: gasto,
+              monto: montosGasto[i],
+            }),
+          ),
+          lotes: detalles,
+        }),
+      );
+
+      const recalculos = await this.recalcularKardex(personaId, lotes, manager);
+      this.logger.log(
+        `Prorrateo ${guardado.id}: ${montoTotal} sobre ${lotes.length} lotes de la compra ${this.documento(compra)} (${dto.metodo})`,
+      );
+
+      return { ...this.mapear(guardado), recalculos };
+    });
+  }
+
+  /**
+   * Lista los prorrateos de la empresa, los más recientes primero
+   * @param personaId - ID de la empresa
+   * @param idComprobanteCompra - Compra (opcional)
+   */
+  async listar(
+    personaId: number,
+    idComprobanteCompra?: number,
+  ): Promise<ResponseCostoImportacionDto[]> {
+    const costos = await this.costoImportacionRepository.find({
+      where: {
+        persona: { id: personaId },
+        ...(idComprobanteCompra
+          ? { comprobanteCompra: { idComprobante: idComprobanteCompra } }
+          : {}),
+      },
+      relations: this.relaciones(),
+      order: { fechaCreacion: 'DESC' },
+    });
+    return costos.map((costo) => this.mapear(costo));
+  }
+
+  async obtener(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseCostoImportacionDto> {
+    const costo = await this.costoImportacionRepository.findOne({
+      where: { id, persona: { id: personaId } },
+      relations: this.relaciones(),
+    });
+    if (!costo) {
+      throw new NotFoundException(
+        `Prorrateo de gastos con ID ${id} no encontrado`,
+      );
+    }
+    return this.mapear(costo);
+  }
+
+  /**
+   * Reparte el monto en proporción a las bases, redondeado a céntimos
+   * La diferencia de redondeo se asigna a la base mayor para que la suma cuadre
+   * @param montoTotal - Monto a repartir
+   * @param bases - Valor, cantidad o peso de cada lote
+   */
+  prorratear(montoTotal: number, bases: number[]): number[] {
+    const totalBases = bases.reduce((total, base) => total + base, 0);
+    if (totalBases <= 0) {
+      throw new BadRequestException(
+        'La base de prorrateo de los lotes es cero',
+      );
+    }
+
+    const asignados = bases.map((base) =>
+      this.redondear((montoTotal * base) / totalBases, 2),
+    );
+    const diferencia = this.redondear(
+      montoTotal - asignados.reduce((total, monto) => total + monto, 0),
+      2,
+    );
+    if (diferencia !== 0) {
+      const mayor = bases.indexOf(Math.max(...bases));
+      asignados[mayor] = this.redondear(asignados[mayor] + diferencia, 2);
+    }
+    return asignados;
+  }
+
+  /**
+   * Lotes creados por el ingreso de la compra, los detalles de ese ingreso
+   * y las unidades que la compra ingresó a cada lote
+   * La cantidad inicial del lote no sirve: los lotes de compra se crean con cero
+   */
+  private async lotesDeCompra(
+    idComprobante: number,
+    manager: EntityManager,
+  ): Promise<{
+    lotes: InventarioLote[];
+    idsIngreso: number[];
+    cantidades: Map<number, number>;
+  }> {
+    const ingresos = await manager
+      .getRepository(MovimientoDetalle)
+      .createQueryBuilder('md')
+      .innerJoin('md.movimiento', 'm')
+      .where('m.idComprobante = :idComprobante', { idComprobante })
+      .andWhere('m.tipo = :tipo', { tipo: TipoMovimiento.ENTRADA })
+      .andWhere('m.estado = :estado', { estado: EstadoMovimiento.PROCESADO })
+      .andWhere('md.idLote IS NOT NULL')
+      .getMany();
+    const cantidades = new Map<number, number>();
+    for (const md of ingresos) {
+      const idLote = Number(md.idLote);
+      cantidades.set(
+        idLote,
+        (cantidades.get(idLote) ?? 0) + Number(md.cantidad),
+      );
+    }
+    const idsLote = [...cantidades.keys()];
+    if (idsLote.length === 0) {
+      throw new BadRequestException(
+        'La compra no tiene lotes de inventario a los cuales asignar los gastos',
+      );
+    }
+
+    const lotes = await manager.find(InventarioLote, {
+      where: { id: In(idsLote) },
+      relations: ['inventario', 'inventario.producto'],
+      order: { id: 'ASC' },
+    });
+    const sinCantidad = lotes.filter(
+      (lote) => !((cantidades.get(Number(lote.id)) ?? 0) > 0),
+    );
+    if (sinCantidad.length > 0) {
+      throw new BadRequestException(
+        `La compra no ingresó unidades a los lotes: ${sinCantidad.map((lote) => lote.id).join(', ')}`,
+      );
+    }
+    return { lotes, idsIngreso: ingresos.map((md) => md.id), cantidades };
+  }
+
+  /**
+   * Con PESO cada lote de la compra debe tener su peso
+   */
+  private calcularBases(
+    lotes: InventarioLote[],
+    cantidades: Map<number, number>,
+    dto: CreateCostoImportacionDto,
+  ): number[] {
+    if (dto.metodo === MetodoProrrateo.PESO) {
+      const pesos = new Map(
+        (dto.pesos ?? []).map((peso) => [
+          Number(peso.idLote),
+          Number(peso.peso),
+        ]),
+      );
+      const sinPeso = lotes.filter(
+        (lote) => !((pesos.get(Number(lote.id)) ?? 0) > 0),
+      );
+      if (sinPeso.length > 0) {
+        throw new BadRequestException(
+          `Indique el peso de los lotes: ${sinPeso.map((lote) => lote.id).join(', ')}`,
+        );
+      }
+      return lotes.map((lote) => pesos.get(Number(lote.id))!);
+    }
+
+    return lotes.map((lote) => {
+      const cantidad = cantidades.get(Number(lote.id))!;
+      return this.redondear(
+        dto.metodo === MetodoProrrateo.CANTIDAD
+          ? cantidad
+          : cantidad * Number(lote.costoUnitario),
+        4,
+      );
+    });
+  }
+
+  /**
+   * Un lote que ingresó en un período cerrado no cambia de costo
+   */
+  private async validarPeriodosAbiertos(
+    personaId: number,
+    lotes: InventarioLote[],
+  ): Promise<void> {
+    const fechaIngreso = this.fechaMinima(lotes);
+    const ultimoCerrado = await this.periodoRepository.findOne({
+      where: { persona: { id: personaId }, cerrado: true },
+      order: { fechaFin: 'DESC' },
+    });
+    if (ultimoCerrado && this.aFecha(ultimoCerrado.fechaFin) >= fechaIngreso) {
+      throw new BadRequestException(
+        `Los lotes de la compra ingresaron el ${fechaIngreso}, en un período ya cerrado`,
+      );
+    }
+  }
+
+  /**
+   * Recalcula cada inventario desde el ingreso más antiguo de sus lotes
+   * La compra puede ser antigua: no aplica el límite retroactivo, solo el cierre de períodos
+   */
+  private async recalcularKardex(
+    personaId: number,
+    lotes: InventarioLote[],
+    manager: EntityManager,
+  ): Promise<RecalculoKardexResponseDto[]> {
+    const porInventario = new Map<number, InventarioLote[]>();
+    for (const lote of lotes) {
+      const idInventario = Number(lote.inventario.id);
+      porInventario.set(idInventario, [
+        ...(porInventario.get(idInventario) ?? []),
+        lote,
+      ]);
+    }
+
+    const recalculos: RecalculoKardexResponseDto[] = [];
+    for (const [idInventario, lotesInventario] of porInventario) {
+      const fecha = new Date(`${this.fechaMinima(lotesInventario)}T00:00:00`);
+      recalculos.push(
+        await this.recalculoKardexService.recalcular(
+          idInventario,
+          fecha,
+          personaId,
+          manager,
+          false,
+        ),
+      );
+      // El ingreso cambió de costo aunque no se reescriba ninguna salida
+      await this.kardexSaldoService.invalidarDesde(
+        [idInventario],
+        fecha,
+        manager,
+      );
+      this.stockCacheService.invalidateInventario(idInventario);
+    }
+    return recalculos;
+  }
+
+  private relaciones(): string[] {
+    return [
+      'comprobanteCompra',
+      'gastos',
+      'gastos.comprobante',
+      'lotes',
+      'lotes.lote',
+      'lotes.lote.inventario',
+      'lotes.lote.inventario.producto',
+    ];
+  }
+
+  private mapear(costo: CostoImportacion): ResponseCostoImportacionDto {
+    const compra = costo.comprobanteCompra;
+    return {
+      id: costo.id,
+      idComprobanteCompra: compra.idComprobante,
+      documentoCompra: this.documento(compra),
+      valorFobEmbarcado: Number(compra.valorFobEmbarcado ?? 0),
+      metodo: costo.metodo,
+      montoTotal: Number(costo.montoTotal),
+      gastos: (costo.gastos ?? []).map((gasto) => ({
+        idComprobante: gasto.comprobante.idComprobante,
+        documento: this.documento(gasto.comprobante),
+        monto: Number(gasto.monto),
+      })),
+      lotes: (costo.lotes ?? []).map((detalle) => ({
+        idLote: Number(detalle.lote.id),
+        idInventario: Number(detalle.lote.inventario.id),
+        producto: detalle.lote.inventario.producto?.nombre ?? '',
+        cantidad: Number(detalle.cantidad),
+        base: Number(detalle.base),
+        montoAsignado: Number(detalle.montoAsignado),
+        costoUnitarioAnterior: Number(detalle.costoUnitarioAnterior),
+        costoUnitarioNuevo: Number(detalle.costoUnitarioNuevo),
+      })),
+      fechaCreacion: costo.fechaCreacion,
+    };
+  }
+
+  /**
+   * Importe del gasto sin IGV (crédito fiscal) en moneda nacional
+   */
+  private montoSinIgv(comprobante: Comprobante): number {
+    const totales = comprobante.totales;
+    if (!totales) {
+      return 0;
+    }
+    if (
+      totales.totalGeneralMn !== null &&
+      totales.totalGeneralMn !== undefined
+    ) {
+      return this.redondear(
+        Number(totales.totalGeneralMn) - Number(totales.totalIgvMn ?? 0),
+        2,
+      );
+    }
+    const factor =
+      comprobante.moneda === Moneda.USD
+        ? Number(comprobante.tipoCambio) || 1
+        : 1;
+    return this.redondear(
+      (Number(totales.totalGeneral) - Number(totales.totalIgv ?? 0)) * factor,
+      2,
+    );
+  }
+
+  private fechaMinima(lotes: InventarioLote[]): string {
+    return lotes
+      .map((lote) => this.aFecha(lote.fechaIngreso))
+      .reduce((minima, fecha) => (fecha < minima ? fecha : minima));
+  }
+
+  private documento(comprobante: Comprobante): string {
+    return `${comprobante.serie}-${comprobante.numero}`;
+  }
+
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number, decimales: number): number {
+    const factor = 10 ** decimales;
+    return Math.round(valor * factor) / factor;
+  }
+}
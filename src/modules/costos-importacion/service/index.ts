@@ -0,0 +1 @@
+export { CostoImportacionService } from './costo-importacion.service';
@@ -0,0 +1,275 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CuentasPorCobrarService } from '../service';
+import {
+  CreateCobroDto,
+  RegistrarCuotasDto,
+  ResponseAntiguedadSaldosDto,
+  ResponseCobroDto,
+  ResponseSaldoComprobanteDto,
+} from '../dto';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de cuentas por cobrar
+ * Cronogramas de cuotas, cobros a clientes y antigüedad de saldos
+ */
+@ApiTags('Cuentas por Cobrar')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/cuentas-por-cobrar')
+export class CuentasPorCobrarController {
+  constructor(
+    private readonly cuentasPorCobrarService: CuentasPorCobrarService,
+  ) {}
+
+  /**
+   * Definir el cronograma de cuotas de una venta al crédito
+   */
+  @Put('comprobantes/:idComprobante/cuotas')
+  @ApiOperation({
+    summary: 'Registrar cuotas de una venta',
+    description:
+      'Reemplaza el cronograma de cuotas de la venta. Las cuotas deben sumar el total del comprobante',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Cronograma registrado; devuelve el saldo actualizado',
+    type: ResponseSaldoComprobanteDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Las cuotas no suman el total del comprobante',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Venta no encontrada',
+  })
+  async registrarCuotas(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @Body() dto: RegistrarCuotasDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseSaldoComprobanteDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.registrarCuotas(
+      idComprobante,
+      user.personaId,
+      dto,
+    );
+  }
+
+  /**
+   * Listar las ventas con saldo pendiente
+   */
+  @Get('pendientes')
+  @ApiOperation({
+    summary: 'Listar ventas pendientes de cobro',
+    description:
+      'Devuelve las ventas con saldo, netas de notas de crédito, notas de débito y cobros',
+  })
+  @ApiQuery({
+    name: 'idEntidad',
+    description: 'ID del cliente',
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Ventas pendientes obtenidas exitosamente',
+    type: [ResponseSaldoComprobanteDto],
+  })
+  async listarPendientes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponseSaldoComprobanteDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.listarPendientes(
+      user.personaId,
+      idEntidad,
+    );
+  }
+
+  /**
+   * Registrar un cobro
+   */
+  @Post('cobros')
+  @ApiOperation({
+    summary: 'Registrar cobro',
+    description:
+      'Registra el dinero recibido de un cliente y lo aplica a uno o más comprobantes. Se admiten pagos parciales',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Cobro registrado exitosamente',
+    type: ResponseCobroDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'El importe supera el saldo, o los comprobantes son de otro cliente u otra moneda',
+  })
+  async registrarCobro(
+    @Body() dto: CreateCobroDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseCobroDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.registrarCobro(user.personaId, dto);
+  }
+
+  /**
+   * Listar los cobros registrados
+   */
+  @Get('cobros')
+  @ApiOperation({ summary: 'Listar cobros' })
+  @ApiQuery({
+    name: 'idEntidad',
+    description: 'ID del cliente',
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Cobros obtenidos exitosamente',
+    type: [ResponseCobroDto],
+  })
+  async listarCobros(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponseCobroDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.listarCobros(user.personaId, idEntidad);
+  }
+
+  /**
+   * Obtener un cobro
+   */
+  @Get('cobros/:id')
+  @ApiOperation({ summary: 'Obtener cobro por ID' })
+  @ApiParam({ name: 'id', description: 'ID del cobro' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Cobro encontrado',
+    type: ResponseCobroDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Cobro no encontrado',
+  })
+  async obtenerCobro(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseCobroDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorCobrarService.obtenerCobro(id, user.personaId);
+  }
+
+  /**
+   * Anular un cobro
+   */
+  @Delete('cobros/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Anular cobro',
+    description:
+      'Elimina el cobro y devuelve su importe al saldo de los comprobantes',
+  })
+  @ApiParam({ name: 'id', description: 'ID del cobro' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Cobro anulado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Cobro no encontrado',
+  })
+  async anularCobro(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    await this.cuentasPorCobrarService.anularCobro(id, user.personaId);
+  }
+
+  /**
+   * Reporte de antigüedad de saldos por cliente
+   */
+  @Get('antiguedad')
+  @ApiOperation({
+    summary: 'Antigüedad de cuentas por cobrar',
+    description:
+      'Agrupa el saldo de cada cliente en tramos de 0-30, 31-60, 61-90 y más de 90 días vencidos, además de lo aún no vencido',
+  })
+  @ApiQuery({
+    name: 'fechaCorte',
+    description: 'Fecha de corte (YYYY-MM-DD); por defecto hoy',
+    required: false,
+    example: '2024-04-30',
+  })
+  @ApiQuery({
+    name: 'moneda',
+    description: 'Moneda de los comprobantes',
+    enum: Moneda,
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reporte generado exitosamente',
+    type: ResponseAntiguedadSaldosDto,
+  })
+  async antiguedadSaldos(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('fechaCorte') fechaCorte?: string,
+    @Query('moneda', new ParseEnumPipe(Moneda, { optional: true }))
+    moneda?: Moneda,
+  ): Promise<ResponseAntiguedadSaldosDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const hoy = new Date();
+    const corte =
+      fechaCorte ??
+      `${hoy.getFullYear()}-${String(hoy.getMonth() + 1).padStart(2, '0')}-${String(hoy.getDate()).padStart(2, '0')}`;
+    return this.cuentasPorCobrarService.antiguedadSaldos(
+      user.personaId,
+      corte,
+      moneda ?? Moneda.PEN,
+    );
+  }
+}
@@ -0,0 +1 @@
+export { CuentasPorCobrarController } from './cuentas-por-cobrar.controller';
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Cobro, CobroAplicacion, CuotaCobro } from './entities';
+import { CuentasPorCobrarService } from './service';
+import { CuentasPorCobrarController } from './controller';
+import { Comprobante } from '../comprobantes/entities/comprobante';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de cuentas por cobrar
+ * Controla el saldo de las ventas: cuotas, cobros y antigüedad de la deuda
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CuotaCobro, Cobro, CobroAplicacion, Comprobante]),
+    UserModule,
+  ],
+  controllers: [CuentasPorCobrarController],
+  providers: [CuentasPorCobrarService],
+  exports: [CuentasPorCobrarService, TypeOrmModule],
+})
+export class CuentasPorCobrarModule {}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { MedioPago } from '../enum/medio-pago.enum';
+
+/**
+ * Importe del cobro aplicado a un comprobante
+ */
+export class CobroAplicacionDto {
+  @ApiProperty({ description: 'ID del comprobante de venta', example: 10 })
+  @IsInt()
+  idComprobante: number;
+
+  @ApiProperty({
+    description: 'Importe aplicado en la moneda del comprobante',
+    example: 59,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  monto: number;
+}
+
+/**
+ * DTO para registrar un cobro a un cliente
+ */
+export class CreateCobroDto {
+  @ApiProperty({ description: 'ID del cliente', example: 3 })
+  @IsInt()
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Fecha del cobro', example: '2024-04-05' })
+  @IsDateString()
+  fecha: string;
+
+  @ApiPropertyOptional({
+    description: 'Medio de pago',
+    enum: MedioPago,
+    default: MedioPago.EFECTIVO,
+  })
+  @IsOptional()
+  @IsEnum(MedioPago)
+  medioPago?: MedioPago;
+
+  @ApiPropertyOptional({
+    description: 'Número de operación, cheque o recibo',
+    example: 'OP-004512',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  referencia?: string;
+
+  /**
+   * Comprobantes que se amortizan; todos deben ser del cliente y de la misma moneda
+   */
+  @ApiProperty({ type: [CobroAplicacionDto] })
+  @IsArray()
+  @ArrayMinSize(1, {
+    message: 'Debe aplicar el cobro al menos a un comprobante',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => CobroAplicacionDto)
+  aplicaciones: CobroAplicacionDto[];
+}
@@ -0,0 +1,15 @@
+export { RegistrarCuotasDto, CuotaDto } from './registrar-cuotas.dto';
+export { CreateCobroDto, CobroAplicacionDto } from './create-cobro.dto';
+export {
+  ResponseCobroDto,
+  ResponseCobroAplicacionDto,
+} from './response-cobro.dto';
+export {
+  ResponseSaldoComprobanteDto,
+  ResponseCuotaDto,
+} from './response-saldo-comprobante.dto';
+export {
+  ResponseAntiguedadSaldosDto,
+  AntiguedadClienteDto,
+  TramosAntiguedadDto,
+} from './response-antiguedad-saldos.dto';
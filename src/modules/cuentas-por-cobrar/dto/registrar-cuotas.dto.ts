@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsNumber,
+  IsPositive,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Cuota del cronograma de pago
+ */
+export class CuotaDto {
+  @ApiProperty({
+    description: 'Fecha de vencimiento de la cuota',
+    example: '2024-04-05',
+  })
+  @IsDateString()
+  fechaVencimiento: string;
+
+  @ApiProperty({
+    description: 'Importe de la cuota en la moneda del comprobante',
+    example: 59,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  monto: number;
+}
+
+/**
+ * DTO para definir el cronograma de cuotas de una venta al crédito
+ */
+export class RegistrarCuotasDto {
+  /**
+   * Cuotas en orden de vencimiento; deben sumar el total del comprobante
+   */
+  @ApiProperty({ type: [CuotaDto] })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Debe indicar al menos una cuota' })
+  @ValidateNested({ each: true })
+  @Type(() => CuotaDto)
+  cuotas: CuotaDto[];
+}
@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Saldos por tramo de días vencidos
+ */
+export class TramosAntiguedadDto {
+  @ApiProperty({ description: 'Saldo aún no vencido', example: 100 })
+  porVencer: number;
+
+  @ApiProperty({ description: 'Vencido hace 0 a 30 días', example: 50 })
+  dias0a30: number;
+
+  @ApiProperty({ description: 'Vencido hace 31 a 60 días', example: 0 })
+  dias31a60: number;
+
+  @ApiProperty({ description: 'Vencido hace 61 a 90 días', example: 0 })
+  dias61a90: number;
+
+  @ApiProperty({ description: 'Vencido hace más de 90 días', example: 0 })
+  mas90: number;
+
+  @ApiProperty({ description: 'Saldo total', example: 150 })
+  total: number;
+}
+
+/**
+ * Antigüedad de la deuda de un cliente
+ */
+export class AntiguedadClienteDto extends TramosAntiguedadDto {
+  @ApiProperty({ description: 'ID del cliente', example: 3 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Número de documento', example: '20999999999' })
+  numeroDocumento: string;
+
+  @ApiProperty({ description: 'Nombre o razón social' })
+  cliente: string;
+}
+
+/**
+ * DTO de respuesta del reporte de antigüedad de cuentas por cobrar
+ */
+export class ResponseAntiguedadSaldosDto {
+  @ApiProperty({ description: 'Fecha de corte', example: '2024-04-30' })
+  fechaCorte: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({ type: [AntiguedadClienteDto] })
+  clientes: AntiguedadClienteDto[];
+
+  @ApiProperty({ type: TramosAntiguedadDto })
+  totales: TramosAntiguedadDto;
+}
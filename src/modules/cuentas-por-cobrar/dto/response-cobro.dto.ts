@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MedioPago } from '../enum/medio-pago.enum';
+
+/**
+ * Aplicación de un cobro a un comprobante
+ */
+export class ResponseCobroAplicacionDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 10 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F001-123' })
+  comprobante: string;
+
+  @ApiProperty({ description: 'Importe aplicado', example: 59 })
+  monto: number;
+}
+
+/**
+ * DTO de respuesta de un cobro
+ */
+export class ResponseCobroDto {
+  @ApiProperty({ description: 'ID del cobro', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Fecha del cobro', example: '2024-04-05' })
+  fecha: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({ description: 'Importe cobrado', example: 59 })
+  monto: number;
+
+  @ApiProperty({ enum: MedioPago })
+  medioPago: MedioPago;
+
+  @ApiProperty({ description: 'Referencia', nullable: true })
+  referencia: string | null;
+
+  @ApiProperty({ description: 'ID del cliente', example: 3 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Nombre o razón social del cliente' })
+  cliente: string;
+
+  @ApiProperty({ type: [ResponseCobroAplicacionDto] })
+  aplicaciones: ResponseCobroAplicacionDto[];
+}
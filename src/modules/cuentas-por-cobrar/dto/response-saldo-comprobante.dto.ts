@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Estado de una cuota del cronograma
+ */
+export class ResponseCuotaDto {
+  @ApiProperty({ description: 'Número de cuota', example: 1 })
+  numero: number;
+
+  @ApiProperty({ description: 'Vencimiento', example: '2024-04-05' })
+  fechaVencimiento: string;
+
+  @ApiProperty({ description: 'Importe de la cuota', example: 59 })
+  monto: number;
+
+  @ApiProperty({ description: 'Importe ya cubierto', example: 59 })
+  pagado: number;
+
+  @ApiProperty({ description: 'Importe por cobrar', example: 0 })
+  pendiente: number;
+}
+
+/**
+ * DTO de respuesta con el saldo por cobrar de una venta
+ */
+export class ResponseSaldoComprobanteDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 10 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F001-123' })
+  comprobante: string;
+
+  @ApiProperty({ description: 'Fecha de emisión', example: '2024-03-05' })
+  fechaEmision: string;
+
+  @ApiProperty({ description: 'ID del cliente', nullable: true })
+  idEntidad: number | null;
+
+  @ApiProperty({ description: 'Nombre o razón social del cliente' })
+  cliente: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({
+    description: 'Tipo de cambio del comprobante',
+    nullable: true,
+    example: 3.75,
+  })
+  tipoCambio: number | null;
+
+  @ApiProperty({ description: 'Total del comprobante', example: 118 })
+  total: number;
+
+  @ApiProperty({
+    description: 'Total de notas de crédito emitidas contra la venta',
+    example: 0,
+  })
+  notasCredito: number;
+
+  @ApiProperty({
+    description: 'Total de notas de débito emitidas contra la venta',
+    example: 0,
+  })
+  notasDebito: number;
+
+  @ApiProperty({ description: 'Total cobrado', example: 59 })
+  cobrado: number;
+
+  @ApiProperty({ description: 'Saldo por cobrar', example: 59 })
+  saldo: number;
+
+  @ApiProperty({ type: [ResponseCuotaDto] })
+  cuotas: ResponseCuotaDto[];
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Cobro } from './cobro.entity';
+
+/**
+ * Parte de un cobro aplicada a un comprobante de venta
+ */
+@Entity('cobro_aplicacion')
+export class CobroAplicacion {
+  /**
+   * Identificador único de la aplicación
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Cobro al que pertenece
+   */
+  @ManyToOne(() => Cobro, (cobro) => cobro.aplicaciones, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_cobro' })
+  cobro: Cobro;
+
+  /**
+   * Comprobante de venta que se amortiza
+   */
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Importe aplicado en la moneda del comprobante
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  monto: number;
+}
@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MedioPago } from '../enum/medio-pago.enum';
+import { CobroAplicacion } from './cobro-aplicacion.entity';
+
+/**
+ * Dinero recibido de un cliente
+ * Se aplica contra uno o más comprobantes de venta pendientes
+ */
+@Entity('cobro')
+export class Cobro {
+  /**
+   * Identificador único del cobro
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Fecha en que se recibió el dinero
+   */
+  @Column({ type: 'date', nullable: false })
+  fecha: string;
+
+  /**
+   * Moneda del cobro (la de los comprobantes a los que se aplica)
+   */
+  @Column({ type: 'enum', enum: Moneda, nullable: false })
+  moneda: Moneda;
+
+  /**
+   * Importe total cobrado (suma de las aplicaciones)
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  monto: number;
+
+  /**
+   * Medio de pago utilizado
+   */
+  @Column({ type: 'enum', enum: MedioPago, default: MedioPago.EFECTIVO })
+  medioPago: MedioPago;
+
+  /**
+   * Número de operación, cheque o recibo
+   */
+  @Column({ length: 100, nullable: true })
+  referencia?: string | null;
+
+  /**
+   * Cliente que realizó el pago
+   */
+  @ManyToOne(() => Entidad, { nullable: false })
+  @JoinColumn({ name: 'id_entidad' })
+  entidad: Entidad;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Importes aplicados a cada comprobante
+   */
+  @OneToMany(() => CobroAplicacion, (aplicacion) => aplicacion.cobro, {
+    cascade: true,
+  })
+  aplicaciones: CobroAplicacion[];
+
+  /**
+   * Fecha de registro
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+
+/**
+ * Cuota del cronograma de pago de una venta al crédito
+ * La suma de las cuotas es igual al total del comprobante
+ */
+@Entity('cuota_cobro')
+@Index(['comprobante', 'numero'], { unique: true })
+export class CuotaCobro {
+  /**
+   * Identificador único de la cuota
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Comprobante de venta al que pertenece la cuota
+   */
+  @ManyToOne(() => Comprobante, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Número de la cuota (1, 2, 3...)
+   */
+  @Column({ type: 'int', nullable: false })
+  numero: number;
+
+  /**
+   * Fecha en que vence la cuota
+   */
+  @Column({ type: 'date', nullable: false })
+  fechaVencimiento: string;
+
+  /**
+   * Importe de la cuota en la moneda del comprobante
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  monto: number;
+}
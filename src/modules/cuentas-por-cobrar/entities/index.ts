@@ -0,0 +1,3 @@
+export { CuotaCobro } from './cuota-cobro.entity';
+export { Cobro } from './cobro.entity';
+export { CobroAplicacion } from './cobro-aplicacion.entity';
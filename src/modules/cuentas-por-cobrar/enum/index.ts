@@ -0,0 +1 @@
+export { MedioPago } from './medio-pago.enum';
@@ -0,0 +1,11 @@
+/**
+ * Medio con el que se recibe o se entrega un pago
+ */
+export enum MedioPago {
+  EFECTIVO = 'EFECTIVO',
+  TRANSFERENCIA = 'TRANSFERENCIA',
+  DEPOSITO = 'DEPOSITO',
+  TARJETA = 'TARJETA',
+  CHEQUE = 'CHEQUE',
+  OTRO = 'OTRO',
+}
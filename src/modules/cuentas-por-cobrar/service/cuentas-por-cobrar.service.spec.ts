@@ -0,0 +1,231 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { CuentasPorCobrarService } from './cuentas-por-cobrar.service';
+import { Cobro, CobroAplicacion } from '../entities';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Tests unitarios para CuentasPorCobrarService
+ * Verifica la cobertura de cuotas, el saldo neto de notas, la aplicación de cobros y los tramos de antigüedad
+ */
+describe('CuentasPorCobrarService', () => {
+  const service = new CuentasPorCobrarService(
+    {} as Repository<Comprobante>,
+    {} as Repository<Cobro>,
+    {} as DataSource,
+  );
+
+  describe('distribuirCuotas', () => {
+    const cuotas = [
+      { numero: 2, fechaVencimiento: '2024-05-05', monto: 59 },
+      { numero: 1, fechaVencimiento: '2024-04-05', monto: 59 },
+    ];
+
+    it('should cover the oldest installment first on partial payments', () => {
+      const resultado = service.distribuirCuotas(
+        cuotas,
+        { fechaVencimiento: '2024-05-05', total: 118 },
+        70,
+        0,
+      );
+
+      expect(resultado).toEqual([
+        {
+          numero: 1,
+          fechaVencimiento: '2024-04-05',
+          monto: 59,
+          pagado: 59,
+          pendiente: 0,
+        },
+        {
+          numero: 2,
+          fechaVencimiento: '2024-05-05',
+          monto: 59,
+          pagado: 11,
+          pendiente: 48,
+        },
+      ]);
+    });
+
+    it('should use a single installment when there is no schedule', () => {
+      const resultado = service.distribuirCuotas(
+        [],
+        { fechaVencimiento: '2024-03-05', total: 118 },
+        18,
+        10,
+      );
+
+      expect(resultado).toHaveLength(1);
+      expect(resultado[0].monto).toBe(128);
+      expect(resultado[0].pendiente).toBe(110);
+    });
+  });
+
+  describe('clasificarAntiguedad', () => {
+    it.each([
+      ['2024-05-01', 'porVencer'],
+      ['2024-04-30', 'dias0a30'],
+      ['2024-03-31', 'dias0a30'],
+      ['2024-03-30', 'dias31a60'],
+      ['2024-01-31', 'dias61a90'],
+      ['2024-01-30', 'mas90'],
+    ])('should place a due date of %s in %s', (vencimiento, tramo) => {
+      expect(service.clasificarAntiguedad(vencimiento, '2024-04-30')).toBe(
+        tramo,
+      );
+    });
+  });
+
+  describe('saldos y cobros', () => {
+    let save: jest.Mock;
+    let servicio: CuentasPorCobrarService;
+
+    const venta = {
+      idComprobante: 10,
+      serie: 'F001',
+      numero: '1',
+      fechaEmision: '2024-03-05',
+      fechaVencimiento: null,
+      moneda: Moneda.PEN,
+      tipoCambio: null,
+      totales: { totalGeneral: '1180.00' },
+      entidad: { id: 7, nombreCompletoMostrado: 'CLIENTE SAC' },
+    };
+
+    const consulta = (resultado: unknown[]) => {
+      const query: Record<string, jest.Mock> = {};
+      for (const metodo of [
+        'leftJoinAndSelect',
+        'innerJoinAndSelect',
+        'innerJoin',
+        'select',
+        'addSelect',
+        'where',
+        'andWhere',
+        'groupBy',
+        'addGroupBy',
+        'orderBy',
+        'addOrderBy',
+        'setLock',
+      ]) {
+        query[metodo] = jest.fn(() => query);
+      }
+      query.getMany = jest.fn(() => Promise.resolve(resultado));
+      query.getRawMany = jest.fn(() => Promise.resolve(resultado));
+      return query;
+    };
+
+    beforeEach(() => {
+      save = jest.fn(() => Promise.resolve({ id: 50 }));
+      const comprobantes = {
+        createQueryBuilder: jest.fn((alias: string) =>
+          alias === 'nota'
+            ? // Nota de crédito de 118 sobre la venta
+              consulta([{ idComprobante: 10, tipo: '07', total: '118.00' }])
+            : consulta([venta]),
+        ),
+      };
+      const manager = {
+        getRepository: jest.fn((entidad: unknown) =>
+          entidad === CobroAplicacion
+            ? {
+                createQueryBuilder: jest.fn(() =>
+                  consulta([{ idComprobante: 10, total: '500.00' }]),
+                ),
+              }
+            : comprobantes,
+        ),
+        find: jest.fn(() =>
+          Promise.resolve([
+            {
+              numero: 1,
+              fechaVencimiento: '2024-04-05',
+              monto: '590.00',
+              comprobante: { idComprobante: 10 },
+            },
+            {
+              numero: 2,
+              fechaVencimiento: '2024-05-05',
+              monto: '590.00',
+              comprobante: { idComprobante: 10 },
+            },
+          ]),
+        ),
+        findOne: jest.fn(() =>
+          Promise.resolve({ id: 7, esCliente: true, persona: { id: 1 } }),
+        ),
+        create: jest.fn((_entidad: unknown, datos: object) => datos),
+        save,
+      } as unknown as EntityManager;
+
+      servicio = new CuentasPorCobrarService(
+        comprobantes as unknown as Repository<Comprobante>,
+        {
+          findOne: jest.fn(() =>
+            Promise.resolve({
+              id: 50,
+              fecha: '2024-04-10',
+              moneda: Moneda.PEN,
+              monto: '300.00',
+              entidad: venta.entidad,
+              aplicaciones: [],
+            }),
+          ),
+        } as unknown as Repository<Cobro>,
+        {
+          manager,
+          transaction: jest.fn(
+            (ejecutar: (transaccion: EntityManager) => Promise<unknown>) =>
+              ejecutar(manager),
+          ),
+        } as unknown as DataSource,
+      );
+    });
+
+    it('should net credit notes and cobros against the invoice installments', async () => {
+      const saldo = await servicio.obtenerSaldo(10, 1);
+
+      expect(saldo.notasCredito).toBe(118);
+      expect(saldo.cobrado).toBe(500);
+      expect(saldo.saldo).toBe(562);
+      expect(
+        saldo.cuotas.map(({ pagado, pendiente }) => [pagado, pendiente]),
+      ).toEqual([
+        [590, 0],
+        [28, 562],
+      ]);
+    });
+
+    it('should apply a cobro to the invoice within its balance', async () => {
+      await servicio.registrarCobro(1, {
+        idEntidad: 7,
+        fecha: '2024-04-10',
+        aplicaciones: [{ idComprobante: 10, monto: 300 }],
+      });
+
+      expect(save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          moneda: Moneda.PEN,
+          monto: 300,
+          aplicaciones: [{ comprobante: { idComprobante: 10 }, monto: 300 }],
+        }),
+      );
+    });
+
+    it('should reject a cobro above the balance net of credit notes', async () => {
+      await expect(
+        servicio.registrarCobro(1, {
+          idEntidad: 7,
+          fecha: '2024-04-10',
+          aplicaciones: [{ idComprobante: 10, monto: 600 }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'El comprobante F001-1 tiene un saldo de 562.00',
+        ),
+      );
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
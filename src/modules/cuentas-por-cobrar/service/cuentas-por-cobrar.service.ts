@@ -0,0 +1,584 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Cobro, CobroAplicacion, CuotaCobro } from '../entities';
+import { MedioPago } from '../enum';
+import {
+  AntiguedadClienteDto,
+  CreateCobroDto,
+  RegistrarCuotasDto,
+  ResponseAntiguedadSaldosDto,
+  ResponseCobroDto,
+  ResponseCuotaDto,
+  ResponseSaldoComprobanteDto,
+  TramosAntiguedadDto,
+} from '../dto';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import {
+  bloquearComprobantes,
+  calcularImportesSaldo,
+  idsAplicados,
+  validarAplicaciones,
+  type TextosAplicacion,
+} from './saldo-comprobantes';
+
+/**
+ * Filtros para consultar las ventas por cobrar
+ */
+interface FiltroVentas {
+  ids?: number[];
+  idEntidad?: number;
+  moneda?: Moneda;
+  hasta?: string;
+}
+
+const TEXTOS_COBRO: TextosAplicacion = {
+  operacion: 'cobro',
+  comprobante: 'Venta',
+  contraparte: 'cliente',
+};
+
+/**
+ * Servicio de cuentas por cobrar
+ * El saldo de una venta es su total más notas de débito, menos notas de crédito y cobros aplicados
+ */
+@Injectable()
+export class CuentasPorCobrarService {
+  private readonly logger = new Logger(CuentasPorCobrarService.name);
+
+  constructor(
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    @InjectRepository(Cobro)
+    private readonly cobroRepository: Repository<Cobro>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Define (o reemplaza) el cronograma de cuotas de una venta al crédito
+   * Las cuotas deben sumar el total del comprobante; el vencimiento del comprobante pasa a ser el de la última cuota
+   * @param idComprobante - ID del comprobante de venta
+   * @param personaId - ID de la empresa
+   * @param dto - Cuotas del cronograma
+   */
+  async registrarCuotas(
+    idComprobante: number,
+    personaId: number,
+    dto: RegistrarCuotasDto,
+  ): Promise<ResponseSaldoComprobanteDto> {
+    const cuotas = [...dto.cuotas].sort((a, b) =>
+      a.fechaVencimiento.localeCompare(b.fechaVencimiento),
+    );
+
+    await this.dataSource.transaction(async (manager) => {
+      const [venta] = await this.consultarVentas(
+        personaId,
+        { ids: [idComprobante] },
+        manager,
+      );
+      if (!venta) {
+        throw new NotFoundException(
+          `Venta con ID ${idComprobante} no encontrada`,
+        );
+      }
+
+      const total = Number(venta.totales?.totalGeneral ?? 0);
+      const suma = this.redondear(
+        cuotas.reduce((acc, cuota) => acc + cuota.monto, 0),
+      );
+      if (Math.abs(suma - total) > 0.005) {
+        throw new BadRequestException(
+          `Las cuotas suman ${suma.toFixed(2)} y el comprobante ${total.toFixed(2)}`,
+        );
+      }
+      if (
+        cuotas[0].fechaVencimiento.slice(0, 10) <
+        this.aFecha(venta.fechaEmision)
+      ) {
+        throw new BadRequestException(
+          'Las cuotas no pueden vencer antes de la emisión del comprobante',
+        );
+      }
+
+      await manager.delete(CuotaCobro, { comprobante: { idComprobante } });
+      await manager.save(
+        CuotaCobro,
+        cuotas.map((cuota, indice) =>
+          manager.create(CuotaCobro, {
+            comprobante: { idComprobante },
+            numero: indice + 1,
+            fechaVencimiento: cuota.fechaVencimiento.slice(0, 10),
+            monto: this.redondear(cuota.monto),
+          }),
+        ),
+      );
+      const ultima = cuotas[cuotas.length - 1].fechaVencimiento.slice(0, 10);
+      await manager.update(Comprobante, idComprobante, {
+        fechaVencimiento: new Date(`${ultima}T00:00:00`),
+      });
+    });
+
+    return this.obtenerSaldo(idComprobante, personaId);
+  }
+
+  /**
+   * Obtiene el saldo por cobrar de una venta con el estado de sus cuotas
+   * @param idComprobante - ID del comprobante de venta
+   * @param personaId - ID de la empresa
+   */
+  async obtenerSaldo(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<ResponseSaldoComprobanteDto> {
+    const ventas = await this.consultarVentas(personaId, {
+      ids: [idComprobante],
+    });
+    if (ventas.length === 0) {
+      throw new NotFoundException(
+        `Venta con ID ${idComprobante} no encontrada`,
+      );
+    }
+    const [estado] = await this.calcularEstados(ventas);
+    return estado;
+  }
+
+  /**
+   * Lista las ventas con saldo pendiente
+   * @param personaId - ID de la empresa
+   * @param idEntidad - Cliente (opcional)
+   */
+  async listarPendientes(
+    personaId: number,
+    idEntidad?: number,
+  ): Promise<ResponseSaldoComprobanteDto[]> {
+    const ventas = await this.consultarVentas(personaId, { idEntidad });
+    const estados = await this.calcularEstados(ventas);
+    return estados.filter((estado) => estado.saldo > 0);
+  }
+
+  /**
+   * Ventas con saldo pendiente a una fecha de corte en una moneda
+   * Solo considera notas y cobros hasta esa fecha
+   * @param personaId - ID de la empresa
+   * @param fechaCorte - Fecha de corte (YYYY-MM-DD)
+   * @param moneda - Moneda de los comprobantes
+   */
+  async listarSaldosAl(
+    personaId: number,
+    fechaCorte: string,
+    moneda: Moneda,
+  ): Promise<ResponseSaldoComprobanteDto[]> {
+    const corte = fechaCorte.slice(0, 10);
+    const ventas = await this.consultarVentas(personaId, {
+      moneda,
+      hasta: corte,
+    });
+    const estados = await this.calcularEstados(ventas, corte);
+    return estados.filter((estado) => estado.saldo > 0);
+  }
+
+  /**
+   * Registra un cobro y lo aplica a los comprobantes indicados
+   * Los comprobantes se bloquean durante el registro para no cobrar dos veces el mismo saldo
+   * @param personaId - ID de la empresa
+   * @param dto - Datos del cobro
+   */
+  async registrarCobro(
+    personaId: number,
+    dto: CreateCobroDto,
+  ): Promise<ResponseCobroDto> {
+    const ids = idsAplicados(dto.aplicaciones, TEXTOS_COBRO);
+
+    const idCobro = await this.dataSource.transaction(async (manager) => {
+      const entidad = await manager.findOne(Entidad, {
+        where: { id: dto.idEntidad, persona: { id: personaId } },
+      });
+      if (!entidad) {
+        throw new NotFoundException(
+          `Cliente con ID ${dto.idEntidad} no encontrado`,
+        );
+      }
+      if (!entidad.esCliente) {
+        throw new BadRequestException(
+          'La entidad no está registrada como cliente',
+        );
+      }
+
+      await bloquearComprobantes(manager, ids);
+
+      const ventas = await this.consultarVentas(personaId, { ids }, manager);
+      const estados = new Map(
+        (await this.calcularEstados(ventas, undefined, manager)).map(
+          (estado) => [estado.idComprobante, estado],
+        ),
+      );
+      const moneda = validarAplicaciones(
+        dto.aplicaciones,
+        estados,
+        entidad.id,
+        TEXTOS_COBRO,
+      );
+
+      const cobro = manager.create(Cobro, {
+        persona: { id: personaId },
+        entidad,
+        fecha: dto.fecha.slice(0, 10),
+        moneda: moneda ?? Moneda.PEN,
+        monto: this.redondear(
+          dto.aplicaciones.reduce((acc, item) => acc + item.monto, 0),
+        ),
+        medioPago: dto.medioPago ?? MedioPago.EFECTIVO,
+        referencia: dto.referencia ?? null,
+        aplicaciones: dto.aplicaciones.map((aplicacion) =>
+          manager.create(CobroAplicacion, {
+            comprobante: { idComprobante: aplicacion.idComprobante },
+            monto: this.redondear(aplicacion.monto),
+          }),
+        ),
+      });
+      const guardado = await manager.save(cobro);
+      return guardado.id;
+    });
+
+    this.logger.log(`Cobro ${idCobro} registrado para la empresa ${personaId}`);
+    return this.obtenerCobro(idCobro, personaId);
+  }
+
+  /**
+   * Lista los cobros de la empresa, opcionalmente de un cliente
+   * @param personaId - ID de la empresa
+   * @param idEntidad - Cliente (opcional)
+   */
+  async listarCobros(
+    personaId: number,
+    idEntidad?: number,
+  ): Promise<ResponseCobroDto[]> {
+    const cobros = await this.cobroRepository.find({
+      where: {
+        persona: { id: personaId },
+        ...(idEntidad ? { entidad: { id: idEntidad } } : {}),
+      },
+      relations: ['entidad', 'aplicaciones', 'aplicaciones.comprobante'],
+      order: { fecha: 'DESC', id: 'DESC' },
+    });
+    return cobros.map((cobro) => this.mapearCobro(cobro));
+  }
+
+  /**
+   * Obtiene un cobro con sus aplicaciones
+   * @param id - ID del cobro
+   * @param personaId - ID de la empresa
+   */
+  async obtenerCobro(id: number, personaId: number): Promise<ResponseCobroDto> {
+    const cobro = await this.cobroRepository.findOne({
+      where: { id, persona: { id: personaId } },
+      relations: ['entidad', 'aplicaciones', 'aplicaciones.comprobante'],
+    });
+    if (!cobro) {
+      throw new NotFoundException(`Cobro con ID ${id} no encontrado`);
+    }
+    return this.mapearCobro(cobro);
+  }
+
+  /**
+   * Anula un cobro; los comprobantes recuperan el saldo que amortizaba
+   * @param id - ID del cobro
+   * @param personaId - ID de la empresa
+   */
+  async anularCobro(id: number, personaId: number): Promise<void> {
+    const cobro = await this.cobroRepository.findOne({
+      where: { id, persona: { id: personaId } },
+    });
+    if (!cobro) {
+      throw new NotFoundException(`Cobro con ID ${id} no encontrado`);
+    }
+    await this.cobroRepository.delete(cobro.id);
+    this.logger.log(`Cobro ${id} anulado`);
+  }
+
+  /**
+   * Reporte de antigüedad de saldos por cliente a una fecha de corte
+   * Cada cuota pendiente se ubica según los días transcurridos desde su vencimiento
+   * @param personaId - ID de la empresa
+   * @param fechaCorte - Fecha de corte (YYYY-MM-DD)
+   * @param moneda - Moneda de los comprobantes a considerar
+   */
+  async antiguedadSaldos(
+    personaId: number,
+    fechaCorte: string,
+    moneda: Moneda,
+  ): Promise<ResponseAntiguedadSaldosDto> {
+    const corte = fechaCorte.slice(0, 10);
+    const ventas = (
+      await this.consultarVentas(personaId, { moneda, hasta: corte })
+    ).filter((venta) => venta.entidad?.esCliente);
+    const estados = await this.calcularEstados(ventas, corte);
+
+    const porCliente = new Map<number, AntiguedadClienteDto>();
+    const totales = this.tramosVacios();
+
+    for (const estado of estados) {
+      if (estado.saldo <= 0 || estado.idEntidad === null) {
+        continue;
+      }
+      const venta = ventas.find(
+        (item) => item.idComprobante === estado.idComprobante,
+      )!;
+      const fila =
+        porCliente.get(estado.idEntidad) ??
+        Object.assign(this.tramosVacios(), {
+          idEntidad: estado.idEntidad,
+          numeroDocumento: venta.entidad.numeroDocumento,
+          cliente: estado.cliente,
+        });
+      porCliente.set(estado.idEntidad, fila);
+
+      for (const cuota of estado.cuotas) {
+        if (cuota.pendiente <= 0) {
+          continue;
+        }
+        const tramo = this.clasificarAntiguedad(cuota.fechaVencimiento, corte);
+        fila[tramo] = this.redondear(fila[tramo] + cuota.pendiente);
+        fila.total = this.redondear(fila.total + cuota.pendiente);
+        totales[tramo] = this.redondear(totales[tramo] + cuota.pendiente);
+        totales.total = this.redondear(totales.total + cuota.pendiente);
+      }
+    }
+
+    return {
+      fechaCorte: corte,
+      moneda,
+      clientes: [...porCliente.values()].sort((a, b) => b.total - a.total),
+      totales,
+    };
+  }
+
+  /**
+   * Ubica un vencimiento en su tramo de antigüedad respecto a la fecha de corte
+   * @param fechaVencimiento - Vencimiento (YYYY-MM-DD)
+   * @param fechaCorte - Fecha de corte (YYYY-MM-DD)
+   */
+  clasificarAntiguedad(
+    fechaVencimiento: string,
+    fechaCorte: string,
+  ): Exclude<keyof TramosAntiguedadDto, 'total'> {
+    const dias = Math.round(
+      (Date.parse(`${fechaCorte}T00:00:00Z`) -
+        Date.parse(`${fechaVencimiento}T00:00:00Z`)) /
+        86400000,
+    );
+    if (dias < 0) return 'porVencer';
+    if (dias <= 30) return 'dias0a30';
+    if (dias <= 60) return 'dias31a60';
+    if (dias <= 90) return 'dias61a90';
+    return 'mas90';
+  }
+
+  /**
+   * Reparte lo amortizado entre las cuotas, de la más antigua a la más reciente
+   * Sin cronograma, la venta completa vence en su fecha de vencimiento (o de emisión)
+   * @param cuotas - Cuotas registradas (vacío si no hay cronograma)
+   * @param venta - Vencimiento y total por defecto
+   * @param amortizado - Cobros más notas de crédito
+   * @param notasDebito - Se suman a la última cuota
+   */
+  distribuirCuotas(
+    cuotas: Pick<CuotaCobro, 'numero' | 'fechaVencimiento' | 'monto'>[],
+    venta: { fechaVencimiento: string; total: number },
+    amortizado: number,
+    notasDebito: number,
+  ): ResponseCuotaDto[] {
+    const cronograma =
+      cuotas.length > 0
+        ? [...cuotas]
+            .sort((a, b) => a.numero - b.numero)
+            .map((cuota) => ({
+              numero: cuota.numero,
+              fechaVencimiento: this.aFecha(cuota.fechaVencimiento),
+              monto: Number(cuota.monto),
+            }))
+        : [
+            {
+              numero: 1,
+              fechaVencimiento: venta.fechaVencimiento,
+              monto: venta.total,
+            },
+          ];
+    cronograma[cronograma.length - 1].monto += notasDebito;
+
+    let disponible = amortizado;
+    return cronograma.map((cuota) => {
+      const monto = this.redondear(cuota.monto);
+      const pagado = this.redondear(Math.max(0, Math.min(monto, disponible)));
+      disponible -= pagado;
+      return {
+        ...cuota,
+        monto,
+        pagado,
+        pendiente: this.redondear(monto - pagado),
+      };
+    });
+  }
+
+  /**
+   * Ventas (facturas y boletas, sin notas) de la empresa
+   */
+  private async consultarVentas(
+    personaId: number,
+    filtro: FiltroVentas,
+    manager?: EntityManager,
+  ): Promise<Comprobante[]> {
+    const repository = manager
+      ? manager.getRepository(Comprobante)
+      : this.comprobanteRepository;
+
+    const query = repository
+      .createQueryBuilder('comprobante')
+      .leftJoinAndSelect('comprobante.totales', 'totales')
+      .leftJoinAndSelect('comprobante.entidad', 'entidad')
+      .innerJoinAndSelect('comprobante.tipoOperacion', 'tipoOperacion')
+      .innerJoinAndSelect('comprobante.tipoComprobante', 'tipoComprobante')
+      .where('comprobante.id_persona = :personaId', { personaId })
+      .andWhere('tipoOperacion.codigo = :venta', { venta: '01' })
+      .andWhere('tipoComprobante.codigo NOT IN (:...notas)', {
+        notas: ['07', '08'],
+      });
+
+    if (filtro.ids) {
+      query.andWhere('comprobante.idComprobante IN (:...ids)', {
+        ids: filtro.ids,
+      });
+    }
+    if (filtro.idEntidad) {
+      query.andWhere('entidad.id = :idEntidad', {
+        idEntidad: filtro.idEntidad,
+      });
+    }
+    if (filtro.moneda) {
+      query.andWhere('comprobante.moneda = :moneda', { moneda: filtro.moneda });
+    }
+    if (filtro.hasta) {
+      query.andWhere('DATE(comprobante.fechaEmision) <= :hasta', {
+        hasta: filtro.hasta,
+      });
+    }
+
+    return query
+      .orderBy('comprobante.fechaEmision', 'ASC')
+      .addOrderBy('comprobante.idComprobante', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Calcula el saldo y las cuotas de cada venta
+   * @param hasta - Considera solo notas y cobros hasta esta fecha (YYYY-MM-DD)
+   */
+  private async calcularEstados(
+    ventas: Comprobante[],
+    hasta?: string,
+    manager?: EntityManager,
+  ): Promise<ResponseSaldoComprobanteDto[]> {
+    if (ventas.length === 0) {
+      return [];
+    }
+    const ejecutor = manager ?? this.dataSource.manager;
+    const ids = ventas.map((venta) => venta.idComprobante);
+
+    const [importes, cuotas] = await Promise.all([
+      calcularImportesSaldo(
+        ejecutor,
+        ventas,
+        { entidad: CobroAplicacion, cabecera: 'cobro' },
+        hasta,
+      ),
+      ejecutor.find(CuotaCobro, {
+        where: { comprobante: { idComprobante: In(ids) } },
+        relations: ['comprobante'],
+      }),
+    ]);
+
+    return ventas.map((venta) => {
+      const id = venta.idComprobante;
+      const { total, notasCredito, notasDebito, aplicado, saldo } =
+        importes.get(id)!;
+
+      return {
+        idComprobante: id,
+        comprobante: `${venta.serie}-${venta.numero}`,
+        fechaEmision: this.aFecha(venta.fechaEmision),
+        idEntidad: venta.entidad?.id ?? null,
+        cliente: venta.entidad?.nombreCompletoMostrado ?? '',
+        moneda: venta.moneda,
+        tipoCambio: venta.tipoCambio ? Number(venta.tipoCambio) : null,
+        total,
+        notasCredito,
+        notasDebito,
+        cobrado: aplicado,
+        saldo,
+        cuotas: this.distribuirCuotas(
+          cuotas.filter((cuota) => cuota.comprobante.idComprobante === id),
+          {
+            fechaVencimiento: this.aFecha(
+              venta.fechaVencimiento ?? venta.fechaEmision,
+            ),
+            total,
+          },
+          notasCredito + aplicado,
+          notasDebito,
+        ),
+      };
+    });
+  }
+
+  private mapearCobro(cobro: Cobro): ResponseCobroDto {
+    return {
+      id: cobro.id,
+      fecha: this.aFecha(cobro.fecha),
+      moneda: cobro.moneda,
+      monto: Number(cobro.monto),
+      medioPago: cobro.medioPago,
+      referencia: cobro.referencia ?? null,
+      idEntidad: cobro.entidad.id,
+      cliente: cobro.entidad.nombreCompletoMostrado,
+      aplicaciones: (cobro.aplicaciones ?? []).map((aplicacion) => ({
+        idComprobante: aplicacion.comprobante.idComprobante,
+        comprobante: `${aplicacion.comprobante.serie}-${aplicacion.comprobante.numero}`,
+        monto: Number(aplicacion.monto),
+      })),
+    };
+  }
+
+  private tramosVacios(): TramosAntiguedadDto {
+    return {
+      porVencer: 0,
+      dias0a30: 0,
+      dias31a60: 0,
+      dias61a90: 0,
+      mas90: 0,
+      total: 0,
+    };
+  }
+
+  /**
+   * Fecha en formato YYYY-MM-DD; las columnas date llegan como texto
+   */
+  private aFecha(valor: Date | string): string {
+    if (typeof valor === 'string') {
+      return valor.slice(0, 10);
+    }
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 100) / 100;
+  }
+}
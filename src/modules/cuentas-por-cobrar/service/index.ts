@@ -0,0 +1 @@
+export { CuentasPorCobrarService } from './cuentas-por-cobrar.service';
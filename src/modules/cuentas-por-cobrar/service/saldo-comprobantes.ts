@@ -0,0 +1,211 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Importes que afectan el saldo de un comprobante por cobrar o por pagar
+ */
+export interface ImportesSaldo {
+  total: number;
+  notasCredito: number;
+  notasDebito: number;
+  aplicado: number;
+  saldo: number;
+}
+
+/**
+ * Tabla de aplicaciones (cobros o pagos) que amortizan los comprobantes
+ */
+export interface OrigenAplicaciones {
+  entidad: EntityTarget<ObjectLiteral>;
+  /** Relación de la aplicación con su cabecera: "cobro" o "pago" */
+  cabecera: string;
+}
+
+/**
+ * Saldo contra el que se valida la aplicación de un cobro o pago
+ */
+export interface SaldoAplicable {
+  comprobante: string;
+  idEntidad: number | null;
+  moneda: Moneda;
+  saldo: number;
+}
+
+/**
+ * Textos de los mensajes de validación según se cobre o se pague
+ */
+export interface TextosAplicacion {
+  operacion: 'cobro' | 'pago';
+  comprobante: 'Venta' | 'Compra';
+  contraparte: 'cliente' | 'proveedor';
+}
+
+/**
+ * Calcula el saldo de cada comprobante: total más notas de débito,
+ * menos notas de crédito y lo aplicado por cobros o pagos
+ * @param ejecutor - EntityManager (de la transacción si la hay)
+ * @param comprobantes - Comprobantes con sus totales
+ * @param origen - Tabla de aplicaciones
+ * @param hasta - Considera solo notas y aplicaciones hasta esta fecha (YYYY-MM-DD)
+ */
+export async function calcularImportesSaldo(
+  ejecutor: EntityManager,
+  comprobantes: Comprobante[],
+  origen: OrigenAplicaciones,
+  hasta?: string,
+): Promise<Map<number, ImportesSaldo>> {
+  const ids = comprobantes.map((comprobante) => comprobante.idComprobante);
+
+  const notasQuery = ejecutor
+    .getRepository(Comprobante)
+    .createQueryBuilder('nota')
+    .innerJoin('nota.comprobanteAfecto', 'afecto')
+    .innerJoin('nota.tipoComprobante', 'tipoComprobante')
+    .innerJoin('nota.totales', 'totales')
+    .select('afecto.idComprobante', 'idComprobante')
+    .addSelect('tipoComprobante.codigo', 'tipo')
+    .addSelect('SUM(totales.totalGeneral)', 'total')
+    .where('afecto.idComprobante IN (:...ids)', { ids })
+    .andWhere('tipoComprobante.codigo IN (:...notas)', {
+      notas: ['07', '08'],
+    })
+    .groupBy('afecto.idComprobante')
+    .addGroupBy('tipoComprobante.codigo');
+  if (hasta) {
+    notasQuery.andWhere('DATE(nota.fechaEmision) <= :hasta', { hasta });
+  }
+
+  const aplicadoQuery = ejecutor
+    .getRepository(origen.entidad)
+    .createQueryBuilder('aplicacion')
+    .innerJoin(`aplicacion.${origen.cabecera}`, 'cabecera')
+    .select('aplicacion.id_comprobante', 'idComprobante')
+    .addSelect('SUM(aplicacion.monto)', 'total')
+    .where('aplicacion.id_comprobante IN (:...ids)', { ids })
+    .groupBy('aplicacion.id_comprobante');
+  if (hasta) {
+    aplicadoQuery.andWhere('cabecera.fecha <= :hasta', { hasta });
+  }
+
+  const [notas, aplicados] = await Promise.all([
+    notasQuery.getRawMany<{
+      idComprobante: number;
+      tipo: string;
+      total: string;
+    }>(),
+    aplicadoQuery.getRawMany<{ idComprobante: number; total: string }>(),
+  ]);
+
+  return new Map(
+    comprobantes.map((comprobante) => {
+      const id = comprobante.idComprobante;
+      const sumaNotas = (tipo: string) =>
+        redondear(
+          notas
+            .filter(
+              (nota) => Number(nota.idComprobante) === id && nota.tipo === tipo,
+            )
+            .reduce((acc, nota) => acc + Number(nota.total), 0),
+        );
+      const total = Number(comprobante.totales?.totalGeneral ?? 0);
+      const notasCredito = sumaNotas('07');
+      const notasDebito = sumaNotas('08');
+      const aplicado = redondear(
+        Number(
+          aplicados.find((item) => Number(item.idComprobante) === id)?.total ??
+            0,
+        ),
+      );
+      return [
+        id,
+        {
+          total,
+          notasCredito,
+          notasDebito,
+          aplicado,
+          saldo: redondear(
+            Math.max(0, total + notasDebito - notasCredito - aplicado),
+          ),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Verifica que un cobro o pago no repita comprobantes
+ * @returns number[] IDs de los comprobantes aplicados
+ */
+export function idsAplicados(
+  aplicaciones: { idComprobante: number }[],
+  textos: TextosAplicacion,
+): number[] {
+  const ids = aplicaciones.map((aplicacion) => aplicacion.idComprobante);
+  if (new Set(ids).size !== ids.length) {
+    throw new BadRequestException(
+      `Un comprobante no puede aparecer dos veces en el mismo ${textos.operacion}`,
+    );
+  }
+  return ids;
+}
+
+/**
+ * Bloquea los comprobantes mientras se registra el cobro o pago
+ * para no amortizar dos veces el mismo saldo
+ */
+export async function bloquearComprobantes(
+  manager: EntityManager,
+  ids: number[],
+): Promise<void> {
+  await manager
+    .getRepository(Comprobante)
+    .createQueryBuilder('comprobante')
+    .setLock('pessimistic_write')
+    .where('comprobante.idComprobante IN (:...ids)', { ids })
+    .getMany();
+}
+
+/**
+ * Valida las aplicaciones de un cobro o pago contra los saldos de sus comprobantes
+ * Todos deben ser de la misma contraparte y moneda, sin exceder el saldo de cada uno
+ * @returns Moneda | null Moneda común de los comprobantes
+ */
+export function validarAplicaciones(
+  aplicaciones: { idComprobante: number; monto: number }[],
+  saldos: Map<number, SaldoAplicable>,
+  idEntidad: number,
+  textos: TextosAplicacion,
+): Moneda | null {
+  let moneda: Moneda | null = null;
+  for (const aplicacion of aplicaciones) {
+    const saldo = saldos.get(aplicacion.idComprobante);
+    if (!saldo) {
+      throw new NotFoundException(
+        `${textos.comprobante} con ID ${aplicacion.idComprobante} no encontrada`,
+      );
+    }
+    if (saldo.idEntidad !== idEntidad) {
+      throw new BadRequestException(
+        `El comprobante ${saldo.comprobante} no pertenece al ${textos.contraparte}`,
+      );
+    }
+    if (moneda && saldo.moneda !== moneda) {
+      throw new BadRequestException(
+        `Todos los comprobantes del ${textos.operacion} deben estar en la misma moneda`,
+      );
+    }
+    moneda = saldo.moneda;
+    if (aplicacion.monto > saldo.saldo + 0.005) {
+      throw new BadRequestException(
+        `El comprobante ${saldo.comprobante} tiene un saldo de ${saldo.saldo.toFixed(2)}`,
+      );
+    }
+  }
+  return moneda;
+}
+
+function redondear(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
@@ -0,0 +1,233 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CuentasPorPagarService } from '../service';
+import {
+  CreatePagoDto,
+  ResponsePagoDto,
+  ResponsePlanPagosDto,
+  ResponseSaldoCompraDto,
+} from '../dto';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de cuentas por pagar
+ * Saldos de compras, pagos a proveedores y plan semanal de pagos
+ */
+@ApiTags('Cuentas por Pagar')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/cuentas-por-pagar')
+export class CuentasPorPagarController {
+  constructor(
+    private readonly cuentasPorPagarService: CuentasPorPagarService,
+  ) {}
+
+  /**
+   * Listar las compras con saldo pendiente
+   */
+  @Get('pendientes')
+  @ApiOperation({
+    summary: 'Listar compras pendientes de pago',
+    description:
+      'Devuelve las compras con saldo, netas de notas de crédito, notas de débito y pagos',
+  })
+  @ApiQuery({
+    name: 'idEntidad',
+    description: 'ID del proveedor',
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Compras pendientes obtenidas exitosamente',
+    type: [ResponseSaldoCompraDto],
+  })
+  async listarPendientes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponseSaldoCompraDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorPagarService.listarPendientes(
+      user.personaId,
+      idEntidad,
+    );
+  }
+
+  /**
+   * Plan semanal de pagos por proveedor y moneda
+   */
+  @Get('plan-pagos')
+  @ApiOperation({
+    summary: 'Plan semanal de pagos',
+    description:
+      'Agrupa el saldo por pagar por proveedor y moneda según la semana de vencimiento (lunes a domingo). Lo vencido antes de la primera semana se muestra aparte',
+  })
+  @ApiQuery({
+    name: 'desde',
+    description:
+      'Fecha dentro de la primera semana (YYYY-MM-DD); por defecto hoy',
+    required: false,
+    example: '2024-04-08',
+  })
+  @ApiQuery({
+    name: 'semanas',
+    description: 'Cantidad de semanas (1-26); por defecto 4',
+    required: false,
+    example: 4,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Plan de pagos generado exitosamente',
+    type: ResponsePlanPagosDto,
+  })
+  async planPagos(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('desde') desde?: string,
+    @Query('semanas', new ParseIntPipe({ optional: true })) semanas?: number,
+  ): Promise<ResponsePlanPagosDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const hoy = new Date();
+    const inicio =
+      desde ??
+      `${hoy.getFullYear()}-${String(hoy.getMonth() + 1).padStart(2, '0')}-${String(hoy.getDate()).padStart(2, '0')}`;
+    return this.cuentasPorPagarService.planPagos(
+      user.personaId,
+      inicio,
+      Math.min(Math.max(semanas ?? 4, 1), 26),
+    );
+  }
+
+  /**
+   * Registrar un pago a proveedor
+   */
+  @Post('pagos')
+  @ApiOperation({
+    summary: 'Registrar pago',
+    description:
+      'Registra el dinero entregado a un proveedor y lo aplica a uno o más comprobantes de compra. Se admiten pagos parciales',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Pago registrado exitosamente',
+    type: ResponsePagoDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'El importe supera el saldo, o los comprobantes son de otro proveedor u otra moneda',
+  })
+  async registrarPago(
+    @Body() dto: CreatePagoDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponsePagoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorPagarService.registrarPago(user.personaId, dto);
+  }
+
+  /**
+   * Listar los pagos registrados
+   */
+  @Get('pagos')
+  @ApiOperation({ summary: 'Listar pagos a proveedores' })
+  @ApiQuery({
+    name: 'idEntidad',
+    description: 'ID del proveedor',
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pagos obtenidos exitosamente',
+    type: [ResponsePagoDto],
+  })
+  async listarPagos(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idEntidad', new ParseIntPipe({ optional: true }))
+    idEntidad?: number,
+  ): Promise<ResponsePagoDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorPagarService.listarPagos(user.personaId, idEntidad);
+  }
+
+  /**
+   * Obtener un pago
+   */
+  @Get('pagos/:id')
+  @ApiOperation({ summary: 'Obtener pago por ID' })
+  @ApiParam({ name: 'id', description: 'ID del pago' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pago encontrado',
+    type: ResponsePagoDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Pago no encontrado',
+  })
+  async obtenerPago(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponsePagoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.cuentasPorPagarService.obtenerPago(id, user.personaId);
+  }
+
+  /**
+   * Anular un pago
+   */
+  @Delete('pagos/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Anular pago',
+    description:
+      'Elimina el pago y devuelve su importe al saldo de los comprobantes',
+  })
+  @ApiParam({ name: 'id', description: 'ID del pago' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Pago anulado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Pago no encontrado',
+  })
+  async anularPago(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    await this.cuentasPorPagarService.anularPago(id, user.personaId);
+  }
+}
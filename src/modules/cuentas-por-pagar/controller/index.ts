@@ -0,0 +1 @@
+export { CuentasPorPagarController } from './cuentas-por-pagar.controller';
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Pago, PagoAplicacion } from './entities';
+import { CuentasPorPagarService } from './service';
+import { CuentasPorPagarController } from './controller';
+import { Comprobante } from '../comprobantes/entities/comprobante';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de cuentas por pagar
+ * Controla lo que se debe a cada proveedor y la programación de sus pagos
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Pago, PagoAplicacion, Comprobante]),
+    UserModule,
+  ],
+  controllers: [CuentasPorPagarController],
+  providers: [CuentasPorPagarService],
+  exports: [CuentasPorPagarService, TypeOrmModule],
+})
+export class CuentasPorPagarModule {}
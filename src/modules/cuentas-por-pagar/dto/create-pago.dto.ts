@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { MedioPago } from '../../cuentas-por-cobrar/enum/medio-pago.enum';
+
+/**
+ * Importe del pago aplicado a un comprobante de compra
+ */
+export class PagoAplicacionDto {
+  @ApiProperty({ description: 'ID del comprobante de compra', example: 25 })
+  @IsInt()
+  idComprobante: number;
+
+  @ApiProperty({
+    description: 'Importe aplicado en la moneda del comprobante',
+    example: 500,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  monto: number;
+}
+
+/**
+ * DTO para registrar un pago a un proveedor
+ */
+export class CreatePagoDto {
+  @ApiProperty({ description: 'ID del proveedor', example: 7 })
+  @IsInt()
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Fecha del pago', example: '2024-04-10' })
+  @IsDateString()
+  fecha: string;
+
+  @ApiPropertyOptional({
+    description: 'Medio de pago',
+    enum: MedioPago,
+    default: MedioPago.TRANSFERENCIA,
+  })
+  @IsOptional()
+  @IsEnum(MedioPago)
+  medioPago?: MedioPago;
+
+  @ApiPropertyOptional({
+    description: 'Número de operación o de cheque',
+    example: 'TRF-88123',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  referencia?: string;
+
+  /**
+   * Comprobantes que se cancelan; todos deben ser del proveedor y de la misma moneda
+   */
+  @ApiProperty({ type: [PagoAplicacionDto] })
+  @IsArray()
+  @ArrayMinSize(1, {
+    message: 'Debe aplicar el pago al menos a un comprobante',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => PagoAplicacionDto)
+  aplicaciones: PagoAplicacionDto[];
+}
@@ -0,0 +1,16 @@
+export { CreatePagoDto, PagoAplicacionDto } from './create-pago.dto';
+export {
+  ResponsePagoDto,
+  ResponsePagoAplicacionDto,
+} from './response-pago.dto';
+export { ResponseSaldoCompraDto } from './response-saldo-compra.dto';
+export {
+  ResponsePlanPagosDto,
+  PlanPagosProveedorDto,
+  ImportesPlanPagosDto,
+  SemanaPlanPagosDto,
+} from './response-plan-pagos.dto';
+export {
+  ResponseEstadoCuentaProveedorDto,
+  MovimientoEstadoCuentaDto,
+} from './response-estado-cuenta-proveedor.dto';
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { TipoMovimientoCuenta } from '../enum/tipo-movimiento-cuenta.enum';
+
+/**
+ * Movimiento del estado de cuenta
+ * El haber aumenta la deuda con el proveedor y el debe la disminuye
+ */
+export class MovimientoEstadoCuentaDto {
+  @ApiProperty({ description: 'Fecha del movimiento', example: '2024-03-12' })
+  fecha: string;
+
+  @ApiProperty({ enum: TipoMovimientoCuenta })
+  tipo: TipoMovimientoCuenta;
+
+  @ApiProperty({ description: 'Documento', example: 'F002-4581' })
+  documento: string;
+
+  @ApiProperty({ description: 'ID del comprobante', nullable: true })
+  idComprobante: number | null;
+
+  @ApiProperty({ description: 'ID del pago', nullable: true })
+  idPago: number | null;
+
+  @ApiProperty({ description: 'Pagos y notas de crédito', example: 0 })
+  debe: number;
+
+  @ApiProperty({ description: 'Comprobantes y notas de débito', example: 1180 })
+  haber: number;
+
+  @ApiProperty({ description: 'Saldo acumulado', example: 1180 })
+  saldo: number;
+}
+
+/**
+ * DTO de respuesta del estado de cuenta de un proveedor
+ */
+export class ResponseEstadoCuentaProveedorDto {
+  @ApiProperty({ description: 'ID del proveedor', example: 7 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Número de documento', example: '20555555555' })
+  numeroDocumento: string;
+
+  @ApiProperty({ description: 'Nombre o razón social' })
+  proveedor: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({ description: 'Desde', nullable: true, example: '2024-03-01' })
+  desde: string | null;
+
+  @ApiProperty({ description: 'Hasta', nullable: true, example: '2024-03-31' })
+  hasta: string | null;
+
+  @ApiProperty({ description: 'Saldo anterior a la fecha inicial', example: 0 })
+  saldoInicial: number;
+
+  @ApiProperty({ type: [MovimientoEstadoCuentaDto] })
+  movimientos: MovimientoEstadoCuentaDto[];
+
+  @ApiProperty({ description: 'Suma del debe', example: 500 })
+  totalDebe: number;
+
+  @ApiProperty({ description: 'Suma del haber', example: 1180 })
+  totalHaber: number;
+
+  @ApiProperty({ description: 'Saldo final', example: 680 })
+  saldoFinal: number;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MedioPago } from '../../cuentas-por-cobrar/enum/medio-pago.enum';
+
+/**
+ * Aplicación de un pago a un comprobante
+ */
+export class ResponsePagoAplicacionDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 25 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F002-4581' })
+  comprobante: string;
+
+  @ApiProperty({ description: 'Importe aplicado', example: 500 })
+  monto: number;
+}
+
+/**
+ * DTO de respuesta de un pago a proveedor
+ */
+export class ResponsePagoDto {
+  @ApiProperty({ description: 'ID del pago', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Fecha del pago', example: '2024-04-10' })
+  fecha: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({ description: 'Importe pagado', example: 500 })
+  monto: number;
+
+  @ApiProperty({ enum: MedioPago })
+  medioPago: MedioPago;
+
+  @ApiProperty({ description: 'Referencia', nullable: true })
+  referencia: string | null;
+
+  @ApiProperty({ description: 'ID del proveedor', example: 7 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Nombre o razón social del proveedor' })
+  proveedor: string;
+
+  @ApiProperty({ type: [ResponsePagoAplicacionDto] })
+  aplicaciones: ResponsePagoAplicacionDto[];
+}
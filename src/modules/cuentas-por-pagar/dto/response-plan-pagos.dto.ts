@@ -0,0 +1,74 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Semana del plan de pagos (lunes a domingo)
+ */
+export class SemanaPlanPagosDto {
+  @ApiProperty({ description: 'Lunes de la semana', example: '2024-04-08' })
+  inicio: string;
+
+  @ApiProperty({ description: 'Domingo de la semana', example: '2024-04-14' })
+  fin: string;
+}
+
+/**
+ * Importes por pagar de un grupo, repartidos por semana de vencimiento
+ */
+export class ImportesPlanPagosDto {
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({
+    description: 'Saldo vencido antes de la primera semana',
+    example: 200,
+  })
+  vencido: number;
+
+  @ApiProperty({
+    description: 'Saldo que vence en cada semana del plan',
+    type: [Number],
+    example: [680, 0, 1200, 0],
+  })
+  semanas: number[];
+
+  @ApiProperty({
+    description: 'Saldo que vence después de la última semana',
+    example: 0,
+  })
+  posterior: number;
+
+  @ApiProperty({ description: 'Total por pagar', example: 2080 })
+  total: number;
+}
+
+/**
+ * Plan de pagos de un proveedor en una moneda
+ */
+export class PlanPagosProveedorDto extends ImportesPlanPagosDto {
+  @ApiProperty({ description: 'ID del proveedor', example: 7 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Número de documento', example: '20555555555' })
+  numeroDocumento: string;
+
+  @ApiProperty({ description: 'Nombre o razón social' })
+  proveedor: string;
+}
+
+/**
+ * DTO de respuesta del plan semanal de pagos a proveedores
+ */
+export class ResponsePlanPagosDto {
+  @ApiProperty({ type: [SemanaPlanPagosDto] })
+  semanas: SemanaPlanPagosDto[];
+
+  @ApiProperty({ type: [PlanPagosProveedorDto] })
+  proveedores: PlanPagosProveedorDto[];
+
+  @ApiProperty({
+    description: 'Totales por moneda',
+    type: [ImportesPlanPagosDto],
+  })
+  totales: ImportesPlanPagosDto[];
+}
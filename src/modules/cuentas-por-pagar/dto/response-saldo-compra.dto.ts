@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * DTO de respuesta con el saldo por pagar de una compra
+ */
+export class ResponseSaldoCompraDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 25 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F002-4581' })
+  comprobante: string;
+
+  @ApiProperty({ description: 'Fecha de emisión', example: '2024-03-12' })
+  fechaEmision: string;
+
+  @ApiProperty({
+    description: 'Fecha de vencimiento (la de emisión si no tiene)',
+    example: '2024-04-11',
+  })
+  fechaVencimiento: string;
+
+  @ApiProperty({ description: 'ID del proveedor', nullable: true })
+  idEntidad: number | null;
+
+  @ApiProperty({ description: 'Nombre o razón social del proveedor' })
+  proveedor: string;
+
+  @ApiProperty({ enum: Moneda })
+  moneda: Moneda;
+
+  @ApiProperty({
+    description: 'Tipo de cambio del comprobante',
+    nullable: true,
+    example: 3.75,
+  })
+  tipoCambio: number | null;
+
+  @ApiProperty({ description: 'Total del comprobante', example: 1180 })
+  total: number;
+
+  @ApiProperty({ description: 'Notas de crédito recibidas', example: 0 })
+  notasCredito: number;
+
+  @ApiProperty({ description: 'Notas de débito recibidas', example: 0 })
+  notasDebito: number;
+
+  @ApiProperty({ description: 'Total pagado', example: 500 })
+  pagado: number;
+
+  @ApiProperty({ description: 'Saldo por pagar', example: 680 })
+  saldo: number;
+}
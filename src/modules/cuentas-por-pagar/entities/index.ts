@@ -0,0 +1,2 @@
+export { Pago } from './pago.entity';
+export { PagoAplicacion } from './pago-aplicacion.entity';
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Pago } from './pago.entity';
+
+/**
+ * Parte de un pago aplicada a un comprobante de compra
+ */
+@Entity('pago_aplicacion')
+export class PagoAplicacion {
+  /**
+   * Identificador único de la aplicación
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Pago al que pertenece
+   */
+  @ManyToOne(() => Pago, (pago) => pago.aplicaciones, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_pago' })
+  pago: Pago;
+
+  /**
+   * Comprobante de compra que se cancela
+   */
+  @ManyToOne(() => Comprobante, { nullable: false })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Importe aplicado en la moneda del comprobante
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  monto: number;
+}
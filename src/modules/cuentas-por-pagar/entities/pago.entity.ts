@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MedioPago } from '../../cuentas-por-cobrar/enum/medio-pago.enum';
+import { PagoAplicacion } from './pago-aplicacion.entity';
+
+/**
+ * Dinero entregado a un proveedor
+ * Se aplica contra uno o más comprobantes de compra pendientes
+ */
+@Entity('pago')
+export class Pago {
+  /**
+   * Identificador único del pago
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Fecha en que se realizó el pago
+   */
+  @Column({ type: 'date', nullable: false })
+  fecha: string;
+
+  /**
+   * Moneda del pago (la de los comprobantes a los que se aplica)
+   */
+  @Column({ type: 'enum', enum: Moneda, nullable: false })
+  moneda: Moneda;
+
+  /**
+   * Importe total pagado (suma de las aplicaciones)
+   */
+  @Column('decimal', { precision: 15, scale: 2, nullable: false })
+  monto: number;
+
+  /**
+   * Medio de pago utilizado
+   */
+  @Column({ type: 'enum', enum: MedioPago, default: MedioPago.TRANSFERENCIA })
+  medioPago: MedioPago;
+
+  /**
+   * Número de operación o de cheque
+   */
+  @Column({ length: 100, nullable: true })
+  referencia?: string | null;
+
+  /**
+   * Proveedor que recibió el pago
+   */
+  @ManyToOne(() => Entidad, { nullable: false })
+  @JoinColumn({ name: 'id_entidad' })
+  entidad: Entidad;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Importes aplicados a cada comprobante
+   */
+  @OneToMany(() => PagoAplicacion, (aplicacion) => aplicacion.pago, {
+    cascade: true,
+  })
+  aplicaciones: PagoAplicacion[];
+
+  /**
+   * Fecha de registro
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
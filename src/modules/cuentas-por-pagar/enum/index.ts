@@ -0,0 +1 @@
+export { TipoMovimientoCuenta } from './tipo-movimiento-cuenta.enum';
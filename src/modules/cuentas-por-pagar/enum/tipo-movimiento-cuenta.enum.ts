@@ -0,0 +1,9 @@
+/**
+ * Tipo de movimiento del estado de cuenta de un proveedor
+ */
+export enum TipoMovimientoCuenta {
+  COMPROBANTE = 'COMPROBANTE',
+  NOTA_CREDITO = 'NOTA_CREDITO',
+  NOTA_DEBITO = 'NOTA_DEBITO',
+  PAGO = 'PAGO',
+}
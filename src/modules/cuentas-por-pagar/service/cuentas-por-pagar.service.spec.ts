@@ -0,0 +1,224 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { CuentasPorPagarService } from './cuentas-por-pagar.service';
+import { Pago, PagoAplicacion } from '../entities';
+import { TipoMovimientoCuenta } from '../enum';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+
+/**
+ * Tests unitarios para CuentasPorPagarService
+ * Verifica el saldo neto de notas, la aplicación de pagos, las semanas del plan
+ * y el saldo acumulado del estado de cuenta
+ */
+describe('CuentasPorPagarService', () => {
+  const service = new CuentasPorPagarService(
+    {} as Repository<Comprobante>,
+    {} as Repository<Pago>,
+    {} as DataSource,
+  );
+
+  describe('plan de pagos', () => {
+    it('should start the plan on the Monday of the given week', () => {
+      // 2024-04-10 es miércoles
+      expect(service.construirSemanas('2024-04-10', 2)).toEqual([
+        { inicio: '2024-04-08', fin: '2024-04-14' },
+        { inicio: '2024-04-15', fin: '2024-04-21' },
+      ]);
+    });
+
+    it('should place due dates as overdue, weekly or later', () => {
+      const semanas = service.construirSemanas('2024-04-08', 2);
+
+      expect(service.ubicarSemana('2024-04-07', semanas)).toBe(-1);
+      expect(service.ubicarSemana('2024-04-14', semanas)).toBe(0);
+      expect(service.ubicarSemana('2024-04-15', semanas)).toBe(1);
+      expect(service.ubicarSemana('2024-04-22', semanas)).toBe(2);
+    });
+  });
+
+  describe('acumularMovimientos', () => {
+    const movimiento = (
+      fecha: string,
+      tipo: TipoMovimientoCuenta,
+      debe: number,
+      haber: number,
+    ) => ({
+      fecha,
+      tipo,
+      documento: tipo,
+      idComprobante: null,
+      idPago: null,
+      debe,
+      haber,
+    });
+
+    it('should carry earlier movements into the opening balance', () => {
+      const resultado = service.acumularMovimientos(
+        [
+          movimiento('2024-03-20', TipoMovimientoCuenta.PAGO, 500, 0),
+          movimiento('2024-02-10', TipoMovimientoCuenta.COMPROBANTE, 0, 1180),
+          movimiento('2024-03-20', TipoMovimientoCuenta.COMPROBANTE, 0, 236),
+          movimiento('2024-03-25', TipoMovimientoCuenta.NOTA_CREDITO, 36, 0),
+        ],
+        '2024-03-01',
+      );
+
+      expect(resultado.saldoInicial).toBe(1180);
+      expect(resultado.movimientos.map((item) => item.saldo)).toEqual([
+        1416, 916, 880,
+      ]);
+      expect(resultado.movimientos[0].tipo).toBe(
+        TipoMovimientoCuenta.COMPROBANTE,
+      );
+      expect(resultado.totalDebe).toBe(536);
+      expect(resultado.totalHaber).toBe(236);
+      expect(resultado.saldoFinal).toBe(880);
+    });
+  });
+
+  describe('saldos y pagos', () => {
+    let save: jest.Mock;
+    let servicio: CuentasPorPagarService;
+
+    const compra = (idComprobante: number, numero: string, total: string) => ({
+      idComprobante,
+      serie: 'F002',
+      numero,
+      fechaEmision: '2024-03-05',
+      fechaVencimiento: '2024-04-04',
+      moneda: Moneda.PEN,
+      tipoCambio: null,
+      totales: { totalGeneral: total },
+      entidad: { id: 4, nombreCompletoMostrado: 'PROVEEDOR SAC' },
+    });
+
+    const consulta = (resultado: unknown[]) => {
+      const query: Record<string, jest.Mock> = {};
+      for (const metodo of [
+        'leftJoinAndSelect',
+        'innerJoinAndSelect',
+        'innerJoin',
+        'select',
+        'addSelect',
+        'where',
+        'andWhere',
+        'groupBy',
+        'addGroupBy',
+        'orderBy',
+        'addOrderBy',
+        'setLock',
+      ]) {
+        query[metodo] = jest.fn(() => query);
+      }
+      query.getMany = jest.fn(() => Promise.resolve(resultado));
+      query.getRawMany = jest.fn(() => Promise.resolve(resultado));
+      return query;
+    };
+
+    beforeEach(() => {
+      save = jest.fn(() => Promise.resolve({ id: 60 }));
+      const comprobantes = {
+        createQueryBuilder: jest.fn((alias: string) =>
+          alias === 'nota'
+            ? consulta([
+                { idComprobante: 20, tipo: '07', total: '200.00' },
+                { idComprobante: 20, tipo: '08', total: '50.00' },
+              ])
+            : consulta([
+                compra(20, '900', '1000.00'),
+                compra(21, '901', '236.00'),
+              ]),
+        ),
+      };
+      const manager = {
+        getRepository: jest.fn((entidad: unknown) =>
+          entidad === PagoAplicacion
+            ? {
+                createQueryBuilder: jest.fn(() =>
+                  consulta([{ idComprobante: 21, total: '236.00' }]),
+                ),
+              }
+            : comprobantes,
+        ),
+        findOne: jest.fn(() =>
+          Promise.resolve({ id: 4, esProveedor: true, persona: { id: 1 } }),
+        ),
+        create: jest.fn((_entidad: unknown, datos: object) => datos),
+        save,
+      } as unknown as EntityManager;
+
+      servicio = new CuentasPorPagarService(
+        comprobantes as unknown as Repository<Comprobante>,
+        {
+          findOne: jest.fn(() =>
+            Promise.resolve({
+              id: 60,
+              fecha: '2024-04-10',
+              moneda: Moneda.PEN,
+              monto: '400.00',
+              entidad: { id: 4, nombreCompletoMostrado: 'PROVEEDOR SAC' },
+              aplicaciones: [],
+            }),
+          ),
+        } as unknown as Repository<Pago>,
+        {
+          manager,
+          transaction: jest.fn(
+            (ejecutar: (transaccion: EntityManager) => Promise<unknown>) =>
+              ejecutar(manager),
+          ),
+        } as unknown as DataSource,
+      );
+    });
+
+    it('should net notes and payments against each purchase', async () => {
+      const pendientes = await servicio.listarPendientes(1);
+
+      expect(pendientes).toHaveLength(1);
+      expect(pendientes[0]).toEqual(
+        expect.objectContaining({
+          idComprobante: 20,
+          notasCredito: 200,
+          notasDebito: 50,
+          pagado: 0,
+          saldo: 850,
+        }),
+      );
+    });
+
+    it('should apply a payment to the purchase within its balance', async () => {
+      await servicio.registrarPago(1, {
+        idEntidad: 4,
+        fecha: '2024-04-10',
+        aplicaciones: [{ idComprobante: 20, monto: 400 }],
+      });
+
+      expect(save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          moneda: Moneda.PEN,
+          monto: 400,
+          aplicaciones: [{ comprobante: { idComprobante: 20 }, monto: 400 }],
+        }),
+      );
+    });
+
+    it('should reject a payment above the balance net of notes', async () => {
+      await expect(
+        servicio.registrarPago(1, {
+          idEntidad: 4,
+          fecha: '2024-04-10',
+          aplicaciones: [
+            { idComprobante: 20, monto: 850 },
+            { idComprobante: 21, monto: 0.01 },
+          ],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'El comprobante F002-901 tiene un saldo de 0.00',
+        ),
+      );
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
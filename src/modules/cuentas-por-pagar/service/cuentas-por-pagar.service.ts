@@ -0,0 +1,619 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Pago, PagoAplicacion } from '../entities';
+import { TipoMovimientoCuenta } from '../enum';
+import {
+  CreatePagoDto,
+  ImportesPlanPagosDto,
+  MovimientoEstadoCuentaDto,
+  PlanPagosProveedorDto,
+  ResponseEstadoCuentaProveedorDto,
+  ResponsePagoDto,
+  ResponsePlanPagosDto,
+  ResponseSaldoCompraDto,
+  SemanaPlanPagosDto,
+} from '../dto';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { MedioPago } from '../../cuentas-por-cobrar/enum/medio-pago.enum';
+import {
+  bloquearComprobantes,
+  calcularImportesSaldo,
+  idsAplicados,
+  validarAplicaciones,
+  type TextosAplicacion,
+} from '../../cuentas-por-cobrar/service/saldo-comprobantes';
+
+/**
+ * Filtros para consultar las compras por pagar
+ */
+interface FiltroCompras {
+  ids?: number[];
+  idEntidad?: number;
+  moneda?: Moneda;
+  hasta?: string;
+}
+
+const TEXTOS_PAGO: TextosAplicacion = {
+  operacion: 'pago',
+  comprobante: 'Compra',
+  contraparte: 'proveedor',
+};
+
+/**
+ * Servicio de cuentas por pagar
+ * El saldo de una compra es su total más notas de débito, menos notas de crédito y pagos aplicados
+ */
+@Injectable()
+export class CuentasPorPagarService {
+  private readonly logger = new Logger(CuentasPorPagarService.name);
+
+  constructor(
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    @InjectRepository(Pago)
+    private readonly pagoRepository: Repository<Pago>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Lista las compras con saldo pendiente
+   * @param personaId - ID de la empresa
+   * @param idEntidad - Proveedor (opcional)
+   */
+  async listarPendientes(
+    personaId: number,
+    idEntidad?: number,
+  ): Promise<ResponseSaldoCompraDto[]> {
+    const compras = await this.consultarCompras(personaId, { idEntidad });
+    const saldos = await this.calcularSaldos(compras);
+    return saldos.filter((saldo) => saldo.saldo > 0);
+  }
+
+  /**
+   * Compras con saldo pendiente a una fecha de corte en una moneda
+   * Solo considera notas y pagos hasta esa fecha
+   * @param personaId - ID de la empresa
+   * @param fechaCorte - Fecha de corte (YYYY-MM-DD)
+   * @param moneda - Moneda de los comprobantes
+   */
+  async listarSaldosAl(
+    personaId: number,
+    fechaCorte: string,
+    moneda: Moneda,
+  ): Promise<ResponseSaldoCompraDto[]> {
+    const corte = fechaCorte.slice(0, 10);
+    const compras = await this.consultarCompras(personaId, {
+      moneda,
+      hasta: corte,
+    });
+    const saldos = await this.calcularSaldos(compras, corte);
+    return saldos.filter((saldo) => saldo.saldo > 0);
+  }
+
+  /**
+   * Registra un pago y lo aplica a los comprobantes indicados
+   * Los comprobantes se bloquean durante el registro para no pagar dos veces el mismo saldo
+   * @param personaId - ID de la empresa
+   * @param dto - Datos del pago
+   */
+  async registrarPago(
+    personaId: number,
+    dto: CreatePagoDto,
+  ): Promise<ResponsePagoDto> {
+    const ids = idsAplicados(dto.aplicaciones, TEXTOS_PAGO);
+
+    const idPago = await this.dataSource.transaction(async (manager) => {
+      const entidad = await manager.findOne(Entidad, {
+        where: { id: dto.idEntidad, persona: { id: personaId } },
+      });
+      if (!entidad) {
+        throw new NotFoundException(
+          `Proveedor con ID ${dto.idEntidad} no encontrado`,
+        );
+      }
+      if (!entidad.esProveedor) {
+        throw new BadRequestException(
+          'La entidad no está registrada como proveedor',
+        );
+      }
+
+      await bloquearComprobantes(manager, ids);
+
+      const compras = await this.consultarCompras(personaId, { ids }, manager);
+      const saldos = new Map(
+        (await this.calcularSaldos(compras, undefined, manager)).map(
+          (saldo) => [saldo.idComprobante, saldo],
+        ),
+      );
+      const moneda = validarAplicaciones(
+        dto.aplicaciones,
+        saldos,
+        entidad.id,
+        TEXTOS_PAGO,
+      );
+
+      const pago = manager.create(Pago, {
+        persona: { id: personaId },
+        entidad,
+        fecha: dto.fecha.slice(0, 10),
+        moneda: moneda ?? Moneda.PEN,
+        monto: this.redondear(
+          dto.aplicaciones.reduce((acc, item) => acc + item.monto, 0),
+        ),
+        medioPago: dto.medioPago ?? MedioPago.TRANSFERENCIA,
+        referencia: dto.referencia ?? null,
+        aplicaciones: dto.aplicaciones.map((aplicacion) =>
+          manager.create(PagoAplicacion, {
+            comprobante: { idComprobante: aplicacion.idComprobante },
+            monto: this.redondear(aplicacion.monto),
+          }),
+        ),
+      });
+      const guardado = await manager.save(pago);
+      return guardado.id;
+    });
+
+    this.logger.log(`Pago ${idPago} registrado para la empresa ${personaId}`);
+    return this.obtenerPago(idPago, personaId);
+  }
+
+  /**
+   * Lista los pagos de la empresa, opcionalmente de un proveedor
+   * @param personaId - ID de la empresa
+   * @param idEntidad - Proveedor (opcional)
+   */
+  async listarPagos(
+    personaId: number,
+    idEntidad?: number,
+  ): Promise<ResponsePagoDto[]> {
+    const pagos = await this.pagoRepository.find({
+      where: {
+        persona: { id: personaId },
+        ...(idEntidad ? { entidad: { id: idEntidad } } : {}),
+      },
+      relations: ['entidad', 'aplicaciones', 'aplicaciones.comprobante'],
+      order: { fecha: 'DESC', id: 'DESC' },
+    });
+    return pagos.map((pago) => this.mapearPago(pago));
+  }
+
+  /**
+   * Obtiene un pago con sus aplicaciones
+   * @param id - ID del pago
+   * @param personaId - ID de la empresa
+   */
+  async obtenerPago(id: number, personaId: number): Promise<ResponsePagoDto> {
+    const pago = await this.pagoRepository.findOne({
+      where: { id, persona: { id: personaId } },
+      relations: ['entidad', 'aplicaciones', 'aplicaciones.comprobante'],
+    });
+    if (!pago) {
+      throw new NotFoundException(`Pago con ID ${id} no encontrado`);
+    }
+    return this.mapearPago(pago);
+  }
+
+  /**
+   * Anula un pago; los comprobantes recuperan el saldo que cancelaba
+   * @param id - ID del pago
+   * @param personaId - ID de la empresa
+   */
+  async anularPago(id: number, personaId: number): Promise<void> {
+    const pago = await this.pagoRepository.findOne({
+      where: { id, persona: { id: personaId } },
+    });
+    if (!pago) {
+      throw new NotFoundException(`Pago con ID ${id} no encontrado`);
+    }
+    await this.pagoRepository.delete(pago.id);
+    this.logger.log(`Pago ${id} anulado`);
+  }
+
+  /**
+   * Plan semanal de pagos agrupado por proveedor y moneda
+   * Cada saldo se ubica en la semana (lunes a domingo) de su vencimiento
+   * @param personaId - ID de la empresa
+   * @param desde - Fecha dentro de la primera semana (YYYY-MM-DD)
+   * @param cantidadSemanas - Número de semanas del plan
+   */
+  async planPagos(
+    personaId: number,
+    desde: string,
+    cantidadSemanas: number,
+  ): Promise<ResponsePlanPagosDto> {
+    const semanas = this.construirSemanas(desde, cantidadSemanas);
+    const compras = await this.consultarCompras(personaId, {});
+    const saldos = (await this.calcularSaldos(compras)).filter(
+      (saldo) => saldo.saldo > 0 && saldo.idEntidad !== null,
+    );
+
+    const proveedores = new Map<string, PlanPagosProveedorDto>();
+    const totales = new Map<Moneda, ImportesPlanPagosDto>();
+
+    for (const saldo of saldos) {
+      const compra = compras.find(
+        (item) => item.idComprobante === saldo.idComprobante,
+      )!;
+      const clave = `${saldo.idEntidad}-${saldo.moneda}`;
+      const grupo =
+        proveedores.get(clave) ??
+        Object.assign(this.importesVacios(saldo.moneda, semanas.length), {
+          idEntidad: saldo.idEntidad!,
+          numeroDocumento: compra.entidad.numeroDocumento,
+          proveedor: saldo.proveedor,
+        });
+      proveedores.set(clave, grupo);
+      const total =
+        totales.get(saldo.moneda) ??
+        this.importesVacios(saldo.moneda, semanas.length);
+      totales.set(saldo.moneda, total);
+
+      const indice = this.ubicarSemana(saldo.fechaVencimiento, semanas);
+      for (const importes of [grupo, total]) {
+        if (indice === -1) {
+          importes.vencido = this.redondear(importes.vencido + saldo.saldo);
+        } else if (indice === semanas.length) {
+          importes.posterior = this.redondear(importes.posterior + saldo.saldo);
+        } else {
+          importes.semanas[indice] = this.redondear(
+            importes.semanas[indice] + saldo.saldo,
+          );
+        }
+        importes.total = this.redondear(importes.total + saldo.saldo);
+      }
+    }
+
+    return {
+      semanas,
+      proveedores: [...proveedores.values()].sort(
+        (a, b) =>
+          a.moneda.localeCompare(b.moneda) ||
+          a.proveedor.localeCompare(b.proveedor),
+      ),
+      totales: [...totales.values()].sort((a, b) =>
+        a.moneda.localeCompare(b.moneda),
+      ),
+    };
+  }
+
+  /**
+   * Estado de cuenta de un proveedor con saldo acumulado
+   * Incluye comprobantes de compra, notas de crédito y débito, y pagos en la moneda indicada
+   * @param personaId - ID de la empresa
+   * @param idEntidad - ID del proveedor
+   * @param moneda - Moneda del estado de cuenta
+   * @param desde - Fecha inicial (opcional); lo anterior forma el saldo inicial
+   * @param hasta - Fecha final (opcional)
+   */
+  async estadoCuentaProveedor(
+    personaId: number,
+    idEntidad: number,
+    moneda: Moneda,
+    desde?: string,
+    hasta?: string,
+  ): Promise<ResponseEstadoCuentaProveedorDto> {
+    const entidad = await this.dataSource.manager.findOne(Entidad, {
+      where: { id: idEntidad, persona: { id: personaId } },
+    });
+    if (!entidad) {
+      throw new NotFoundException(
+        `Proveedor con ID ${idEntidad} no encontrado`,
+      );
+    }
+
+    const compras = await this.consultarCompras(personaId, {
+      idEntidad,
+      moneda,
+    });
+    const ids = compras.map((compra) => compra.idComprobante);
+    const [notas, pagos] = await Promise.all([
+      ids.length > 0
+        ? this.comprobanteRepository
+            .createQueryBuilder('nota')
+            .innerJoinAndSelect('nota.tipoComprobante', 'tipoComprobante')
+            .innerJoinAndSelect('nota.comprobanteAfecto', 'afecto')
+            .leftJoinAndSelect('nota.totales', 'totales')
+            .where('afecto.idComprobante IN (:...ids)', { ids })
+            .andWhere('tipoComprobante.codigo IN (:...notas)', {
+              notas: ['07', '08'],
+            })
+            .getMany()
+        : Promise.resolve([] as Comprobante[]),
+      this.pagoRepository.find({
+        where: {
+          persona: { id: personaId },
+          entidad: { id: idEntidad },
+          moneda,
+        },
+      }),
+    ]);
+
+    const movimientos: Omit<MovimientoEstadoCuentaDto, 'saldo'>[] = [
+      ...compras.map((compra) => ({
+        fecha: this.aFecha(compra.fechaEmision),
+        tipo: TipoMovimientoCuenta.COMPROBANTE,
+        documento: `${compra.serie}-${compra.numero}`,
+        idComprobante: compra.idComprobante,
+        idPago: null,
+        debe: 0,
+        haber: Number(compra.totales?.totalGeneral ?? 0),
+      })),
+      ...notas.map((nota) => {
+        const credito = nota.tipoComprobante.codigo === '07';
+        const importe = Number(nota.totales?.totalGeneral ?? 0);
+        return {
+          fecha: this.aFecha(nota.fechaEmision),
+          tipo: credito
+            ? TipoMovimientoCuenta.NOTA_CREDITO
+            : TipoMovimientoCuenta.NOTA_DEBITO,
+          documento: `${nota.serie}-${nota.numero}`,
+          idComprobante: nota.idComprobante,
+          idPago: null,
+          debe: credito ? importe : 0,
+          haber: credito ? 0 : importe,
+        };
+      }),
+      ...pagos.map((pago) => ({
+        fecha: this.aFecha(pago.fecha),
+        tipo: TipoMovimientoCuenta.PAGO,
+        documento: pago.referencia || `Pago ${pago.id}`,
+        idComprobante: null,
+        idPago: pago.id,
+        debe: Number(pago.monto),
+        haber: 0,
+      })),
+    ];
+
+    const resultado = this.acumularMovimientos(movimientos, desde, hasta);
+    return {
+      idEntidad: entidad.id,
+      numeroDocumento: entidad.numeroDocumento,
+      proveedor: entidad.nombreCompletoMostrado,
+      moneda,
+      desde: desde ?? null,
+      hasta: hasta ?? null,
+      ...resultado,
+    };
+  }
+
+  /**
+   * Ordena los movimientos por fecha y calcula el saldo acumulado
+   * Los movimientos anteriores a la fecha inicial se resumen en el saldo inicial
+   * @param movimientos - Movimientos sin saldo
+   * @param desde - Fecha inicial (YYYY-MM-DD, opcional)
+   * @param hasta - Fecha final (YYYY-MM-DD, opcional)
+   */
+  acumularMovimientos(
+    movimientos: Omit<MovimientoEstadoCuentaDto, 'saldo'>[],
+    desde?: string,
+    hasta?: string,
+  ): Pick<
+    ResponseEstadoCuentaProveedorDto,
+    'saldoInicial' | 'movimientos' | 'totalDebe' | 'totalHaber' | 'saldoFinal'
+  > {
+    // En un mismo día primero se registra la deuda y luego lo que la reduce
+    const orden = Object.values(TipoMovimientoCuenta);
+    const ordenados = [...movimientos].sort(
+      (a, b) =>
+        a.fecha.localeCompare(b.fecha) ||
+        orden.indexOf(a.tipo) - orden.indexOf(b.tipo),
+    );
+
+    let saldoInicial = 0;
+    let saldo = 0;
+    let totalDebe = 0;
+    let totalHaber = 0;
+    const resultado: MovimientoEstadoCuentaDto[] = [];
+
+    for (const movimiento of ordenados) {
+      if (hasta && movimiento.fecha > hasta) {
+        continue;
+      }
+      if (desde && movimiento.fecha < desde) {
+        saldoInicial = this.redondear(
+          saldoInicial + movimiento.haber - movimiento.debe,
+        );
+        saldo = saldoInicial;
+        continue;
+      }
+      saldo = this.redondear(saldo + movimiento.haber - movimiento.debe);
+      totalDebe = this.redondear(totalDebe + movimiento.debe);
+      totalHaber = this.redondear(totalHaber + movimiento.haber);
+      resultado.push({ ...movimiento, saldo });
+    }
+
+    return {
+      saldoInicial,
+      movimientos: resultado,
+      totalDebe,
+      totalHaber,
+      saldoFinal: saldo,
+    };
+  }
+
+  /**
+   * Semanas del plan de pagos, empezando el lunes de la semana de la fecha dada
+   * @param desde - Fecha dentro de la primera semana (YYYY-MM-DD)
+   * @param cantidad - Número de semanas
+   */
+  construirSemanas(desde: string, cantidad: number): SemanaPlanPagosDto[] {
+    const base = new Date(`${desde.slice(0, 10)}T00:00:00Z`);
+    // getUTCDay: 0 = domingo
+    const lunes = new Date(
+      base.getTime() - ((base.getUTCDay() + 6) % 7) * 86400000,
+    );
+    return Array.from({ length: cantidad }, (_, indice) => {
+      const inicio = new Date(lunes.getTime() + indice * 7 * 86400000);
+      const fin = new Date(inicio.getTime() + 6 * 86400000);
+      return {
+        inicio: inicio.toISOString().slice(0, 10),
+        fin: fin.toISOString().slice(0, 10),
+      };
+    });
+  }
+
+  /**
+   * Índice de la semana en la que cae un vencimiento
+   * @returns -1 si vence antes de la primera semana y semanas.length si vence después de la última
+   */
+  ubicarSemana(
+    fechaVencimiento: string,
+    semanas: SemanaPlanPagosDto[],
+  ): number {
+    if (fechaVencimiento < semanas[0].inicio) {
+      return -1;
+    }
+    const indice = semanas.findIndex(
+      (semana) =>
+        fechaVencimiento >= semana.inicio && fechaVencimiento <= semana.fin,
+    );
+    return indice === -1 ? semanas.length : indice;
+  }
+
+  /**
+   * Compras (facturas, boletas y demás, sin notas) de la empresa
+   */
+  private async consultarCompras(
+    personaId: number,
+    filtro: FiltroCompras,
+    manager?: EntityManager,
+  ): Promise<Comprobante[]> {
+    const repository = manager
+      ? manager.getRepository(Comprobante)
+      : this.comprobanteRepository;
+
+    const query = repository
+      .createQueryBuilder('comprobante')
+      .leftJoinAndSelect('comprobante.totales', 'totales')
+      .leftJoinAndSelect('comprobante.entidad', 'entidad')
+      .innerJoinAndSelect('comprobante.tipoOperacion', 'tipoOperacion')
+      .innerJoinAndSelect('comprobante.tipoComprobante', 'tipoComprobante')
+      .where('comprobante.id_persona = :personaId', { personaId })
+      .andWhere('tipoOperacion.codigo = :compra', { compra: '02' })
+      .andWhere('tipoComprobante.codigo NOT IN (:...notas)', {
+        notas: ['07', '08'],
+      });
+
+    if (filtro.ids) {
+      query.andWhere('comprobante.idComprobante IN (:...ids)', {
+        ids: filtro.ids,
+      });
+    }
+    if (filtro.idEntidad) {
+      query.andWhere('entidad.id = :idEntidad', {
+        idEntidad: filtro.idEntidad,
+      });
+    }
+    if (filtro.moneda) {
+      query.andWhere('comprobante.moneda = :moneda', { moneda: filtro.moneda });
+    }
+    if (filtro.hasta) {
+      query.andWhere('DATE(comprobante.fechaEmision) <= :hasta', {
+        hasta: filtro.hasta,
+      });
+    }
+
+    return query
+      .orderBy('comprobante.fechaEmision', 'ASC')
+      .addOrderBy('comprobante.idComprobante', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Calcula el saldo de cada compra neto de notas y pagos
+   * @param hasta - Considera solo notas y pagos hasta esta fecha (YYYY-MM-DD)
+   */
+  private async calcularSaldos(
+    compras: Comprobante[],
+    hasta?: string,
+    manager?: EntityManager,
+  ): Promise<ResponseSaldoCompraDto[]> {
+    if (compras.length === 0) {
+      return [];
+    }
+    const importes = await calcularImportesSaldo(
+      manager ?? this.dataSource.manager,
+      compras,
+      { entidad: PagoAplicacion, cabecera: 'pago' },
+      hasta,
+    );
+
+    return compras.map((compra) => {
+      const { total, notasCredito, notasDebito, aplicado, saldo } =
+        importes.get(compra.idComprobante)!;
+
+      return {
+        idComprobante: compra.idComprobante,
+        comprobante: `${compra.serie}-${compra.numero}`,
+        fechaEmision: this.aFecha(compra.fechaEmision),
+        fechaVencimiento: this.aFecha(
+          compra.fechaVencimiento ?? compra.fechaEmision,
+        ),
+        idEntidad: compra.entidad?.id ?? null,
+        proveedor: compra.entidad?.nombreCompletoMostrado ?? '',
+        moneda: compra.moneda,
+        tipoCambio: compra.tipoCambio ? Number(compra.tipoCambio) : null,
+        total,
+        notasCredito,
+        notasDebito,
+        pagado: aplicado,
+        saldo,
+      };
+    });
+  }
+
+  private mapearPago(pago: Pago): ResponsePagoDto {
+    return {
+      id: pago.id,
+      fecha: this.aFecha(pago.fecha),
+      moneda: pago.moneda,
+      monto: Number(pago.monto),
+      medioPago: pago.medioPago,
+      referencia: pago.referencia ?? null,
+      idEntidad: pago.entidad.id,
+      proveedor: pago.entidad.nombreCompletoMostrado,
+      aplicaciones: (pago.aplicaciones ?? []).map((aplicacion) => ({
+        idComprobante: aplicacion.comprobante.idComprobante,
+        comprobante: `${aplicacion.comprobante.serie}-${aplicacion.comprobante.numero}`,
+        monto: Number(aplicacion.monto),
+      })),
+    };
+  }
+
+  private importesVacios(
+    moneda: Moneda,
+    cantidadSemanas: number,
+  ): ImportesPlanPagosDto {
+    return {
+      moneda,
+      vencido: 0,
+      semanas: Array.from({ length: cantidadSemanas }, () => 0),
+      posterior: 0,
+      total: 0,
+    };
+  }
+
+  /**
+   * Fecha en formato YYYY-MM-DD; las columnas date llegan como texto
+   */
+  private aFecha(valor: Date | string): string {
+    if (typeof valor === 'string') {
+      return valor.slice(0, 10);
+    }
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 100) / 100;
+  }
+}
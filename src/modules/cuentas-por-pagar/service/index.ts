@@ -0,0 +1 @@
+export { CuentasPorPagarService } from './cuentas-por-pagar.service';
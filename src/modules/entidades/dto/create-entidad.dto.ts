@@ -6,6 +6,8 @@ import {
   IsBoolean,
   Length,
   Matches,
+  IsInt,
+  Min,
 } from 'class-validator';
 import { EntidadType } from '../enums/EntidadType.enum';
 
@@ -105,4 +107,14 @@ export class CreateEntidadDto {
     message: 'El número de teléfono no tiene un formato válido',
   })
   telefono?: string;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Días de entrega del proveedor (reposición de stock)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de entrega deben ser un número entero' })
+  @Min(0, { message: 'Los días de entrega no pueden ser negativos' })
+  diasEntrega?: number;
 }
@@ -97,6 +97,14 @@ export class EntidadResponseDto {
   @Expose()
   telefono?: string;
 
+  @ApiProperty({
+    example: 5,
+    description: 'Días de entrega del proveedor',
+    nullable: true,
+  })
+  @Expose()
+  diasEntrega?: number | null;
+
   @ApiProperty({
     example: 'Juan Pérez García',
     description: 'Nombre completo para mostrar',
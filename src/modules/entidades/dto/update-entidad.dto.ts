@@ -1,5 +1,12 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, Length, Matches } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  Length,
+  Matches,
+  IsInt,
+  Min,
+} from 'class-validator';
 
 /**
  * DTO para actualizar los datos principales de una entidad
@@ -65,4 +72,14 @@ export class UpdateEntidadDto {
     message: 'El número de teléfono no tiene un formato válido',
   })
   telefono?: string;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Días de entrega del proveedor (reposición de stock)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de entrega deben ser un número entero' })
+  @Min(0, { message: 'Los días de entrega no pueden ser negativos' })
+  diasEntrega?: number;
 }
@@ -60,6 +60,10 @@ export class Entidad {
   @Column({ nullable: true, length: 20 })
   telefono?: string;
 
+  // Días que demora el proveedor en entregar un pedido (reposición de stock)
+  @Column({ type: 'int', nullable: true })
+  diasEntrega?: number | null;
+
   /**
    * Relación con Persona (empresa propietaria de la entidad)
    * Una entidad (cliente/proveedor) pertenece a una empresa específica
@@ -435,6 +435,7 @@ export class EntidadService {
     dto.activo = entidad.activo;
     dto.direccion = entidad.direccion;
     dto.telefono = entidad.telefono;
+    dto.diasEntrega = entidad.diasEntrega ?? null;
     dto.nombreCompleto = entidad.nombreCompletoMostrado;
     dto.createdAt = entidad.createdAt;
     dto.updatedAt = entidad.updatedAt;
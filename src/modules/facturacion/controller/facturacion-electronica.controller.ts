@@ -0,0 +1,357 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EnvioSunatService, FacturacionElectronicaService } from '../service';
+import {
+  ConfigurarSunatDto,
+  EnviarResumenDiarioDto,
+  ResponseConfiguracionSunatDto,
+  ResponseDocumentoElectronicoDto,
+  ResponseResumenDiarioDto,
+} from '../dto';
+import { DocumentoElectronico } from '../entities';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de facturación electrónica
+ * Permite obtener el XML UBL 2.1 de los comprobantes de venta, firmarlo y enviarlo a SUNAT
+ */
+@ApiTags('Facturación Electrónica')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/facturacion-electronica')
+export class FacturacionElectronicaController {
+  constructor(
+    private readonly facturacionElectronicaService: FacturacionElectronicaService,
+    private readonly envioSunatService: EnvioSunatService,
+  ) {}
+
+  /**
+   * Registrar el certificado digital y las credenciales SOL de la empresa
+   */
+  @Put('configuracion')
+  @ApiOperation({
+    summary: 'Configurar certificado y credenciales SOL',
+    description:
+      'Registra el certificado PFX (en base64) con su contraseña y el usuario secundario SOL. El certificado se valida antes de guardarse',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Configuración guardada exitosamente',
+    type: ResponseConfiguracionSunatDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Certificado inválido o contraseña incorrecta',
+  })
+  async guardarConfiguracion(
+    @Body() dto: ConfigurarSunatDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseConfiguracionSunatDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.envioSunatService.guardarConfiguracion(user.personaId, dto);
+  }
+
+  /**
+   * Consultar la configuración SUNAT de la empresa
+   */
+  @Get('configuracion')
+  @ApiOperation({
+    summary: 'Obtener configuración SUNAT',
+    description:
+      'Devuelve el titular y vencimiento del certificado, el usuario SOL y el entorno; nunca las contraseñas',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Configuración obtenida exitosamente',
+    type: ResponseConfiguracionSunatDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'La empresa no tiene configuración SUNAT',
+  })
+  async obtenerConfiguracion(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseConfiguracionSunatDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.envioSunatService.obtenerConfiguracion(user.personaId);
+  }
+
+  /**
+   * Enviar el resumen diario de boletas de una fecha
+   */
+  @Post('resumen-diario')
+  @ApiOperation({
+    summary: 'Enviar resumen diario',
+    description:
+      'Firma y envía el resumen diario con las boletas y sus notas pendientes de la fecha. SUNAT devuelve un ticket que se consulta después',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Resumen enviado exitosamente',
+    type: ResponseResumenDiarioDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No hay boletas pendientes o la empresa no está configurada',
+  })
+  async enviarResumenDiario(
+    @Body() dto: EnviarResumenDiarioDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseResumenDiarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.envioSunatService.enviarResumenDiario(
+      user.personaId,
+      dto.fecha,
+    );
+  }
+
+  /**
+   * Obtener los datos del documento electrónico de un comprobante
+   */
+  @Get(':idComprobante')
+  @ApiOperation({
+    summary: 'Obtener documento electrónico',
+    description:
+      'Devuelve el nombre de archivo y el hash del XML; el XML se genera la primera vez que se solicita',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Documento electrónico obtenido exitosamente',
+    type: ResponseDocumentoElectronicoDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'El comprobante no se puede emitir electrónicamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Comprobante no encontrado',
+  })
+  async obtenerDocumento(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseDocumentoElectronicoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.facturacionElectronicaService.obtenerDocumento(
+      idComprobante,
+      user.personaId,
+    );
+    return this.mapearDocumento(idComprobante, documento);
+  }
+
+  /**
+   * Descargar el XML UBL 2.1 de un comprobante
+   */
+  @Get(':idComprobante/xml')
+  @ApiOperation({
+    summary: 'Descargar XML UBL 2.1',
+    description:
+      'Descarga el XML del comprobante tal como fue generado; el hash se consulta en GET :idComprobante',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Archivo XML del comprobante',
+  })
+  async descargarXml(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.facturacionElectronicaService.obtenerDocumento(
+      idComprobante,
+      user.personaId,
+    );
+
+    return new StreamableFile(Buffer.from(documento.xml, 'utf-8'), {
+      type: 'application/xml; charset=utf-8',
+      disposition: `attachment; filename="${documento.nombreArchivo}"`,
+    });
+  }
+
+  /**
+   * Volver a generar el XML de un comprobante
+   */
+  @Post(':idComprobante/generar')
+  @ApiOperation({
+    summary: 'Regenerar XML UBL 2.1',
+    description:
+      'Vuelve a construir el XML con los datos actuales del comprobante y actualiza su hash',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'XML generado exitosamente',
+    type: ResponseDocumentoElectronicoDto,
+  })
+  async generarDocumento(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseDocumentoElectronicoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.facturacionElectronicaService.generarDocumento(
+      idComprobante,
+      user.personaId,
+    );
+    return this.mapearDocumento(idComprobante, documento);
+  }
+
+  /**
+   * Firmar y enviar una factura o nota de factura a SUNAT
+   */
+  @Post(':idComprobante/enviar')
+  @ApiOperation({
+    summary: 'Enviar comprobante a SUNAT',
+    description:
+      'Firma el XML con el certificado de la empresa, lo envía con sendBill y guarda el CDR. Un rechazo de SUNAT queda registrado en el estado del documento',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Envío procesado; revisar estado y código de respuesta',
+    type: ResponseDocumentoElectronicoDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'El comprobante es una boleta o la empresa no está configurada',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El comprobante ya fue aceptado por SUNAT',
+  })
+  async enviarComprobante(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseDocumentoElectronicoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.envioSunatService.enviarComprobante(
+      idComprobante,
+      user.personaId,
+    );
+    return this.mapearDocumento(idComprobante, documento);
+  }
+
+  /**
+   * Consultar el ticket del resumen diario en el que se envió el comprobante
+   */
+  @Post(':idComprobante/consultar')
+  @ApiOperation({
+    summary: 'Consultar ticket del resumen diario',
+    description:
+      'Consulta a SUNAT el estado del ticket y, si ya hay CDR, actualiza todos los comprobantes del resumen',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Estado actualizado del documento',
+    type: ResponseDocumentoElectronicoDto,
+  })
+  async consultarTicket(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseDocumentoElectronicoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.envioSunatService.consultarTicket(
+      idComprobante,
+      user.personaId,
+    );
+    return this.mapearDocumento(idComprobante, documento);
+  }
+
+  /**
+   * Descargar la constancia de recepción (CDR) de SUNAT
+   */
+  @Get(':idComprobante/cdr')
+  @ApiOperation({
+    summary: 'Descargar CDR',
+    description:
+      'Descarga el ZIP de la constancia de recepción devuelta por SUNAT',
+  })
+  @ApiParam({ name: 'idComprobante', description: 'ID del comprobante' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Archivo ZIP del CDR',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'El comprobante aún no tiene CDR',
+  })
+  async descargarCdr(
+    @Param('idComprobante', ParseIntPipe) idComprobante: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const documento = await this.facturacionElectronicaService.obtenerDocumento(
+      idComprobante,
+      user.personaId,
+    );
+    if (!documento.cdr) {
+      throw new NotFoundException('El comprobante aún no tiene CDR de SUNAT');
+    }
+
+    return new StreamableFile(Buffer.from(documento.cdr, 'base64'), {
+      type: 'application/zip',
+      disposition: `attachment; filename="R-${documento.nombreArchivo.replace(/\.xml$/, '.zip')}"`,
+    });
+  }
+
+  private mapearDocumento(
+    idComprobante: number,
+    documento: DocumentoElectronico,
+  ): ResponseDocumentoElectronicoDto {
+    return {
+      idComprobante,
+      nombreArchivo: documento.nombreArchivo,
+      hash: documento.hash,
+      firmado: documento.firmado,
+      estado: documento.estado,
+      codigoRespuesta: documento.codigoRespuesta,
+      descripcionRespuesta: documento.descripcionRespuesta,
+      notas: documento.notas,
+      resumen: documento.resumen,
+      ticket: documento.ticket,
+      fechaEnvio: documento.fechaEnvio,
+      fechaGeneracion: documento.fechaGeneracion,
+    };
+  }
+}
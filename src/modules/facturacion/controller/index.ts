@@ -0,0 +1 @@
+export { FacturacionElectronicaController } from './facturacion-electronica.controller';
@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBase64,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { EntornoSunat } from '../enum';
+
+/**
+ * DTO para registrar el certificado digital y las credenciales SOL de la empresa
+ */
+export class ConfigurarSunatDto {
+  @ApiProperty({
+    description: 'Archivo PFX del certificado digital codificado en base64',
+    example: 'MIIKcQIBAzCCCjcGCSqGSIb3DQEHAaCCCigEggokMIIKIDCCBN...',
+  })
+  @IsBase64()
+  @IsNotEmpty()
+  certificadoBase64: string;
+
+  @ApiProperty({
+    description: 'Contraseña del certificado',
+    example: 'clave-del-pfx',
+  })
+  @IsString()
+  @IsNotEmpty()
+  claveCertificado: string;
+
+  @ApiProperty({
+    description: 'Usuario secundario SOL (sin el RUC)',
+    example: 'MODDATOS',
+  })
+  @IsString()
+  @Length(1, 30)
+  usuarioSol: string;
+
+  @ApiProperty({
+    description: 'Clave del usuario SOL',
+    example: 'moddatos',
+  })
+  @IsString()
+  @IsNotEmpty()
+  claveSol: string;
+
+  @ApiPropertyOptional({
+    description: 'Entorno de SUNAT al que se envían los comprobantes',
+    enum: EntornoSunat,
+    default: EntornoSunat.BETA,
+  })
+  @IsOptional()
+  @IsEnum(EntornoSunat)
+  entorno?: EntornoSunat;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString } from 'class-validator';
+
+/**
+ * DTO para enviar el resumen diario de boletas de una fecha
+ */
+export class EnviarResumenDiarioDto {
+  @ApiProperty({
+    description: 'Fecha de emisión de las boletas a resumir (YYYY-MM-DD)',
+    example: '2024-03-05',
+  })
+  @IsDateString()
+  fecha: string;
+}
@@ -0,0 +1,5 @@
+export { ResponseDocumentoElectronicoDto } from './response-documento-electronico.dto';
+export { ConfigurarSunatDto } from './configurar-sunat.dto';
+export { ResponseConfiguracionSunatDto } from './response-configuracion-sunat.dto';
+export { EnviarResumenDiarioDto } from './enviar-resumen-diario.dto';
+export { ResponseResumenDiarioDto } from './response-resumen-diario.dto';
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EntornoSunat } from '../enum';
+
+/**
+ * DTO de respuesta con la configuración SUNAT de la empresa (sin secretos)
+ */
+export class ResponseConfiguracionSunatDto {
+  @ApiProperty({
+    description: 'Titular del certificado digital',
+    example: 'EMPRESA S.A.C.',
+  })
+  titularCertificado: string;
+
+  @ApiProperty({ description: 'Fecha de vencimiento del certificado' })
+  vencimientoCertificado: Date;
+
+  @ApiProperty({ description: 'Usuario secundario SOL', example: 'MODDATOS' })
+  usuarioSol: string;
+
+  @ApiProperty({ description: 'Entorno de SUNAT', enum: EntornoSunat })
+  entorno: EntornoSunat;
+
+  @ApiProperty({ description: 'Fecha de la última actualización' })
+  fechaActualizacion: Date;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EstadoSunat } from '../enum';
+
+/**
+ * DTO de respuesta con los datos del documento electrónico generado
+ */
+export class ResponseDocumentoElectronicoDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 15 })
+  idComprobante: number;
+
+  @ApiProperty({
+    description: 'Nombre del archivo XML según SUNAT',
+    example: '20123456789-01-F001-123.xml',
+  })
+  nombreArchivo: string;
+
+  @ApiProperty({
+    description:
+      'Valor resumen: DigestValue de la firma, o SHA-256 del XML si aún no se firmó',
+    example: 'qz0cM2HT6kBzq1V6Z8L0FJx4y1u8Zq7d9hB3m6sQ2nE=',
+  })
+  hash: string;
+
+  @ApiProperty({ description: 'Indica si el XML ya está firmado' })
+  firmado: boolean;
+
+  @ApiProperty({ description: 'Estado frente a SUNAT', enum: EstadoSunat })
+  estado: EstadoSunat;
+
+  @ApiPropertyOptional({
+    description: 'Código de respuesta del CDR o código de error de SUNAT',
+    example: '2017',
+  })
+  codigoRespuesta: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Descripción de la respuesta o del error de SUNAT',
+  })
+  descripcionRespuesta: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Observaciones del CDR',
+    type: [String],
+  })
+  notas: string[] | null;
+
+  @ApiPropertyOptional({
+    description: 'Resumen diario en el que se envió',
+    example: 'RC-20240305-1',
+  })
+  resumen: string | null;
+
+  @ApiPropertyOptional({ description: 'Ticket del resumen diario' })
+  ticket: string | null;
+
+  @ApiProperty({ description: 'Fecha de generación del XML' })
+  fechaGeneracion: Date;
+
+  @ApiPropertyOptional({ description: 'Fecha del último envío a SUNAT' })
+  fechaEnvio: Date | null;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO de respuesta del envío de un resumen diario
+ */
+export class ResponseResumenDiarioDto {
+  @ApiProperty({
+    description: 'Identificador del resumen',
+    example: 'RC-20240305-1',
+  })
+  resumen: string;
+
+  @ApiProperty({
+    description: 'Ticket devuelto por SUNAT',
+    example: '1710000000000',
+  })
+  ticket: string;
+
+  @ApiProperty({ description: 'Comprobantes incluidos', example: 12 })
+  cantidadComprobantes: number;
+}
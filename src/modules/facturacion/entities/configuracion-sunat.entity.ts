@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Persona } from '../../users/entities/persona.entity';
+import { EntornoSunat } from '../enum';
+
+/**
+ * Entidad con el certificado digital y las credenciales SOL de una empresa
+ * Los secretos no se seleccionan por defecto y las claves se guardan cifradas
+ */
+@Entity('configuracion_sunat')
+export class ConfiguracionSunat {
+  /**
+   * Identificador único de la configuración
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Empresa a la que pertenece la configuración
+   */
+  @OneToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Certificado digital en formato PFX (PKCS#12)
+   */
+  @Column({ type: 'bytea', select: false })
+  certificado: Buffer;
+
+  /**
+   * Contraseña del certificado, cifrada con SUNAT_CREDENTIALS_KEY
+   */
+  @Column({ select: false })
+  claveCertificado: string;
+
+  /**
+   * Titular (CN) del certificado
+   */
+  @Column({ length: 255 })
+  titularCertificado: string;
+
+  /**
+   * Fecha de vencimiento del certificado
+   */
+  @Column({ type: 'timestamp' })
+  vencimientoCertificado: Date;
+
+  /**
+   * Usuario secundario SOL (sin el RUC)
+   */
+  @Column({ length: 30 })
+  usuarioSol: string;
+
+  /**
+   * Clave del usuario SOL, cifrada con SUNAT_CREDENTIALS_KEY
+   */
+  @Column({ select: false })
+  claveSol: string;
+
+  /**
+   * Entorno al que se envían los comprobantes
+   */
+  @Column({ type: 'enum', enum: EntornoSunat, default: EntornoSunat.BETA })
+  entorno: EntornoSunat;
+
+  /**
+   * Fecha de la última actualización
+   */
+  @UpdateDateColumn()
+  fechaActualizacion: Date;
+}
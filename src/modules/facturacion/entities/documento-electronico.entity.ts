@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { EstadoSunat } from '../enum';
+
+/**
+ * Entidad que representa el documento electrónico UBL 2.1 de un comprobante
+ * Conserva el XML exactamente como fue generado junto con su hash
+ */
+@Entity('documento_electronico')
+export class DocumentoElectronico {
+  /**
+   * Identificador único del documento electrónico
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Comprobante del que se generó el documento
+   */
+  @OneToOne(() => Comprobante, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'id_comprobante' })
+  comprobante: Comprobante;
+
+  /**
+   * Nombre del archivo según SUNAT: RUC-TIPO-SERIE-NUMERO.xml
+   */
+  @Column({ length: 60 })
+  nombreArchivo: string;
+
+  /**
+   * Contenido XML del documento (firmado cuando firmado = true)
+   */
+  @Column({ type: 'text' })
+  xml: string;
+
+  /**
+   * Valor resumen: DigestValue de la firma, o SHA-256 del XML si aún no se firmó
+   */
+  @Column({ length: 64 })
+  hash: string;
+
+  /**
+   * Indica si el XML ya contiene la firma digital de la empresa
+   */
+  @Column({ default: false })
+  firmado: boolean;
+
+  /**
+   * Estado del documento frente a SUNAT
+   */
+  @Column({ type: 'enum', enum: EstadoSunat, default: EstadoSunat.PENDIENTE })
+  estado: EstadoSunat;
+
+  /**
+   * Código de respuesta del CDR o código de error de SUNAT
+   */
+  @Column({ length: 10, nullable: true })
+  codigoRespuesta: string | null;
+
+  /**
+   * Descripción de la respuesta o del error de SUNAT
+   */
+  @Column({ type: 'text', nullable: true })
+  descripcionRespuesta: string | null;
+
+  /**
+   * Observaciones del CDR (código - descripción)
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  notas: string[] | null;
+
+  /**
+   * CDR devuelto por SUNAT (ZIP en base64)
+   */
+  @Column({ type: 'text', nullable: true })
+  cdr: string | null;
+
+  /**
+   * Identificador del resumen diario en el que se envió (RC-AAAAMMDD-N)
+   */
+  @Column({ length: 30, nullable: true })
+  resumen: string | null;
+
+  /**
+   * Ticket devuelto por sendSummary
+   */
+  @Column({ length: 50, nullable: true })
+  ticket: string | null;
+
+  /**
+   * Fecha del último envío a SUNAT
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  fechaEnvio: Date | null;
+
+  /**
+   * Fecha de generación del documento
+   */
+  @CreateDateColumn()
+  fechaGeneracion: Date;
+
+  /**
+   * Fecha de la última actualización del documento
+   */
+  @UpdateDateColumn()
+  fechaActualizacion: Date;
+}
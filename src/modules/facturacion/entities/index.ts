@@ -0,0 +1,2 @@
+export { DocumentoElectronico } from './documento-electronico.entity';
+export { ConfiguracionSunat } from './configuracion-sunat.entity';
@@ -0,0 +1,7 @@
+/**
+ * Entorno del servicio de facturación electrónica de SUNAT
+ */
+export enum EntornoSunat {
+  BETA = 'BETA',
+  PRODUCCION = 'PRODUCCION',
+}
@@ -0,0 +1,17 @@
+/**
+ * Estado de un documento electrónico frente a SUNAT
+ */
+export enum EstadoSunat {
+  /** Generado y aún no enviado */
+  PENDIENTE = 'PENDIENTE',
+  /** Enviado en un resumen diario; se espera la respuesta del ticket */
+  ENVIADO = 'ENVIADO',
+  /** CDR aceptado sin observaciones */
+  ACEPTADO = 'ACEPTADO',
+  /** CDR aceptado con observaciones */
+  OBSERVADO = 'OBSERVADO',
+  /** Rechazado por SUNAT */
+  RECHAZADO = 'RECHAZADO',
+  /** No se pudo completar el envío (red, credenciales, certificado) */
+  ERROR = 'ERROR',
+}
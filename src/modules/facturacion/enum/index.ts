@@ -0,0 +1,2 @@
+export { EstadoSunat } from './estado-sunat.enum';
+export { EntornoSunat } from './entorno-sunat.enum';
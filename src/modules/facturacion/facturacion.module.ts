@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { ConfiguracionSunat, DocumentoElectronico } from './entities';
+import {
+  CifradoCredencialesService,
+  EnvioSunatService,
+  FacturacionElectronicaService,
+  FirmaDigitalService,
+  UblService,
+} from './service';
+import { SUNAT_TRANSPORT, SoapSunatTransport } from './transport';
+import { FacturacionElectronicaController } from './controller';
+import { Comprobante } from '../comprobantes/entities/comprobante';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de facturación electrónica
+ * Genera los documentos UBL 2.1 de los comprobantes de venta, los firma y los envía a SUNAT
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      DocumentoElectronico,
+      ConfiguracionSunat,
+      Comprobante,
+    ]),
+    ConfigModule,
+    UserModule,
+  ],
+  controllers: [FacturacionElectronicaController],
+  providers: [
+    UblService,
+    FacturacionElectronicaService,
+    FirmaDigitalService,
+    CifradoCredencialesService,
+    EnvioSunatService,
+    // Transporte intercambiable: en pruebas se reemplaza por uno falso
+    { provide: SUNAT_TRANSPORT, useClass: SoapSunatTransport },
+  ],
+  exports: [
+    UblService,
+    FacturacionElectronicaService,
+    FirmaDigitalService,
+    EnvioSunatService,
+    TypeOrmModule,
+  ],
+})
+export class FacturacionModule {}
@@ -0,0 +1,84 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/**
+ * Servicio para cifrar en reposo las claves SOL y del certificado digital
+ * Usa AES-256-GCM con la llave definida en SUNAT_CREDENTIALS_KEY
+ */
+@Injectable()
+export class CifradoCredencialesService {
+  /** Prefijo de los valores cifrados; lo que no lo tiene se guardó en texto plano */
+  private static readonly PREFIJO = 'enc:v1:';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Cifra un secreto para guardarlo en la base de datos
+   * @param texto - Secreto en texto plano
+   * @returns string Valor "enc:v1:" + IV, tag y texto cifrado en base64
+   */
+  cifrar(texto: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.obtenerLlave(), iv);
+    const cifrado = Buffer.concat([
+      cipher.update(texto, 'utf8'),
+      cipher.final(),
+    ]);
+    return `${CifradoCredencialesService.PREFIJO}${[
+      iv,
+      cipher.getAuthTag(),
+      cifrado,
+    ]
+      .map((parte) => parte.toString('base64'))
+      .join(':')}`;
+  }
+
+  /**
+   * Descifra un secreto leído de la base de datos
+   * Los valores guardados antes del cifrado se devuelven tal cual
+   * @param valor - Valor almacenado
+   * @returns string Secreto en texto plano
+   */
+  descifrar(valor: string): string {
+    if (!valor.startsWith(CifradoCredencialesService.PREFIJO)) {
+      return valor;
+    }
+
+    const llave = this.obtenerLlave();
+    const [iv, tag, cifrado] = valor
+      .slice(CifradoCredencialesService.PREFIJO.length)
+      .split(':')
+      .map((parte) => Buffer.from(parte, 'base64'));
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', llave, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([
+        decipher.update(cifrado),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new InternalServerErrorException(
+        'No se pudieron descifrar las credenciales SUNAT; verifique SUNAT_CREDENTIALS_KEY',
+      );
+    }
+  }
+
+  /**
+   * Deriva la llave de 256 bits a partir de la variable de entorno
+   */
+  private obtenerLlave(): Buffer {
+    const secreto = this.configService.get<string>('SUNAT_CREDENTIALS_KEY');
+    if (!secreto) {
+      throw new InternalServerErrorException(
+        'Falta configurar SUNAT_CREDENTIALS_KEY para cifrar las credenciales SUNAT',
+      );
+    }
+    return createHash('sha256').update(secreto).digest();
+  }
+}
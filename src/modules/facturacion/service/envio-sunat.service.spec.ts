@@ -0,0 +1,250 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import * as forge from 'node-forge';
+import AdmZip from 'adm-zip';
+import { EnvioSunatService } from './envio-sunat.service';
+import { FacturacionElectronicaService } from './facturacion-electronica.service';
+import { FirmaDigitalService } from './firma-digital.service';
+import { UblService } from './ubl.service';
+import { CifradoCredencialesService } from './cifrado-credenciales.service';
+import { ConfiguracionSunat, DocumentoElectronico } from '../entities';
+import { EntornoSunat, EstadoSunat } from '../enum';
+import { SunatFaultError, SunatTransport } from '../transport';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+
+/**
+ * Tests unitarios para EnvioSunatService
+ * Usa un certificado generado en el momento y un transporte falso en lugar de SUNAT
+ */
+describe('EnvioSunatService', () => {
+  const CLAVE_PFX = 'secreto';
+
+  const generarPfx = (): Buffer => {
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+      publicKeyEncoding: { type: 'pkcs1', format: 'pem' },
+    });
+    const clave = forge.pki.privateKeyFromPem(privateKey);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.setRsaPublicKey(clave.n, clave.e);
+    cert.serialNumber = '01';
+    cert.validity.notBefore = new Date(Date.now() - 86400000);
+    cert.validity.notAfter = new Date(Date.now() + 365 * 86400000);
+    const atributos = [{ name: 'commonName', value: 'COMERCIAL S.A.C.' }];
+    cert.setSubject(atributos);
+    cert.setIssuer(atributos);
+    cert.sign(clave, forge.md.sha256.create());
+
+    const p12 = forge.pkcs12.toPkcs12Asn1(clave, [cert], CLAVE_PFX, {
+      algorithm: '3des',
+    });
+    return Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary');
+  };
+
+  const pfx = generarPfx();
+
+  const cdrZip = (codigo: string, notas: string[] = []) => {
+    const xml = [
+      '<ar:ApplicationResponse xmlns:ar="urn:oasis:names:specification:ubl:schema:xsd:ApplicationResponse-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2">',
+      ...notas.map((nota) => `<cbc:Note>${nota}</cbc:Note>`),
+      '<cac:DocumentResponse><cac:Response>',
+      `<cbc:ResponseCode>${codigo}</cbc:ResponseCode>`,
+      '<cbc:Description>La Factura numero F001-1, ha sido aceptada</cbc:Description>',
+      '</cac:Response></cac:DocumentResponse></ar:ApplicationResponse>',
+    ].join('');
+    const zip = new AdmZip();
+    zip.addFile('R-20123456789-01-F001-1.xml', Buffer.from(xml, 'utf8'));
+    return zip.toBuffer();
+  };
+
+  const xmlSinFirma = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    '<ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent></ext:ExtensionContent></ext:UBLExtension></ext:UBLExtensions>',
+    '<cbc:ID>F001-1</cbc:ID>',
+    '</Invoice>',
+  ].join('');
+
+  const cifrado = new CifradoCredencialesService({
+    get: jest.fn(() => 'llave-de-pruebas'),
+  } as unknown as ConfigService);
+
+  let service: EnvioSunatService;
+  let transport: jest.Mocked<SunatTransport>;
+  let save: jest.Mock;
+  let documento: DocumentoElectronico;
+  let comprobante: Comprobante;
+
+  beforeEach(() => {
+    documento = {
+      id: 1,
+      nombreArchivo: '20123456789-01-F001-1.xml',
+      xml: xmlSinFirma,
+      hash: 'sha256',
+      firmado: false,
+      estado: EstadoSunat.PENDIENTE,
+    } as DocumentoElectronico;
+    comprobante = {
+      idComprobante: 1,
+      tipoComprobante: { codigo: '01' },
+    } as unknown as Comprobante;
+
+    const configuracion = {
+      persona: { ruc: '20123456789' },
+      certificado: pfx,
+      claveCertificado: cifrado.cifrar(CLAVE_PFX),
+      usuarioSol: 'MODDATOS',
+      claveSol: cifrado.cifrar('moddatos'),
+      entorno: EntornoSunat.BETA,
+    } as ConfiguracionSunat;
+
+    const queryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(configuracion),
+    };
+    save = jest.fn((datos: ConfiguracionSunat) => Promise.resolve(datos));
+    const configuracionRepository = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      findOne: jest.fn(() => Promise.resolve(null)),
+      create: jest.fn((datos: Partial<ConfiguracionSunat>) => datos),
+      save,
+    } as unknown as Repository<ConfiguracionSunat>;
+    const documentoRepository = {
+      save: jest.fn((datos: DocumentoElectronico) => Promise.resolve(datos)),
+      find: jest.fn(() => Promise.resolve([documento])),
+    } as unknown as Repository<DocumentoElectronico>;
+    const facturacionElectronicaService = {
+      cargarComprobante: jest.fn(() => Promise.resolve(comprobante)),
+      obtenerDocumento: jest.fn(() => Promise.resolve(documento)),
+    } as unknown as FacturacionElectronicaService;
+
+    transport = {
+      sendBill: jest.fn(),
+      sendSummary: jest.fn(),
+      getStatus: jest.fn(),
+    };
+
+    service = new EnvioSunatService(
+      documentoRepository,
+      configuracionRepository,
+      {} as Repository<Comprobante>,
+      facturacionElectronicaService,
+      new UblService(),
+      new FirmaDigitalService(),
+      cifrado,
+      transport,
+    );
+  });
+
+  describe('guardarConfiguracion', () => {
+    it('should store the passwords encrypted and never return them', async () => {
+      const respuesta = await service.guardarConfiguracion(1, {
+        certificadoBase64: pfx.toString('base64'),
+        claveCertificado: CLAVE_PFX,
+        usuarioSol: 'MODDATOS',
+        claveSol: 'moddatos',
+      });
+
+      const [[guardada]] = save.mock.calls as [ConfiguracionSunat][];
+      expect(guardada.claveCertificado).toMatch(/^enc:v1:/);
+      expect(guardada.claveSol).toMatch(/^enc:v1:/);
+      expect(guardada.claveSol).not.toContain('moddatos');
+      expect(cifrado.descifrar(guardada.claveSol)).toBe('moddatos');
+      expect(cifrado.descifrar(guardada.claveCertificado)).toBe(CLAVE_PFX);
+      expect(respuesta.titularCertificado).toBe('COMERCIAL S.A.C.');
+      expect(respuesta).not.toHaveProperty('claveSol');
+      expect(respuesta).not.toHaveProperty('claveCertificado');
+    });
+  });
+
+  describe('enviarComprobante', () => {
+    it('should sign the XML, send the zip and store an accepted CDR', async () => {
+      transport.sendBill.mockResolvedValue(cdrZip('0'));
+
+      const resultado = await service.enviarComprobante(1, 1);
+
+      expect(resultado.estado).toBe(EstadoSunat.ACEPTADO);
+      expect(resultado.codigoRespuesta).toBe('0');
+      expect(resultado.firmado).toBe(true);
+      expect(resultado.xml).toContain('<ds:Signature');
+      expect(resultado.xml).toContain('Id="SignatureSP"');
+      expect(resultado.hash).not.toBe('sha256');
+      expect(resultado.xml).toContain(
+        `<ds:DigestValue>${resultado.hash}</ds:DigestValue>`,
+      );
+      expect(resultado.cdr).toBeTruthy();
+
+      const [archivo, credenciales] = transport.sendBill.mock.calls[0];
+      expect(archivo.nombreArchivo).toBe('20123456789-01-F001-1.zip');
+      expect(
+        new AdmZip(archivo.contenido).getEntry('20123456789-01-F001-1.xml'),
+      ).toBeTruthy();
+      expect(credenciales.ruc).toBe('20123456789');
+      expect(credenciales.clave).toBe('moddatos');
+    });
+
+    it('should mark the document as observed when the CDR has notes', async () => {
+      transport.sendBill.mockResolvedValue(
+        cdrZip('0', ['4252 - El dato ingresado como atributo no es valido']),
+      );
+
+      const resultado = await service.enviarComprobante(1, 1);
+
+      expect(resultado.estado).toBe(EstadoSunat.OBSERVADO);
+      expect(resultado.notas).toHaveLength(1);
+    });
+
+    it('should record a rejection fault without throwing', async () => {
+      transport.sendBill.mockRejectedValue(
+        new SunatFaultError('2017', 'El numero de documento del emisor'),
+      );
+
+      const resultado = await service.enviarComprobante(1, 1);
+
+      expect(resultado.estado).toBe(EstadoSunat.RECHAZADO);
+      expect(resultado.codigoRespuesta).toBe('2017');
+      expect(resultado.fechaEnvio).toBeInstanceOf(Date);
+    });
+
+    it('should reject boletas because they go in the daily summary', async () => {
+      comprobante.tipoComprobante.codigo = '03';
+
+      await expect(service.enviarComprobante(1, 1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(transport.sendBill.mock.calls).toHaveLength(0);
+    });
+
+    it('should not resend a rejected document with the same number', async () => {
+      documento.estado = EstadoSunat.RECHAZADO;
+
+      await expect(service.enviarComprobante(1, 1)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(transport.sendBill.mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('consultarTicket', () => {
+    it('should record an error when the CDR has no XML response', async () => {
+      documento.ticket = '1700000000000';
+      documento.estado = EstadoSunat.ENVIADO;
+      transport.getStatus.mockResolvedValue({
+        codigo: '0',
+        cdr: new AdmZip().toBuffer(),
+      });
+
+      const resultado = await service.consultarTicket(1, 1);
+
+      expect(resultado.estado).toBe(EstadoSunat.ERROR);
+      expect(resultado.descripcionRespuesta).toBe(
+        'El CDR no contiene el XML de respuesta',
+      );
+    });
+  });
+});
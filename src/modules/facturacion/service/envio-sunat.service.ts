@@ -0,0 +1,514 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import AdmZip from 'adm-zip';
+import { ConfiguracionSunat, DocumentoElectronico } from '../entities';
+import { EntornoSunat, EstadoSunat } from '../enum';
+import {
+  ConfigurarSunatDto,
+  ResponseConfiguracionSunatDto,
+  ResponseResumenDiarioDto,
+} from '../dto';
+import {
+  SUNAT_TRANSPORT,
+  SunatFaultError,
+  type CredencialesSunat,
+  type SunatTransport,
+} from '../transport';
+import { FirmaDigitalService } from './firma-digital.service';
+import type { CertificadoDigital } from './firma-digital.service';
+import { CifradoCredencialesService } from './cifrado-credenciales.service';
+import { FacturacionElectronicaService } from './facturacion-electronica.service';
+import { UblService } from './ubl.service';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+
+/**
+ * Servicio para firmar y enviar los documentos electrónicos a SUNAT
+ * Facturas y sus notas van por sendBill; boletas y sus notas por el resumen diario
+ */
+@Injectable()
+export class EnvioSunatService {
+  private readonly logger = new Logger(EnvioSunatService.name);
+
+  constructor(
+    @InjectRepository(DocumentoElectronico)
+    private readonly documentoRepository: Repository<DocumentoElectronico>,
+    @InjectRepository(ConfiguracionSunat)
+    private readonly configuracionRepository: Repository<ConfiguracionSunat>,
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    private readonly facturacionElectronicaService: FacturacionElectronicaService,
+    private readonly ublService: UblService,
+    private readonly firmaDigitalService: FirmaDigitalService,
+    private readonly cifradoCredencialesService: CifradoCredencialesService,
+    @Inject(SUNAT_TRANSPORT)
+    private readonly transport: SunatTransport,
+  ) {}
+
+  /**
+   * Registra o reemplaza el certificado digital y las credenciales SOL de la empresa
+   * @param personaId - ID de la empresa
+   * @param dto - Certificado PFX en base64 y credenciales
+   */
+  async guardarConfiguracion(
+    personaId: number,
+    dto: ConfigurarSunatDto,
+  ): Promise<ResponseConfiguracionSunatDto> {
+    const pfx = Buffer.from(dto.certificadoBase64, 'base64');
+    const certificado = this.firmaDigitalService.leerCertificado(
+      pfx,
+      dto.claveCertificado,
+    );
+
+    const configuracion =
+      (await this.configuracionRepository.findOne({
+        where: { persona: { id: personaId } },
+      })) ??
+      this.configuracionRepository.create({ persona: { id: personaId } });
+
+    configuracion.certificado = pfx;
+    // Las claves se guardan cifradas y nunca se devuelven en las respuestas
+    configuracion.claveCertificado = this.cifradoCredencialesService.cifrar(
+      dto.claveCertificado,
+    );
+    configuracion.titularCertificado = certificado.titular;
+    configuracion.vencimientoCertificado = certificado.vencimiento;
+    configuracion.usuarioSol = dto.usuarioSol;
+    configuracion.claveSol = this.cifradoCredencialesService.cifrar(
+      dto.claveSol,
+    );
+    configuracion.entorno = dto.entorno ?? EntornoSunat.BETA;
+
+    const guardada = await this.configuracionRepository.save(configuracion);
+    this.logger.log(
+      `Certificado de ${certificado.titular} registrado para la empresa ${personaId}`,
+    );
+    return this.mapearConfiguracion(guardada);
+  }
+
+  /**
+   * Obtiene la configuración SUNAT de la empresa sin los secretos
+   * @param personaId - ID de la empresa
+   */
+  async obtenerConfiguracion(
+    personaId: number,
+  ): Promise<ResponseConfiguracionSunatDto> {
+    const configuracion = await this.configuracionRepository.findOne({
+      where: { persona: { id: personaId } },
+    });
+    if (!configuracion) {
+      throw new NotFoundException(
+        'La empresa no tiene configurado su certificado digital',
+      );
+    }
+    return this.mapearConfiguracion(configuracion);
+  }
+
+  /**
+   * Firma y envía una factura o nota de factura con sendBill y guarda su CDR
+   * Los rechazos de SUNAT quedan registrados en el documento con su código de error
+   * @param idComprobante - ID del comprobante
+   * @param personaId - ID de la empresa
+   */
+  async enviarComprobante(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<DocumentoElectronico> {
+    const comprobante =
+      await this.facturacionElectronicaService.cargarComprobante(
+        idComprobante,
+        personaId,
+      );
+    if (this.vaEnResumen(comprobante)) {
+      throw new BadRequestException(
+        'Las boletas y sus notas se envían en el resumen diario',
+      );
+    }
+
+    const documento = await this.facturacionElectronicaService.obtenerDocumento(
+      idComprobante,
+      personaId,
+    );
+    if (
+      [EstadoSunat.ACEPTADO, EstadoSunat.OBSERVADO].includes(documento.estado)
+    ) {
+      throw new ConflictException('El comprobante ya fue aceptado por SUNAT');
+    }
+    // Un comprobante rechazado no puede reenviarse con la misma serie y número
+    if (documento.estado === EstadoSunat.RECHAZADO) {
+      throw new ConflictException(
+        'El comprobante fue rechazado por SUNAT; debe emitirse con un nuevo número',
+      );
+    }
+
+    const { credenciales, certificado } =
+      await this.cargarCredenciales(personaId);
+
+    if (!documento.firmado) {
+      const firmado = this.firmaDigitalService.firmar(
+        documento.xml,
+        certificado,
+      );
+      documento.xml = firmado.xml;
+      documento.hash = firmado.digestValue;
+      documento.firmado = true;
+    }
+
+    documento.fechaEnvio = new Date();
+    try {
+      const cdr = await this.transport.sendBill(
+        this.comprimir(documento.nombreArchivo, documento.xml),
+        credenciales,
+      );
+      this.aplicarCdr(documento, cdr);
+    } catch (error) {
+      this.registrarError(documento, error);
+    }
+
+    const guardado = await this.documentoRepository.save(documento);
+    this.logger.log(
+      `${documento.nombreArchivo}: ${guardado.estado} ${guardado.codigoRespuesta ?? ''}`,
+    );
+    return guardado;
+  }
+
+  /**
+   * Envía el resumen diario de las boletas (y sus notas) pendientes de una fecha
+   * @param personaId - ID de la empresa
+   * @param fecha - Fecha de emisión (YYYY-MM-DD)
+   */
+  async enviarResumenDiario(
+    personaId: number,
+    fecha: string,
+  ): Promise<ResponseResumenDiarioDto> {
+    const [año, mes, dia] = fecha.slice(0, 10).split('-').map(Number);
+    const inicio = new Date(año, mes - 1, dia);
+    const fin = new Date(año, mes - 1, dia + 1);
+
+    const candidatos = await this.comprobanteRepository
+      .createQueryBuilder('comprobante')
+      .leftJoinAndSelect('comprobante.persona', 'persona')
+      .leftJoinAndSelect('comprobante.entidad', 'entidad')
+      .leftJoinAndSelect('comprobante.tipoOperacion', 'tipoOperacion')
+      .leftJoinAndSelect('comprobante.tipoComprobante', 'tipoComprobante')
+      .leftJoinAndSelect('comprobante.totales', 'totales')
+      .leftJoinAndSelect('comprobante.detalles', 'detalles')
+      .leftJoinAndSelect('comprobante.comprobanteAfecto', 'comprobanteAfecto')
+      .leftJoinAndSelect('comprobanteAfecto.tipoOperacion', 'afectoOperacion')
+      .leftJoinAndSelect('comprobanteAfecto.tipoComprobante', 'afectoTipo')
+      .where('persona.id = :personaId', { personaId })
+      .andWhere('comprobante.fechaEmision >= :inicio', { inicio })
+      .andWhere('comprobante.fechaEmision < :fin', { fin })
+      .orderBy('comprobante.serie', 'ASC')
+      .addOrderBy('comprobante.numero', 'ASC')
+      .getMany();
+
+    const comprobantes = candidatos.filter(
+      (c) =>
+        this.vaEnResumen(c) &&
+        (c.tipoOperacion?.codigo === '01' ||
+          c.comprobanteAfecto?.tipoOperacion?.codigo === '01'),
+    );
+
+    // Documentos que aún deben informarse
+    const documentos: DocumentoElectronico[] = [];
+    const incluidos: Comprobante[] = [];
+    for (const comprobante of comprobantes) {
+      const documento =
+        await this.facturacionElectronicaService.obtenerDocumento(
+          comprobante.idComprobante,
+          personaId,
+        );
+      if (
+        [
+          EstadoSunat.PENDIENTE,
+          EstadoSunat.RECHAZADO,
+          EstadoSunat.ERROR,
+        ].includes(documento.estado)
+      ) {
+        documentos.push(documento);
+        incluidos.push(comprobante);
+      }
+    }
+
+    if (incluidos.length === 0) {
+      throw new BadRequestException(
+        `No hay boletas pendientes de informar del ${fecha.slice(0, 10)}`,
+      );
+    }
+
+    const { credenciales, certificado } =
+      await this.cargarCredenciales(personaId);
+    const persona = incluidos[0].persona;
+    const fechaCompacta = fecha.slice(0, 10).replace(/-/g, '');
+
+    // Correlativo de resúmenes enviados hoy
+    const enviadosHoy = await this.documentoRepository
+      .createQueryBuilder('documento')
+      .innerJoin('documento.comprobante', 'comprobante')
+      .select('COUNT(DISTINCT documento.resumen)', 'cantidad')
+      .where('comprobante.id_persona = :personaId', { personaId })
+      .andWhere('documento.resumen LIKE :prefijo', {
+        prefijo: `RC-${this.formatearFechaCompacta(new Date())}-%`,
+      })
+      .getRawOne<{ cantidad: string }>();
+    const resumen = `RC-${this.formatearFechaCompacta(new Date())}-${Number(enviadosHoy?.cantidad ?? 0) + 1}`;
+
+    const xml = this.ublService.construirResumenDiario(
+      persona,
+      resumen,
+      fecha.slice(0, 10),
+      incluidos,
+    );
+    const firmado = this.firmaDigitalService.firmar(xml, certificado);
+
+    const ticket = await this.transport.sendSummary(
+      this.comprimir(`${persona.ruc}-${resumen}.xml`, firmado.xml),
+      credenciales,
+    );
+
+    const fechaEnvio = new Date();
+    for (const documento of documentos) {
+      documento.estado = EstadoSunat.ENVIADO;
+      documento.resumen = resumen;
+      documento.ticket = ticket;
+      documento.fechaEnvio = fechaEnvio;
+      documento.codigoRespuesta = null;
+      documento.descripcionRespuesta = null;
+      documento.notas = null;
+    }
+    await this.documentoRepository.save(documentos);
+
+    this.logger.log(
+      `Resumen ${resumen} del ${fechaCompacta} enviado con ticket ${ticket} (${documentos.length} comprobantes)`,
+    );
+    return {
+      resumen,
+      ticket,
+      cantidadComprobantes: documentos.length,
+    };
+  }
+
+  /**
+   * Consulta el ticket del resumen en el que se envió un comprobante
+   * El resultado se aplica a todos los comprobantes del mismo resumen
+   * @param idComprobante - ID del comprobante
+   * @param personaId - ID de la empresa
+   */
+  async consultarTicket(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<DocumentoElectronico> {
+    const documento = await this.facturacionElectronicaService.obtenerDocumento(
+      idComprobante,
+      personaId,
+    );
+    if (!documento.ticket) {
+      throw new BadRequestException(
+        'El comprobante no se envió en un resumen diario',
+      );
+    }
+    if (documento.estado !== EstadoSunat.ENVIADO) {
+      return documento;
+    }
+
+    const { credenciales } = await this.cargarCredenciales(personaId);
+    const estado = await this.transport.getStatus(
+      documento.ticket,
+      credenciales,
+    );
+
+    // 98 = el resumen aún está en proceso
+    if (estado.codigo === '98' || !estado.cdr) {
+      return documento;
+    }
+
+    const delResumen = await this.documentoRepository.find({
+      where: {
+        ticket: documento.ticket,
+        comprobante: { persona: { id: personaId } },
+        estado: EstadoSunat.ENVIADO,
+      },
+    });
+    for (const item of delResumen) {
+      try {
+        this.aplicarCdr(item, estado.cdr);
+      } catch (error) {
+        this.registrarError(item, error);
+      }
+    }
+    await this.documentoRepository.save(delResumen);
+
+    return (
+      delResumen.find((item) => item.id === documento.id) ??
+      this.facturacionElectronicaService.obtenerDocumento(
+        idComprobante,
+        personaId,
+      )
+    );
+  }
+
+  /**
+   * Boletas (03) y notas que modifican boletas
+   */
+  private vaEnResumen(comprobante: Comprobante): boolean {
+    const tipo = comprobante.tipoComprobante?.codigo;
+    if (tipo === '03') {
+      return true;
+    }
+    return (
+      ['07', '08'].includes(tipo) &&
+      comprobante.comprobanteAfecto?.tipoComprobante?.codigo === '03'
+    );
+  }
+
+  /**
+   * Carga las credenciales SOL y el certificado de la empresa
+   */
+  private async cargarCredenciales(personaId: number): Promise<{
+    credenciales: CredencialesSunat;
+    certificado: CertificadoDigital;
+  }> {
+    const configuracion = await this.configuracionRepository
+      .createQueryBuilder('configuracion')
+      .addSelect([
+        'configuracion.certificado',
+        'configuracion.claveCertificado',
+        'configuracion.claveSol',
+      ])
+      .innerJoinAndSelect('configuracion.persona', 'persona')
+      .where('persona.id = :personaId', { personaId })
+      .getOne();
+
+    if (!configuracion) {
+      throw new BadRequestException(
+        'La empresa no tiene configurado su certificado digital ni sus credenciales SOL',
+      );
+    }
+
+    return {
+      credenciales: {
+        ruc: configuracion.persona.ruc,
+        usuario: configuracion.usuarioSol,
+        clave: this.cifradoCredencialesService.descifrar(
+          configuracion.claveSol,
+        ),
+        entorno: configuracion.entorno,
+      },
+      certificado: this.firmaDigitalService.leerCertificado(
+        configuracion.certificado,
+        this.cifradoCredencialesService.descifrar(
+          configuracion.claveCertificado,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Lee el CDR y actualiza el estado del documento
+   * Código 0: aceptado (observado si trae notas); 2000-3999: rechazado; otros: excepción
+   */
+  private aplicarCdr(documento: DocumentoElectronico, cdrZip: Buffer): void {
+    const entrada = new AdmZip(cdrZip)
+      .getEntries()
+      .find((item) => item.entryName.toLowerCase().endsWith('.xml'));
+    if (!entrada) {
+      throw new Error('El CDR no contiene el XML de respuesta');
+    }
+
+    const cdrXml = entrada.getData().toString('utf8');
+    const leer = (etiqueta: string) =>
+      new RegExp(
+        `<(?:[\\w-]+:)?${etiqueta}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${etiqueta}>`,
+      )
+        .exec(cdrXml)?.[1]
+        .trim() ?? null;
+
+    const codigo = leer('ResponseCode') ?? '';
+    const notas = Array.from(
+      cdrXml.matchAll(
+        /<(?:[\w-]+:)?Note(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w-]+:)?Note>/g,
+      ),
+    ).map((coincidencia) => coincidencia[1].trim());
+    const numero = Number(codigo);
+
+    documento.codigoRespuesta = codigo;
+    documento.descripcionRespuesta = leer('Description');
+    documento.notas = notas.length > 0 ? notas : null;
+    documento.cdr = cdrZip.toString('base64');
+    documento.estado =
+      numero === 0
+        ? notas.length > 0
+          ? EstadoSunat.OBSERVADO
+          : EstadoSunat.ACEPTADO
+        : numero >= 2000 && numero < 4000
+          ? EstadoSunat.RECHAZADO
+          : EstadoSunat.ERROR;
+  }
+
+  /**
+   * Registra en el documento un SOAP Fault de SUNAT o un error del envío
+   */
+  private registrarError(
+    documento: DocumentoElectronico,
+    error: unknown,
+  ): void {
+    if (error instanceof SunatFaultError) {
+      const numero = Number(error.codigo);
+      documento.codigoRespuesta = error.codigo.slice(0, 10);
+      documento.descripcionRespuesta = error.message;
+      // 0100-1999 son excepciones: el documento no fue recibido y puede reenviarse
+      documento.estado =
+        numero >= 2000 && numero < 4000
+          ? EstadoSunat.RECHAZADO
+          : EstadoSunat.ERROR;
+      return;
+    }
+
+    this.logger.error(
+      `Error al enviar ${documento.nombreArchivo} a SUNAT`,
+      error instanceof Error ? error.stack : String(error),
+    );
+    documento.codigoRespuesta = null;
+    documento.descripcionRespuesta =
+      error instanceof Error ? error.message : String(error);
+    documento.estado = EstadoSunat.ERROR;
+  }
+
+  /**
+   * Empaqueta el XML en el ZIP que recibe SUNAT
+   */
+  private comprimir(nombreXml: string, xml: string) {
+    const zip = new AdmZip();
+    zip.addFile(nombreXml, Buffer.from(xml, 'utf8'));
+    return {
+      nombreArchivo: nombreXml.replace(/\.xml$/i, '.zip'),
+      contenido: zip.toBuffer(),
+    };
+  }
+
+  private formatearFechaCompacta(fecha: Date): string {
+    const mes = String(fecha.getMonth() + 1).padStart(2, '0');
+    const dia = String(fecha.getDate()).padStart(2, '0');
+    return `${fecha.getFullYear()}${mes}${dia}`;
+  }
+
+  private mapearConfiguracion(
+    configuracion: ConfiguracionSunat,
+  ): ResponseConfiguracionSunatDto {
+    return {
+      titularCertificado: configuracion.titularCertificado,
+      vencimientoCertificado: configuracion.vencimientoCertificado,
+      usuarioSol: configuracion.usuarioSol,
+      entorno: configuracion.entorno,
+      fechaActualizacion: configuracion.fechaActualizacion,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { DocumentoElectronico } from '../entities';
+import { EstadoSunat } from '../enum';
+import { UblService } from './ubl.service';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+
+/**
+ * Servicio para generar y conservar los documentos electrónicos de los comprobantes de venta
+ */
+@Injectable()
+export class FacturacionElectronicaService {
+  private readonly logger = new Logger(FacturacionElectronicaService.name);
+
+  constructor(
+    @InjectRepository(DocumentoElectronico)
+    private readonly documentoRepository: Repository<DocumentoElectronico>,
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    private readonly ublService: UblService,
+  ) {}
+
+  /**
+   * Obtiene el documento electrónico de un comprobante, generándolo la primera vez
+   * Una vez generado se devuelve siempre el mismo XML
+   * @param idComprobante - ID del comprobante
+   * @param personaId - ID de la empresa
+   */
+  async obtenerDocumento(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<DocumentoElectronico> {
+    const existente = await this.buscarDocumento(idComprobante, personaId);
+    return existente ?? this.generarDocumento(idComprobante, personaId);
+  }
+
+  /**
+   * Genera (o vuelve a generar) el XML UBL 2.1 de un comprobante y guarda su hash
+   * @param idComprobante - ID del comprobante
+   * @param personaId - ID de la empresa
+   */
+  async generarDocumento(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<DocumentoElectronico> {
+    const comprobante = await this.cargarComprobante(idComprobante, personaId);
+
+    const xml = this.ublService.construirXml(comprobante);
+    const documento =
+      (await this.buscarDocumento(idComprobante, personaId)) ??
+      this.documentoRepository.create({ comprobante });
+
+    // Lo enviado a SUNAT no se vuelve a generar
+    if (
+      ![
+        EstadoSunat.PENDIENTE,
+        EstadoSunat.RECHAZADO,
+        EstadoSunat.ERROR,
+      ].includes(documento.estado ?? EstadoSunat.PENDIENTE)
+    ) {
+      throw new ConflictException(
+        `El documento ya fue enviado a SUNAT (estado ${documento.estado})`,
+      );
+    }
+
+    documento.nombreArchivo = this.ublService.obtenerNombreArchivo(comprobante);
+    documento.xml = xml;
+    documento.hash = createHash('sha256').update(xml, 'utf8').digest('base64');
+    documento.firmado = false;
+    documento.estado = EstadoSunat.PENDIENTE;
+    documento.codigoRespuesta = null;
+    documento.descripcionRespuesta = null;
+    documento.notas = null;
+    documento.cdr = null;
+    documento.resumen = null;
+    documento.ticket = null;
+
+    const guardado = await this.documentoRepository.save(documento);
+    this.logger.log(
+      `Documento ${guardado.nombreArchivo} generado con hash ${guardado.hash}`,
+    );
+    return guardado;
+  }
+
+  private async buscarDocumento(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<DocumentoElectronico | null> {
+    return this.documentoRepository.findOne({
+      where: {
+        comprobante: { idComprobante, persona: { id: personaId } },
+      },
+    });
+  }
+
+  /**
+   * Carga el comprobante con todo lo necesario para el XML y valida que sea una venta
+   * @param idComprobante - ID del comprobante
+   * @param personaId - ID de la empresa
+   */
+  async cargarComprobante(
+    idComprobante: number,
+    personaId: number,
+  ): Promise<Comprobante> {
+    const comprobante = await this.comprobanteRepository.findOne({
+      where: { idComprobante, persona: { id: personaId } },
+      relations: [
+        'persona',
+        'entidad',
+        'tipoOperacion',
+        'tipoComprobante',
+        'totales',
+        'detalles',
+        'detalles.inventario',
+        'detalles.inventario.producto',
+        'comprobanteAfecto',
+        'comprobanteAfecto.tipoOperacion',
+        'comprobanteAfecto.tipoComprobante',
+      ],
+    });
+
+    if (!comprobante) {
+      throw new NotFoundException(
+        `Comprobante con ID ${idComprobante} no encontrado`,
+      );
+    }
+
+    const codigoOperacion = comprobante.tipoOperacion?.codigo;
+    const esVenta =
+      codigoOperacion === '01' ||
+      (['07', '08'].includes(codigoOperacion) &&
+        comprobante.comprobanteAfecto?.tipoOperacion?.codigo === '01');
+    if (!esVenta) {
+      throw new BadRequestException(
+        'Solo los comprobantes de venta se emiten electrónicamente',
+      );
+    }
+
+    // Orden estable de las líneas del XML
+    comprobante.detalles?.sort((a, b) => a.idDetalle - b.idDetalle);
+    return comprobante;
+  }
+}
@@ -0,0 +1,127 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import * as forge from 'node-forge';
+import { SignedXml } from 'xml-crypto';
+
+/**
+ * Certificado digital leído de un archivo PFX
+ */
+export interface CertificadoDigital {
+  clavePrivadaPem: string;
+  certificadoPem: string;
+  titular: string;
+  vencimiento: Date;
+}
+
+/**
+ * Servicio para firmar los documentos UBL con el certificado de la empresa
+ * Firma XMLDSig enveloped ubicada en ext:ExtensionContent, como exige SUNAT
+ */
+@Injectable()
+export class FirmaDigitalService {
+  private static readonly ALGORITMO_FIRMA =
+    'http://www.w3.org/2000/09/xmldsig#rsa-sha1';
+  private static readonly ALGORITMO_RESUMEN =
+    'http://www.w3.org/2000/09/xmldsig#sha1';
+  private static readonly CANONICALIZACION =
+    'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+  private static readonly TRANSFORMACION_ENVELOPED =
+    'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+  /**
+   * Lee la clave privada y el certificado de un archivo PFX
+   * @param pfx - Contenido del archivo PFX (PKCS#12)
+   * @param clave - Contraseña del archivo
+   * @throws BadRequestException si la contraseña es incorrecta o el archivo no trae clave y certificado
+   */
+  leerCertificado(pfx: Buffer, clave: string): CertificadoDigital {
+    let p12: forge.pkcs12.Pkcs12Pfx;
+    try {
+      const asn1 = forge.asn1.fromDer(
+        forge.util.createBuffer(pfx.toString('binary')),
+      );
+      p12 = forge.pkcs12.pkcs12FromAsn1(asn1, clave);
+    } catch {
+      throw new BadRequestException(
+        'No se pudo leer el certificado: archivo PFX inválido o contraseña incorrecta',
+      );
+    }
+
+    const oids = forge.pki.oids;
+    const clavePrivada = (
+      p12.getBags({ bagType: oids.pkcs8ShroudedKeyBag })[
+        oids.pkcs8ShroudedKeyBag
+      ]?.[0] ?? p12.getBags({ bagType: oids.keyBag })[oids.keyBag]?.[0]
+    )?.key;
+
+    // En una cadena, el certificado de la empresa es el que corresponde a la clave privada
+    const certificado = (
+      p12.getBags({ bagType: oids.certBag })[oids.certBag] ?? []
+    )
+      .map((bolsa) => bolsa.cert)
+      .find(
+        (cert) =>
+          cert &&
+          clavePrivada &&
+          (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(clavePrivada.n),
+      );
+
+    if (!clavePrivada || !certificado) {
+      throw new BadRequestException(
+        'El archivo PFX no contiene la clave privada y su certificado',
+      );
+    }
+
+    const nombreComun = certificado.subject.getField('CN') as
+      | { value: string }
+      | undefined;
+
+    return {
+      clavePrivadaPem: forge.pki.privateKeyToPem(clavePrivada),
+      certificadoPem: forge.pki.certificateToPem(certificado),
+      titular: nombreComun?.value ?? '',
+      vencimiento: certificado.validity.notAfter,
+    };
+  }
+
+  /**
+   * Firma un documento UBL
+   * @param xml - XML con ext:ExtensionContent vacío
+   * @param certificado - Certificado leído con leerCertificado
+   * @returns XML firmado y el DigestValue de la firma (valor resumen)
+   */
+  firmar(
+    xml: string,
+    certificado: CertificadoDigital,
+  ): { xml: string; digestValue: string } {
+    if (certificado.vencimiento < new Date()) {
+      throw new BadRequestException('El certificado digital está vencido');
+    }
+
+    const firma = new SignedXml({
+      privateKey: certificado.clavePrivadaPem,
+      publicCert: certificado.certificadoPem,
+      signatureAlgorithm: FirmaDigitalService.ALGORITMO_FIRMA,
+      canonicalizationAlgorithm: FirmaDigitalService.CANONICALIZACION,
+    });
+    firma.addReference({
+      xpath: '/*',
+      transforms: [FirmaDigitalService.TRANSFORMACION_ENVELOPED],
+      digestAlgorithm: FirmaDigitalService.ALGORITMO_RESUMEN,
+      isEmptyUri: true,
+    });
+    firma.computeSignature(xml, {
+      prefix: 'ds',
+      attrs: { Id: 'SignatureSP' },
+      location: {
+        reference: "//*[local-name(.)='ExtensionContent']",
+        action: 'append',
+      },
+    });
+
+    const xmlFirmado = firma.getSignedXml();
+    const digestValue =
+      /<ds:DigestValue>([^<]+)<\/ds:DigestValue>/.exec(xmlFirmado)?.[1] ?? '';
+
+    return { xml: xmlFirmado, digestValue };
+  }
+}
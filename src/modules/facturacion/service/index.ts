@@ -0,0 +1,6 @@
+export { UblService } from './ubl.service';
+export { FacturacionElectronicaService } from './facturacion-electronica.service';
+export { FirmaDigitalService } from './firma-digital.service';
+export type { CertificadoDigital } from './firma-digital.service';
+export { EnvioSunatService } from './envio-sunat.service';
+export { CifradoCredencialesService } from './cifrado-credenciales.service';
@@ -0,0 +1,134 @@
+import { BadRequestException } from '@nestjs/common';
+import { UblService } from './ubl.service';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { TipoAfectacionIgv } from '../../comprobantes/enum/tipo-afectacion-igv.enum';
+import { EntidadType } from '../../entidades/enums';
+
+/**
+ * Tests unitarios para UblService
+ * Verifica la estructura UBL 2.1 y la leyenda del monto en letras
+ */
+describe('UblService', () => {
+  const service = new UblService();
+
+  const factura = () =>
+    ({
+      idComprobante: 10,
+      serie: 'F001',
+      numero: '123',
+      fechaEmision: new Date(2024, 2, 5, 10, 30, 0),
+      moneda: Moneda.PEN,
+      persona: {
+        ruc: '20123456789',
+        nombreEmpresa: 'COMERCIAL',
+        razonSocial: 'COMERCIAL S.A.C.',
+      },
+      entidad: {
+        tipo: EntidadType.JURIDICA,
+        numeroDocumento: '20999999999',
+        nombreCompleto: 'CLIENTE & ASOCIADOS SAC',
+      },
+      tipoComprobante: { codigo: '01' },
+      totales: { totalGeneral: '138.00' },
+      detalles: [
+        {
+          cantidad: '2',
+          unidadMedida: 'KG',
+          precioUnitario: '50',
+          subtotal: '100.00',
+          igv: '18.00',
+          total: '118.00',
+          descripcion: 'Arroz',
+          tipoAfectacionIgv: TipoAfectacionIgv.GRAVADO_ONEROSA,
+        },
+        {
+          cantidad: '1',
+          unidadMedida: 'UND',
+          precioUnitario: '20',
+          subtotal: '20.00',
+          igv: '0',
+          total: '20.00',
+          descripcion: 'Libro',
+          tipoAfectacionIgv: TipoAfectacionIgv.EXONERADO_ONEROSA,
+        },
+      ],
+    }) as unknown as Comprobante;
+
+  describe('construirXml', () => {
+    it('should build an Invoice with tax subtotals by affectation', () => {
+      const xml = service.construirXml(factura());
+
+      expect(
+        xml.startsWith('<?xml version="1.0" encoding="UTF-8"?><Invoice'),
+      ).toBe(true);
+      expect(xml).toContain('<cbc:ID>F001-123</cbc:ID>');
+      expect(xml).toContain('<cbc:IssueDate>2024-03-05</cbc:IssueDate>');
+      expect(xml).toContain(
+        '<cbc:InvoiceTypeCode listID="0101">01</cbc:InvoiceTypeCode>',
+      );
+      expect(xml).toContain(
+        '<cbc:Note languageLocaleID="1000">CIENTO TREINTA Y OCHO CON 00/100 SOLES</cbc:Note>',
+      );
+      expect(xml).toContain('CLIENTE &amp; ASOCIADOS SAC');
+      expect(xml).toContain('<cbc:PaymentMeansID>Contado</cbc:PaymentMeansID>');
+      expect(xml).toContain(
+        '<cac:TaxTotal><cbc:TaxAmount currencyID="PEN">18.00</cbc:TaxAmount>',
+      );
+      expect(xml).toContain('<cbc:ID>1000</cbc:ID><cbc:Name>IGV</cbc:Name>');
+      expect(xml).toContain('<cbc:ID>9997</cbc:ID><cbc:Name>EXO</cbc:Name>');
+      expect(xml).toContain(
+        '<cbc:InvoicedQuantity unitCode="KGM">2.00</cbc:InvoicedQuantity>',
+      );
+      expect(xml).toContain(
+        '<cbc:PayableAmount currencyID="PEN">138.00</cbc:PayableAmount>',
+      );
+      expect(xml.endsWith('</Invoice>')).toBe(true);
+    });
+
+    it('should build a CreditNote referencing the affected document', () => {
+      const xml = service.construirXml({
+        ...factura(),
+        serie: 'FC01',
+        numero: '7',
+        tipoComprobante: { codigo: '07' },
+        comprobanteAfecto: {
+          serie: 'F001',
+          numero: '123',
+          tipoComprobante: { codigo: '01' },
+        },
+      } as unknown as Comprobante);
+
+      expect(xml).toContain('<CreditNote xmlns=');
+      expect(xml).toContain('<cbc:ReferenceID>F001-123</cbc:ReferenceID>');
+      expect(xml).toContain('<cbc:DocumentTypeCode>01</cbc:DocumentTypeCode>');
+      expect(xml).toContain('<cac:CreditNoteLine>');
+      expect(xml).toContain('CreditedQuantity');
+      expect(xml).not.toContain('InvoiceTypeCode');
+      expect(xml).not.toContain('PaymentTerms');
+    });
+
+    it('should reject documents without detalles', () => {
+      expect(() =>
+        service.construirXml({
+          ...factura(),
+          detalles: [],
+        } as unknown as Comprobante),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('montoEnLetras', () => {
+    it('should spell amounts in Spanish', () => {
+      expect(service.montoEnLetras(100, Moneda.PEN)).toBe(
+        'CIEN CON 00/100 SOLES',
+      );
+      expect(service.montoEnLetras(21001.5, Moneda.USD)).toBe(
+        'VEINTIÚN MIL UNO CON 50/100 DÓLARES AMERICANOS',
+      );
+      expect(service.montoEnLetras(1250000, Moneda.PEN)).toBe(
+        'UN MILLÓN DOSCIENTOS CINCUENTA MIL CON 00/100 SOLES',
+      );
+    });
+  });
+});
@@ -0,0 +1,692 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { TipoAfectacionIgv } from '../../comprobantes/enum/tipo-afectacion-igv.enum';
+import { EntidadType } from '../../entidades/enums';
+import { Persona } from '../../users/entities/persona.entity';
+import { obtenerCodigoUnidadSunat } from '../../productos/enum/unidad-medida-sunat';
+import { importeEnLetras } from '../../comprobantes/pdf/monto-en-letras';
+
+/**
+ * Tributo de la Tabla 05 de SUNAT usado en los subtotales de impuestos
+ */
+interface Tributo {
+  id: string;
+  nombre: string;
+  codigoTipo: string;
+  categoria: string;
+}
+
+/**
+ * Servicio que construye los documentos UBL 2.1 exigidos por SUNAT
+ * Facturas y boletas como Invoice; notas de crédito y débito como CreditNote y DebitNote
+ */
+@Injectable()
+export class UblService {
+  /** Tipos de comprobante (Tabla 10) que se emiten electrónicamente */
+  static readonly TIPOS_EMITIBLES = ['01', '03', '07', '08'];
+
+  private static readonly NAMESPACES_COMUNES = [
+    'xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    'xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"',
+    'xmlns:ds="http://www.w3.org/2000/09/xmldsig#"',
+    'xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"',
+  ];
+
+  /** Tributo que corresponde a cada afectación del IGV (Catálogo 07 → Tabla 05) */
+  private static readonly TRIBUTOS: Record<TipoAfectacionIgv, Tributo> = {
+    [TipoAfectacionIgv.GRAVADO_ONEROSA]: {
+      id: '1000',
+      nombre: 'IGV',
+      codigoTipo: 'VAT',
+      categoria: 'S',
+    },
+    [TipoAfectacionIgv.EXONERADO_ONEROSA]: {
+      id: '9997',
+      nombre: 'EXO',
+      codigoTipo: 'VAT',
+      categoria: 'E',
+    },
+    [TipoAfectacionIgv.INAFECTO_ONEROSA]: {
+      id: '9998',
+      nombre: 'INA',
+      codigoTipo: 'FRE',
+      categoria: 'O',
+    },
+    [TipoAfectacionIgv.EXPORTACION]: {
+      id: '9995',
+      nombre: 'EXP',
+      codigoTipo: 'FRE',
+      categoria: 'G',
+    },
+  };
+
+  private static readonly TRIBUTO_ISC: Tributo = {
+    id: '2000',
+    nombre: 'ISC',
+    codigoTipo: 'EXC',
+    categoria: 'S',
+  };
+
+  /**
+   * Nombre del archivo XML según SUNAT: RUC-TIPO-SERIE-NUMERO.xml
+   */
+  obtenerNombreArchivo(comprobante: Comprobante): string {
+    return `${comprobante.persona.ruc}-${comprobante.tipoComprobante.codigo}-${comprobante.serie}-${comprobante.numero}.xml`;
+  }
+
+  /**
+   * Construye el XML UBL 2.1 del comprobante
+   * @param comprobante - Comprobante con persona, entidad, tipos, detalles, totales y comprobante afecto
+   * @returns XML sin firmar; la firma se inserta en ext:ExtensionContent
+   */
+  construirXml(comprobante: Comprobante): string {
+    const tipo = comprobante.tipoComprobante?.codigo;
+    if (!UblService.TIPOS_EMITIBLES.includes(tipo)) {
+      throw new BadRequestException(
+        `El tipo de comprobante ${tipo} no se emite electrónicamente`,
+      );
+    }
+    if (!comprobante.detalles || comprobante.detalles.length === 0) {
+      throw new BadRequestException(
+        'El comprobante no tiene detalles para emitir',
+      );
+    }
+    if (!comprobante.totales) {
+      throw new BadRequestException('El comprobante no tiene totales');
+    }
+
+    const esNota = tipo === '07' || tipo === '08';
+    if (esNota && !comprobante.comprobanteAfecto) {
+      throw new BadRequestException(
+        'La nota no tiene un comprobante afecto al cual referirse',
+      );
+    }
+
+    const raiz =
+      tipo === '07' ? 'CreditNote' : tipo === '08' ? 'DebitNote' : 'Invoice';
+    const moneda = comprobante.moneda;
+    const totalGeneral = Number(comprobante.totales.totalGeneral);
+
+    const partes: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<${raiz} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${raiz}-2" ${UblService.NAMESPACES_COMUNES.join(' ')}>`,
+      '<ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent/></ext:UBLExtension></ext:UBLExtensions>',
+      '<cbc:UBLVersionID>2.1</cbc:UBLVersionID>',
+      '<cbc:CustomizationID>2.0</cbc:CustomizationID>',
+      this.elemento('cbc:ID', `${comprobante.serie}-${comprobante.numero}`),
+      this.elemento(
+        'cbc:IssueDate',
+        this.formatearFecha(comprobante.fechaEmision),
+      ),
+      this.elemento(
+        'cbc:IssueTime',
+        this.formatearHora(comprobante.fechaEmision),
+      ),
+    ];
+
+    if (!esNota) {
+      if (comprobante.fechaVencimiento) {
+        partes.push(
+          this.elemento(
+            'cbc:DueDate',
+            this.formatearFecha(comprobante.fechaVencimiento),
+          ),
+        );
+      }
+      partes.push(
+        `<cbc:InvoiceTypeCode listID="${this.tipoOperacionSunat(comprobante)}">${tipo}</cbc:InvoiceTypeCode>`,
+      );
+    }
+
+    partes.push(
+      `<cbc:Note languageLocaleID="1000">${this.escapar(this.montoEnLetras(totalGeneral, moneda))}</cbc:Note>`,
+      this.elemento('cbc:DocumentCurrencyCode', moneda),
+    );
+
+    if (esNota) {
+      partes.push(...this.referenciaNota(comprobante, tipo));
+    }
+
+    partes.push(
+      this.firmante(comprobante.persona),
+      this.emisor(comprobante),
+      this.adquirente(comprobante),
+    );
+
+    if (tipo === '01') {
+      partes.push(...this.formaPago(comprobante, totalGeneral));
+    }
+
+    partes.push(this.totalImpuestos(comprobante.detalles, moneda));
+
+    const valorVenta = this.sumar(comprobante.detalles, (d) => d.subtotal);
+    partes.push(
+      `<cac:${raiz === 'DebitNote' ? 'RequestedMonetaryTotal' : 'LegalMonetaryTotal'}>`,
+      this.importe('cbc:LineExtensionAmount', valorVenta, moneda),
+      this.importe('cbc:TaxInclusiveAmount', totalGeneral, moneda),
+      this.importe('cbc:PayableAmount', totalGeneral, moneda),
+      `</cac:${raiz === 'DebitNote' ? 'RequestedMonetaryTotal' : 'LegalMonetaryTotal'}>`,
+    );
+
+    comprobante.detalles.forEach((detalle, indice) => {
+      partes.push(this.linea(raiz, detalle, indice + 1, moneda));
+    });
+
+    partes.push(`</${raiz}>`);
+    return partes.join('');
+  }
+
+  /**
+   * Construye el resumen diario (SummaryDocuments) de boletas y sus notas
+   * @param persona - Empresa emisora
+   * @param identificador - RC-AAAAMMDD-N
+   * @param fechaReferencia - Fecha de emisión de los comprobantes (AAAA-MM-DD)
+   * @param comprobantes - Comprobantes con entidad, tipos, detalles, totales y comprobante afecto
+   */
+  construirResumenDiario(
+    persona: Persona,
+    identificador: string,
+    fechaReferencia: string,
+    comprobantes: Comprobante[],
+  ): string {
+    if (comprobantes.length === 0) {
+      throw new BadRequestException('No hay comprobantes para el resumen');
+    }
+
+    const lineas = comprobantes.map((comprobante, indice) =>
+      this.lineaResumen(comprobante, indice + 1),
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<SummaryDocuments xmlns="urn:sunat:names:specification:ubl:peru:schema:xsd:SummaryDocuments-1" ${UblService.NAMESPACES_COMUNES.join(' ')} xmlns:sac="urn:sunat:names:specification:ubl:peru:schema:xsd:SunatAggregateComponents-1">`,
+      '<ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent/></ext:UBLExtension></ext:UBLExtensions>',
+      '<cbc:UBLVersionID>2.0</cbc:UBLVersionID>',
+      '<cbc:CustomizationID>1.1</cbc:CustomizationID>',
+      this.elemento('cbc:ID', identificador),
+      this.elemento('cbc:ReferenceDate', fechaReferencia),
+      this.elemento('cbc:IssueDate', this.formatearFecha(new Date())),
+      this.firmante(persona),
+      '<cac:AccountingSupplierParty>',
+      this.elemento('cbc:CustomerAssignedAccountID', persona.ruc),
+      this.elemento('cbc:AdditionalAccountID', '6'),
+      '<cac:Party><cac:PartyLegalEntity>',
+      this.elemento('cbc:RegistrationName', this.razonSocialEmisor(persona)),
+      '</cac:PartyLegalEntity></cac:Party>',
+      '</cac:AccountingSupplierParty>',
+      ...lineas,
+      '</SummaryDocuments>',
+    ].join('');
+  }
+
+  /**
+   * Convierte un importe a letras para la leyenda 1000
+   * Ejemplo: 118.5 PEN → "CIENTO DIECIOCHO CON 50/100 SOLES"
+   */
+  montoEnLetras(monto: number, moneda: Moneda): string {
+    return importeEnLetras(monto, moneda);
+  }
+
+  /**
+   * Línea del resumen diario con importes por afectación
+   */
+  private lineaResumen(comprobante: Comprobante, numero: number): string {
+    const moneda = comprobante.moneda;
+    const detalles = comprobante.detalles ?? [];
+    const afecto = comprobante.comprobanteAfecto;
+    // Catálogo 11: 01 gravado, 02 exonerado, 03 inafecto, 04 exportación
+    const instrucciones: Record<TipoAfectacionIgv, string> = {
+      [TipoAfectacionIgv.GRAVADO_ONEROSA]: '01',
+      [TipoAfectacionIgv.EXONERADO_ONEROSA]: '02',
+      [TipoAfectacionIgv.INAFECTO_ONEROSA]: '03',
+      [TipoAfectacionIgv.EXPORTACION]: '04',
+    };
+
+    const pagos = Object.values(TipoAfectacionIgv)
+      .map((afectacion) => ({
+        instruccion: instrucciones[afectacion],
+        monto: this.sumar(
+          detalles.filter((d) => this.afectacion(d) === afectacion),
+          (d) => d.subtotal,
+        ),
+      }))
+      .filter((pago) => pago.monto > 0)
+      .map((pago) =>
+        [
+          '<sac:BillingPayment>',
+          this.importe('cbc:PaidAmount', pago.monto, moneda),
+          this.elemento('cbc:InstructionID', pago.instruccion),
+          '</sac:BillingPayment>',
+        ].join(''),
+      );
+
+    const igv = this.sumar(detalles, (d) => d.igv);
+    const isc = this.sumar(detalles, (d) => d.isc);
+    // En el resumen los subtotales de impuestos no llevan base imponible
+    const tributos = [
+      this.subtotalImpuesto(
+        null,
+        igv,
+        UblService.TRIBUTOS[TipoAfectacionIgv.GRAVADO_ONEROSA],
+        moneda,
+      ),
+      isc > 0
+        ? this.subtotalImpuesto(null, isc, UblService.TRIBUTO_ISC, moneda)
+        : '',
+    ];
+
+    return [
+      '<sac:SummaryDocumentsLine>',
+      this.elemento('cbc:LineID', String(numero)),
+      this.elemento('cbc:DocumentTypeCode', comprobante.tipoComprobante.codigo),
+      this.elemento('cbc:ID', `${comprobante.serie}-${comprobante.numero}`),
+      comprobante.entidad
+        ? [
+            '<cac:AccountingCustomerParty>',
+            this.elemento(
+              'cbc:CustomerAssignedAccountID',
+              comprobante.entidad.numeroDocumento,
+            ),
+            this.elemento(
+              'cbc:AdditionalAccountID',
+              this.tipoDocumentoAdquirente(comprobante),
+            ),
+            '</cac:AccountingCustomerParty>',
+          ].join('')
+        : '',
+      afecto
+        ? [
+            '<cac:BillingReference><cac:InvoiceDocumentReference>',
+            this.elemento('cbc:ID', `${afecto.serie}-${afecto.numero}`),
+            this.elemento(
+              'cbc:DocumentTypeCode',
+              afecto.tipoComprobante?.codigo ?? '03',
+            ),
+            '</cac:InvoiceDocumentReference></cac:BillingReference>',
+          ].join('')
+        : '',
+      // 1 = adicionar
+      '<cac:Status><cbc:ConditionCode>1</cbc:ConditionCode></cac:Status>',
+      this.importe(
+        'sac:TotalAmount',
+        Number(comprobante.totales?.totalGeneral),
+        moneda,
+      ),
+      ...pagos,
+      '<cac:TaxTotal>',
+      this.importe('cbc:TaxAmount', igv + isc, moneda),
+      ...tributos,
+      '</cac:TaxTotal>',
+      '</sac:SummaryDocumentsLine>',
+    ].join('');
+  }
+
+  /**
+   * Catálogo 51: venta interna o exportación
+   */
+  private tipoOperacionSunat(comprobante: Comprobante): string {
+    const esExportacion = comprobante.detalles.every(
+      (d) => d.tipoAfectacionIgv === TipoAfectacionIgv.EXPORTACION,
+    );
+    return esExportacion ? '0200' : '0101';
+  }
+
+  /**
+   * Motivo (Catálogos 09 y 10) y referencia al comprobante afectado
+   */
+  private referenciaNota(comprobante: Comprobante, tipo: string): string[] {
+    const afecto = comprobante.comprobanteAfecto!;
+    const referencia = `${afecto.serie}-${afecto.numero}`;
+    // Con detalles la nota de crédito devuelve ítems; la de débito aumenta el valor
+    const motivo =
+      tipo === '07'
+        ? { codigo: '07', descripcion: 'DEVOLUCIÓN POR ÍTEM' }
+        : { codigo: '02', descripcion: 'AUMENTO EN EL VALOR' };
+
+    return [
+      '<cac:DiscrepancyResponse>',
+      this.elemento('cbc:ReferenceID', referencia),
+      this.elemento('cbc:ResponseCode', motivo.codigo),
+      this.elemento('cbc:Description', motivo.descripcion),
+      '</cac:DiscrepancyResponse>',
+      '<cac:BillingReference><cac:InvoiceDocumentReference>',
+      this.elemento('cbc:ID', referencia),
+      this.elemento(
+        'cbc:DocumentTypeCode',
+        afecto.tipoComprobante?.codigo ?? '01',
+      ),
+      '</cac:InvoiceDocumentReference></cac:BillingReference>',
+    ];
+  }
+
+  /**
+   * Referencia a la firma digital del emisor
+   */
+  private firmante(persona: Persona): string {
+    return [
+      '<cac:Signature>',
+      this.elemento('cbc:ID', 'SignatureSP'),
+      '<cac:SignatoryParty><cac:PartyIdentification>',
+      this.elemento('cbc:ID', persona.ruc),
+      '</cac:PartyIdentification><cac:PartyName>',
+      this.elemento('cbc:Name', this.razonSocialEmisor(persona)),
+      '</cac:PartyName></cac:SignatoryParty>',
+      '<cac:DigitalSignatureAttachment><cac:ExternalReference>',
+      this.elemento('cbc:URI', '#SignatureSP'),
+      '</cac:ExternalReference></cac:DigitalSignatureAttachment>',
+      '</cac:Signature>',
+    ].join('');
+  }
+
+  private emisor(comprobante: Comprobante): string {
+    const persona = comprobante.persona;
+    return [
+      '<cac:AccountingSupplierParty><cac:Party>',
+      `<cac:PartyIdentification><cbc:ID schemeID="6">${this.escapar(persona.ruc)}</cbc:ID></cac:PartyIdentification>`,
+      '<cac:PartyName>',
+      this.elemento('cbc:Name', persona.nombreEmpresa),
+      '</cac:PartyName>',
+      '<cac:PartyLegalEntity>',
+      this.elemento('cbc:RegistrationName', this.razonSocialEmisor(persona)),
+      '<cac:RegistrationAddress>',
+      this.elemento('cbc:AddressTypeCode', '0000'),
+      persona.direccion
+        ? `<cac:AddressLine>${this.elemento('cbc:Line', persona.direccion)}</cac:AddressLine>`
+        : '',
+      '</cac:RegistrationAddress>',
+      '</cac:PartyLegalEntity>',
+      '</cac:Party></cac:AccountingSupplierParty>',
+    ].join('');
+  }
+
+  private adquirente(comprobante: Comprobante): string {
+    const entidad = comprobante.entidad;
+    const tipoDocumento = this.tipoDocumentoAdquirente(comprobante);
+
+    return [
+      '<cac:AccountingCustomerParty><cac:Party>',
+      `<cac:PartyIdentification><cbc:ID schemeID="${tipoDocumento}">${this.escapar(entidad?.numeroDocumento || '-')}</cbc:ID></cac:PartyIdentification>`,
+      '<cac:PartyLegalEntity>',
+      this.elemento(
+        'cbc:RegistrationName',
+        entidad?.nombreCompleto || 'CLIENTES VARIOS',
+      ),
+      entidad?.direccion
+        ? `<cac:RegistrationAddress><cac:AddressLine>${this.elemento('cbc:Line', entidad.direccion)}</cac:AddressLine></cac:RegistrationAddress>`
+        : '',
+      '</cac:PartyLegalEntity>',
+      '</cac:Party></cac:AccountingCustomerParty>',
+    ].join('');
+  }
+
+  /**
+   * Tipo de documento de identidad del adquirente (Catálogo 06)
+   */
+  private tipoDocumentoAdquirente(comprobante: Comprobante): string {
+    if (!comprobante.entidad) {
+      return '0';
+    }
+    return comprobante.entidad.tipo === EntidadType.JURIDICA ? '6' : '1';
+  }
+
+  /**
+   * Forma de pago de la factura: contado, o crédito en una cuota al vencimiento
+   */
+  private formaPago(comprobante: Comprobante, total: number): string[] {
+    const emision = this.formatearFecha(comprobante.fechaEmision);
+    const vencimiento = comprobante.fechaVencimiento
+      ? this.formatearFecha(comprobante.fechaVencimiento)
+      : null;
+
+    if (!vencimiento || vencimiento <= emision) {
+      return [
+        '<cac:PaymentTerms><cbc:ID>FormaPago</cbc:ID><cbc:PaymentMeansID>Contado</cbc:PaymentMeansID></cac:PaymentTerms>',
+      ];
+    }
+
+    const moneda = comprobante.moneda;
+    return [
+      '<cac:PaymentTerms><cbc:ID>FormaPago</cbc:ID><cbc:PaymentMeansID>Credito</cbc:PaymentMeansID>',
+      this.importe('cbc:Amount', total, moneda),
+      '</cac:PaymentTerms>',
+      '<cac:PaymentTerms><cbc:ID>FormaPago</cbc:ID><cbc:PaymentMeansID>Cuota001</cbc:PaymentMeansID>',
+      this.importe('cbc:Amount', total, moneda),
+      this.elemento('cbc:PaymentDueDate', vencimiento),
+      '</cac:PaymentTerms>',
+    ];
+  }
+
+  /**
+   * Total de impuestos con un subtotal por cada afectación presente
+   */
+  private totalImpuestos(
+    detalles: ComprobanteDetalle[],
+    moneda: Moneda,
+  ): string {
+    const subtotales: string[] = [];
+
+    for (const afectacion of Object.values(TipoAfectacionIgv)) {
+      const delGrupo = detalles.filter(
+        (d) => this.afectacion(d) === afectacion,
+      );
+      if (delGrupo.length === 0) {
+        continue;
+      }
+      subtotales.push(
+        this.subtotalImpuesto(
+          this.sumar(delGrupo, (d) => d.subtotal),
+          this.sumar(delGrupo, (d) => d.igv),
+          UblService.TRIBUTOS[afectacion],
+          moneda,
+        ),
+      );
+    }
+
+    const totalIsc = this.sumar(detalles, (d) => d.isc);
+    if (totalIsc > 0) {
+      subtotales.push(
+        this.subtotalImpuesto(
+          this.sumar(
+            detalles.filter((d) => Number(d.isc) > 0),
+            (d) => d.subtotal,
+          ),
+          totalIsc,
+          UblService.TRIBUTO_ISC,
+          moneda,
+        ),
+      );
+    }
+
+    return [
+      '<cac:TaxTotal>',
+      this.importe(
+        'cbc:TaxAmount',
+        this.sumar(detalles, (d) => d.igv) + totalIsc,
+        moneda,
+      ),
+      ...subtotales,
+      '</cac:TaxTotal>',
+    ].join('');
+  }
+
+  private subtotalImpuesto(
+    base: number | null,
+    impuesto: number,
+    tributo: Tributo,
+    moneda: Moneda,
+    detalleLinea?: { porcentaje: number; afectacion?: TipoAfectacionIgv },
+  ): string {
+    return [
+      '<cac:TaxSubtotal>',
+      base !== null ? this.importe('cbc:TaxableAmount', base, moneda) : '',
+      this.importe('cbc:TaxAmount', impuesto, moneda),
+      '<cac:TaxCategory>',
+      this.elemento('cbc:ID', tributo.categoria),
+      detalleLinea
+        ? this.elemento('cbc:Percent', detalleLinea.porcentaje.toFixed(2))
+        : '',
+      detalleLinea?.afectacion
+        ? this.elemento('cbc:TaxExemptionReasonCode', detalleLinea.afectacion)
+        : '',
+      tributo === UblService.TRIBUTO_ISC && detalleLinea
+        ? this.elemento('cbc:TierRange', '01')
+        : '',
+      '<cac:TaxScheme>',
+      this.elemento('cbc:ID', tributo.id),
+      this.elemento('cbc:Name', tributo.nombre),
+      this.elemento('cbc:TaxTypeCode', tributo.codigoTipo),
+      '</cac:TaxScheme>',
+      '</cac:TaxCategory>',
+      '</cac:TaxSubtotal>',
+    ].join('');
+  }
+
+  /**
+   * Línea del documento (InvoiceLine, CreditNoteLine o DebitNoteLine)
+   */
+  private linea(
+    raiz: string,
+    detalle: ComprobanteDetalle,
+    numero: number,
+    moneda: Moneda,
+  ): string {
+    const etiqueta = `${raiz}Line`;
+    const etiquetaCantidad =
+      raiz === 'CreditNote'
+        ? 'CreditedQuantity'
+        : raiz === 'DebitNote'
+          ? 'DebitedQuantity'
+          : 'InvoicedQuantity';
+    const cantidad = Number(detalle.cantidad) || 0;
+    const subtotal = Number(detalle.subtotal) || 0;
+    const igv = Number(detalle.igv) || 0;
+    const isc = Number(detalle.isc) || 0;
+    const afectacion = this.afectacion(detalle);
+    const porcentajeIgv =
+      afectacion === TipoAfectacionIgv.GRAVADO_ONEROSA
+        ? subtotal > 0
+          ? Math.round((igv / subtotal) * 100)
+          : 18
+        : 0;
+    const producto = detalle.inventario?.producto;
+    const descripcion = detalle.descripcion || producto?.nombre || '';
+
+    return [
+      `<cac:${etiqueta}>`,
+      this.elemento('cbc:ID', String(numero)),
+      `<cbc:${etiquetaCantidad} unitCode="${obtenerCodigoUnidadSunat(detalle.unidadMedida)}">${this.formatearDecimal(cantidad)}</cbc:${etiquetaCantidad}>`,
+      this.importe('cbc:LineExtensionAmount', subtotal, moneda),
+      '<cac:PricingReference><cac:AlternativeConditionPrice>',
+      this.importe(
+        'cbc:PriceAmount',
+        cantidad > 0 ? Number(detalle.total) / cantidad : 0,
+        moneda,
+        true,
+      ),
+      this.elemento('cbc:PriceTypeCode', '01'),
+      '</cac:AlternativeConditionPrice></cac:PricingReference>',
+      '<cac:TaxTotal>',
+      this.importe('cbc:TaxAmount', igv + isc, moneda),
+      isc > 0
+        ? this.subtotalImpuesto(subtotal, isc, UblService.TRIBUTO_ISC, moneda, {
+            porcentaje: subtotal > 0 ? (isc / subtotal) * 100 : 0,
+          })
+        : '',
+      this.subtotalImpuesto(
+        subtotal + isc,
+        igv,
+        UblService.TRIBUTOS[afectacion],
+        moneda,
+        { porcentaje: porcentajeIgv, afectacion },
+      ),
+      '</cac:TaxTotal>',
+      '<cac:Item>',
+      this.elemento('cbc:Description', descripcion),
+      producto?.codigo
+        ? `<cac:SellersItemIdentification>${this.elemento('cbc:ID', producto.codigo)}</cac:SellersItemIdentification>`
+        : '',
+      '</cac:Item>',
+      '<cac:Price>',
+      this.importe(
+        'cbc:PriceAmount',
+        Number(detalle.precioUnitario),
+        moneda,
+        true,
+      ),
+      '</cac:Price>',
+      `</cac:${etiqueta}>`,
+    ].join('');
+  }
+
+  private afectacion(detalle: ComprobanteDetalle): TipoAfectacionIgv {
+    return detalle.tipoAfectacionIgv ?? TipoAfectacionIgv.GRAVADO_ONEROSA;
+  }
+
+  private razonSocialEmisor(persona: Persona): string {
+    return persona.razonSocial || persona.nombreEmpresa;
+  }
+
+  private sumar(
+    detalles: ComprobanteDetalle[],
+    valor: (detalle: ComprobanteDetalle) => number,
+  ): number {
+    return (
+      Math.round(
+        detalles.reduce((suma, d) => suma + (Number(valor(d)) || 0), 0) * 100,
+      ) / 100
+    );
+  }
+
+  private elemento(etiqueta: string, valor: string): string {
+    return `<${etiqueta}>${this.escapar(valor)}</${etiqueta}>`;
+  }
+
+  private importe(
+    etiqueta: string,
+    valor: number,
+    moneda: Moneda,
+    precio = false,
+  ): string {
+    const texto = precio
+      ? this.formatearDecimal(valor)
+      : (Math.round((Number(valor) || 0) * 100) / 100).toFixed(2);
+    return `<${etiqueta} currencyID="${moneda}">${texto}</${etiqueta}>`;
+  }
+
+  /**
+   * Decimales hasta 10 posiciones, con al menos 2
+   */
+  private formatearDecimal(valor: number): string {
+    const texto = (Number(valor) || 0).toFixed(10).replace(/0+$/, '');
+    const [entero, decimales = ''] = texto.split('.');
+    return `${entero}.${decimales.padEnd(2, '0')}`;
+  }
+
+  private formatearFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private formatearHora(fecha: Date): string {
+    const valor = new Date(fecha);
+    return [valor.getHours(), valor.getMinutes(), valor.getSeconds()]
+      .map((parte) => String(parte).padStart(2, '0'))
+      .join(':');
+  }
+
+  private escapar(texto: string): string {
+    return (texto ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
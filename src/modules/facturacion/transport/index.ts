@@ -0,0 +1,8 @@
+export { SUNAT_TRANSPORT, SunatFaultError } from './sunat-transport.interface';
+export type {
+  SunatTransport,
+  CredencialesSunat,
+  ArchivoSunat,
+  EstadoTicketSunat,
+} from './sunat-transport.interface';
+export { SoapSunatTransport } from './soap-sunat.transport';
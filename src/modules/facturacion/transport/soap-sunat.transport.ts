@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { EntornoSunat } from '../enum';
+import {
+  ArchivoSunat,
+  CredencialesSunat,
+  EstadoTicketSunat,
+  SunatFaultError,
+  SunatTransport,
+} from './sunat-transport.interface';
+
+/**
+ * Transporte SOAP hacia el billService de SUNAT
+ * SUNAT_BILL_SERVICE_URL permite apuntar a otro endpoint (por ejemplo, un fake local)
+ */
+@Injectable()
+export class SoapSunatTransport implements SunatTransport {
+  private readonly logger = new Logger(SoapSunatTransport.name);
+
+  private static readonly URLS: Record<EntornoSunat, string> = {
+    [EntornoSunat.BETA]:
+      'https://e-beta.sunat.gob.pe/ol-ti-itcpfegem-beta/billService',
+    [EntornoSunat.PRODUCCION]:
+      'https://e-factura.sunat.gob.pe/ol-ti-itcpfegem/billService',
+  };
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async sendBill(
+    archivo: ArchivoSunat,
+    credenciales: CredencialesSunat,
+  ): Promise<Buffer> {
+    const respuesta = await this.invocar(
+      'sendBill',
+      this.cuerpoArchivo('sendBill', archivo),
+      credenciales,
+    );
+    return Buffer.from(
+      this.extraer(respuesta, 'applicationResponse'),
+      'base64',
+    );
+  }
+
+  async sendSummary(
+    archivo: ArchivoSunat,
+    credenciales: CredencialesSunat,
+  ): Promise<string> {
+    const respuesta = await this.invocar(
+      'sendSummary',
+      this.cuerpoArchivo('sendSummary', archivo),
+      credenciales,
+    );
+    return this.extraer(respuesta, 'ticket');
+  }
+
+  async getStatus(
+    ticket: string,
+    credenciales: CredencialesSunat,
+  ): Promise<EstadoTicketSunat> {
+    const respuesta = await this.invocar(
+      'getStatus',
+      `<ser:getStatus><ticket>${this.escapar(ticket)}</ticket></ser:getStatus>`,
+      credenciales,
+    );
+    const contenido = this.extraerOpcional(respuesta, 'content');
+    return {
+      codigo: this.extraer(respuesta, 'statusCode'),
+      cdr: contenido ? Buffer.from(contenido, 'base64') : null,
+    };
+  }
+
+  /**
+   * Envía el sobre SOAP con WS-Security y convierte los SOAP Fault en SunatFaultError
+   */
+  private async invocar(
+    operacion: string,
+    cuerpo: string,
+    credenciales: CredencialesSunat,
+  ): Promise<string> {
+    const url =
+      this.configService.get<string>('SUNAT_BILL_SERVICE_URL') ||
+      SoapSunatTransport.URLS[credenciales.entorno];
+
+    const sobre = [
+      '<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ser="http://service.sunat.gob.pe" xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd">',
+      '<soapenv:Header><wsse:Security><wsse:UsernameToken>',
+      `<wsse:Username>${this.escapar(credenciales.ruc + credenciales.usuario)}</wsse:Username>`,
+      `<wsse:Password>${this.escapar(credenciales.clave)}</wsse:Password>`,
+      '</wsse:UsernameToken></wsse:Security></soapenv:Header>',
+      `<soapenv:Body>${cuerpo}</soapenv:Body>`,
+      '</soapenv:Envelope>',
+    ].join('');
+
+    this.logger.log(`${operacion} → ${url}`);
+    const response = await axios.post<string>(url, sobre, {
+      headers: {
+        'Content-Type': 'text/xml; charset=utf-8',
+        SOAPAction: `urn:${operacion}`,
+      },
+      responseType: 'text',
+      timeout: 30000,
+      validateStatus: () => true,
+    });
+
+    const cuerpoRespuesta = String(response.data ?? '');
+    const faultcode = this.extraerOpcional(cuerpoRespuesta, 'faultcode');
+    if (faultcode !== null) {
+      const faultstring =
+        this.extraerOpcional(cuerpoRespuesta, 'faultstring') ?? '';
+      // El código viene como "soap-env:Client.0306" o en el propio faultstring
+      const codigo =
+        /(\d+)\s*$/.exec(faultcode)?.[1] ??
+        /^\s*(\d+)/.exec(faultstring)?.[1] ??
+        faultcode;
+      throw new SunatFaultError(codigo, faultstring || faultcode);
+    }
+
+    if (response.status >= 400) {
+      throw new Error(
+        `SUNAT respondió HTTP ${response.status} en ${operacion}`,
+      );
+    }
+
+    return cuerpoRespuesta;
+  }
+
+  private cuerpoArchivo(operacion: string, archivo: ArchivoSunat): string {
+    return [
+      `<ser:${operacion}>`,
+      `<fileName>${this.escapar(archivo.nombreArchivo)}</fileName>`,
+      `<contentFile>${archivo.contenido.toString('base64')}</contentFile>`,
+      `</ser:${operacion}>`,
+    ].join('');
+  }
+
+  /**
+   * Lee el contenido de un elemento sin importar su prefijo
+   */
+  private extraerOpcional(xml: string, etiqueta: string): string | null {
+    const coincidencia = new RegExp(
+      `<(?:[\\w-]+:)?${etiqueta}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${etiqueta}>`,
+    ).exec(xml);
+    return coincidencia ? coincidencia[1].trim() : null;
+  }
+
+  private extraer(xml: string, etiqueta: string): string {
+    const valor = this.extraerOpcional(xml, etiqueta);
+    if (valor === null) {
+      throw new Error(`Respuesta de SUNAT sin el elemento ${etiqueta}`);
+    }
+    return valor;
+  }
+
+  private escapar(texto: string): string {
+    return texto
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,72 @@
+import { EntornoSunat } from '../enum';
+
+/**
+ * Token de inyección del transporte hacia el billService de SUNAT
+ */
+export const SUNAT_TRANSPORT = Symbol('SUNAT_TRANSPORT');
+
+/**
+ * Credenciales SOL con las que se autentica cada envío
+ */
+export interface CredencialesSunat {
+  ruc: string;
+  usuario: string;
+  clave: string;
+  entorno: EntornoSunat;
+}
+
+/**
+ * Archivo ZIP que se envía a SUNAT
+ */
+export interface ArchivoSunat {
+  /** Nombre del ZIP, por ejemplo 20123456789-01-F001-1.zip */
+  nombreArchivo: string;
+  contenido: Buffer;
+}
+
+/**
+ * Respuesta de getStatus
+ */
+export interface EstadoTicketSunat {
+  /** 0 = procesado, 98 = en proceso, 99 = procesado con errores */
+  codigo: string;
+  /** CDR (ZIP) cuando el ticket terminó de procesarse */
+  cdr: Buffer | null;
+}
+
+/**
+ * Operaciones del billService de SUNAT
+ * La implementación por defecto usa SOAP sobre HTTP; en pruebas puede reemplazarse por un fake
+ */
+export interface SunatTransport {
+  /** Envía un comprobante y devuelve el CDR (ZIP) */
+  sendBill(
+    archivo: ArchivoSunat,
+    credenciales: CredencialesSunat,
+  ): Promise<Buffer>;
+
+  /** Envía un resumen diario y devuelve el ticket */
+  sendSummary(
+    archivo: ArchivoSunat,
+    credenciales: CredencialesSunat,
+  ): Promise<string>;
+
+  /** Consulta el estado de un ticket */
+  getStatus(
+    ticket: string,
+    credenciales: CredencialesSunat,
+  ): Promise<EstadoTicketSunat>;
+}
+
+/**
+ * Error devuelto por SUNAT como SOAP Fault
+ */
+export class SunatFaultError extends Error {
+  constructor(
+    readonly codigo: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SunatFaultError';
+  }
+}
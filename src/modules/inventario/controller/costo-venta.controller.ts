@@ -4,15 +4,29 @@ import {
   Query,
   ValidationPipe,
   BadRequestException,
+  StreamableFile,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { CostoVentaService } from '../service/costo-venta.service';
+import { ArchivoExportado } from '../service/hoja-calculo.service';
 import {
   CostoVentaRequestDto,
   CostoVentaResponseDto,
   CostoVentaPorInventarioRequestDto,
   CostoVentaPorInventarioResponseDto,
 } from '../dto/costo-venta';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+
+const FORMATOS_EXPORTACION = ['json', 'excel'];
 
 /**
  * Controlador para la gestión de reportes de Estado de Costo de Venta
@@ -82,13 +96,15 @@ export class CostoVentaController {
   }
 
   /**
-   * Exporta el reporte de Estado de Costo de Venta en formato JSON
+   * Exporta el reporte de Estado de Costo de Venta en JSON o como archivo XLSX
    */
   @Get('exportar')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Exportar reporte de Estado de Costo de Venta',
     description:
-      'Exporta el reporte anual de costo de venta en formato JSON (extensible a otros formatos)',
+      'Exporta el reporte anual de costo de venta en JSON o lo descarga como XLSX con el encabezado de la empresa y el período contable',
   })
   @ApiQuery({
     name: 'año',
@@ -113,8 +129,8 @@ export class CostoVentaController {
   @ApiQuery({
     name: 'formato',
     description: 'Formato de exportación',
-    example: 'json',
-    enum: ['json'],
+    example: 'excel',
+    enum: FORMATOS_EXPORTACION,
     required: false,
     type: String,
   })
@@ -137,14 +153,19 @@ export class CostoVentaController {
   async exportCostoVentaReport(
     @Query(new ValidationPipe({ transform: true }))
     query: CostoVentaRequestDto & { formato?: string },
-  ): Promise<any> {
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CostoVentaResponseDto | StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
     try {
       const formato = query.formato || 'json';
 
       // Validar formato
-      if (!['json'].includes(formato)) {
+      if (!FORMATOS_EXPORTACION.includes(formato)) {
         throw new BadRequestException(
-          `Formato '${formato}' no soportado. Formatos disponibles: json`,
+          `Formato '${formato}' no soportado. Formatos disponibles: ${FORMATOS_EXPORTACION.join(', ')}`,
         );
       }
 
@@ -152,9 +173,12 @@ export class CostoVentaController {
         formato?: string;
       };
       delete (requestData as { formato?: string }).formato;
-      return await this.costoVentaService.exportCostoVentaReport(
-        requestData as CostoVentaRequestDto,
-        formato as 'json',
+      return this.respuestaExportacion(
+        await this.costoVentaService.exportCostoVentaReport(
+          requestData as CostoVentaRequestDto,
+          formato as 'json' | 'excel',
+          user.personaId,
+        ),
       );
     } catch (error) {
       const msg = (error as Error)?.message || 'Error al exportar el reporte';
@@ -290,10 +314,12 @@ export class CostoVentaController {
    * Exporta el reporte de Estado de Costo de Venta por inventario
    */
   @Get('exportar-por-inventario')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Exportar reporte de Estado de Costo de Venta por inventario',
     description:
-      'Exporta el reporte anual de costo de venta por inventario en formato JSON (extensible a otros formatos)',
+      'Exporta el reporte anual de costo de venta por inventario en JSON o lo descarga como XLSX con el encabezado de la empresa y el período contable',
   })
   @ApiQuery({
     name: 'año',
@@ -318,8 +344,8 @@ export class CostoVentaController {
   @ApiQuery({
     name: 'formato',
     description: 'Formato de exportación',
-    example: 'json',
-    enum: ['json'],
+    example: 'excel',
+    enum: FORMATOS_EXPORTACION,
     required: false,
     type: String,
   })
@@ -342,17 +368,31 @@ export class CostoVentaController {
   async exportCostoVentaPorInventarioReport(
     @Query(new ValidationPipe({ transform: true }))
     query: CostoVentaPorInventarioRequestDto & { formato?: string },
-  ): Promise<import('../dto/costo-venta').CostoVentaPorInventarioResponseDto> {
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CostoVentaPorInventarioResponseDto | StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
     try {
       const formato = query.formato || 'json';
+      if (!FORMATOS_EXPORTACION.includes(formato)) {
+        throw new BadRequestException(
+          `Formato '${formato}' no soportado. Formatos disponibles: ${FORMATOS_EXPORTACION.join(', ')}`,
+        );
+      }
+
       const requestData: CostoVentaPorInventarioRequestDto = {
         año: query.año,
         idAlmacen: query.idAlmacen,
         idProducto: query.idProducto,
       };
-      return await this.costoVentaService.exportCostoVentaPorInventarioReport(
-        requestData,
-        formato as 'json',
+      return this.respuestaExportacion(
+        await this.costoVentaService.exportCostoVentaPorInventarioReport(
+          requestData,
+          formato as 'json' | 'excel',
+          user.personaId,
+        ),
       );
     } catch (error) {
       const msg =
@@ -363,4 +403,19 @@ export class CostoVentaController {
       );
     }
   }
+
+  /**
+   * Los archivos se descargan como adjunto; el JSON se responde tal cual
+   */
+  private respuestaExportacion<T extends object>(
+    resultado: T | ArchivoExportado,
+  ): T | StreamableFile {
+    if (!('contenido' in resultado && Buffer.isBuffer(resultado.contenido))) {
+      return resultado as T;
+    }
+    return new StreamableFile(resultado.contenido, {
+      type: resultado.tipoContenido,
+      disposition: `attachment; filename="${resultado.nombreArchivo}"`,
+    });
+  }
 }
@@ -1,7 +1,12 @@
 import {
+  Body,
   Controller,
   Get,
+  Post,
+  Param,
+  ParseIntPipe,
   Query,
+  StreamableFile,
   ValidationPipe,
   UseGuards,
 } from '@nestjs/common';
@@ -10,10 +15,19 @@ import {
   ApiOperation,
   ApiResponse,
   ApiQuery,
+  ApiParam,
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { KardexService } from '../service/kardex.service';
-import { KardexRequestDto, KardexResponseDto } from '../dto';
+import { PleInventarioService } from '../service/ple-inventario.service';
+import { RecalculoKardexService } from '../service/recalculo-kardex.service';
+import {
+  ExportarKardexQueryDto,
+  KardexRequestDto,
+  KardexResponseDto,
+  RecalcularKardexDto,
+  RecalculoKardexResponseDto,
+} from '../dto';
 import { CurrentUser } from '../../users/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
@@ -23,7 +37,11 @@ import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
 @UseGuards(JwtAuthGuard)
 @Controller('api/kardex')
 export class KardexController {
-  constructor(private readonly kardexService: KardexService) {}
+  constructor(
+    private readonly kardexService: KardexService,
+    private readonly pleInventarioService: PleInventarioService,
+    private readonly recalculoKardexService: RecalculoKardexService,
+  ) {}
 
   /**
    * Genera el reporte Kardex para un inventario específico
@@ -81,4 +99,113 @@ export class KardexController {
 
     return await this.kardexService.generateKardexReport(query);
   }
+
+  /**
+   * Descarga el Kardex de un inventario como XLSX o CSV
+   */
+  @Get('exportar')
+  @ApiOperation({
+    summary: 'Exportar reporte Kardex (XLSX/CSV)',
+    description:
+      'Descarga el Kardex del inventario con el encabezado de la empresa y el período contable, el saldo inicial, los movimientos y los totales de entradas, salidas y saldo final',
+  })
+  @ApiResponse({ status: 200, description: 'Archivo del Kardex' })
+  async exportarKardex(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ExportarKardexQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
+    query.personaId = user.personaId;
+    const archivo = await this.kardexService.exportarKardex(query);
+    return new StreamableFile(archivo.contenido, {
+      type: archivo.tipoContenido,
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
+
+  /**
+   * Exporta el Kardex de todos los inventarios en formato PLE 13.1
+   */
+  @Get('ple/:idPeriodo')
+  @ApiOperation({
+    summary: 'Exportar Registro de Inventario Permanente Valorizado PLE 13.1',
+    description:
+      'Recorre todos los inventarios de la empresa y genera el archivo TXT del mes indicado usando el método de valoración configurado (FIFO o promedio)',
+  })
+  @ApiParam({
+    name: 'idPeriodo',
+    description: 'ID del período contable',
+    type: 'number',
+  })
+  @ApiQuery({
+    name: 'mes',
+    description: 'Mes a declarar (1-12)',
+    example: 1,
+    type: Number,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo PLE generado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Mes inválido o período de otra empresa',
+  })
+  async exportarPle(
+    @Param('idPeriodo', ParseIntPipe) idPeriodo: number,
+    @Query('mes', ParseIntPipe) mes: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
+    const archivo =
+      await this.pleInventarioService.generarRegistroInventarioValorizado(
+        idPeriodo,
+        mes,
+        user.personaId,
+      );
+    return new StreamableFile(Buffer.from(archivo.contenido, 'utf-8'), {
+      type: 'text/plain; charset=utf-8',
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
+
+  /**
+   * Recalcula las salidas de un inventario desde una fecha pasada
+   */
+  @Post('recalcular')
+  @ApiOperation({
+    summary: 'Recalcular Kardex desde una fecha',
+    description:
+      'Reasigna por FIFO los lotes de las salidas desde la fecha indicada y reescribe su costo unitario con el método de valoración configurado. No modifica períodos cerrados y devuelve las ventas cuyo costo cambió.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Recálculo ejecutado',
+    type: RecalculoKardexResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Fecha fuera del límite retroactivo o stock insuficiente',
+  })
+  async recalcular(
+    @Body() dto: RecalcularKardexDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<RecalculoKardexResponseDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+
+    return await this.recalculoKardexService.recalcular(
+      dto.idInventario,
+      new Date(`${dto.fechaDesde.slice(0, 10)}T00:00:00`),
+      user.personaId,
+    );
+  }
 }
@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MargenBrutoService } from '../service/margen-bruto.service';
+import {
+  MargenBrutoQueryDto,
+  ResponseMargenBrutoDto,
+} from '../dto/margen-bruto';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador del reporte de margen bruto de ventas
+ */
+@ApiTags('Margen Bruto')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/margen-bruto')
+export class MargenBrutoController {
+  constructor(private readonly margenBrutoService: MargenBrutoService) {}
+
+  /**
+   * Margen bruto por línea, producto, cliente y vendedor
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Reporte de margen bruto',
+    description:
+      'Ingreso (subtotal sin IGV) frente al costo de los lotes despachados por cada venta, con notas de crédito y débito sobre ventas. Marca las líneas vendidas por debajo del costo',
+  })
+  @ApiResponse({ status: 200, type: ResponseMargenBrutoDto })
+  @ApiResponse({ status: 400, description: 'Rango de fechas inválido' })
+  async generarReporte(
+    @Query(new ValidationPipe({ transform: true })) query: MargenBrutoQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseMargenBrutoDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.margenBrutoService.generarReporte(user.personaId, query);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NumeroSerieService } from '../service/numero-serie.service';
+import {
+  ResponseHistorialNumeroSerieDto,
+  ResponseNumeroSerieDto,
+} from '../dto/numero-serie';
+import { EstadoNumeroSerie } from '../enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de números de serie
+ * Las unidades se registran con los números de serie de los detalles de compras, ventas y
+ * transferencias de productos serializados
+ */
+@ApiTags('Números de serie')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/numeros-serie')
+export class NumeroSerieController {
+  constructor(private readonly numeroSerieService: NumeroSerieService) {}
+
+  /**
+   * Listar unidades serializadas
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Listar números de serie',
+    description:
+      'Con idInventario y estado DISPONIBLE devuelve las unidades que se pueden vender desde ese almacén',
+  })
+  @ApiQuery({ name: 'idInventario', required: false, type: Number })
+  @ApiQuery({ name: 'estado', required: false, enum: EstadoNumeroSerie })
+  @ApiResponse({ status: 200, type: [ResponseNumeroSerieDto] })
+  async listar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idInventario', new ParseIntPipe({ optional: true }))
+    idInventario?: number,
+    @Query('estado', new ParseEnumPipe(EstadoNumeroSerie, { optional: true }))
+    estado?: EstadoNumeroSerie,
+  ): Promise<ResponseNumeroSerieDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.numeroSerieService.listar(user.personaId, idInventario, estado);
+  }
+
+  /**
+   * Historial de un número de serie
+   */
+  @Get(':numeroSerie/historial')
+  @ApiOperation({
+    summary: 'Historial de un número de serie',
+    description:
+      'Compra con la que ingresó, cada entrada y salida entre almacenes y la venta al cliente',
+  })
+  @ApiQuery({
+    name: 'idProducto',
+    required: false,
+    type: Number,
+    description: 'Obligatorio si el número de serie existe en varios productos',
+  })
+  @ApiResponse({ status: 200, type: ResponseHistorialNumeroSerieDto })
+  @ApiResponse({ status: 404, description: 'Número de serie no encontrado' })
+  async historial(
+    @Param('numeroSerie') numeroSerie: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idProducto', new ParseIntPipe({ optional: true }))
+    idProducto?: number,
+  ): Promise<ResponseHistorialNumeroSerieDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.numeroSerieService.historial(
+      numeroSerie,
+      user.personaId,
+      idProducto,
+    );
+  }
+}
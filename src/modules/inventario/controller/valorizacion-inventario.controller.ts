@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ValorizacionInventarioService } from '../service/valorizacion-inventario.service';
+import {
+  ExportarValorizacionInventarioQueryDto,
+  ResponseValorizacionInventarioDto,
+  ValorizacionInventarioQueryDto,
+} from '../dto/valorizacion';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador del reporte de valorización de inventario a una fecha
+ */
+@ApiTags('Inventario')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/inventario/reportes/valorizacion')
+export class ValorizacionInventarioController {
+  constructor(
+    private readonly valorizacionInventarioService: ValorizacionInventarioService,
+  ) {}
+
+  /**
+   * Valorización del inventario a una fecha
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Valorización de inventario a una fecha',
+    description:
+      'Cantidad, costo unitario y valor de cada inventario al cierre de la fecha indicada según el método de valoración configurado, con subtotales por almacén y categoría y comparación opcional con otra fecha',
+  })
+  @ApiResponse({ status: 200, type: ResponseValorizacionInventarioDto })
+  @ApiResponse({ status: 400, description: 'Fechas inválidas' })
+  async generarReporte(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ValorizacionInventarioQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseValorizacionInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.valorizacionInventarioService.generarReporte(
+      user.personaId,
+      query,
+    );
+  }
+
+  /**
+   * Descargar la valorización en CSV o XLSX
+   */
+  @Get('exportar')
+  @ApiOperation({ summary: 'Exportar valorización de inventario (CSV/XLSX)' })
+  @ApiResponse({ status: 200, description: 'Archivo de la valorización' })
+  async exportarReporte(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ExportarValorizacionInventarioQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const archivo = await this.valorizacionInventarioService.exportarReporte(
+      user.personaId,
+      query,
+    );
+
+    return new StreamableFile(archivo.contenido, {
+      type: archivo.tipoContenido,
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
+}
@@ -3,3 +3,6 @@ export * from './lote';
 export * from './report';
 export * from './kardex';
 export * from './costo-venta';
+export * from './numero-serie';
+export * from './valorizacion';
+export * from './margen-bruto';
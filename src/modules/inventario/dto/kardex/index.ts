@@ -3,3 +3,4 @@ export * from './kardex-movement.dto';
 export * from './kardex-request.dto';
 export * from './kardex-response.dto';
 export * from './kardex-report.dto';
+export * from './recalculo-kardex.dto';
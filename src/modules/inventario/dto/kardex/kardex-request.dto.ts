@@ -1,11 +1,13 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import {
   IsDateString,
+  IsEnum,
   IsNumber,
   IsOptional,
   IsPositive,
 } from 'class-validator';
+import { FormatoExportacion } from '../../enum';
 
 export class KardexRequestDto {
   /**
@@ -59,3 +61,17 @@ export class KardexRequestDto {
   @IsDateString({}, { message: 'La fecha de fin debe tener formato válido' })
   fechaFin?: string;
 }
+
+/**
+ * Parámetros de la descarga del Kardex
+ */
+export class ExportarKardexQueryDto extends KardexRequestDto {
+  @ApiPropertyOptional({
+    description: 'Formato del archivo',
+    enum: FormatoExportacion,
+    default: FormatoExportacion.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(FormatoExportacion, { message: 'El formato debe ser csv o xlsx' })
+  formato?: FormatoExportacion;
+}
@@ -0,0 +1,94 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDateString, IsNumber, IsPositive } from 'class-validator';
+import { MetodoValoracion } from '../../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * DTO para solicitar el recálculo retroactivo de un inventario
+ */
+export class RecalcularKardexDto {
+  @ApiProperty({
+    description: 'ID del inventario a recalcular',
+    example: 1,
+  })
+  @IsNumber({}, { message: 'El ID del inventario debe ser un número' })
+  @IsPositive({ message: 'El ID del inventario debe ser positivo' })
+  @Type(() => Number)
+  idInventario: number;
+
+  @ApiProperty({
+    description: 'Fecha desde la que se recalculan las salidas',
+    example: '2024-03-01',
+  })
+  @IsDateString({}, { message: 'La fecha debe tener formato válido' })
+  fechaDesde: string;
+}
+
+/**
+ * Venta cuyo costo cambió con el recálculo
+ */
+export class VentaRecalculadaDto {
+  @ApiProperty({ description: 'ID del movimiento de salida', example: 15 })
+  idMovimiento: number;
+
+  @ApiProperty({ description: 'Documento del movimiento', example: 'F001-25' })
+  numeroDocumento: string;
+
+  @ApiProperty({ description: 'Fecha del movimiento', example: '2024-03-12' })
+  fecha: string;
+
+  @ApiProperty({ description: 'Cantidad vendida', example: 10 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Costo unitario anterior', example: 12 })
+  costoUnitarioAnterior: number;
+
+  @ApiProperty({ description: 'Costo unitario recalculado', example: 10.5 })
+  costoUnitarioNuevo: number;
+
+  @ApiProperty({
+    description: 'Diferencia en el costo de venta (nuevo - anterior)',
+    example: -15,
+  })
+  diferencia: number;
+}
+
+/**
+ * Resultado del recálculo retroactivo de un inventario
+ */
+export class RecalculoKardexResponseDto {
+  @ApiProperty({ description: 'ID del inventario', example: 1 })
+  idInventario: number;
+
+  @ApiProperty({
+    description:
+      'Fecha desde la que se recalculó (posterior al último período cerrado)',
+    example: '2024-03-01',
+  })
+  fechaDesde: string;
+
+  @ApiProperty({
+    description: 'Método de valoración aplicado',
+    enum: MetodoValoracion,
+  })
+  metodoValoracion: MetodoValoracion;
+
+  @ApiProperty({
+    description: 'Salidas cuyas asignaciones de lotes o costo se reescribieron',
+    example: 3,
+  })
+  salidasReescritas: number;
+
+  @ApiProperty({
+    description: 'Ventas cuyo costo cambió',
+    type: [VentaRecalculadaDto],
+  })
+  ventasAfectadas: VentaRecalculadaDto[];
+
+  @ApiProperty({
+    description:
+      'Asientos de ajuste del costo de venta registrados por las ventas afectadas',
+    example: 1,
+  })
+  asientosAjuste: number;
+}
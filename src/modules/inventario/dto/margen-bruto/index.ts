@@ -0,0 +1,2 @@
+export * from './margen-bruto-query.dto';
+export * from './response-margen-bruto.dto';
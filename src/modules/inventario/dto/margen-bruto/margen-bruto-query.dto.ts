@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, IsPositive } from 'class-validator';
+
+/**
+ * Filtros del reporte de margen bruto
+ */
+export class MargenBrutoQueryDto {
+  @ApiProperty({ description: 'Fecha de emisión desde', example: '2024-01-01' })
+  @IsDateString({}, { message: 'La fecha desde debe tener formato YYYY-MM-DD' })
+  fechaDesde: string;
+
+  @ApiProperty({ description: 'Fecha de emisión hasta', example: '2024-12-31' })
+  @IsDateString({}, { message: 'La fecha hasta debe tener formato YYYY-MM-DD' })
+  fechaHasta: string;
+
+  @ApiPropertyOptional({ description: 'ID del producto', example: 3 })
+  @IsOptional()
+  @IsInt({ message: 'El ID del producto debe ser un número entero' })
+  @IsPositive({ message: 'El ID del producto debe ser positivo' })
+  @Type(() => Number)
+  idProducto?: number;
+
+  @ApiPropertyOptional({ description: 'ID de la categoría', example: 2 })
+  @IsOptional()
+  @IsInt({ message: 'El ID de la categoría debe ser un número entero' })
+  @IsPositive({ message: 'El ID de la categoría debe ser positivo' })
+  @Type(() => Number)
+  idCategoria?: number;
+
+  @ApiPropertyOptional({ description: 'ID del almacén', example: 1 })
+  @IsOptional()
+  @IsInt({ message: 'El ID del almacén debe ser un número entero' })
+  @IsPositive({ message: 'El ID del almacén debe ser positivo' })
+  @Type(() => Number)
+  idAlmacen?: number;
+
+  @ApiPropertyOptional({ description: 'ID del cliente', example: 4 })
+  @IsOptional()
+  @IsInt({ message: 'El ID del cliente debe ser un número entero' })
+  @IsPositive({ message: 'El ID del cliente debe ser positivo' })
+  @Type(() => Number)
+  idEntidad?: number;
+
+  @ApiPropertyOptional({
+    description: 'ID del usuario que registró la venta (vendedor)',
+    example: 7,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El ID del vendedor debe ser un número entero' })
+  @IsPositive({ message: 'El ID del vendedor debe ser positivo' })
+  @Type(() => Number)
+  idVendedor?: number;
+}
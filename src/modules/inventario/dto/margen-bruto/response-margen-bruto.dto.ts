@@ -0,0 +1,123 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TipoLineaMargen } from '../../enum';
+
+/**
+ * Ingreso y costo de un detalle de venta o de una nota sobre una venta
+ * Montos en moneda nacional; las notas de crédito van en negativo
+ */
+export class LineaMargenBrutoDto {
+  @ApiProperty({ description: 'ID del comprobante', example: 120 })
+  idComprobante: number;
+
+  @ApiProperty({ description: 'ID del detalle del comprobante', example: 340 })
+  idDetalle: number;
+
+  @ApiProperty({ enum: TipoLineaMargen })
+  tipo: TipoLineaMargen;
+
+  @ApiProperty({ description: 'Fecha de emisión' })
+  fecha: Date;
+
+  @ApiProperty({ description: 'Serie y número', example: 'F001-120' })
+  documento: string;
+
+  @ApiProperty({ description: 'ID del producto', example: 3 })
+  idProducto: number;
+
+  @ApiProperty({ description: 'Producto', example: 'Aceite 1 L' })
+  producto: string;
+
+  @ApiProperty({ description: 'Categoría', example: 'Abarrotes' })
+  categoria: string;
+
+  @ApiProperty({ description: 'Almacén', example: 'Almacén Central' })
+  almacen: string;
+
+  @ApiPropertyOptional({ description: 'ID del cliente' })
+  idEntidad?: number;
+
+  @ApiProperty({ description: 'Cliente', example: 'Bodega Lucía' })
+  cliente: string;
+
+  @ApiPropertyOptional({ description: 'ID del vendedor' })
+  idVendedor?: number;
+
+  @ApiProperty({ description: 'Vendedor', example: 'Ana Torres' })
+  vendedor: string;
+
+  @ApiProperty({ description: 'Cantidad en unidad base', example: 24 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Ingreso (subtotal sin IGV)', example: 180 })
+  ingreso: number;
+
+  @ApiProperty({ description: 'Costo de los lotes despachados', example: 120 })
+  costo: number;
+
+  @ApiProperty({ description: 'Margen bruto', example: 60 })
+  margen: number;
+
+  @ApiPropertyOptional({
+    description: 'Margen sobre el ingreso (%)',
+    example: 33.33,
+  })
+  margenPorcentaje: number | null;
+
+  @ApiProperty({ description: 'Se vendió por debajo del costo' })
+  bajoCosto: boolean;
+}
+
+/**
+ * Totales de margen de un producto, cliente o vendedor
+ */
+export class ResumenMargenBrutoDto {
+  @ApiPropertyOptional({ description: 'ID del producto, cliente o vendedor' })
+  id?: number;
+
+  @ApiProperty({ description: 'Nombre', example: 'Aceite 1 L' })
+  nombre: string;
+
+  @ApiProperty({ description: 'Cantidad neta en unidad base', example: 240 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Ingreso neto', example: 1800 })
+  ingreso: number;
+
+  @ApiProperty({ description: 'Costo neto', example: 1200 })
+  costo: number;
+
+  @ApiProperty({ description: 'Margen bruto', example: 600 })
+  margen: number;
+
+  @ApiPropertyOptional({ description: 'Margen sobre el ingreso (%)' })
+  margenPorcentaje: number | null;
+
+  @ApiProperty({ description: 'Líneas vendidas por debajo del costo' })
+  lineasBajoCosto: number;
+}
+
+/**
+ * DTO de respuesta del reporte de margen bruto
+ */
+export class ResponseMargenBrutoDto {
+  @ApiProperty({ example: '2024-01-01' })
+  fechaDesde: string;
+
+  @ApiProperty({ example: '2024-12-31' })
+  fechaHasta: string;
+
+  @ApiProperty({ type: [LineaMargenBrutoDto] })
+  lineas: LineaMargenBrutoDto[];
+
+  @ApiProperty({ type: [ResumenMargenBrutoDto] })
+  porProducto: ResumenMargenBrutoDto[];
+
+  @ApiProperty({ type: [ResumenMargenBrutoDto] })
+  porCliente: ResumenMargenBrutoDto[];
+
+  @ApiProperty({ type: [ResumenMargenBrutoDto] })
+  porVendedor: ResumenMargenBrutoDto[];
+
+  @ApiProperty({ type: ResumenMargenBrutoDto })
+  total: ResumenMargenBrutoDto;
+}
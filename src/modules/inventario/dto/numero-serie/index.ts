@@ -0,0 +1,2 @@
+export * from './response-numero-serie.dto';
+export * from './response-historial-numero-serie.dto';
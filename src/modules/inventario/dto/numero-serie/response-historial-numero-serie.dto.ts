@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TipoMovimiento } from '../../../movimientos/enum/tipo-movimiento.enum';
+import { ResponseNumeroSerieDto } from './response-numero-serie.dto';
+
+/**
+ * Entrada o salida de una unidad serializada
+ */
+export class MovimientoNumeroSerieDto {
+  @ApiProperty({ description: 'Fecha del movimiento' })
+  fecha: Date;
+
+  @ApiProperty({ enum: TipoMovimiento })
+  tipo: TipoMovimiento;
+
+  @ApiPropertyOptional({
+    description: 'Código del tipo de operación (Tabla 12)',
+    example: '02',
+  })
+  codigoOperacion?: string;
+
+  @ApiPropertyOptional({ description: 'Operación', example: 'COMPRA' })
+  operacion?: string;
+
+  @ApiPropertyOptional({ description: 'ID del comprobante' })
+  idComprobante?: number;
+
+  @ApiPropertyOptional({
+    description: 'Serie y número del comprobante',
+    example: 'F001-120',
+  })
+  documento?: string;
+
+  @ApiPropertyOptional({
+    description: 'Proveedor o cliente del comprobante',
+    example: 'Distribuidora Lima SAC',
+  })
+  entidad?: string;
+
+  @ApiProperty({ description: 'ID del inventario', example: 8 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Almacén Central' })
+  almacen: string;
+
+  @ApiPropertyOptional({ description: 'Número del lote' })
+  numeroLote?: string;
+}
+
+/**
+ * DTO de respuesta del historial de un número de serie
+ */
+export class ResponseHistorialNumeroSerieDto {
+  @ApiProperty({ type: ResponseNumeroSerieDto })
+  numeroSerie: ResponseNumeroSerieDto;
+
+  @ApiPropertyOptional({
+    type: MovimientoNumeroSerieDto,
+    description: 'Compra con la que ingresó la unidad',
+  })
+  compra?: MovimientoNumeroSerieDto;
+
+  @ApiPropertyOptional({
+    type: MovimientoNumeroSerieDto,
+    description: 'Última venta de la unidad',
+  })
+  venta?: MovimientoNumeroSerieDto;
+
+  @ApiProperty({
+    type: [MovimientoNumeroSerieDto],
+    description: 'Movimientos en orden cronológico',
+  })
+  movimientos: MovimientoNumeroSerieDto[];
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EstadoNumeroSerie } from '../../enum';
+
+/**
+ * DTO de respuesta de una unidad serializada
+ */
+export class ResponseNumeroSerieDto {
+  @ApiProperty({ description: 'ID de la unidad', example: 15 })
+  id: number;
+
+  @ApiProperty({
+    description: 'Número de serie',
+    example: 'IMEI-356938035643809',
+  })
+  numeroSerie: string;
+
+  @ApiProperty({ description: 'ID del producto', example: 3 })
+  idProducto: number;
+
+  @ApiProperty({ description: 'Producto', example: 'Smartphone X10' })
+  producto: string;
+
+  @ApiProperty({ enum: EstadoNumeroSerie })
+  estado: EstadoNumeroSerie;
+
+  @ApiProperty({
+    description: 'ID del inventario donde está o del que salió',
+    example: 8,
+  })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Almacén Central' })
+  almacen: string;
+
+  @ApiProperty({ description: 'ID del lote actual', example: 41 })
+  idLote: number;
+
+  @ApiProperty({ description: 'Número del lote actual' })
+  numeroLote: string;
+
+  @ApiProperty({ description: 'Costo unitario del lote', example: 850 })
+  costoUnitario: number;
+}
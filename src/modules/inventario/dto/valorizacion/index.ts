@@ -0,0 +1,2 @@
+export * from './valorizacion-inventario-query.dto';
+export * from './response-valorizacion-inventario.dto';
@@ -0,0 +1,113 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MetodoValoracion } from '../../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Saldo valorizado de un inventario a la fecha de corte
+ */
+export class ItemValorizacionInventarioDto {
+  @ApiProperty({ description: 'ID del inventario', example: 8 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'ID del almacén', example: 1 })
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Almacén Central' })
+  almacen: string;
+
+  @ApiPropertyOptional({ description: 'ID de la categoría', example: 2 })
+  idCategoria?: number;
+
+  @ApiProperty({ description: 'Categoría', example: 'Bebidas' })
+  categoria: string;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Aceite 1 L' })
+  producto: string;
+
+  @ApiProperty({ description: 'Unidad de medida base', example: 'NIU' })
+  unidadMedida: string;
+
+  @ApiProperty({ description: 'Cantidad a la fecha', example: 120 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Costo unitario a la fecha', example: 7.5 })
+  costoUnitario: number;
+
+  @ApiProperty({ description: 'Valor total a la fecha', example: 900 })
+  valorTotal: number;
+
+  @ApiPropertyOptional({ description: 'Cantidad a la fecha de comparación' })
+  cantidadComparacion?: number;
+
+  @ApiPropertyOptional({
+    description: 'Costo unitario a la fecha de comparación',
+  })
+  costoUnitarioComparacion?: number;
+
+  @ApiPropertyOptional({ description: 'Valor total a la fecha de comparación' })
+  valorTotalComparacion?: number;
+
+  @ApiPropertyOptional({
+    description: 'Variación de cantidad (fecha menos fecha de comparación)',
+  })
+  variacionCantidad?: number;
+
+  @ApiPropertyOptional({
+    description: 'Variación de valor (fecha menos fecha de comparación)',
+  })
+  variacionValor?: number;
+}
+
+/**
+ * Subtotal de un almacén o una categoría
+ */
+export class SubtotalValorizacionInventarioDto {
+  @ApiPropertyOptional({ description: 'ID del almacén o la categoría' })
+  id?: number;
+
+  @ApiProperty({ description: 'Almacén o categoría', example: 'Bebidas' })
+  nombre: string;
+
+  @ApiProperty({ description: 'Inventarios con saldo', example: 14 })
+  cantidadItems: number;
+
+  @ApiProperty({ description: 'Valor total a la fecha', example: 15400 })
+  valorTotal: number;
+
+  @ApiPropertyOptional({ description: 'Valor total a la fecha de comparación' })
+  valorTotalComparacion?: number;
+
+  @ApiPropertyOptional({ description: 'Variación de valor' })
+  variacionValor?: number;
+}
+
+/**
+ * DTO de respuesta del reporte de valorización de inventario a una fecha
+ */
+export class ResponseValorizacionInventarioDto {
+  @ApiProperty({ description: 'Fecha de corte', example: '2024-12-31' })
+  fecha: string;
+
+  @ApiPropertyOptional({
+    description: 'Fecha de comparación',
+    example: '2023-12-31',
+  })
+  fechaComparacion?: string;
+
+  @ApiProperty({ enum: MetodoValoracion })
+  metodoValoracion: MetodoValoracion;
+
+  @ApiProperty({ type: [ItemValorizacionInventarioDto] })
+  items: ItemValorizacionInventarioDto[];
+
+  @ApiProperty({ type: [SubtotalValorizacionInventarioDto] })
+  subtotalesPorAlmacen: SubtotalValorizacionInventarioDto[];
+
+  @ApiProperty({ type: [SubtotalValorizacionInventarioDto] })
+  subtotalesPorCategoria: SubtotalValorizacionInventarioDto[];
+
+  @ApiProperty({ type: SubtotalValorizacionInventarioDto })
+  total: SubtotalValorizacionInventarioDto;
+}
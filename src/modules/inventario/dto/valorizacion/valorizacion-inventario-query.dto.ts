@@ -0,0 +1,68 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsPositive,
+} from 'class-validator';
+import { FormatoExportacion } from '../../enum';
+
+/**
+ * Parámetros del reporte de valorización de inventario a una fecha
+ */
+export class ValorizacionInventarioQueryDto {
+  @ApiProperty({
+    description: 'Fecha de corte; incluye los movimientos de todo el día',
+    example: '2024-12-31',
+  })
+  @IsDateString({}, { message: 'La fecha debe tener formato YYYY-MM-DD' })
+  fecha: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Segunda fecha de corte para comparar (p. ej. cierre anterior)',
+    example: '2023-12-31',
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'La fecha de comparación debe tener formato YYYY-MM-DD' },
+  )
+  fechaComparacion?: string;
+
+  @ApiPropertyOptional({
+    description: 'Almacén a valorizar (por defecto todos)',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El ID del almacén debe ser un número entero' })
+  @IsPositive({ message: 'El ID del almacén debe ser positivo' })
+  @Type(() => Number)
+  idAlmacen?: number;
+
+  @ApiPropertyOptional({
+    description: 'Categoría a valorizar (por defecto todas)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El ID de la categoría debe ser un número entero' })
+  @IsPositive({ message: 'El ID de la categoría debe ser positivo' })
+  @Type(() => Number)
+  idCategoria?: number;
+}
+
+/**
+ * Parámetros de la descarga del reporte de valorización
+ */
+export class ExportarValorizacionInventarioQueryDto extends ValorizacionInventarioQueryDto {
+  @ApiPropertyOptional({
+    description: 'Formato del archivo',
+    enum: FormatoExportacion,
+    default: FormatoExportacion.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(FormatoExportacion, { message: 'El formato debe ser csv o xlsx' })
+  formato?: FormatoExportacion;
+}
@@ -1,2 +1,5 @@
 export * from './inventario-lote.entity';
 export * from './inventario.entity';
+export * from './kardex-saldo.entity';
+export * from './numero-serie.entity';
+export * from './numero-serie-movimiento.entity';
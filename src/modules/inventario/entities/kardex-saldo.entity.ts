@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Inventario } from './inventario.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Capa FIFO abierta al cierre de un período
+ */
+export interface CapaKardexSaldo {
+  idLote: number;
+  cantidadDisponible: number;
+  costoUnitario: number;
+  fechaIngreso: string;
+}
+
+/**
+ * Entidad KardexSaldo
+ * Saldo del Kardex de un inventario al cierre de un período contable
+ * El cálculo del Kardex parte del último saldo en lugar de recorrer todo el historial
+ */
+@Entity('kardex_saldo')
+@Index(['inventario', 'periodoContable'], { unique: true })
+export class KardexSaldo {
+  /**
+   * Identificador único del saldo
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Inventario (producto en almacén)
+   */
+  @ManyToOne(() => Inventario, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  /**
+   * Período contable cerrado
+   */
+  @ManyToOne(() => PeriodoContable, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'id_periodo_contable' })
+  periodoContable: PeriodoContable;
+
+  /**
+   * Último día incluido en el saldo
+   */
+  @Column({ type: 'date' })
+  fechaCorte: string;
+
+  /**
+   * Método de valoración con el que se calculó
+   */
+  @Column({ type: 'enum', enum: MetodoValoracion })
+  metodoValoracion: MetodoValoracion;
+
+  /**
+   * Cantidad en existencia
+   */
+  @Column({ type: 'decimal', precision: 15, scale: 4 })
+  cantidad: number;
+
+  /**
+   * Costo unitario del saldo
+   */
+  @Column({ type: 'decimal', precision: 18, scale: 8 })
+  costoUnitario: number;
+
+  /**
+   * Valor total del saldo
+   */
+  @Column({ type: 'decimal', precision: 18, scale: 8 })
+  valorTotal: number;
+
+  /**
+   * Capas FIFO abiertas (lotes con cantidad disponible)
+   */
+  @Column({ type: 'simple-json' })
+  lotes: CapaKardexSaldo[];
+
+  /**
+   * Fecha en que se generó el saldo
+   */
+  @CreateDateColumn()
+  fechaCreacion: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { Inventario } from './inventario.entity';
+import { InventarioLote } from './inventario-lote.entity';
+import { NumeroSerie } from './numero-serie.entity';
+
+/**
+ * Entrada o salida de una unidad serializada
+ * El detalle de comprobante indica la operación, el documento y el proveedor o cliente;
+ * se guarda solo su id porque los lotes se procesan fuera de la transacción del comprobante
+ */
+@Entity('numero_serie_movimiento')
+export class NumeroSerieMovimiento {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: number;
+
+  @ManyToOne(() => NumeroSerie, (serie) => serie.movimientos, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_numero_serie' })
+  numeroSerie: NumeroSerie;
+
+  @Column({ type: 'enum', enum: TipoMovimiento })
+  tipo: TipoMovimiento;
+
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  @ManyToOne(() => InventarioLote, { nullable: true })
+  @JoinColumn({ name: 'id_lote' })
+  lote?: InventarioLote | null;
+
+  @Column({ name: 'id_comprobante_detalle', type: 'bigint', nullable: true })
+  idComprobanteDetalle?: number | null;
+
+  @Column({ type: 'timestamp' })
+  fecha: Date;
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Producto } from '../../productos/entities/producto.entity';
+import { Inventario } from './inventario.entity';
+import { InventarioLote } from './inventario-lote.entity';
+import { NumeroSerieMovimiento } from './numero-serie-movimiento.entity';
+import { EstadoNumeroSerie } from '../enum/estado-numero-serie.enum';
+
+/**
+ * Unidad de un producto serializado
+ * Indica el inventario y el lote donde está o por donde salió la última vez
+ */
+@Entity('numero_serie')
+@Index(['producto', 'numeroSerie'], { unique: true })
+export class NumeroSerie {
+  /**
+   * Identificador único de la unidad
+   */
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: number;
+
+  @Column({ length: 100 })
+  numeroSerie: string;
+
+  @ManyToOne(() => Producto, { nullable: false })
+  @JoinColumn({ name: 'id_producto' })
+  producto: Producto;
+
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  /**
+   * Lote con el que ingresó al inventario actual; determina su costo
+   */
+  @ManyToOne(() => InventarioLote, { nullable: false })
+  @JoinColumn({ name: 'id_lote' })
+  lote: InventarioLote;
+
+  @Column({
+    type: 'enum',
+    enum: EstadoNumeroSerie,
+    default: EstadoNumeroSerie.DISPONIBLE,
+  })
+  estado: EstadoNumeroSerie;
+
+  @OneToMany(
+    () => NumeroSerieMovimiento,
+    (movimiento) => movimiento.numeroSerie,
+  )
+  movimientos: NumeroSerieMovimiento[];
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
@@ -0,0 +1,13 @@
+/**
+ * Situación de una unidad serializada
+ */
+export enum EstadoNumeroSerie {
+  /**
+   * En stock en el almacén de su inventario
+   */
+  DISPONIBLE = 'DISPONIBLE',
+  /**
+   * Salió del almacén (venta u otra salida); una devolución o transferencia la reingresa
+   */
+  DESPACHADO = 'DESPACHADO',
+}
@@ -0,0 +1,7 @@
+/**
+ * Formatos de descarga de los reportes de inventario
+ */
+export enum FormatoExportacion {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
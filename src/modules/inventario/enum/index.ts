@@ -0,0 +1,3 @@
+export * from './estado-numero-serie.enum';
+export * from './formato-exportacion.enum';
+export * from './tipo-linea-margen.enum';
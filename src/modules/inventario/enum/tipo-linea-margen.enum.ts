@@ -0,0 +1,14 @@
+/**
+ * Documento que origina una línea del reporte de margen bruto
+ */
+export enum TipoLineaMargen {
+  VENTA = 'VENTA',
+  /**
+   * Nota de débito sobre una venta: suma ingreso y, si despacha stock, costo
+   */
+  NOTA_DEBITO = 'NOTA_DEBITO',
+  /**
+   * Nota de crédito sobre una venta: resta ingreso y el costo de lo devuelto
+   */
+  NOTA_CREDITO = 'NOTA_CREDITO',
+}
@@ -1,13 +1,17 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Inventario } from './entities/inventario.entity';
+import { KardexSaldo } from './entities/kardex-saldo.entity';
 import { InventarioLote } from './entities/inventario-lote.entity';
+import { NumeroSerie } from './entities/numero-serie.entity';
+import { NumeroSerieMovimiento } from './entities/numero-serie-movimiento.entity';
 import { Almacen } from '../almacen/entities/almacen.entity';
 import { Producto } from '../productos/entities/producto.entity';
 import { Movimiento } from '../movimientos/entities/movimiento.entity';
 import { MovimientoDetalle } from '../movimientos/entities/movimiento-detalle.entity';
 import { ComprobanteDetalle } from '../comprobantes/entities/comprobante-detalle';
 import { TablaDetalle } from '../comprobantes/entities/tabla-detalle.entity';
+import { PeriodoContable } from '../periodos/entities/periodo-contable.entity';
 
 import { InventarioService } from './service/inventario.service';
 import { InventarioLoteService } from './service/inventario-lote.service';
@@ -17,7 +21,15 @@ import { StockCalculationService } from './service/stock-calculation.service';
 import { StockCacheService } from './service/stock-cache.service';
 import { KardexCalculationService } from './service/kardex-calculation.service';
 import { KardexService } from './service/kardex.service';
+import { KardexSaldoService } from './service/kardex-saldo.service';
+import { RecalculoKardexService } from './service/recalculo-kardex.service';
 import { CostoVentaService } from './service/costo-venta.service';
+import { PleInventarioService } from './service/ple-inventario.service';
+import { NumeroSerieService } from './service/numero-serie.service';
+import { HojaCalculoService } from './service/hoja-calculo.service';
+import { EncabezadoReporteService } from './service/encabezado-reporte.service';
+import { ValorizacionInventarioService } from './service/valorizacion-inventario.service';
+import { MargenBrutoService } from './service/margen-bruto.service';
 import { InventarioRepository } from './repository';
 import { KardexRepository } from './repository/kardex.repository';
 import { CostoVentaRepository } from './repository/costo-venta.repository';
@@ -26,25 +38,34 @@ import { InventarioLoteController } from './controller/inventario-lote.controlle
 import { LoteController } from './controller/lote.controller';
 import { KardexController } from './controller/kardex.controller';
 import { CostoVentaController } from './controller/costo-venta.controller';
+import { NumeroSerieController } from './controller/numero-serie.controller';
+import { ValorizacionInventarioController } from './controller/valorizacion-inventario.controller';
+import { MargenBrutoController } from './controller/margen-bruto.controller';
 import { ProductosModule } from '../productos/productos.module';
 import { UserModule } from '../users/user.module';
 import { PeriodosModule } from '../periodos/periodos.module';
+import { ContabilidadModule } from '../contabilidad/contabilidad.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       Inventario,
       InventarioLote,
+      NumeroSerie,
+      NumeroSerieMovimiento,
+      KardexSaldo,
       Almacen,
       Producto,
       Movimiento,
       MovimientoDetalle,
       ComprobanteDetalle,
       TablaDetalle,
+      PeriodoContable,
     ]),
     ProductosModule,
     UserModule,
-    PeriodosModule,
+    forwardRef(() => PeriodosModule),
+    forwardRef(() => ContabilidadModule),
   ],
   controllers: [
     InventarioController,
@@ -52,6 +73,9 @@ import { PeriodosModule } from '../periodos/periodos.module';
     LoteController,
     KardexController,
     CostoVentaController,
+    NumeroSerieController,
+    ValorizacionInventarioController,
+    MargenBrutoController,
   ],
   providers: [
     InventarioService,
@@ -62,7 +86,15 @@ import { PeriodosModule } from '../periodos/periodos.module';
     StockCacheService,
     KardexCalculationService,
     KardexService,
+    KardexSaldoService,
+    RecalculoKardexService,
     CostoVentaService,
+    PleInventarioService,
+    NumeroSerieService,
+    HojaCalculoService,
+    EncabezadoReporteService,
+    ValorizacionInventarioService,
+    MargenBrutoService,
     InventarioRepository,
     KardexRepository,
     CostoVentaRepository,
@@ -76,7 +108,12 @@ import { PeriodosModule } from '../periodos/periodos.module';
     StockCacheService,
     KardexCalculationService,
     KardexService,
+    KardexSaldoService,
+    RecalculoKardexService,
     CostoVentaService,
+    NumeroSerieService,
+    HojaCalculoService,
+    EncabezadoReporteService,
     TypeOrmModule,
   ],
 })
@@ -49,8 +49,8 @@ export class KardexRepository {
         COALESCE(m.tipo, 'ENTRADA') as "tipoMovimiento",
         tdc.descripcion as "tipoComprobante",
         CONCAT(c.serie, '-', c.numero) as "numeroComprobante",
-        COALESCE(md.cantidad, cd.cantidad) as cantidad,
-        cd."precioUnitario" as "costoUnitario",
+        COALESCE(md.cantidad, cd.cantidad * cd."factorConversion") as cantidad,
+        cd."precioUnitario" / cd."factorConversion" as "costoUnitario",
         cd.cantidad * cd."precioUnitario" as "costoTotal",
         i.id as "idInventario",
         p.nombre as "nombreProducto",
@@ -178,8 +178,8 @@ export class KardexRepository {
       SELECT 
         COALESCE(SUM(
           CASE 
-            WHEN COALESCE(m.tipo, 'ENTRADA') = 'ENTRADA' THEN COALESCE(md.cantidad, cd.cantidad)
-            ELSE -COALESCE(md.cantidad, cd.cantidad)
+            WHEN COALESCE(m.tipo, 'ENTRADA') = 'ENTRADA' THEN COALESCE(md.cantidad, cd.cantidad * cd."factorConversion")
+            ELSE -COALESCE(md.cantidad, cd.cantidad * cd."factorConversion")
           END
         ), 0) as cantidad,
         COALESCE(SUM(
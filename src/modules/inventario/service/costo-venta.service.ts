@@ -15,13 +15,20 @@ import {
   CostoVentaInventarioDto,
   CostoVentaInventarioSumatoriaDto,
 } from '../dto/costo-venta';
+import { ArchivoExportado, HojaCalculoService } from './hoja-calculo.service';
+import { EncabezadoReporteService } from './encabezado-reporte.service';
+import { FormatoExportacion } from '../enum';
 
 /**
  * Servicio para la generación de reportes de Estado de Costo de Venta
  */
 @Injectable()
 export class CostoVentaService {
-  constructor(private readonly costoVentaRepository: CostoVentaRepository) {}
+  constructor(
+    private readonly costoVentaRepository: CostoVentaRepository,
+    private readonly hojaCalculoService: HojaCalculoService,
+    private readonly encabezadoReporteService: EncabezadoReporteService,
+  ) {}
 
   /**
    * Nombres de los meses en español
@@ -170,20 +177,59 @@ export class CostoVentaService {
   }
 
   /**
-   * Exporta el reporte en formato JSON (puede extenderse para otros formatos)
+   * Exporta el reporte en JSON o como libro XLSX con encabezado de empresa y período
+   * @param personaId - ID de la empresa, requerido para el encabezado del XLSX
    */
   async exportCostoVentaReport(
     request: CostoVentaRequestDto,
     formato: 'json' | 'excel' = 'json',
-  ): Promise<CostoVentaResponseDto> {
+    personaId?: number,
+  ): Promise<CostoVentaResponseDto | ArchivoExportado> {
     const reporte = await this.generateCostoVentaReport(request);
 
     switch (formato) {
       case 'json':
         return reporte;
-      case 'excel':
-        // TODO: Implementar exportación a Excel
-        throw new Error('Exportación a Excel no implementada aún');
+      case 'excel': {
+        const encabezado = await this.encabezadoReporteService.generar(
+          this.requerirPersona(personaId),
+          'Estado de Costo de Venta',
+          { año: reporte.año },
+          this.lineasFiltro(reporte.almacen, reporte.producto),
+        );
+        return this.hojaCalculoService.exportar(
+          FormatoExportacion.XLSX,
+          `costo-venta-${reporte.año}`,
+          [
+            {
+              nombre: 'Costo de venta',
+              encabezado,
+              formatos: [undefined, 'monto', 'monto', 'monto'],
+              filasTotales: 1,
+              filas: [
+                [
+                  'Mes',
+                  'Compras totales',
+                  'Salidas totales',
+                  'Inventario final',
+                ],
+                ...reporte.datosMensuales.map((dato) => [
+                  dato.nombreMes,
+                  Number(dato.comprasTotales),
+                  Number(dato.salidasTotales),
+                  Number(dato.inventarioFinal),
+                ]),
+                [
+                  'Total anual',
+                  Number(reporte.sumatorias.totalComprasAnual),
+                  Number(reporte.sumatorias.totalSalidasAnual),
+                  Number(reporte.sumatorias.inventarioFinalAnual),
+                ],
+              ],
+            },
+          ],
+        );
+      }
       default:
         throw new Error(
           `Formato de exportación '${String(formato)}' no soportado`,
@@ -306,24 +352,81 @@ export class CostoVentaService {
   }
 
   /**
-   * Exporta el reporte por inventario en formato JSON (puede extenderse para otros formatos)
+   * Exporta el reporte por inventario en JSON o como libro XLSX con encabezado de empresa y período
+   * @param personaId - ID de la empresa, requerido para el encabezado del XLSX
    */
   async exportCostoVentaPorInventarioReport(
     request: CostoVentaPorInventarioRequestDto,
     formato: 'json' | 'excel' = 'json',
-  ): Promise<CostoVentaPorInventarioResponseDto> {
+    personaId?: number,
+  ): Promise<CostoVentaPorInventarioResponseDto | ArchivoExportado> {
     const reporte = await this.generateCostoVentaPorInventarioReport(request);
 
     switch (formato) {
       case 'json':
         return reporte;
-      case 'excel':
-        // TODO: Implementar exportación a Excel
-        throw new Error('Exportación a Excel no implementada aún');
+      case 'excel': {
+        const encabezado = await this.encabezadoReporteService.generar(
+          this.requerirPersona(personaId),
+          'Estado de Costo de Venta por inventario',
+          { año: reporte.año },
+          this.lineasFiltro(reporte.almacen, reporte.producto),
+        );
+        const { sumatorias } = reporte;
+        return this.hojaCalculoService.exportar(
+          FormatoExportacion.XLSX,
+          `costo-venta-por-inventario-${reporte.año}`,
+          [
+            {
+              nombre: 'Por inventario',
+              encabezado,
+              formatos: [undefined, undefined, 'monto', 'monto', 'monto'],
+              filasTotales: 1,
+              filas: [
+                [
+                  'Producto',
+                  'Almacén',
+                  'Entradas totales',
+                  'Salidas totales',
+                  'Inventario final',
+                ],
+                ...reporte.datosInventarios.map((dato) => [
+                  dato.nombreProducto,
+                  dato.nombreAlmacen,
+                  Number(dato.entradasTotales),
+                  Number(dato.salidasTotales),
+                  Number(dato.inventarioFinal),
+                ]),
+                [
+                  `Total (${sumatorias.cantidadInventarios} inventarios)`,
+                  '',
+                  Number(sumatorias.totalEntradasAnual),
+                  Number(sumatorias.totalSalidasAnual),
+                  Number(sumatorias.totalInventarioFinalAnual),
+                ],
+              ],
+            },
+          ],
+        );
+      }
       default:
         throw new Error(
           `Formato de exportación '${String(formato)}' no soportado`,
         );
     }
   }
+
+  private requerirPersona(personaId?: number): number {
+    if (!personaId) {
+      throw new Error('Se requiere la empresa para exportar a Excel');
+    }
+    return personaId;
+  }
+
+  private lineasFiltro(almacen?: string, producto?: string): string[] {
+    return [
+      ...(almacen ? [`Almacén: ${almacen}`] : []),
+      ...(producto ? [`Producto: ${producto}`] : []),
+    ];
+  }
 }
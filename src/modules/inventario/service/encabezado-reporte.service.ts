@@ -0,0 +1,77 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PersonaService } from '../../users/services/person.service';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+
+/**
+ * Período que cubre un reporte exportado
+ */
+export interface PeriodoReporte {
+  año: number;
+  fechaDesde?: string;
+  fechaHasta?: string;
+}
+
+/**
+ * Servicio que arma el encabezado de los reportes exportados: título, empresa y período contable
+ */
+@Injectable()
+export class EncabezadoReporteService {
+  constructor(
+    private readonly personaService: PersonaService,
+    @InjectRepository(PeriodoContable)
+    private readonly periodoRepository: Repository<PeriodoContable>,
+  ) {}
+
+  /**
+   * Líneas del encabezado, listas para HojaCalculo.encabezado
+   * @param personaId - ID de la empresa
+   * @param titulo - Título del reporte
+   * @param periodo - Año contable y, si el reporte lo acota, el rango de fechas
+   * @param filtros - Líneas adicionales con los filtros aplicados (almacén, producto)
+   */
+  async generar(
+    personaId: number,
+    titulo: string,
+    periodo: PeriodoReporte,
+    filtros: string[] = [],
+  ): Promise<string[]> {
+    const persona = await this.personaService.findById(personaId);
+    if (!persona) {
+      throw new NotFoundException(`Empresa con ID ${personaId} no encontrada`);
+    }
+
+    const periodoContable = await this.periodoRepository.findOne({
+      where: { persona: { id: personaId }, año: periodo.año },
+    });
+    let lineaPeriodo = `Período contable: ${periodo.año}`;
+    if (periodoContable) {
+      lineaPeriodo += ` (${this.fecha(periodoContable.fechaInicio)} al ${this.fecha(periodoContable.fechaFin)})`;
+      if (periodoContable.cerrado) {
+        lineaPeriodo += ' - cerrado';
+      }
+    }
+
+    const rango = [
+      ...(periodo.fechaDesde ? [`Desde: ${periodo.fechaDesde}`] : []),
+      ...(periodo.fechaHasta ? [`Hasta: ${periodo.fechaHasta}`] : []),
+    ];
+
+    return [
+      titulo,
+      `Empresa: ${persona.razonSocial || persona.nombreEmpresa}`,
+      `RUC: ${persona.ruc}`,
+      lineaPeriodo,
+      ...rango,
+      ...filtros,
+    ];
+  }
+
+  /** Las columnas date llegan como texto 'YYYY-MM-DD' */
+  private fecha(valor: Date | string): string {
+    return typeof valor === 'string'
+      ? valor.slice(0, 10)
+      : valor.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,52 @@
+import AdmZip from 'adm-zip';
+import { HojaCalculo, HojaCalculoService } from './hoja-calculo.service';
+import { FormatoExportacion } from '../enum';
+
+/**
+ * Tests unitarios para HojaCalculoService
+ * Verifica el encabezado sobre la tabla, los formatos numéricos y la fila de totales
+ */
+describe('HojaCalculoService', () => {
+  const service = new HojaCalculoService();
+
+  const hoja: HojaCalculo = {
+    nombre: 'Costo de venta',
+    encabezado: ['Estado de Costo de Venta', 'Empresa: Comercial Andina SAC'],
+    formatos: [undefined, 'monto'],
+    filasTotales: 1,
+    filas: [
+      ['Mes', 'Salidas totales'],
+      ['Enero', 1250.5],
+      ['Total anual', 1250.5],
+    ],
+  };
+
+  it('should place the header above the table and style totals', () => {
+    const archivo = service.exportar(FormatoExportacion.XLSX, 'costo-venta', [
+      hoja,
+    ]);
+
+    const zip = new AdmZip(archivo.contenido);
+    expect(zip.readAsText('xl/styles.xml')).toContain(
+      '<numFmt numFmtId="164" formatCode="#,##0.00"/>',
+    );
+    const xml = zip.readAsText('xl/worksheets/sheet1.xml');
+    // Título en negrita en A1 y cabecera de la tabla tras una fila en blanco
+    expect(xml).toContain('<c r="A1" t="inlineStr" s="1">');
+    expect(xml).toContain('<c r="B4" t="inlineStr" s="1">');
+    expect(xml).toContain('<c r="B5" s="2"><v>1250.5</v></c>');
+    expect(xml).toContain('<c r="A6" t="inlineStr" s="1">');
+    expect(xml).toContain('<c r="B6" s="4"><v>1250.5</v></c>');
+  });
+
+  it('should write the header lines before the rows in CSV', () => {
+    const archivo = service.exportar(FormatoExportacion.CSV, 'costo-venta', [
+      hoja,
+    ]);
+
+    expect(archivo.contenido.toString('utf-8')).toBe(
+      '\uFEFFEstado de Costo de Venta\r\nEmpresa: Comercial Andina SAC\r\n\r\n' +
+        'Mes,Salidas totales\r\nEnero,1250.5\r\nTotal anual,1250.5\r\n',
+    );
+  });
+});
@@ -0,0 +1,318 @@
+import { Injectable } from '@nestjs/common';
+import AdmZip from 'adm-zip';
+import { FormatoExportacion } from '../enum';
+
+export type CeldaHoja = string | number | null | undefined;
+
+/**
+ * Formato numérico de una columna: montos con 2 decimales, cantidades y costos unitarios con 4
+ */
+export type FormatoNumero = 'monto' | 'cantidad';
+
+/**
+ * Hoja de un libro exportado; la primera fila es la cabecera
+ */
+export interface HojaCalculo {
+  nombre: string;
+  filas: CeldaHoja[][];
+  /** Líneas sobre la tabla (empresa, período, filtros); la primera es el título */
+  encabezado?: string[];
+  /** Formato numérico por columna de la tabla */
+  formatos?: (FormatoNumero | undefined)[];
+  /** Cantidad de filas finales que son totales; van en negrita */
+  filasTotales?: number;
+}
+
+/**
+ * Archivo listo para descargar
+ */
+export interface ArchivoExportado {
+  nombreArchivo: string;
+  tipoContenido: string;
+  contenido: Buffer;
+}
+
+const TIPO_CSV = 'text/csv; charset=utf-8';
+const TIPO_XLSX =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Índices de cellXfs en styles.xml: [normal, negrita]
+const ESTILO_NEGRITA = 1;
+const ESTILOS_NUMERO: Record<FormatoNumero, [number, number]> = {
+  monto: [2, 4],
+  cantidad: [3, 5],
+};
+
+/**
+ * Servicio para exportar reportes en CSV o XLSX
+ * El XLSX se arma como SpreadsheetML comprimido, sin dependencias adicionales
+ */
+@Injectable()
+export class HojaCalculoService {
+  /**
+   * Genera el archivo en el formato pedido
+   * En CSV las hojas van una tras otra, con su nombre y separadas por una línea en blanco
+   * @param nombreBase - Nombre del archivo sin extensión
+   */
+  exportar(
+    formato: FormatoExportacion,
+    nombreBase: string,
+    hojas: HojaCalculo[],
+  ): ArchivoExportado {
+    if (formato === FormatoExportacion.XLSX) {
+      return {
+        nombreArchivo: `${nombreBase}.xlsx`,
+        tipoContenido: TIPO_XLSX,
+        contenido: this.generarXlsx(hojas),
+      };
+    }
+    const filas =
+      hojas.length === 1
+        ? this.filasCsv(hojas[0])
+        : hojas.flatMap((hoja, i) => [
+            ...(i > 0 ? [[]] : []),
+            [hoja.nombre],
+            ...this.filasCsv(hoja),
+          ]);
+    return {
+      nombreArchivo: `${nombreBase}.csv`,
+      tipoContenido: TIPO_CSV,
+      contenido: Buffer.from(this.generarCsv(filas), 'utf-8'),
+    };
+  }
+
+  /**
+   * CSV separado por comas, UTF-8 con BOM para Excel
+   */
+  generarCsv(filas: CeldaHoja[][]): string {
+    const contenido = filas
+      .map((fila) => fila.map((valor) => this.celdaCsv(valor)).join(','))
+      .join('\r\n');
+    return `\uFEFF${contenido}\r\n`;
+  }
+
+  /**
+   * Libro XLSX con una hoja por elemento; título, cabecera y totales van en negrita
+   */
+  generarXlsx(hojas: HojaCalculo[]): Buffer {
+    const zip = new AdmZip();
+    const nombres = this.nombresHoja(hojas);
+
+    zip.addFile(
+      '[Content_Types].xml',
+      this.xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          hojas
+            .map(
+              (_hoja, i) =>
+                `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+            )
+            .join('') +
+          '</Types>',
+      ),
+    );
+    zip.addFile(
+      '_rels/.rels',
+      this.xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          '</Relationships>',
+      ),
+    );
+    zip.addFile(
+      'xl/workbook.xml',
+      this.xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+          nombres
+            .map(
+              (nombre, i) =>
+                `<sheet name="${this.escaparXml(nombre)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+            )
+            .join('') +
+          '</sheets></workbook>',
+      ),
+    );
+    zip.addFile(
+      'xl/_rels/workbook.xml.rels',
+      this.xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          hojas
+            .map(
+              (_hoja, i) =>
+                `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+            )
+            .join('') +
+          `<Relationship Id="rId${hojas.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+          '</Relationships>',
+      ),
+    );
+    zip.addFile(
+      'xl/styles.xml',
+      this.xml(
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<numFmts count="2"><numFmt numFmtId="164" formatCode="#,##0.00"/><numFmt numFmtId="165" formatCode="#,##0.0000"/></numFmts>' +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="6">' +
+          '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+          '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+          '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+          '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+          '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>' +
+          '<xf numFmtId="165" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>' +
+          '</cellXfs>' +
+          '</styleSheet>',
+      ),
+    );
+    hojas.forEach((hoja, i) =>
+      zip.addFile(
+        `xl/worksheets/sheet${i + 1}.xml`,
+        this.xml(this.hojaXml(hoja)),
+      ),
+    );
+
+    return zip.toBuffer();
+  }
+
+  private hojaXml(hoja: HojaCalculo): string {
+    const encabezado = hoja.encabezado ?? [];
+    // La tabla empieza después del encabezado y una fila en blanco
+    const inicio = encabezado.length > 0 ? encabezado.length + 1 : 0;
+    const inicioTotales = hoja.filas.length - (hoja.filasTotales ?? 0);
+
+    const filasXml = [
+      ...encabezado.map((linea, i) =>
+        this.filaXml(i, [linea], () => (i === 0 ? ESTILO_NEGRITA : 0)),
+      ),
+      ...hoja.filas.map((fila, i) =>
+        this.filaXml(inicio + i, fila, (j, valor) => {
+          if (i === 0) {
+            return ESTILO_NEGRITA;
+          }
+          const total = i >= inicioTotales;
+          const formato = hoja.formatos?.[j];
+          if (formato && typeof valor === 'number') {
+            return ESTILOS_NUMERO[formato][total ? 1 : 0];
+          }
+          return total ? ESTILO_NEGRITA : 0;
+        }),
+      ),
+    ].join('');
+
+    return `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${this.columnasXml(hoja)}<sheetData>${filasXml}</sheetData></worksheet>`;
+  }
+
+  private filaXml(
+    indice: number,
+    fila: CeldaHoja[],
+    estiloCelda: (columna: number, valor: CeldaHoja) => number,
+  ): string {
+    const celdas = fila
+      .map((valor, j) => {
+        const ref = `${this.columna(j)}${indice + 1}`;
+        if (valor === null || valor === undefined || valor === '') {
+          return '';
+        }
+        const estilo = estiloCelda(j, valor);
+        const atributoEstilo = estilo ? ` s="${estilo}"` : '';
+        if (typeof valor === 'number' && Number.isFinite(valor)) {
+          return `<c r="${ref}"${atributoEstilo}><v>${valor}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"${atributoEstilo}><is><t xml:space="preserve">${this.escaparXml(String(valor))}</t></is></c>`;
+      })
+      .join('');
+    return `<row r="${indice + 1}">${celdas}</row>`;
+  }
+
+  /**
+   * Ancho de columna según el texto más largo de la tabla, para que los montos con separador
+   * de miles no se muestren como ####
+   */
+  private columnasXml(hoja: HojaCalculo): string {
+    const anchos: number[] = [];
+    for (const fila of hoja.filas) {
+      fila.forEach((valor, j) => {
+        const largo =
+          typeof valor === 'number'
+            ? valor.toFixed(4).length + 4
+            : String(valor ?? '').length;
+        anchos[j] = Math.max(anchos[j] ?? 0, largo);
+      });
+    }
+    if (anchos.length === 0) {
+      return '';
+    }
+    const columnas = Array.from(anchos, (ancho, j) => {
+      const valor = Math.min(Math.max((ancho ?? 0) + 2, 10), 50);
+      return `<col min="${j + 1}" max="${j + 1}" width="${valor}" customWidth="1"/>`;
+    }).join('');
+    return `<cols>${columnas}</cols>`;
+  }
+
+  /**
+   * Nombres de hoja válidos para Excel: máximo 31 caracteres, sin []:*?/\ y sin repetir
+   */
+  private nombresHoja(hojas: HojaCalculo[]): string[] {
+    const usados = new Set<string>();
+    return hojas.map((hoja, i) => {
+      let nombre =
+        hoja.nombre.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || `Hoja${i + 1}`;
+      if (usados.has(nombre.toLowerCase())) {
+        nombre = `${nombre.slice(0, 27)} (${i + 1})`;
+      }
+      usados.add(nombre.toLowerCase());
+      return nombre;
+    });
+  }
+
+  /** Letra de columna de Excel (0 → A, 26 → AA) */
+  private columna(indice: number): string {
+    let letras = '';
+    for (let n = indice + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letras = String.fromCharCode(65 + ((n - 1) % 26)) + letras;
+    }
+    return letras;
+  }
+
+  private xml(cuerpo: string): Buffer {
+    return Buffer.from(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${cuerpo}`,
+      'utf-8',
+    );
+  }
+
+  private escaparXml(texto: string): string {
+    // XML 1.0 no admite caracteres de control salvo tabulación y saltos de línea
+    const limpio = Array.from(texto)
+      .filter((caracter) => {
+        const codigo = caracter.charCodeAt(0);
+        return codigo >= 0x20 || [0x09, 0x0a, 0x0d].includes(codigo);
+      })
+      .join('');
+    return limpio
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private filasCsv(hoja: HojaCalculo): CeldaHoja[][] {
+    const encabezado = hoja.encabezado ?? [];
+    return [
+      ...encabezado.map((linea) => [linea]),
+      ...(encabezado.length > 0 ? [[]] : []),
+      ...hoja.filas,
+    ];
+  }
+
+  private celdaCsv(valor: CeldaHoja): string {
+    const texto = valor === null || valor === undefined ? '' : String(valor);
+    return /[",\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+  }
+}
@@ -0,0 +1,261 @@
+import { Repository } from 'typeorm';
+import { KardexCalculationService } from './kardex-calculation.service';
+import { StockCalculationService } from './stock-calculation.service';
+import { Inventario } from '../entities/inventario.entity';
+import { InventarioLote } from '../entities/inventario-lote.entity';
+import { KardexSaldo } from '../entities/kardex-saldo.entity';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Tests unitarios para KardexCalculationService
+ * Verifica que partir de un saldo de cierre dé el mismo Kardex que recorrer toda la historia
+ * y que con costo específico las salidas se valoricen con el lote elegido
+ */
+describe('KardexCalculationService', () => {
+  const costosLote: Record<number, number> = { 1: 5, 2: 8, 3: 10 };
+
+  // Historia del inventario: el lote 1 ya estaba al cierre de enero
+  const historia = [
+    {
+      idmovimientodetalle: 20,
+      md_cantidad: '10.0000',
+      md_id_lote: 2,
+      md_id_inventario: 4,
+      idmovimiento: 200,
+      tipomovimiento: TipoMovimiento.ENTRADA,
+      m_fecha: new Date('2024-02-05T10:00:00'),
+      c_tipoOperacion: 'COMPRA',
+      c_serie: 'F001',
+      c_numero: '15',
+    },
+    {
+      idmovimientodetalle: 21,
+      md_cantidad: '12.0000',
+      md_id_lote: null,
+      md_id_inventario: 4,
+      idmovimiento: 201,
+      tipomovimiento: TipoMovimiento.SALIDA,
+      m_fecha: new Date('2024-02-20T10:00:00'),
+      c_tipoOperacion: 'VENTA',
+      c_serie: 'F001',
+      c_numero: '40',
+    },
+    {
+      idmovimientodetalle: 22,
+      md_cantidad: '5.0000',
+      md_id_lote: null,
+      md_id_inventario: 4,
+      idmovimiento: 202,
+      tipomovimiento: TipoMovimiento.SALIDA,
+      m_fecha: new Date('2024-03-10T10:00:00'),
+      c_tipoOperacion: 'VENTA',
+      c_serie: 'F001',
+      c_numero: '41',
+    },
+    {
+      idmovimientodetalle: 23,
+      md_cantidad: '4.0000',
+      md_id_lote: 3,
+      md_id_inventario: 4,
+      idmovimiento: 203,
+      tipomovimiento: TipoMovimiento.ENTRADA,
+      m_fecha: new Date('2024-03-15T10:00:00'),
+      c_tipoOperacion: 'COMPRA',
+      c_serie: 'F002',
+      c_numero: '7',
+    },
+  ];
+
+  const saldoEnero = {
+    fechaCorte: '2024-01-31',
+    metodoValoracion: MetodoValoracion.FIFO,
+    cantidad: '10.0000',
+    costoUnitario: '5.00000000',
+    valorTotal: '50.00000000',
+    lotes: [
+      {
+        idLote: 1,
+        cantidadDisponible: 10,
+        costoUnitario: 5,
+        fechaIngreso: '2024-01-10T00:00:00',
+      },
+    ],
+  };
+
+  const fechaDesde = new Date(2024, 2, 1);
+  const fechaHasta = new Date(2024, 2, 31, 23, 59, 59, 999);
+
+  /**
+   * Crea el servicio con la historia en memoria y, opcionalmente, un saldo de cierre
+   * y los lotes registrados en las salidas
+   */
+  const crearServicio = (
+    saldoCierre: object | null,
+    movimientos: typeof historia = historia,
+    asignaciones: object[] = [],
+  ) => {
+    const movimientoDetalleRepository = {
+      createQueryBuilder: jest.fn(() => {
+        const rango: { fechaDesde?: Date; fechaHasta?: Date; ids?: number[] } =
+          {};
+        const consulta: Record<string, jest.Mock> = {};
+        for (const metodo of [
+          'innerJoin',
+          'leftJoin',
+          'select',
+          'orderBy',
+          'addOrderBy',
+        ]) {
+          consulta[metodo] = jest.fn(() => consulta);
+        }
+        for (const metodo of ['where', 'andWhere']) {
+          consulta[metodo] = jest.fn((_condicion: string, params: object) => {
+            Object.assign(rango, params);
+            return consulta;
+          });
+        }
+        // La consulta de lotes por detalle de salida filtra por IDs; la de movimientos, por fechas
+        consulta.getRawMany = jest.fn(() =>
+          Promise.resolve(
+            rango.ids
+              ? asignaciones
+              : movimientos.filter(
+                  (mov) =>
+                    mov.m_fecha >= rango.fechaDesde! &&
+                    mov.m_fecha <= rango.fechaHasta!,
+                ),
+          ),
+        );
+        return consulta;
+      }),
+    } as unknown as Repository<MovimientoDetalle>;
+
+    const saldoQuery: Record<string, jest.Mock> = {};
+    for (const metodo of ['where', 'andWhere', 'orderBy']) {
+      saldoQuery[metodo] = jest.fn(() => saldoQuery);
+    }
+    saldoQuery.getOne = jest.fn(() => Promise.resolve(saldoCierre));
+
+    return new KardexCalculationService(
+      {
+        findOne: jest.fn(() =>
+          Promise.resolve({
+            id: 4,
+            producto: {
+              id: 12,
+              codigo: 'P-012',
+              nombre: 'Cemento',
+              unidadMedida: 'NIU',
+            },
+            almacen: { id: 1, nombre: 'Principal' },
+          }),
+        ),
+      } as unknown as Repository<Inventario>,
+      {
+        findOne: jest.fn(({ where }: { where: { id: number } }) =>
+          Promise.resolve({ costoUnitario: costosLote[where.id] }),
+        ),
+      } as unknown as Repository<InventarioLote>,
+      movimientoDetalleRepository,
+      {
+        createQueryBuilder: jest.fn(() => saldoQuery),
+      } as unknown as Repository<KardexSaldo>,
+      // Estado al cierre de febrero que devolvería el recorrido completo
+      {
+        calcularStockInventario: jest.fn(() =>
+          Promise.resolve({ stockActual: 8, costoPromedioActual: 8 }),
+        ),
+        obtenerLotesDisponiblesFIFO: jest.fn(() =>
+          Promise.resolve([
+            {
+              idLote: 2,
+              cantidadDisponible: 8,
+              costoUnitario: 8,
+              fechaIngreso: new Date('2024-02-05T10:00:00'),
+            },
+          ]),
+        ),
+      } as unknown as StockCalculationService,
+    );
+  };
+
+  it('should match a full replay when starting from a closing snapshot', async () => {
+    const completo = await crearServicio(null).generarKardex(
+      4,
+      fechaDesde,
+      fechaHasta,
+      MetodoValoracion.FIFO,
+    );
+    const desdeSaldo = await crearServicio(saldoEnero).generarKardex(
+      4,
+      fechaDesde,
+      fechaHasta,
+      MetodoValoracion.FIFO,
+    );
+
+    // Febrero solo forma el saldo inicial: la salida consumió el lote 1 y parte del 2
+    expect(desdeSaldo!.saldoInicial).toEqual({
+      cantidad: 8,
+      costoUnitario: 8,
+      valorTotal: 64,
+    });
+    expect(desdeSaldo!.saldoInicial).toEqual(completo!.saldoInicial);
+    expect(desdeSaldo!.movimientos).toEqual(completo!.movimientos);
+    expect(
+      desdeSaldo!.movimientos.map((mov) => mov.idMovimientoDetalle),
+    ).toEqual([22, 23]);
+    expect(desdeSaldo!.movimientos[0].detallesSalida).toEqual([
+      { idLote: 2, cantidad: 5, costoUnitarioDeLote: 8, costoTotal: 40 },
+    ]);
+    expect(desdeSaldo!.stockFinal).toBe(7);
+    expect(desdeSaldo!.valorTotalFinal).toBeCloseTo(64);
+    expect(desdeSaldo!.valorTotalFinal).toBeCloseTo(completo!.valorTotalFinal);
+  });
+
+  it('should value a specific-cost exit at the cost of the lot chosen in the sale', async () => {
+    // Venta del 20/03 que eligió el lote 3 aunque el lote 2 es más antiguo
+    const ventaLote3 = {
+      ...historia[2],
+      idmovimientodetalle: 24,
+      idmovimiento: 204,
+      md_cantidad: '2.0000',
+      m_fecha: new Date('2024-03-20T10:00:00'),
+      c_numero: '42',
+    };
+
+    const kardex = await crearServicio(
+      null,
+      [...historia, ventaLote3],
+      [
+        {
+          id_detalle: 24,
+          id_lote: 3,
+          cantidad: '2.0000',
+          costo_unitario: '10.00000000',
+        },
+      ],
+    ).generarKardex(4, fechaDesde, fechaHasta, MetodoValoracion.ESPECIFICO);
+
+    const salida = kardex!.movimientos.find(
+      (mov) => mov.idMovimientoDetalle === 24,
+    );
+    expect(salida).toEqual(
+      expect.objectContaining({
+        cantidad: 2,
+        costoUnitario: 10,
+        costoTotal: 20,
+        cantidadSaldo: 5,
+        valorTotalSaldo: 44,
+      }),
+    );
+    expect(salida!.detallesSalida).toEqual([
+      { idLote: 3, cantidad: 2, costoUnitarioDeLote: 10, costoTotal: 20 },
+    ]);
+    // Las salidas sin lote elegido siguen consumiendo por FIFO
+    expect(kardex!.movimientos[0].detallesSalida).toEqual([
+      { idLote: 2, cantidad: 5, costoUnitarioDeLote: 8, costoTotal: 40 },
+    ]);
+  });
+});
@@ -3,10 +3,14 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { InventarioLote } from '../entities/inventario-lote.entity';
 import { Inventario } from '../entities/inventario.entity';
+import { KardexSaldo } from '../entities/kardex-saldo.entity';
 import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
 import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
 import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { normalizarUnidadMedida } from '../../productos/enum/unidad-medida-sunat';
 import { StockCalculationService } from './stock-calculation.service';
+import type { LoteDisponible } from './stock-calculation.service';
 
 /**
  * Interfaz para un movimiento de Kardex calculado dinámicamente
@@ -86,15 +90,18 @@ export class KardexCalculationService {
     private readonly loteRepository: Repository<InventarioLote>,
     @InjectRepository(MovimientoDetalle)
     private readonly movimientoDetalleRepository: Repository<MovimientoDetalle>,
+    @InjectRepository(KardexSaldo)
+    private readonly kardexSaldoRepository: Repository<KardexSaldo>,
     private readonly stockCalculationService: StockCalculationService,
   ) {}
 
   /**
    * Genera el Kardex completo para un inventario específico
+   * Si hay un saldo de cierre anterior a fechaDesde, solo recorre los movimientos posteriores a él
    * @param idInventario ID del inventario
    * @param fechaDesde Fecha de inicio del período
    * @param fechaHasta Fecha de fin del período
-   * @param metodoValoracion Método de valoración (PROMEDIO o FIFO)
+   * @param metodoValoracion Método de valoración (PROMEDIO, FIFO o ESPECIFICO)
    * @returns Kardex calculado dinámicamente
    */
   async generarKardex(
@@ -113,27 +120,81 @@ export class KardexCalculationService {
       return null;
     }
 
-    // Obtener todos los movimientos del inventario en el período
-    const movimientos = await this.obtenerMovimientosInventario(
+    const saldoCierre = await this.obtenerSaldoCierre(
       idInventario,
       fechaDesde,
-      fechaHasta,
+      metodoValoracion,
     );
 
-    // Calcular saldo inicial (movimientos anteriores a fechaDesde)
-    const saldoInicial = await this.calcularSaldoInicial(
-      idInventario,
-      fechaDesde,
-    );
+    let saldoInicial: {
+      cantidad: number;
+      costoUnitario: number;
+      valorTotal: number;
+    };
+    let movimientosKardex: KardexMovement[];
 
-    // Procesar movimientos según el método de valoración
-    const movimientosKardex = await this.procesarMovimientos(
-      movimientos,
-      saldoInicial,
-      metodoValoracion,
-      idInventario,
-      fechaDesde,
-    );
+    if (saldoCierre) {
+      // Partir del saldo de cierre y recorrer solo lo posterior a él
+      const inicio = new Date(`${saldoCierre.fechaCorte}T00:00:00`);
+      inicio.setDate(inicio.getDate() + 1);
+      const movimientos = await this.obtenerMovimientosInventario(
+        idInventario,
+        inicio,
+        fechaHasta,
+      );
+      const procesados = await this.procesarMovimientos(
+        movimientos,
+        {
+          cantidad: Number(saldoCierre.cantidad),
+          costoUnitario: Number(saldoCierre.costoUnitario),
+          valorTotal: Number(saldoCierre.valorTotal),
+        },
+        metodoValoracion,
+        idInventario,
+        inicio,
+        (saldoCierre.lotes || []).map((lote) => ({
+          idLote: lote.idLote,
+          cantidadDisponible: Number(lote.cantidadDisponible),
+          costoUnitario: Number(lote.costoUnitario),
+          fechaIngreso: new Date(lote.fechaIngreso),
+        })),
+      );
+
+      // Los movimientos anteriores a fechaDesde solo forman el saldo inicial
+      const previos = procesados.filter((mov) => mov.fecha < fechaDesde);
+      const ultimoPrevio = previos[previos.length - 1];
+      saldoInicial = ultimoPrevio
+        ? {
+            cantidad: ultimoPrevio.cantidadSaldo,
+            costoUnitario: ultimoPrevio.costoUnitarioSaldo,
+            valorTotal: ultimoPrevio.valorTotalSaldo,
+          }
+        : {
+            cantidad: Number(saldoCierre.cantidad),
+            costoUnitario: Number(saldoCierre.costoUnitario),
+            valorTotal: Number(saldoCierre.valorTotal),
+          };
+      movimientosKardex = procesados.slice(previos.length);
+    } else {
+      // Obtener todos los movimientos del inventario en el período
+      const movimientos = await this.obtenerMovimientosInventario(
+        idInventario,
+        fechaDesde,
+        fechaHasta,
+      );
+
+      // Calcular saldo inicial (movimientos anteriores a fechaDesde)
+      saldoInicial = await this.calcularSaldoInicial(idInventario, fechaDesde);
+
+      // Procesar movimientos según el método de valoración
+      movimientosKardex = await this.procesarMovimientos(
+        movimientos,
+        saldoInicial,
+        metodoValoracion,
+        idInventario,
+        fechaDesde,
+      );
+    }
 
     // Calcular valores finales
     const ultimoMovimiento = movimientosKardex[movimientosKardex.length - 1];
@@ -148,7 +209,10 @@ export class KardexCalculationService {
         id: inventario.producto.id,
         codigo: inventario.producto.codigo,
         nombre: inventario.producto.nombre,
-        unidadMedida: inventario.producto.unidadMedida,
+        // Las cantidades de los movimientos ya están en la unidad base del producto
+        unidadMedida:
+          normalizarUnidadMedida(inventario.producto.unidadMedida) ??
+          inventario.producto.unidadMedida,
       },
       almacen: {
         id: inventario.almacen.id,
@@ -215,6 +279,29 @@ export class KardexCalculationService {
     return movimientos;
   }
 
+  /**
+   * Último saldo de cierre que termina antes del día de fechaDesde
+   */
+  private async obtenerSaldoCierre(
+    idInventario: number,
+    fechaDesde: Date,
+    metodoValoracion: MetodoValoracion,
+  ): Promise<KardexSaldo | null> {
+    const mes = String(fechaDesde.getMonth() + 1).padStart(2, '0');
+    const dia = String(fechaDesde.getDate()).padStart(2, '0');
+    return this.kardexSaldoRepository
+      .createQueryBuilder('saldo')
+      .where('saldo.id_inventario = :idInventario', { idInventario })
+      .andWhere('saldo.metodoValoracion = :metodoValoracion', {
+        metodoValoracion,
+      })
+      .andWhere('saldo.fechaCorte < :desde', {
+        desde: `${fechaDesde.getFullYear()}-${mes}-${dia}`,
+      })
+      .orderBy('saldo.fechaCorte', 'DESC')
+      .getOne();
+  }
+
   /**
    * Calcula el saldo inicial antes del período de consulta
    */
@@ -257,15 +344,37 @@ export class KardexCalculationService {
     metodoValoracion: MetodoValoracion,
     idInventario: number,
     fechaDesde: Date,
+    lotesIniciales?: LoteDisponible[],
   ): Promise<KardexMovement[]> {
     const movimientosKardex: KardexMovement[] = [];
     let saldoActual = { ...saldoInicial };
+    const porLotes = metodoValoracion !== MetodoValoracion.PROMEDIO;
 
-    // Inicializar estado temporal de lotes para FIFO
-    if (metodoValoracion === MetodoValoracion.FIFO) {
-      await this.inicializarLotesTemporales(idInventario, fechaDesde);
+    // Inicializar estado temporal de lotes para FIFO y costo específico
+    if (porLotes) {
+      if (lotesIniciales) {
+        this.cargarLotesTemporales(lotesIniciales);
+      } else {
+        await this.inicializarLotesTemporales(idInventario, fechaDesde);
+      }
     }
 
+    // Con costo específico las salidas se valorizan con los lotes que eligió el vendedor
+    const asignaciones =
+      metodoValoracion === MetodoValoracion.ESPECIFICO
+        ? await this.obtenerAsignacionesLotes(
+            movimientos
+              .filter(
+                (mov) =>
+                  !this.esMovimientoEntrada(
+                    mov.tipomovimiento,
+                    mov.c_tipoOperacion,
+                  ),
+              )
+              .map((mov) => Number(mov.idmovimientodetalle)),
+          )
+        : new Map<number, DetalleSalidaCalculado[]>();
+
     for (let i = 0; i < movimientos.length; i++) {
       const mov = movimientos[i];
 
@@ -279,8 +388,8 @@ export class KardexCalculationService {
       if (esEntrada) {
         movimientoKardex = await this.procesarEntrada(mov, saldoActual);
 
-        // Actualizar lotes temporales para FIFO en entradas usando datos del movimiento calculado
-        if (metodoValoracion === MetodoValoracion.FIFO && mov.md_id_lote) {
+        // Actualizar lotes temporales en entradas usando datos del movimiento calculado
+        if (porLotes && mov.md_id_lote) {
           this.actualizarLoteTemporalEntrada(
             Number(mov.md_id_lote),
             Number(movimientoKardex.cantidad),
@@ -294,6 +403,7 @@ export class KardexCalculationService {
           saldoActual,
           metodoValoracion,
           idInventario,
+          asignaciones.get(Number(mov.idmovimientodetalle)),
         );
 
         // Manejar el caso en que procesarSalida devuelve un array (FIFO con múltiples lotes)
@@ -385,6 +495,7 @@ export class KardexCalculationService {
 
   /**
    * Procesa un movimiento de salida (venta)
+   * @param asignacion Lotes registrados en la salida (solo costo específico)
    */
   private procesarSalida(
     mov: any,
@@ -395,6 +506,7 @@ export class KardexCalculationService {
     },
     metodoValoracion: MetodoValoracion,
     idInventario: number,
+    asignacion?: DetalleSalidaCalculado[],
   ): KardexMovement | KardexMovement[] {
     const cantidad = Number(mov.md_cantidad);
 
@@ -436,10 +548,13 @@ export class KardexCalculationService {
       };
     }
 
-    // Para método FIFO, crear un movimiento por cada lote consumido
+    // Para FIFO y costo específico, crear un movimiento por cada lote consumido
     else {
-      // Calcular los lotes a consumir usando FIFO
-      const resultadoFIFO = this.calcularCostoFIFO(idInventario, cantidad);
+      // Calcular los lotes a consumir: los elegidos en la venta o, si no hay, por FIFO
+      const resultadoFIFO =
+        metodoValoracion === MetodoValoracion.ESPECIFICO && asignacion?.length
+          ? this.consumirLotesAsignados(asignacion)
+          : this.calcularCostoFIFO(idInventario, cantidad);
 
       const movimientosPorLote: KardexMovement[] = [];
       let saldoActualizado = { ...saldoAnterior };
@@ -544,7 +659,14 @@ export class KardexCalculationService {
         fechaEstadoInicial,
       );
 
-    // Cargar en el estado temporal
+    this.cargarLotesTemporales(lotesDisponibles);
+  }
+
+  /**
+   * Carga lotes disponibles en el estado temporal
+   */
+  private cargarLotesTemporales(lotesDisponibles: LoteDisponible[]): void {
+    this.lotesDisponiblesTemporales.clear();
     for (const lote of lotesDisponibles) {
       this.lotesDisponiblesTemporales.set(lote.idLote, {
         cantidadDisponible: lote.cantidadDisponible,
@@ -648,6 +770,74 @@ export class KardexCalculationService {
     };
   }
 
+  /**
+   * Lotes registrados en cada detalle de salida, agrupados por detalle
+   */
+  private async obtenerAsignacionesLotes(
+    idsMovimientoDetalle: number[],
+  ): Promise<Map<number, DetalleSalidaCalculado[]>> {
+    const asignaciones = new Map<number, DetalleSalidaCalculado[]>();
+    if (idsMovimientoDetalle.length === 0) {
+      return asignaciones;
+    }
+
+    const filas = await this.movimientoDetalleRepository
+      .createQueryBuilder('md')
+      .innerJoin(DetalleSalida, 'ds', 'ds.id_movimiento_detalle = md.id')
+      .select([
+        'md.id as id_detalle',
+        'ds.id_lote as id_lote',
+        'ds.cantidad as cantidad',
+        'ds.costo_unitario_de_lote as costo_unitario',
+      ])
+      .where('md.id IN (:...ids)', { ids: idsMovimientoDetalle })
+      .orderBy('ds.id', 'ASC')
+      .getRawMany<{
+        id_detalle: number;
+        id_lote: number;
+        cantidad: string;
+        costo_unitario: string;
+      }>();
+
+    for (const fila of filas) {
+      const cantidad = Number(fila.cantidad);
+      const costoUnitarioDeLote = Number(fila.costo_unitario);
+      const lista = asignaciones.get(Number(fila.id_detalle)) ?? [];
+      lista.push({
+        idLote: Number(fila.id_lote),
+        cantidad,
+        costoUnitarioDeLote,
+        costoTotal: cantidad * costoUnitarioDeLote,
+      });
+      asignaciones.set(Number(fila.id_detalle), lista);
+    }
+    return asignaciones;
+  }
+
+  /**
+   * Descuenta del estado temporal los lotes elegidos en una venta por costo específico
+   */
+  private consumirLotesAsignados(asignacion: DetalleSalidaCalculado[]): {
+    costoUnitarioPromedio: number;
+    detallesSalida: DetalleSalidaCalculado[];
+  } {
+    let cantidadTotal = 0;
+    let costoTotal = 0;
+    for (const detalle of asignacion) {
+      const loteTemp = this.lotesDisponiblesTemporales.get(detalle.idLote);
+      if (loteTemp) {
+        loteTemp.cantidadDisponible -= detalle.cantidad;
+      }
+      cantidadTotal += detalle.cantidad;
+      costoTotal += detalle.costoTotal;
+    }
+
+    return {
+      costoUnitarioPromedio: cantidadTotal > 0 ? costoTotal / cantidadTotal : 0,
+      detallesSalida: asignacion,
+    };
+  }
+
   /**
    * Determina si un movimiento es de entrada
    */
@@ -0,0 +1,130 @@
+import { Repository } from 'typeorm';
+import { KardexSaldoService } from './kardex-saldo.service';
+import { KardexCalculationService } from './kardex-calculation.service';
+import { StockCalculationService } from './stock-calculation.service';
+import { Inventario } from '../entities/inventario.entity';
+import { KardexSaldo } from '../entities/kardex-saldo.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Tests unitarios para KardexSaldoService
+ * Verifica el saldo guardado al cierre y su invalidación por movimientos retroactivos
+ */
+describe('KardexSaldoService', () => {
+  let service: KardexSaldoService;
+  let guardados: KardexSaldo[];
+  let deleteQuery: {
+    delete: jest.Mock;
+    where: jest.Mock;
+    andWhere: jest.Mock;
+    execute: jest.Mock;
+  };
+
+  const periodo = {
+    id: 3,
+    fechaInicio: '2024-01-01',
+    fechaFin: '2024-12-31',
+    persona: { id: 1 },
+  } as unknown as PeriodoContable;
+
+  beforeEach(() => {
+    guardados = [];
+    deleteQuery = {
+      delete: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn(() => Promise.resolve({ affected: 1 })),
+    };
+
+    const kardexSaldoRepository = {
+      delete: jest.fn(() => Promise.resolve({ affected: 0 })),
+      create: jest.fn((saldo: KardexSaldo) => saldo),
+      save: jest.fn((saldos: KardexSaldo[]) => {
+        guardados = saldos;
+        return Promise.resolve(saldos);
+      }),
+      createQueryBuilder: jest.fn(() => deleteQuery),
+    } as unknown as Repository<KardexSaldo>;
+    const inventarioRepository = {
+      find: jest.fn(() => Promise.resolve([{ id: 10 }, { id: 11 }])),
+    } as unknown as Repository<Inventario>;
+    const kardexCalculationService = {
+      generarKardex: jest.fn((idInventario: number) =>
+        Promise.resolve({
+          saldoInicial: { cantidad: 5, costoUnitario: 2, valorTotal: 10 },
+          // El inventario 11 no tuvo movimientos en el período
+          movimientos:
+            idInventario === 10
+              ? [
+                  {
+                    cantidadSaldo: 8,
+                    costoUnitarioSaldo: 2.5,
+                    valorTotalSaldo: 20,
+                  },
+                ]
+              : [],
+        }),
+      ),
+    } as unknown as KardexCalculationService;
+    const stockCalculationService = {
+      obtenerLotesDisponiblesFIFO: jest.fn(() =>
+        Promise.resolve([
+          {
+            idLote: 7,
+            cantidadDisponible: 8,
+            costoUnitario: 2.5,
+            fechaIngreso: new Date('2024-06-10T00:00:00'),
+          },
+        ]),
+      ),
+    } as unknown as StockCalculationService;
+
+    service = new KardexSaldoService(
+      kardexSaldoRepository,
+      inventarioRepository,
+      kardexCalculationService,
+      stockCalculationService,
+    );
+  });
+
+  describe('generarSaldosPeriodo', () => {
+    it('should save the closing balance and open layers of each inventory', async () => {
+      const total = await service.generarSaldosPeriodo(
+        periodo,
+        MetodoValoracion.PROMEDIO,
+      );
+
+      expect(total).toBe(2);
+      expect(guardados[0]).toMatchObject({
+        inventario: { id: 10 },
+        periodoContable: { id: 3 },
+        fechaCorte: '2024-12-31',
+        cantidad: 8,
+        valorTotal: 20,
+        lotes: [{ idLote: 7, fechaIngreso: '2024-06-10' }],
+      });
+      expect(guardados[1]).toMatchObject({ cantidad: 5, valorTotal: 10 });
+    });
+  });
+
+  describe('invalidarDesde', () => {
+    it('should delete balances cut on or after the movement date', async () => {
+      await service.invalidarDesde(
+        [10, 10, 11],
+        new Date('2024-03-15T00:00:00'),
+      );
+
+      expect(deleteQuery.where.mock.calls[0][1]).toEqual({ ids: [10, 11] });
+      expect(deleteQuery.andWhere.mock.calls[0][1]).toEqual({
+        fecha: '2024-03-15',
+      });
+    });
+
+    it('should skip the query without inventories', async () => {
+      await service.invalidarDesde([], new Date('2024-03-15T00:00:00'));
+
+      expect(deleteQuery.execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Inventario } from '../entities/inventario.entity';
+import { KardexSaldo } from '../entities/kardex-saldo.entity';
+import { KardexCalculationService } from './kardex-calculation.service';
+import { StockCalculationService } from './stock-calculation.service';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Servicio de saldos de Kardex por período
+ * Guarda el saldo de cada inventario al cerrar un período y lo invalida ante movimientos retroactivos
+ */
+@Injectable()
+export class KardexSaldoService {
+  private readonly logger = new Logger(KardexSaldoService.name);
+
+  constructor(
+    @InjectRepository(KardexSaldo)
+    private readonly kardexSaldoRepository: Repository<KardexSaldo>,
+    @InjectRepository(Inventario)
+    private readonly inventarioRepository: Repository<Inventario>,
+    private readonly kardexCalculationService: KardexCalculationService,
+    private readonly stockCalculationService: StockCalculationService,
+  ) {}
+
+  /**
+   * Calcula y guarda el saldo de todos los inventarios de la empresa al fin del período
+   * Reemplaza los saldos que el período tuviera
+   * @param periodo - Período contable con su persona
+   * @param metodoValoracion - Método de valoración vigente
+   * @returns Cantidad de saldos guardados
+   */
+  async generarSaldosPeriodo(
+    periodo: PeriodoContable,
+    metodoValoracion: MetodoValoracion,
+  ): Promise<number> {
+    const fechaInicio = this.aFecha(periodo.fechaInicio);
+    const fechaCorte = this.aFecha(periodo.fechaFin);
+    const desde = new Date(`${fechaInicio}T00:00:00`);
+    const hasta = new Date(`${fechaCorte}T23:59:59.999`);
+
+    const inventarios = await this.inventarioRepository.find({
+      where: { almacen: { persona: { id: periodo.persona.id } } },
+      select: ['id'],
+    });
+
+    await this.kardexSaldoRepository.delete({
+      periodoContable: { id: periodo.id },
+    });
+
+    const saldos: KardexSaldo[] = [];
+    for (const { id } of inventarios) {
+      const kardex = await this.kardexCalculationService.generarKardex(
+        id,
+        desde,
+        hasta,
+        metodoValoracion,
+      );
+      if (!kardex) {
+        continue;
+      }
+
+      const ultimo = kardex.movimientos[kardex.movimientos.length - 1];
+      const saldo = ultimo
+        ? {
+            cantidad: ultimo.cantidadSaldo,
+            costoUnitario: ultimo.costoUnitarioSaldo,
+            valorTotal: ultimo.valorTotalSaldo,
+          }
+        : kardex.saldoInicial;
+      const lotes =
+        await this.stockCalculationService.obtenerLotesDisponiblesFIFO(
+          id,
+          hasta,
+        );
+
+      saldos.push(
+        this.kardexSaldoRepository.create({
+          inventario: { id },
+          periodoContable: { id: periodo.id },
+          fechaCorte,
+          metodoValoracion,
+          cantidad: saldo.cantidad,
+          costoUnitario: saldo.costoUnitario,
+          valorTotal: saldo.valorTotal,
+          lotes: lotes.map((lote) => ({
+            idLote: Number(lote.idLote),
+            cantidadDisponible: lote.cantidadDisponible,
+            costoUnitario: lote.costoUnitario,
+            fechaIngreso: this.aFecha(lote.fechaIngreso),
+          })),
+        }),
+      );
+    }
+
+    await this.kardexSaldoRepository.save(saldos);
+    this.logger.log(
+      `Saldos de Kardex al ${fechaCorte} guardados para ${saldos.length} inventarios`,
+    );
+    return saldos.length;
+  }
+
+  /**
+   * Elimina los saldos que ya no reflejan los movimientos de un inventario
+   * Un movimiento con fecha igual o anterior al corte de un saldo lo invalida
+   * @param idsInventario - Inventarios afectados
+   * @param fecha - Fecha del movimiento
+   * @param manager - EntityManager de la transacción (opcional)
+   */
+  async invalidarDesde(
+    idsInventario: number[],
+    fecha: Date,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const ids = [...new Set(idsInventario.filter(Boolean))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    const repository = manager
+      ? manager.getRepository(KardexSaldo)
+      : this.kardexSaldoRepository;
+    const resultado = await repository
+      .createQueryBuilder()
+      .delete()
+      .where('id_inventario IN (:...ids)', { ids })
+      .andWhere('"fechaCorte" >= :fecha', { fecha: this.aFecha(fecha) })
+      .execute();
+
+    if (resultado.affected) {
+      this.logger.log(
+        `${resultado.affected} saldos de Kardex invalidados por un movimiento del ${this.aFecha(fecha)}`,
+      );
+    }
+  }
+
+  /**
+   * Elimina los saldos de un período (al reabrirlo)
+   * @param idPeriodo - ID del período contable
+   */
+  async eliminarSaldosPeriodo(idPeriodo: number): Promise<void> {
+    await this.kardexSaldoRepository.delete({
+      periodoContable: { id: idPeriodo },
+    });
+  }
+
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+}
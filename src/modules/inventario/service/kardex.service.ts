@@ -1,5 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { KardexRequestDto, KardexResponseDto } from '../dto';
+import {
+  ExportarKardexQueryDto,
+  KardexRequestDto,
+  KardexResponseDto,
+} from '../dto';
 import { TipoMovimiento } from 'src/modules/movimientos/enum/tipo-movimiento.enum';
 import { plainToInstance } from 'class-transformer';
 import { InventarioRepository } from '../repository';
@@ -9,6 +13,9 @@ import type {
   KardexResult,
 } from './kardex-calculation.service';
 import { PeriodoContableService } from 'src/modules/periodos/service';
+import { FormatoExportacion } from '../enum';
+import { ArchivoExportado, HojaCalculoService } from './hoja-calculo.service';
+import { EncabezadoReporteService } from './encabezado-reporte.service';
 
 @Injectable()
 export class KardexService {
@@ -17,6 +24,8 @@ export class KardexService {
     private readonly inventarioRepository: InventarioRepository,
     private readonly kardexCalculationService: KardexCalculationService,
     private readonly periodoContableService: PeriodoContableService,
+    private readonly hojaCalculoService: HojaCalculoService,
+    private readonly encabezadoReporteService: EncabezadoReporteService,
   ) {}
 
   /**
@@ -191,6 +200,129 @@ export class KardexService {
     });
   }
 
+  /**
+   * Descarga el Kardex de un inventario con encabezado de empresa y período, saldo inicial,
+   * movimientos y totales de entradas, salidas y saldo final
+   * @param request - Inventario, rango de fechas, formato y personaId
+   */
+  async exportarKardex(
+    request: ExportarKardexQueryDto,
+  ): Promise<ArchivoExportado> {
+    const kardex = await this.generateKardexReport(request);
+    const fechaHasta =
+      request.fechaFin?.slice(0, 10) ?? new Date().toISOString().slice(0, 10);
+
+    const encabezado = await this.encabezadoReporteService.generar(
+      request.personaId!,
+      'Kardex valorizado',
+      {
+        año: Number(fechaHasta.slice(0, 4)),
+        fechaDesde: request.fechaInicio?.slice(0, 10),
+        fechaHasta,
+      },
+      [`Producto: ${kardex.producto}`, `Almacén: ${kardex.almacen}`],
+    );
+
+    const sumar = (tipo: string, campo: 'cantidad' | 'costoTotal') =>
+      Number(
+        kardex.movimientos
+          .filter((mov) => mov.tipo === tipo)
+          .reduce((total, mov) => total + mov[campo], 0)
+          .toFixed(8),
+      );
+
+    return this.hojaCalculoService.exportar(
+      request.formato ?? FormatoExportacion.XLSX,
+      `kardex-${request.idInventario}-${fechaHasta}`,
+      [
+        {
+          nombre: 'Kardex',
+          encabezado,
+          formatos: [
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            'cantidad',
+            'cantidad',
+            'monto',
+            'cantidad',
+          ],
+          filasTotales: 3,
+          filas: [
+            [
+              'Fecha',
+              'Tipo',
+              'Tipo comprobante',
+              'Tipo operación',
+              'Comprobante',
+              'Cantidad',
+              'Costo unitario',
+              'Costo total',
+              'Saldo',
+            ],
+            [
+              '',
+              'Saldo inicial',
+              '',
+              '',
+              '',
+              '',
+              '',
+              Number(kardex.inventarioInicialCostoTotal),
+              Number(kardex.inventarioInicialCantidad),
+            ],
+            ...kardex.movimientos.map((mov) => [
+              mov.fecha.replace(/ - /g, '/'),
+              mov.tipo,
+              mov.tComprob,
+              mov.tOperacion,
+              mov.nComprobante,
+              mov.cantidad,
+              mov.costoUnitario,
+              mov.costoTotal,
+              mov.saldo,
+            ]),
+            [
+              '',
+              'Total entradas',
+              '',
+              '',
+              '',
+              sumar('Entrada', 'cantidad'),
+              '',
+              sumar('Entrada', 'costoTotal'),
+              '',
+            ],
+            [
+              '',
+              'Total salidas',
+              '',
+              '',
+              '',
+              sumar('Salida', 'cantidad'),
+              '',
+              sumar('Salida', 'costoTotal'),
+              '',
+            ],
+            [
+              '',
+              'Saldo final',
+              '',
+              '',
+              '',
+              '',
+              '',
+              Number(kardex.costoFinal),
+              Number(kardex.cantidadActual),
+            ],
+          ],
+        },
+      ],
+    );
+  }
+
   /**
    * Formatea la fecha para mostrar en el reporte
    */
@@ -0,0 +1,233 @@
+import { EntityManager, Repository } from 'typeorm';
+import { LoteCreationService } from './lote-creation.service';
+import { StockCalculationService } from './stock-calculation.service';
+import { StockCacheService } from './stock-cache.service';
+import { NumeroSerieService } from './numero-serie.service';
+import {
+  Inventario,
+  InventarioLote,
+  NumeroSerie,
+  NumeroSerieMovimiento,
+} from '../entities';
+import { EstadoNumeroSerie } from '../enum';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Tests unitarios para LoteCreationService
+ * Verifica la conversión de las unidades del comprobante a la unidad base del producto
+ */
+describe('LoteCreationService', () => {
+  let service: LoteCreationService;
+  let calcularConsumoLotes: jest.Mock;
+  let calcularConsumoLoteEspecifico: jest.Mock;
+  let calcularCostoConsumo: jest.Mock;
+  let calcularCostoUnitarioVenta: jest.Mock;
+  let lotesCreados: Partial<InventarioLote>[];
+  let unidades: Partial<NumeroSerie>[];
+
+  // Dos cajas de 12 unidades a S/ 60 cada una
+  const detalleEnCajas = {
+    inventario: { id: 3 },
+    cantidad: '2.0000',
+    unidadMedida: 'BX',
+    factorConversion: '12.000000',
+    precioUnitario: '60.0000',
+    descripcion: 'Galletas x 12',
+  } as unknown as ComprobanteDetalle;
+
+  // Tres teléfonos serializados: dos del lote 41 y uno del lote 42
+  const detalleSerializado = {
+    idDetalle: 90,
+    inventario: {
+      id: 3,
+      producto: { id: 9, nombre: 'Teléfono', serializado: true },
+    },
+    cantidad: '3.0000',
+    factorConversion: '1.000000',
+    precioUnitario: '900.0000',
+    numerosSerie: ['SN-1', 'SN-2', 'SN-3'],
+  } as unknown as ComprobanteDetalle;
+
+  beforeEach(() => {
+    lotesCreados = [];
+    unidades = ['SN-1', 'SN-2', 'SN-3'].map((numeroSerie, i) => ({
+      numeroSerie,
+      estado: EstadoNumeroSerie.DISPONIBLE,
+      inventario: { id: 3 } as Inventario,
+      lote: { id: i < 2 ? 41 : 42 } as InventarioLote,
+    }));
+    const loteRepository = {
+      create: jest.fn((datos: Partial<InventarioLote>) => datos),
+      save: jest.fn((lote: Partial<InventarioLote>) => {
+        lotesCreados.push(lote);
+        return Promise.resolve({ id: 50, ...lote });
+      }),
+    } as unknown as Repository<InventarioLote>;
+    const inventarioRepository = {
+      findOne: jest.fn(() =>
+        Promise.resolve({
+          id: 3,
+          producto: { id: 8, unidadMedida: 'NIU' },
+          almacen: { id: 1 },
+        }),
+      ),
+    } as unknown as Repository<Inventario>;
+    calcularConsumoLotes = jest.fn((_id: number, cantidad: number) =>
+      Promise.resolve([{ idLote: 50, cantidad, costoUnitario: 5 }]),
+    );
+    calcularConsumoLoteEspecifico = jest.fn(
+      (_id: number, idLote: number, cantidad: number) =>
+        Promise.resolve([
+          { idLote, cantidad, costoUnitario: idLote === 41 ? 800 : 850 },
+        ]),
+    );
+    calcularCostoConsumo = jest.fn(() => 816.6667);
+    calcularCostoUnitarioVenta = jest.fn(() => Promise.resolve(5));
+    const stockCalculationService = {
+      calcularConsumoLotes,
+      calcularConsumoLoteEspecifico,
+      calcularCostoConsumo,
+      calcularCostoUnitarioVenta,
+    } as unknown as StockCalculationService;
+
+    service = new LoteCreationService(
+      loteRepository,
+      inventarioRepository,
+      stockCalculationService,
+      { invalidateInventario: jest.fn() } as unknown as StockCacheService,
+      new NumeroSerieService(
+        {
+          find: jest.fn(() => Promise.resolve(unidades)),
+          save: jest.fn((datos: unknown) => Promise.resolve(datos)),
+        } as unknown as Repository<NumeroSerie>,
+        {
+          create: jest.fn((datos: unknown) => datos),
+          save: jest.fn((datos: unknown) => Promise.resolve(datos)),
+        } as unknown as Repository<NumeroSerieMovimiento>,
+        {} as Repository<ComprobanteDetalle>,
+      ),
+    );
+  });
+
+  it('should register purchases in base units at the cost per base unit', async () => {
+    const resultado = await service.procesarLotesComprobante(
+      [detalleEnCajas],
+      'COMPRA',
+      MetodoValoracion.FIFO,
+    );
+
+    expect(lotesCreados[0].costoUnitario).toBe(5);
+    expect(resultado.costoUnitario).toEqual([5]);
+    expect(resultado.lotes).toEqual([
+      { idLote: 50, costoUnitarioDeLote: 5, cantidad: 24 },
+    ]);
+  });
+
+  it('should consume base units when selling in another unit', async () => {
+    const resultado = await service.procesarLotesComprobante(
+      [detalleEnCajas],
+      'VENTA',
+      MetodoValoracion.FIFO,
+    );
+
+    expect(calcularConsumoLotes).toHaveBeenCalledWith(3, 24, undefined, false);
+    expect(resultado.lotes).toEqual([
+      { idLote: 50, costoUnitarioDeLote: 5, cantidad: 24 },
+    ]);
+  });
+
+  it('should consume the lots the sold serial numbers came in with', async () => {
+    const resultado = await service.procesarLotesComprobante(
+      [detalleSerializado],
+      'VENTA',
+      MetodoValoracion.ESPECIFICO,
+    );
+
+    expect(calcularConsumoLotes).not.toHaveBeenCalled();
+    expect(calcularConsumoLoteEspecifico).toHaveBeenCalledWith(
+      3,
+      41,
+      2,
+      undefined,
+      false,
+    );
+    expect(resultado.lotes).toEqual([
+      { idLote: 41, costoUnitarioDeLote: 800, cantidad: 2 },
+      { idLote: 42, costoUnitarioDeLote: 850, cantidad: 1 },
+    ]);
+    expect(unidades.map((unidad) => unidad.estado)).toEqual([
+      EstadoNumeroSerie.DESPACHADO,
+      EstadoNumeroSerie.DESPACHADO,
+      EstadoNumeroSerie.DESPACHADO,
+    ]);
+  });
+
+  it('should require the lot on sales under specific identification', async () => {
+    await expect(
+      service.procesarLotesComprobante(
+        [detalleEnCajas],
+        'VENTA',
+        MetodoValoracion.ESPECIFICO,
+      ),
+    ).rejects.toThrow('Con costo específico cada venta debe indicar el lote');
+    expect(calcularConsumoLotes).not.toHaveBeenCalled();
+  });
+
+  it('should consume and cost the lot chosen in the sale under specific identification', async () => {
+    const resultado = await service.procesarLotesComprobante(
+      [{ ...detalleEnCajas, loteId: 42 } as ComprobanteDetalle],
+      'VENTA',
+      MetodoValoracion.ESPECIFICO,
+    );
+
+    expect(calcularConsumoLotes).not.toHaveBeenCalled();
+    expect(calcularConsumoLoteEspecifico).toHaveBeenCalledWith(
+      3,
+      42,
+      24,
+      undefined,
+      false,
+    );
+    expect(calcularCostoConsumo).toHaveBeenCalledWith([
+      { idLote: 42, cantidad: 24, costoUnitario: 850 },
+    ]);
+    expect(calcularCostoUnitarioVenta).not.toHaveBeenCalled();
+    expect(resultado.lotes).toEqual([
+      { idLote: 42, costoUnitarioDeLote: 850, cantidad: 24 },
+    ]);
+  });
+
+  it('should write serial numbers with the transaction manager when given', async () => {
+    const guardar = jest.fn((datos: unknown) => Promise.resolve(datos));
+    const getRepository = jest.fn(() => ({
+      find: jest.fn(() => Promise.resolve(unidades)),
+      create: jest.fn((datos: unknown) => datos),
+      save: guardar,
+    }));
+
+    await service.procesarLotesComprobante(
+      [detalleSerializado],
+      'VENTA',
+      MetodoValoracion.FIFO,
+      undefined,
+      1,
+      false,
+      { getRepository } as unknown as EntityManager,
+    );
+
+    expect(getRepository).toHaveBeenCalledWith(NumeroSerie);
+    expect(getRepository).toHaveBeenCalledWith(NumeroSerieMovimiento);
+    expect(guardar).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject serialized lines without one serial per unit', async () => {
+    await expect(
+      service.procesarLotesComprobante(
+        [{ ...detalleSerializado, numerosSerie: ['SN-1'] }],
+        'VENTA',
+        MetodoValoracion.FIFO,
+      ),
+    ).rejects.toThrow('requiere 3 número(s) de serie');
+  });
+});
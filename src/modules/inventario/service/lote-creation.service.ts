@@ -1,12 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { InventarioLote } from '../entities/inventario-lote.entity';
 import { Inventario } from '../entities/inventario.entity';
 import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
 import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
-import { StockCalculationService } from './stock-calculation.service';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+import {
+  ConsumoLote,
+  StockCalculationService,
+} from './stock-calculation.service';
 import { StockCacheService } from './stock-cache.service';
+import { NumeroSerieService } from './numero-serie.service';
 
 /**
  * Servicio simplificado para creación de lotes sin campos calculados
@@ -21,16 +26,27 @@ export class LoteCreationService {
     private readonly inventarioRepository: Repository<Inventario>,
     private readonly stockCalculationService: StockCalculationService,
     private readonly stockCacheService: StockCacheService,
+    private readonly numeroSerieService: NumeroSerieService,
   ) {}
 
   /**
    * Procesar lotes según el tipo de operación del comprobante
+   * Los ingresos se valorizan en moneda nacional con `tipoCambio` (1 para comprobantes en PEN)
+   * Cantidades y costos se expresan en la unidad base del producto (`factorConversion`)
+   * Las salidas solo despachan lotes vencidos si `permitirLotesVencidos` lo autoriza
+   * En productos serializados los números de serie del detalle entran con el lote creado o
+   * determinan los lotes que salen
+   * @param manager - EntityManager de la transacción del comprobante, donde se registran los
+   * números de serie (opcional)
    */
   async procesarLotesComprobante(
     detalles: ComprobanteDetalle[],
     tipoOperacion: string,
     metodoValoracion: MetodoValoracion = MetodoValoracion.PROMEDIO,
     fechaEmision?: Date,
+    tipoCambio: number = 1,
+    permitirLotesVencidos: boolean = false,
+    manager?: EntityManager,
   ): Promise<{
     costoUnitario: number[];
     lotes: { idLote: number; costoUnitarioDeLote: number; cantidad: number }[];
@@ -45,6 +61,8 @@ export class LoteCreationService {
     try {
       for (let i = 0; i < detalles.length; i++) {
         const detalle = detalles[i];
+        const cantidad = cantidadEnUnidadBase(detalle);
+        const series = this.numeroSerieService.seriesDelDetalle(detalle);
 
         const fechaRef = fechaEmision
           ? new Date(
@@ -59,39 +77,89 @@ export class LoteCreationService {
           : undefined;
 
         if (tipoOperacion === 'COMPRA') {
-          const loteCreado = await this.registrarLoteCompra(detalle, fechaRef);
-          // Para compras, el costo unitario es el precio de compra
-          costosUnitariosDeDetalles.push(Number(detalle.precioUnitario));
+          // Para compras, el costo unitario es el precio de compra en moneda nacional
+          // por unidad base
+          const costoUnitario = this.convertirCosto(
+            detalle.precioUnitario,
+            tipoCambio,
+            detalle.factorConversion,
+          );
+          const loteCreado = await this.registrarLoteCompra(
+            detalle,
+            costoUnitario,
+            fechaRef,
+          );
+          if (series) {
+            await this.numeroSerieService.registrarIngreso(
+              detalle,
+              series,
+              loteCreado,
+              fechaRef,
+              manager,
+            );
+          }
+          costosUnitariosDeDetalles.push(costoUnitario);
 
           // Agregar el lote creado a la lista de lotes
           lotesUsados.push({
             idLote: loteCreado.id,
-            costoUnitarioDeLote: Number(detalle.precioUnitario),
-            cantidad: Number(detalle.cantidad),
+            costoUnitarioDeLote: costoUnitario,
+            cantidad,
           });
         } else {
-          // Para ventas, calcular costo usando el método de valoración
-          const costoUnitario =
-            await this.stockCalculationService.calcularCostoUnitarioVenta(
-              detalle.inventario.id,
-              Number(detalle.cantidad),
-              metodoValoracion,
-              fechaRef,
+          const especifico = metodoValoracion === MetodoValoracion.ESPECIFICO;
+          if (
+            especifico &&
+            !detalle.loteId &&
+            !series &&
+            tipoOperacion === 'VENTA'
+          ) {
+            throw new Error(
+              `Con costo específico cada venta debe indicar el lote: ${detalle.descripcion || `inventario ${detalle.inventario.id}`}`,
             );
+          }
 
-          costosUnitariosDeDetalles.push(costoUnitario);
+          // Consumo físico: el lote elegido o, si no se indicó, según la estrategia del
+          // producto (FIFO o FEFO), independientemente del método de valoración; con números
+          // de serie, los lotes de esas unidades
+          const consumoLotes = series
+            ? await this.consumirSeries(
+                detalle,
+                series,
+                fechaRef,
+                permitirLotesVencidos,
+                manager,
+              )
+            : detalle.loteId
+              ? await this.stockCalculationService.calcularConsumoLoteEspecifico(
+                  detalle.inventario.id,
+                  Number(detalle.loteId),
+                  cantidad,
+                  fechaRef,
+                  permitirLotesVencidos,
+                )
+              : await this.stockCalculationService.calcularConsumoLotes(
+                  detalle.inventario.id,
+                  cantidad,
+                  fechaRef,
+                  permitirLotesVencidos,
+                );
 
-          // Independientemente del método de valoración, registrar consumo físico por lotes usando FIFO
-          // Esto asegura que el stock físico se descuente de lotes reales aunque el costo sea PROMEDIO
-          const consumoFIFO =
-            await this.stockCalculationService.calcularConsumoFIFO(
-              detalle.inventario.id,
-              Number(detalle.cantidad),
-              fechaRef,
-            );
+          // Costo de la venta según el método de valoración; con costo específico es el
+          // de los lotes que salen
+          const costoUnitario = especifico
+            ? this.stockCalculationService.calcularCostoConsumo(consumoLotes)
+            : await this.stockCalculationService.calcularCostoUnitarioVenta(
+                detalle.inventario.id,
+                cantidad,
+                metodoValoracion,
+                fechaRef,
+              );
+
+          costosUnitariosDeDetalles.push(costoUnitario);
 
           lotesUsados.push(
-            ...consumoFIFO.map((consumo) => ({
+            ...consumoLotes.map((consumo) => ({
               idLote: consumo.idLote,
               costoUnitarioDeLote: consumo.costoUnitario,
               cantidad: consumo.cantidad,
@@ -113,11 +181,57 @@ export class LoteCreationService {
     }
   }
 
+  /**
+   * Consumo de los lotes con los que ingresaron las unidades indicadas
+   * Valida el stock de cada lote antes de marcar las unidades como despachadas
+   */
+  private async consumirSeries(
+    detalle: ComprobanteDetalle,
+    series: string[],
+    fechaRef?: Date,
+    permitirLotesVencidos: boolean = false,
+    manager?: EntityManager,
+  ): Promise<ConsumoLote[]> {
+    const unidades = await this.numeroSerieService.buscarDisponibles(
+      detalle,
+      series,
+      manager,
+    );
+
+    const cantidadPorLote = new Map<number, number>();
+    for (const unidad of unidades) {
+      const idLote = Number(unidad.lote.id);
+      cantidadPorLote.set(idLote, (cantidadPorLote.get(idLote) ?? 0) + 1);
+    }
+
+    const consumo: ConsumoLote[] = [];
+    for (const [idLote, cantidad] of cantidadPorLote) {
+      consumo.push(
+        ...(await this.stockCalculationService.calcularConsumoLoteEspecifico(
+          detalle.inventario.id,
+          idLote,
+          cantidad,
+          fechaRef,
+          permitirLotesVencidos,
+        )),
+      );
+    }
+
+    await this.numeroSerieService.registrarSalida(
+      detalle,
+      unidades,
+      fechaRef,
+      manager,
+    );
+    return consumo;
+  }
+
   /**
    * Registrar lote para compra (sin actualizar campos calculados)
    */
   private async registrarLoteCompra(
     detalle: ComprobanteDetalle,
+    costoUnitario: number,
     fechaEmision?: Date,
   ): Promise<InventarioLote> {
     // Validar que el detalle tenga inventario
@@ -147,13 +261,12 @@ export class LoteCreationService {
     }
 
     // Validar cantidad y precio
-    const cantidad = Number(detalle.cantidad);
-    const precioUnitario = Number(detalle.precioUnitario);
+    const cantidad = cantidadEnUnidadBase(detalle);
 
     if (cantidad <= 0) {
       throw new Error('La cantidad debe ser mayor a 0');
     }
-    if (precioUnitario < 0) {
+    if (costoUnitario < 0) {
       throw new Error('El precio unitario no puede ser negativo');
     }
 
@@ -162,7 +275,7 @@ export class LoteCreationService {
       inventario: inventario,
       numeroLote: `LOTE-${Date.now()}-${inventario.id}-${inventario.producto.id}`,
       cantidadInicial: 0,
-      costoUnitario: precioUnitario,
+      costoUnitario,
       fechaIngreso: fechaEmision || new Date(),
       observaciones: `Lote creado automáticamente desde compra - ${detalle.descripcion || 'Sin descripción'}`,
     });
@@ -177,8 +290,12 @@ export class LoteCreationService {
 
   /**
    * Validar que los lotes se crearon correctamente para compras
+   * @param tipoCambio - Tipo de cambio con el que se valorizaron los lotes
    */
-  async validarLotesCompra(detalles: ComprobanteDetalle[]): Promise<boolean> {
+  async validarLotesCompra(
+    detalles: ComprobanteDetalle[],
+    tipoCambio: number = 1,
+  ): Promise<boolean> {
     try {
       for (const detalle of detalles) {
         // Buscar el lote más reciente creado (por ID, no por fecha de ingreso)
@@ -197,10 +314,16 @@ export class LoteCreationService {
         // 1) cantidadInicial igual a cantidad del detalle (modo tradicional)
         // 2) cantidadInicial = 0 y costo unitario correcto (modo movimiento-only)
         const cantidadInicialValida =
-          Number(loteReciente.cantidadInicial) === Number(detalle.cantidad) ||
+          Number(loteReciente.cantidadInicial) ===
+            cantidadEnUnidadBase(detalle) ||
           Number(loteReciente.cantidadInicial) === 0;
         const costoUnitarioValido =
-          Number(loteReciente.costoUnitario) === Number(detalle.precioUnitario);
+          Number(loteReciente.costoUnitario) ===
+          this.convertirCosto(
+            detalle.precioUnitario,
+            tipoCambio,
+            detalle.factorConversion,
+          );
         if (!cantidadInicialValida || !costoUnitarioValido) {
           return false;
         }
@@ -211,4 +334,16 @@ export class LoteCreationService {
       return false;
     }
   }
+
+  /**
+   * Convierte un precio a costo en moneda nacional por unidad base con la precisión de los lotes
+   */
+  private convertirCosto(
+    precio: number,
+    tipoCambio: number,
+    factorConversion?: number | null,
+  ): number {
+    const factor = Number(factorConversion ?? 1) || 1;
+    return Math.round((Number(precio) * tipoCambio * 10000) / factor) / 10000;
+  }
 }
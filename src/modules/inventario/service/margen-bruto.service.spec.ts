@@ -0,0 +1,154 @@
+import { Repository } from 'typeorm';
+import { MargenBrutoService } from './margen-bruto.service';
+import { TipoLineaMargen } from '../enum';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+
+/**
+ * Tests unitarios para MargenBrutoService
+ * Verifica el costo por línea desde los lotes despachados y el tratamiento de notas de crédito
+ */
+describe('MargenBrutoService', () => {
+  let service: MargenBrutoService;
+
+  const inventario = {
+    id: 8,
+    almacen: { nombre: 'Central' },
+    producto: {
+      id: 3,
+      nombre: 'Aceite 1 L',
+      categoria: { nombre: 'Abarrotes' },
+    },
+  };
+  const venta = {
+    idComprobante: 10,
+    serie: 'F001',
+    numero: '1',
+    moneda: Moneda.PEN,
+    fechaEmision: new Date('2024-03-01T10:00:00'),
+    tipoOperacion: { codigo: '01' },
+    entidad: { id: 4, nombreCompletoMostrado: 'Bodega Lucía' },
+    usuario: { id: 7, nombre: 'Ana Torres' },
+  };
+  const detalle = (
+    idDetalle: number,
+    comprobante: object,
+    cantidad: number,
+    subtotal: number,
+  ) =>
+    ({
+      idDetalle,
+      comprobante,
+      inventario,
+      cantidad: String(cantidad),
+      factorConversion: '1.000000',
+      subtotal: String(subtotal),
+    }) as unknown as ComprobanteDetalle;
+
+  beforeEach(() => {
+    // La venta despachó 10 unidades a S/ 6; la segunda venta, 2 unidades a S/ 6
+    const consulta: Record<string, jest.Mock> = {
+      getRawMany: jest.fn(() =>
+        Promise.resolve([
+          {
+            idComprobante: '10',
+            idInventario: '8',
+            cantidad: '10',
+            costo: '60',
+          },
+          {
+            idComprobante: '11',
+            idInventario: '8',
+            cantidad: '2',
+            costo: '12',
+          },
+        ]),
+      ),
+    };
+    for (const metodo of [
+      'innerJoin',
+      'select',
+      'addSelect',
+      'where',
+      'andWhere',
+      'groupBy',
+      'addGroupBy',
+    ]) {
+      consulta[metodo] = jest.fn(() => consulta);
+    }
+
+    service = new MargenBrutoService(
+      {
+        find: jest.fn(() =>
+          Promise.resolve([
+            // La misma venta con dos líneas del mismo inventario
+            detalle(1, venta, 6, 48),
+            detalle(2, venta, 4, 32),
+            // Venta por debajo del costo
+            detalle(3, { ...venta, idComprobante: 11, numero: '2' }, 2, 10),
+            // Devolución de 3 unidades de la primera venta
+            detalle(
+              4,
+              {
+                ...venta,
+                idComprobante: 12,
+                serie: 'FC01',
+                tipoOperacion: { codigo: '07' },
+                comprobanteAfecto: {
+                  ...venta,
+                  tipoOperacion: { codigo: '01' },
+                },
+              },
+              3,
+              24,
+            ),
+          ]),
+        ),
+      } as unknown as Repository<ComprobanteDetalle>,
+      {
+        createQueryBuilder: jest.fn(() => consulta),
+      } as unknown as Repository<MovimientoDetalle>,
+    );
+  });
+
+  it('should split lot costs between lines and flag sales below cost', async () => {
+    const reporte = await service.generarReporte(1, {
+      fechaDesde: '2024-03-01',
+      fechaHasta: '2024-03-31',
+    });
+
+    expect(reporte.lineas.slice(0, 3)).toEqual([
+      expect.objectContaining({ costo: 36, margen: 12, bajoCosto: false }),
+      expect.objectContaining({ costo: 24, margen: 8, bajoCosto: false }),
+      expect.objectContaining({ ingreso: 10, costo: 12, bajoCosto: true }),
+    ]);
+  });
+
+  it('should reverse credit notes at the original sale cost', async () => {
+    const reporte = await service.generarReporte(1, {
+      fechaDesde: '2024-03-01',
+      fechaHasta: '2024-03-31',
+    });
+
+    expect(reporte.lineas[3]).toMatchObject({
+      tipo: TipoLineaMargen.NOTA_CREDITO,
+      cantidad: -3,
+      ingreso: -24,
+      costo: -18,
+      margen: -6,
+      bajoCosto: false,
+    });
+    expect(reporte.total).toMatchObject({
+      cantidad: 9,
+      ingreso: 66,
+      costo: 54,
+      margen: 12,
+      margenPorcentaje: 18.18,
+      lineasBajoCosto: 1,
+    });
+    expect(reporte.porVendedor).toEqual([
+      expect.objectContaining({ id: 7, nombre: 'Ana Torres', margen: 12 }),
+    ]);
+  });
+});
@@ -0,0 +1,353 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, Repository } from 'typeorm';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
+import { EstadoMovimiento, TipoMovimiento } from '../../movimientos/enum';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+import { TipoLineaMargen } from '../enum';
+import {
+  LineaMargenBrutoDto,
+  MargenBrutoQueryDto,
+  ResponseMargenBrutoDto,
+  ResumenMargenBrutoDto,
+} from '../dto/margen-bruto';
+
+const CODIGO_VENTA = '01';
+const CODIGO_NOTA_CREDITO = '07';
+const CODIGO_NOTA_DEBITO = '08';
+
+/**
+ * Costo de los lotes que salieron por un comprobante para un inventario
+ */
+interface CostoSalida {
+  cantidad: number;
+  costo: number;
+}
+
+/**
+ * Servicio del reporte de margen bruto
+ * Compara el subtotal de cada detalle de venta con el costo de los lotes que despachó
+ * (DetalleSalida), en moneda nacional
+ */
+@Injectable()
+export class MargenBrutoService {
+  constructor(
+    @InjectRepository(ComprobanteDetalle)
+    private readonly comprobanteDetalleRepository: Repository<ComprobanteDetalle>,
+    @InjectRepository(MovimientoDetalle)
+    private readonly movimientoDetalleRepository: Repository<MovimientoDetalle>,
+  ) {}
+
+  /**
+   * Genera el reporte de margen por línea con resúmenes por producto, cliente y vendedor
+   * Las notas de crédito sobre ventas restan su subtotal y el costo de lo devuelto al costo
+   * unitario de la venta original; las notas de débito suman como una venta
+   * @param personaId - ID de la empresa
+   * @param filtro - Rango de fechas y filtros opcionales
+   */
+  async generarReporte(
+    personaId: number,
+    filtro: MargenBrutoQueryDto,
+  ): Promise<ResponseMargenBrutoDto> {
+    const fechaDesde = filtro.fechaDesde.slice(0, 10);
+    const fechaHasta = filtro.fechaHasta.slice(0, 10);
+    if (fechaDesde > fechaHasta) {
+      throw new BadRequestException(
+        'La fecha desde no puede ser posterior a la fecha hasta',
+      );
+    }
+
+    const detalles = (
+      await this.comprobanteDetalleRepository.find({
+        where: {
+          comprobante: {
+            persona: { id: personaId },
+            fechaEmision: Between(
+              new Date(`${fechaDesde}T00:00:00`),
+              new Date(`${fechaHasta}T23:59:59.999`),
+            ),
+            tipoOperacion: {
+              codigo: In([
+                CODIGO_VENTA,
+                CODIGO_NOTA_CREDITO,
+                CODIGO_NOTA_DEBITO,
+              ]),
+            },
+            ...(filtro.idEntidad ? { entidad: { id: filtro.idEntidad } } : {}),
+            ...(filtro.idVendedor
+              ? { usuario: { id: filtro.idVendedor } }
+              : {}),
+          },
+          inventario: {
+            ...(filtro.idAlmacen ? { almacen: { id: filtro.idAlmacen } } : {}),
+            producto: {
+              ...(filtro.idProducto ? { id: filtro.idProducto } : {}),
+              ...(filtro.idCategoria
+                ? { categoria: { id: filtro.idCategoria } }
+                : {}),
+            },
+          },
+        },
+        relations: [
+          'comprobante',
+          'comprobante.tipoOperacion',
+          'comprobante.comprobanteAfecto',
+          'comprobante.comprobanteAfecto.tipoOperacion',
+          'comprobante.entidad',
+          'comprobante.usuario',
+          'inventario',
+          'inventario.almacen',
+          'inventario.producto',
+          'inventario.producto.categoria',
+        ],
+        order: { comprobante: { fechaEmision: 'ASC' }, idDetalle: 'ASC' },
+      })
+    ).filter((detalle) => this.tipoLinea(detalle.comprobante) !== null);
+
+    const idsComprobante = [
+      ...new Set(
+        detalles.flatMap((detalle) => [
+          Number(detalle.comprobante.idComprobante),
+          ...(detalle.comprobante.comprobanteAfecto
+            ? [Number(detalle.comprobante.comprobanteAfecto.idComprobante)]
+            : []),
+        ]),
+      ),
+    ];
+    const costos = await this.obtenerCostosSalida(idsComprobante);
+
+    // Cantidad vendida por comprobante e inventario, para repartir el costo entre detalles
+    // que repiten el mismo inventario
+    const cantidadPorClave = new Map<string, number>();
+    for (const detalle of detalles) {
+      const clave = this.clave(
+        detalle.comprobante.idComprobante,
+        detalle.inventario.id,
+      );
+      cantidadPorClave.set(
+        clave,
+        (cantidadPorClave.get(clave) ?? 0) + cantidadEnUnidadBase(detalle),
+      );
+    }
+
+    const lineas = detalles.map((detalle) =>
+      this.calcularLinea(detalle, costos, cantidadPorClave),
+    );
+
+    return {
+      fechaDesde,
+      fechaHasta,
+      lineas,
+      porProducto: this.agrupar(lineas, (linea) => [
+        linea.idProducto,
+        linea.producto,
+      ]),
+      porCliente: this.agrupar(lineas, (linea) => [
+        linea.idEntidad,
+        linea.cliente,
+      ]),
+      porVendedor: this.agrupar(lineas, (linea) => [
+        linea.idVendedor,
+        linea.vendedor,
+      ]),
+      total: this.resumir(undefined, 'Total', lineas),
+    };
+  }
+
+  private calcularLinea(
+    detalle: ComprobanteDetalle,
+    costos: Map<string, CostoSalida>,
+    cantidadPorClave: Map<string, number>,
+  ): LineaMargenBrutoDto {
+    const comprobante = detalle.comprobante;
+    const tipo = this.tipoLinea(comprobante)!;
+    const cantidadBase = cantidadEnUnidadBase(detalle);
+    const ingreso =
+      Number(detalle.subtotal) * this.factorMonedaNacional(comprobante);
+
+    let costo = 0;
+    if (tipo === TipoLineaMargen.NOTA_CREDITO) {
+      // Lo devuelto vuelve al costo unitario con el que salió en la venta original
+      const original = costos.get(
+        this.clave(
+          comprobante.comprobanteAfecto!.idComprobante,
+          detalle.inventario.id,
+        ),
+      );
+      costo =
+        original && original.cantidad > 0
+          ? (cantidadBase * original.costo) / original.cantidad
+          : 0;
+    } else {
+      const clave = this.clave(
+        comprobante.idComprobante,
+        detalle.inventario.id,
+      );
+      const salida = costos.get(clave);
+      const cantidadTotal = cantidadPorClave.get(clave) ?? 0;
+      costo =
+        salida && cantidadTotal > 0
+          ? (salida.costo * cantidadBase) / cantidadTotal
+          : 0;
+    }
+
+    const signo = tipo === TipoLineaMargen.NOTA_CREDITO ? -1 : 1;
+    const producto = detalle.inventario.producto;
+    const lineaIngreso = this.redondearMonto(signo * ingreso);
+    const lineaCosto = this.redondearMonto(signo * costo);
+    const margen = this.redondearMonto(lineaIngreso - lineaCosto);
+
+    return {
+      idComprobante: comprobante.idComprobante,
+      idDetalle: detalle.idDetalle,
+      tipo,
+      fecha: comprobante.fechaEmision,
+      documento: `${comprobante.serie}-${comprobante.numero}`,
+      idProducto: producto.id,
+      producto: producto.nombre,
+      categoria: producto.categoria?.nombre ?? 'Sin categoría',
+      almacen: detalle.inventario.almacen?.nombre ?? '',
+      idEntidad: comprobante.entidad?.id,
+      cliente: comprobante.entidad?.nombreCompletoMostrado || 'Sin cliente',
+      idVendedor: comprobante.usuario?.id,
+      vendedor: comprobante.usuario?.nombre ?? 'Sin vendedor',
+      cantidad: this.redondear(signo * cantidadBase),
+      ingreso: lineaIngreso,
+      costo: lineaCosto,
+      margen,
+      margenPorcentaje: this.porcentaje(margen, lineaIngreso),
+      bajoCosto: tipo !== TipoLineaMargen.NOTA_CREDITO && margen < 0,
+    };
+  }
+
+  /**
+   * Costo y cantidad de los lotes despachados por comprobante e inventario
+   */
+  private async obtenerCostosSalida(
+    idsComprobante: number[],
+  ): Promise<Map<string, CostoSalida>> {
+    const costos = new Map<string, CostoSalida>();
+    if (idsComprobante.length === 0) {
+      return costos;
+    }
+
+    const filas = await this.movimientoDetalleRepository
+      .createQueryBuilder('md')
+      .innerJoin('md.movimiento', 'm')
+      .innerJoin(DetalleSalida, 'ds', 'ds.id_movimiento_detalle = md.id')
+      .select('m.id_comprobante', 'idComprobante')
+      .addSelect('md.id_inventario', 'idInventario')
+      .addSelect('COALESCE(SUM(ds.cantidad), 0)', 'cantidad')
+      .addSelect(
+        'COALESCE(SUM(ds.cantidad * ds.costo_unitario_de_lote), 0)',
+        'costo',
+      )
+      .where('m.id_comprobante IN (:...idsComprobante)', { idsComprobante })
+      .andWhere('m.tipo = :tipo', { tipo: TipoMovimiento.SALIDA })
+      .andWhere('m.estado = :estado', { estado: EstadoMovimiento.PROCESADO })
+      .groupBy('m.id_comprobante')
+      .addGroupBy('md.id_inventario')
+      .getRawMany<{
+        idComprobante: string | number;
+        idInventario: string | number;
+        cantidad: string | number;
+        costo: string | number;
+      }>();
+
+    for (const fila of filas) {
+      costos.set(this.clave(fila.idComprobante, fila.idInventario), {
+        cantidad: parseFloat(String(fila.cantidad)) || 0,
+        costo: parseFloat(String(fila.costo)) || 0,
+      });
+    }
+    return costos;
+  }
+
+  /**
+   * Ventas, y notas de crédito o débito que afectan una venta; null para el resto
+   */
+  private tipoLinea(comprobante: Comprobante): TipoLineaMargen | null {
+    const codigo = comprobante.tipoOperacion?.codigo;
+    if (codigo === CODIGO_VENTA) {
+      return TipoLineaMargen.VENTA;
+    }
+    if (comprobante.comprobanteAfecto?.tipoOperacion?.codigo !== CODIGO_VENTA) {
+      return null;
+    }
+    if (codigo === CODIGO_NOTA_CREDITO) {
+      return TipoLineaMargen.NOTA_CREDITO;
+    }
+    return codigo === CODIGO_NOTA_DEBITO ? TipoLineaMargen.NOTA_DEBITO : null;
+  }
+
+  private agrupar(
+    lineas: LineaMargenBrutoDto[],
+    clave: (linea: LineaMargenBrutoDto) => [number | undefined, string],
+  ): ResumenMargenBrutoDto[] {
+    const grupos = new Map<
+      string,
+      { id?: number; nombre: string; lineas: LineaMargenBrutoDto[] }
+    >();
+    for (const linea of lineas) {
+      const [id, nombre] = clave(linea);
+      const llave = `${id ?? ''}|${nombre}`;
+      const grupo = grupos.get(llave) ?? { id, nombre, lineas: [] };
+      grupo.lineas.push(linea);
+      grupos.set(llave, grupo);
+    }
+    return [...grupos.values()]
+      .map((grupo) => this.resumir(grupo.id, grupo.nombre, grupo.lineas))
+      .sort((a, b) => b.margen - a.margen);
+  }
+
+  private resumir(
+    id: number | undefined,
+    nombre: string,
+    lineas: LineaMargenBrutoDto[],
+  ): ResumenMargenBrutoDto {
+    const sumar = (valor: (linea: LineaMargenBrutoDto) => number) =>
+      lineas.reduce((total, linea) => total + valor(linea), 0);
+    const ingreso = this.redondearMonto(sumar((linea) => linea.ingreso));
+    const costo = this.redondearMonto(sumar((linea) => linea.costo));
+    const margen = this.redondearMonto(ingreso - costo);
+    return {
+      id,
+      nombre,
+      cantidad: this.redondear(sumar((linea) => linea.cantidad)),
+      ingreso,
+      costo,
+      margen,
+      margenPorcentaje: this.porcentaje(margen, ingreso),
+      lineasBajoCosto: lineas.filter((linea) => linea.bajoCosto).length,
+    };
+  }
+
+  private porcentaje(margen: number, ingreso: number): number | null {
+    return ingreso !== 0 ? this.redondearMonto((margen / ingreso) * 100) : null;
+  }
+
+  private factorMonedaNacional(comprobante: Comprobante): number {
+    return comprobante.moneda === Moneda.USD
+      ? Number(comprobante.tipoCambio) || 1
+      : 1;
+  }
+
+  private clave(
+    idComprobante: number | string,
+    idInventario: number | string,
+  ): string {
+    return `${Number(idComprobante)}|${Number(idInventario)}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+
+  private redondearMonto(valor: number): number {
+    return Math.round(valor * 100) / 100;
+  }
+}
@@ -0,0 +1,347 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { NumeroSerie } from '../entities/numero-serie.entity';
+import { NumeroSerieMovimiento } from '../entities/numero-serie-movimiento.entity';
+import { InventarioLote } from '../entities/inventario-lote.entity';
+import { EstadoNumeroSerie } from '../enum';
+import {
+  MovimientoNumeroSerieDto,
+  ResponseHistorialNumeroSerieDto,
+  ResponseNumeroSerieDto,
+} from '../dto/numero-serie';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
+
+const CODIGO_COMPRA = '02';
+const CODIGO_VENTA = '01';
+
+/**
+ * Servicio de números de serie
+ * Cada unidad de un producto serializado ingresa con un lote y sale por su número de serie
+ */
+@Injectable()
+export class NumeroSerieService {
+  constructor(
+    @InjectRepository(NumeroSerie)
+    private readonly numeroSerieRepository: Repository<NumeroSerie>,
+    @InjectRepository(NumeroSerieMovimiento)
+    private readonly movimientoRepository: Repository<NumeroSerieMovimiento>,
+    @InjectRepository(ComprobanteDetalle)
+    private readonly comprobanteDetalleRepository: Repository<ComprobanteDetalle>,
+  ) {}
+
+  /**
+   * Números de serie indicados en un detalle, o null si el producto no es serializado
+   * Un producto serializado debe traer uno distinto por unidad base
+   */
+  seriesDelDetalle(detalle: ComprobanteDetalle): string[] | null {
+    const producto = detalle.inventario?.producto;
+    const series = (detalle.numerosSerie ?? [])
+      .map((serie) => serie.trim())
+      .filter((serie) => serie.length > 0);
+
+    if (!producto?.serializado) {
+      if (series.length > 0) {
+        throw new BadRequestException(
+          `El producto ${producto?.nombre ?? detalle.descripcion} no se controla por número de serie`,
+        );
+      }
+      return null;
+    }
+
+    const cantidad = cantidadEnUnidadBase(detalle);
+    if (series.length !== cantidad) {
+      throw new BadRequestException(
+        `El producto ${producto.nombre} requiere ${cantidad} número(s) de serie y se indicaron ${series.length}`,
+      );
+    }
+    const repetidas = series.filter((serie, i) => series.indexOf(serie) !== i);
+    if (repetidas.length > 0) {
+      throw new BadRequestException(
+        `Números de serie repetidos: ${[...new Set(repetidas)].join(', ')}`,
+      );
+    }
+    return series;
+  }
+
+  /**
+   * Registra el ingreso de las unidades con el lote creado para el detalle
+   * Una unidad despachada que regresa (devolución o transferencia) se reactiva en su nuevo
+   * inventario; una que sigue disponible no puede ingresar de nuevo
+   * @param manager - EntityManager de la transacción del comprobante (opcional)
+   */
+  async registrarIngreso(
+    detalle: ComprobanteDetalle,
+    series: string[],
+    lote: InventarioLote,
+    fecha: Date = new Date(),
+    manager?: EntityManager,
+  ): Promise<NumeroSerie[]> {
+    const repository = this.repositorioSeries(manager);
+    const producto = detalle.inventario.producto;
+    const existentes = await repository.find({
+      where: { producto: { id: producto.id }, numeroSerie: In(series) },
+    });
+
+    const disponibles = existentes.filter(
+      (unidad) => unidad.estado === EstadoNumeroSerie.DISPONIBLE,
+    );
+    if (disponibles.length > 0) {
+      throw new BadRequestException(
+        `Números de serie ya registrados en stock: ${disponibles.map((unidad) => unidad.numeroSerie).join(', ')}`,
+      );
+    }
+
+    const unidades = series.map((serie) => {
+      const unidad =
+        existentes.find((existente) => existente.numeroSerie === serie) ??
+        repository.create({ numeroSerie: serie, producto });
+      unidad.inventario = detalle.inventario;
+      unidad.lote = lote;
+      unidad.estado = EstadoNumeroSerie.DISPONIBLE;
+      return unidad;
+    });
+    const guardadas = await repository.save(unidades);
+
+    await this.registrarMovimientos(
+      guardadas,
+      TipoMovimiento.ENTRADA,
+      detalle,
+      fecha,
+      manager,
+    );
+    return guardadas;
+  }
+
+  /**
+   * Unidades disponibles en el inventario del detalle, con su lote
+   * Falla si alguna no existe, ya salió o está en otro almacén
+   * @param manager - EntityManager de la transacción del comprobante (opcional)
+   */
+  async buscarDisponibles(
+    detalle: ComprobanteDetalle,
+    series: string[],
+    manager?: EntityManager,
+  ): Promise<NumeroSerie[]> {
+    const producto = detalle.inventario.producto;
+    const unidades = await this.repositorioSeries(manager).find({
+      where: { producto: { id: producto.id }, numeroSerie: In(series) },
+      relations: ['inventario', 'lote'],
+    });
+
+    const noEncontradas = series.filter(
+      (serie) => !unidades.some((unidad) => unidad.numeroSerie === serie),
+    );
+    if (noEncontradas.length > 0) {
+      throw new BadRequestException(
+        `Números de serie no registrados para ${producto.nombre}: ${noEncontradas.join(', ')}`,
+      );
+    }
+
+    const noDisponibles = unidades.filter(
+      (unidad) =>
+        unidad.estado !== EstadoNumeroSerie.DISPONIBLE ||
+        Number(unidad.inventario.id) !== Number(detalle.inventario.id),
+    );
+    if (noDisponibles.length > 0) {
+      throw new BadRequestException(
+        `Números de serie no disponibles en el almacén: ${noDisponibles.map((unidad) => unidad.numeroSerie).join(', ')}`,
+      );
+    }
+    return unidades;
+  }
+
+  /**
+   * Marca las unidades como despachadas y registra su salida
+   * @param manager - EntityManager de la transacción del comprobante (opcional)
+   */
+  async registrarSalida(
+    detalle: ComprobanteDetalle,
+    unidades: NumeroSerie[],
+    fecha: Date = new Date(),
+    manager?: EntityManager,
+  ): Promise<void> {
+    for (const unidad of unidades) {
+      unidad.estado = EstadoNumeroSerie.DESPACHADO;
+    }
+    await this.repositorioSeries(manager).save(unidades);
+    await this.registrarMovimientos(
+      unidades,
+      TipoMovimiento.SALIDA,
+      detalle,
+      fecha,
+      manager,
+    );
+  }
+
+  /**
+   * Listar unidades de la empresa, p. ej. las disponibles de un inventario para elegirlas en
+   * una venta
+   */
+  async listar(
+    personaId: number,
+    idInventario?: number,
+    estado?: EstadoNumeroSerie,
+  ): Promise<ResponseNumeroSerieDto[]> {
+    const where: FindOptionsWhere<NumeroSerie> = {
+      producto: { persona: { id: personaId } },
+      ...(idInventario ? { inventario: { id: idInventario } } : {}),
+      ...(estado ? { estado } : {}),
+    };
+    const unidades = await this.numeroSerieRepository.find({
+      where,
+      relations: ['producto', 'inventario', 'inventario.almacen', 'lote'],
+      order: { numeroSerie: 'ASC' },
+    });
+    return unidades.map((unidad) => this.mapearNumeroSerie(unidad));
+  }
+
+  /**
+   * Historial de un número de serie: compra de origen, movimientos y venta
+   * Si el número se repite entre productos hay que indicar el producto
+   */
+  async historial(
+    numeroSerie: string,
+    personaId: number,
+    idProducto?: number,
+  ): Promise<ResponseHistorialNumeroSerieDto> {
+    const unidades = await this.numeroSerieRepository.find({
+      where: {
+        numeroSerie: numeroSerie.trim(),
+        producto: {
+          persona: { id: personaId },
+          ...(idProducto ? { id: idProducto } : {}),
+        },
+      },
+      relations: ['producto', 'inventario', 'inventario.almacen', 'lote'],
+    });
+    if (unidades.length === 0) {
+      throw new NotFoundException(
+        `Número de serie no encontrado: ${numeroSerie}`,
+      );
+    }
+    if (unidades.length > 1) {
+      throw new BadRequestException(
+        `El número de serie ${numeroSerie} existe en varios productos; indique idProducto`,
+      );
+    }
+    const [unidad] = unidades;
+
+    const registros = await this.movimientoRepository.find({
+      where: { numeroSerie: { id: unidad.id } },
+      relations: ['inventario', 'inventario.almacen', 'lote'],
+      order: { fecha: 'ASC', id: 'ASC' },
+    });
+
+    const idsDetalle = registros
+      .map((registro) => registro.idComprobanteDetalle)
+      .filter((id): id is number => id != null)
+      .map(Number);
+    const detalles = idsDetalle.length
+      ? await this.comprobanteDetalleRepository.find({
+          where: { idDetalle: In(idsDetalle) },
+          relations: [
+            'comprobante',
+            'comprobante.tipoOperacion',
+            'comprobante.entidad',
+          ],
+        })
+      : [];
+    const detallePorId = new Map(
+      detalles.map((detalle) => [Number(detalle.idDetalle), detalle]),
+    );
+
+    const movimientos: MovimientoNumeroSerieDto[] = registros.map(
+      (registro) => {
+        const comprobante = registro.idComprobanteDetalle
+          ? detallePorId.get(Number(registro.idComprobanteDetalle))?.comprobante
+          : undefined;
+        return {
+          fecha: registro.fecha,
+          tipo: registro.tipo,
+          codigoOperacion: comprobante?.tipoOperacion?.codigo,
+          operacion: comprobante?.tipoOperacion?.descripcion,
+          idComprobante: comprobante?.idComprobante,
+          documento: comprobante
+            ? `${comprobante.serie}-${comprobante.numero}`
+            : undefined,
+          entidad: comprobante?.entidad?.nombreCompletoMostrado,
+          idInventario: registro.inventario.id,
+          almacen: registro.inventario.almacen?.nombre ?? '',
+          numeroLote: registro.lote?.numeroLote,
+        };
+      },
+    );
+
+    const compra = movimientos.find(
+      (movimiento) =>
+        movimiento.tipo === TipoMovimiento.ENTRADA &&
+        movimiento.codigoOperacion === CODIGO_COMPRA,
+    );
+    const venta = [...movimientos]
+      .reverse()
+      .find(
+        (movimiento) =>
+          movimiento.tipo === TipoMovimiento.SALIDA &&
+          movimiento.codigoOperacion === CODIGO_VENTA,
+      );
+
+    return {
+      numeroSerie: this.mapearNumeroSerie(unidad),
+      compra,
+      venta,
+      movimientos,
+    };
+  }
+
+  private async registrarMovimientos(
+    unidades: NumeroSerie[],
+    tipo: TipoMovimiento,
+    detalle: ComprobanteDetalle,
+    fecha: Date,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const repository = manager
+      ? manager.getRepository(NumeroSerieMovimiento)
+      : this.movimientoRepository;
+    await repository.save(
+      unidades.map((unidad) =>
+        repository.create({
+          numeroSerie: unidad,
+          tipo,
+          inventario: detalle.inventario,
+          lote: unidad.lote,
+          idComprobanteDetalle: detalle.idDetalle ?? null,
+          fecha,
+        }),
+      ),
+    );
+  }
+
+  private repositorioSeries(manager?: EntityManager): Repository<NumeroSerie> {
+    return manager
+      ? manager.getRepository(NumeroSerie)
+      : this.numeroSerieRepository;
+  }
+
+  private mapearNumeroSerie(unidad: NumeroSerie): ResponseNumeroSerieDto {
+    return {
+      id: unidad.id,
+      numeroSerie: unidad.numeroSerie,
+      idProducto: unidad.producto.id,
+      producto: unidad.producto.nombre,
+      estado: unidad.estado,
+      idInventario: unidad.inventario.id,
+      almacen: unidad.inventario.almacen?.nombre ?? '',
+      idLote: unidad.lote.id,
+      numeroLote: unidad.lote.numeroLote ?? '',
+      costoUnitario: Number(unidad.lote.costoUnitario),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { PleInventarioService } from './ple-inventario.service';
+import { KardexCalculationService } from './kardex-calculation.service';
+import type { KardexResult } from './kardex-calculation.service';
+import { InventarioRepository } from '../repository';
+import { PeriodoContableService } from '../../periodos/service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+
+// El repositorio de inventarios usa rutas 'src/...' que jest no resuelve
+jest.mock('../repository', () => ({ InventarioRepository: class {} }));
+
+/**
+ * Tests unitarios para PleInventarioService
+ * Verifica las líneas del formato 13.1 y el nombre oficial del archivo
+ */
+describe('PleInventarioService', () => {
+  let service: PleInventarioService;
+  let generarKardex: jest.Mock;
+
+  const inventario = {
+    id: 4,
+    almacen: { codigoEstablecimiento: '0001' },
+    producto: {
+      id: 12,
+      codigo: 'P-012',
+      nombre: 'Cemento | Tipo I',
+      unidadMedida: 'NIU',
+      tipoExistencia: '01',
+    },
+  };
+
+  const kardex = {
+    saldoInicial: { cantidad: 10, costoUnitario: 20, valorTotal: 200 },
+    movimientos: [
+      {
+        fecha: new Date(2024, 0, 15),
+        tipoOperacion: 'VENTA',
+        tipoOperacionCodigo: '01',
+        tipoMovimiento: TipoMovimiento.SALIDA,
+        tipoComprobanteCodigo: '01',
+        numeroComprobante: 'F001-88',
+        cantidad: 4,
+        costoUnitario: 20,
+        costoTotal: 80,
+        cantidadSaldo: 6,
+        costoUnitarioSaldo: 20,
+        valorTotalSaldo: 120,
+      },
+    ],
+  } as unknown as KardexResult;
+
+  beforeEach(() => {
+    generarKardex = jest.fn(() => Promise.resolve(kardex));
+    service = new PleInventarioService(
+      {
+        findAll: jest.fn(() => Promise.resolve([inventario])),
+      } as unknown as InventarioRepository,
+      { generarKardex } as unknown as KardexCalculationService,
+      {
+        obtenerPorId: jest.fn(() =>
+          Promise.resolve({
+            id: 3,
+            año: 2024,
+            fechaInicio: new Date('2024-01-01'),
+            persona: { id: 1, ruc: '20123456789' },
+          }),
+        ),
+        obtenerConfiguracion: jest.fn(() =>
+          Promise.resolve({ metodoCalculoCosto: MetodoValoracion.FIFO }),
+        ),
+      } as unknown as PeriodoContableService,
+    );
+  });
+
+  it('should declare the opening balance and the exits with negative sign', async () => {
+    const archivo = await service.generarRegistroInventarioValorizado(3, 1, 1);
+
+    expect(archivo.nombreArchivo).toBe('LE2012345678920240100130100001111.txt');
+    expect(archivo.cantidadRegistros).toBe(2);
+
+    const [saldo, salida] = archivo.contenido
+      .split('\r\n')
+      .filter(Boolean)
+      .map((linea) => linea.split('|'));
+    expect(saldo).toHaveLength(28);
+    expect(saldo.slice(0, 15)).toEqual([
+      '20240100',
+      'INV4-1',
+      'A000000001',
+      '0001',
+      '9',
+      '01',
+      'P-012',
+      '',
+      '',
+      '01/01/2024',
+      '00',
+      '0',
+      '0',
+      '16',
+      'Cemento   Tipo I',
+    ]);
+    expect(saldo.slice(16, 20)).toEqual(['2', '10.00', '20.00', '200.00']);
+
+    expect(salida[2]).toBe('M000000002');
+    expect(salida.slice(9, 14)).toEqual([
+      '15/01/2024',
+      '01',
+      'F001',
+      '88',
+      '01',
+    ]);
+    expect(salida.slice(17, 27)).toEqual([
+      '0.00',
+      '0.00',
+      '0.00',
+      '-4.00',
+      '20.00',
+      '-80.00',
+      '6.00',
+      '20.00',
+      '120.00',
+      '1',
+    ]);
+  });
+
+  it('should flag a month without movements in the file name', async () => {
+    generarKardex.mockResolvedValue(null);
+
+    const archivo = await service.generarRegistroInventarioValorizado(3, 2, 1);
+
+    expect(generarKardex).toHaveBeenCalledWith(
+      4,
+      new Date(2024, 1, 1),
+      new Date(2024, 1, 29, 23, 59, 59, 999),
+      MetodoValoracion.FIFO,
+    );
+    expect(archivo.nombreArchivo).toBe('LE2012345678920240200130100001011.txt');
+    expect(archivo.contenido).toBe('');
+  });
+});
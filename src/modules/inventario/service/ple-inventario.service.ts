@@ -0,0 +1,283 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InventarioRepository } from '../repository';
+import { KardexCalculationService } from './kardex-calculation.service';
+import type {
+  KardexMovement,
+  KardexResult,
+} from './kardex-calculation.service';
+import { PeriodoContableService } from '../../periodos/service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { Inventario } from '../entities';
+import { TipoExistencia } from '../../productos/enum/tipo-existencia.enum';
+import { obtenerCodigoUnidadSunat } from '../../productos/enum/unidad-medida-sunat';
+import {
+  construirNombreArchivoPle,
+  type ArchivoPle,
+} from '../../comprobantes/service/ple.service';
+
+/**
+ * Servicio para exportar el Kardex valorizado como libro electrónico
+ * Registro de Inventario Permanente Valorizado (formato 13.1)
+ */
+@Injectable()
+export class PleInventarioService {
+  private readonly logger = new Logger(PleInventarioService.name);
+
+  /** Código de libro del Registro de Inventario Permanente Valorizado */
+  private static readonly LIBRO_INVENTARIO_VALORIZADO = '130100';
+
+  constructor(
+    private readonly inventarioRepository: InventarioRepository,
+    private readonly kardexCalculationService: KardexCalculationService,
+    private readonly periodoContableService: PeriodoContableService,
+  ) {}
+
+  /**
+   * Genera el Registro de Inventario Permanente Valorizado (formato 13.1) de un mes
+   * @param idPeriodo - ID del período contable
+   * @param mes - Mes a declarar (1-12)
+   * @param personaId - ID de la empresa
+   * @returns Promise<ArchivoPle> Archivo con el nombre oficial y sus líneas
+   */
+  async generarRegistroInventarioValorizado(
+    idPeriodo: number,
+    mes: number,
+    personaId: number,
+  ): Promise<ArchivoPle> {
+    if (!Number.isInteger(mes) || mes < 1 || mes > 12) {
+      throw new BadRequestException('El mes debe estar entre 1 y 12');
+    }
+
+    const periodo = await this.periodoContableService.obtenerPorId(idPeriodo);
+    if (periodo.persona?.id !== personaId) {
+      throw new BadRequestException(
+        'El período contable no pertenece a su empresa',
+      );
+    }
+
+    const metodoValoracion = (
+      await this.periodoContableService.obtenerConfiguracion(personaId)
+    ).metodoCalculoCosto;
+
+    const inicio = new Date(periodo.año, mes - 1, 1);
+    const fin = new Date(periodo.año, mes, 0, 23, 59, 59, 999);
+    const periodoPle = `${periodo.año}${String(mes).padStart(2, '0')}00`;
+    // El saldo inicial solo se declara en el primer mes del ejercicio
+    const incluirSaldoInicial =
+      mes === new Date(periodo.fechaInicio).getUTCMonth() + 1;
+
+    const inventarios = await this.inventarioRepository.findAll(personaId);
+    const lineas: string[] = [];
+
+    for (const inventario of inventarios) {
+      const kardex = await this.kardexCalculationService.generarKardex(
+        inventario.id,
+        inicio,
+        fin,
+        metodoValoracion,
+      );
+
+      if (!kardex) {
+        continue;
+      }
+
+      if (incluirSaldoInicial && kardex.saldoInicial.cantidad > 0) {
+        lineas.push(
+          this.construirLineaSaldoInicial(
+            inventario,
+            kardex,
+            metodoValoracion,
+            periodoPle,
+            inicio,
+            lineas.length + 1,
+          ),
+        );
+      }
+
+      for (const movimiento of kardex.movimientos) {
+        lineas.push(
+          this.construirLineaMovimiento(
+            inventario,
+            movimiento,
+            metodoValoracion,
+            periodoPle,
+            lineas.length + 1,
+          ),
+        );
+      }
+    }
+
+    this.logger.log(
+      `Registro 13.1 ${periodoPle}: ${inventarios.length} inventarios, ${lineas.length} líneas`,
+    );
+
+    return {
+      nombreArchivo: construirNombreArchivoPle(
+        periodo.persona.ruc,
+        periodoPle,
+        PleInventarioService.LIBRO_INVENTARIO_VALORIZADO,
+        lineas.length > 0,
+      ),
+      contenido: lineas.map((linea) => `${linea}\r\n`).join(''),
+      cantidadRegistros: lineas.length,
+    };
+  }
+
+  /**
+   * Construye la línea de saldo inicial (Tabla 12 código "16")
+   */
+  private construirLineaSaldoInicial(
+    inventario: Inventario,
+    kardex: KardexResult,
+    metodoValoracion: MetodoValoracion,
+    periodoPle: string,
+    fecha: Date,
+    numeroLinea: number,
+  ): string {
+    const saldo = kardex.saldoInicial;
+    return this.unirCampos([
+      ...this.camposCabecera(inventario, periodoPle, numeroLinea, 'A'),
+      this.formatearFecha(fecha),
+      '00',
+      '0',
+      '0',
+      '16',
+      ...this.camposExistencia(inventario, metodoValoracion),
+      this.formatearNumero(saldo.cantidad),
+      this.formatearNumero(saldo.costoUnitario),
+      this.formatearNumero(saldo.valorTotal),
+      this.formatearNumero(0),
+      this.formatearNumero(0),
+      this.formatearNumero(0),
+      this.formatearNumero(saldo.cantidad),
+      this.formatearNumero(saldo.costoUnitario),
+      this.formatearNumero(saldo.valorTotal),
+      '1',
+    ]);
+  }
+
+  /**
+   * Construye la línea de un movimiento del Kardex
+   */
+  private construirLineaMovimiento(
+    inventario: Inventario,
+    movimiento: KardexMovement,
+    metodoValoracion: MetodoValoracion,
+    periodoPle: string,
+    numeroLinea: number,
+  ): string {
+    const esEntrada = movimiento.tipoMovimiento === TipoMovimiento.ENTRADA;
+    const { serie, numero } = this.separarDocumento(
+      movimiento.numeroComprobante,
+    );
+    // Las salidas se declaran con signo negativo
+    const cantidadSalida = esEntrada ? 0 : -movimiento.cantidad;
+    const totalSalida = esEntrada ? 0 : -movimiento.costoTotal;
+
+    return this.unirCampos([
+      ...this.camposCabecera(inventario, periodoPle, numeroLinea, 'M'),
+      this.formatearFecha(movimiento.fecha),
+      movimiento.tipoComprobanteCodigo || '00',
+      serie,
+      numero,
+      movimiento.tipoOperacionCodigo || '99',
+      ...this.camposExistencia(inventario, metodoValoracion),
+      this.formatearNumero(esEntrada ? movimiento.cantidad : 0),
+      this.formatearNumero(esEntrada ? movimiento.costoUnitario : 0),
+      this.formatearNumero(esEntrada ? movimiento.costoTotal : 0),
+      this.formatearNumero(cantidadSalida),
+      this.formatearNumero(esEntrada ? 0 : movimiento.costoUnitario),
+      this.formatearNumero(totalSalida),
+      this.formatearNumero(movimiento.cantidadSaldo),
+      this.formatearNumero(movimiento.costoUnitarioSaldo),
+      this.formatearNumero(movimiento.valorTotalSaldo),
+      '1',
+    ]);
+  }
+
+  /**
+   * Campos 1 a 9: período, CUO, correlativo, establecimiento y catálogo
+   */
+  private camposCabecera(
+    inventario: Inventario,
+    periodoPle: string,
+    numeroLinea: number,
+    prefijo: 'A' | 'M',
+  ): string[] {
+    const producto = inventario.producto;
+    return [
+      periodoPle,
+      `INV${inventario.id}-${numeroLinea}`,
+      `${prefijo}${String(numeroLinea).padStart(9, '0')}`,
+      inventario.almacen?.codigoEstablecimiento || '0000',
+      '9',
+      producto?.tipoExistencia || TipoExistencia.MERCADERIAS,
+      this.limpiarTexto(producto?.codigo || String(producto?.id ?? '')).slice(
+        0,
+        24,
+      ),
+      '',
+      '',
+    ];
+  }
+
+  /**
+   * Campos 15 a 17: descripción, unidad de medida (Tabla 6) y método de valuación
+   */
+  private camposExistencia(
+    inventario: Inventario,
+    metodoValoracion: MetodoValoracion,
+  ): string[] {
+    const producto = inventario.producto;
+    return [
+      this.limpiarTexto(producto?.nombre || '').slice(0, 80),
+      obtenerCodigoUnidadSunat(producto?.unidadMedida),
+      // Tabla 14: 1 = Promedio ponderado, 2 = PEPS, 5 = Identificación específica
+      metodoValoracion === MetodoValoracion.FIFO
+        ? '2'
+        : metodoValoracion === MetodoValoracion.ESPECIFICO
+          ? '5'
+          : '1',
+    ];
+  }
+
+  /**
+   * Separa "SERIE-NUMERO" en sus componentes
+   */
+  private separarDocumento(documento?: string): {
+    serie: string;
+    numero: string;
+  } {
+    if (!documento) {
+      return { serie: '0', numero: '0' };
+    }
+    const indice = documento.indexOf('-');
+    if (indice <= 0) {
+      return { serie: '0', numero: this.limpiarTexto(documento) };
+    }
+    return {
+      serie: this.limpiarTexto(documento.slice(0, indice)),
+      numero: this.limpiarTexto(documento.slice(indice + 1)),
+    };
+  }
+
+  private unirCampos(campos: string[]): string {
+    return `${campos.join('|')}|`;
+  }
+
+  private formatearFecha(fecha: Date): string {
+    const valor = new Date(fecha);
+    const dia = String(valor.getDate()).padStart(2, '0');
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    return `${dia}/${mes}/${valor.getFullYear()}`;
+  }
+
+  private formatearNumero(valor: number): string {
+    return (Math.round((Number(valor) || 0) * 100) / 100 || 0).toFixed(2);
+  }
+
+  private limpiarTexto(texto: string): string {
+    return (texto || '').replace(/[|\r\n]/g, ' ').trim();
+  }
+}
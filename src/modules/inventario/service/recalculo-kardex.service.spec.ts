@@ -0,0 +1,218 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import {
+  MovimientoRecalculo,
+  RecalculoKardexService,
+} from './recalculo-kardex.service';
+import { KardexSaldoService } from './kardex-saldo.service';
+import { StockCacheService } from './stock-cache.service';
+import { AsientoService } from '../../contabilidad/service/asiento.service';
+import { Inventario } from '../entities/inventario.entity';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { EstrategiaConsumo } from '../../productos/enum/estrategia-consumo.enum';
+
+/**
+ * Tests unitarios para RecalculoKardexService
+ * Verifica la reasignación FIFO de salidas tras una compra con fecha pasada
+ */
+describe('RecalculoKardexService', () => {
+  let service: RecalculoKardexService;
+
+  // Lote 1 registrado en enero; lote 2 es una compra retroactiva del 5 de febrero
+  const lotes = [
+    { idLote: 1, fechaIngreso: '2024-01-10', costoUnitario: 10 },
+    { idLote: 2, fechaIngreso: '2024-02-05', costoUnitario: 16 },
+  ];
+
+  const movimiento = (
+    id: number,
+    tipo: TipoMovimiento,
+    fecha: string,
+    cantidad: number,
+    extra: Partial<MovimientoRecalculo> = {},
+  ): MovimientoRecalculo => ({
+    idMovimiento: id,
+    idMovimientoDetalle: id,
+    tipo,
+    fecha: new Date(fecha),
+    numeroDocumento: `DOC-${id}`,
+    cantidad,
+    costoUnitario: null,
+    detallesSalida: [],
+    ...extra,
+  });
+
+  const movimientos = () => [
+    movimiento(1, TipoMovimiento.ENTRADA, '2024-01-10T09:00:00', 10, {
+      idLote: 1,
+    }),
+    // Venta de enero, en un período que no se reasigna
+    movimiento(2, TipoMovimiento.SALIDA, '2024-01-20T09:00:00', 4, {
+      detallesSalida: [{ idLote: 1, cantidad: 4, costoUnitarioDeLote: 10 }],
+    }),
+    // Registrada a las 16:00 del mismo día en que se vendió a las 11:00
+    movimiento(3, TipoMovimiento.ENTRADA, '2024-02-05T16:00:00', 10, {
+      idLote: 2,
+    }),
+    movimiento(4, TipoMovimiento.SALIDA, '2024-02-05T11:00:00', 8, {
+      costoUnitario: 10,
+      detallesSalida: [{ idLote: 1, cantidad: 6, costoUnitarioDeLote: 10 }],
+    }),
+  ];
+
+  beforeEach(() => {
+    service = new RecalculoKardexService(
+      {} as Repository<Inventario>,
+      {} as Repository<PeriodoContable>,
+      {} as PeriodoContableService,
+      {} as KardexSaldoService,
+      {} as StockCacheService,
+      {} as AsientoService,
+      {} as DataSource,
+    );
+  });
+
+  describe('reasignarSalidas', () => {
+    it('should consume older lots first and include same-day entries', () => {
+      const salidas = service.reasignarSalidas(
+        lotes,
+        movimientos(),
+        '2024-02-01',
+        MetodoValoracion.FIFO,
+      );
+
+      expect(salidas).toHaveLength(1);
+      expect(salidas[0].movimiento.idMovimiento).toBe(4);
+      expect(salidas[0].detallesSalida).toEqual([
+        { idLote: 1, cantidad: 6, costoUnitarioDeLote: 10 },
+        { idLote: 2, cantidad: 2, costoUnitarioDeLote: 16 },
+      ]);
+      expect(salidas[0].costoUnitario).toBe(11.5);
+    });
+
+    it('should value sales at the running average with PROMEDIO', () => {
+      const salidas = service.reasignarSalidas(
+        lotes,
+        movimientos(),
+        '2024-02-01',
+        MetodoValoracion.PROMEDIO,
+      );
+
+      // (6 x 10 + 10 x 16) / 16
+      expect(salidas[0].costoUnitario).toBe(13.75);
+    });
+
+    it('should dispatch the lot expiring first with FEFO but keep the FIFO cost', () => {
+      const perecibles = [
+        { ...lotes[0], fechaVencimiento: '2024-12-31' },
+        { ...lotes[1], fechaVencimiento: '2024-06-30' },
+      ];
+
+      const salidas = service.reasignarSalidas(
+        perecibles,
+        movimientos(),
+        '2024-02-01',
+        MetodoValoracion.FIFO,
+        EstrategiaConsumo.FEFO,
+      );
+
+      expect(salidas[0].detallesSalida).toEqual([
+        { idLote: 2, cantidad: 8, costoUnitarioDeLote: 16 },
+      ]);
+      expect(salidas[0].costoUnitario).toBe(11.5);
+    });
+
+    it('should keep the chosen lots with specific identification', () => {
+      // El vendedor eligió el lote 2 completo aunque el lote 1 es más antiguo
+      const elegidos = movimientos().map((m) =>
+        m.idMovimiento === 4
+          ? {
+              ...m,
+              detallesSalida: [
+                { idLote: 2, cantidad: 8, costoUnitarioDeLote: 16 },
+              ],
+            }
+          : m,
+      );
+
+      const salidas = service.reasignarSalidas(
+        lotes,
+        elegidos,
+        '2024-02-01',
+        MetodoValoracion.ESPECIFICO,
+      );
+
+      expect(salidas[0].detallesSalida).toEqual([
+        { idLote: 2, cantidad: 8, costoUnitarioDeLote: 16 },
+      ]);
+      expect(salidas[0].costoUnitario).toBe(16);
+    });
+
+    it('should keep lots chosen on the sale under FIFO and reassign the rest', () => {
+      // La venta indicó el lote 2; la siguiente no eligió lote
+      const elegidos = [
+        ...movimientos().map((m) =>
+          m.idMovimiento === 4
+            ? {
+                ...m,
+                lotesElegidos: true,
+                detallesSalida: [
+                  { idLote: 2, cantidad: 8, costoUnitarioDeLote: 16 },
+                ],
+              }
+            : m,
+        ),
+        movimiento(5, TipoMovimiento.SALIDA, '2024-02-10T09:00:00', 3),
+      ];
+
+      const salidas = service.reasignarSalidas(
+        lotes,
+        elegidos,
+        '2024-02-01',
+        MetodoValoracion.FIFO,
+      );
+
+      expect(salidas[0].detallesSalida).toEqual([
+        { idLote: 2, cantidad: 8, costoUnitarioDeLote: 16 },
+      ]);
+      expect(salidas[0].costoUnitario).toBe(16);
+      expect(salidas[1].detallesSalida).toEqual([
+        { idLote: 1, cantidad: 3, costoUnitarioDeLote: 10 },
+      ]);
+      expect(salidas[1].costoUnitario).toBe(10);
+    });
+
+    it('should count the opening quantity of a lot without a recorded entry', () => {
+      // El lote 1 se cargó como inventario inicial: solo tiene cantidad inicial
+      const sinIngreso = movimientos().filter((m) => m.idMovimiento !== 1);
+
+      const salidas = service.reasignarSalidas(
+        [{ ...lotes[0], cantidadInicial: 10 }, lotes[1]],
+        sinIngreso,
+        '2024-02-01',
+        MetodoValoracion.FIFO,
+      );
+
+      expect(salidas[0].detallesSalida).toEqual([
+        { idLote: 1, cantidad: 6, costoUnitarioDeLote: 10 },
+        { idLote: 2, cantidad: 2, costoUnitarioDeLote: 16 },
+      ]);
+    });
+
+    it('should reject a sale left without stock', () => {
+      const sinCompra = movimientos().filter((m) => m.idMovimiento !== 3);
+
+      expect(() =>
+        service.reasignarSalidas(
+          lotes,
+          sinCompra,
+          '2024-02-01',
+          MetodoValoracion.FIFO,
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
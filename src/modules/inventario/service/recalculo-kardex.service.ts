@@ -0,0 +1,725 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Inventario } from '../entities/inventario.entity';
+import { InventarioLote } from '../entities/inventario-lote.entity';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { EstadoMovimiento } from '../../movimientos/enum/estado-movimiento.enum';
+import { PeriodoContable } from '../../periodos/entities/periodo-contable.entity';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { ComprobanteDetalle } from '../../comprobantes/entities/comprobante-detalle';
+import {
+  EstrategiaConsumo,
+  resolverEstrategiaConsumo,
+} from '../../productos/enum/estrategia-consumo.enum';
+import { AsientoService } from '../../contabilidad/service/asiento.service';
+import { KardexSaldoService } from './kardex-saldo.service';
+import { StockCacheService } from './stock-cache.service';
+import { RecalculoKardexResponseDto, VentaRecalculadaDto } from '../dto';
+
+/**
+ * Lote que participa en el recálculo
+ */
+export interface LoteRecalculo {
+  idLote: number;
+  fechaIngreso: string;
+  fechaVencimiento?: string | null;
+  costoUnitario: number;
+  /**
+   * Existencia de apertura de un lote sin ingreso registrado (cantidad inicial o
+   * inventario inicial), disponible desde su fecha de ingreso
+   */
+  cantidadInicial?: number;
+}
+
+/**
+ * Detalle de movimiento tal como está registrado
+ */
+export interface MovimientoRecalculo {
+  idMovimiento: number;
+  idMovimientoDetalle: number;
+  /** Comprobante que originó el movimiento, si lo hay */
+  idComprobante?: number;
+  tipo: TipoMovimiento;
+  fecha: Date;
+  numeroDocumento?: string;
+  cantidad: number;
+  idLote?: number;
+  costoUnitario: number | null;
+  detallesSalida: AsignacionLote[];
+  /** Los lotes de la salida se eligieron al registrarla (lote indicado o números de serie) */
+  lotesElegidos?: boolean;
+}
+
+/**
+ * Cantidad de una salida asignada a un lote
+ */
+export interface AsignacionLote {
+  idLote: number;
+  cantidad: number;
+  costoUnitarioDeLote: number;
+}
+
+/**
+ * Salida con su asignación y costo recalculados
+ */
+export interface SalidaRecalculada {
+  movimiento: MovimientoRecalculo;
+  detallesSalida: AsignacionLote[];
+  costoUnitario: number;
+}
+
+const TOLERANCIA = 0.0001;
+
+/**
+ * Servicio de recálculo retroactivo del Kardex
+ * Cuando se registra un movimiento con fecha pasada, reasigna los lotes de las salidas
+ * posteriores y reescribe su costo unitario según el método de valoración de la empresa
+ */
+@Injectable()
+export class RecalculoKardexService {
+  private readonly logger = new Logger(RecalculoKardexService.name);
+
+  constructor(
+    @InjectRepository(Inventario)
+    private readonly inventarioRepository: Repository<Inventario>,
+    @InjectRepository(PeriodoContable)
+    private readonly periodoRepository: Repository<PeriodoContable>,
+    private readonly periodoContableService: PeriodoContableService,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly stockCacheService: StockCacheService,
+    private readonly asientoService: AsientoService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Recalcula un inventario desde una fecha
+   * Rechaza fechas fuera del límite retroactivo y nunca modifica períodos cerrados
+   * @param idInventario - ID del inventario
+   * @param fecha - Fecha del movimiento retroactivo
+   * @param personaId - Empresa del usuario; si se indica, el inventario debe pertenecerle
+   * @param manager - EntityManager de la transacción (opcional)
+   * @param validarLimiteRetroactivo - En false omite `diasLimiteRetroactivo`, para
+   * recálculos que el sistema dispara sobre movimientos ya registrados
+   */
+  async recalcular(
+    idInventario: number,
+    fecha: Date,
+    personaId?: number,
+    manager?: EntityManager,
+    validarLimiteRetroactivo = true,
+  ): Promise<RecalculoKardexResponseDto> {
+    const idPersona = await this.obtenerPersona(idInventario, manager);
+    if (personaId && idPersona !== personaId) {
+      throw new NotFoundException(
+        `Inventario con ID ${idInventario} no encontrado`,
+      );
+    }
+
+    if (validarLimiteRetroactivo) {
+      const validacion =
+        await this.periodoContableService.validarMovimientoRetroactivo(
+          idPersona,
+          fecha,
+        );
+      if (!validacion.permitido) {
+        throw new BadRequestException(validacion.mensaje);
+      }
+    }
+
+    const configuracion =
+      await this.periodoContableService.obtenerConfiguracion(idPersona);
+    if (manager) {
+      return this.ejecutar(
+        idInventario,
+        idPersona,
+        fecha,
+        configuracion.metodoCalculoCosto,
+        manager,
+      );
+    }
+    return this.dataSource.transaction((transaccion) =>
+      this.ejecutar(
+        idInventario,
+        idPersona,
+        fecha,
+        configuracion.metodoCalculoCosto,
+        transaccion,
+      ),
+    );
+  }
+
+  /**
+   * Recálculo disparado al registrar un movimiento retroactivo
+   * Respeta `recalculoAutomaticoKardex` y omite (con aviso) fechas fuera de `diasLimiteRetroactivo`
+   * @param idsInventario - Inventarios del movimiento
+   * @param fecha - Fecha del movimiento
+   * @param manager - EntityManager de la transacción del movimiento (opcional)
+   */
+  async recalcularAutomatico(
+    idsInventario: number[],
+    fecha: Date,
+    manager?: EntityManager,
+  ): Promise<RecalculoKardexResponseDto[]> {
+    const ids = [...new Set(idsInventario.filter(Boolean))];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const idPersona = await this.obtenerPersona(ids[0], manager);
+    const configuracion =
+      await this.periodoContableService.obtenerConfiguracion(idPersona);
+    if (!configuracion.recalculoAutomaticoKardex) {
+      this.logger.log(
+        `Recálculo automático desactivado para la empresa ${idPersona}`,
+      );
+      return [];
+    }
+
+    const validacion =
+      await this.periodoContableService.validarMovimientoRetroactivo(
+        idPersona,
+        fecha,
+      );
+    if (!validacion.permitido) {
+      this.logger.warn(
+        `Recálculo automático omitido: ${validacion.mensaje ?? 'fecha fuera del límite'}`,
+      );
+      return [];
+    }
+
+    const resultados: RecalculoKardexResponseDto[] = [];
+    for (const id of ids) {
+      const ejecutar = (transaccion: EntityManager) =>
+        this.ejecutar(
+          id,
+          idPersona,
+          fecha,
+          configuracion.metodoCalculoCosto,
+          transaccion,
+        );
+      resultados.push(
+        manager
+          ? await ejecutar(manager)
+          : await this.dataSource.transaction(ejecutar),
+      );
+    }
+    return resultados;
+  }
+
+  /**
+   * Recorre los movimientos en orden y reasigna las salidas desde `fechaDesde`
+   * Las salidas anteriores conservan los lotes que tienen asignados. En un mismo día las
+   * entradas se procesan antes que las salidas, igual que al registrar una venta.
+   * Con FEFO los lotes se despachan por vencimiento, pero el costo FIFO se sigue tomando
+   * de los lotes más antiguos en existencia. Con costo específico se conservan los lotes
+   * elegidos en cada venta; con FIFO o promedio, los de las salidas que indicaron lote o
+   * números de serie.
+   * @param lotes - Lotes del inventario
+   * @param movimientos - Detalles procesados del inventario
+   * @param fechaDesde - Fecha (YYYY-MM-DD) desde la que se reasigna
+   * @param metodoValoracion - Método con el que se valoriza cada salida
+   * @param estrategia - Orden físico de despacho de lotes (FIFO por defecto)
+   * @returns Salidas desde `fechaDesde` con su nueva asignación y costo
+   */
+  reasignarSalidas(
+    lotes: LoteRecalculo[],
+    movimientos: MovimientoRecalculo[],
+    fechaDesde: string,
+    metodoValoracion: MetodoValoracion,
+    estrategia: EstrategiaConsumo = EstrategiaConsumo.FIFO,
+  ): SalidaRecalculada[] {
+    const lotesPorId = new Map(lotes.map((lote) => [lote.idLote, lote]));
+    const ordenFifo = [...lotes].sort(
+      (a, b) =>
+        a.fechaIngreso.localeCompare(b.fechaIngreso) || a.idLote - b.idLote,
+    );
+    const saldoLotes = new Map<number, number>();
+    const saldo = { cantidad: 0, valorTotal: 0 };
+    const salidas: SalidaRecalculada[] = [];
+
+    // Las existencias de apertura entran como un ingreso más del lote
+    const aperturas = lotes
+      .filter((lote) => (lote.cantidadInicial ?? 0) > 0)
+      .map(
+        (lote): MovimientoRecalculo => ({
+          idMovimiento: 0,
+          idMovimientoDetalle: 0,
+          tipo: TipoMovimiento.ENTRADA,
+          fecha: new Date(`${lote.fechaIngreso}T00:00:00`),
+          cantidad: lote.cantidadInicial!,
+          idLote: lote.idLote,
+          costoUnitario: lote.costoUnitario,
+          detallesSalida: [],
+        }),
+      );
+    const ordenados = [...aperturas, ...movimientos].sort(
+      (a, b) =>
+        this.aFecha(a.fecha).localeCompare(this.aFecha(b.fecha)) ||
+        Number(a.tipo === TipoMovimiento.SALIDA) -
+          Number(b.tipo === TipoMovimiento.SALIDA) ||
+        a.fecha.getTime() - b.fecha.getTime() ||
+        a.idMovimientoDetalle - b.idMovimientoDetalle,
+    );
+
+    for (const movimiento of ordenados) {
+      const cantidad = Number(movimiento.cantidad);
+
+      if (movimiento.tipo !== TipoMovimiento.SALIDA) {
+        const lote = movimiento.idLote
+          ? lotesPorId.get(movimiento.idLote)
+          : undefined;
+        if (lote) {
+          saldoLotes.set(
+            lote.idLote,
+            (saldoLotes.get(lote.idLote) ?? 0) + cantidad,
+          );
+        }
+        saldo.cantidad += cantidad;
+        saldo.valorTotal +=
+          cantidad * (lote?.costoUnitario ?? movimiento.costoUnitario ?? 0);
+        continue;
+      }
+
+      const costoPromedio =
+        saldo.cantidad > 0 ? saldo.valorTotal / saldo.cantidad : 0;
+      const recalcular = this.aFecha(movimiento.fecha) >= fechaDesde;
+      // Si el lote lo eligió el vendedor (siempre con costo específico) solo se recalcula
+      // el costo
+      const reasignar =
+        recalcular &&
+        metodoValoracion !== MetodoValoracion.ESPECIFICO &&
+        !movimiento.lotesElegidos;
+      const fefo = reasignar && estrategia === EstrategiaConsumo.FEFO;
+      // Costo FIFO calculado antes del despacho, sin consumir los saldos reales
+      const asignacionCosto = fefo
+        ? this.asignarLotes(
+            movimiento,
+            cantidad,
+            ordenFifo,
+            new Map(saldoLotes),
+          )
+        : undefined;
+      const asignacion = reasignar
+        ? this.asignarLotes(
+            movimiento,
+            cantidad,
+            fefo
+              ? this.ordenFefo(lotes, this.aFecha(movimiento.fecha))
+              : ordenFifo,
+            saldoLotes,
+          )
+        : movimiento.detallesSalida;
+
+      if (!reasignar) {
+        for (const detalle of asignacion) {
+          saldoLotes.set(
+            detalle.idLote,
+            (saldoLotes.get(detalle.idLote) ?? 0) - Number(detalle.cantidad),
+          );
+        }
+      }
+
+      const costoUnitario =
+        metodoValoracion === MetodoValoracion.PROMEDIO
+          ? costoPromedio
+          : this.costoAsignacion(asignacionCosto ?? asignacion, cantidad);
+      saldo.cantidad = Math.max(0, saldo.cantidad - cantidad);
+      saldo.valorTotal =
+        saldo.cantidad > 0
+          ? Math.max(0, saldo.valorTotal - cantidad * costoUnitario)
+          : 0;
+
+      if (recalcular) {
+        salidas.push({
+          movimiento,
+          detallesSalida: asignacion,
+          costoUnitario: this.redondear(costoUnitario),
+        });
+      }
+    }
+
+    return salidas;
+  }
+
+  private async ejecutar(
+    idInventario: number,
+    idPersona: number,
+    fecha: Date,
+    metodoValoracion: MetodoValoracion,
+    manager: EntityManager,
+  ): Promise<RecalculoKardexResponseDto> {
+    const fechaDesde = await this.calcularFechaDesde(idPersona, fecha);
+    const lotes = await manager.getRepository(InventarioLote).find({
+      where: { inventario: { id: idInventario } },
+      select: [
+        'id',
+        'fechaIngreso',
+        'fechaVencimiento',
+        'costoUnitario',
+        'cantidadInicial',
+      ],
+    });
+    const inventario = await manager.getRepository(Inventario).findOne({
+      where: { id: idInventario },
+      relations: ['producto', 'producto.categoria'],
+    });
+    const detalles = await manager
+      .getRepository(MovimientoDetalle)
+      .createQueryBuilder('md')
+      .innerJoinAndSelect('md.movimiento', 'm')
+      .leftJoinAndSelect('md.detallesSalida', 'ds')
+      .where('md.idInventario = :idInventario', { idInventario })
+      .andWhere('m.estado = :estado', { estado: EstadoMovimiento.PROCESADO })
+      .getMany();
+    // Igual que el cálculo de stock por lote, los lotes sin ingreso propio parten de su
+    // cantidad inicial
+    const lotesConIngreso = new Set(
+      detalles
+        .filter(
+          (detalle) =>
+            detalle.movimiento.tipo !== TipoMovimiento.SALIDA && detalle.idLote,
+        )
+        .map((detalle) => Number(detalle.idLote)),
+    );
+    const comprobantesConLote = await this.comprobantesConLoteElegido(
+      idInventario,
+      detalles,
+      manager,
+    );
+
+    const salidas = this.reasignarSalidas(
+      lotes.map((lote) => ({
+        idLote: Number(lote.id),
+        fechaIngreso: this.aFecha(lote.fechaIngreso),
+        fechaVencimiento: lote.fechaVencimiento
+          ? this.aFecha(lote.fechaVencimiento)
+          : null,
+        costoUnitario: Number(lote.costoUnitario),
+        cantidadInicial: lotesConIngreso.has(Number(lote.id))
+          ? 0
+          : Number(lote.cantidadInicial) || 0,
+      })),
+      detalles.map((detalle) => ({
+        idMovimiento: detalle.movimiento.id,
+        idMovimientoDetalle: detalle.id,
+        idComprobante: detalle.movimiento.idComprobante
+          ? Number(detalle.movimiento.idComprobante)
+          : undefined,
+        tipo: detalle.movimiento.tipo,
+        fecha: new Date(detalle.movimiento.fecha),
+        numeroDocumento: detalle.movimiento.numeroDocumento,
+        cantidad: Number(detalle.cantidad),
+        idLote: detalle.idLote ? Number(detalle.idLote) : undefined,
+        costoUnitario:
+          detalle.costoUnitario === null || detalle.costoUnitario === undefined
+            ? null
+            : Number(detalle.costoUnitario),
+        detallesSalida: (detalle.detallesSalida || []).map((salida) => ({
+          idLote: Number(salida.idLote),
+          cantidad: Number(salida.cantidad),
+          costoUnitarioDeLote: Number(salida.costoUnitarioDeLote),
+        })),
+        lotesElegidos:
+          detalle.movimiento.tipo === TipoMovimiento.SALIDA &&
+          comprobantesConLote.has(Number(detalle.movimiento.idComprobante)),
+      })),
+      fechaDesde,
+      metodoValoracion,
+      resolverEstrategiaConsumo(inventario?.producto),
+    );
+
+    let salidasReescritas = 0;
+    const ventasAfectadas: VentaRecalculadaDto[] = [];
+    const diferenciasComprobante = new Map<number, number>();
+    for (const salida of salidas) {
+      const { movimiento } = salida;
+      const asignacionCambio = !this.mismaAsignacion(
+        movimiento.detallesSalida,
+        salida.detallesSalida,
+      );
+      // Sin costo registrado se toma el de los lotes que tenía asignados
+      const costoAnterior = this.redondear(
+        movimiento.costoUnitario ??
+          this.costoAsignacion(movimiento.detallesSalida, movimiento.cantidad),
+      );
+      const costoCambio =
+        Math.abs(costoAnterior - salida.costoUnitario) > TOLERANCIA;
+
+      if (asignacionCambio) {
+        await manager.delete(DetalleSalida, {
+          idMovimientoDetalle: movimiento.idMovimientoDetalle,
+        });
+        await manager.save(
+          DetalleSalida,
+          salida.detallesSalida.map((detalle) =>
+            manager.create(DetalleSalida, {
+              idMovimientoDetalle: movimiento.idMovimientoDetalle,
+              ...detalle,
+            }),
+          ),
+        );
+      }
+      if (costoCambio || movimiento.costoUnitario === null) {
+        await manager.update(
+          MovimientoDetalle,
+          movimiento.idMovimientoDetalle,
+          {
+            costoUnitario: salida.costoUnitario,
+          },
+        );
+      }
+      if (asignacionCambio || costoCambio) {
+        salidasReescritas++;
+      }
+      if (costoCambio) {
+        const diferencia = this.redondear(
+          movimiento.cantidad * (salida.costoUnitario - costoAnterior),
+        );
+        ventasAfectadas.push({
+          idMovimiento: movimiento.idMovimiento,
+          numeroDocumento: movimiento.numeroDocumento ?? '',
+          fecha: this.aFecha(movimiento.fecha),
+          cantidad: movimiento.cantidad,
+          costoUnitarioAnterior: costoAnterior,
+          costoUnitarioNuevo: salida.costoUnitario,
+          diferencia,
+        });
+        if (movimiento.idComprobante) {
+          diferenciasComprobante.set(
+            movimiento.idComprobante,
+            (diferenciasComprobante.get(movimiento.idComprobante) ?? 0) +
+              diferencia,
+          );
+        }
+      }
+    }
+
+    // El asiento de costo de venta debe seguir al kardex
+    let asientosAjuste = 0;
+    for (const [idComprobante, diferencia] of diferenciasComprobante) {
+      const ajuste = await this.asientoService.ajustarCostoVenta(
+        idComprobante,
+        diferencia,
+        manager,
+      );
+      if (ajuste) {
+        asientosAjuste++;
+      }
+    }
+
+    if (salidasReescritas > 0) {
+      await this.kardexSaldoService.invalidarDesde(
+        [idInventario],
+        new Date(`${fechaDesde}T00:00:00`),
+        manager,
+      );
+      this.stockCacheService.invalidateInventario(idInventario);
+    }
+    this.logger.log(
+      `Recálculo del inventario ${idInventario} desde ${fechaDesde} (${metodoValoracion}): ${salidasReescritas} salidas reescritas, ${ventasAfectadas.length} ventas con costo distinto, ${asientosAjuste} asientos de ajuste`,
+    );
+
+    return {
+      idInventario,
+      fechaDesde,
+      metodoValoracion,
+      salidasReescritas,
+      ventasAfectadas,
+      asientosAjuste,
+    };
+  }
+
+  /**
+   * Comprobantes de las salidas del inventario en los que se indicó el lote o los números
+   * de serie de la línea del inventario
+   */
+  private async comprobantesConLoteElegido(
+    idInventario: number,
+    detalles: MovimientoDetalle[],
+    manager: EntityManager,
+  ): Promise<Set<number>> {
+    const idsComprobante = [
+      ...new Set(
+        detalles
+          .filter(
+            (detalle) =>
+              detalle.movimiento.tipo === TipoMovimiento.SALIDA &&
+              detalle.movimiento.idComprobante,
+          )
+          .map((detalle) => Number(detalle.movimiento.idComprobante)),
+      ),
+    ];
+    if (idsComprobante.length === 0) {
+      return new Set();
+    }
+
+    const lineas = await manager.getRepository(ComprobanteDetalle).find({
+      where: {
+        comprobante: { idComprobante: In(idsComprobante) },
+        inventario: { id: idInventario },
+      },
+      relations: ['comprobante'],
+    });
+    return new Set(
+      lineas
+        .filter((linea) => linea.loteId || linea.numerosSerie?.length)
+        .map((linea) => Number(linea.comprobante.idComprobante)),
+    );
+  }
+
+  /**
+   * Asigna una salida a los lotes con saldo en orden FIFO y descuenta su saldo
+   */
+  private asignarLotes(
+    movimiento: MovimientoRecalculo,
+    cantidad: number,
+    orden: LoteRecalculo[],
+    saldoLotes: Map<number, number>,
+  ): AsignacionLote[] {
+    const asignacion: AsignacionLote[] = [];
+    let restante = cantidad;
+
+    for (const lote of orden) {
+      if (restante <= TOLERANCIA) break;
+      const disponible = saldoLotes.get(lote.idLote) ?? 0;
+      if (disponible <= TOLERANCIA) continue;
+
+      const usada = Math.min(restante, disponible);
+      asignacion.push({
+        idLote: lote.idLote,
+        cantidad: usada,
+        costoUnitarioDeLote: lote.costoUnitario,
+      });
+      saldoLotes.set(lote.idLote, disponible - usada);
+      restante -= usada;
+    }
+
+    if (restante > TOLERANCIA) {
+      throw new BadRequestException(
+        `Stock insuficiente para la salida ${movimiento.numeroDocumento ?? movimiento.idMovimiento} del ${this.aFecha(movimiento.fecha)}. Faltante: ${this.redondear(restante)}`,
+      );
+    }
+    return asignacion;
+  }
+
+  /**
+   * Orden FEFO a la fecha de una salida: vigentes por vencimiento (los que no vencen al
+   * final) y, como último recurso, los vencidos, que solo salen si se autorizó
+   */
+  private ordenFefo(lotes: LoteRecalculo[], fecha: string): LoteRecalculo[] {
+    const clave = (lote: LoteRecalculo) => {
+      const vencimiento = lote.fechaVencimiento ?? null;
+      return [
+        vencimiento !== null && vencimiento < fecha ? 1 : 0,
+        vencimiento ?? '9999-12-31',
+      ] as const;
+    };
+    return [...lotes].sort((a, b) => {
+      const [vencidoA, vencimientoA] = clave(a);
+      const [vencidoB, vencimientoB] = clave(b);
+      return (
+        vencidoA - vencidoB ||
+        vencimientoA.localeCompare(vencimientoB) ||
+        a.fechaIngreso.localeCompare(b.fechaIngreso) ||
+        a.idLote - b.idLote
+      );
+    });
+  }
+
+  /**
+   * Primer día que puede recalcularse: el de la fecha o el siguiente al último período cerrado
+   */
+  private async calcularFechaDesde(
+    idPersona: number,
+    fecha: Date,
+  ): Promise<string> {
+    const fechaMovimiento = this.aFecha(fecha);
+    const ultimoCerrado = await this.periodoRepository.findOne({
+      where: { persona: { id: idPersona }, cerrado: true },
+      order: { fechaFin: 'DESC' },
+    });
+    if (!ultimoCerrado) {
+      return fechaMovimiento;
+    }
+
+    const siguiente = new Date(
+      `${this.aFecha(ultimoCerrado.fechaFin)}T00:00:00`,
+    );
+    siguiente.setDate(siguiente.getDate() + 1);
+    const primerDiaAbierto = this.aFecha(siguiente);
+    return fechaMovimiento > primerDiaAbierto
+      ? fechaMovimiento
+      : primerDiaAbierto;
+  }
+
+  private async obtenerPersona(
+    idInventario: number,
+    manager?: EntityManager,
+  ): Promise<number> {
+    const repository = manager
+      ? manager.getRepository(Inventario)
+      : this.inventarioRepository;
+    const inventario = await repository.findOne({
+      where: { id: idInventario },
+      relations: ['almacen', 'almacen.persona'],
+    });
+    if (!inventario?.almacen?.persona) {
+      throw new NotFoundException(
+        `Inventario con ID ${idInventario} no encontrado`,
+      );
+    }
+    return inventario.almacen.persona.id;
+  }
+
+  private mismaAsignacion(
+    anterior: AsignacionLote[],
+    nueva: AsignacionLote[],
+  ): boolean {
+    const clave = (asignacion: AsignacionLote[]) =>
+      asignacion
+        .map(
+          (detalle) => `${detalle.idLote}:${this.redondear(detalle.cantidad)}`,
+        )
+        .sort()
+        .join('|');
+    return clave(anterior) === clave(nueva);
+  }
+
+  private costoAsignacion(
+    asignacion: AsignacionLote[],
+    cantidad: number,
+  ): number {
+    if (cantidad <= 0) {
+      return 0;
+    }
+    const costoTotal = asignacion.reduce(
+      (total, detalle) =>
+        total + Number(detalle.cantidad) * Number(detalle.costoUnitarioDeLote),
+      0,
+    );
+    return costoTotal / cantidad;
+  }
+
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+}
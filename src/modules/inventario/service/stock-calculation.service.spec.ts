@@ -0,0 +1,99 @@
+import { Repository } from 'typeorm';
+import {
+  LoteDisponible,
+  StockCalculationService,
+} from './stock-calculation.service';
+import { StockCacheService } from './stock-cache.service';
+import { Inventario } from '../entities/inventario.entity';
+import { InventarioLote } from '../entities/inventario-lote.entity';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { EstrategiaConsumo } from '../../productos/enum/estrategia-consumo.enum';
+
+/**
+ * Tests unitarios para StockCalculationService
+ * Verifica el despacho de lotes según la estrategia de consumo del producto
+ */
+describe('StockCalculationService', () => {
+  let service: StockCalculationService;
+  let estrategiaCategoria: EstrategiaConsumo | null;
+
+  const lote = (
+    idLote: number,
+    fechaIngreso: string,
+    fechaVencimiento: string | null,
+    cantidadDisponible: number,
+  ): LoteDisponible => ({
+    idLote,
+    cantidadDisponible,
+    costoUnitario: idLote * 10,
+    fechaIngreso: new Date(`${fechaIngreso}T00:00:00`),
+    fechaVencimiento: fechaVencimiento
+      ? new Date(`${fechaVencimiento}T00:00:00`)
+      : null,
+  });
+
+  beforeEach(() => {
+    estrategiaCategoria = EstrategiaConsumo.FEFO;
+    service = new StockCalculationService(
+      {} as Repository<InventarioLote>,
+      {
+        findOne: jest.fn(() =>
+          Promise.resolve({
+            producto: {
+              estrategiaConsumo: null,
+              categoria: { estrategiaConsumo: estrategiaCategoria },
+            },
+          }),
+        ),
+      } as unknown as Repository<Inventario>,
+      {} as Repository<MovimientoDetalle>,
+      {} as StockCacheService,
+    );
+    // Lotes en orden de ingreso: el 2 vence antes que el 3 y el 1 ya venció
+    jest
+      .spyOn(service, 'obtenerLotesDisponiblesFIFO')
+      .mockResolvedValue([
+        lote(1, '2024-01-05', '2024-02-28', 4),
+        lote(2, '2024-01-20', '2024-05-31', 5),
+        lote(3, '2024-02-01', '2024-04-30', 5),
+        lote(4, '2024-02-10', null, 5),
+      ]);
+  });
+
+  describe('calcularConsumoLotes', () => {
+    it('should dispatch the lots expiring first and skip expired ones', async () => {
+      const consumo = await service.calcularConsumoLotes(
+        1,
+        8,
+        new Date('2024-03-15T12:00:00'),
+      );
+
+      expect(consumo.map((item) => [item.idLote, item.cantidad])).toEqual([
+        [3, 5],
+        [2, 3],
+      ]);
+    });
+
+    it('should keep FIFO order when the product has no FEFO strategy', async () => {
+      estrategiaCategoria = null;
+
+      const consumo = await service.calcularConsumoLotes(
+        1,
+        6,
+        new Date('2024-03-15T12:00:00'),
+      );
+
+      expect(consumo.map((item) => item.idLote)).toEqual([2, 3]);
+    });
+
+    it('should refuse expired stock unless it is authorized', async () => {
+      const fecha = new Date('2024-03-15T12:00:00');
+
+      await expect(service.calcularConsumoLotes(1, 17, fecha)).rejects.toThrow(
+        /lotes vencidos/,
+      );
+      const consumo = await service.calcularConsumoLotes(1, 17, fecha, true);
+      expect(consumo[0]).toMatchObject({ idLote: 1, cantidad: 4 });
+    });
+  });
+});
@@ -7,6 +7,10 @@ import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle
 import { DetalleSalida } from '../../movimientos/entities/detalle-salida.entity';
 import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
 import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import {
+  EstrategiaConsumo,
+  resolverEstrategiaConsumo,
+} from '../../productos/enum/estrategia-consumo.enum';
 import { StockCacheService } from './stock-cache.service';
 
 /**
@@ -18,6 +22,7 @@ export interface LoteStockResult {
   cantidadInicial: number;
   costoUnitario: number;
   fechaIngreso: Date;
+  fechaVencimiento?: Date | null;
   numeroLote?: string;
 }
 
@@ -39,6 +44,16 @@ export interface LoteDisponible {
   cantidadDisponible: number;
   costoUnitario: number;
   fechaIngreso: Date;
+  fechaVencimiento?: Date | null;
+}
+
+/**
+ * Interfaz para el consumo de un lote en una salida
+ */
+export interface ConsumoLote {
+  idLote: number;
+  cantidad: number;
+  costoUnitario: number;
 }
 
 /**
@@ -85,6 +100,7 @@ export class StockCalculationService {
         'cantidadInicial',
         'costoUnitario',
         'fechaIngreso',
+        'fechaVencimiento',
         'numeroLote',
       ],
     });
@@ -194,6 +210,12 @@ export class StockCalculationService {
       cantidadInicial: Number(lote.cantidadInicial),
       costoUnitario: Number(lote.costoUnitario),
       fechaIngreso: new Date(lote.fechaIngreso), // Asegurar que sea un objeto Date
+      // Las columnas 'date' llegan como texto; se interpretan en hora local
+      fechaVencimiento: lote.fechaVencimiento
+        ? typeof lote.fechaVencimiento === 'string'
+          ? new Date(`${String(lote.fechaVencimiento).slice(0, 10)}T00:00:00`)
+          : new Date(lote.fechaVencimiento)
+        : null,
       numeroLote: lote.numeroLote,
     };
 
@@ -347,6 +369,7 @@ export class StockCalculationService {
         cantidadDisponible: lote.cantidadActual,
         costoUnitario: lote.costoUnitario,
         fechaIngreso: lote.fechaIngreso,
+        fechaVencimiento: lote.fechaVencimiento,
       }))
       .sort((a, b) => a.fechaIngreso.getTime() - b.fechaIngreso.getTime());
 
@@ -402,20 +425,187 @@ export class StockCalculationService {
     idInventario: number,
     cantidadAConsumir: number,
     fechaHasta?: Date,
-  ): Promise<{ idLote: number; cantidad: number; costoUnitario: number }[]> {
+  ): Promise<ConsumoLote[]> {
     const lotesDisponibles = await this.obtenerLotesDisponiblesFIFO(
       idInventario,
       fechaHasta,
     );
 
-    const consumo: {
-      idLote: number;
-      cantidad: number;
-      costoUnitario: number;
-    }[] = [];
+    const { consumo, cantidadRestante } = this.asignarConsumo(
+      lotesDisponibles,
+      cantidadAConsumir,
+    );
+
+    if (cantidadRestante > 0) {
+      throw new Error(`Stock insuficiente. Faltante: ${cantidadRestante}`);
+    }
+
+    return consumo;
+  }
+
+  /**
+   * Estrategia de consumo del producto del inventario (propia, de la categoría o FIFO)
+   * @param idInventario ID del inventario
+   */
+  async obtenerEstrategiaConsumo(
+    idInventario: number,
+  ): Promise<EstrategiaConsumo> {
+    const inventario = await this.inventarioRepository.findOne({
+      where: { id: idInventario },
+      relations: ['producto', 'producto.categoria'],
+    });
+    return resolverEstrategiaConsumo(inventario?.producto);
+  }
+
+  /**
+   * Ordena lotes para despacho FEFO: primero los que vencen antes, luego los que no
+   * tienen vencimiento; a igual vencimiento, por fecha de ingreso
+   * @param lotes Lotes disponibles
+   */
+  ordenarLotesFEFO(lotes: LoteDisponible[]): LoteDisponible[] {
+    const vencimiento = (lote: LoteDisponible) =>
+      lote.fechaVencimiento
+        ? new Date(lote.fechaVencimiento).getTime()
+        : Number.POSITIVE_INFINITY;
+    return [...lotes].sort(
+      (a, b) =>
+        vencimiento(a) - vencimiento(b) ||
+        a.fechaIngreso.getTime() - b.fechaIngreso.getTime(),
+    );
+  }
+
+  /**
+   * Calcula los lotes que se despachan físicamente en una salida según la estrategia
+   * del producto (FIFO o FEFO). Los lotes vencidos a la fecha de la salida se rechazan
+   * salvo que se indique `permitirVencidos`. El costo de la salida se calcula aparte con
+   * el método de valoración (ver calcularCostoUnitarioVenta).
+   * @param idInventario ID del inventario
+   * @param cantidadAConsumir Cantidad a consumir
+   * @param fechaHasta Fecha de la salida (opcional, por defecto hoy)
+   * @param permitirVencidos Autoriza despachar lotes vencidos
+   * @returns Detalle del consumo por lotes
+   */
+  async calcularConsumoLotes(
+    idInventario: number,
+    cantidadAConsumir: number,
+    fechaHasta?: Date,
+    permitirVencidos = false,
+  ): Promise<ConsumoLote[]> {
+    const estrategia = await this.obtenerEstrategiaConsumo(idInventario);
+    const lotesDisponibles = await this.obtenerLotesDisponiblesFIFO(
+      idInventario,
+      fechaHasta,
+    );
+
+    const referencia = this.aFecha(fechaHasta ?? new Date());
+    const vencidos = lotesDisponibles.filter(
+      (lote) =>
+        lote.fechaVencimiento &&
+        this.aFecha(lote.fechaVencimiento) < referencia,
+    );
+    const despachables = permitirVencidos
+      ? lotesDisponibles
+      : lotesDisponibles.filter((lote) => !vencidos.includes(lote));
+
+    const { consumo, cantidadRestante } = this.asignarConsumo(
+      estrategia === EstrategiaConsumo.FEFO
+        ? this.ordenarLotesFEFO(despachables)
+        : despachables,
+      cantidadAConsumir,
+    );
+
+    if (cantidadRestante > 0) {
+      const cantidadVencida = permitirVencidos
+        ? 0
+        : vencidos.reduce((total, lote) => total + lote.cantidadDisponible, 0);
+      throw new Error(
+        cantidadVencida > 0
+          ? `Stock insuficiente en lotes vigentes. Faltante: ${cantidadRestante}; hay ${cantidadVencida} unidades en lotes vencidos que requieren autorización`
+          : `Stock insuficiente. Faltante: ${cantidadRestante}`,
+      );
+    }
+
+    this.logger.log(
+      `[STOCK-TRACE] Consumo ${estrategia} Inventario=${idInventario} Lotes=${consumo.map((item) => item.idLote).join(',')}`,
+    );
+    return consumo;
+  }
+
+  /**
+   * Consumo de un lote elegido por el vendedor (costo específico)
+   * @param idInventario ID del inventario al que debe pertenecer el lote
+   * @param idLote ID del lote elegido
+   * @param cantidadAConsumir Cantidad a consumir
+   * @param fechaHasta Fecha de la salida (opcional, por defecto hoy)
+   * @param permitirVencidos Autoriza despachar el lote aunque esté vencido
+   */
+  async calcularConsumoLoteEspecifico(
+    idInventario: number,
+    idLote: number,
+    cantidadAConsumir: number,
+    fechaHasta?: Date,
+    permitirVencidos = false,
+  ): Promise<ConsumoLote[]> {
+    const pertenece = await this.loteRepository.findOne({
+      where: { id: idLote, inventario: { id: idInventario } },
+      select: ['id'],
+    });
+    if (!pertenece) {
+      throw new Error(
+        `El lote ${idLote} no pertenece al inventario ${idInventario}`,
+      );
+    }
+
+    const stockLote = await this.calcularStockLote(idLote, fechaHasta);
+    if (!stockLote) {
+      throw new Error(`Lote no encontrado: ${idLote}`);
+    }
+    if (
+      !permitirVencidos &&
+      stockLote.fechaVencimiento &&
+      this.aFecha(stockLote.fechaVencimiento) <
+        this.aFecha(fechaHasta ?? new Date())
+    ) {
+      throw new Error(
+        `El lote ${stockLote.numeroLote ?? idLote} está vencido y requiere autorización`,
+      );
+    }
+    if (stockLote.cantidadActual < cantidadAConsumir) {
+      throw new Error(
+        `Stock insuficiente en el lote ${stockLote.numeroLote ?? idLote}. Disponible: ${stockLote.cantidadActual}`,
+      );
+    }
+
+    return [
+      {
+        idLote: Number(idLote),
+        cantidad: cantidadAConsumir,
+        costoUnitario: stockLote.costoUnitario,
+      },
+    ];
+  }
+
+  /**
+   * Costo unitario ponderado de un consumo de lotes
+   * @param consumo Lotes consumidos
+   */
+  calcularCostoConsumo(consumo: ConsumoLote[]): number {
+    const cantidad = consumo.reduce((total, item) => total + item.cantidad, 0);
+    const costo = consumo.reduce(
+      (total, item) => total + item.cantidad * item.costoUnitario,
+      0,
+    );
+    return cantidad > 0 ? costo / cantidad : 0;
+  }
+
+  private asignarConsumo(
+    lotes: LoteDisponible[],
+    cantidadAConsumir: number,
+  ): { consumo: ConsumoLote[]; cantidadRestante: number } {
+    const consumo: ConsumoLote[] = [];
     let cantidadRestante = cantidadAConsumir;
 
-    for (const lote of lotesDisponibles) {
+    for (const lote of lotes) {
       if (cantidadRestante <= 0) break;
 
       const cantidadDelLote = Math.min(
@@ -432,18 +622,25 @@ export class StockCalculationService {
       cantidadRestante -= cantidadDelLote;
     }
 
-    if (cantidadRestante > 0) {
-      throw new Error(`Stock insuficiente. Faltante: ${cantidadRestante}`);
-    }
+    return { consumo, cantidadRestante };
+  }
 
-    return consumo;
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
   }
 
   /**
    * Calcula el costo unitario para una venta usando el método especificado
    * @param idInventario ID del inventario
    * @param cantidadVenta Cantidad de la venta
-   * @param metodoValoracion Método de valoración (FIFO o PROMEDIO)
+   * @param metodoValoracion Método de valoración (FIFO o PROMEDIO); con costo específico
+   * el costo sale del lote elegido (ver calcularConsumoLoteEspecifico) y aquí se estima por FIFO
    * @param fechaHasta Fecha límite para el cálculo (opcional)
    * @returns Costo unitario calculado
    */
@@ -0,0 +1,128 @@
+import AdmZip from 'adm-zip';
+import { ValorizacionInventarioService } from './valorizacion-inventario.service';
+import { StockCalculationService } from './stock-calculation.service';
+import { HojaCalculoService } from './hoja-calculo.service';
+import { InventarioRepository } from '../repository';
+import { FormatoExportacion } from '../enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+// El repositorio de inventarios usa rutas 'src/...' que jest no resuelve
+jest.mock('../repository', () => ({ InventarioRepository: class {} }));
+
+/**
+ * Tests unitarios para ValorizacionInventarioService
+ * Verifica los saldos a dos fechas de corte, sus subtotales y la descarga en XLSX
+ */
+describe('ValorizacionInventarioService', () => {
+  let service: ValorizacionInventarioService;
+  let calcularCostoUnitarioVenta: jest.Mock;
+
+  const inventario = (
+    id: number,
+    almacen: string,
+    categoria: string,
+    producto: string,
+  ) => ({
+    id,
+    almacen: { id: almacen === 'Central' ? 1 : 2, nombre: almacen },
+    producto: {
+      nombre: producto,
+      codigo: `P-${id}`,
+      unidadMedida: 'NIU',
+      categoria: { id: categoria === 'Bebidas' ? 5 : 6, nombre: categoria },
+    },
+  });
+
+  // Stock por inventario al 31/12/2024 y al 31/12/2023
+  const stock: Record<number, Record<string, number>> = {
+    1: { '2024-12-31': 10, '2023-12-31': 4 },
+    2: { '2024-12-31': 5, '2023-12-31': 0 },
+    3: { '2024-12-31': 0, '2023-12-31': 0 },
+  };
+
+  beforeEach(() => {
+    calcularCostoUnitarioVenta = jest.fn(() => Promise.resolve(2.5));
+    service = new ValorizacionInventarioService(
+      {
+        findAll: jest.fn(() =>
+          Promise.resolve([
+            inventario(1, 'Central', 'Bebidas', 'Agua'),
+            inventario(2, 'Tienda', 'Bebidas', 'Jugo'),
+            inventario(3, 'Central', 'Snacks', 'Papas'),
+          ]),
+        ),
+      } as unknown as InventarioRepository,
+      {
+        calcularStockInventario: jest.fn((id: number, hasta: Date) =>
+          Promise.resolve({
+            stockActual: stock[id][`${hasta.getFullYear()}-12-31`],
+          }),
+        ),
+        calcularCostoUnitarioVenta,
+      } as unknown as StockCalculationService,
+      {
+        obtenerConfiguracion: jest.fn(() =>
+          Promise.resolve({ metodoCalculoCosto: MetodoValoracion.FIFO }),
+        ),
+      } as unknown as PeriodoContableService,
+      new HojaCalculoService(),
+    );
+  });
+
+  it('should value stock at both dates with subtotals and variations', async () => {
+    const reporte = await service.generarReporte(1, {
+      fecha: '2024-12-31',
+      fechaComparacion: '2023-12-31',
+    });
+
+    expect(reporte.items.map((item) => item.producto)).toEqual([
+      'Agua',
+      'Jugo',
+    ]);
+    expect(reporte.items[0]).toMatchObject({
+      cantidad: 10,
+      valorTotal: 25,
+      cantidadComparacion: 4,
+      valorTotalComparacion: 10,
+      variacionValor: 15,
+    });
+    expect(calcularCostoUnitarioVenta).toHaveBeenCalledWith(
+      1,
+      10,
+      MetodoValoracion.FIFO,
+      new Date('2024-12-31T23:59:59.999'),
+    );
+    expect(reporte.subtotalesPorAlmacen).toEqual([
+      expect.objectContaining({ nombre: 'Central', valorTotal: 25 }),
+      expect.objectContaining({ nombre: 'Tienda', valorTotal: 12.5 }),
+    ]);
+    expect(reporte.subtotalesPorCategoria).toEqual([
+      expect.objectContaining({
+        nombre: 'Bebidas',
+        cantidadItems: 2,
+        valorTotal: 37.5,
+        valorTotalComparacion: 10,
+        variacionValor: 27.5,
+      }),
+    ]);
+  });
+
+  it('should export detail and subtotal sheets as XLSX', async () => {
+    const archivo = await service.exportarReporte(1, {
+      fecha: '2024-12-31',
+      formato: FormatoExportacion.XLSX,
+    });
+
+    expect(archivo.nombreArchivo).toBe(
+      'valorizacion-inventario-2024-12-31.xlsx',
+    );
+    const zip = new AdmZip(archivo.contenido);
+    expect(zip.readAsText('xl/workbook.xml')).toContain(
+      '<sheet name="Por categoría"',
+    );
+    const detalle = zip.readAsText('xl/worksheets/sheet1.xml');
+    expect(detalle).toContain('<t xml:space="preserve">Agua</t>');
+    expect(detalle).toContain('<c r="H2"><v>25</v></c>');
+  });
+});
@@ -0,0 +1,332 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InventarioRepository } from '../repository';
+import { Inventario } from '../entities';
+import { StockCalculationService } from './stock-calculation.service';
+import { ArchivoExportado, HojaCalculoService } from './hoja-calculo.service';
+import {
+  ExportarValorizacionInventarioQueryDto,
+  ItemValorizacionInventarioDto,
+  ResponseValorizacionInventarioDto,
+  SubtotalValorizacionInventarioDto,
+  ValorizacionInventarioQueryDto,
+} from '../dto/valorizacion';
+import { FormatoExportacion } from '../enum';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+
+interface SaldoValorizado {
+  cantidad: number;
+  costoUnitario: number;
+  valorTotal: number;
+}
+
+const SIN_CATEGORIA = 'Sin categoría';
+
+/**
+ * Servicio del reporte de valorización de inventario a una fecha
+ * Calcula el saldo de cada inventario con los lotes vigentes a la fecha de corte y el método
+ * de valoración configurado de la empresa
+ */
+@Injectable()
+export class ValorizacionInventarioService {
+  constructor(
+    private readonly inventarioRepository: InventarioRepository,
+    private readonly stockCalculationService: StockCalculationService,
+    private readonly periodoContableService: PeriodoContableService,
+    private readonly hojaCalculoService: HojaCalculoService,
+  ) {}
+
+  /**
+   * Valoriza el inventario a la fecha, con subtotales por almacén y categoría
+   * Con fecha de comparación agrega el saldo a esa fecha y la variación
+   * @param personaId - ID de la empresa
+   * @param filtro - Fechas de corte, almacén y categoría
+   */
+  async generarReporte(
+    personaId: number,
+    filtro: ValorizacionInventarioQueryDto,
+  ): Promise<ResponseValorizacionInventarioDto> {
+    const fecha = filtro.fecha.slice(0, 10);
+    const fechaComparacion = filtro.fechaComparacion?.slice(0, 10);
+    if (fechaComparacion && fechaComparacion === fecha) {
+      throw new BadRequestException(
+        'La fecha de comparación debe ser distinta de la fecha de corte',
+      );
+    }
+
+    const metodoValoracion = (
+      await this.periodoContableService.obtenerConfiguracion(personaId)
+    ).metodoCalculoCosto;
+
+    const inventarios = (await this.inventarioRepository.findAll(personaId))
+      .filter(
+        (inventario) =>
+          (!filtro.idAlmacen ||
+            Number(inventario.almacen?.id) === filtro.idAlmacen) &&
+          (!filtro.idCategoria ||
+            Number(inventario.producto?.categoria?.id) === filtro.idCategoria),
+      )
+      .sort((a, b) => this.ordenar(a, b));
+
+    const items: ItemValorizacionInventarioDto[] = [];
+    for (const inventario of inventarios) {
+      const saldo = await this.valorizar(
+        inventario.id,
+        fecha,
+        metodoValoracion,
+      );
+      const saldoComparacion = fechaComparacion
+        ? await this.valorizar(
+            inventario.id,
+            fechaComparacion,
+            metodoValoracion,
+          )
+        : undefined;
+      if (saldo.cantidad === 0 && !saldoComparacion?.cantidad) {
+        continue;
+      }
+
+      items.push({
+        idInventario: inventario.id,
+        idAlmacen: inventario.almacen?.id,
+        almacen: inventario.almacen?.nombre ?? '',
+        idCategoria: inventario.producto?.categoria?.id,
+        categoria: inventario.producto?.categoria?.nombre ?? SIN_CATEGORIA,
+        codigoProducto: inventario.producto?.codigo ?? '',
+        producto: inventario.producto?.nombre ?? '',
+        unidadMedida: inventario.producto?.unidadMedida ?? '',
+        ...saldo,
+        ...(saldoComparacion
+          ? {
+              cantidadComparacion: saldoComparacion.cantidad,
+              costoUnitarioComparacion: saldoComparacion.costoUnitario,
+              valorTotalComparacion: saldoComparacion.valorTotal,
+              variacionCantidad: this.redondear(
+                saldo.cantidad - saldoComparacion.cantidad,
+              ),
+              variacionValor: this.redondearMonto(
+                saldo.valorTotal - saldoComparacion.valorTotal,
+              ),
+            }
+          : {}),
+      });
+    }
+
+    const comparar = Boolean(fechaComparacion);
+    return {
+      fecha,
+      fechaComparacion,
+      metodoValoracion,
+      items,
+      subtotalesPorAlmacen: this.agrupar(
+        items,
+        (item) => [item.idAlmacen, item.almacen],
+        comparar,
+      ),
+      subtotalesPorCategoria: this.agrupar(
+        items,
+        (item) => [item.idCategoria, item.categoria],
+        comparar,
+      ),
+      total: this.subtotal(undefined, 'Total', items, comparar),
+    };
+  }
+
+  /**
+   * Descarga el reporte con hojas de detalle, subtotales por almacén y por categoría
+   * @param personaId - ID de la empresa
+   * @param filtro - Parámetros del reporte y formato del archivo
+   */
+  async exportarReporte(
+    personaId: number,
+    filtro: ExportarValorizacionInventarioQueryDto,
+  ): Promise<ArchivoExportado> {
+    const reporte = await this.generarReporte(personaId, filtro);
+    const comparar = Boolean(reporte.fechaComparacion);
+    const etiqueta = (titulo: string, fecha?: string) =>
+      `${titulo} al ${fecha}`;
+
+    const detalle = [
+      [
+        'Almacén',
+        'Categoría',
+        'Código',
+        'Producto',
+        'Unidad',
+        etiqueta('Cantidad', reporte.fecha),
+        etiqueta('Costo unitario', reporte.fecha),
+        etiqueta('Valor total', reporte.fecha),
+        ...(comparar
+          ? [
+              etiqueta('Cantidad', reporte.fechaComparacion),
+              etiqueta('Costo unitario', reporte.fechaComparacion),
+              etiqueta('Valor total', reporte.fechaComparacion),
+              'Variación cantidad',
+              'Variación valor',
+            ]
+          : []),
+      ],
+      ...reporte.items.map((item) => [
+        item.almacen,
+        item.categoria,
+        item.codigoProducto,
+        item.producto,
+        item.unidadMedida,
+        item.cantidad,
+        item.costoUnitario,
+        item.valorTotal,
+        ...(comparar
+          ? [
+              item.cantidadComparacion,
+              item.costoUnitarioComparacion,
+              item.valorTotalComparacion,
+              item.variacionCantidad,
+              item.variacionValor,
+            ]
+          : []),
+      ]),
+    ];
+
+    const subtotales = (
+      titulo: string,
+      filas: SubtotalValorizacionInventarioDto[],
+    ) => [
+      [
+        titulo,
+        'Ítems',
+        etiqueta('Valor total', reporte.fecha),
+        ...(comparar
+          ? [etiqueta('Valor total', reporte.fechaComparacion), 'Variación']
+          : []),
+      ],
+      ...[...filas, reporte.total].map((fila) => [
+        fila.nombre,
+        fila.cantidadItems,
+        fila.valorTotal,
+        ...(comparar ? [fila.valorTotalComparacion, fila.variacionValor] : []),
+      ]),
+    ];
+
+    return this.hojaCalculoService.exportar(
+      filtro.formato ?? FormatoExportacion.XLSX,
+      `valorizacion-inventario-${reporte.fecha}`,
+      [
+        { nombre: 'Detalle', filas: detalle },
+        {
+          nombre: 'Por almacén',
+          filas: subtotales('Almacén', reporte.subtotalesPorAlmacen),
+        },
+        {
+          nombre: 'Por categoría',
+          filas: subtotales('Categoría', reporte.subtotalesPorCategoria),
+        },
+      ],
+    );
+  }
+
+  /**
+   * Saldo de un inventario al cierre del día indicado
+   * El costo unitario sale del método de valoración: promedio ponderado de los lotes o costo
+   * de las capas que quedan (FIFO y costo específico)
+   */
+  private async valorizar(
+    idInventario: number,
+    fecha: string,
+    metodoValoracion: MetodoValoracion,
+  ): Promise<SaldoValorizado> {
+    const hasta = new Date(`${fecha}T23:59:59.999`);
+    const stock = await this.stockCalculationService.calcularStockInventario(
+      idInventario,
+      hasta,
+    );
+    const cantidad = this.redondear(stock?.stockActual ?? 0);
+    if (cantidad <= 0) {
+      return { cantidad: 0, costoUnitario: 0, valorTotal: 0 };
+    }
+
+    const costoUnitario =
+      await this.stockCalculationService.calcularCostoUnitarioVenta(
+        idInventario,
+        cantidad,
+        metodoValoracion,
+        hasta,
+      );
+    return {
+      cantidad,
+      costoUnitario: this.redondear(costoUnitario),
+      valorTotal: this.redondearMonto(cantidad * costoUnitario),
+    };
+  }
+
+  private agrupar(
+    items: ItemValorizacionInventarioDto[],
+    clave: (
+      item: ItemValorizacionInventarioDto,
+    ) => [number | undefined, string],
+    comparar: boolean,
+  ): SubtotalValorizacionInventarioDto[] {
+    const grupos = new Map<
+      string,
+      { id?: number; nombre: string; items: ItemValorizacionInventarioDto[] }
+    >();
+    for (const item of items) {
+      const [id, nombre] = clave(item);
+      const llave = `${id ?? ''}|${nombre}`;
+      const grupo = grupos.get(llave) ?? { id, nombre, items: [] };
+      grupo.items.push(item);
+      grupos.set(llave, grupo);
+    }
+    return [...grupos.values()]
+      .map((grupo) =>
+        this.subtotal(grupo.id, grupo.nombre, grupo.items, comparar),
+      )
+      .sort((a, b) => a.nombre.localeCompare(b.nombre));
+  }
+
+  private subtotal(
+    id: number | undefined,
+    nombre: string,
+    items: ItemValorizacionInventarioDto[],
+    comparar: boolean,
+  ): SubtotalValorizacionInventarioDto {
+    const valorTotal = this.redondearMonto(
+      items.reduce((total, item) => total + item.valorTotal, 0),
+    );
+    const subtotal: SubtotalValorizacionInventarioDto = {
+      id,
+      nombre,
+      cantidadItems: items.length,
+      valorTotal,
+    };
+    if (comparar) {
+      subtotal.valorTotalComparacion = this.redondearMonto(
+        items.reduce(
+          (total, item) => total + (item.valorTotalComparacion ?? 0),
+          0,
+        ),
+      );
+      subtotal.variacionValor = this.redondearMonto(
+        valorTotal - subtotal.valorTotalComparacion,
+      );
+    }
+    return subtotal;
+  }
+
+  private ordenar(a: Inventario, b: Inventario): number {
+    return (
+      (a.almacen?.nombre ?? '').localeCompare(b.almacen?.nombre ?? '') ||
+      (a.producto?.categoria?.nombre ?? SIN_CATEGORIA).localeCompare(
+        b.producto?.categoria?.nombre ?? SIN_CATEGORIA,
+      ) ||
+      (a.producto?.nombre ?? '').localeCompare(b.producto?.nombre ?? '')
+    );
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+
+  private redondearMonto(valor: number): number {
+    return Math.round(valor * 100) / 100;
+  }
+}
@@ -87,7 +87,18 @@ export class CreateMovimientoDetalleDto {
   @Type(() => Number)
   cantidad: number;
 
-  // costoUnitario se calcula dinámicamente basado en el método de valoración
+  /**
+   * Costo unitario según el método de valoración (opcional)
+   */
+  @ApiProperty({
+    description: 'Costo unitario valorizado del movimiento',
+    example: 25.5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'El costo unitario debe ser un número' })
+  @Type(() => Number)
+  costoUnitario?: number;
 
   /**
    * ID del lote (opcional)
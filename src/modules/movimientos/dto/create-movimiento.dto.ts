@@ -13,6 +13,7 @@ import { Type } from 'class-transformer';
 import { CreateMovimientoDetalleDto } from './create-movimiento-detalle.dto';
 import { TipoMovimiento } from '../enum/tipo-movimiento.enum';
 import { EstadoMovimiento } from '../enum/estado-movimiento.enum';
+import { MotivoMovimiento } from '../enum/motivo-movimiento.enum';
 
 /**
  * DTO para crear un nuevo movimiento de inventario
@@ -81,6 +82,30 @@ export class CreateMovimientoDto {
   @IsEnum(EstadoMovimiento, { message: 'Estado de movimiento inválido' })
   estado?: EstadoMovimiento = EstadoMovimiento.PROCESADO;
 
+  /**
+   * Motivo del movimiento (opcional)
+   */
+  @ApiProperty({
+    description: 'Motivo del movimiento',
+    enum: MotivoMovimiento,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(MotivoMovimiento, { message: 'Motivo de movimiento inválido' })
+  motivo?: MotivoMovimiento;
+
+  /**
+   * Código de la tabla 12 cuando no hay comprobante (opcional)
+   */
+  @ApiProperty({
+    description: 'Código SUNAT de la tabla 12 (tipo de operación)',
+    example: '28',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'El código de la tabla 12 debe ser texto' })
+  codigoTabla12?: string;
+
   /**
    * ID del comprobante relacionado (opcional)
    */
@@ -38,7 +38,16 @@ export class ResponseMovimientoDetalleDto {
   @Expose()
   cantidad: number;
 
-  // costoUnitario se calcula dinámicamente basado en el método de valoración
+  /**
+   * Costo unitario valorizado del movimiento
+   */
+  @ApiProperty({
+    description: 'Costo unitario valorizado del movimiento',
+    example: 25.5,
+    required: false,
+  })
+  @Expose()
+  costoUnitario?: number;
 
   /**
    * Costo total (cantidad * costo unitario)
@@ -47,6 +47,17 @@ export class MovimientoDetalle {
   })
   cantidad: number;
 
+  @Column({
+    name: 'costo_unitario',
+    type: 'decimal',
+    precision: 12,
+    scale: 4,
+    nullable: true,
+    comment:
+      'Costo unitario valorizado al registrar o recalcular el movimiento',
+  })
+  costoUnitario?: number;
+
   @CreateDateColumn({
     name: 'fecha_creacion',
     comment: 'Fecha de creación del registro',
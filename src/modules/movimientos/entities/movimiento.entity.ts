@@ -10,6 +10,7 @@ import {
 } from 'typeorm';
 import { TipoMovimiento } from '../enum/tipo-movimiento.enum';
 import { EstadoMovimiento } from '../enum/estado-movimiento.enum';
+import { MotivoMovimiento } from '../enum/motivo-movimiento.enum';
 import { Comprobante } from '../../comprobantes/entities/comprobante';
 import { MovimientoDetalle } from './movimiento-detalle.entity';
 
@@ -58,6 +59,14 @@ export class Movimiento {
   })
   codigoTabla10?: string;
 
+  @Column({
+    type: 'enum',
+    enum: MotivoMovimiento,
+    nullable: true,
+    comment: 'Motivo del movimiento (ajustes y mermas)',
+  })
+  motivo?: MotivoMovimiento;
+
   @Column({
     type: 'text',
     nullable: true,
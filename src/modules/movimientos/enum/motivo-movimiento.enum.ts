@@ -8,4 +8,6 @@ export enum MotivoMovimiento {
   AJUSTE_INVENTARIO = 'AJUSTE_INVENTARIO',
   TRANSFERENCIA = 'TRANSFERENCIA',
   MERMA = 'MERMA',
+  PRODUCCION = 'PRODUCCION',
+  CONSIGNACION = 'CONSIGNACION',
 }
@@ -7,6 +7,7 @@ import {
 import { EstadoMovimiento, TipoMovimiento } from '../enum';
 import { Injectable } from '@nestjs/common';
 import { ComprobanteDetalle } from 'src/modules/comprobantes/entities/comprobante-detalle';
+import { cantidadEnUnidadBase } from '../../productos/enum/unidad-medida-sunat';
 
 @Injectable()
 export class MovimientoFactory {
@@ -63,13 +64,14 @@ export class MovimientoFactory {
 
   /**
    * Crea los detalles de movimiento desde los detalles del comprobante
-   * Para ventas: calcula el costo unitario usando el método de costeo promedio ponderado
-   * Para compras: usa el precio unitario original del comprobante
+   * Para ventas: guarda el costo unitario calculado con el método de valoración
+   * Para compras: guarda el costo del lote creado
+   * Las cantidades se guardan en la unidad base del producto
    */
   createMovimientosDetallesFromDetallesComprobante(
     detalles: ComprobanteDetalle[],
     tipoOperacion: string,
-    _costosUnitarios: number[],
+    costosUnitarios: number[],
     precioYcantidadPorLote: {
       idLote: number;
       costoUnitarioDeLote: number;
@@ -79,7 +81,7 @@ export class MovimientoFactory {
     const movimientoDetalles: CreateMovimientoDetalleDto[] = [];
     let indiceLote = 0; // Contador para acceder a los lotes por detalle
 
-    for (const detalle of detalles) {
+    for (const [indice, detalle] of detalles.entries()) {
       // Validar que el detalle tenga inventario
       if (!detalle.inventario || !detalle.inventario.id) {
         // Inventario inválido: saltar este detalle
@@ -92,7 +94,7 @@ export class MovimientoFactory {
       if (!(op === 'COMPRA' || op.includes('ENTRADA'))) {
         // Obtener los lotes correspondientes a este detalle
         const lotesParaEsteDetalle: CreateDetalleSalidaDto[] = [];
-        let cantidadRestante = detalle.cantidad;
+        let cantidadRestante = cantidadEnUnidadBase(detalle);
 
         while (
           cantidadRestante > 0 &&
@@ -123,7 +125,8 @@ export class MovimientoFactory {
 
       const movimientoDetalle: CreateMovimientoDetalleDto = {
         idInventario: detalle.inventario.id,
-        cantidad: detalle.cantidad,
+        cantidad: cantidadEnUnidadBase(detalle),
+        costoUnitario: costosUnitarios[indice],
       };
 
       // Para compras/entradas, asignar el idLote del lote creado
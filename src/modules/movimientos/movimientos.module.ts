@@ -10,6 +10,7 @@ import { Producto } from '../productos/entities/producto.entity';
 import { Almacen } from '../almacen/entities/almacen.entity';
 import { Inventario } from '../inventario/entities';
 import { InventarioLote } from '../inventario/entities';
+import { TomaInventarioDetalle } from '../toma-inventario/entities';
 import { InventarioModule } from '../inventario/inventario.module';
 import { UserModule } from '../users/user.module';
 
@@ -27,6 +28,7 @@ import { UserModule } from '../users/user.module';
       Almacen,
       Inventario,
       InventarioLote,
+      TomaInventarioDetalle,
     ]),
     InventarioModule,
     UserModule,
@@ -13,6 +13,8 @@ import { Inventario, InventarioLote } from 'src/modules/inventario/entities';
 import { Comprobante } from 'src/modules/comprobantes/entities/comprobante';
 import { StockCalculationService } from 'src/modules/inventario/service/stock-calculation.service';
 import { StockCacheService } from 'src/modules/inventario/service/stock-cache.service';
+import { TomaInventarioDetalle } from '../../toma-inventario/entities/toma-inventario-detalle.entity';
+import { EstadoTomaInventario } from '../../toma-inventario/enum';
 
 /**
  * Repositorio para encapsular la lógica de acceso a datos de movimientos
@@ -34,6 +36,8 @@ export class MovimientosRepository {
     private readonly inventarioRepository: Repository<Inventario>,
     @InjectRepository(InventarioLote)
     private readonly inventarioLoteRepository: Repository<InventarioLote>,
+    @InjectRepository(TomaInventarioDetalle)
+    private readonly tomaInventarioDetalleRepository: Repository<TomaInventarioDetalle>,
     private readonly dataSource: DataSource,
     private readonly stockCalculationService: StockCalculationService,
     private readonly stockCacheService: StockCacheService,
@@ -57,7 +61,7 @@ export class MovimientosRepository {
     manager: EntityManager,
   ): Promise<Movimiento> {
     // Resolver códigos de Tabla 12 (tipo operación) y Tabla 10 (tipo comprobante) desde el comprobante relacionado
-    let codigoTabla12: string | undefined;
+    let codigoTabla12: string | undefined = createMovimientoDto.codigoTabla12;
     let codigoTabla10: string | undefined;
     let numeroDocumento: string | undefined =
       createMovimientoDto.numeroDocumento;
@@ -69,7 +73,7 @@ export class MovimientosRepository {
       });
 
       if (comprobante) {
-        codigoTabla12 = comprobante.tipoOperacion?.codigo;
+        codigoTabla12 = comprobante.tipoOperacion?.codigo ?? codigoTabla12;
         codigoTabla10 = comprobante.tipoComprobante?.codigo;
         if (!numeroDocumento && comprobante.serie && comprobante.numero) {
           numeroDocumento = `${comprobante.serie}-${comprobante.numero}`;
@@ -84,6 +88,7 @@ export class MovimientosRepository {
       numeroDocumento,
       observaciones: createMovimientoDto.observaciones,
       estado: createMovimientoDto.estado,
+      motivo: createMovimientoDto.motivo,
       idComprobante: createMovimientoDto.idComprobante,
       codigoTabla12,
       codigoTabla10,
@@ -99,6 +104,7 @@ export class MovimientosRepository {
         idInventario: detalle.idInventario,
         cantidad: detalle.cantidad,
         idLote: detalle.idLote,
+        costoUnitario: detalle.costoUnitario,
       });
 
       const savedDetalle = await manager.save(
@@ -462,6 +468,26 @@ export class MovimientosRepository {
     });
   }
 
+  /**
+   * Buscar la toma de inventario en curso que bloquea alguno de los inventarios
+   */
+  async findTomaEnCurso(
+    idsInventario: number[],
+  ): Promise<TomaInventarioDetalle | null> {
+    if (idsInventario.length === 0) {
+      return null;
+    }
+    return await this.tomaInventarioDetalleRepository
+      .createQueryBuilder('detalle')
+      .innerJoinAndSelect('detalle.tomaInventario', 'toma')
+      .innerJoinAndSelect('detalle.inventario', 'inventario')
+      .where('inventario.id IN (:...idsInventario)', { idsInventario })
+      .andWhere('toma.estado = :estado', {
+        estado: EstadoTomaInventario.EN_PROCESO,
+      })
+      .getOne();
+  }
+
   /**
    * Eliminar movimiento
    */
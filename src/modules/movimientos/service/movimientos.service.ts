@@ -10,6 +10,8 @@ import { CreateMovimientoDto } from '../dto/create-movimiento.dto';
 import { ResponseMovimientoDto } from '../dto/response-movimiento.dto';
 import { TipoMovimiento } from '../enum/tipo-movimiento.enum';
 import { EstadoMovimiento } from '../enum/estado-movimiento.enum';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { RecalculoKardexService } from '../../inventario/service/recalculo-kardex.service';
 
 /**
  * Servicio para la gestión de movimientos de inventario
@@ -18,7 +20,11 @@ import { EstadoMovimiento } from '../enum/estado-movimiento.enum';
 export class MovimientosService {
   private readonly logger = new Logger(MovimientosService.name);
 
-  constructor(private readonly movimientosRepository: MovimientosRepository) {}
+  constructor(
+    private readonly movimientosRepository: MovimientosRepository,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly recalculoKardexService: RecalculoKardexService,
+  ) {}
 
   /**
    * Crear un nuevo movimiento
@@ -67,9 +73,19 @@ export class MovimientosService {
       `✅ [RECALCULO-TRACE] Movimiento creado exitosamente con ID=${movimiento.id}`,
     );
 
+    // Los saldos de Kardex con corte igual o posterior a la fecha dejan de ser válidos
+    await this.kardexSaldoService.invalidarDesde(
+      createMovimientoDto.detalles.map((detalle) => detalle.idInventario),
+      new Date(createMovimientoDto.fecha),
+    );
+
     if (esMovimientoRetroactivo) {
       this.logger.log(
-        `🔄 [RECALCULO-TRACE] NOTA: El movimiento retroactivo ID=${movimiento.id} ha sido creado - El sistema debería procesar recálculo automático si está configurado`,
+        `🔄 [RECALCULO-TRACE] Recalculando salidas posteriores al movimiento retroactivo ID=${movimiento.id}`,
+      );
+      await this.recalculoKardexService.recalcularAutomatico(
+        createMovimientoDto.detalles.map((detalle) => detalle.idInventario),
+        new Date(createMovimientoDto.fecha),
       );
     }
 
@@ -129,9 +145,20 @@ export class MovimientosService {
       `✅ [RECALCULO-TRACE] Movimiento creado exitosamente con ID=${movimiento.id}`,
     );
 
+    await this.kardexSaldoService.invalidarDesde(
+      createMovimientoDto.detalles.map((detalle) => detalle.idInventario),
+      new Date(createMovimientoDto.fecha),
+      manager,
+    );
+
     if (esMovimientoRetroactivo) {
       this.logger.log(
-        `🔄 [RECALCULO-TRACE] NOTA: El movimiento retroactivo ID=${movimiento.id} ha sido creado - El sistema debería procesar recálculo automático si está configurado`,
+        `🔄 [RECALCULO-TRACE] Recalculando salidas posteriores al movimiento retroactivo ID=${movimiento.id}`,
+      );
+      await this.recalculoKardexService.recalcularAutomatico(
+        createMovimientoDto.detalles.map((detalle) => detalle.idInventario),
+        new Date(createMovimientoDto.fecha),
+        manager,
       );
     }
 
@@ -212,6 +239,14 @@ export class MovimientosService {
       id,
       estado,
     );
+
+    // Un cambio de estado altera qué movimientos entran al Kardex
+    if (movimiento.estado !== estado) {
+      await this.kardexSaldoService.invalidarDesde(
+        (movimiento.detalles || []).map((detalle) => detalle.inventario?.id),
+        new Date(movimiento.fecha),
+      );
+    }
     return this.mapToResponseDto(updatedMovimiento);
   }
 
@@ -259,6 +294,16 @@ export class MovimientosService {
    * Validar que existan los inventarios en los detalles
    */
   private async validateDetalles(detalles: any[]): Promise<void> {
+    // Los inventarios en conteo físico no admiten movimientos hasta cerrar la toma
+    const tomaEnCurso = await this.movimientosRepository.findTomaEnCurso(
+      detalles.map((detalle) => Number(detalle.idInventario)),
+    );
+    if (tomaEnCurso) {
+      throw new BadRequestException(
+        `El inventario ${tomaEnCurso.inventario.id} está bloqueado por la toma de inventario ${tomaEnCurso.tomaInventario.id} en curso`,
+      );
+    }
+
     for (const detalle of detalles) {
       // Validar inventario
       const inventario = await this.movimientosRepository.findInventarioById(
@@ -1,9 +1,10 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { PeriodoContable, ConfiguracionPeriodo } from './entities';
 import { PeriodoContableService } from './service';
 import { PeriodoContableController } from './controller';
 import { UserModule } from '../users/user.module';
+import { InventarioModule } from '../inventario/inventario.module';
 
 /**
  * Módulo de períodos contables
@@ -13,6 +14,7 @@ import { UserModule } from '../users/user.module';
   imports: [
     TypeOrmModule.forFeature([PeriodoContable, ConfiguracionPeriodo]),
     UserModule,
+    forwardRef(() => InventarioModule),
   ],
   controllers: [PeriodoContableController],
   providers: [PeriodoContableService],
@@ -3,12 +3,15 @@ import {
   NotFoundException,
   BadRequestException,
   ConflictException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { PeriodoContable } from '../entities/periodo-contable.entity';
 import { ConfiguracionPeriodo } from '../entities/configuracion-periodo.entity';
 import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
 import {
   CreatePeriodoContableDto,
   UpdatePeriodoContableDto,
@@ -27,6 +30,8 @@ export class PeriodoContableService {
     private readonly periodoRepository: Repository<PeriodoContable>,
     @InjectRepository(ConfiguracionPeriodo)
     private readonly configuracionRepository: Repository<ConfiguracionPeriodo>,
+    @Inject(forwardRef(() => KardexSaldoService))
+    private readonly kardexSaldoService: KardexSaldoService,
   ) {}
 
   /**
@@ -299,6 +304,7 @@ export class PeriodoContableService {
     }
 
     const periodoCerrado = await this.periodoRepository.save(periodo);
+    await this.guardarSaldosKardex(periodoCerrado);
     return this.mapearAResponse(periodoCerrado);
   }
 
@@ -340,6 +346,7 @@ export class PeriodoContableService {
     }
 
     const periodoCerrado = await this.periodoRepository.save(periodo);
+    await this.guardarSaldosKardex(periodoCerrado);
     return this.mapearAResponse(periodoCerrado);
   }
 
@@ -359,6 +366,7 @@ export class PeriodoContableService {
     periodo.usuarioCierre = undefined;
 
     const periodoReabierto = await this.periodoRepository.save(periodo);
+    await this.kardexSaldoService.eliminarSaldosPeriodo(periodoReabierto.id);
     return this.mapearAResponse(periodoReabierto);
   }
 
@@ -393,6 +401,7 @@ export class PeriodoContableService {
     periodo.usuarioCierre = undefined;
 
     const periodoReabierto = await this.periodoRepository.save(periodo);
+    await this.kardexSaldoService.eliminarSaldosPeriodo(periodoReabierto.id);
     return this.mapearAResponse(periodoReabierto);
   }
 
@@ -548,6 +557,18 @@ export class PeriodoContableService {
     return { permitido: true };
   }
 
+  /**
+   * Guarda el saldo de Kardex de cada inventario al cierre del período
+   * Los cálculos posteriores parten de este saldo en lugar de recorrer toda la historia
+   */
+  private async guardarSaldosKardex(periodo: PeriodoContable): Promise<void> {
+    const configuracion = await this.obtenerConfiguracion(periodo.persona.id);
+    await this.kardexSaldoService.generarSaldosPeriodo(
+      periodo,
+      configuracion.metodoCalculoCosto,
+    );
+  }
+
   /**
    * Obtener configuración de período para una persona
    */
@@ -601,8 +622,10 @@ export class PeriodoContableService {
 
   /**
    * Actualizar método de valoración en la configuración
+   * Con costo específico (ESPECIFICO) las ventas posteriores deben indicar el lote; las
+   * anteriores conservan los lotes que ya tienen asignados
    * @param personaId ID de la persona/empresa
-   * @param nuevoMetodo Nuevo método de valoración
+   * @param nuevoMetodo Nuevo método de valoración (FIFO, PROMEDIO o ESPECIFICO)
    */
   async actualizarMetodoValoracion(
     personaId: number,
@@ -0,0 +1 @@
+export { ProduccionController } from './produccion.controller';
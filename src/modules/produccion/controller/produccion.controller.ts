@@ -0,0 +1,258 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ProduccionService } from '../service';
+import {
+  CompletarOrdenProduccionDto,
+  CreateListaMaterialesDto,
+  CreateOrdenProduccionDto,
+  ResponseListaMaterialesDto,
+  ResponseOrdenProduccionDto,
+  ResponseTrazabilidadLoteDto,
+} from '../dto';
+import { EstadoOrdenProduccion } from '../enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de producción
+ * Listas de materiales, órdenes de producción y trazabilidad de lotes producidos
+ */
+@ApiTags('Producción')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/produccion')
+export class ProduccionController {
+  constructor(private readonly produccionService: ProduccionService) {}
+
+  /**
+   * Registrar o reemplazar la lista de materiales de un producto
+   */
+  @Post('listas-materiales')
+  @ApiOperation({
+    summary: 'Registrar lista de materiales',
+    description:
+      'Define los componentes y cantidades para producir un producto terminado; si ya tiene lista se reemplaza',
+  })
+  @ApiResponse({ status: 201, type: ResponseListaMaterialesDto })
+  @ApiResponse({ status: 400, description: 'Componentes inválidos' })
+  async registrarListaMateriales(
+    @Body() dto: CreateListaMaterialesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseListaMaterialesDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.registrarListaMateriales(user.personaId, dto);
+  }
+
+  /**
+   * Listar listas de materiales
+   */
+  @Get('listas-materiales')
+  @ApiOperation({ summary: 'Listar listas de materiales' })
+  @ApiResponse({ status: 200, type: [ResponseListaMaterialesDto] })
+  async listarListasMateriales(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseListaMaterialesDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.listarListasMateriales(user.personaId);
+  }
+
+  /**
+   * Obtener la lista de materiales de un producto
+   */
+  @Get('listas-materiales/:idProducto')
+  @ApiOperation({ summary: 'Obtener lista de materiales de un producto' })
+  @ApiParam({ name: 'idProducto', description: 'ID del producto terminado' })
+  @ApiResponse({ status: 200, type: ResponseListaMaterialesDto })
+  @ApiResponse({ status: 404, description: 'El producto no tiene lista' })
+  async obtenerListaMateriales(
+    @Param('idProducto', ParseIntPipe) idProducto: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseListaMaterialesDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.obtenerListaMateriales(
+      idProducto,
+      user.personaId,
+    );
+  }
+
+  /**
+   * Planificar una orden de producción
+   */
+  @Post('ordenes')
+  @ApiOperation({
+    summary: 'Planificar orden de producción',
+    description:
+      'Calcula los componentes requeridos según la lista de materiales del producto',
+  })
+  @ApiResponse({ status: 201, type: ResponseOrdenProduccionDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Producto sin lista de materiales o componentes sin inventario',
+  })
+  async planificar(
+    @Body() dto: CreateOrdenProduccionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenProduccionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.planificar(user.personaId, dto);
+  }
+
+  /**
+   * Listar órdenes de producción
+   */
+  @Get('ordenes')
+  @ApiOperation({ summary: 'Listar órdenes de producción' })
+  @ApiQuery({ name: 'estado', required: false, enum: EstadoOrdenProduccion })
+  @ApiResponse({ status: 200, type: [ResponseOrdenProduccionDto] })
+  async listar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query(
+      'estado',
+      new ParseEnumPipe(EstadoOrdenProduccion, { optional: true }),
+    )
+    estado?: EstadoOrdenProduccion,
+  ): Promise<ResponseOrdenProduccionDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.listar(user.personaId, estado);
+  }
+
+  /**
+   * Obtener una orden de producción
+   */
+  @Get('ordenes/:id')
+  @ApiOperation({ summary: 'Obtener orden de producción' })
+  @ApiParam({ name: 'id', description: 'ID de la orden de producción' })
+  @ApiResponse({ status: 200, type: ResponseOrdenProduccionDto })
+  @ApiResponse({ status: 404, description: 'Orden no encontrada' })
+  async obtener(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenProduccionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.obtener(id, user.personaId);
+  }
+
+  /**
+   * Iniciar una orden planificada
+   */
+  @Post('ordenes/:id/iniciar')
+  @ApiOperation({
+    summary: 'Iniciar orden de producción',
+    description: 'Verifica que haya stock de todos los componentes',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la orden de producción' })
+  @ApiResponse({ status: 201, type: ResponseOrdenProduccionDto })
+  @ApiResponse({
+    status: 400,
+    description: 'La orden no está planificada o falta stock',
+  })
+  async iniciar(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenProduccionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.iniciar(id, user.personaId);
+  }
+
+  /**
+   * Completar una orden en proceso
+   */
+  @Post('ordenes/:id/completar')
+  @ApiOperation({
+    summary: 'Completar orden de producción',
+    description:
+      'Registra la salida a producción de los componentes y el ingreso del producto terminado en un lote nuevo',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la orden de producción' })
+  @ApiResponse({ status: 201, type: ResponseOrdenProduccionDto })
+  @ApiResponse({ status: 400, description: 'La orden no está en proceso' })
+  async completar(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CompletarOrdenProduccionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenProduccionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.completar(id, user.personaId, dto ?? {});
+  }
+
+  /**
+   * Anular una orden no completada
+   */
+  @Post('ordenes/:id/anular')
+  @ApiOperation({ summary: 'Anular orden de producción' })
+  @ApiParam({ name: 'id', description: 'ID de la orden de producción' })
+  @ApiResponse({ status: 201, type: ResponseOrdenProduccionDto })
+  @ApiResponse({ status: 400, description: 'La orden ya está cerrada' })
+  async anular(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenProduccionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.anular(id, user.personaId);
+  }
+
+  /**
+   * Lotes de componentes consumidos por un lote producido
+   */
+  @Get('lotes/:idLote/trazabilidad')
+  @ApiOperation({
+    summary: 'Trazabilidad de un lote producido',
+    description:
+      'Indica qué lotes de componentes se consumieron para producir el lote',
+  })
+  @ApiParam({
+    name: 'idLote',
+    description: 'ID del lote de producto terminado',
+  })
+  @ApiResponse({ status: 200, type: ResponseTrazabilidadLoteDto })
+  @ApiResponse({
+    status: 404,
+    description: 'El lote no proviene de una orden de producción',
+  })
+  async trazabilidadLote(
+    @Param('idLote', ParseIntPipe) idLote: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTrazabilidadLoteDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.produccionService.trazabilidadLote(idLote, user.personaId);
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsPositive, Min } from 'class-validator';
+
+/**
+ * DTO para completar una orden de producción
+ * Los costos enviados reemplazan a los estimados al planificar
+ */
+export class CompletarOrdenProduccionDto {
+  @ApiPropertyOptional({
+    description: 'Cantidad obtenida; por defecto la planificada',
+    example: 98,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  cantidadProducida?: number;
+
+  @ApiPropertyOptional({ description: 'Costo real de mano de obra' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  costoManoObra?: number;
+
+  @ApiPropertyOptional({ description: 'Costos indirectos reales' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  costoIndirecto?: number;
+}
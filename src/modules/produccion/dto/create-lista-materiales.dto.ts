@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Componente de la receta
+ */
+export class ComponenteListaMaterialesDto {
+  @ApiProperty({ description: 'ID del producto componente', example: 21 })
+  @IsInt()
+  idProducto: number;
+
+  @ApiProperty({
+    description:
+      'Cantidad en la unidad base del componente por la cantidad base de la receta',
+    example: 0.25,
+  })
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @IsPositive()
+  cantidad: number;
+}
+
+/**
+ * DTO para registrar (o reemplazar) la lista de materiales de un producto terminado
+ */
+export class CreateListaMaterialesDto {
+  @ApiProperty({ description: 'ID del producto terminado', example: 20 })
+  @IsInt()
+  idProducto: number;
+
+  @ApiPropertyOptional({
+    description: 'Cantidad del producto terminado que rinde la receta',
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  cantidadBase?: number;
+
+  @ApiProperty({ type: [ComponenteListaMaterialesDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ComponenteListaMaterialesDto)
+  componentes: ComponenteListaMaterialesDto[];
+
+  @ApiPropertyOptional({ description: 'Observaciones de la receta' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  observaciones?: string;
+}
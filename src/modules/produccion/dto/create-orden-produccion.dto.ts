@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO para planificar una orden de producción
+ */
+export class CreateOrdenProduccionDto {
+  @ApiProperty({ description: 'ID del producto terminado', example: 20 })
+  @IsInt()
+  idProducto: number;
+
+  @ApiProperty({
+    description: 'ID del almacén donde se consumen y reciben los productos',
+    example: 1,
+  })
+  @IsInt()
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Cantidad a producir', example: 100 })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @IsPositive()
+  cantidad: number;
+
+  @ApiPropertyOptional({
+    description: 'Fecha planificada (YYYY-MM-DD); por defecto hoy',
+    example: '2024-03-15',
+  })
+  @IsOptional()
+  @IsDateString()
+  fechaPlanificada?: string;
+
+  @ApiPropertyOptional({
+    description: 'Costo de mano de obra estimado',
+    example: 120,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  costoManoObra?: number;
+
+  @ApiPropertyOptional({
+    description: 'Costos indirectos de fabricación estimados',
+    example: 35.5,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  costoIndirecto?: number;
+
+  @ApiPropertyOptional({ description: 'Observaciones de la orden' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  observaciones?: string;
+}
@@ -0,0 +1,18 @@
+export {
+  CreateListaMaterialesDto,
+  ComponenteListaMaterialesDto,
+} from './create-lista-materiales.dto';
+export { CreateOrdenProduccionDto } from './create-orden-produccion.dto';
+export { CompletarOrdenProduccionDto } from './completar-orden-produccion.dto';
+export {
+  ResponseListaMaterialesDto,
+  ResponseComponenteListaMaterialesDto,
+} from './response-lista-materiales.dto';
+export {
+  ResponseOrdenProduccionDto,
+  ResponseOrdenProduccionComponenteDto,
+} from './response-orden-produccion.dto';
+export {
+  ResponseTrazabilidadLoteDto,
+  LoteConsumidoDto,
+} from './response-trazabilidad-lote.dto';
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Componente de una lista de materiales
+ */
+export class ResponseComponenteListaMaterialesDto {
+  @ApiProperty({ description: 'ID del producto componente', example: 21 })
+  idProducto: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'HAR-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Harina 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'Unidad base del componente', example: 'KGM' })
+  unidadMedida: string;
+
+  @ApiProperty({ description: 'Cantidad por la cantidad base', example: 0.25 })
+  cantidad: number;
+}
+
+/**
+ * DTO de respuesta de una lista de materiales
+ */
+export class ResponseListaMaterialesDto {
+  @ApiProperty({ description: 'ID de la lista', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'ID del producto terminado', example: 20 })
+  idProducto: number;
+
+  @ApiProperty({ description: 'Producto terminado', example: 'Pan de molde' })
+  producto: string;
+
+  @ApiProperty({ description: 'Cantidad que rinde la receta', example: 1 })
+  cantidadBase: number;
+
+  @ApiProperty({ nullable: true })
+  observaciones: string | null;
+
+  @ApiProperty({ type: [ResponseComponenteListaMaterialesDto] })
+  componentes: ResponseComponenteListaMaterialesDto[];
+}
@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EstadoOrdenProduccion } from '../enum';
+
+/**
+ * Componente de una orden con su costo de salida
+ */
+export class ResponseOrdenProduccionComponenteDto {
+  @ApiProperty({ description: 'ID del inventario del componente', example: 31 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'HAR-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Harina 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'Cantidad requerida', example: 25 })
+  cantidadRequerida: number;
+
+  @ApiProperty({
+    description: 'Costo unitario de salida (al completar)',
+    example: 3.2,
+    nullable: true,
+  })
+  costoUnitario: number | null;
+
+  @ApiProperty({
+    description: 'Costo total del componente (al completar)',
+    example: 80,
+    nullable: true,
+  })
+  costoTotal: number | null;
+}
+
+/**
+ * DTO de respuesta de una orden de producción
+ */
+export class ResponseOrdenProduccionDto {
+  @ApiProperty({ description: 'ID de la orden', example: 1 })
+  id: number;
+
+  @ApiProperty({ enum: EstadoOrdenProduccion })
+  estado: EstadoOrdenProduccion;
+
+  @ApiProperty({ description: 'ID del inventario del producto terminado' })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Producto terminado', example: 'Pan de molde' })
+  producto: string;
+
+  @ApiProperty({ description: 'ID del almacén', example: 1 })
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Planta' })
+  almacen: string;
+
+  @ApiProperty({ description: 'Cantidad planificada', example: 100 })
+  cantidadPlanificada: number;
+
+  @ApiProperty({ description: 'Cantidad producida', nullable: true })
+  cantidadProducida: number | null;
+
+  @ApiProperty({ description: 'Fecha planificada', example: '2024-03-15' })
+  fechaPlanificada: string;
+
+  @ApiProperty({ nullable: true })
+  fechaInicio: Date | null;
+
+  @ApiProperty({ nullable: true })
+  fechaCierre: Date | null;
+
+  @ApiProperty({ description: 'Costo de mano de obra', example: 120 })
+  costoManoObra: number;
+
+  @ApiProperty({ description: 'Costos indirectos', example: 35.5 })
+  costoIndirecto: number;
+
+  @ApiProperty({ description: 'Costo de materiales', nullable: true })
+  costoMateriales: number | null;
+
+  @ApiProperty({
+    description: 'Costo unitario del producto terminado',
+    nullable: true,
+  })
+  costoUnitario: number | null;
+
+  @ApiProperty({ description: 'Lote de producto terminado', nullable: true })
+  idLote: number | null;
+
+  @ApiProperty({ nullable: true })
+  observaciones: string | null;
+
+  @ApiProperty({ type: [ResponseOrdenProduccionComponenteDto] })
+  componentes: ResponseOrdenProduccionComponenteDto[];
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Lote de un componente consumido en la producción
+ */
+export class LoteConsumidoDto {
+  @ApiProperty({ description: 'ID del inventario del componente', example: 31 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Producto componente', example: 'Harina 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'ID del lote consumido', example: 210 })
+  idLote: number;
+
+  @ApiProperty({ description: 'Número del lote', example: 'LOTE-001' })
+  numeroLote: string;
+
+  @ApiProperty({ description: 'Vencimiento del lote', nullable: true })
+  fechaVencimiento: string | null;
+
+  @ApiProperty({ description: 'Cantidad consumida', example: 25 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Costo unitario del lote', example: 3.2 })
+  costoUnitario: number;
+}
+
+/**
+ * Trazabilidad de un lote de producto terminado hacia los lotes de sus componentes
+ */
+export class ResponseTrazabilidadLoteDto {
+  @ApiProperty({ description: 'ID del lote de producto terminado' })
+  idLote: number;
+
+  @ApiProperty({ description: 'Número del lote', example: 'OP-12' })
+  numeroLote: string;
+
+  @ApiProperty({ description: 'Producto terminado', example: 'Pan de molde' })
+  producto: string;
+
+  @ApiProperty({ description: 'ID de la orden de producción', example: 12 })
+  idOrdenProduccion: number;
+
+  @ApiProperty({ description: 'Cantidad producida', example: 98 })
+  cantidadProducida: number;
+
+  @ApiProperty({ type: [LoteConsumidoDto] })
+  lotesConsumidos: LoteConsumidoDto[];
+}
@@ -0,0 +1,4 @@
+export { ListaMateriales } from './lista-materiales.entity';
+export { ListaMaterialesComponente } from './lista-materiales-componente.entity';
+export { OrdenProduccion } from './orden-produccion.entity';
+export { OrdenProduccionComponente } from './orden-produccion-componente.entity';
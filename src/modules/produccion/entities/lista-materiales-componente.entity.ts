@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Producto } from '../../productos/entities/producto.entity';
+import { ListaMateriales } from './lista-materiales.entity';
+
+/**
+ * Componente de una lista de materiales
+ */
+@Entity('lista_materiales_componente')
+@Index(['listaMateriales', 'producto'], { unique: true })
+export class ListaMaterialesComponente {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ListaMateriales, (lista) => lista.componentes, {
+    nullable: false,
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  @JoinColumn({ name: 'id_lista_materiales' })
+  listaMateriales: ListaMateriales;
+
+  /**
+   * Producto que se consume
+   */
+  @ManyToOne(() => Producto, { nullable: false, eager: true })
+  @JoinColumn({ name: 'id_producto' })
+  producto: Producto;
+
+  /**
+   * Cantidad en la unidad base del componente por `cantidadBase` del producto terminado
+   */
+  @Column('decimal', { precision: 15, scale: 6, nullable: false })
+  cantidad: number;
+}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Producto } from '../../productos/entities/producto.entity';
+import { Persona } from '../../users/entities/persona.entity';
+import { ListaMaterialesComponente } from './lista-materiales-componente.entity';
+
+/**
+ * Lista de materiales (receta) de un producto terminado
+ * Los componentes se expresan para producir `cantidadBase` unidades del producto
+ */
+@Entity('lista_materiales')
+export class ListaMateriales {
+  /**
+   * Identificador único de la lista
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Producto terminado; tiene una sola lista de materiales
+   */
+  @ManyToOne(() => Producto, { nullable: false })
+  @JoinColumn({ name: 'id_producto' })
+  producto: Producto;
+
+  /**
+   * Cantidad del producto terminado que rinde la receta
+   */
+  @Column('decimal', { precision: 15, scale: 4, default: 1 })
+  cantidadBase: number;
+
+  @Column({ type: 'text', nullable: true })
+  observaciones?: string | null;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  @OneToMany(
+    () => ListaMaterialesComponente,
+    (componente) => componente.listaMateriales,
+    { cascade: true },
+  )
+  componentes: ListaMaterialesComponente[];
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
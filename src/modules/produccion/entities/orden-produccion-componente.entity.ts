@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { OrdenProduccion } from './orden-produccion.entity';
+
+/**
+ * Componente requerido por una orden de producción
+ */
+@Entity('orden_produccion_componente')
+export class OrdenProduccionComponente {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => OrdenProduccion, (orden) => orden.componentes, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_orden_produccion' })
+  ordenProduccion: OrdenProduccion;
+
+  /**
+   * Inventario del componente en el almacén de la orden
+   */
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  cantidadRequerida: number;
+
+  /**
+   * Costo unitario con el que salió el componente
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: true })
+  costoUnitario?: number | null;
+
+  /**
+   * Detalle de la salida a producción; sus detalles de salida indican los lotes consumidos
+   */
+  @ManyToOne(() => MovimientoDetalle, { nullable: true })
+  @JoinColumn({ name: 'id_movimiento_detalle' })
+  movimientoDetalle?: MovimientoDetalle | null;
+}
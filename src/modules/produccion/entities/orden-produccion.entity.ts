@@ -0,0 +1,136 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { Movimiento } from '../../movimientos/entities/movimiento.entity';
+import { Persona } from '../../users/entities/persona.entity';
+import { EstadoOrdenProduccion } from '../enum';
+import { OrdenProduccionComponente } from './orden-produccion-componente.entity';
+
+/**
+ * Orden de producción de un producto terminado en un almacén
+ * Al completarse consume los componentes (salida a producción) e ingresa un lote del
+ * producto terminado con el costo acumulado
+ */
+@Entity('orden_produccion')
+export class OrdenProduccion {
+  /**
+   * Identificador único de la orden
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Inventario del producto terminado en el almacén de producción
+   */
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  @ManyToOne(() => Almacen, { nullable: false })
+  @JoinColumn({ name: 'id_almacen' })
+  almacen: Almacen;
+
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  cantidadPlanificada: number;
+
+  /**
+   * Cantidad realmente obtenida al completar
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: true })
+  cantidadProducida?: number | null;
+
+  @Column({
+    type: 'enum',
+    enum: EstadoOrdenProduccion,
+    default: EstadoOrdenProduccion.PLANIFICADA,
+  })
+  estado: EstadoOrdenProduccion;
+
+  @Column({ type: 'date', nullable: false })
+  fechaPlanificada: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  fechaInicio?: Date | null;
+
+  /**
+   * Momento de completado o anulación
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  fechaCierre?: Date | null;
+
+  /**
+   * Costos de conversión que se suman al de los materiales
+   */
+  @Column('decimal', { precision: 15, scale: 4, default: 0 })
+  costoManoObra: number;
+
+  @Column('decimal', { precision: 15, scale: 4, default: 0 })
+  costoIndirecto: number;
+
+  /**
+   * Costo de los componentes consumidos según el método de valoración
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: true })
+  costoMateriales?: number | null;
+
+  /**
+   * Costo unitario del lote de producto terminado
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: true })
+  costoUnitario?: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  observaciones?: string | null;
+
+  /**
+   * Lote de producto terminado generado al completar
+   */
+  @ManyToOne(() => InventarioLote, { nullable: true })
+  @JoinColumn({ name: 'id_lote' })
+  lote?: InventarioLote | null;
+
+  /**
+   * Salida a producción de los componentes (Tabla 12: 10)
+   */
+  @ManyToOne(() => Movimiento, { nullable: true })
+  @JoinColumn({ name: 'id_movimiento_salida' })
+  movimientoSalida?: Movimiento | null;
+
+  /**
+   * Entrada del producto terminado (Tabla 12: 19)
+   */
+  @ManyToOne(() => Movimiento, { nullable: true })
+  @JoinColumn({ name: 'id_movimiento_entrada' })
+  movimientoEntrada?: Movimiento | null;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Componentes requeridos, calculados de la lista de materiales al planificar
+   */
+  @OneToMany(
+    () => OrdenProduccionComponente,
+    (componente) => componente.ordenProduccion,
+    { cascade: true },
+  )
+  componentes: OrdenProduccionComponente[];
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
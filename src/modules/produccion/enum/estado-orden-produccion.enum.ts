@@ -0,0 +1,10 @@
+/**
+ * Estado de una orden de producción
+ * Los componentes se consumen y el producto terminado ingresa al COMPLETAR la orden
+ */
+export enum EstadoOrdenProduccion {
+  PLANIFICADA = 'PLANIFICADA',
+  EN_PROCESO = 'EN_PROCESO',
+  COMPLETADA = 'COMPLETADA',
+  ANULADA = 'ANULADA',
+}
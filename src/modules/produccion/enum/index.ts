@@ -0,0 +1 @@
+export { EstadoOrdenProduccion } from './estado-orden-produccion.enum';
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  ListaMateriales,
+  ListaMaterialesComponente,
+  OrdenProduccion,
+  OrdenProduccionComponente,
+} from './entities';
+import { ProduccionService } from './service';
+import { ProduccionController } from './controller';
+import { Almacen } from '../almacen/entities/almacen.entity';
+import { Producto } from '../productos/entities/producto.entity';
+import { Inventario, InventarioLote } from '../inventario/entities';
+import { InventarioModule } from '../inventario/inventario.module';
+import { MovimientosModule } from '../movimientos/movimientos.module';
+import { PeriodosModule } from '../periodos/periodos.module';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de producción
+ * Listas de materiales y órdenes que transforman componentes en producto terminado
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ListaMateriales,
+      ListaMaterialesComponente,
+      OrdenProduccion,
+      OrdenProduccionComponente,
+      Almacen,
+      Producto,
+      Inventario,
+      InventarioLote,
+    ]),
+    InventarioModule,
+    MovimientosModule,
+    PeriodosModule,
+    UserModule,
+  ],
+  controllers: [ProduccionController],
+  providers: [ProduccionService],
+  exports: [ProduccionService, TypeOrmModule],
+})
+export class ProduccionModule {}
@@ -0,0 +1 @@
+export { ProduccionService } from './produccion.service';
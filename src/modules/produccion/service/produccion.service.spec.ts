@@ -0,0 +1,192 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { ProduccionService } from './produccion.service';
+import { ListaMateriales, OrdenProduccion } from '../entities';
+import { EstadoOrdenProduccion } from '../enum';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Producto } from '../../productos/entities/producto.entity';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import { CreateMovimientoDto } from '../../movimientos/dto';
+import { MotivoMovimiento, TipoMovimiento } from '../../movimientos/enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+// El repositorio de movimientos usa rutas 'src/...' que jest no resuelve
+jest.mock('../../movimientos/repository/movimientos.repository', () => ({
+  MovimientosRepository: class {},
+}));
+
+/**
+ * Tests unitarios para ProduccionService
+ * Verifica el cálculo de requerimientos y el costeo del lote producido
+ */
+describe('ProduccionService', () => {
+  let service: ProduccionService;
+  let orden: OrdenProduccion;
+  let movimientos: CreateMovimientoDto[];
+  let findTomaEnCurso: jest.Mock;
+
+  const componente = (id: number, nombre: string, cantidad: number) => ({
+    inventario: { id, producto: { codigo: `C${id}`, nombre } },
+    cantidadRequerida: String(cantidad),
+  });
+
+  beforeEach(() => {
+    movimientos = [];
+    findTomaEnCurso = jest.fn(() => Promise.resolve(null));
+    orden = {
+      id: 5,
+      estado: EstadoOrdenProduccion.EN_PROCESO,
+      inventario: { id: 10, producto: { nombre: 'Pan' } },
+      almacen: { id: 1, nombre: 'Planta' },
+      cantidadPlanificada: '100.0000',
+      fechaPlanificada: '2024-05-02',
+      costoManoObra: '30.0000',
+      costoIndirecto: '0.0000',
+      componentes: [componente(1, 'Harina', 50), componente(2, 'Levadura', 2)],
+    } as unknown as OrdenProduccion;
+
+    const ordenRepository = {
+      findOne: jest.fn(() => Promise.resolve(orden)),
+      save: jest.fn((entidad: OrdenProduccion) => Promise.resolve(entidad)),
+    } as unknown as Repository<OrdenProduccion>;
+    const manager = {
+      create: jest.fn((_entidad: unknown, datos: object) => datos),
+      save: jest.fn((_entidad: unknown, datos: object) =>
+        Promise.resolve({ id: 77, ...datos }),
+      ),
+    } as unknown as EntityManager;
+    const dataSource = {
+      transaction: jest.fn((trabajo: (m: EntityManager) => Promise<void>) =>
+        trabajo(manager),
+      ),
+    } as unknown as DataSource;
+    const movimientosRepository = {
+      findTomaEnCurso,
+      createWithManager: jest.fn((dto: CreateMovimientoDto) => {
+        movimientos.push(dto);
+        return Promise.resolve({
+          id: movimientos.length,
+          detalles: dto.detalles.map((d, i) => ({
+            id: i + 1,
+            idInventario: d.idInventario,
+          })),
+        });
+      }),
+    } as unknown as MovimientosRepository;
+    const stockCalculationService = {
+      calcularConsumoLotes: jest.fn((id: number, cantidad: number) =>
+        Promise.resolve([{ idLote: id * 100, cantidad, costoUnitario: 2 }]),
+      ),
+      calcularCostoUnitarioVenta: jest.fn((id: number) =>
+        Promise.resolve(id === 1 ? 2 : 10),
+      ),
+    } as unknown as StockCalculationService;
+
+    service = new ProduccionService(
+      {} as Repository<ListaMateriales>,
+      ordenRepository,
+      {} as Repository<Producto>,
+      {} as Repository<Almacen>,
+      {} as Repository<Inventario>,
+      {} as Repository<InventarioLote>,
+      stockCalculationService,
+      {
+        invalidateMultipleInventarios: jest.fn(),
+      } as unknown as StockCacheService,
+      {
+        invalidarDesde: jest.fn(() => Promise.resolve()),
+      } as unknown as KardexSaldoService,
+      movimientosRepository,
+      {
+        obtenerConfiguracion: jest.fn(() =>
+          Promise.resolve({ metodoCalculoCosto: MetodoValoracion.FIFO }),
+        ),
+      } as unknown as PeriodoContableService,
+      dataSource,
+    );
+  });
+
+  describe('calcularRequerimientos', () => {
+    it('should scale components by the recipe yield', () => {
+      const lista = {
+        cantidadBase: '20.0000',
+        componentes: [
+          { producto: { id: 1 }, cantidad: '10.000000' },
+          { producto: { id: 2 }, cantidad: '0.250000' },
+        ],
+      } as unknown as ListaMateriales;
+
+      expect(service.calcularRequerimientos(lista, 100)).toEqual([
+        { idProducto: 1, cantidad: 50 },
+        { idProducto: 2, cantidad: 1.25 },
+      ]);
+    });
+  });
+
+  describe('completar', () => {
+    it('should issue components and receive a lot at the accumulated cost', async () => {
+      const resultado = await service.completar(5, 1, {
+        cantidadProducida: 80,
+        costoIndirecto: 10,
+      });
+
+      expect(movimientos).toHaveLength(2);
+      expect(movimientos[0]).toMatchObject({
+        tipo: TipoMovimiento.SALIDA,
+        motivo: MotivoMovimiento.PRODUCCION,
+        codigoTabla12: '10',
+        detalles: [
+          { idInventario: 1, cantidad: 50, costoUnitario: 2 },
+          { idInventario: 2, cantidad: 2, costoUnitario: 10 },
+        ],
+      });
+      // (50 × 2 + 2 × 10 + 30 + 10) / 80
+      expect(movimientos[1]).toMatchObject({
+        tipo: TipoMovimiento.ENTRADA,
+        codigoTabla12: '19',
+        detalles: [
+          { idInventario: 10, cantidad: 80, idLote: 77, costoUnitario: 2 },
+        ],
+      });
+      expect(resultado.estado).toBe(EstadoOrdenProduccion.COMPLETADA);
+      expect(resultado.costoMateriales).toBe(120);
+      expect(orden.componentes[0].movimientoDetalle).toMatchObject({ id: 1 });
+    });
+
+    it('should reject orders that have not started', async () => {
+      orden.estado = EstadoOrdenProduccion.PLANIFICADA;
+
+      await expect(service.completar(5, 1, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(movimientos).toHaveLength(0);
+    });
+
+    it('should not post movements while a count locks a component', async () => {
+      findTomaEnCurso.mockResolvedValue({
+        inventario: { id: 2 },
+        tomaInventario: { id: 9 },
+      });
+
+      await expect(service.completar(5, 1, {})).rejects.toThrow(
+        'bloqueado por la toma de inventario 9',
+      );
+      expect(findTomaEnCurso).toHaveBeenCalledWith([10, 1, 2]);
+      expect(movimientos).toHaveLength(0);
+    });
+
+    it('should reject orders with serialized components', async () => {
+      orden.componentes[1].inventario.producto.serializado = true;
+
+      await expect(service.completar(5, 1, {})).rejects.toThrow(
+        'Los productos con número de serie no pueden usarse en producción: Levadura',
+      );
+      expect(movimientos).toHaveLength(0);
+    });
+  });
+});
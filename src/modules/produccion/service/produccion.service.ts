@@ -0,0 +1,774 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import {
+  ListaMateriales,
+  ListaMaterialesComponente,
+  OrdenProduccion,
+  OrdenProduccionComponente,
+} from '../entities';
+import { EstadoOrdenProduccion } from '../enum';
+import {
+  CompletarOrdenProduccionDto,
+  CreateListaMaterialesDto,
+  CreateOrdenProduccionDto,
+  ResponseListaMaterialesDto,
+  ResponseOrdenProduccionDto,
+  ResponseTrazabilidadLoteDto,
+} from '../dto';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Producto } from '../../productos/entities/producto.entity';
+import { TipoProducto } from '../../productos/enum/tipo-producto.enum';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import {
+  EstadoMovimiento,
+  MotivoMovimiento,
+  TipoMovimiento,
+} from '../../movimientos/enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Códigos SUNAT (tabla 12) de la salida a producción y la entrada de producción
+ */
+const CODIGO_SALIDA_PRODUCCION = '10';
+const CODIGO_ENTRADA_PRODUCCION = '19';
+
+/**
+ * Servicio de producción
+ * Mantiene las listas de materiales y ejecuta las órdenes: consume los componentes con el
+ * método de valoración de la empresa e ingresa el producto terminado con el costo acumulado
+ */
+@Injectable()
+export class ProduccionService {
+  private readonly logger = new Logger(ProduccionService.name);
+
+  constructor(
+    @InjectRepository(ListaMateriales)
+    private readonly listaMaterialesRepository: Repository<ListaMateriales>,
+    @InjectRepository(OrdenProduccion)
+    private readonly ordenRepository: Repository<OrdenProduccion>,
+    @InjectRepository(Producto)
+    private readonly productoRepository: Repository<Producto>,
+    @InjectRepository(Almacen)
+    private readonly almacenRepository: Repository<Almacen>,
+    @InjectRepository(Inventario)
+    private readonly inventarioRepository: Repository<Inventario>,
+    @InjectRepository(InventarioLote)
+    private readonly loteRepository: Repository<InventarioLote>,
+    private readonly stockCalculationService: StockCalculationService,
+    private readonly stockCacheService: StockCacheService,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly movimientosRepository: MovimientosRepository,
+    private readonly periodoContableService: PeriodoContableService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Registra la lista de materiales de un producto terminado; si ya existe la reemplaza
+   * @param personaId - ID de la empresa
+   * @param dto - Producto, rendimiento y componentes
+   */
+  async registrarListaMateriales(
+    personaId: number,
+    dto: CreateListaMaterialesDto,
+  ): Promise<ResponseListaMaterialesDto> {
+    const producto = await this.buscarProducto(dto.idProducto, personaId);
+    const ids = dto.componentes.map((componente) => componente.idProducto);
+    if (ids.includes(producto.id)) {
+      throw new BadRequestException(
+        'El producto terminado no puede ser componente de su propia lista',
+      );
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException(
+        'Cada componente debe aparecer una sola vez en la lista',
+      );
+    }
+
+    const componentes = await this.productoRepository.find({
+      where: { id: In(ids), persona: { id: personaId } },
+    });
+    const faltantes = ids.filter(
+      (id) => !componentes.some((componente) => componente.id === id),
+    );
+    if (faltantes.length > 0) {
+      throw new NotFoundException(
+        `Productos componentes no encontrados: ${faltantes.join(', ')}`,
+      );
+    }
+    const servicios = componentes.filter(
+      (componente) => componente.tipo === TipoProducto.SERVICIO,
+    );
+    if (servicios.length > 0) {
+      throw new BadRequestException(
+        `Los servicios no pueden ser componentes: ${servicios.map((s) => s.nombre).join(', ')}`,
+      );
+    }
+    this.validarSinSeries([producto, ...componentes]);
+
+    const lista =
+      (await this.listaMaterialesRepository.findOne({
+        where: { producto: { id: producto.id }, persona: { id: personaId } },
+        relations: ['componentes'],
+      })) ??
+      this.listaMaterialesRepository.create({
+        producto,
+        persona: { id: personaId },
+      });
+    lista.cantidadBase = dto.cantidadBase ?? 1;
+    lista.observaciones = dto.observaciones ?? null;
+    lista.componentes = dto.componentes.map((componente) =>
+      this.listaMaterialesRepository.manager.create(ListaMaterialesComponente, {
+        producto: componentes.find((p) => p.id === componente.idProducto),
+        cantidad: componente.cantidad,
+      }),
+    );
+
+    const guardada = await this.listaMaterialesRepository.save(lista);
+    return this.obtenerListaMateriales(producto.id, personaId, guardada.id);
+  }
+
+  /**
+   * Lista las listas de materiales de la empresa
+   * @param personaId - ID de la empresa
+   */
+  async listarListasMateriales(
+    personaId: number,
+  ): Promise<ResponseListaMaterialesDto[]> {
+    const listas = await this.listaMaterialesRepository.find({
+      where: { persona: { id: personaId } },
+      relations: ['producto', 'componentes'],
+      order: { id: 'ASC' },
+    });
+    return listas.map((lista) => this.mapearLista(lista));
+  }
+
+  /**
+   * Obtiene la lista de materiales de un producto terminado
+   * @param idProducto - ID del producto terminado
+   * @param personaId - ID de la empresa
+   */
+  async obtenerListaMateriales(
+    idProducto: number,
+    personaId: number,
+    idLista?: number,
+  ): Promise<ResponseListaMaterialesDto> {
+    const lista = await this.listaMaterialesRepository.findOne({
+      where: {
+        ...(idLista ? { id: idLista } : {}),
+        producto: { id: idProducto },
+        persona: { id: personaId },
+      },
+      relations: ['producto', 'componentes'],
+    });
+    if (!lista) {
+      throw new NotFoundException(
+        `El producto ${idProducto} no tiene lista de materiales`,
+      );
+    }
+    return this.mapearLista(lista);
+  }
+
+  /**
+   * Planifica una orden: calcula los componentes requeridos a partir de la lista de materiales
+   * Los componentes deben tener inventario en el almacén; el del producto terminado se crea
+   * si no existe
+   * @param personaId - ID de la empresa
+   * @param dto - Producto, almacén, cantidad y costos estimados
+   */
+  async planificar(
+    personaId: number,
+    dto: CreateOrdenProduccionDto,
+  ): Promise<ResponseOrdenProduccionDto> {
+    const lista = await this.listaMaterialesRepository.findOne({
+      where: { producto: { id: dto.idProducto }, persona: { id: personaId } },
+      relations: ['producto', 'componentes'],
+    });
+    if (!lista) {
+      throw new BadRequestException(
+        `El producto ${dto.idProducto} no tiene lista de materiales`,
+      );
+    }
+    const almacen = await this.almacenRepository.findOne({
+      where: { id: dto.idAlmacen, persona: { id: personaId } },
+    });
+    if (!almacen) {
+      throw new NotFoundException(
+        `Almacén con ID ${dto.idAlmacen} no encontrado`,
+      );
+    }
+
+    const inventarios = await this.inventarioRepository.find({
+      where: {
+        almacen: { id: almacen.id },
+        producto: {
+          id: In(lista.componentes.map((componente) => componente.producto.id)),
+        },
+      },
+    });
+    const sinInventario = lista.componentes.filter(
+      (componente) =>
+        !inventarios.some(
+          (inventario) => inventario.producto.id === componente.producto.id,
+        ),
+    );
+    if (sinInventario.length > 0) {
+      throw new BadRequestException(
+        `Componentes sin inventario en el almacén ${almacen.nombre}: ${sinInventario.map((c) => c.producto.nombre).join(', ')}`,
+      );
+    }
+
+    const inventarioTerminado =
+      (await this.inventarioRepository.findOne({
+        where: {
+          almacen: { id: almacen.id },
+          producto: { id: dto.idProducto },
+        },
+      })) ??
+      (await this.inventarioRepository.save(
+        this.inventarioRepository.create({ almacen, producto: lista.producto }),
+      ));
+
+    const orden = this.ordenRepository.create({
+      inventario: inventarioTerminado,
+      almacen,
+      persona: { id: personaId },
+      cantidadPlanificada: dto.cantidad,
+      estado: EstadoOrdenProduccion.PLANIFICADA,
+      fechaPlanificada: dto.fechaPlanificada
+        ? new Date(`${dto.fechaPlanificada.slice(0, 10)}T00:00:00`)
+        : new Date(),
+      costoManoObra: dto.costoManoObra ?? 0,
+      costoIndirecto: dto.costoIndirecto ?? 0,
+      observaciones: dto.observaciones ?? null,
+      componentes: this.calcularRequerimientos(lista, dto.cantidad).map(
+        ({ idProducto, cantidad }) =>
+          this.ordenRepository.manager.create(OrdenProduccionComponente, {
+            inventario: inventarios.find(
+              (inventario) => inventario.producto.id === idProducto,
+            ),
+            cantidadRequerida: cantidad,
+          }),
+      ),
+    });
+    const guardada = await this.ordenRepository.save(orden);
+    return this.obtener(guardada.id, personaId);
+  }
+
+  /**
+   * Cantidad de cada componente para producir `cantidad` unidades del producto terminado
+   * @param lista - Lista de materiales con sus componentes
+   * @param cantidad - Cantidad a producir
+   */
+  calcularRequerimientos(
+    lista: Pick<ListaMateriales, 'cantidadBase' | 'componentes'>,
+    cantidad: number,
+  ): { idProducto: number; cantidad: number }[] {
+    const factor = cantidad / (Number(lista.cantidadBase) || 1);
+    return lista.componentes.map((componente) => ({
+      idProducto: componente.producto.id,
+      cantidad: this.redondear(Number(componente.cantidad) * factor),
+    }));
+  }
+
+  /**
+   * Lista las órdenes de producción de la empresa, las más recientes primero
+   * @param personaId - ID de la empresa
+   * @param estado - Estado (opcional)
+   */
+  async listar(
+    personaId: number,
+    estado?: EstadoOrdenProduccion,
+  ): Promise<ResponseOrdenProduccionDto[]> {
+    const ordenes = await this.ordenRepository.find({
+      where: { persona: { id: personaId }, ...(estado ? { estado } : {}) },
+      relations: [
+        'inventario',
+        'almacen',
+        'lote',
+        'componentes',
+        'componentes.inventario',
+      ],
+      order: { fechaCreacion: 'DESC', id: 'DESC' },
+    });
+    return ordenes.map((orden) => this.mapearOrden(orden));
+  }
+
+  /**
+   * Obtiene una orden de producción
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   */
+  async obtener(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseOrdenProduccionDto> {
+    return this.mapearOrden(await this.buscarOrden(id, personaId));
+  }
+
+  /**
+   * Inicia la orden si hay stock suficiente de todos los componentes
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   */
+  async iniciar(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseOrdenProduccionDto> {
+    const orden = await this.buscarOrden(id, personaId);
+    this.validarEstado(orden, [EstadoOrdenProduccion.PLANIFICADA]);
+
+    const insuficientes: string[] = [];
+    for (const componente of orden.componentes) {
+      const stock = await this.stockCalculationService.calcularStockInventario(
+        componente.inventario.id,
+      );
+      const disponible = stock?.stockActual ?? 0;
+      if (disponible < Number(componente.cantidadRequerida)) {
+        insuficientes.push(
+          `${componente.inventario.producto.nombre} (disponible ${disponible}, requerido ${Number(componente.cantidadRequerida)})`,
+        );
+      }
+    }
+    if (insuficientes.length > 0) {
+      throw new BadRequestException(
+        `Stock insuficiente para iniciar la orden ${id}: ${insuficientes.join('; ')}`,
+      );
+    }
+
+    orden.estado = EstadoOrdenProduccion.EN_PROCESO;
+    orden.fechaInicio = new Date();
+    await this.ordenRepository.save(orden);
+    return this.mapearOrden(orden);
+  }
+
+  /**
+   * Completa la orden: registra la salida a producción de los componentes y el ingreso de un
+   * lote del producto terminado valorizado con materiales, mano de obra e indirectos
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   * @param dto - Cantidad obtenida y costos reales
+   */
+  async completar(
+    id: number,
+    personaId: number,
+    dto: CompletarOrdenProduccionDto,
+  ): Promise<ResponseOrdenProduccionDto> {
+    const orden = await this.buscarOrden(id, personaId);
+    this.validarEstado(orden, [EstadoOrdenProduccion.EN_PROCESO]);
+    this.validarSinSeries([
+      orden.inventario.producto,
+      ...orden.componentes.map((componente) => componente.inventario.producto),
+    ]);
+
+    const configuracion =
+      await this.periodoContableService.obtenerConfiguracion(personaId);
+    const fecha = new Date();
+    const cantidadProducida =
+      dto.cantidadProducida ?? Number(orden.cantidadPlanificada);
+    const afectados = [
+      Number(orden.inventario.id),
+      ...orden.componentes.map((componente) =>
+        Number(componente.inventario.id),
+      ),
+    ];
+
+    // Los inventarios en conteo físico no admiten movimientos hasta cerrar la toma
+    const tomaEnCurso =
+      await this.movimientosRepository.findTomaEnCurso(afectados);
+    if (tomaEnCurso) {
+      throw new BadRequestException(
+        `El inventario ${tomaEnCurso.inventario.id} está bloqueado por la toma de inventario ${tomaEnCurso.tomaInventario.id} en curso`,
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const costoMateriales = await this.registrarSalidaComponentes(
+        orden,
+        fecha,
+        configuracion.metodoCalculoCosto,
+        manager,
+      );
+
+      orden.costoManoObra = dto.costoManoObra ?? Number(orden.costoManoObra);
+      orden.costoIndirecto = dto.costoIndirecto ?? Number(orden.costoIndirecto);
+      orden.costoMateriales = this.redondear(costoMateriales);
+      orden.costoUnitario = this.redondear(
+        (costoMateriales +
+          Number(orden.costoManoObra) +
+          Number(orden.costoIndirecto)) /
+          cantidadProducida,
+      );
+      orden.cantidadProducida = cantidadProducida;
+
+      await this.registrarEntradaTerminado(orden, fecha, manager);
+
+      orden.estado = EstadoOrdenProduccion.COMPLETADA;
+      orden.fechaCierre = fecha;
+      await manager.save(OrdenProduccion, orden);
+      await this.kardexSaldoService.invalidarDesde(afectados, fecha, manager);
+    });
+
+    this.stockCacheService.invalidateMultipleInventarios(afectados);
+    this.logger.log(
+      `Orden de producción ${id} completada: ${cantidadProducida} unidades a ${orden.costoUnitario}`,
+    );
+    return this.obtener(id, personaId);
+  }
+
+  /**
+   * Anula una orden planificada o en proceso; no registra movimientos
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   */
+  async anular(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseOrdenProduccionDto> {
+    const orden = await this.buscarOrden(id, personaId);
+    this.validarEstado(orden, [
+      EstadoOrdenProduccion.PLANIFICADA,
+      EstadoOrdenProduccion.EN_PROCESO,
+    ]);
+
+    orden.estado = EstadoOrdenProduccion.ANULADA;
+    orden.fechaCierre = new Date();
+    await this.ordenRepository.save(orden);
+    return this.mapearOrden(orden);
+  }
+
+  /**
+   * Lotes de componentes consumidos para producir un lote de producto terminado
+   * @param idLote - ID del lote de producto terminado
+   * @param personaId - ID de la empresa
+   */
+  async trazabilidadLote(
+    idLote: number,
+    personaId: number,
+  ): Promise<ResponseTrazabilidadLoteDto> {
+    const orden = await this.ordenRepository.findOne({
+      where: { lote: { id: idLote }, persona: { id: personaId } },
+      relations: [
+        'inventario',
+        'lote',
+        'componentes',
+        'componentes.inventario',
+        'componentes.movimientoDetalle',
+        'componentes.movimientoDetalle.detallesSalida',
+      ],
+    });
+    if (!orden || !orden.lote) {
+      throw new NotFoundException(
+        `El lote ${idLote} no proviene de una orden de producción`,
+      );
+    }
+
+    const consumos = orden.componentes.flatMap((componente) =>
+      (componente.movimientoDetalle?.detallesSalida || []).map((salida) => ({
+        componente,
+        salida,
+      })),
+    );
+    const lotes = consumos.length
+      ? await this.loteRepository.find({
+          where: { id: In(consumos.map(({ salida }) => salida.idLote)) },
+        })
+      : [];
+
+    return {
+      idLote: Number(orden.lote.id),
+      numeroLote: orden.lote.numeroLote ?? '',
+      producto: orden.inventario.producto.nombre,
+      idOrdenProduccion: orden.id,
+      cantidadProducida: Number(orden.cantidadProducida),
+      lotesConsumidos: consumos.map(({ componente, salida }) => {
+        const lote = lotes.find((l) => Number(l.id) === Number(salida.idLote));
+        return {
+          idInventario: Number(componente.inventario.id),
+          producto: componente.inventario.producto.nombre,
+          idLote: Number(salida.idLote),
+          numeroLote: lote?.numeroLote ?? '',
+          fechaVencimiento: lote?.fechaVencimiento
+            ? this.aFecha(lote.fechaVencimiento)
+            : null,
+          cantidad: Number(salida.cantidad),
+          costoUnitario: Number(salida.costoUnitarioDeLote),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Salida a producción de todos los componentes; devuelve el costo total de materiales
+   */
+  private async registrarSalidaComponentes(
+    orden: OrdenProduccion,
+    fecha: Date,
+    metodoValoracion: MetodoValoracion,
+    manager: EntityManager,
+  ): Promise<number> {
+    const detalles: {
+      componente: OrdenProduccionComponente;
+      cantidad: number;
+      costoUnitario: number;
+      consumo: { idLote: number; cantidad: number; costoUnitario: number }[];
+    }[] = [];
+
+    for (const componente of orden.componentes) {
+      const idInventario = Number(componente.inventario.id);
+      const cantidad = Number(componente.cantidadRequerida);
+      const consumo = await this.stockCalculationService.calcularConsumoLotes(
+        idInventario,
+        cantidad,
+        fecha,
+      );
+      const costoUnitario =
+        metodoValoracion === MetodoValoracion.ESPECIFICO
+          ? this.stockCalculationService.calcularCostoConsumo(consumo)
+          : await this.stockCalculationService.calcularCostoUnitarioVenta(
+              idInventario,
+              cantidad,
+              metodoValoracion,
+              fecha,
+            );
+      detalles.push({
+        componente,
+        cantidad,
+        costoUnitario: this.redondear(costoUnitario),
+        consumo,
+      });
+    }
+
+    const movimiento = await this.movimientosRepository.createWithManager(
+      {
+        tipo: TipoMovimiento.SALIDA,
+        motivo: MotivoMovimiento.PRODUCCION,
+        codigoTabla12: CODIGO_SALIDA_PRODUCCION,
+        fecha,
+        numeroDocumento: `OP-${orden.id}`,
+        observaciones: `Salida a producción de la orden ${orden.id}`,
+        estado: EstadoMovimiento.PROCESADO,
+        detalles: detalles.map((detalle) => ({
+          idInventario: Number(detalle.componente.inventario.id),
+          cantidad: detalle.cantidad,
+          costoUnitario: detalle.costoUnitario,
+          detallesSalida: detalle.consumo.map((lote) => ({
+            idLote: lote.idLote,
+            costoUnitarioDeLote: lote.costoUnitario,
+            cantidad: lote.cantidad,
+          })),
+        })),
+      },
+      manager,
+    );
+
+    orden.movimientoSalida = movimiento;
+    for (const detalle of detalles) {
+      detalle.componente.costoUnitario = detalle.costoUnitario;
+      detalle.componente.movimientoDetalle =
+        movimiento.detalles.find(
+          (md) =>
+            Number(md.idInventario) ===
+            Number(detalle.componente.inventario.id),
+        ) ?? null;
+    }
+    await manager.save(OrdenProduccionComponente, orden.componentes);
+
+    return detalles.reduce(
+      (total, detalle) => total + detalle.cantidad * detalle.costoUnitario,
+      0,
+    );
+  }
+
+  /**
+   * Ingreso del producto terminado como un lote nuevo al costo de la orden
+   */
+  private async registrarEntradaTerminado(
+    orden: OrdenProduccion,
+    fecha: Date,
+    manager: EntityManager,
+  ): Promise<void> {
+    const lote = await manager.save(
+      InventarioLote,
+      manager.create(InventarioLote, {
+        inventario: orden.inventario,
+        numeroLote: `OP-${orden.id}`,
+        cantidadInicial: 0,
+        costoUnitario: Number(orden.costoUnitario),
+        fechaIngreso: fecha,
+        observaciones: `Producción de la orden ${orden.id}`,
+      }),
+    );
+
+    orden.lote = lote;
+    orden.movimientoEntrada =
+      await this.movimientosRepository.createWithManager(
+        {
+          tipo: TipoMovimiento.ENTRADA,
+          motivo: MotivoMovimiento.PRODUCCION,
+          codigoTabla12: CODIGO_ENTRADA_PRODUCCION,
+          fecha,
+          numeroDocumento: `OP-${orden.id}`,
+          observaciones: `Entrada de producción de la orden ${orden.id}`,
+          estado: EstadoMovimiento.PROCESADO,
+          detalles: [
+            {
+              idInventario: Number(orden.inventario.id),
+              cantidad: Number(orden.cantidadProducida),
+              idLote: Number(lote.id),
+              costoUnitario: Number(orden.costoUnitario),
+            },
+          ],
+        },
+        manager,
+      );
+  }
+
+  private async buscarProducto(
+    idProducto: number,
+    personaId: number,
+  ): Promise<Producto> {
+    const producto = await this.productoRepository.findOne({
+      where: { id: idProducto, persona: { id: personaId } },
+    });
+    if (!producto) {
+      throw new NotFoundException(
+        `Producto con ID ${idProducto} no encontrado`,
+      );
+    }
+    if (producto.tipo === TipoProducto.SERVICIO) {
+      throw new BadRequestException(
+        `El servicio ${producto.nombre} no puede producirse`,
+      );
+    }
+    return producto;
+  }
+
+  private async buscarOrden(
+    id: number,
+    personaId: number,
+  ): Promise<OrdenProduccion> {
+    const orden = await this.ordenRepository.findOne({
+      where: { id, persona: { id: personaId } },
+      relations: [
+        'inventario',
+        'almacen',
+        'lote',
+        'componentes',
+        'componentes.inventario',
+      ],
+    });
+    if (!orden) {
+      throw new NotFoundException(
+        `Orden de producción con ID ${id} no encontrada`,
+      );
+    }
+    return orden;
+  }
+
+  /**
+   * La producción no registra números de serie: el terminado quedaría sin unidades que
+   * vender y los componentes seguirían disponibles
+   */
+  private validarSinSeries(productos: Producto[]): void {
+    const serializados = productos.filter((producto) => producto?.serializado);
+    if (serializados.length > 0) {
+      throw new BadRequestException(
+        `Los productos con número de serie no pueden usarse en producción: ${serializados.map((producto) => producto.nombre).join(', ')}`,
+      );
+    }
+  }
+
+  private validarEstado(
+    orden: OrdenProduccion,
+    permitidos: EstadoOrdenProduccion[],
+  ): void {
+    if (!permitidos.includes(orden.estado)) {
+      throw new BadRequestException(
+        `La orden de producción ${orden.id} está ${orden.estado.toLowerCase()}`,
+      );
+    }
+  }
+
+  private mapearLista(lista: ListaMateriales): ResponseListaMaterialesDto {
+    return {
+      id: lista.id,
+      idProducto: lista.producto.id,
+      producto: lista.producto.nombre,
+      cantidadBase: Number(lista.cantidadBase),
+      observaciones: lista.observaciones ?? null,
+      componentes: (lista.componentes || []).map((componente) => ({
+        idProducto: componente.producto.id,
+        codigoProducto: componente.producto.codigo,
+        producto: componente.producto.nombre,
+        unidadMedida: componente.producto.unidadMedida,
+        cantidad: Number(componente.cantidad),
+      })),
+    };
+  }
+
+  private mapearOrden(orden: OrdenProduccion): ResponseOrdenProduccionDto {
+    const completada = orden.estado === EstadoOrdenProduccion.COMPLETADA;
+    return {
+      id: orden.id,
+      estado: orden.estado,
+      idInventario: Number(orden.inventario.id),
+      producto: orden.inventario.producto.nombre,
+      idAlmacen: orden.almacen.id,
+      almacen: orden.almacen.nombre,
+      cantidadPlanificada: Number(orden.cantidadPlanificada),
+      cantidadProducida: completada ? Number(orden.cantidadProducida) : null,
+      fechaPlanificada: this.aFecha(orden.fechaPlanificada),
+      fechaInicio: orden.fechaInicio ?? null,
+      fechaCierre: orden.fechaCierre ?? null,
+      costoManoObra: Number(orden.costoManoObra),
+      costoIndirecto: Number(orden.costoIndirecto),
+      costoMateriales: completada ? Number(orden.costoMateriales) : null,
+      costoUnitario: completada ? Number(orden.costoUnitario) : null,
+      idLote: orden.lote ? Number(orden.lote.id) : null,
+      observaciones: orden.observaciones ?? null,
+      componentes: (orden.componentes || []).map((componente) => {
+        const costoUnitario = completada
+          ? Number(componente.costoUnitario)
+          : null;
+        return {
+          idInventario: Number(componente.inventario.id),
+          codigoProducto: componente.inventario.producto.codigo,
+          producto: componente.inventario.producto.nombre,
+          cantidadRequerida: Number(componente.cantidadRequerida),
+          costoUnitario,
+          costoTotal:
+            costoUnitario === null
+              ? null
+              : this.redondear(
+                  costoUnitario * Number(componente.cantidadRequerida),
+                ),
+        };
+      }),
+    };
+  }
+
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+}
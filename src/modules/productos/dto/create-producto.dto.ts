@@ -9,9 +9,14 @@ import {
   MinLength,
   Min,
   IsEnum,
+  IsArray,
+  ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { TipoProducto } from '../enum/tipo-producto.enum';
+import { TipoExistencia } from '../enum/tipo-existencia.enum';
+import { EstrategiaConsumo } from '../enum/estrategia-consumo.enum';
+import { ProductoUnidadDto } from './producto-unidad.dto';
 
 /**
  * DTO para crear un nuevo producto
@@ -57,6 +62,46 @@ export class CreateProductoDto {
   @IsEnum(TipoProducto)
   tipo: TipoProducto;
 
+  /**
+   * Tipo de existencia según Tabla 5 de SUNAT (opcional, por defecto mercaderías)
+   */
+  @ApiProperty({
+    description: 'Tipo de existencia (Tabla 5 SUNAT)',
+    enum: TipoExistencia,
+    example: TipoExistencia.MERCADERIAS,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TipoExistencia)
+  tipoExistencia?: TipoExistencia;
+
+  /**
+   * Orden de despacho de lotes (opcional, por defecto el de la categoría)
+   */
+  @ApiProperty({
+    description:
+      'Estrategia de consumo de lotes: FIFO (fecha de ingreso) o FEFO (fecha de vencimiento)',
+    enum: EstrategiaConsumo,
+    example: EstrategiaConsumo.FEFO,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(EstrategiaConsumo)
+  estrategiaConsumo?: EstrategiaConsumo;
+
+  /**
+   * Control por número de serie (opcional, por defecto no)
+   */
+  @ApiProperty({
+    description:
+      'Si es true, compras, ventas y transferencias deben indicar el número de serie de cada unidad',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  serializado?: boolean;
+
   /**
    * Descripción del producto
    */
@@ -72,11 +117,12 @@ export class CreateProductoDto {
   descripcion: string;
 
   /**
-   * Unidad de medida del producto
+   * Unidad de medida base del producto
    */
   @ApiProperty({
-    description: 'Unidad de medida del producto',
-    example: 'unidad',
+    description:
+      'Unidad de medida base (código o alias de la Tabla 6 SUNAT); se guarda como código',
+    example: 'NIU',
     maxLength: 50,
   })
   @IsString()
@@ -85,6 +131,22 @@ export class CreateProductoDto {
   })
   unidadMedida: string;
 
+  /**
+   * Unidades alternativas de compra y venta (opcional)
+   */
+  @ApiProperty({
+    description:
+      'Unidades alternativas con su factor a la unidad base; al actualizar reemplazan a las existentes',
+    type: [ProductoUnidadDto],
+    required: false,
+    example: [{ unidadMedida: 'BX', factor: 12 }],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProductoUnidadDto)
+  unidades?: ProductoUnidadDto[];
+
   /**
    * Código único del producto (opcional)
    */
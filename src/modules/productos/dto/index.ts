@@ -2,3 +2,7 @@
 export { CreateProductoDto } from './create-producto.dto';
 export { UpdateProductoDto } from './update-producto.dto';
 export { ResponseProductoDto } from './response-producto.dto';
+export {
+  ProductoUnidadDto,
+  ResponseProductoUnidadDto,
+} from './producto-unidad.dto';
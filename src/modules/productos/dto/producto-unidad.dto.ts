@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsPositive, IsString, MaxLength } from 'class-validator';
+import { Expose, Transform, Type } from 'class-transformer';
+
+/**
+ * Unidad alternativa de compra o venta de un producto
+ */
+export class ProductoUnidadDto {
+  @ApiProperty({
+    description: 'Unidad de medida (código o alias de la Tabla 6 SUNAT)',
+    example: 'BX',
+  })
+  @IsString()
+  @MaxLength(10, {
+    message: 'La unidad de medida no puede exceder 10 caracteres',
+  })
+  unidadMedida: string;
+
+  @ApiProperty({
+    description: 'Cantidad de unidades base que contiene esta unidad',
+    example: 12,
+  })
+  @IsNumber({}, { message: 'El factor de conversión debe ser un número' })
+  @IsPositive({ message: 'El factor de conversión debe ser positivo' })
+  @Type(() => Number)
+  factor: number;
+}
+
+/**
+ * Unidad alternativa de un producto en las respuestas
+ */
+export class ResponseProductoUnidadDto {
+  @ApiProperty({ description: 'Código Tabla 6 SUNAT', example: 'BX' })
+  @Expose()
+  unidadMedida: string;
+
+  @ApiProperty({ description: 'Unidades base por unidad', example: 12 })
+  @Expose()
+  @Transform(({ value }) => Number(value))
+  factor: number;
+}
@@ -2,6 +2,9 @@ import { ApiProperty } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
 import { ResponseCategoriaDto } from 'src/modules/categoria/dto';
 import { TipoProducto } from '../enum/tipo-producto.enum';
+import { TipoExistencia } from '../enum/tipo-existencia.enum';
+import { EstrategiaConsumo } from '../enum/estrategia-consumo.enum';
+import { ResponseProductoUnidadDto } from './producto-unidad.dto';
 
 /**
  * DTO de respuesta para producto
@@ -40,6 +43,35 @@ export class ResponseProductoDto {
   @Expose()
   tipo: TipoProducto;
 
+  /**
+   * Tipo de existencia según Tabla 5 de SUNAT
+   */
+  @ApiProperty({
+    description: 'Tipo de existencia (Tabla 5 SUNAT)',
+    enum: TipoExistencia,
+    example: TipoExistencia.MERCADERIAS,
+  })
+  @Expose()
+  tipoExistencia: TipoExistencia;
+
+  /**
+   * Estrategia de consumo de lotes propia del producto
+   */
+  @ApiProperty({
+    description: 'Estrategia de consumo de lotes (nulo: la de la categoría)',
+    enum: EstrategiaConsumo,
+    required: false,
+  })
+  @Expose()
+  estrategiaConsumo?: EstrategiaConsumo | null;
+
+  /**
+   * Si el producto se controla por número de serie
+   */
+  @ApiProperty({ description: 'Control por número de serie', example: false })
+  @Expose()
+  serializado: boolean;
+
   /**
    * Descripción del producto
    */
@@ -54,12 +86,24 @@ export class ResponseProductoDto {
    * Unidad de medida del producto
    */
   @ApiProperty({
-    description: 'Unidad de medida del producto',
-    example: 'unidad',
+    description: 'Unidad de medida base del producto (Tabla 6 SUNAT)',
+    example: 'NIU',
   })
   @Expose()
   unidadMedida: string;
 
+  /**
+   * Unidades alternativas del producto
+   */
+  @ApiProperty({
+    description: 'Unidades alternativas con su factor a la unidad base',
+    type: [ResponseProductoUnidadDto],
+    required: false,
+  })
+  @Expose()
+  @Type(() => ResponseProductoUnidadDto)
+  unidades?: ResponseProductoUnidadDto[];
+
   /**
    * Código único del producto
    */
@@ -1 +1,2 @@
 export { Producto } from './producto.entity';
+export { ProductoUnidad } from './producto-unidad.entity';
@@ -0,0 +1,40 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Producto } from './producto.entity';
+
+/**
+ * Unidad alternativa de un producto y su equivalencia en la unidad base
+ * Ejemplo: CAJA (BX) con factor 12 cuando la unidad base del producto es NIU
+ */
+@Entity({ name: 'producto_unidad' })
+@Index(['producto', 'unidadMedida'], { unique: true })
+export class ProductoUnidad {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Producto, (producto) => producto.unidades, {
+    nullable: false,
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  @JoinColumn({ name: 'id_producto' })
+  producto: Producto;
+
+  /**
+   * Código de la unidad según la Tabla 6 de SUNAT
+   */
+  @Column({ length: 10, nullable: false })
+  unidadMedida: string;
+
+  /**
+   * Cantidad de unidades base que contiene una unidad de este tipo
+   */
+  @Column('decimal', { precision: 15, scale: 6, nullable: false })
+  factor: number;
+}
@@ -3,11 +3,15 @@ import {
   Entity,
   JoinColumn,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
 } from 'typeorm';
 import { Categoria } from '../../categoria/entities';
 import { TipoProducto } from '../enum/tipo-producto.enum';
+import { TipoExistencia } from '../enum/tipo-existencia.enum';
+import { EstrategiaConsumo } from '../enum/estrategia-consumo.enum';
 import { Persona } from '../../users/entities/persona.entity';
+import { ProductoUnidad } from './producto-unidad.entity';
 
 /**
  * Entidad que representa un producto en el sistema
@@ -45,6 +49,28 @@ export class Producto {
   @Column({ type: 'enum', enum: TipoProducto, default: TipoProducto.PRODUCTO })
   tipo: TipoProducto;
 
+  /**
+   * Tipo de existencia según Tabla 5 de SUNAT (mercaderías, materias primas, etc.)
+   */
+  @Column({
+    type: 'enum',
+    enum: TipoExistencia,
+    default: TipoExistencia.MERCADERIAS,
+  })
+  tipoExistencia: TipoExistencia;
+
+  /**
+   * Orden de despacho de lotes; si es nulo se usa el de la categoría (FIFO por defecto)
+   */
+  @Column({ type: 'enum', enum: EstrategiaConsumo, nullable: true })
+  estrategiaConsumo?: EstrategiaConsumo | null;
+
+  /**
+   * Cada unidad se identifica por número de serie en compras, ventas y transferencias
+   */
+  @Column({ default: false })
+  serializado: boolean;
+
   /**
    * Descripción del producto
    */
@@ -52,11 +78,20 @@ export class Producto {
   descripcion?: string;
 
   /**
-   * Unidad de medida del producto (kg, unidad, litro, etc.)
+   * Unidad de medida base del producto (código de la Tabla 6 de SUNAT)
+   * El stock, los lotes y el Kardex se expresan siempre en esta unidad
    */
   @Column({ length: 50, nullable: false })
   unidadMedida: string;
 
+  /**
+   * Unidades alternativas de compra y venta con su factor a la unidad base
+   */
+  @OneToMany(() => ProductoUnidad, (unidad) => unidad.producto, {
+    cascade: true,
+  })
+  unidades?: ProductoUnidad[];
+
   /**
    * Estado del producto (activo/inactivo)
    */
@@ -0,0 +1,24 @@
+/**
+ * Orden físico en que se despachan los lotes de un producto
+ * No cambia el método de valoración (FIFO/PROMEDIO) con que se costea la salida
+ */
+export enum EstrategiaConsumo {
+  /** Primero en entrar, primero en salir (por fecha de ingreso) */
+  FIFO = 'FIFO',
+  /** Primero en vencer, primero en salir (por fecha de vencimiento) */
+  FEFO = 'FEFO',
+}
+
+/**
+ * Estrategia vigente de un producto: la propia, la de su categoría o FIFO
+ */
+export function resolverEstrategiaConsumo(producto?: {
+  estrategiaConsumo?: EstrategiaConsumo | null;
+  categoria?: { estrategiaConsumo?: EstrategiaConsumo | null } | null;
+}): EstrategiaConsumo {
+  return (
+    producto?.estrategiaConsumo ??
+    producto?.categoria?.estrategiaConsumo ??
+    EstrategiaConsumo.FIFO
+  );
+}
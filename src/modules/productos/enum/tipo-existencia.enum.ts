@@ -0,0 +1,15 @@
+/**
+ * Tipos de existencia según la Tabla 5 de SUNAT
+ */
+export enum TipoExistencia {
+  MERCADERIAS = '01',
+  PRODUCTOS_TERMINADOS = '02',
+  MATERIAS_PRIMAS = '03',
+  ENVASES = '04',
+  MATERIALES_AUXILIARES = '05',
+  REPUESTOS = '06',
+  EMBALAJES = '07',
+  SUBPRODUCTOS = '08',
+  DESECHOS_DESPERDICIOS = '09',
+  OTROS = '99',
+}
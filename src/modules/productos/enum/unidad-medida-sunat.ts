@@ -0,0 +1,155 @@
+/**
+ * Catálogo de unidades de medida de la Tabla 6 de SUNAT (UN/ECE Rec 20)
+ * Código -> descripción; es la fuente del seed de la tabla maestra 6
+ */
+export const TABLA_6_UNIDADES_MEDIDA: Record<string, string> = {
+  '4A': 'BOBINAS',
+  BJ: 'BALDE',
+  BLL: 'BARRILES',
+  BG: 'BOLSA',
+  BO: 'BOTELLAS',
+  BX: 'CAJA',
+  CT: 'CARTONES',
+  CMK: 'CENTIMETRO CUADRADO',
+  CMQ: 'CENTIMETRO CUBICO',
+  CMT: 'CENTIMETRO LINEAL',
+  CEN: 'CIENTO DE UNIDADES',
+  CY: 'CILINDRO',
+  CJ: 'CONOS',
+  DZN: 'DOCENA',
+  DZP: 'DOCENA POR 10**6',
+  BE: 'FARDO',
+  GLI: 'GALON INGLES (4,545956L)',
+  GRM: 'GRAMO',
+  GRO: 'GRUESA',
+  HLT: 'HECTOLITRO',
+  LEF: 'HOJA',
+  SET: 'JUEGO',
+  KGM: 'KILOGRAMO',
+  KTM: 'KILOMETRO',
+  KWH: 'KILOVATIO HORA',
+  KT: 'KIT',
+  CA: 'LATAS',
+  LBR: 'LIBRAS',
+  LTR: 'LITRO',
+  MWH: 'MEGAWATT HORA',
+  MTR: 'METRO',
+  MTK: 'METRO CUADRADO',
+  MTQ: 'METRO CUBICO',
+  MGM: 'MILIGRAMOS',
+  MLT: 'MILILITRO',
+  MMT: 'MILIMETRO',
+  MMK: 'MILIMETRO CUADRADO',
+  MMQ: 'MILIMETRO CUBICO',
+  MLL: 'MILLARES',
+  UM: 'MILLON DE UNIDADES',
+  ONZ: 'ONZAS',
+  PF: 'PALETAS',
+  PK: 'PAQUETE',
+  PR: 'PAR',
+  FOT: 'PIES',
+  FTK: 'PIES CUADRADOS',
+  FTQ: 'PIES CUBICOS',
+  C62: 'PIEZAS',
+  PG: 'PLACAS',
+  ST: 'PLIEGO',
+  INH: 'PULGADAS',
+  RM: 'RESMA',
+  DR: 'TAMBOR',
+  STN: 'TONELADA CORTA',
+  LTN: 'TONELADA LARGA',
+  TNE: 'TONELADAS',
+  TU: 'TUBOS',
+  NIU: 'UNIDAD (BIENES)',
+  ZZ: 'UNIDAD (SERVICIOS)',
+  GLL: 'US GALON (3,7843 L)',
+  YRD: 'YARDA',
+  YDK: 'YARDA CUADRADA',
+};
+
+/**
+ * Equivalencias de las unidades de medida registradas como texto libre
+ * a los códigos de la Tabla 6 de SUNAT (UN/ECE Rec 20)
+ */
+export const UNIDADES_MEDIDA_SUNAT: Record<string, string> = {
+  UND: 'NIU',
+  UNIDAD: 'NIU',
+  UNIDADES: 'NIU',
+  NIU: 'NIU',
+  KG: 'KGM',
+  KILO: 'KGM',
+  KILOGRAMO: 'KGM',
+  KGM: 'KGM',
+  G: 'GRM',
+  GRAMO: 'GRM',
+  GRM: 'GRM',
+  L: 'LTR',
+  LT: 'LTR',
+  LITRO: 'LTR',
+  LTR: 'LTR',
+  M: 'MTR',
+  METRO: 'MTR',
+  MTR: 'MTR',
+  CAJA: 'BX',
+  BX: 'BX',
+  DOCENA: 'DZN',
+  DZN: 'DZN',
+  PAQUETE: 'PK',
+  PK: 'PK',
+  GALON: 'GLL',
+  GLL: 'GLL',
+};
+
+/**
+ * Código de la Tabla 6 de una unidad escrita como código o como alias conocido
+ * Devuelve null si la unidad no está en el catálogo
+ */
+export function normalizarUnidadMedida(unidadMedida?: string): string | null {
+  const clave = (unidadMedida || '').trim().toUpperCase();
+  if (TABLA_6_UNIDADES_MEDIDA[clave]) {
+    return clave;
+  }
+  return UNIDADES_MEDIDA_SUNAT[clave] ?? null;
+}
+
+/**
+ * Obtiene el código SUNAT de una unidad de medida; por defecto "NIU" (unidad)
+ */
+export function obtenerCodigoUnidadSunat(unidadMedida?: string): string {
+  return normalizarUnidadMedida(unidadMedida) ?? 'NIU';
+}
+
+/**
+ * Factor que lleva una cantidad expresada en `unidadMedida` a la unidad base del producto
+ * La unidad base es `producto.unidadMedida` (factor 1); las demás deben estar configuradas
+ * en `producto.unidades`. Devuelve null si la unidad no está configurada
+ */
+export function resolverFactorConversion(
+  producto: {
+    unidadMedida: string;
+    unidades?: { unidadMedida: string; factor: number | string }[];
+  },
+  unidadMedida?: string,
+): number | null {
+  const codigo = normalizarUnidadMedida(unidadMedida);
+  const base = normalizarUnidadMedida(producto.unidadMedida);
+  // Productos registrados con una unidad fuera del catálogo no admiten conversiones
+  if (!base || !unidadMedida || codigo === base) {
+    return 1;
+  }
+  const conversion = (producto.unidades || []).find(
+    (unidad) => unidad.unidadMedida === codigo,
+  );
+  return conversion ? Number(conversion.factor) : null;
+}
+
+/**
+ * Cantidad de un detalle de comprobante expresada en la unidad base del producto
+ */
+export function cantidadEnUnidadBase(detalle: {
+  cantidad: number | string;
+  factorConversion?: number | string | null;
+}): number {
+  const factor = Number(detalle.factorConversion ?? 1) || 1;
+  return Math.round(Number(detalle.cantidad) * factor * 10000) / 10000;
+}
@@ -2,7 +2,7 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 // Entities
-import { Producto } from './entities';
+import { Producto, ProductoUnidad } from './entities';
 import { Almacen } from '../almacen/entities/almacen.entity';
 import { Categoria } from '../categoria/entities';
 // Services
@@ -18,7 +18,7 @@ import { UserModule } from '../users/user.module';
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Producto, Almacen, Categoria]),
+    TypeOrmModule.forFeature([Producto, ProductoUnidad, Almacen, Categoria]),
     UserModule, // Importar UserModule para JwtAuthGuard, JwtService y UserService
   ],
   controllers: [ProductoController],
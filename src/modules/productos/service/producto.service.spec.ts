@@ -0,0 +1,82 @@
+import { Repository } from 'typeorm';
+import { ProductoService } from './producto.service';
+import { Producto } from '../entities/producto.entity';
+import { ProductoUnidad } from '../entities/producto-unidad.entity';
+import type { Categoria } from 'src/modules/categoria/entities';
+
+// Las entidades y DTOs de categoría se importan con rutas 'src/...' que jest no resuelve
+jest.mock('src/modules/categoria/entities', () => ({ Categoria: class {} }), {
+  virtual: true,
+});
+jest.mock(
+  'src/modules/categoria/dto',
+  () => ({ ResponseCategoriaDto: class {} }),
+  { virtual: true },
+);
+
+/**
+ * Tests unitarios para ProductoService
+ * Verifica que al editar las unidades alternativas se conserven las filas existentes
+ */
+describe('ProductoService', () => {
+  let service: ProductoService;
+  let save: jest.Mock<Promise<Producto>, [Producto]>;
+  let producto: Producto;
+
+  beforeEach(() => {
+    producto = {
+      id: 12,
+      codigo: 'P-012',
+      unidadMedida: 'NIU',
+      categoria: { id: 2 },
+      unidades: [
+        { id: 3, unidadMedida: 'BX', factor: '12.000000' },
+        { id: 4, unidadMedida: 'DZN', factor: '12.000000' },
+      ],
+    } as unknown as Producto;
+
+    save = jest.fn((entidad: Producto) => Promise.resolve(entidad));
+    service = new ProductoService(
+      {
+        findOne: jest.fn(() => Promise.resolve(producto)),
+        save,
+        manager: {
+          create: jest.fn((_entidad: unknown, datos: object) => datos),
+        },
+      } as unknown as Repository<Producto>,
+      {} as Repository<Categoria>,
+    );
+  });
+
+  it('should update the factor of an existing unit instead of inserting it again', async () => {
+    await service.update(
+      12,
+      {
+        unidades: [
+          { unidadMedida: 'BX', factor: 10 },
+          { unidadMedida: 'PK', factor: 6 },
+        ],
+      },
+      1,
+    );
+
+    const guardado = save.mock.calls[0][0];
+    expect(guardado.unidades).toEqual([
+      { id: 3, unidadMedida: 'BX', factor: 10 },
+      { unidadMedida: 'PK', factor: 6 },
+    ]);
+  });
+
+  it('should keep the alternate units rows when the base unit changes', async () => {
+    const anteriores = [...producto.unidades!];
+
+    await service.update(12, { unidadMedida: 'KGM' }, 1);
+
+    const guardado = save.mock.calls[0][0];
+    expect(guardado.unidadMedida).toBe('KGM');
+    expect(guardado.unidades).toHaveLength(2);
+    guardado.unidades!.forEach((unidad: ProductoUnidad, i) =>
+      expect(unidad).toBe(anteriores[i]),
+    );
+  });
+});
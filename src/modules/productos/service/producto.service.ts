@@ -8,14 +8,17 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { plainToClass } from 'class-transformer';
 import { Producto } from '../entities/producto.entity';
+import { ProductoUnidad } from '../entities/producto-unidad.entity';
 import { Categoria } from 'src/modules/categoria/entities';
 import {
   CreateProductoDto,
   UpdateProductoDto,
   ResponseProductoDto,
+  ProductoUnidadDto,
 } from '../dto';
 import { TipoProducto } from '../enum/tipo-producto.enum';
 import { TipoCategoria } from '../../categoria/enum/tipo-categoria.enum';
+import { normalizarUnidadMedida } from '../enum/unidad-medida-sunat';
 
 /**
  * Servicio para gestionar las operaciones CRUD de productos
@@ -75,9 +78,20 @@ export class ProductoService {
       }
     }
 
+    // Unidad base y unidades alternativas con códigos de la Tabla 6
+    const unidadMedida = this.normalizarUnidadBase(
+      createProductoDto.unidadMedida,
+    );
+    const unidades = this.prepararUnidades(
+      unidadMedida,
+      createProductoDto.unidades,
+    );
+
     // Crear nuevo producto
     const producto = this.productoRepository.create({
       ...createProductoDto,
+      unidadMedida,
+      unidades,
       codigo,
       categoria,
       persona: { id: personaId },
@@ -90,7 +104,7 @@ export class ProductoService {
     // Cargar el producto con la relación de categoría
     const productoWithCategoria = await this.productoRepository.findOne({
       where: { id: savedProducto.id },
-      relations: ['categoria', 'persona'],
+      relations: ['categoria', 'persona', 'unidades'],
     });
 
     return plainToClass(ResponseProductoDto, productoWithCategoria, {
@@ -113,6 +127,7 @@ export class ProductoService {
     const queryBuilder = this.productoRepository
       .createQueryBuilder('producto')
       .leftJoinAndSelect('producto.categoria', 'categoria')
+      .leftJoinAndSelect('producto.unidades', 'unidades')
       .leftJoin('producto.persona', 'persona')
       .where('persona.id = :personaId', { personaId });
 
@@ -146,7 +161,7 @@ export class ProductoService {
         id,
         persona: { id: personaId },
       },
-      relations: ['categoria', 'persona'],
+      relations: ['categoria', 'persona', 'unidades'],
     });
 
     if (!producto) {
@@ -177,7 +192,7 @@ export class ProductoService {
         id,
         persona: { id: personaId },
       },
-      relations: ['categoria', 'persona'],
+      relations: ['categoria', 'persona', 'unidades'],
     });
 
     if (!producto) {
@@ -231,14 +246,33 @@ export class ProductoService {
     // Actualizar producto (excluyendo idCategoria ya que se maneja por separado)
     const updateData = { ...updateProductoDto } as Record<string, unknown>;
     delete (updateData as { idCategoria?: unknown }).idCategoria;
+    delete (updateData as { unidades?: unknown }).unidades;
+    if (updateProductoDto.unidadMedida !== undefined) {
+      updateData.unidadMedida = this.normalizarUnidadBase(
+        updateProductoDto.unidadMedida,
+      );
+    }
     Object.assign(producto, updateData);
 
+    // Las unidades alternativas se reemplazan si se envían o se revalidan si cambió la base
+    if (updateProductoDto.unidades || updateProductoDto.unidadMedida) {
+      producto.unidades = this.prepararUnidades(
+        producto.unidadMedida,
+        updateProductoDto.unidades ??
+          (producto.unidades || []).map((unidad) => ({
+            unidadMedida: unidad.unidadMedida,
+            factor: Number(unidad.factor),
+          })),
+        producto.unidades,
+      );
+    }
+
     const updatedProducto = await this.productoRepository.save(producto);
 
     // Recargar con relaciones
     const productoWithCategoria = await this.productoRepository.findOne({
       where: { id: updatedProducto.id },
-      relations: ['categoria', 'persona'],
+      relations: ['categoria', 'persona', 'unidades'],
     });
 
     return plainToClass(ResponseProductoDto, productoWithCategoria, {
@@ -286,6 +320,7 @@ export class ProductoService {
     const queryBuilder = this.productoRepository
       .createQueryBuilder('producto')
       .leftJoinAndSelect('producto.categoria', 'categoria')
+      .leftJoinAndSelect('producto.unidades', 'unidades')
       .leftJoin('producto.persona', 'persona')
       .where('producto.descripcion ILIKE :descripcion', {
         descripcion: `%${descripcion}%`,
@@ -323,6 +358,7 @@ export class ProductoService {
     const queryBuilder = this.productoRepository
       .createQueryBuilder('producto')
       .leftJoinAndSelect('producto.categoria', 'categoria')
+      .leftJoinAndSelect('producto.unidades', 'unidades')
       .leftJoin('producto.persona', 'persona')
       .where('producto.nombre IS NOT NULL')
       .andWhere('producto.nombre ILIKE :nombre', { nombre: `%${nombre}%` })
@@ -359,6 +395,7 @@ export class ProductoService {
     const queryBuilder = this.productoRepository
       .createQueryBuilder('producto')
       .leftJoinAndSelect('producto.categoria', 'categoria')
+      .leftJoinAndSelect('producto.unidades', 'unidades')
       .leftJoin('producto.persona', 'persona')
       .where('categoria.id = :categoriaId', { categoriaId })
       .andWhere('producto.estado = :estado', { estado: true })
@@ -392,6 +429,7 @@ export class ProductoService {
     const queryBuilder = this.productoRepository
       .createQueryBuilder('producto')
       .leftJoinAndSelect('producto.categoria', 'categoria')
+      .leftJoinAndSelect('producto.unidades', 'unidades')
       .leftJoin('producto.persona', 'persona')
       .where('producto.stockMinimo > 0')
       .andWhere('producto.estado = :estado', { estado: true })
@@ -412,6 +450,65 @@ export class ProductoService {
     );
   }
 
+  /**
+   * Código de la Tabla 6 de la unidad base; rechaza unidades fuera del catálogo
+   */
+  private normalizarUnidadBase(unidadMedida: string): string {
+    const codigo = normalizarUnidadMedida(unidadMedida);
+    if (!codigo) {
+      throw new BadRequestException(
+        `La unidad de medida "${unidadMedida}" no está en la Tabla 6 de SUNAT`,
+      );
+    }
+    return codigo;
+  }
+
+  /**
+   * Valida las unidades alternativas: códigos de la Tabla 6, distintas de la base y sin repetir
+   * Las unidades que el producto ya tenía se reutilizan con su ID para no chocar
+   * con el índice único (producto, unidad) al insertar antes de borrar las que se quitan
+   */
+  private prepararUnidades(
+    unidadBase: string,
+    unidades?: ProductoUnidadDto[],
+    existentes: ProductoUnidad[] = [],
+  ): ProductoUnidad[] | undefined {
+    if (!unidades) {
+      return undefined;
+    }
+
+    const codigos = new Set<string>();
+    return unidades.map((unidad) => {
+      const codigo = this.normalizarUnidadBase(unidad.unidadMedida);
+      if (codigo === unidadBase) {
+        throw new BadRequestException(
+          `La unidad ${codigo} es la unidad base del producto`,
+        );
+      }
+      if (codigos.has(codigo)) {
+        throw new BadRequestException(`La unidad ${codigo} está repetida`);
+      }
+      const factor = Number(unidad.factor);
+      if (!(factor > 0)) {
+        throw new BadRequestException(
+          `El factor de la unidad ${codigo} debe ser mayor a 0`,
+        );
+      }
+      codigos.add(codigo);
+      const existente = existentes.find(
+        (actual) => actual.unidadMedida === codigo,
+      );
+      if (existente) {
+        existente.factor = factor;
+        return existente;
+      }
+      return this.productoRepository.manager.create(ProductoUnidad, {
+        unidadMedida: codigo,
+        factor,
+      });
+    });
+  }
+
   /**
    * Genera un código único para el producto
    * Formato: [PREFIJO_CATEGORIA]-[TIPO]-[NUMERO_SECUENCIAL]
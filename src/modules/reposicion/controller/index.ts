@@ -0,0 +1 @@
+export { ReposicionController } from './reposicion.controller';
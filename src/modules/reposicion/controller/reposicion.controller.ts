@@ -0,0 +1,176 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ReposicionService } from '../service';
+import {
+  GenerarOrdenesCompraDto,
+  ReposicionQueryDto,
+  ResponseOrdenCompraDto,
+  ResponsePropuestaReposicionDto,
+} from '../dto';
+import { EstadoOrdenCompra } from '../enum';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de reposición de stock
+ * Sugerencias de compra según la rotación y órdenes de compra en borrador
+ */
+@ApiTags('Reposición')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/reposicion')
+export class ReposicionController {
+  constructor(private readonly reposicionService: ReposicionService) {}
+
+  /**
+   * Propuesta de compra por almacén y proveedor
+   */
+  @Get('propuesta')
+  @ApiOperation({
+    summary: 'Propuesta de reposición',
+    description:
+      'Sugiere cantidades a comprar de los productos cuyo stock no supera el punto de reorden, agrupadas por almacén y último proveedor',
+  })
+  @ApiResponse({ status: 200, type: ResponsePropuestaReposicionDto })
+  async propuesta(
+    @Query(new ValidationPipe({ transform: true })) query: ReposicionQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponsePropuestaReposicionDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.reposicionService.calcularPropuesta(user.personaId, query);
+  }
+
+  /**
+   * Descargar la propuesta en CSV
+   */
+  @Get('propuesta/exportar')
+  @ApiOperation({ summary: 'Exportar propuesta de reposición (CSV)' })
+  @ApiResponse({ status: 200, description: 'Archivo CSV de la propuesta' })
+  async exportarPropuesta(
+    @Query(new ValidationPipe({ transform: true })) query: ReposicionQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    const archivo = await this.reposicionService.exportarPropuesta(
+      user.personaId,
+      query,
+    );
+
+    return new StreamableFile(Buffer.from(archivo.contenido, 'utf-8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${archivo.nombreArchivo}"`,
+    });
+  }
+
+  /**
+   * Generar órdenes de compra en borrador a partir de la propuesta
+   */
+  @Post('ordenes-compra')
+  @ApiOperation({
+    summary: 'Generar órdenes de compra',
+    description:
+      'Crea una orden en borrador por almacén y proveedor con las cantidades sugeridas; los productos sin proveedor se omiten',
+  })
+  @ApiResponse({ status: 201, type: [ResponseOrdenCompraDto] })
+  @ApiResponse({
+    status: 400,
+    description: 'No hay productos por reponer con proveedor',
+  })
+  async generarOrdenes(
+    @Body() dto: GenerarOrdenesCompraDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenCompraDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.reposicionService.generarOrdenes(user.personaId, dto);
+  }
+
+  /**
+   * Listar órdenes de compra
+   */
+  @Get('ordenes-compra')
+  @ApiOperation({ summary: 'Listar órdenes de compra' })
+  @ApiQuery({ name: 'estado', required: false, enum: EstadoOrdenCompra })
+  @ApiQuery({ name: 'idAlmacen', required: false, type: Number })
+  @ApiResponse({ status: 200, type: [ResponseOrdenCompraDto] })
+  async listarOrdenes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('estado', new ParseEnumPipe(EstadoOrdenCompra, { optional: true }))
+    estado?: EstadoOrdenCompra,
+    @Query('idAlmacen', new ParseIntPipe({ optional: true }))
+    idAlmacen?: number,
+  ): Promise<ResponseOrdenCompraDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.reposicionService.listarOrdenes(
+      user.personaId,
+      estado,
+      idAlmacen,
+    );
+  }
+
+  /**
+   * Obtener una orden de compra
+   */
+  @Get('ordenes-compra/:id')
+  @ApiOperation({ summary: 'Obtener orden de compra' })
+  @ApiParam({ name: 'id', description: 'ID de la orden de compra' })
+  @ApiResponse({ status: 200, type: ResponseOrdenCompraDto })
+  @ApiResponse({ status: 404, description: 'Orden de compra no encontrada' })
+  async obtenerOrden(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenCompraDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.reposicionService.obtenerOrden(id, user.personaId);
+  }
+
+  /**
+   * Anular una orden de compra en borrador
+   */
+  @Post('ordenes-compra/:id/anular')
+  @ApiOperation({ summary: 'Anular orden de compra' })
+  @ApiParam({ name: 'id', description: 'ID de la orden de compra' })
+  @ApiResponse({ status: 201, type: ResponseOrdenCompraDto })
+  @ApiResponse({
+    status: 400,
+    description: 'La orden no está en borrador',
+  })
+  async anularOrden(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseOrdenCompraDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.reposicionService.anularOrden(id, user.personaId);
+  }
+}
@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ReposicionQueryDto } from './reposicion-query.dto';
+
+/**
+ * DTO para convertir la propuesta de reposición en órdenes de compra en borrador
+ * Se genera una orden por almacén y proveedor
+ */
+export class GenerarOrdenesCompraDto extends ReposicionQueryDto {
+  @ApiPropertyOptional({
+    description: 'Generar solo las órdenes de este proveedor',
+    example: 4,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El ID del proveedor debe ser un número entero' })
+  @IsPositive({ message: 'El ID del proveedor debe ser positivo' })
+  @Type(() => Number)
+  idEntidad?: number;
+
+  @ApiPropertyOptional({
+    description: 'Observaciones para las órdenes generadas',
+    example: 'Reposición quincenal',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  observaciones?: string;
+}
@@ -0,0 +1,12 @@
+export { ReposicionQueryDto } from './reposicion-query.dto';
+export { GenerarOrdenesCompraDto } from './generar-ordenes-compra.dto';
+export {
+  ResponsePropuestaReposicionDto,
+  PropuestaAlmacenDto,
+  PropuestaProveedorDto,
+  SugerenciaReposicionDto,
+} from './response-propuesta-reposicion.dto';
+export {
+  ResponseOrdenCompraDto,
+  ResponseOrdenCompraDetalleDto,
+} from './response-orden-compra.dto';
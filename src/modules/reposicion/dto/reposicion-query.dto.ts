@@ -0,0 +1,64 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsPositive, Max, Min } from 'class-validator';
+
+/**
+ * Parámetros del cálculo de reposición
+ */
+export class ReposicionQueryDto {
+  @ApiPropertyOptional({
+    description: 'Almacén a reponer (por defecto todos)',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El ID del almacén debe ser un número entero' })
+  @IsPositive({ message: 'El ID del almacén debe ser positivo' })
+  @Type(() => Number)
+  idAlmacen?: number;
+
+  @ApiPropertyOptional({
+    description: 'Días de salidas considerados para el consumo promedio',
+    example: 30,
+    default: 30,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de historial deben ser un número entero' })
+  @Min(1, { message: 'Los días de historial deben ser al menos 1' })
+  @Max(365, { message: 'Los días de historial no pueden exceder 365' })
+  @Type(() => Number)
+  diasHistorico?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Días de entrega cuando el proveedor no tiene configurados los suyos',
+    example: 7,
+    default: 7,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de entrega deben ser un número entero' })
+  @Min(0, { message: 'Los días de entrega no pueden ser negativos' })
+  @Type(() => Number)
+  diasEntrega?: number;
+
+  @ApiPropertyOptional({
+    description: 'Stock de seguridad expresado en días de consumo',
+    example: 7,
+    default: 7,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de seguridad deben ser un número entero' })
+  @Min(0, { message: 'Los días de seguridad no pueden ser negativos' })
+  @Type(() => Number)
+  diasSeguridad?: number;
+
+  @ApiPropertyOptional({
+    description: 'Días de consumo que debe cubrir cada pedido',
+    example: 30,
+    default: 30,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días de cobertura deben ser un número entero' })
+  @Min(1, { message: 'Los días de cobertura deben ser al menos 1' })
+  @Type(() => Number)
+  diasCobertura?: number;
+}
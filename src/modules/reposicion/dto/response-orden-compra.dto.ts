@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EstadoOrdenCompra } from '../enum';
+
+/**
+ * Renglón de una orden de compra
+ */
+export class ResponseOrdenCompraDetalleDto {
+  @ApiProperty({ description: 'ID del inventario', example: 12 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Arroz extra 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'Cantidad a comprar', example: 92 })
+  cantidad: number;
+
+  @ApiProperty({ description: 'Costo unitario estimado', example: 120.5 })
+  costoUnitarioEstimado: number;
+
+  @ApiProperty({ description: 'Subtotal estimado', example: 11086 })
+  subtotalEstimado: number;
+}
+
+/**
+ * DTO de respuesta de una orden de compra
+ */
+export class ResponseOrdenCompraDto {
+  @ApiProperty({ description: 'ID de la orden', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'Fecha de emisión', example: '2024-03-31' })
+  fechaEmision: string;
+
+  @ApiProperty({
+    description: 'Fecha estimada de entrega',
+    example: '2024-04-07',
+    nullable: true,
+  })
+  fechaEntregaEstimada: string | null;
+
+  @ApiProperty({ enum: EstadoOrdenCompra })
+  estado: EstadoOrdenCompra;
+
+  @ApiProperty({ description: 'ID del proveedor', example: 4 })
+  idEntidad: number;
+
+  @ApiProperty({ description: 'Proveedor', example: 'Distribuidora Norte SAC' })
+  proveedor: string;
+
+  @ApiProperty({ description: 'ID del almacén', example: 1 })
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Principal' })
+  almacen: string;
+
+  @ApiProperty({ nullable: true })
+  observaciones: string | null;
+
+  @ApiProperty({ description: 'Total estimado', example: 11086 })
+  totalEstimado: number;
+
+  @ApiProperty({ type: [ResponseOrdenCompraDetalleDto] })
+  detalles: ResponseOrdenCompraDetalleDto[];
+}
@@ -0,0 +1,118 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Sugerencia de compra para un inventario
+ */
+export class SugerenciaReposicionDto {
+  @ApiProperty({ description: 'ID del inventario', example: 12 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Arroz extra 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'Unidad de medida', example: 'UND' })
+  unidadMedida: string;
+
+  @ApiProperty({ description: 'Stock actual', example: 18 })
+  stockActual: number;
+
+  @ApiProperty({
+    description: 'Consumo promedio diario del período analizado',
+    example: 2.5,
+  })
+  consumoDiario: number;
+
+  @ApiProperty({ description: 'Días de entrega aplicados', example: 7 })
+  diasEntrega: number;
+
+  @ApiProperty({
+    description: 'Stock de seguridad (no menor al stock mínimo)',
+    example: 17.5,
+  })
+  stockSeguridad: number;
+
+  @ApiProperty({
+    description: 'Stock con el que se debe pedir',
+    example: 35,
+  })
+  puntoReorden: number;
+
+  @ApiProperty({ description: 'Cantidad sugerida a comprar', example: 92 })
+  cantidadSugerida: number;
+
+  @ApiProperty({
+    description: 'Último precio de compra en moneda nacional',
+    example: 120.5,
+  })
+  costoUnitarioEstimado: number;
+
+  @ApiProperty({ description: 'Valor estimado de la compra', example: 11086 })
+  valorEstimado: number;
+}
+
+/**
+ * Sugerencias de un almacén agrupadas por proveedor
+ */
+export class PropuestaProveedorDto {
+  @ApiProperty({
+    description: 'ID del último proveedor del producto',
+    example: 4,
+    nullable: true,
+  })
+  idEntidad: number | null;
+
+  @ApiProperty({
+    description: 'Proveedor (sin proveedor si el producto no tiene compras)',
+    example: 'Distribuidora Norte SAC',
+  })
+  proveedor: string;
+
+  @ApiProperty({
+    description: 'Productos a comprar',
+    type: [SugerenciaReposicionDto],
+  })
+  items: SugerenciaReposicionDto[];
+
+  @ApiProperty({ description: 'Valor estimado del pedido', example: 11086 })
+  valorEstimado: number;
+}
+
+/**
+ * Propuesta de compra de un almacén
+ */
+export class PropuestaAlmacenDto {
+  @ApiProperty({ description: 'ID del almacén', example: 1 })
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Principal' })
+  almacen: string;
+
+  @ApiProperty({ type: [PropuestaProveedorDto] })
+  proveedores: PropuestaProveedorDto[];
+}
+
+/**
+ * Propuesta de reposición de la empresa
+ */
+export class ResponsePropuestaReposicionDto {
+  @ApiProperty({ description: 'Fecha del cálculo', example: '2024-03-31' })
+  fechaCorte: string;
+
+  @ApiProperty({ description: 'Días de historial analizados', example: 30 })
+  diasHistorico: number;
+
+  @ApiProperty({ description: 'Stock de seguridad en días', example: 7 })
+  diasSeguridad: number;
+
+  @ApiProperty({
+    description: 'Días de consumo que cubre cada pedido',
+    example: 30,
+  })
+  diasCobertura: number;
+
+  @ApiProperty({ type: [PropuestaAlmacenDto] })
+  almacenes: PropuestaAlmacenDto[];
+}
@@ -0,0 +1,2 @@
+export * from './orden-compra.entity';
+export * from './orden-compra-detalle.entity';
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { OrdenCompra } from './orden-compra.entity';
+
+/**
+ * Producto y cantidad a comprar dentro de una orden de compra
+ */
+@Entity('orden_compra_detalle')
+export class OrdenCompraDetalle {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => OrdenCompra, (orden) => orden.detalles, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_orden_compra' })
+  ordenCompra: OrdenCompra;
+
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  cantidad: number;
+
+  /**
+   * Último precio de compra en moneda nacional; referencial
+   */
+  @Column('decimal', { precision: 12, scale: 4, nullable: false, default: 0 })
+  costoUnitarioEstimado: number;
+}
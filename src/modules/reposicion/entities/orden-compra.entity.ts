@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { Persona } from '../../users/entities/persona.entity';
+import { EstadoOrdenCompra } from '../enum';
+import { OrdenCompraDetalle } from './orden-compra-detalle.entity';
+
+/**
+ * Orden de compra a un proveedor para reponer el stock de un almacén
+ * Se genera en borrador desde la propuesta de reposición
+ */
+@Entity('orden_compra')
+export class OrdenCompra {
+  /**
+   * Identificador único de la orden
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'date', nullable: false })
+  fechaEmision: Date;
+
+  /**
+   * Fecha estimada de llegada según los días de entrega del proveedor
+   */
+  @Column({ type: 'date', nullable: true })
+  fechaEntregaEstimada?: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: EstadoOrdenCompra,
+    default: EstadoOrdenCompra.BORRADOR,
+  })
+  estado: EstadoOrdenCompra;
+
+  @Column({ type: 'text', nullable: true })
+  observaciones?: string | null;
+
+  /**
+   * Proveedor al que se compra
+   */
+  @ManyToOne(() => Entidad, { nullable: false })
+  @JoinColumn({ name: 'id_entidad' })
+  entidad: Entidad;
+
+  /**
+   * Almacén que recibe la mercadería
+   */
+  @ManyToOne(() => Almacen, { nullable: false })
+  @JoinColumn({ name: 'id_almacen' })
+  almacen: Almacen;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  @OneToMany(() => OrdenCompraDetalle, (detalle) => detalle.ordenCompra, {
+    cascade: true,
+  })
+  detalles: OrdenCompraDetalle[];
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
@@ -0,0 +1,9 @@
+/**
+ * Estados de una orden de compra
+ */
+export enum EstadoOrdenCompra {
+  /** Generada desde la propuesta de reposición, pendiente de revisión */
+  BORRADOR = 'BORRADOR',
+  /** Descartada; no se envía al proveedor */
+  ANULADA = 'ANULADA',
+}
@@ -0,0 +1 @@
+export * from './estado-orden-compra.enum';
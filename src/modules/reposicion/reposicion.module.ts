@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrdenCompra, OrdenCompraDetalle } from './entities';
+import { ReposicionService } from './service';
+import { ReposicionController } from './controller';
+import { Inventario } from '../inventario/entities';
+import { InventarioModule } from '../inventario/inventario.module';
+import { MovimientoDetalle } from '../movimientos/entities/movimiento-detalle.entity';
+import { Comprobante } from '../comprobantes/entities/comprobante';
+import { Entidad } from '../entidades/entities/entidad.entity';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de reposición
+ * Sugerencias de compra por rotación de stock y órdenes de compra en borrador
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      OrdenCompra,
+      OrdenCompraDetalle,
+      Inventario,
+      MovimientoDetalle,
+      Comprobante,
+      Entidad,
+    ]),
+    InventarioModule,
+    UserModule,
+  ],
+  controllers: [ReposicionController],
+  providers: [ReposicionService],
+  exports: [ReposicionService],
+})
+export class ReposicionModule {}
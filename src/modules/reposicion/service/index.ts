@@ -0,0 +1 @@
+export { ReposicionService } from './reposicion.service';
@@ -0,0 +1,73 @@
+import { DataSource, Repository } from 'typeorm';
+import { ReposicionService } from './reposicion.service';
+import { OrdenCompra } from '../entities';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+
+/**
+ * Tests unitarios para ReposicionService
+ * Verifica el punto de reorden y la cantidad sugerida
+ */
+describe('ReposicionService', () => {
+  let service: ReposicionService;
+
+  const parametros = {
+    consumoDiario: 2,
+    stockMinimo: 0,
+    diasEntrega: 5,
+    diasSeguridad: 3,
+    diasCobertura: 10,
+  };
+
+  beforeEach(() => {
+    service = new ReposicionService(
+      {} as Repository<OrdenCompra>,
+      {} as Repository<Inventario>,
+      {} as Repository<MovimientoDetalle>,
+      {} as Repository<Comprobante>,
+      {} as Repository<Entidad>,
+      {} as StockCalculationService,
+      {} as DataSource,
+    );
+  });
+
+  describe('calcularSugerencia', () => {
+    it('should order up to the reorder point plus the coverage days', () => {
+      const resultado = service.calcularSugerencia({
+        ...parametros,
+        stockActual: 12,
+      });
+
+      // Seguridad 2 x 3 = 6; reorden 2 x 5 + 6 = 16; pedido 16 + 20 - 12
+      expect(resultado).toEqual({
+        stockSeguridad: 6,
+        puntoReorden: 16,
+        cantidadSugerida: 24,
+      });
+    });
+
+    it('should not order while stock is above the reorder point', () => {
+      const resultado = service.calcularSugerencia({
+        ...parametros,
+        stockActual: 17,
+      });
+
+      expect(resultado.cantidadSugerida).toBe(0);
+    });
+
+    it('should keep the product minimum stock as safety stock', () => {
+      const resultado = service.calcularSugerencia({
+        ...parametros,
+        consumoDiario: 0,
+        stockMinimo: 10,
+        stockActual: 4,
+      });
+
+      expect(resultado.puntoReorden).toBe(10);
+      expect(resultado.cantidadSugerida).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,621 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { OrdenCompra, OrdenCompraDetalle } from '../entities';
+import { EstadoOrdenCompra } from '../enum';
+import {
+  GenerarOrdenesCompraDto,
+  PropuestaAlmacenDto,
+  PropuestaProveedorDto,
+  ReposicionQueryDto,
+  ResponseOrdenCompraDto,
+  ResponsePropuestaReposicionDto,
+  SugerenciaReposicionDto,
+} from '../dto';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { MovimientoDetalle } from '../../movimientos/entities/movimiento-detalle.entity';
+import { TipoMovimiento } from '../../movimientos/enum/tipo-movimiento.enum';
+import { EstadoMovimiento } from '../../movimientos/enum/estado-movimiento.enum';
+import { Comprobante } from '../../comprobantes/entities/comprobante';
+import { Moneda } from '../../comprobantes/enum/tipo-moneda.enum';
+import { Entidad } from '../../entidades/entities/entidad.entity';
+import { TipoProducto } from '../../productos/enum/tipo-producto.enum';
+
+const DIAS_HISTORICO = 30;
+const DIAS_ENTREGA = 7;
+const DIAS_SEGURIDAD = 7;
+const DIAS_COBERTURA = 30;
+
+const SIN_PROVEEDOR = 'Sin proveedor';
+
+/**
+ * Datos de un inventario para calcular su reposición
+ */
+export interface DatosReposicion {
+  stockActual: number;
+  consumoDiario: number;
+  stockMinimo: number;
+  diasEntrega: number;
+  diasSeguridad: number;
+  diasCobertura: number;
+}
+
+/**
+ * Último proveedor de un producto y su precio en moneda nacional
+ */
+interface UltimaCompra {
+  idEntidad: number;
+  costoUnitario: number;
+}
+
+/**
+ * Servicio de reposición de stock
+ * Propone compras según el consumo promedio diario, los días de entrega del proveedor y un
+ * stock de seguridad, y las convierte en órdenes de compra en borrador
+ */
+@Injectable()
+export class ReposicionService {
+  private readonly logger = new Logger(ReposicionService.name);
+
+  constructor(
+    @InjectRepository(OrdenCompra)
+    private readonly ordenCompraRepository: Repository<OrdenCompra>,
+    @InjectRepository(Inventario)
+    private readonly inventarioRepository: Repository<Inventario>,
+    @InjectRepository(MovimientoDetalle)
+    private readonly movimientoDetalleRepository: Repository<MovimientoDetalle>,
+    @InjectRepository(Comprobante)
+    private readonly comprobanteRepository: Repository<Comprobante>,
+    @InjectRepository(Entidad)
+    private readonly entidadRepository: Repository<Entidad>,
+    private readonly stockCalculationService: StockCalculationService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Calcula la propuesta de compra por almacén, agrupada por el último proveedor de cada producto
+   * @param personaId - ID de la empresa
+   * @param filtro - Almacén y parámetros del cálculo
+   */
+  async calcularPropuesta(
+    personaId: number,
+    filtro: ReposicionQueryDto = {},
+  ): Promise<ResponsePropuestaReposicionDto> {
+    const diasHistorico = filtro.diasHistorico ?? DIAS_HISTORICO;
+    const diasSeguridad = filtro.diasSeguridad ?? DIAS_SEGURIDAD;
+    const diasCobertura = filtro.diasCobertura ?? DIAS_COBERTURA;
+    const hoy = new Date();
+
+    const inventarios = (
+      await this.inventarioRepository.find({
+        where: {
+          almacen: {
+            persona: { id: personaId },
+            ...(filtro.idAlmacen ? { id: filtro.idAlmacen } : {}),
+          },
+        },
+        relations: ['almacen', 'producto'],
+      })
+    ).filter(
+      (inventario) =>
+        inventario.almacen?.estado !== false &&
+        inventario.producto?.estado !== false &&
+        inventario.producto?.tipo !== TipoProducto.SERVICIO,
+    );
+
+    const desde = new Date(hoy);
+    desde.setDate(desde.getDate() - diasHistorico);
+    desde.setHours(0, 0, 0, 0);
+    const consumos = await this.obtenerSalidas(
+      inventarios.map((inventario) => inventario.id),
+      desde,
+      hoy,
+    );
+    const compras = await this.obtenerUltimasCompras(
+      personaId,
+      inventarios.map((inventario) => inventario.producto.id),
+    );
+    const proveedores = await this.obtenerProveedores([
+      ...new Set([...compras.values()].map((compra) => compra.idEntidad)),
+    ]);
+
+    const almacenes = new Map<number, PropuestaAlmacenDto>();
+    for (const inventario of inventarios) {
+      const compra = compras.get(inventario.producto.id);
+      const proveedor = compra ? proveedores.get(compra.idEntidad) : undefined;
+      const diasEntrega =
+        proveedor?.diasEntrega ?? filtro.diasEntrega ?? DIAS_ENTREGA;
+      const stock = await this.stockCalculationService.calcularStockInventario(
+        inventario.id,
+      );
+      const stockActual = this.redondear(stock?.stockActual ?? 0);
+      const consumoDiario = (consumos.get(inventario.id) ?? 0) / diasHistorico;
+
+      const calculo = this.calcularSugerencia({
+        stockActual,
+        consumoDiario,
+        stockMinimo: Number(inventario.producto.stockMinimo) || 0,
+        diasEntrega,
+        diasSeguridad,
+        diasCobertura,
+      });
+      if (calculo.cantidadSugerida <= 0) {
+        continue;
+      }
+
+      const costoUnitarioEstimado = this.redondear(compra?.costoUnitario ?? 0);
+      const sugerencia: SugerenciaReposicionDto = {
+        idInventario: inventario.id,
+        codigoProducto: inventario.producto.codigo,
+        producto: inventario.producto.nombre,
+        unidadMedida: inventario.producto.unidadMedida,
+        stockActual,
+        consumoDiario: this.redondear(consumoDiario),
+        diasEntrega,
+        ...calculo,
+        costoUnitarioEstimado,
+        valorEstimado: this.redondear(
+          calculo.cantidadSugerida * costoUnitarioEstimado,
+        ),
+      };
+
+      let almacen = almacenes.get(inventario.almacen.id);
+      if (!almacen) {
+        almacen = {
+          idAlmacen: inventario.almacen.id,
+          almacen: inventario.almacen.nombre,
+          proveedores: [],
+        };
+        almacenes.set(almacen.idAlmacen, almacen);
+      }
+      const idEntidad = proveedor?.id ?? null;
+      let grupo = almacen.proveedores.find(
+        (item) => item.idEntidad === idEntidad,
+      );
+      if (!grupo) {
+        grupo = {
+          idEntidad,
+          proveedor: proveedor?.nombreCompletoMostrado || SIN_PROVEEDOR,
+          items: [],
+          valorEstimado: 0,
+        };
+        almacen.proveedores.push(grupo);
+      }
+      grupo.items.push(sugerencia);
+      grupo.valorEstimado = this.redondear(
+        grupo.valorEstimado + sugerencia.valorEstimado,
+      );
+    }
+
+    return {
+      fechaCorte: this.aFecha(hoy),
+      diasHistorico,
+      diasSeguridad,
+      diasCobertura,
+      almacenes: [...almacenes.values()]
+        .sort((a, b) => a.almacen.localeCompare(b.almacen))
+        .map((almacen) => ({
+          ...almacen,
+          proveedores: this.ordenarProveedores(almacen.proveedores),
+        })),
+    };
+  }
+
+  /**
+   * Cantidad a pedir de un inventario
+   * Se pide cuando el stock no supera el punto de reorden (consumo durante la entrega más el
+   * stock de seguridad) y se repone hasta cubrir además `diasCobertura` de consumo
+   * @param datos - Stock, consumo y parámetros del inventario
+   */
+  calcularSugerencia(datos: DatosReposicion): {
+    stockSeguridad: number;
+    puntoReorden: number;
+    cantidadSugerida: number;
+  } {
+    const stockSeguridad = Math.max(
+      datos.consumoDiario * datos.diasSeguridad,
+      datos.stockMinimo,
+    );
+    const puntoReorden =
+      datos.consumoDiario * datos.diasEntrega + stockSeguridad;
+    const cantidadSugerida =
+      datos.stockActual <= puntoReorden
+        ? Math.max(
+            0,
+            Math.ceil(
+              puntoReorden +
+                datos.consumoDiario * datos.diasCobertura -
+                datos.stockActual,
+            ),
+          )
+        : 0;
+
+    return {
+      stockSeguridad: this.redondear(stockSeguridad),
+      puntoReorden: this.redondear(puntoReorden),
+      cantidadSugerida,
+    };
+  }
+
+  /**
+   * Exporta la propuesta de reposición en CSV (separado por comas, UTF-8 con BOM para Excel)
+   * @param personaId - ID de la empresa
+   * @param filtro - Almacén y parámetros del cálculo
+   */
+  async exportarPropuesta(
+    personaId: number,
+    filtro: ReposicionQueryDto = {},
+  ): Promise<{ nombreArchivo: string; contenido: string }> {
+    const propuesta = await this.calcularPropuesta(personaId, filtro);
+    const filas: (string | number)[][] = [
+      [
+        'Almacén',
+        'Proveedor',
+        'Código',
+        'Producto',
+        'Unidad',
+        'Stock actual',
+        'Consumo diario',
+        'Días de entrega',
+        'Stock de seguridad',
+        'Punto de reorden',
+        'Cantidad sugerida',
+        'Costo unitario estimado',
+        'Valor estimado',
+      ],
+    ];
+    for (const almacen of propuesta.almacenes) {
+      for (const grupo of almacen.proveedores) {
+        for (const item of grupo.items) {
+          filas.push([
+            almacen.almacen,
+            grupo.proveedor,
+            item.codigoProducto ?? '',
+            item.producto,
+            item.unidadMedida,
+            item.stockActual,
+            item.consumoDiario,
+            item.diasEntrega,
+            item.stockSeguridad,
+            item.puntoReorden,
+            item.cantidadSugerida,
+            item.costoUnitarioEstimado,
+            item.valorEstimado,
+          ]);
+        }
+      }
+    }
+
+    const contenido = filas
+      .map((fila) => fila.map((valor) => this.celdaCsv(valor)).join(','))
+      .join('\r\n');
+    return {
+      nombreArchivo: `reposicion-${propuesta.fechaCorte}.csv`,
+      contenido: `\uFEFF${contenido}\r\n`,
+    };
+  }
+
+  /**
+   * Convierte la propuesta en órdenes de compra en borrador, una por almacén y proveedor
+   * Los productos sin compras previas no tienen proveedor y se omiten
+   * @param personaId - ID de la empresa
+   * @param dto - Parámetros del cálculo, proveedor y observaciones
+   */
+  async generarOrdenes(
+    personaId: number,
+    dto: GenerarOrdenesCompraDto,
+  ): Promise<ResponseOrdenCompraDto[]> {
+    const propuesta = await this.calcularPropuesta(personaId, dto);
+    const hoy = new Date(`${propuesta.fechaCorte}T00:00:00`);
+
+    const grupos = propuesta.almacenes.flatMap((almacen) =>
+      almacen.proveedores
+        .filter(
+          (grupo) =>
+            grupo.idEntidad !== null &&
+            (!dto.idEntidad || grupo.idEntidad === dto.idEntidad),
+        )
+        .map((grupo) => ({ idAlmacen: almacen.idAlmacen, grupo })),
+    );
+    if (grupos.length === 0) {
+      throw new BadRequestException(
+        'No hay productos por reponer con proveedor para generar órdenes de compra',
+      );
+    }
+
+    const ids = await this.dataSource.transaction(async (manager) => {
+      const guardadas: number[] = [];
+      for (const { idAlmacen, grupo } of grupos) {
+        const entrega = new Date(hoy);
+        entrega.setDate(
+          entrega.getDate() +
+            Math.max(...grupo.items.map((item) => item.diasEntrega)),
+        );
+        const orden = await manager.save(
+          manager.create(OrdenCompra, {
+            fechaEmision: hoy,
+            fechaEntregaEstimada: entrega,
+            estado: EstadoOrdenCompra.BORRADOR,
+            observaciones: dto.observaciones ?? null,
+            entidad: { id: grupo.idEntidad! },
+            almacen: { id: idAlmacen },
+            persona: { id: personaId },
+            detalles: grupo.items.map((item) =>
+              manager.create(OrdenCompraDetalle, {
+                inventario: { id: item.idInventario },
+                cantidad: item.cantidadSugerida,
+                costoUnitarioEstimado: item.costoUnitarioEstimado,
+              }),
+            ),
+          }),
+        );
+        guardadas.push(orden.id);
+      }
+      return guardadas;
+    });
+    this.logger.log(
+      `Órdenes de compra en borrador generadas para la empresa ${personaId}: ${ids.join(', ')}`,
+    );
+
+    const ordenes = await this.buscarOrdenes(personaId, { id: In(ids) });
+    return ordenes.map((orden) => this.mapearOrden(orden));
+  }
+
+  /**
+   * Lista las órdenes de compra de la empresa, las más recientes primero
+   * @param personaId - ID de la empresa
+   * @param estado - Estado (opcional)
+   * @param idAlmacen - Almacén (opcional)
+   */
+  async listarOrdenes(
+    personaId: number,
+    estado?: EstadoOrdenCompra,
+    idAlmacen?: number,
+  ): Promise<ResponseOrdenCompraDto[]> {
+    const ordenes = await this.buscarOrdenes(personaId, {
+      ...(estado ? { estado } : {}),
+      ...(idAlmacen ? { almacen: { id: idAlmacen } } : {}),
+    });
+    return ordenes.map((orden) => this.mapearOrden(orden));
+  }
+
+  /**
+   * Obtiene una orden de compra
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   */
+  async obtenerOrden(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseOrdenCompraDto> {
+    return this.mapearOrden(await this.buscarOrden(id, personaId));
+  }
+
+  /**
+   * Anula una orden de compra en borrador
+   * @param id - ID de la orden
+   * @param personaId - ID de la empresa
+   */
+  async anularOrden(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseOrdenCompraDto> {
+    const orden = await this.buscarOrden(id, personaId);
+    if (orden.estado !== EstadoOrdenCompra.BORRADOR) {
+      throw new BadRequestException(
+        `La orden de compra ${id} está ${orden.estado.toLowerCase()}`,
+      );
+    }
+    orden.estado = EstadoOrdenCompra.ANULADA;
+    await this.ordenCompraRepository.save(orden);
+    return this.mapearOrden(orden);
+  }
+
+  /**
+   * Cantidad total de salidas por inventario en el rango
+   */
+  private async obtenerSalidas(
+    idsInventario: number[],
+    desde: Date,
+    hasta: Date,
+  ): Promise<Map<number, number>> {
+    const salidas = new Map<number, number>();
+    if (idsInventario.length === 0) {
+      return salidas;
+    }
+
+    const filas = await this.movimientoDetalleRepository
+      .createQueryBuilder('md')
+      .innerJoin('md.movimiento', 'm')
+      .select('md.idInventario', 'id_inventario')
+      .addSelect('COALESCE(SUM(md.cantidad), 0)', 'total')
+      .where('md.idInventario IN (:...ids)', { ids: idsInventario })
+      .andWhere('m.estado = :estado', { estado: EstadoMovimiento.PROCESADO })
+      .andWhere('m.tipo = :tipo', { tipo: TipoMovimiento.SALIDA })
+      .andWhere('m.fecha >= :desde', { desde })
+      .andWhere('m.fecha <= :hasta', { hasta })
+      .groupBy('md.idInventario')
+      .getRawMany<{ id_inventario: number; total: string }>();
+
+    for (const fila of filas) {
+      salidas.set(Number(fila.id_inventario), Number(fila.total) || 0);
+    }
+    return salidas;
+  }
+
+  /**
+   * Última compra de cada producto (proveedor y precio en moneda nacional)
+   * El precio de la compra es por unidad de compra; se lleva a la unidad base
+   */
+  private async obtenerUltimasCompras(
+    personaId: number,
+    idsProducto: number[],
+  ): Promise<Map<number, UltimaCompra>> {
+    const compras = new Map<number, UltimaCompra>();
+    if (idsProducto.length === 0) {
+      return compras;
+    }
+
+    const filas = await this.comprobanteRepository
+      .createQueryBuilder('comprobante')
+      .innerJoin('comprobante.tipoOperacion', 'tipoOperacion')
+      .innerJoin('comprobante.tipoComprobante', 'tipoComprobante')
+      .innerJoin('comprobante.entidad', 'entidad')
+      .innerJoin('comprobante.detalles', 'detalle')
+      .innerJoin('detalle.inventario', 'inventario')
+      .innerJoin('inventario.producto', 'producto')
+      .select('producto.id', 'id_producto')
+      .addSelect('entidad.id', 'id_entidad')
+      .addSelect('detalle.precioUnitario', 'precio_unitario')
+      .addSelect('detalle.factorConversion', 'factor_conversion')
+      .addSelect('comprobante.moneda', 'moneda')
+      .addSelect('comprobante.tipoCambio', 'tipo_cambio')
+      .where('comprobante.id_persona = :personaId', { personaId })
+      .andWhere('tipoOperacion.codigo = :compra', { compra: '02' })
+      .andWhere('tipoComprobante.codigo NOT IN (:...notas)', {
+        notas: ['07', '08'],
+      })
+      .andWhere('producto.id IN (:...ids)', { ids: idsProducto })
+      .orderBy('comprobante.fechaEmision', 'DESC')
+      .addOrderBy('comprobante.idComprobante', 'DESC')
+      .getRawMany<{
+        id_producto: number;
+        id_entidad: number;
+        precio_unitario: string;
+        factor_conversion: string | null;
+        moneda: Moneda;
+        tipo_cambio: string | null;
+      }>();
+
+    for (const fila of filas) {
+      const idProducto = Number(fila.id_producto);
+      if (compras.has(idProducto)) {
+        continue;
+      }
+      const tipoCambio =
+        fila.moneda === Moneda.USD ? Number(fila.tipo_cambio) || 1 : 1;
+      const factorConversion = Number(fila.factor_conversion) || 1;
+      compras.set(idProducto, {
+        idEntidad: Number(fila.id_entidad),
+        costoUnitario:
+          (Number(fila.precio_unitario) * tipoCambio) / factorConversion,
+      });
+    }
+    return compras;
+  }
+
+  private async obtenerProveedores(
+    ids: number[],
+  ): Promise<Map<number, Entidad>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const entidades = await this.entidadRepository.find({
+      where: { id: In(ids) },
+    });
+    return new Map(entidades.map((entidad) => [entidad.id, entidad]));
+  }
+
+  /**
+   * Proveedores por nombre; los productos sin proveedor al final
+   */
+  private ordenarProveedores(
+    proveedores: PropuestaProveedorDto[],
+  ): PropuestaProveedorDto[] {
+    return [...proveedores]
+      .sort(
+        (a, b) =>
+          Number(a.idEntidad === null) - Number(b.idEntidad === null) ||
+          a.proveedor.localeCompare(b.proveedor),
+      )
+      .map((grupo) => ({
+        ...grupo,
+        items: [...grupo.items].sort((a, b) =>
+          a.producto.localeCompare(b.producto),
+        ),
+      }));
+  }
+
+  private async buscarOrdenes(
+    personaId: number,
+    where: Record<string, unknown>,
+  ): Promise<OrdenCompra[]> {
+    return this.ordenCompraRepository.find({
+      where: { ...where, persona: { id: personaId } },
+      relations: ['entidad', 'almacen', 'detalles', 'detalles.inventario'],
+      order: { fechaCreacion: 'DESC', id: 'DESC' },
+    });
+  }
+
+  private async buscarOrden(
+    id: number,
+    personaId: number,
+  ): Promise<OrdenCompra> {
+    const [orden] = await this.buscarOrdenes(personaId, { id });
+    if (!orden) {
+      throw new NotFoundException(`Orden de compra con ID ${id} no encontrada`);
+    }
+    return orden;
+  }
+
+  private mapearOrden(orden: OrdenCompra): ResponseOrdenCompraDto {
+    const detalles = (orden.detalles || []).map((detalle) => {
+      const cantidad = Number(detalle.cantidad);
+      const costoUnitarioEstimado = Number(detalle.costoUnitarioEstimado);
+      return {
+        idInventario: detalle.inventario.id,
+        codigoProducto: detalle.inventario.producto?.codigo ?? '',
+        producto: detalle.inventario.producto?.nombre ?? '',
+        cantidad,
+        costoUnitarioEstimado,
+        subtotalEstimado: this.redondear(cantidad * costoUnitarioEstimado),
+      };
+    });
+
+    return {
+      id: orden.id,
+      fechaEmision: this.aFecha(orden.fechaEmision),
+      fechaEntregaEstimada: orden.fechaEntregaEstimada
+        ? this.aFecha(orden.fechaEntregaEstimada)
+        : null,
+      estado: orden.estado,
+      idEntidad: orden.entidad.id,
+      proveedor: orden.entidad.nombreCompletoMostrado,
+      idAlmacen: orden.almacen.id,
+      almacen: orden.almacen.nombre,
+      observaciones: orden.observaciones ?? null,
+      totalEstimado: this.redondear(
+        detalles.reduce(
+          (total, detalle) => total + detalle.subtotalEstimado,
+          0,
+        ),
+      ),
+      detalles,
+    };
+  }
+
+  private celdaCsv(valor: string | number): string {
+    const texto = String(valor);
+    return /[",\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+  }
+
+  private aFecha(fecha: Date | string): string {
+    if (typeof fecha === 'string') {
+      return fecha.slice(0, 10);
+    }
+    const valor = new Date(fecha);
+    const mes = String(valor.getMonth() + 1).padStart(2, '0');
+    const dia = String(valor.getDate()).padStart(2, '0');
+    return `${valor.getFullYear()}-${mes}-${dia}`;
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+}
@@ -0,0 +1,68 @@
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { TipoCambioService } from './tipo-cambio.service';
+import { TipoCambio } from '../entities/tipo-cambio.entity';
+
+/**
+ * Tests unitarios para TipoCambioService
+ * Verifica la resolución del tipo de cambio en días sin publicación
+ */
+describe('TipoCambioService', () => {
+  let service: TipoCambioService;
+  let publicado: TipoCambio | null;
+  let anterior: TipoCambio | null;
+
+  const tipoCambio = (fecha: string, compra: number, venta: number) =>
+    ({ fecha, compra, venta, fuente: 'SUNAT' }) as unknown as TipoCambio;
+
+  beforeEach(() => {
+    publicado = null;
+    anterior = tipoCambio('2024-03-08', 3.69, 3.7);
+
+    const queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getOne: jest.fn(() => Promise.resolve(anterior)),
+    };
+    const repository = {
+      findOne: jest.fn(() => Promise.resolve(publicado)),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    } as unknown as Repository<TipoCambio>;
+    // Sin token el API externo no se consulta
+    const configService = {
+      get: jest.fn(() => undefined),
+    } as unknown as ConfigService;
+
+    service = new TipoCambioService(repository, configService);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  describe('resolverTipoCambio', () => {
+    it('should use the rate published for the date', async () => {
+      publicado = tipoCambio('2024-03-11', 3.71, 3.72);
+
+      const resultado = await service.resolverTipoCambio('2024-03-11');
+
+      expect(resultado).toMatchObject({ fecha: '2024-03-11', venta: 3.72 });
+    });
+
+    it('should fall back to the last published rate on weekends', async () => {
+      const resultado = await service.resolverTipoCambio('2024-03-10');
+
+      expect(resultado).toMatchObject({
+        fecha: '2024-03-08',
+        compra: 3.69,
+        venta: 3.7,
+        fuente: 'SUNAT',
+      });
+    });
+
+    it('should return null when no rate exists up to the date', async () => {
+      anterior = null;
+
+      await expect(service.resolverTipoCambio('2024-03-10')).resolves.toBe(
+        null,
+      );
+    });
+  });
+});
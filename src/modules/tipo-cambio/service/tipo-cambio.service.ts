@@ -96,6 +96,28 @@ export class TipoCambioService {
     }
   }
 
+  /**
+   * Resuelve el tipo de cambio aplicable a una fecha
+   * Sábados, domingos y feriados no tienen publicación: se usa el último tipo de cambio publicado
+   * @param fecha - Fecha en formato YYYY-MM-DD
+   * @returns Tipo de cambio aplicable o null si no hay ninguno registrado hasta esa fecha
+   */
+  async resolverTipoCambio(
+    fecha: string,
+  ): Promise<TipoCambioResponseDto | null> {
+    const publicado = await this.obtenerTipoCambio(fecha);
+    if (publicado.success && publicado.data) {
+      return publicado.data;
+    }
+
+    const anterior = await this.tipoCambioRepository
+      .createQueryBuilder('tipoCambio')
+      .where('tipoCambio.fecha <= :fecha', { fecha })
+      .orderBy('tipoCambio.fecha', 'DESC')
+      .getOne();
+    return anterior ? this.mapearRespuesta(anterior) : null;
+  }
+
   /**
    * Consulta el API externo de SUNAT
    */
@@ -0,0 +1 @@
+export { TomaInventarioController } from './toma-inventario.controller';
@@ -0,0 +1,170 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TomaInventarioService } from '../service';
+import {
+  CerrarTomaInventarioDto,
+  CreateTomaInventarioDto,
+  RegistrarConteoDto,
+  ResponseTomaInventarioDto,
+} from '../dto';
+import { JwtAuthGuard } from '../../users/guards/jwt-auth.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../../users/decorators/current-user.decorator';
+
+/**
+ * Controlador de tomas de inventario físico
+ * Conteo por almacén, revisión de diferencias y registro de ajustes
+ */
+@ApiTags('Toma de Inventario')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('api/toma-inventario')
+export class TomaInventarioController {
+  constructor(private readonly tomaInventarioService: TomaInventarioService) {}
+
+  /**
+   * Iniciar la toma de un almacén
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Iniciar toma de inventario',
+    description:
+      'Guarda el stock y costo del sistema de cada inventario del almacén y los bloquea para nuevos movimientos hasta aprobar o anular la toma',
+  })
+  @ApiResponse({ status: 201, type: ResponseTomaInventarioDto })
+  @ApiResponse({
+    status: 400,
+    description: 'El almacén ya tiene una toma en curso',
+  })
+  async iniciar(
+    @Body() dto: CreateTomaInventarioDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTomaInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.iniciar(user.personaId, dto);
+  }
+
+  /**
+   * Listar las tomas de la empresa
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar tomas de inventario' })
+  @ApiQuery({ name: 'idAlmacen', required: false, type: Number })
+  @ApiResponse({ status: 200, type: [ResponseTomaInventarioDto] })
+  async listar(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('idAlmacen', new ParseIntPipe({ optional: true }))
+    idAlmacen?: number,
+  ): Promise<ResponseTomaInventarioDto[]> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.listar(user.personaId, idAlmacen);
+  }
+
+  /**
+   * Ver una toma con sus diferencias valorizadas
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Obtener toma de inventario',
+    description:
+      'Incluye por inventario el stock del sistema, lo contado y la diferencia valorizada al costo vigente',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la toma', type: Number })
+  @ApiResponse({ status: 200, type: ResponseTomaInventarioDto })
+  async obtener(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTomaInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.obtener(id, user.personaId);
+  }
+
+  /**
+   * Registrar cantidades contadas
+   */
+  @Patch(':id/conteos')
+  @ApiOperation({ summary: 'Registrar cantidades contadas' })
+  @ApiParam({ name: 'id', description: 'ID de la toma', type: Number })
+  @ApiResponse({ status: 200, type: ResponseTomaInventarioDto })
+  async registrarConteos(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: RegistrarConteoDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTomaInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.registrarConteos(id, user.personaId, dto);
+  }
+
+  /**
+   * Aprobar la toma y registrar los ajustes
+   */
+  @Post(':id/aprobar')
+  @ApiOperation({
+    summary: 'Aprobar toma de inventario',
+    description:
+      'Registra en el Kardex un ajuste por cada sobrante y una merma por cada faltante, y libera los inventarios',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la toma', type: Number })
+  @ApiResponse({ status: 201, type: ResponseTomaInventarioDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Toma cerrada o con inventarios sin contar',
+  })
+  async aprobar(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CerrarTomaInventarioDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTomaInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.aprobar(id, user.personaId, dto);
+  }
+
+  /**
+   * Anular la toma sin ajustes
+   */
+  @Post(':id/anular')
+  @ApiOperation({
+    summary: 'Anular toma de inventario',
+    description:
+      'Cierra la toma sin registrar ajustes y libera los inventarios',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la toma', type: Number })
+  @ApiResponse({ status: 201, type: ResponseTomaInventarioDto })
+  async anular(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CerrarTomaInventarioDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ResponseTomaInventarioDto> {
+    if (!user.personaId) {
+      throw new Error('Usuario no tiene una empresa asociada');
+    }
+    return this.tomaInventarioService.anular(id, user.personaId, dto);
+  }
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO para aprobar o anular una toma de inventario
+ */
+export class CerrarTomaInventarioDto {
+  @ApiPropertyOptional({
+    description: 'Usuario que cierra la toma',
+    example: 'jperez',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  usuarioCierre?: string;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO para iniciar la toma de inventario de un almacén
+ */
+export class CreateTomaInventarioDto {
+  @ApiProperty({ description: 'ID del almacén a contar', example: 1 })
+  @IsInt()
+  idAlmacen: number;
+
+  @ApiPropertyOptional({
+    description: 'Observaciones de la toma',
+    example: 'Conteo del primer trimestre',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  observaciones?: string;
+}
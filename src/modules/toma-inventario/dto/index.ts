@@ -0,0 +1,10 @@
+export { CreateTomaInventarioDto } from './create-toma-inventario.dto';
+export {
+  RegistrarConteoDto,
+  ConteoInventarioDto,
+} from './registrar-conteo.dto';
+export { CerrarTomaInventarioDto } from './cerrar-toma-inventario.dto';
+export {
+  ResponseTomaInventarioDto,
+  ResponseTomaInventarioDetalleDto,
+} from './response-toma-inventario.dto';
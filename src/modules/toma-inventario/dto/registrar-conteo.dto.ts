@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNumber,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Cantidad contada de un inventario
+ */
+export class ConteoInventarioDto {
+  @ApiProperty({ description: 'ID del inventario', example: 12 })
+  @IsInt()
+  idInventario: number;
+
+  @ApiProperty({ description: 'Cantidad contada', example: 48 })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  cantidadContada: number;
+}
+
+/**
+ * DTO para registrar las cantidades contadas de una toma
+ */
+export class RegistrarConteoDto {
+  @ApiProperty({ type: [ConteoInventarioDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ConteoInventarioDto)
+  conteos: ConteoInventarioDto[];
+}
@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EstadoTomaInventario } from '../enum';
+
+/**
+ * Renglón de la toma con su diferencia valorizada
+ */
+export class ResponseTomaInventarioDetalleDto {
+  @ApiProperty({ description: 'ID del inventario', example: 12 })
+  idInventario: number;
+
+  @ApiProperty({ description: 'Código del producto', example: 'PRD-001' })
+  codigoProducto: string;
+
+  @ApiProperty({ description: 'Producto', example: 'Arroz extra 50 kg' })
+  producto: string;
+
+  @ApiProperty({ description: 'Stock del sistema al iniciar', example: 50 })
+  stockSistema: number;
+
+  @ApiProperty({
+    description: 'Cantidad contada',
+    example: 48,
+    nullable: true,
+  })
+  cantidadContada: number | null;
+
+  @ApiProperty({
+    description: 'Diferencia (contada - sistema)',
+    example: -2,
+    nullable: true,
+  })
+  diferencia: number | null;
+
+  @ApiProperty({ description: 'Costo unitario vigente', example: 120.5 })
+  costoUnitario: number;
+
+  @ApiProperty({
+    description: 'Diferencia valorizada al costo vigente',
+    example: -241,
+    nullable: true,
+  })
+  valorDiferencia: number | null;
+
+  @ApiProperty({
+    description: 'Movimiento de ajuste o merma generado',
+    example: 310,
+    nullable: true,
+  })
+  idMovimiento: number | null;
+}
+
+/**
+ * DTO de respuesta de una toma de inventario
+ */
+export class ResponseTomaInventarioDto {
+  @ApiProperty({ description: 'ID de la toma', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: 'ID del almacén', example: 1 })
+  idAlmacen: number;
+
+  @ApiProperty({ description: 'Almacén', example: 'Almacén principal' })
+  almacen: string;
+
+  @ApiProperty({ enum: EstadoTomaInventario })
+  estado: EstadoTomaInventario;
+
+  @ApiProperty({ description: 'Inicio de la toma' })
+  fechaInicio: Date;
+
+  @ApiProperty({ description: 'Aprobación o anulación', nullable: true })
+  fechaCierre: Date | null;
+
+  @ApiProperty({ description: 'Observaciones', nullable: true })
+  observaciones: string | null;
+
+  @ApiProperty({ description: 'Renglones contados', example: 18 })
+  contados: number;
+
+  @ApiProperty({ description: 'Renglones pendientes de contar', example: 2 })
+  pendientes: number;
+
+  @ApiProperty({ description: 'Valor de los sobrantes', example: 361.5 })
+  valorSobrante: number;
+
+  @ApiProperty({ description: 'Valor de los faltantes', example: 241 })
+  valorFaltante: number;
+
+  @ApiProperty({ type: [ResponseTomaInventarioDetalleDto] })
+  detalles: ResponseTomaInventarioDetalleDto[];
+}
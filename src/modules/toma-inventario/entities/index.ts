@@ -0,0 +1,2 @@
+export * from './toma-inventario.entity';
+export * from './toma-inventario-detalle.entity';
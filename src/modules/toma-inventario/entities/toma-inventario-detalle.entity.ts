@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Inventario } from '../../inventario/entities/inventario.entity';
+import { Movimiento } from '../../movimientos/entities/movimiento.entity';
+import { TomaInventario } from './toma-inventario.entity';
+
+/**
+ * Stock del sistema y cantidad contada de un inventario dentro de una toma
+ */
+@Entity('toma_inventario_detalle')
+@Index(['tomaInventario', 'inventario'], { unique: true })
+export class TomaInventarioDetalle {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => TomaInventario, (toma) => toma.detalles, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'id_toma_inventario' })
+  tomaInventario: TomaInventario;
+
+  @ManyToOne(() => Inventario, { nullable: false })
+  @JoinColumn({ name: 'id_inventario' })
+  inventario: Inventario;
+
+  /**
+   * Stock del sistema al iniciar la toma
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: false })
+  stockSistema: number;
+
+  /**
+   * Costo unitario vigente al iniciar la toma; valoriza las diferencias
+   */
+  @Column('decimal', { precision: 12, scale: 4, nullable: false })
+  costoUnitario: number;
+
+  /**
+   * Cantidad contada (null mientras no se cuente)
+   */
+  @Column('decimal', { precision: 15, scale: 4, nullable: true })
+  cantidadContada?: number | null;
+
+  /**
+   * Movimiento de ajuste o merma generado al aprobar
+   */
+  @ManyToOne(() => Movimiento, { nullable: true })
+  @JoinColumn({ name: 'id_movimiento' })
+  movimiento?: Movimiento | null;
+}
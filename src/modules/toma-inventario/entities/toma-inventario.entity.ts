@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Persona } from '../../users/entities/persona.entity';
+import { EstadoTomaInventario } from '../enum';
+import { TomaInventarioDetalle } from './toma-inventario-detalle.entity';
+
+/**
+ * Sesión de conteo físico de un almacén
+ * Al iniciarse guarda el stock del sistema; al aprobarse registra los ajustes en el Kardex
+ */
+@Entity('toma_inventario')
+export class TomaInventario {
+  /**
+   * Identificador único de la toma
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * Momento en que se tomó la foto del stock del sistema
+   */
+  @Column({ type: 'timestamp', nullable: false })
+  fechaInicio: Date;
+
+  /**
+   * Momento de aprobación o anulación
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  fechaCierre?: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: EstadoTomaInventario,
+    default: EstadoTomaInventario.EN_PROCESO,
+  })
+  estado: EstadoTomaInventario;
+
+  @Column({ type: 'text', nullable: true })
+  observaciones?: string | null;
+
+  /**
+   * Usuario que aprobó o anuló la toma
+   */
+  @Column({ length: 100, nullable: true })
+  usuarioCierre?: string | null;
+
+  /**
+   * Almacén contado
+   */
+  @ManyToOne(() => Almacen, { nullable: false })
+  @JoinColumn({ name: 'id_almacen' })
+  almacen: Almacen;
+
+  /**
+   * Relación con Persona (empresa)
+   */
+  @ManyToOne(() => Persona, { nullable: false })
+  @JoinColumn({ name: 'id_persona' })
+  persona: Persona;
+
+  /**
+   * Un renglón por inventario del almacén
+   */
+  @OneToMany(() => TomaInventarioDetalle, (detalle) => detalle.tomaInventario, {
+    cascade: true,
+  })
+  detalles: TomaInventarioDetalle[];
+
+  @CreateDateColumn({
+    type: 'timestamp',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  fechaCreacion: Date;
+}
@@ -0,0 +1,9 @@
+/**
+ * Estado de una toma de inventario
+ * Mientras está EN_PROCESO los inventarios del almacén no admiten movimientos
+ */
+export enum EstadoTomaInventario {
+  EN_PROCESO = 'EN_PROCESO',
+  APROBADA = 'APROBADA',
+  ANULADA = 'ANULADA',
+}
@@ -0,0 +1 @@
+export { EstadoTomaInventario } from './estado-toma-inventario.enum';
@@ -0,0 +1 @@
+export { TomaInventarioService } from './toma-inventario.service';
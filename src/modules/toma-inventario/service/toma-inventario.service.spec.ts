@@ -0,0 +1,156 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { TomaInventarioService } from './toma-inventario.service';
+import { TomaInventario } from '../entities';
+import { EstadoTomaInventario } from '../enum';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import { CreateMovimientoDto } from '../../movimientos/dto';
+import { MotivoMovimiento, TipoMovimiento } from '../../movimientos/enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+// El repositorio de movimientos usa rutas 'src/...' que jest no resuelve
+jest.mock('../../movimientos/repository/movimientos.repository', () => ({
+  MovimientosRepository: class {},
+}));
+
+/**
+ * Tests unitarios para TomaInventarioService
+ * Verifica las diferencias valorizadas y los movimientos generados al aprobar
+ */
+describe('TomaInventarioService', () => {
+  let service: TomaInventarioService;
+  let toma: TomaInventario;
+  let movimientos: CreateMovimientoDto[];
+
+  const detalle = (
+    id: number,
+    nombre: string,
+    stockSistema: number,
+    cantidadContada: number | null,
+  ) => ({
+    inventario: { id, producto: { codigo: `P${id}`, nombre } },
+    stockSistema: String(stockSistema),
+    costoUnitario: '10.0000',
+    cantidadContada,
+  });
+
+  beforeEach(() => {
+    movimientos = [];
+    toma = {
+      id: 7,
+      estado: EstadoTomaInventario.EN_PROCESO,
+      fechaInicio: new Date('2024-03-31T18:00:00'),
+      almacen: { id: 1, nombre: 'Principal' },
+      detalles: [
+        detalle(1, 'Arroz', 50, 48),
+        detalle(2, 'Azúcar', 20, 23),
+        detalle(3, 'Sal', 5, 5),
+      ],
+    } as unknown as TomaInventario;
+
+    const tomaRepository = {
+      findOne: jest.fn(() => Promise.resolve(toma)),
+      save: jest.fn((entidad: TomaInventario) => Promise.resolve(entidad)),
+    } as unknown as Repository<TomaInventario>;
+    const manager = {
+      create: jest.fn((_entidad: unknown, datos: object) => datos),
+      save: jest.fn((_entidad: unknown, datos: object) =>
+        Promise.resolve({ id: 99, ...datos }),
+      ),
+    } as unknown as EntityManager;
+    const dataSource = {
+      transaction: jest.fn((trabajo: (m: EntityManager) => Promise<void>) =>
+        trabajo(manager),
+      ),
+    } as unknown as DataSource;
+    const movimientosRepository = {
+      createWithManager: jest.fn((dto: CreateMovimientoDto) => {
+        movimientos.push(dto);
+        return Promise.resolve({ id: movimientos.length });
+      }),
+    } as unknown as MovimientosRepository;
+    const stockCalculationService = {
+      calcularConsumoLotes: jest.fn(() =>
+        Promise.resolve([{ idLote: 4, cantidad: 2, costoUnitario: 9 }]),
+      ),
+      calcularCostoUnitarioVenta: jest.fn(() => Promise.resolve(9)),
+    } as unknown as StockCalculationService;
+
+    service = new TomaInventarioService(
+      tomaRepository,
+      {} as Repository<Almacen>,
+      {} as Repository<Inventario>,
+      {} as Repository<InventarioLote>,
+      stockCalculationService,
+      {
+        invalidateMultipleInventarios: jest.fn(),
+      } as unknown as StockCacheService,
+      {
+        invalidarDesde: jest.fn(() => Promise.resolve()),
+      } as unknown as KardexSaldoService,
+      movimientosRepository,
+      {
+        obtenerConfiguracion: jest.fn(() =>
+          Promise.resolve({ metodoCalculoCosto: MetodoValoracion.FIFO }),
+        ),
+      } as unknown as PeriodoContableService,
+      dataSource,
+    );
+  });
+
+  describe('obtener', () => {
+    it('should value variances at the snapshot cost', async () => {
+      const resultado = await service.obtener(7, 1);
+
+      expect(resultado.detalles.map((d) => d.diferencia)).toEqual([-2, 3, 0]);
+      expect(resultado.valorSobrante).toBe(30);
+      expect(resultado.valorFaltante).toBe(20);
+    });
+  });
+
+  describe('aprobar', () => {
+    it('should post an adjustment for surpluses and a merma for shortages', async () => {
+      const resultado = await service.aprobar(7, 1, {});
+
+      expect(movimientos).toHaveLength(2);
+      expect(movimientos[0]).toMatchObject({
+        tipo: TipoMovimiento.SALIDA,
+        motivo: MotivoMovimiento.MERMA,
+        detalles: [{ idInventario: 1, cantidad: 2, costoUnitario: 9 }],
+      });
+      expect(movimientos[1]).toMatchObject({
+        tipo: TipoMovimiento.ENTRADA,
+        motivo: MotivoMovimiento.AJUSTE_INVENTARIO,
+        codigoTabla12: '28',
+        detalles: [{ idInventario: 2, cantidad: 3, idLote: 99 }],
+      });
+      expect(resultado.estado).toBe(EstadoTomaInventario.APROBADA);
+    });
+
+    it('should reject variances of serialized products', async () => {
+      toma.detalles[0].inventario.producto.serializado = true;
+      // Sin diferencia no hay ajuste que registrar
+      toma.detalles[2].inventario.producto.serializado = true;
+
+      await expect(service.aprobar(7, 1, {})).rejects.toThrow(
+        'deben regularizarse con un comprobante: Arroz',
+      );
+      expect(movimientos).toHaveLength(0);
+    });
+
+    it('should reject approval while items are uncounted', async () => {
+      toma.detalles[2].cantidadContada = null;
+
+      await expect(service.aprobar(7, 1, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(movimientos).toHaveLength(0);
+    });
+  });
+});
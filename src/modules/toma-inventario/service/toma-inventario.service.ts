@@ -0,0 +1,519 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { TomaInventario, TomaInventarioDetalle } from '../entities';
+import { EstadoTomaInventario } from '../enum';
+import {
+  CerrarTomaInventarioDto,
+  CreateTomaInventarioDto,
+  RegistrarConteoDto,
+  ResponseTomaInventarioDetalleDto,
+  ResponseTomaInventarioDto,
+} from '../dto';
+import { Almacen } from '../../almacen/entities/almacen.entity';
+import { Inventario, InventarioLote } from '../../inventario/entities';
+import { StockCalculationService } from '../../inventario/service/stock-calculation.service';
+import { StockCacheService } from '../../inventario/service/stock-cache.service';
+import { KardexSaldoService } from '../../inventario/service/kardex-saldo.service';
+import { MovimientosRepository } from '../../movimientos/repository/movimientos.repository';
+import {
+  EstadoMovimiento,
+  MotivoMovimiento,
+  TipoMovimiento,
+} from '../../movimientos/enum';
+import { PeriodoContableService } from '../../periodos/service/periodo-contable.service';
+import { MetodoValoracion } from '../../comprobantes/enum/metodo-valoracion.enum';
+
+/**
+ * Código SUNAT (tabla 12) de los ajustes por diferencia de inventario
+ */
+const CODIGO_AJUSTE_INVENTARIO = '28';
+
+const TOLERANCIA = 0.0001;
+
+/**
+ * Servicio de toma de inventario físico
+ * Los sobrantes ingresan como un lote nuevo al costo vigente y los faltantes salen como
+ * merma consumiendo lotes según la estrategia del producto
+ */
+@Injectable()
+export class TomaInventarioService {
+  private readonly logger = new Logger(TomaInventarioService.name);
+
+  constructor(
+    @InjectRepository(TomaInventario)
+    private readonly tomaRepository: Repository<TomaInventario>,
+    @InjectRepository(Almacen)
+    private readonly almacenRepository: Repository<Almacen>,
+    @InjectRepository(Inventario)
+    private readonly inventarioRepository: Repository<Inventario>,
+    @InjectRepository(InventarioLote)
+    private readonly loteRepository: Repository<InventarioLote>,
+    private readonly stockCalculationService: StockCalculationService,
+    private readonly stockCacheService: StockCacheService,
+    private readonly kardexSaldoService: KardexSaldoService,
+    private readonly movimientosRepository: MovimientosRepository,
+    private readonly periodoContableService: PeriodoContableService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Inicia la toma de un almacén guardando el stock y costo del sistema de cada inventario
+   * Desde este momento los inventarios del almacén no admiten movimientos
+   * @param personaId - ID de la empresa
+   * @param dto - Almacén y observaciones
+   */
+  async iniciar(
+    personaId: number,
+    dto: CreateTomaInventarioDto,
+  ): Promise<ResponseTomaInventarioDto> {
+    const almacen = await this.almacenRepository.findOne({
+      where: { id: dto.idAlmacen, persona: { id: personaId } },
+    });
+    if (!almacen) {
+      throw new NotFoundException(
+        `Almacén con ID ${dto.idAlmacen} no encontrado`,
+      );
+    }
+
+    const enCurso = await this.tomaRepository.findOne({
+      where: {
+        almacen: { id: almacen.id },
+        estado: EstadoTomaInventario.EN_PROCESO,
+      },
+    });
+    if (enCurso) {
+      throw new BadRequestException(
+        `El almacén ${almacen.nombre} ya tiene la toma ${enCurso.id} en curso`,
+      );
+    }
+
+    const inventarios = await this.inventarioRepository.find({
+      where: { almacen: { id: almacen.id } },
+    });
+    if (inventarios.length === 0) {
+      throw new BadRequestException(
+        `El almacén ${almacen.nombre} no tiene inventarios que contar`,
+      );
+    }
+
+    const detalles: TomaInventarioDetalle[] = [];
+    for (const inventario of inventarios) {
+      const stock = await this.stockCalculationService.calcularStockInventario(
+        inventario.id,
+      );
+      detalles.push({
+        inventario,
+        stockSistema: this.redondear(stock?.stockActual ?? 0),
+        costoUnitario: this.redondear(
+          stock?.costoPromedioActual ||
+            (await this.obtenerUltimoCosto(inventario.id)),
+        ),
+        cantidadContada: null,
+      } as TomaInventarioDetalle);
+    }
+
+    const toma = await this.tomaRepository.save(
+      this.tomaRepository.create({
+        fechaInicio: new Date(),
+        estado: EstadoTomaInventario.EN_PROCESO,
+        observaciones: dto.observaciones ?? null,
+        almacen,
+        persona: { id: personaId },
+        detalles,
+      }),
+    );
+    this.logger.log(
+      `Toma ${toma.id} iniciada en el almacén ${almacen.id} con ${detalles.length} inventarios`,
+    );
+
+    return this.obtener(toma.id, personaId);
+  }
+
+  /**
+   * Lista las tomas de la empresa, las más recientes primero
+   * @param personaId - ID de la empresa
+   * @param idAlmacen - Almacén (opcional)
+   */
+  async listar(
+    personaId: number,
+    idAlmacen?: number,
+  ): Promise<ResponseTomaInventarioDto[]> {
+    const tomas = await this.tomaRepository.find({
+      where: {
+        persona: { id: personaId },
+        ...(idAlmacen ? { almacen: { id: idAlmacen } } : {}),
+      },
+      relations: [
+        'almacen',
+        'detalles',
+        'detalles.inventario',
+        'detalles.movimiento',
+      ],
+      order: { fechaInicio: 'DESC' },
+    });
+    return tomas.map((toma) => this.mapearToma(toma));
+  }
+
+  /**
+   * Obtiene una toma con sus diferencias valorizadas
+   * @param id - ID de la toma
+   * @param personaId - ID de la empresa
+   */
+  async obtener(
+    id: number,
+    personaId: number,
+  ): Promise<ResponseTomaInventarioDto> {
+    return this.mapearToma(await this.buscarToma(id, personaId));
+  }
+
+  /**
+   * Registra las cantidades contadas; un nuevo conteo reemplaza al anterior
+   * @param id - ID de la toma
+   * @param personaId - ID de la empresa
+   * @param dto - Cantidades por inventario
+   */
+  async registrarConteos(
+    id: number,
+    personaId: number,
+    dto: RegistrarConteoDto,
+  ): Promise<ResponseTomaInventarioDto> {
+    const toma = await this.buscarToma(id, personaId);
+    this.validarEnCurso(toma);
+
+    const porInventario = new Map(
+      toma.detalles.map((detalle) => [Number(detalle.inventario.id), detalle]),
+    );
+    for (const conteo of dto.conteos) {
+      const detalle = porInventario.get(conteo.idInventario);
+      if (!detalle) {
+        throw new BadRequestException(
+          `El inventario ${conteo.idInventario} no pertenece a la toma ${id}`,
+        );
+      }
+      detalle.cantidadContada = conteo.cantidadContada;
+    }
+
+    await this.tomaRepository.save(toma);
+    return this.mapearToma(toma);
+  }
+
+  /**
+   * Aprueba la toma: registra un ajuste por cada sobrante y una merma por cada faltante
+   * Todos los inventarios deben estar contados
+   * @param id - ID de la toma
+   * @param personaId - ID de la empresa
+   * @param dto - Usuario que aprueba
+   */
+  async aprobar(
+    id: number,
+    personaId: number,
+    dto: CerrarTomaInventarioDto,
+  ): Promise<ResponseTomaInventarioDto> {
+    const toma = await this.buscarToma(id, personaId);
+    this.validarEnCurso(toma);
+
+    const pendientes = toma.detalles.filter(
+      (detalle) =>
+        detalle.cantidadContada === null ||
+        detalle.cantidadContada === undefined,
+    );
+    if (pendientes.length > 0) {
+      throw new BadRequestException(
+        `Faltan contar ${pendientes.length} inventarios de la toma ${id}`,
+      );
+    }
+    // Los ajustes no registran números de serie; esas unidades se regularizan con comprobantes
+    const serializados = toma.detalles.filter(
+      (detalle) =>
+        detalle.inventario.producto?.serializado &&
+        Math.abs(
+          Number(detalle.cantidadContada) - Number(detalle.stockSistema),
+        ) >= TOLERANCIA,
+    );
+    if (serializados.length > 0) {
+      throw new BadRequestException(
+        `Las diferencias de productos con número de serie deben regularizarse con un comprobante: ${serializados.map((detalle) => detalle.inventario.producto.nombre).join(', ')}`,
+      );
+    }
+
+    const configuracion =
+      await this.periodoContableService.obtenerConfiguracion(personaId);
+    const fecha = new Date();
+    const afectados: number[] = [];
+
+    await this.dataSource.transaction(async (manager) => {
+      for (const detalle of toma.detalles) {
+        const diferencia = this.redondear(
+          Number(detalle.cantidadContada) - Number(detalle.stockSistema),
+        );
+        if (Math.abs(diferencia) < TOLERANCIA) {
+          continue;
+        }
+
+        detalle.movimiento =
+          diferencia > 0
+            ? await this.registrarSobrante(
+                toma,
+                detalle,
+                diferencia,
+                fecha,
+                manager,
+              )
+            : await this.registrarFaltante(
+                toma,
+                detalle,
+                -diferencia,
+                fecha,
+                configuracion.metodoCalculoCosto,
+                manager,
+              );
+        afectados.push(Number(detalle.inventario.id));
+      }
+
+      toma.estado = EstadoTomaInventario.APROBADA;
+      toma.fechaCierre = fecha;
+      toma.usuarioCierre = dto.usuarioCierre ?? null;
+      await manager.save(TomaInventario, toma);
+      await this.kardexSaldoService.invalidarDesde(afectados, fecha, manager);
+    });
+
+    this.stockCacheService.invalidateMultipleInventarios(afectados);
+    this.logger.log(
+      `Toma ${id} aprobada: ${afectados.length} ajustes registrados`,
+    );
+    return this.obtener(id, personaId);
+  }
+
+  /**
+   * Anula la toma sin registrar ajustes y libera los inventarios
+   * @param id - ID de la toma
+   * @param personaId - ID de la empresa
+   * @param dto - Usuario que anula
+   */
+  async anular(
+    id: number,
+    personaId: number,
+    dto: CerrarTomaInventarioDto,
+  ): Promise<ResponseTomaInventarioDto> {
+    const toma = await this.buscarToma(id, personaId);
+    this.validarEnCurso(toma);
+
+    toma.estado = EstadoTomaInventario.ANULADA;
+    toma.fechaCierre = new Date();
+    toma.usuarioCierre = dto.usuarioCierre ?? null;
+    await this.tomaRepository.save(toma);
+    return this.mapearToma(toma);
+  }
+
+  /**
+   * Ingresa el sobrante como un lote nuevo valorizado al costo vigente
+   */
+  private async registrarSobrante(
+    toma: TomaInventario,
+    detalle: TomaInventarioDetalle,
+    cantidad: number,
+    fecha: Date,
+    manager: EntityManager,
+  ) {
+    const lote = await manager.save(
+      InventarioLote,
+      manager.create(InventarioLote, {
+        inventario: detalle.inventario,
+        numeroLote: `TOMA-${toma.id}-${detalle.inventario.id}`,
+        cantidadInicial: 0,
+        costoUnitario: Number(detalle.costoUnitario),
+        fechaIngreso: fecha,
+        observaciones: `Sobrante de la toma de inventario ${toma.id}`,
+      }),
+    );
+
+    return this.movimientosRepository.createWithManager(
+      {
+        tipo: TipoMovimiento.ENTRADA,
+        motivo: MotivoMovimiento.AJUSTE_INVENTARIO,
+        codigoTabla12: CODIGO_AJUSTE_INVENTARIO,
+        fecha,
+        numeroDocumento: `TOMA-${toma.id}`,
+        observaciones: `Sobrante de la toma de inventario ${toma.id}`,
+        estado: EstadoMovimiento.PROCESADO,
+        detalles: [
+          {
+            idInventario: Number(detalle.inventario.id),
+            cantidad,
+            idLote: Number(lote.id),
+            costoUnitario: Number(detalle.costoUnitario),
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Registra el faltante como merma consumiendo lotes según la estrategia del producto
+   * Incluye lotes vencidos: el faltante ya no está físicamente en el almacén
+   */
+  private async registrarFaltante(
+    toma: TomaInventario,
+    detalle: TomaInventarioDetalle,
+    cantidad: number,
+    fecha: Date,
+    metodoValoracion: MetodoValoracion,
+    manager: EntityManager,
+  ) {
+    const idInventario = Number(detalle.inventario.id);
+    const consumo = await this.stockCalculationService.calcularConsumoLotes(
+      idInventario,
+      cantidad,
+      fecha,
+      true,
+    );
+    const costoUnitario =
+      metodoValoracion === MetodoValoracion.FIFO
+        ? await this.stockCalculationService.calcularCostoUnitarioVenta(
+            idInventario,
+            cantidad,
+            metodoValoracion,
+            fecha,
+          )
+        : metodoValoracion === MetodoValoracion.ESPECIFICO
+          ? this.stockCalculationService.calcularCostoConsumo(consumo)
+          : Number(detalle.costoUnitario);
+
+    return this.movimientosRepository.createWithManager(
+      {
+        tipo: TipoMovimiento.SALIDA,
+        motivo: MotivoMovimiento.MERMA,
+        codigoTabla12: CODIGO_AJUSTE_INVENTARIO,
+        fecha,
+        numeroDocumento: `TOMA-${toma.id}`,
+        observaciones: `Faltante de la toma de inventario ${toma.id}`,
+        estado: EstadoMovimiento.PROCESADO,
+        detalles: [
+          {
+            idInventario,
+            cantidad,
+            costoUnitario: this.redondear(costoUnitario),
+            detallesSalida: consumo.map((lote) => ({
+              idLote: lote.idLote,
+              costoUnitarioDeLote: lote.costoUnitario,
+              cantidad: lote.cantidad,
+            })),
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  private async buscarToma(
+    id: number,
+    personaId: number,
+  ): Promise<TomaInventario> {
+    const toma = await this.tomaRepository.findOne({
+      where: { id, persona: { id: personaId } },
+      relations: [
+        'almacen',
+        'detalles',
+        'detalles.inventario',
+        'detalles.movimiento',
+      ],
+    });
+    if (!toma) {
+      throw new NotFoundException(
+        `Toma de inventario con ID ${id} no encontrada`,
+      );
+    }
+    return toma;
+  }
+
+  private validarEnCurso(toma: TomaInventario): void {
+    if (toma.estado !== EstadoTomaInventario.EN_PROCESO) {
+      throw new BadRequestException(
+        `La toma de inventario ${toma.id} ya está ${toma.estado.toLowerCase()}`,
+      );
+    }
+  }
+
+  /**
+   * Costo del último lote; valoriza inventarios sin stock al iniciar la toma
+   */
+  private async obtenerUltimoCosto(idInventario: number): Promise<number> {
+    const lote = await this.loteRepository.findOne({
+      where: { inventario: { id: idInventario } },
+      order: { fechaIngreso: 'DESC', id: 'DESC' },
+    });
+    return lote ? Number(lote.costoUnitario) : 0;
+  }
+
+  private mapearToma(toma: TomaInventario): ResponseTomaInventarioDto {
+    const detalles = [...(toma.detalles || [])]
+      .map((detalle) => this.mapearDetalle(detalle))
+      .sort((a, b) => a.producto.localeCompare(b.producto));
+    const contados = detalles.filter(
+      (detalle) => detalle.cantidadContada !== null,
+    );
+
+    return {
+      id: toma.id,
+      idAlmacen: toma.almacen.id,
+      almacen: toma.almacen.nombre,
+      estado: toma.estado,
+      fechaInicio: toma.fechaInicio,
+      fechaCierre: toma.fechaCierre ?? null,
+      observaciones: toma.observaciones ?? null,
+      contados: contados.length,
+      pendientes: detalles.length - contados.length,
+      valorSobrante: this.redondear(
+        contados.reduce(
+          (total, detalle) => total + Math.max(0, detalle.valorDiferencia ?? 0),
+          0,
+        ),
+      ),
+      valorFaltante: this.redondear(
+        contados.reduce(
+          (total, detalle) =>
+            total + Math.max(0, -(detalle.valorDiferencia ?? 0)),
+          0,
+        ),
+      ),
+      detalles,
+    };
+  }
+
+  private mapearDetalle(
+    detalle: TomaInventarioDetalle,
+  ): ResponseTomaInventarioDetalleDto {
+    const stockSistema = Number(detalle.stockSistema);
+    const costoUnitario = Number(detalle.costoUnitario);
+    const contada =
+      detalle.cantidadContada === null || detalle.cantidadContada === undefined
+        ? null
+        : Number(detalle.cantidadContada);
+    const diferencia =
+      contada === null ? null : this.redondear(contada - stockSistema);
+
+    return {
+      idInventario: Number(detalle.inventario.id),
+      codigoProducto: detalle.inventario.producto?.codigo ?? '',
+      producto: detalle.inventario.producto?.nombre ?? '',
+      stockSistema,
+      cantidadContada: contada,
+      diferencia,
+      costoUnitario,
+      valorDiferencia:
+        diferencia === null ? null : this.redondear(diferencia * costoUnitario),
+      idMovimiento: detalle.movimiento?.id ?? null,
+    };
+  }
+
+  private redondear(valor: number): number {
+    return Math.round(valor * 10000) / 10000;
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TomaInventario, TomaInventarioDetalle } from './entities';
+import { TomaInventarioService } from './service';
+import { TomaInventarioController } from './controller';
+import { Almacen } from '../almacen/entities/almacen.entity';
+import { Inventario, InventarioLote } from '../inventario/entities';
+import { InventarioModule } from '../inventario/inventario.module';
+import { MovimientosModule } from '../movimientos/movimientos.module';
+import { PeriodosModule } from '../periodos/periodos.module';
+import { UserModule } from '../users/user.module';
+
+/**
+ * Módulo de toma de inventario
+ * Conteos físicos por almacén y sus ajustes de Kardex
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      TomaInventario,
+      TomaInventarioDetalle,
+      Almacen,
+      Inventario,
+      InventarioLote,
+    ]),
+    InventarioModule,
+    MovimientosModule,
+    PeriodosModule,
+    UserModule,
+  ],
+  controllers: [TomaInventarioController],
+  providers: [TomaInventarioService],
+  exports: [TomaInventarioService, TypeOrmModule],
+})
+export class TomaInventarioModule {}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, Matches } from 'class-validator';
 
 /**
  * DTO para actualizar datos de una empresa (persona)
@@ -49,4 +49,17 @@ export class UpdatePersonaDto {
   @IsOptional()
   @IsString()
   direccion?: string;
+
+  @ApiProperty({
+    description:
+      'Logo de la empresa en data URL base64 (PNG o JPEG); se imprime en los comprobantes',
+    example: 'data:image/png;base64,iVBORw0KGgo...',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^data:image\/(png|jpeg|jpg);base64,/, {
+    message: 'El logo debe ser un data URL PNG o JPEG en base64',
+  })
+  logo?: string;
 }
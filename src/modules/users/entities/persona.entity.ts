@@ -21,6 +21,10 @@ export class Persona {
   @Column({ nullable: true })
   direccion: string;
 
+  // Logo en data URL base64 (PNG o JPEG) para los comprobantes impresos
+  @Column({ type: 'text', nullable: true })
+  logo: string | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt: Date;
 